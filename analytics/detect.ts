@@ -0,0 +1,288 @@
+import { ELO_PRECISION, applyEloChange, expectedScore } from "../sdk/elo";
+
+// ━━━ TYPES ━━━
+
+/**
+ * An Engine match between two players as the detectors see it. A team or
+ * free-for-all match is one entry per pair of players on opposing teams,
+ * all sharing its id.
+ */
+export interface ScannedMatch {
+  id: number;
+  player1: string;
+  player2: string;
+  /** 1 = player1 wins, 2 = player2 wins, 3 = draw */
+  outcome: 1 | 2 | 3;
+  player1EloBefore: number;
+  player2EloBefore: number;
+  player1EloChange: number;
+  player2EloChange: number;
+  /**
+   * Opponents each player faced in the match (default 1). In a team or
+   * free-for-all match a player's rating change is split evenly across
+   * their pairs, so rating velocity counts it once.
+   */
+  player1Opponents?: number;
+  player2Opponents?: number;
+  /** Unix seconds */
+  timestamp: number;
+  domain: string;
+}
+
+export interface CollusionThresholds {
+  /** Matches a pair must have played before its frequency is judged (default 6) */
+  minPairMatches?: number;
+  /** Share of either player's matches played against the other that flags the pair (default 0.5) */
+  pairShare?: number;
+  /** Decisive results a pair must have before alternation is judged (default 8) */
+  minTradedResults?: number;
+  /** Share of consecutive decisive results where the winner switches that flags win trading (default 0.85) */
+  alternation?: number;
+  /** Length of the rating-velocity window in seconds (default 7 days) */
+  velocityWindow?: number;
+  /** ELO gained within one window that flags a player (default 120) */
+  maxVelocity?: number;
+}
+
+export type FindingKind = "repeat-pair" | "win-trading" | "rating-velocity";
+
+export interface CollusionFinding {
+  kind: FindingKind;
+  /**
+   * The pair, or for rating velocity the player followed by the opponent who
+   * supplied most of the gain (when one supplied at least half of it)
+   */
+  players: string[];
+  matchIds: number[];
+  /** Pair share, alternation rate or ELO gained — whichever crossed `threshold` */
+  value: number;
+  threshold: number;
+  summary: string;
+}
+
+/** Players linked by findings, with everything that links them */
+export interface CollusionCluster {
+  players: string[];
+  findings: CollusionFinding[];
+  matchIds: number[];
+}
+
+export interface CollusionReport {
+  /** Matches analysed, and the id range they came from (null when empty) */
+  matches: number;
+  fromMatch: number | null;
+  toMatch: number | null;
+  players: number;
+  findings: CollusionFinding[];
+  /** Most findings first */
+  clusters: CollusionCluster[];
+}
+
+const DAY = 24 * 60 * 60;
+
+export const DEFAULT_THRESHOLDS: Required<CollusionThresholds> = {
+  minPairMatches: 6,
+  pairShare: 0.5,
+  minTradedResults: 8,
+  alternation: 0.85,
+  velocityWindow: 7 * DAY,
+  maxVelocity: 120,
+};
+
+// ━━━ ANALYSIS ━━━
+
+/**
+ * Flag ELO farming and collusion in a match history.
+ *
+ * Three detectors run over the results between pairs of players, team and
+ * free-for-all matches included pair by pair. Repeat pairs are two accounts
+ * that mostly play each other. Win trading is a pair whose decisive results
+ * alternate winners far more regularly than chance. Rating velocity is a
+ * player gaining more ELO inside one window than honest play allows, which
+ * is how an alt fed losses by a high-rated account shows up. Findings that
+ * share a player are merged into clusters, so a ring of accounts comes out
+ * as one cluster.
+ */
+export function analyzeMatches(matches: ScannedMatch[], thresholds: CollusionThresholds = {}): CollusionReport {
+  const t = { ...DEFAULT_THRESHOLDS, ...thresholds };
+  const ordered = [...matches].sort((a, b) => a.id - b.id);
+  const players = new Set(ordered.flatMap((m) => [m.player1.toLowerCase(), m.player2.toLowerCase()]));
+
+  const findings = [...pairFindings(ordered, t), ...velocityFindings(ordered, t)];
+  return {
+    matches: new Set(ordered.map((m) => m.id)).size,
+    fromMatch: ordered[0]?.id ?? null,
+    toMatch: ordered[ordered.length - 1]?.id ?? null,
+    players: players.size,
+    findings,
+    clusters: clusterFindings(findings),
+  };
+}
+
+/** Repeat-pair and win-trading findings, one pass over each pair's matches */
+function pairFindings(matches: ScannedMatch[], t: Required<CollusionThresholds>): CollusionFinding[] {
+  // Matches per player, each team match once however many pairs it has
+  const totals = new Map<string, number>();
+  const lastCounted = new Map<string, number>();
+  const pairs = new Map<string, ScannedMatch[]>();
+  for (const m of matches) {
+    const a = m.player1.toLowerCase();
+    const b = m.player2.toLowerCase();
+    for (const p of [a, b]) {
+      if (lastCounted.get(p) === m.id) continue;
+      lastCounted.set(p, m.id);
+      totals.set(p, (totals.get(p) ?? 0) + 1);
+    }
+    const key = a < b ? `${a}:${b}` : `${b}:${a}`;
+    const games = pairs.get(key);
+    if (games) games.push(m);
+    else pairs.set(key, [m]);
+  }
+
+  const findings: CollusionFinding[] = [];
+  for (const games of pairs.values()) {
+    const [p1, p2] = [games[0].player1, games[0].player2];
+    const ids = games.map((m) => m.id);
+
+    if (games.length >= t.minPairMatches) {
+      const shares = [p1, p2].map((p) => games.length / totals.get(p.toLowerCase())!);
+      const share = Math.max(...shares);
+      if (share >= t.pairShare) {
+        const heavier = shares[0] >= shares[1] ? p1 : p2;
+        findings.push({
+          kind: "repeat-pair",
+          players: [p1, p2],
+          matchIds: ids,
+          value: share,
+          threshold: t.pairShare,
+          summary: `${games.length} matches together, ${percent(share)} of ${short(heavier)}'s matches`,
+        });
+      }
+    }
+
+    const winners = games
+      .filter((m) => m.outcome !== 3)
+      .map((m) => (m.outcome === 1 ? m.player1 : m.player2).toLowerCase());
+    if (winners.length >= t.minTradedResults) {
+      const switches = winners.slice(1).filter((w, i) => w !== winners[i]).length;
+      const rate = switches / (winners.length - 1);
+      if (rate >= t.alternation) {
+        findings.push({
+          kind: "win-trading",
+          players: [p1, p2],
+          matchIds: ids.filter((_, i) => games[i].outcome !== 3),
+          value: rate,
+          threshold: t.alternation,
+          summary: `Winner switched in ${switches} of ${winners.length - 1} consecutive decisive results`,
+        });
+      }
+    }
+  }
+  return findings;
+}
+
+/** Each player's largest ELO gain inside any `velocityWindow`, flagged above `maxVelocity` */
+function velocityFindings(matches: ScannedMatch[], t: Required<CollusionThresholds>): CollusionFinding[] {
+  type Side = { match: ScannedMatch; player: string; opponent: string; gain: number; surplus: number };
+  const sides = new Map<string, Side[]>();
+  for (const m of matches) {
+    for (const [player, opponent, before, opponentBefore, change, score, opponents] of [
+      [m.player1, m.player2, m.player1EloBefore, m.player2EloBefore, m.player1EloChange, m.outcome === 1 ? 1 : m.outcome === 2 ? 0 : 0.5, m.player1Opponents ?? 1],
+      [m.player2, m.player1, m.player2EloBefore, m.player1EloBefore, m.player2EloChange, m.outcome === 2 ? 1 : m.outcome === 1 ? 0 : 0.5, m.player2Opponents ?? 1],
+    ] as const) {
+      const key = player.toLowerCase();
+      const side: Side = {
+        match: m,
+        player,
+        opponent,
+        // The change actually applied, after the Engine's floor, shared across the player's pairs
+        gain: (applyEloChange(before, change) - before) / opponents,
+        surplus: (score - expectedScore(before, opponentBefore) / ELO_PRECISION) / opponents,
+      };
+      const history = sides.get(key);
+      if (history) history.push(side);
+      else sides.set(key, [side]);
+    }
+  }
+
+  const findings: CollusionFinding[] = [];
+  for (const history of sides.values()) {
+    // Largest gain over consecutive matches spanning at most `velocityWindow`.
+    // Timestamps never decrease with match id, so the earliest allowed start
+    // only moves forward; `starts` keeps the candidates whose prefix sum (gain
+    // before them) could still be the smallest, in increasing order.
+    const prefix = [0];
+    for (const s of history) prefix.push(prefix[prefix.length - 1] + s.gain);
+    let best = { gain: 0, start: 0, end: -1 };
+    const starts: number[] = [];
+    let head = 0;
+    for (let end = 0; end < history.length; end++) {
+      while (starts.length > head && prefix[starts[starts.length - 1]] > prefix[end]) starts.pop();
+      starts.push(end);
+      while (history[end].match.timestamp - history[starts[head]].match.timestamp > t.velocityWindow) head++;
+      const gain = prefix[end + 1] - prefix[starts[head]];
+      if (gain > best.gain) best = { gain, start: starts[head], end };
+    }
+    if (best.gain < t.maxVelocity) continue;
+
+    const window = history.slice(best.start, best.end + 1);
+    const bySource = new Map<string, number>();
+    for (const s of window) if (s.gain > 0) bySource.set(s.opponent, (bySource.get(s.opponent) ?? 0) + s.gain);
+    const [source, sourceGain] = [...bySource.entries()].sort((a, b) => b[1] - a[1])[0];
+    const sourceShare = sourceGain / [...bySource.values()].reduce((a, b) => a + b, 0);
+    const surplus = window.reduce((sum, s) => sum + s.surplus, 0);
+    const days = (window[window.length - 1].match.timestamp - window[0].match.timestamp) / DAY;
+    const matchIds = [...new Set(window.map((s) => s.match.id))];
+
+    findings.push({
+      kind: "rating-velocity",
+      players: sourceShare >= 0.5 ? [window[0].player, source] : [window[0].player],
+      matchIds,
+      value: best.gain,
+      threshold: t.maxVelocity,
+      summary:
+        `+${Math.round(best.gain)} ELO in ${matchIds.length} matches over ${days.toFixed(1)} days ` +
+        `(${surplus.toFixed(1)} wins above expectation), ${percent(sourceShare)} of it from ${short(source)}`,
+    });
+  }
+  return findings;
+}
+
+/** Merge findings that share a player into clusters */
+function clusterFindings(findings: CollusionFinding[]): CollusionCluster[] {
+  const parent = new Map<string, string>();
+  const root = (p: string): string => {
+    const up = parent.get(p) ?? p;
+    if (up === p) return p;
+    const r = root(up);
+    parent.set(p, r);
+    return r;
+  };
+  for (const f of findings) {
+    const [first, ...rest] = f.players.map((p) => p.toLowerCase());
+    for (const p of rest) parent.set(root(p), root(first));
+  }
+
+  const clusters = new Map<string, CollusionCluster>();
+  for (const f of findings) {
+    const key = root(f.players[0].toLowerCase());
+    const cluster = clusters.get(key) ?? { players: [], findings: [], matchIds: [] };
+    cluster.findings.push(f);
+    for (const p of f.players) {
+      if (!cluster.players.some((q) => q.toLowerCase() === p.toLowerCase())) cluster.players.push(p);
+    }
+    cluster.matchIds = [...new Set([...cluster.matchIds, ...f.matchIds])].sort((a, b) => a - b);
+    clusters.set(key, cluster);
+  }
+  return [...clusters.values()].sort((a, b) => b.findings.length - a.findings.length || b.matchIds.length - a.matchIds.length);
+}
+
+// ━━━ HELPERS ━━━
+
+function short(address: string): string {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+function percent(share: number): string {
+  return `${Math.round(share * 100)}%`;
+}
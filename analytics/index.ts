@@ -0,0 +1,11 @@
+export { analyzeMatches, DEFAULT_THRESHOLDS } from "./detect";
+export type {
+  ScannedMatch,
+  CollusionThresholds,
+  FindingKind,
+  CollusionFinding,
+  CollusionCluster,
+  CollusionReport,
+} from "./detect";
+export { SkillProofCollusionScanner, collusionEvidence } from "./scanner";
+export type { CollusionScanOptions, DisputeFilingOptions, DisputeFilingResult } from "./scanner";
@@ -0,0 +1,197 @@
+import { ethers } from "ethers";
+
+import deployments from "../lib/deployments.json";
+import RegistryABI from "../lib/abi.json";
+import EngineABI from "../lib/engine-abi.json";
+import DisputesABI from "../lib/disputes-abi.json";
+import { CollusionCluster, CollusionReport, CollusionThresholds, ScannedMatch, analyzeMatches } from "./detect";
+
+// ━━━ TYPES ━━━
+
+export interface CollusionScanOptions {
+  /** SkillProofEngine address (defaults to Coston2) */
+  engine?: string;
+  /** SkillProofDisputes address; required by `fileDisputes` */
+  disputes?: string;
+  /** First match id to scan (default 0) */
+  fromMatch?: number;
+  /** Last match id to scan (default: the latest) */
+  toMatch?: number;
+  thresholds?: CollusionThresholds;
+  /** `getMatch` calls in flight at once (default 20) */
+  concurrency?: number;
+}
+
+export interface DisputeFilingOptions {
+  /** Clusters with fewer findings are not filed (default 2) */
+  minFindings?: number;
+  /** Where the cluster's evidence is published; the evidence hash is filed either way */
+  evidenceURI?: (cluster: CollusionCluster) => string | Promise<string>;
+  /** Bond per dispute in wei (default: the contract's current bond) */
+  bond?: bigint;
+  /** Check every player but send nothing (default false) */
+  dryRun?: boolean;
+}
+
+export interface DisputeFilingResult {
+  filed: { player: string; disputeId: number | null; evidenceHash: string; txHash: string | null }[];
+  skipped: { player: string; reason: string }[];
+  dryRun: boolean;
+}
+
+// `DisputeStatus.Voided` on the Engine: the result was taken back out of both records
+const VOIDED = 3;
+
+// ━━━ EVIDENCE ━━━
+
+/** Canonical JSON for a cluster — the document behind a dispute's evidence hash */
+export function collusionEvidence(cluster: CollusionCluster): string {
+  return JSON.stringify({
+    type: "skillproof-collusion",
+    players: cluster.players,
+    matchIds: cluster.matchIds,
+    findings: cluster.findings.map(({ kind, players, matchIds, value, threshold, summary }) => ({
+      kind,
+      players,
+      matchIds,
+      value,
+      threshold,
+      summary,
+    })),
+  });
+}
+
+// ━━━ SCANNER ━━━
+
+/**
+ * Scans SkillProofEngine match history for ELO farming and collusion.
+ *
+ * `scan` reads matches with `getMatch` and runs `analyzeMatches` over them.
+ * Team and free-for-all matches are read as one entry per pair of players on
+ * opposing teams. Results voided through an Engine dispute are skipped;
+ * corrected ones are read as corrected. `fileDisputes`
+ * turns flagged clusters into bonded `SkillProofDisputes` challenges against
+ * the members' credentials, with the cluster's evidence hash, so an upheld
+ * ruling slashes the issuer's stake.
+ */
+export class SkillProofCollusionScanner {
+  private runner: ethers.ContractRunner;
+  private engine: ethers.Contract;
+  private options: CollusionScanOptions;
+
+  constructor(runner: ethers.Signer | ethers.Provider, options: CollusionScanOptions = {}) {
+    this.runner = runner;
+    this.options = options;
+    this.engine = new ethers.Contract(options.engine ?? deployments.coston2.SkillProofEngine, EngineABI, runner);
+  }
+
+  /** Read the configured match range and analyse it */
+  async scan(): Promise<CollusionReport> {
+    return analyzeMatches(await this.readMatches(), this.options.thresholds);
+  }
+
+  /** Matches in the configured range whose results stand, team matches pair by pair */
+  async readMatches(): Promise<ScannedMatch[]> {
+    const count = Number(await this.engine.getMatchCount());
+    const from = this.options.fromMatch ?? 0;
+    const to = Math.min(this.options.toMatch ?? count - 1, count - 1);
+    const concurrency = this.options.concurrency ?? 20;
+
+    const matches: ScannedMatch[] = [];
+    for (let start = from; start <= to; start += concurrency) {
+      const ids = Array.from({ length: Math.min(concurrency, to - start + 1) }, (_, i) => start + i);
+      const read = await Promise.all(
+        ids.map((id) => Promise.all([this.engine.getMatch(id), this.engine.disputeStatus(id)]))
+      );
+      read.forEach(([m, status], i) => {
+        if (Number(status) === VOIDED) return;
+        if (Number(m.outcome) === 0) {
+          matches.push(...opposingPairs(ids[i], m));
+          return;
+        }
+        matches.push({
+          id: ids[i],
+          player1: m.player1,
+          player2: m.player2,
+          outcome: Number(m.outcome) as 1 | 2 | 3,
+          player1EloBefore: Number(m.player1EloBefore),
+          player2EloBefore: Number(m.player2EloBefore),
+          player1EloChange: Number(m.player1EloChange),
+          player2EloChange: Number(m.player2EloChange),
+          timestamp: Number(m.timestamp),
+          domain: m.domain,
+        });
+      });
+    }
+    return matches;
+  }
+
+  /**
+   * Open a credential dispute against each member of every cluster with at
+   * least `minFindings` findings. Members without a valid credential, or
+   * with a dispute already open, are skipped.
+   */
+  async fileDisputes(report: CollusionReport, options: DisputeFilingOptions = {}): Promise<DisputeFilingResult> {
+    if (!this.options.disputes) throw new Error("No SkillProofDisputes address configured");
+    const disputes = new ethers.Contract(this.options.disputes, DisputesABI, this.runner);
+    const registry = new ethers.Contract(await disputes.registry(), RegistryABI, this.runner);
+    const dryRun = options.dryRun ?? false;
+    const bond = options.bond ?? (await disputes.disputeBond());
+    const result: DisputeFilingResult = { filed: [], skipped: [], dryRun };
+
+    for (const cluster of report.clusters.filter((c) => c.findings.length >= (options.minFindings ?? 2))) {
+      const evidenceHash = ethers.id(collusionEvidence(cluster));
+      const uri = options.evidenceURI ? await options.evidenceURI(cluster) : "";
+      for (const player of cluster.players) {
+        if (!(await registry.hasCredential(player))) {
+          result.skipped.push({ player, reason: "No credential" });
+        } else if (!(await registry.getCredential(player)).isValid) {
+          result.skipped.push({ player, reason: "Credential revoked" });
+        } else if (await disputes.hasOpenDispute(player)) {
+          result.skipped.push({ player, reason: "Dispute already open" });
+        } else if (dryRun) {
+          result.filed.push({ player, disputeId: null, evidenceHash, txHash: null });
+        } else {
+          const tx = await disputes.openDispute(player, uri, evidenceHash, { value: bond });
+          const receipt = await tx.wait();
+          const opened = receipt.logs
+            .map((log: ethers.Log) => disputes.interface.parseLog(log))
+            .find((e: ethers.LogDescription | null) => e?.name === "DisputeOpened");
+          if (!opened) throw new Error(`DisputeOpened event not found in ${receipt.hash}`);
+          result.filed.push({ player, disputeId: Number(opened.args.id), evidenceHash, txHash: receipt.hash });
+        }
+      }
+    }
+    return result;
+  }
+}
+
+/** A team or free-for-all match as one `ScannedMatch` per pair of players on opposing teams */
+function opposingPairs(id: number, m: ethers.Result): ScannedMatch[] {
+  const players: string[] = [...m.participants];
+  const teams = [...m.teams].map(Number);
+  const placements = [...m.placements].map(Number);
+  const opponents = teams.map((team) => teams.filter((other) => other !== team).length);
+
+  const pairs: ScannedMatch[] = [];
+  for (let i = 0; i < players.length; i++) {
+    for (let j = i + 1; j < players.length; j++) {
+      if (teams[i] === teams[j]) continue;
+      pairs.push({
+        id,
+        player1: players[i],
+        player2: players[j],
+        outcome: placements[i] < placements[j] ? 1 : placements[i] > placements[j] ? 2 : 3,
+        player1EloBefore: Number(m.elosBefore[i]),
+        player2EloBefore: Number(m.elosBefore[j]),
+        player1EloChange: Number(m.eloChanges[i]),
+        player2EloChange: Number(m.eloChanges[j]),
+        player1Opponents: opponents[i],
+        player2Opponents: opponents[j],
+        timestamp: Number(m.timestamp),
+        domain: m.domain,
+      });
+    }
+  }
+  return pairs;
+}
@@ -0,0 +1,100 @@
+import {
+  ApiStatus,
+  BountyQuery,
+  BountyView,
+  CredentialQuery,
+  CredentialView,
+  LeaderboardEntryView,
+  LeaderboardQuery,
+  MarketQuery,
+  MarketView,
+  MatchQuery,
+  MatchView,
+  Page,
+  PageQuery,
+  ProposalQuery,
+  ProposalView,
+} from "./types";
+
+/**
+ * Typed client for the SkillProof read API. `get*` by id/address resolves to
+ * null on 404; any other non-2xx response throws with the server's message.
+ */
+export class SkillProofApiClient {
+  private baseUrl: string;
+
+  constructor(baseUrl: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+  }
+
+  getStatus(): Promise<ApiStatus> {
+    return this.request("/status");
+  }
+
+  listCredentials(query: CredentialQuery = {}): Promise<Page<CredentialView>> {
+    return this.request("/credentials", query);
+  }
+
+  getCredential(address: string): Promise<CredentialView | null> {
+    return this.find(`/credentials/${address}`);
+  }
+
+  listMatches(query: MatchQuery = {}): Promise<Page<MatchView>> {
+    return this.request("/matches", query);
+  }
+
+  getMatch(matchId: number): Promise<MatchView | null> {
+    return this.find(`/matches/${matchId}`);
+  }
+
+  listMarkets(query: MarketQuery = {}): Promise<Page<MarketView>> {
+    return this.request("/markets", query);
+  }
+
+  getMarket(id: number): Promise<MarketView | null> {
+    return this.find(`/markets/${id}`);
+  }
+
+  listBounties(query: BountyQuery = {}): Promise<Page<BountyView>> {
+    return this.request("/bounties", query);
+  }
+
+  getBounty(id: number): Promise<BountyView | null> {
+    return this.find(`/bounties/${id}`);
+  }
+
+  listProposals(query: ProposalQuery = {}): Promise<Page<ProposalView>> {
+    return this.request("/proposals", query);
+  }
+
+  getProposal(id: number): Promise<ProposalView | null> {
+    return this.find(`/proposals/${id}`);
+  }
+
+  getLeaderboard(query: LeaderboardQuery = {}): Promise<Page<LeaderboardEntryView>> {
+    return this.request("/leaderboard", query);
+  }
+
+  // ━━━ INTERNAL ━━━
+
+  private async find<T>(path: string): Promise<T | null> {
+    const res = await fetch(this.baseUrl + path);
+    if (res.status === 404) return null;
+    return this.parse<T>(res);
+  }
+
+  private async request<T>(path: string, query: PageQuery = {}): Promise<T> {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query) as [string, unknown][]) {
+      if (value !== undefined) params.set(key, String(value));
+    }
+    const qs = params.toString();
+    return this.parse<T>(await fetch(this.baseUrl + path + (qs ? `?${qs}` : "")));
+  }
+
+  private async parse<T>(res: Response): Promise<T> {
+    const body = await res.json();
+    if (!res.ok) throw new Error(`SkillProof API ${res.status}: ${body.error ?? res.statusText}`);
+    return body as T;
+  }
+}
@@ -0,0 +1,24 @@
+export { SkillProofReadModel, QueryError, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from "./read-model";
+export type { DecayParameters, ReadModelOptions } from "./read-model";
+export { createApiServer, ApiError } from "./server";
+export type { ApiServerOptions } from "./server";
+export { SkillProofApiClient } from "./client";
+export type {
+  Page,
+  PageQuery,
+  ApiStatus,
+  CredentialView,
+  CredentialQuery,
+  MatchParticipantView,
+  MatchView,
+  MatchQuery,
+  MarketView,
+  MarketQuery,
+  BountyView,
+  BountyQuery,
+  ProposalView,
+  ProposalQuery,
+  LeaderboardSort,
+  LeaderboardEntryView,
+  LeaderboardQuery,
+} from "./types";
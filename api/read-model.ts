@@ -0,0 +1,560 @@
+import { ethers } from "ethers";
+
+import { IndexerStore } from "../indexer";
+import {
+  ApiStatus,
+  BountyQuery,
+  BountyView,
+  CredentialQuery,
+  CredentialView,
+  LeaderboardEntryView,
+  LeaderboardQuery,
+  LeaderboardSort,
+  MarketQuery,
+  MarketView,
+  MatchQuery,
+  MatchParticipantView,
+  MatchView,
+  Page,
+  PageQuery,
+  ProposalQuery,
+  ProposalView,
+} from "./types";
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+const BPS = 10000;
+const DAY = 86400;
+const CROSS_ISSUER_BONUS = 50;
+
+export interface DecayParameters {
+  ratePerDay: number;
+  minimumMultiplierBps: number;
+}
+
+export interface ReadModelOptions {
+  /** Decay parameters before the first DecayParametersUpdated event (defaults match deploy-decay.ts) */
+  decay?: DecayParameters;
+  /** Clock (unix seconds) for decay and open/closed status; defaults to the latest indexed block */
+  now?: () => number;
+}
+
+/** Invalid query input; the server maps it to HTTP 400 */
+export class QueryError extends Error {}
+
+// Latest snapshot per credential (mint or update), joined with its mint,
+// issuer name, revocation state and block timestamps.
+const CREDENTIALS_SQL = `
+WITH snapshots AS (
+  SELECT player, overall_elo, player_name, percentile, domains, skill_scores, skill_percentiles,
+         total_matches, win_rate, block_number, log_index FROM credential_mints
+  UNION ALL
+  SELECT player, overall_elo, player_name, percentile, domains, skill_scores, skill_percentiles,
+         total_matches, win_rate, block_number, log_index FROM credential_updates
+),
+latest AS (
+  SELECT *, ROW_NUMBER() OVER (PARTITION BY player ORDER BY block_number DESC, log_index DESC) AS rn
+  FROM snapshots
+)
+SELECT l.player, l.overall_elo, l.player_name, l.percentile, l.domains, l.skill_scores,
+       l.skill_percentiles, l.total_matches, l.win_rate, m.issuer,
+       mb.timestamp AS issued_at, lb.timestamp AS updated_at,
+       NOT EXISTS (SELECT 1 FROM credential_revocations r WHERE r.player = l.player) AS is_valid,
+       (SELECT name FROM issuer_registrations i WHERE i.issuer = m.issuer
+        ORDER BY i.block_number DESC, i.log_index DESC LIMIT 1) AS issuer_name
+FROM latest l
+JOIN credential_mints m ON m.player = l.player
+JOIN blocks mb ON mb.number = m.block_number
+JOIN blocks lb ON lb.number = l.block_number
+WHERE l.rn = 1`;
+
+// 1v1 and team / free-for-all matches in one shape. Team rows carry the
+// participant arrays (JSON) and zeroed 1v1 columns, as SkillProofEngine.getMatch.
+// A settled dispute (at most one per match) joins in the results as resolved.
+const RESOLUTION_COLUMNS = `d.status AS dispute_status, d.outcome AS resolved_outcome,
+       d.placements AS resolved_placements, d.elo_changes AS resolved_changes`;
+const MATCHES_SQL = `
+SELECT m.match_id, m.player1, m.player2, m.outcome, m.player1_change, m.player2_change,
+       m.player1_elo_before, m.player2_elo_before, m.domain, NULL AS participants, NULL AS teams,
+       NULL AS placements, NULL AS elos_before, NULL AS elo_changes, m.tx_hash, b.timestamp, ${RESOLUTION_COLUMNS}
+FROM matches m JOIN blocks b ON b.number = m.block_number
+LEFT JOIN dispute_resolutions d ON d.match_id = m.match_id
+UNION ALL
+SELECT t.match_id, '${ethers.ZeroAddress}', '${ethers.ZeroAddress}', 0, 0, 0, 0, 0, t.domain, t.participants, t.teams,
+       t.placements, t.elos_before, t.elo_changes, t.tx_hash, b.timestamp, ${RESOLUTION_COLUMNS}
+FROM team_matches t JOIN blocks b ON b.number = t.block_number
+LEFT JOIN dispute_resolutions d ON d.match_id = t.match_id`;
+
+const MARKETS_SQL = `
+SELECT m.*, r.actual_price, r.market_id IS NOT NULL AS resolved, b.timestamp AS created_at
+FROM markets m
+LEFT JOIN market_resolutions r ON r.market_id = m.market_id
+JOIN blocks b ON b.number = m.block_number`;
+
+const BOUNTIES_SQL = `
+SELECT p.*, a.winner, a.bounty_id IS NOT NULL AS awarded, b.timestamp AS created_at
+FROM bounties p
+LEFT JOIN bounty_awards a ON a.bounty_id = p.bounty_id
+JOIN blocks b ON b.number = p.block_number`;
+
+const PROPOSALS_SQL = `
+SELECT p.*, b.timestamp AS created_at,
+       COALESCE((SELECT SUM(weight) FROM votes v WHERE v.proposal_id = p.proposal_id AND v.support = 1), 0) AS yes_weight,
+       COALESCE((SELECT SUM(weight) FROM votes v WHERE v.proposal_id = p.proposal_id AND v.support = 0), 0) AS no_weight,
+       (SELECT COUNT(*) FROM votes v WHERE v.proposal_id = p.proposal_id) AS vote_count
+FROM proposals p
+JOIN blocks b ON b.number = p.block_number`;
+
+type Row = Record<string, any>;
+type Params = (string | number)[];
+
+/**
+ * Query layer over an `IndexerStore`: turns the per-event tables into
+ * current-state views (credentials, markets, bounties, proposals) and
+ * computes leaderboards with the same effective / decay / aggregate rules
+ * as SkillProofHub, SkillProofDecay and SkillProofAggregator.
+ */
+export class SkillProofReadModel {
+  readonly store: IndexerStore;
+  private decay: DecayParameters;
+  private clock?: () => number;
+
+  constructor(store: IndexerStore, options: ReadModelOptions = {}) {
+    this.store = store;
+    this.decay = options.decay ?? { ratePerDay: 100, minimumMultiplierBps: 5000 };
+    this.clock = options.now;
+  }
+
+  // ━━━ STATUS ━━━
+
+  getStatus(): ApiStatus {
+    const head = this.head();
+    const count = (sql: string) => (this.db.prepare(sql).get() as { n: number }).n;
+    return {
+      chainId: this.store.getState("chain_id"),
+      lastBlock: this.store.lastBlock,
+      lastBlockTimestamp: head,
+      counts: {
+        credentials: count("SELECT COUNT(*) AS n FROM credential_mints"),
+        matches: count("SELECT (SELECT COUNT(*) FROM matches) + (SELECT COUNT(*) FROM team_matches) AS n"),
+        markets: count("SELECT COUNT(*) AS n FROM markets"),
+        bounties: count("SELECT COUNT(*) AS n FROM bounties"),
+        proposals: count("SELECT COUNT(*) AS n FROM proposals"),
+      },
+    };
+  }
+
+  // ━━━ CREDENTIALS ━━━
+
+  getCredential(address: string): CredentialView | null {
+    const row = this.db.prepare(`SELECT * FROM (${CREDENTIALS_SQL}) WHERE player = ?`).get(toAddress(address));
+    return row ? toCredential(row as Row) : null;
+  }
+
+  listCredentials(query: CredentialQuery = {}): Page<CredentialView> {
+    const where: string[] = [];
+    const params: Params = [];
+    if (query.issuer !== undefined) {
+      where.push("issuer = ?");
+      params.push(toAddress(query.issuer));
+    }
+    if (query.valid !== undefined) {
+      where.push("is_valid = ?");
+      params.push(query.valid ? 1 : 0);
+    }
+    return this.page(CREDENTIALS_SQL, where, params, "overall_elo DESC, player ASC", query, toCredential);
+  }
+
+  // ━━━ MATCHES ━━━
+
+  getMatch(matchId: number): MatchView | null {
+    const row = this.db.prepare(`SELECT * FROM (${MATCHES_SQL}) WHERE match_id = ?`).get(matchId);
+    return row ? toMatch(row as Row) : null;
+  }
+
+  listMatches(query: MatchQuery = {}): Page<MatchView> {
+    const where: string[] = [];
+    const params: Params = [];
+    if (query.player !== undefined) {
+      const player = toAddress(query.player);
+      where.push("(player1 = ? OR player2 = ? OR EXISTS (SELECT 1 FROM json_each(participants) WHERE value = ?))");
+      params.push(player, player, player);
+    }
+    if (query.domain !== undefined) {
+      where.push("domain = ?");
+      params.push(query.domain);
+    }
+    return this.page(MATCHES_SQL, where, params, "match_id DESC", query, toMatch);
+  }
+
+  // ━━━ HUB: PREDICT / ARENA / GOVERN ━━━
+
+  getMarket(id: number): MarketView | null {
+    const row = this.db.prepare(`SELECT * FROM (${MARKETS_SQL}) WHERE market_id = ?`).get(id);
+    return row ? toMarket(row as Row) : null;
+  }
+
+  listMarkets(query: MarketQuery = {}): Page<MarketView> {
+    const where: string[] = [];
+    const params: Params = [];
+    if (query.status !== undefined) {
+      where.push("resolved = ?");
+      params.push(query.status === "resolved" ? 1 : 0);
+    }
+    if (query.creator !== undefined) {
+      where.push("creator = ?");
+      params.push(toAddress(query.creator));
+    }
+    return this.page(MARKETS_SQL, where, params, "market_id DESC", query, toMarket);
+  }
+
+  getBounty(id: number): BountyView | null {
+    const row = this.db.prepare(`SELECT * FROM (${BOUNTIES_SQL}) WHERE bounty_id = ?`).get(id);
+    return row ? toBounty(row as Row) : null;
+  }
+
+  listBounties(query: BountyQuery = {}): Page<BountyView> {
+    const where: string[] = [];
+    const params: Params = [];
+    if (query.status !== undefined) {
+      where.push("awarded = ?");
+      params.push(query.status === "awarded" ? 1 : 0);
+    }
+    if (query.poster !== undefined) {
+      where.push("poster = ?");
+      params.push(toAddress(query.poster));
+    }
+    if (query.winner !== undefined) {
+      where.push("winner = ?");
+      params.push(toAddress(query.winner));
+    }
+    return this.page(BOUNTIES_SQL, where, params, "bounty_id DESC", query, toBounty);
+  }
+
+  getProposal(id: number): ProposalView | null {
+    const row = this.db.prepare(`SELECT * FROM (${PROPOSALS_SQL}) WHERE proposal_id = ?`).get(id);
+    return row ? toProposal(row as Row) : null;
+  }
+
+  listProposals(query: ProposalQuery = {}): Page<ProposalView> {
+    const where: string[] = [];
+    const params: Params = [];
+    if (query.status !== undefined) {
+      where.push(query.status === "active" ? "deadline > ?" : "deadline <= ?");
+      params.push(this.now());
+    }
+    if (query.proposer !== undefined) {
+      where.push("proposer = ?");
+      params.push(toAddress(query.proposer));
+    }
+    return this.page(PROPOSALS_SQL, where, params, "proposal_id DESC", query, toProposal);
+  }
+
+  // ━━━ LEADERBOARD ━━━
+
+  /**
+   * Valid credentials ranked by `sort` (default "effective"). For "aggregate",
+   * addresses linked under another primary are folded into that primary's
+   * entry instead of being listed on their own.
+   */
+  getLeaderboard(query: LeaderboardQuery = {}): Page<LeaderboardEntryView> {
+    const sort: LeaderboardSort = query.sort ?? "effective";
+    const { limit, offset } = pageBounds(query);
+    const issuer = query.issuer !== undefined ? toAddress(query.issuer) : undefined;
+
+    const credentials = (this.db.prepare(`SELECT * FROM (${CREDENTIALS_SQL}) WHERE is_valid = 1`).all() as Row[]).map(
+      toCredential
+    );
+    const byAddress = new Map(credentials.map((c) => [c.address, c]));
+    const reputation = this.latestByUser("reputation_updates", "user", "new_reputation");
+    const refreshed = this.latestByUser("credential_refreshes", "user", "timestamp");
+    const links = this.currentLinks();
+    const decay = this.decayParameters();
+    const now = this.now();
+
+    const primaryOf = new Map<string, string>();
+    for (const [primary, linked] of links) for (const addr of linked) primaryOf.set(addr, primary);
+
+    const aggregate = (address: string): number => {
+      const linked = links.get(address);
+      if (!linked || linked.size === 0) return byAddress.get(address)?.overallElo ?? 0;
+      const held = [...linked].map((a) => byAddress.get(a)).filter((c): c is CredentialView => !!c);
+      if (held.length === 0) return 0;
+      const composite = Math.floor(held.reduce((sum, c) => sum + c.overallElo, 0) / held.length);
+      return composite + (held.length - 1) * CROSS_ISSUER_BONUS;
+    };
+
+    const entries = credentials
+      .filter((c) => issuer === undefined || c.issuer === issuer)
+      .filter((c) => sort !== "aggregate" || (primaryOf.get(c.address) ?? c.address) === c.address)
+      .map((c): LeaderboardEntryView => {
+        const rep = reputation.get(c.address) ?? 0;
+        const lastUpdate = refreshed.get(c.address) ?? c.issuedAt;
+        return {
+          rank: 0,
+          address: c.address,
+          playerName: c.playerName,
+          issuer: c.issuer,
+          issuerName: c.issuerName,
+          overallElo: c.overallElo,
+          effectiveElo: Math.max(0, c.overallElo + rep),
+          decayedElo: Math.floor((c.overallElo * decayMultiplier(decay, now - lastUpdate)) / BPS),
+          aggregateElo: aggregate(c.address),
+          reputationBonus: rep,
+          percentile: c.percentile,
+          totalMatches: c.totalMatches,
+          winRate: c.winRate,
+          skillDomains: c.skillDomains,
+        };
+      });
+
+    const key: Record<LeaderboardSort, keyof LeaderboardEntryView> = {
+      elo: "overallElo",
+      effective: "effectiveElo",
+      decayed: "decayedElo",
+      aggregate: "aggregateElo",
+    };
+    entries.sort(
+      (a, b) => (b[key[sort]] as number) - (a[key[sort]] as number) || a.address.localeCompare(b.address)
+    );
+
+    return {
+      items: entries.slice(offset, offset + limit).map((e, i) => ({ ...e, rank: offset + i + 1 })),
+      total: entries.length,
+      limit,
+      offset,
+    };
+  }
+
+  // ━━━ INTERNAL ━━━
+
+  private get db() {
+    return this.store.db;
+  }
+
+  private head(): number | null {
+    const row = this.db.prepare("SELECT timestamp FROM blocks ORDER BY number DESC LIMIT 1").get() as
+      | { timestamp: number }
+      | undefined;
+    return row ? row.timestamp : null;
+  }
+
+  private now(): number {
+    return this.clock ? this.clock() : this.head() ?? Math.floor(Date.now() / 1000);
+  }
+
+  private page<T>(
+    base: string,
+    where: string[],
+    params: Params,
+    orderBy: string,
+    query: PageQuery,
+    map: (row: Row) => T
+  ): Page<T> {
+    const { limit, offset } = pageBounds(query);
+    const filtered = `SELECT * FROM (${base})${where.length ? " WHERE " + where.join(" AND ") : ""}`;
+    const total = (this.db.prepare(`SELECT COUNT(*) AS n FROM (${filtered})`).get(...params) as { n: number }).n;
+    const rows = this.db
+      .prepare(`${filtered} ORDER BY ${orderBy} LIMIT ? OFFSET ?`)
+      .all(...params, limit, offset) as Row[];
+    return { items: rows.map(map), total, limit, offset };
+  }
+
+  private latestByUser(table: string, userColumn: string, valueColumn: string): Map<string, number> {
+    const rows = this.db
+      .prepare(`SELECT ${userColumn} AS user, ${valueColumn} AS value FROM ${table} ORDER BY block_number, log_index`)
+      .all() as { user: string; value: number }[];
+    return new Map(rows.map((r) => [r.user, r.value]));
+  }
+
+  /** primary → linked set (including the primary), replaying link/unlink events in order */
+  private currentLinks(): Map<string, Set<string>> {
+    const rows = this.db
+      .prepare(
+        `SELECT primary_address, linked AS address, 1 AS linked, block_number, log_index FROM address_links
+         UNION ALL
+         SELECT primary_address, unlinked AS address, 0 AS linked, block_number, log_index FROM address_unlinks
+         ORDER BY block_number, log_index`
+      )
+      .all() as { primary_address: string; address: string; linked: number }[];
+
+    const links = new Map<string, Set<string>>();
+    for (const r of rows) {
+      let set = links.get(r.primary_address);
+      if (!set) {
+        set = new Set([r.primary_address]);
+        links.set(r.primary_address, set);
+      }
+      if (r.linked) set.add(r.address);
+      else set.delete(r.address);
+    }
+    return links;
+  }
+
+  private decayParameters(): DecayParameters {
+    const row = this.db
+      .prepare("SELECT * FROM decay_parameter_updates ORDER BY block_number DESC, log_index DESC LIMIT 1")
+      .get() as Row | undefined;
+    return row ? { ratePerDay: row.decay_rate, minimumMultiplierBps: row.minimum_multiplier } : this.decay;
+  }
+}
+
+// ━━━ HELPERS ━━━
+
+function toAddress(value: string): string {
+  try {
+    return ethers.getAddress(value);
+  } catch {
+    throw new QueryError(`Invalid address: ${value}`);
+  }
+}
+
+function pageBounds(query: PageQuery): { limit: number; offset: number } {
+  const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+  const offset = query.offset ?? 0;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw new QueryError(`limit must be an integer between 1 and ${MAX_PAGE_SIZE}`);
+  }
+  if (!Number.isInteger(offset) || offset < 0) throw new QueryError("offset must be a non-negative integer");
+  return { limit, offset };
+}
+
+/** SkillProofDecay.getDecayMultiplier for a credential last refreshed `elapsed` seconds ago */
+function decayMultiplier(params: DecayParameters, elapsed: number): number {
+  const decay = Math.floor(Math.max(0, elapsed) / DAY) * params.ratePerDay;
+  return decay >= BPS - params.minimumMultiplierBps ? params.minimumMultiplierBps : BPS - decay;
+}
+
+function toCredential(r: Row): CredentialView {
+  return {
+    address: r.player,
+    playerName: r.player_name,
+    overallElo: r.overall_elo,
+    percentile: r.percentile,
+    skillDomains: JSON.parse(r.domains),
+    skillScores: JSON.parse(r.skill_scores),
+    skillPercentiles: JSON.parse(r.skill_percentiles),
+    totalMatches: r.total_matches,
+    winRate: r.win_rate,
+    issuer: r.issuer,
+    issuerName: r.issuer_name,
+    issuedAt: r.issued_at,
+    updatedAt: r.updated_at,
+    isValid: r.is_valid === 1,
+  };
+}
+
+const DISPUTE_RESOLUTIONS = { 2: "dismissed", 3: "voided", 4: "corrected" } as const;
+
+function toMatch(r: Row): MatchView {
+  if (r.dispute_status !== null) return resolveMatch(r);
+  const participants: MatchParticipantView[] =
+    r.outcome === 0
+      ? teamParticipants(r)
+      : [
+          {
+            player: r.player1,
+            team: 0,
+            placement: r.outcome === 2 ? 2 : 1,
+            eloBefore: r.player1_elo_before,
+            eloChange: r.player1_change,
+          },
+          {
+            player: r.player2,
+            team: 1,
+            placement: r.outcome === 1 ? 2 : 1,
+            eloBefore: r.player2_elo_before,
+            eloChange: r.player2_change,
+          },
+        ];
+  return {
+    matchId: r.match_id,
+    player1: r.player1,
+    player2: r.player2,
+    outcome: r.outcome,
+    player1EloBefore: r.player1_elo_before,
+    player2EloBefore: r.player2_elo_before,
+    player1Change: r.player1_change,
+    player2Change: r.player2_change,
+    participants,
+    resolution: null,
+    domain: r.domain,
+    timestamp: r.timestamp,
+    txHash: r.tx_hash,
+  };
+}
+
+/** The match with a settled dispute's placements and ELO changes applied */
+function resolveMatch(r: Row): MatchView {
+  const recorded = toMatch({ ...r, dispute_status: null });
+  const [placements, changes] = [r.resolved_placements, r.resolved_changes].map(
+    (column) => JSON.parse(column) as number[]
+  );
+  const participants = recorded.participants.map((p, i) => ({ ...p, placement: placements[i], eloChange: changes[i] }));
+  const resolution = DISPUTE_RESOLUTIONS[r.dispute_status as keyof typeof DISPUTE_RESOLUTIONS];
+  if (recorded.outcome === 0) return { ...recorded, participants, resolution };
+  return {
+    ...recorded,
+    outcome: r.resolved_outcome,
+    player1Change: changes[0],
+    player2Change: changes[1],
+    participants,
+    resolution,
+  };
+}
+
+function teamParticipants(r: Row): MatchParticipantView[] {
+  const [teams, placements, elosBefore, eloChanges] = [r.teams, r.placements, r.elos_before, r.elo_changes].map(
+    (column) => JSON.parse(column) as number[]
+  );
+  return (JSON.parse(r.participants) as string[]).map((player, i) => ({
+    player,
+    team: teams[i],
+    placement: placements[i],
+    eloBefore: elosBefore[i],
+    eloChange: eloChanges[i],
+  }));
+}
+
+function toMarket(r: Row): MarketView {
+  return {
+    id: r.market_id,
+    question: r.question,
+    feedId: r.feed_id,
+    targetPrice: r.target_price,
+    commitDeadline: r.commit_deadline,
+    revealDeadline: r.reveal_deadline,
+    resolved: r.resolved === 1,
+    actualPrice: r.actual_price ?? "0",
+    creator: r.creator,
+    createdAt: r.created_at,
+  };
+}
+
+function toBounty(r: Row): BountyView {
+  return {
+    id: r.bounty_id,
+    description: r.description,
+    poster: r.poster,
+    reward: r.reward,
+    commitDeadline: r.commit_deadline,
+    deadline: r.deadline,
+    awarded: r.awarded === 1,
+    winner: r.winner ?? null,
+    createdAt: r.created_at,
+  };
+}
+
+function toProposal(r: Row): ProposalView {
+  return {
+    id: r.proposal_id,
+    description: r.description,
+    proposer: r.proposer,
+    deadline: r.deadline,
+    yesWeight: r.yes_weight,
+    noWeight: r.no_weight,
+    voteCount: r.vote_count,
+    createdAt: r.created_at,
+  };
+}
@@ -0,0 +1,152 @@
+import * as http from "http";
+
+import { QueryError, SkillProofReadModel } from "./read-model";
+import { LeaderboardSort } from "./types";
+
+export interface ApiServerOptions {
+  /** Value of Access-Control-Allow-Origin (default "*") */
+  corsOrigin?: string;
+}
+
+/** Error with an HTTP status; the message is returned as `{ error }` */
+export class ApiError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+type Handler = (params: string[], query: URLSearchParams) => unknown;
+
+const LEADERBOARD_SORTS: LeaderboardSort[] = ["elo", "effective", "decayed", "aggregate"];
+
+/**
+ * Read-only JSON API over a `SkillProofReadModel`.
+ *
+ *   GET /status
+ *   GET /credentials?issuer=&valid=&limit=&offset=      GET /credentials/:address
+ *   GET /matches?player=&domain=&limit=&offset=         GET /matches/:id
+ *   GET /markets?status=open|resolved&creator=          GET /markets/:id
+ *   GET /bounties?status=open|awarded&poster=&winner=   GET /bounties/:id
+ *   GET /proposals?status=active|closed&proposer=       GET /proposals/:id
+ *   GET /leaderboard?sort=elo|effective|decayed|aggregate&issuer=&limit=&offset=
+ */
+export function createApiServer(model: SkillProofReadModel, options: ApiServerOptions = {}): http.Server {
+  const routes: [RegExp, Handler][] = [
+    [/^\/status$/, () => model.getStatus()],
+    [
+      /^\/credentials$/,
+      (_, q) =>
+        model.listCredentials({ ...page(q), issuer: str(q, "issuer"), valid: bool(q, "valid") }),
+    ],
+    [/^\/credentials\/([^/]+)$/, ([address]) => found(model.getCredential(address), "Credential")],
+    [
+      /^\/matches$/,
+      (_, q) => model.listMatches({ ...page(q), player: str(q, "player"), domain: str(q, "domain") }),
+    ],
+    [/^\/matches\/([^/]+)$/, ([id]) => found(model.getMatch(int(id, "id")), "Match")],
+    [
+      /^\/markets$/,
+      (_, q) =>
+        model.listMarkets({
+          ...page(q),
+          status: oneOf(q, "status", ["open", "resolved"] as const),
+          creator: str(q, "creator"),
+        }),
+    ],
+    [/^\/markets\/([^/]+)$/, ([id]) => found(model.getMarket(int(id, "id")), "Market")],
+    [
+      /^\/bounties$/,
+      (_, q) =>
+        model.listBounties({
+          ...page(q),
+          status: oneOf(q, "status", ["open", "awarded"] as const),
+          poster: str(q, "poster"),
+          winner: str(q, "winner"),
+        }),
+    ],
+    [/^\/bounties\/([^/]+)$/, ([id]) => found(model.getBounty(int(id, "id")), "Bounty")],
+    [
+      /^\/proposals$/,
+      (_, q) =>
+        model.listProposals({
+          ...page(q),
+          status: oneOf(q, "status", ["active", "closed"] as const),
+          proposer: str(q, "proposer"),
+        }),
+    ],
+    [/^\/proposals\/([^/]+)$/, ([id]) => found(model.getProposal(int(id, "id")), "Proposal")],
+    [
+      /^\/leaderboard$/,
+      (_, q) =>
+        model.getLeaderboard({ ...page(q), sort: oneOf(q, "sort", LEADERBOARD_SORTS), issuer: str(q, "issuer") }),
+    ],
+  ];
+
+  return http.createServer((req, res) => {
+    res.setHeader("Access-Control-Allow-Origin", options.corsOrigin ?? "*");
+    res.setHeader("Access-Control-Allow-Methods", "GET, OPTIONS");
+
+    if (req.method === "OPTIONS") {
+      res.writeHead(204).end();
+      return;
+    }
+
+    let status = 200;
+    let body: unknown;
+    try {
+      if (req.method !== "GET") throw new ApiError(405, `Method ${req.method} not allowed`);
+      const url = new URL(req.url ?? "/", "http://localhost");
+      const path = url.pathname.replace(/\/+$/, "") || "/";
+      const route = routes.find(([pattern]) => pattern.test(path));
+      if (!route) throw new ApiError(404, `No route for ${path}`);
+      const params = path.match(route[0])!.slice(1).map(decodeURIComponent);
+      body = route[1](params, url.searchParams);
+    } catch (e) {
+      const error = e instanceof QueryError ? new ApiError(400, e.message) : e;
+      status = error instanceof ApiError ? error.status : 500;
+      body = { error: error instanceof ApiError ? error.message : "Internal server error" };
+    }
+
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+  });
+}
+
+// ━━━ QUERY PARSING ━━━
+
+function found<T>(value: T | null, what: string): T {
+  if (value === null) throw new ApiError(404, `${what} not found`);
+  return value;
+}
+
+function str(q: URLSearchParams, key: string): string | undefined {
+  return q.get(key) ?? undefined;
+}
+
+function int(value: string, key: string): number {
+  if (!/^\d+$/.test(value)) throw new ApiError(400, `${key} must be a non-negative integer`);
+  return Number(value);
+}
+
+function bool(q: URLSearchParams, key: string): boolean | undefined {
+  const value = q.get(key);
+  if (value === null) return undefined;
+  if (value !== "true" && value !== "false") throw new ApiError(400, `${key} must be true or false`);
+  return value === "true";
+}
+
+function oneOf<T extends string>(q: URLSearchParams, key: string, allowed: readonly T[]): T | undefined {
+  const value = q.get(key);
+  if (value === null) return undefined;
+  if (!allowed.includes(value as T)) throw new ApiError(400, `${key} must be one of ${allowed.join(", ")}`);
+  return value as T;
+}
+
+function page(q: URLSearchParams): { limit?: number; offset?: number } {
+  const limit = q.get("limit");
+  const offset = q.get("offset");
+  return {
+    limit: limit === null ? undefined : int(limit, "limit"),
+    offset: offset === null ? undefined : int(offset, "offset"),
+  };
+}
@@ -0,0 +1,165 @@
+// ━━━ API RESPONSE TYPES ━━━
+// Shared by the server, the read model and the typed client. Addresses are
+// checksummed; uint256/int256 values (wei, FTSO prices) are decimal strings.
+
+export interface Page<T> {
+  items: T[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+export interface PageQuery {
+  limit?: number;
+  offset?: number;
+}
+
+export interface ApiStatus {
+  chainId: string | null;
+  lastBlock: number | null;
+  lastBlockTimestamp: number | null;
+  counts: {
+    credentials: number;
+    matches: number;
+    markets: number;
+    bounties: number;
+    proposals: number;
+  };
+}
+
+export interface CredentialView {
+  address: string;
+  playerName: string;
+  overallElo: number;
+  percentile: number;
+  skillDomains: string[];
+  skillScores: number[];
+  skillPercentiles: number[];
+  totalMatches: number;
+  winRate: number;
+  issuer: string;
+  issuerName: string | null;
+  issuedAt: number;
+  updatedAt: number;
+  isValid: boolean;
+}
+
+export interface CredentialQuery extends PageQuery {
+  issuer?: string;
+  valid?: boolean;
+}
+
+export interface MatchParticipantView {
+  player: string;
+  /** Team index; in a free-for-all every player is their own team */
+  team: number;
+  /** The team's finish: 1 = first, tied teams share a placement */
+  placement: number;
+  eloBefore: number;
+  eloChange: number;
+}
+
+export interface MatchView {
+  matchId: number;
+  /** 1v1 fields; zero for team and free-for-all matches */
+  player1: string;
+  player2: string;
+  /** 1 = player1 wins, 2 = player2 wins, 3 = draw, 0 = team or free-for-all match */
+  outcome: number;
+  player1EloBefore: number;
+  player2EloBefore: number;
+  player1Change: number;
+  player2Change: number;
+  /** Every player, for 1v1 matches too (player1 is team 0, player2 team 1) */
+  participants: MatchParticipantView[];
+  /** How a dispute over the match was settled, or null; results above are as resolved */
+  resolution: "dismissed" | "voided" | "corrected" | null;
+  domain: string;
+  timestamp: number;
+  txHash: string;
+}
+
+export interface MatchQuery extends PageQuery {
+  player?: string;
+  domain?: string;
+}
+
+export interface MarketView {
+  id: number;
+  question: string;
+  feedId: string;
+  targetPrice: string;
+  commitDeadline: number;
+  revealDeadline: number;
+  resolved: boolean;
+  actualPrice: string;
+  creator: string;
+  createdAt: number;
+}
+
+export interface MarketQuery extends PageQuery {
+  status?: "open" | "resolved";
+  creator?: string;
+}
+
+export interface BountyView {
+  id: number;
+  description: string;
+  poster: string;
+  /** Reward in wei */
+  reward: string;
+  commitDeadline: number;
+  deadline: number;
+  awarded: boolean;
+  winner: string | null;
+  createdAt: number;
+}
+
+export interface BountyQuery extends PageQuery {
+  status?: "open" | "awarded";
+  poster?: string;
+  winner?: string;
+}
+
+export interface ProposalView {
+  id: number;
+  description: string;
+  proposer: string;
+  deadline: number;
+  yesWeight: number;
+  noWeight: number;
+  voteCount: number;
+  createdAt: number;
+}
+
+export interface ProposalQuery extends PageQuery {
+  status?: "active" | "closed";
+  proposer?: string;
+}
+
+export type LeaderboardSort = "elo" | "effective" | "decayed" | "aggregate";
+
+export interface LeaderboardEntryView {
+  rank: number;
+  address: string;
+  playerName: string;
+  issuer: string;
+  issuerName: string | null;
+  overallElo: number;
+  /** overallElo + Hub reputation bonus (floored at 0) */
+  effectiveElo: number;
+  /** overallElo after SkillProofDecay's time decay */
+  decayedElo: number;
+  /** SkillProofAggregator overall score across linked addresses */
+  aggregateElo: number;
+  reputationBonus: number;
+  percentile: number;
+  totalMatches: number;
+  winRate: number;
+  skillDomains: string[];
+}
+
+export interface LeaderboardQuery extends PageQuery {
+  sort?: LeaderboardSort;
+  issuer?: string;
+}
@@ -0,0 +1,365 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+interface ISkillProofRegistryDisputes {
+    struct SkillCredential {
+        string playerName;
+        uint256 overallElo;
+        uint256 percentile;
+        string[] skillDomains;
+        uint256[] skillScores;
+        uint256[] skillPercentiles;
+        uint256 totalMatches;
+        uint256 winRate;
+        address issuer;
+        uint256 issuedAt;
+        bool isValid;
+    }
+
+    function hasCredential(address player) external view returns (bool);
+    function getCredential(address player) external view returns (SkillCredential memory);
+}
+
+interface ISkillProofStakingDisputes {
+    function slash(address issuer, string calldata reason) external;
+}
+
+interface ISkillProofHubDisputes {
+    struct Proposal {
+        uint256 id;
+        string description;
+        uint256 deadline;
+        uint256 yesWeight;
+        uint256 noWeight;
+        bool executed;
+        address proposer;
+    }
+
+    function proposalCount() external view returns (uint256);
+    function getProposal(uint256 proposalId) external view returns (Proposal memory);
+}
+
+/// @title SkillProofDisputes — Fraud Disputes Against Issued Credentials
+/// @notice Anyone can post a bond and challenge a credential with evidence. The
+///         issuer gets a response window, then the arbiter or a Hub governance
+///         vote decides. Upheld disputes slash the issuer's stake and refund the
+///         challenger; rejected disputes forfeit the bond to the issuer. Bonds are
+///         credited to `claimable` and collected with `withdraw`, so a recipient
+///         that rejects ETH cannot block a ruling.
+/// @dev Must be the Staking contract's arbiter for upheld disputes to slash.
+///      A governance vote only counts if its proposal carries the dispute's
+///      `proposalDescription`, runs for at least `minVotingPeriod` after
+///      escalation and reaches `quorum`, so a party cannot settle a dispute
+///      with a short proposal only they vote on.
+contract SkillProofDisputes {
+    ISkillProofRegistryDisputes public immutable registry;
+    ISkillProofStakingDisputes public immutable staking;
+    ISkillProofHubDisputes public immutable hub;
+
+    address public owner;
+    address public arbiter;
+
+    uint256 public disputeBond;
+    uint256 public responseWindow; // seconds the issuer has to respond
+    uint256 public resolutionWindow; // seconds after the response window before a dispute expires
+    uint256 public minVotingPeriod = 3 days; // voting time a proposal must have left when a dispute is escalated to it
+    uint256 public quorum = 250; // vote weight a proposal needs to settle a dispute
+
+    enum Status { Open, Upheld, Rejected, Expired }
+
+    struct Dispute {
+        uint256 id;
+        address challenger;
+        address issuer;
+        address player;
+        string evidenceURI;
+        bytes32 evidenceHash;
+        uint256 bond;
+        uint256 openedAt;
+        uint256 responseDeadline;
+        string responseURI;
+        Status status;
+        bool escalated;
+        uint256 proposalId;
+        bool slashed;
+    }
+
+    Dispute[] private disputes;
+    mapping(address => uint256[]) private issuerDisputes;
+    mapping(address => bool) public hasOpenDispute;
+    // Proposals created before a dispute was opened cannot be linked to it
+    mapping(uint256 => uint256) private proposalFloor;
+    // Refunded and awarded bonds, waiting for `withdraw`
+    mapping(address => uint256) public claimable;
+
+    event DisputeOpened(
+        uint256 indexed id,
+        address indexed issuer,
+        address indexed player,
+        address challenger,
+        string evidenceURI,
+        bytes32 evidenceHash,
+        uint256 bond
+    );
+    event DisputeResponded(uint256 indexed id, string responseURI);
+    event DisputeEscalated(uint256 indexed id, uint256 indexed proposalId);
+    event DisputeResolved(uint256 indexed id, bool upheld, bool byGovernance, bool slashed);
+    event DisputeExpired(uint256 indexed id);
+    event ArbiterUpdated(address indexed arbiter);
+    event DisputeParametersUpdated(uint256 bond, uint256 responseWindow, uint256 resolutionWindow);
+    event GovernanceParametersUpdated(uint256 minVotingPeriod, uint256 quorum);
+    event Withdrawn(address indexed account, uint256 amount);
+
+    constructor(
+        address _registry,
+        address _staking,
+        address _hub,
+        uint256 _disputeBond,
+        uint256 _responseWindow,
+        uint256 _resolutionWindow
+    ) {
+        registry = ISkillProofRegistryDisputes(_registry);
+        staking = ISkillProofStakingDisputes(_staking);
+        hub = ISkillProofHubDisputes(_hub);
+        owner = msg.sender;
+        arbiter = msg.sender;
+        disputeBond = _disputeBond;
+        responseWindow = _responseWindow;
+        resolutionWindow = _resolutionWindow;
+    }
+
+    /// @notice Challenge `player`'s credential. Send at least `disputeBond`.
+    /// @param evidenceURI Where the evidence lives (IPFS, HTTPS, ...)
+    /// @param evidenceHash Hash of the evidence; either field may be empty, not both
+    function openDispute(address player, string calldata evidenceURI, bytes32 evidenceHash)
+        external
+        payable
+        returns (uint256)
+    {
+        require(msg.value >= disputeBond, "Bond too low");
+        require(bytes(evidenceURI).length > 0 || evidenceHash != bytes32(0), "No evidence");
+        require(registry.hasCredential(player), "No credential");
+        ISkillProofRegistryDisputes.SkillCredential memory cred = registry.getCredential(player);
+        require(cred.isValid, "Credential revoked");
+        require(!hasOpenDispute[player], "Dispute already open");
+
+        uint256 id = disputes.length;
+        disputes.push(Dispute({
+            id: id,
+            challenger: msg.sender,
+            issuer: cred.issuer,
+            player: player,
+            evidenceURI: evidenceURI,
+            evidenceHash: evidenceHash,
+            bond: msg.value,
+            openedAt: block.timestamp,
+            responseDeadline: block.timestamp + responseWindow,
+            responseURI: "",
+            status: Status.Open,
+            escalated: false,
+            proposalId: 0,
+            slashed: false
+        }));
+        issuerDisputes[cred.issuer].push(id);
+        hasOpenDispute[player] = true;
+        proposalFloor[id] = hub.proposalCount();
+
+        emit DisputeOpened(id, cred.issuer, player, msg.sender, evidenceURI, evidenceHash, msg.value);
+        return id;
+    }
+
+    /// @notice Issuer's answer to a dispute, within the response window
+    function respond(uint256 id, string calldata responseURI) external {
+        Dispute storage d = _open(id);
+        require(msg.sender == d.issuer, "Only issuer");
+        require(block.timestamp <= d.responseDeadline, "Response window closed");
+        require(bytes(responseURI).length > 0, "Empty response");
+
+        d.responseURI = responseURI;
+        emit DisputeResponded(id, responseURI);
+    }
+
+    /// @notice Arbiter ruling, once the issuer has responded or the response window closed
+    function resolve(uint256 id, bool upheld) external {
+        require(msg.sender == arbiter, "Only arbiter");
+        Dispute storage d = _open(id);
+        require(!d.escalated, "Escalated to governance");
+        require(
+            bytes(d.responseURI).length > 0 || block.timestamp > d.responseDeadline,
+            "Response window open"
+        );
+        require(block.timestamp <= resolutionDeadline(id), "Dispute expired");
+
+        _settle(d, upheld, false);
+    }
+
+    /// @notice Hand the decision to a Hub proposal created after the dispute was opened,
+    ///         described by `proposalDescription(id)` and voting for at least
+    ///         `minVotingPeriod` more. Yes votes uphold the dispute.
+    function escalateToGovernance(uint256 id, uint256 proposalId) external {
+        Dispute storage d = _open(id);
+        require(
+            msg.sender == arbiter || msg.sender == d.challenger || msg.sender == d.issuer,
+            "Not a party"
+        );
+        require(!d.escalated, "Already escalated");
+        require(block.timestamp <= resolutionDeadline(id), "Dispute expired");
+        require(proposalId >= proposalFloor[id] && proposalId < hub.proposalCount(), "Invalid proposal");
+        ISkillProofHubDisputes.Proposal memory p = hub.getProposal(proposalId);
+        require(keccak256(bytes(p.description)) == keccak256(bytes(proposalDescription(id))), "Wrong proposal description");
+        require(p.deadline >= block.timestamp + minVotingPeriod, "Voting period too short");
+
+        d.escalated = true;
+        d.proposalId = proposalId;
+        emit DisputeEscalated(id, proposalId);
+    }
+
+    /// @notice Settle an escalated dispute from its proposal once voting has ended.
+    ///         A proposal that did not reach `quorum` expires the dispute instead.
+    function resolveByVote(uint256 id) external {
+        Dispute storage d = _open(id);
+        require(d.escalated, "Not escalated");
+        ISkillProofHubDisputes.Proposal memory p = hub.getProposal(d.proposalId);
+        require(block.timestamp >= p.deadline, "Voting not ended");
+
+        if (p.yesWeight + p.noWeight < quorum) {
+            _expire(d);
+        } else {
+            _settle(d, p.yesWeight > p.noWeight, true);
+        }
+    }
+
+    /// @notice Close a dispute nobody ruled on in time and refund the challenger
+    function expire(uint256 id) external {
+        Dispute storage d = _open(id);
+        require(!d.escalated, "Escalated to governance");
+        require(block.timestamp > resolutionDeadline(id), "Not expired");
+
+        _expire(d);
+    }
+
+    /// @notice Withdraw refunded and awarded bonds
+    function withdraw() external {
+        uint256 amount = claimable[msg.sender];
+        require(amount > 0, "Nothing to withdraw");
+        claimable[msg.sender] = 0;
+        emit Withdrawn(msg.sender, amount);
+        _pay(msg.sender, amount);
+    }
+
+    /// @notice Last moment the arbiter can rule on (or escalate) a dispute
+    function resolutionDeadline(uint256 id) public view returns (uint256) {
+        require(id < disputes.length, "Dispute does not exist");
+        return disputes[id].responseDeadline + resolutionWindow;
+    }
+
+    /// @notice The exact description a Hub proposal needs to decide dispute `id`.
+    ///         It names this contract and the dispute, so a proposal decides one dispute.
+    function proposalDescription(uint256 id) public view returns (string memory) {
+        require(id < disputes.length, "Dispute does not exist");
+        return string.concat(
+            "Uphold SkillProofDisputes ",
+            _toHexString(address(this)),
+            " dispute #",
+            _toString(id),
+            "? Yes slashes the issuer."
+        );
+    }
+
+    function getDispute(uint256 id) external view returns (Dispute memory) {
+        require(id < disputes.length, "Dispute does not exist");
+        return disputes[id];
+    }
+
+    function getIssuerDisputes(address issuer) external view returns (uint256[] memory) {
+        return issuerDisputes[issuer];
+    }
+
+    function disputeCount() external view returns (uint256) {
+        return disputes.length;
+    }
+
+    /// @notice Update arbiter (owner only)
+    function setArbiter(address _arbiter) external {
+        require(msg.sender == owner, "Only owner");
+        arbiter = _arbiter;
+        emit ArbiterUpdated(_arbiter);
+    }
+
+    /// @notice Update bond and windows for new disputes (owner only)
+    function setParameters(uint256 _disputeBond, uint256 _responseWindow, uint256 _resolutionWindow) external {
+        require(msg.sender == owner, "Only owner");
+        disputeBond = _disputeBond;
+        responseWindow = _responseWindow;
+        resolutionWindow = _resolutionWindow;
+        emit DisputeParametersUpdated(_disputeBond, _responseWindow, _resolutionWindow);
+    }
+
+    /// @notice Update the voting rules for escalated disputes (owner only)
+    function setGovernanceParameters(uint256 _minVotingPeriod, uint256 _quorum) external {
+        require(msg.sender == owner, "Only owner");
+        require(_quorum > 0, "Quorum must be positive");
+        minVotingPeriod = _minVotingPeriod;
+        quorum = _quorum;
+        emit GovernanceParametersUpdated(_minVotingPeriod, _quorum);
+    }
+
+    // ─── Internal ────────────────────────────────────────────────────────────
+
+    function _open(uint256 id) private view returns (Dispute storage d) {
+        require(id < disputes.length, "Dispute does not exist");
+        d = disputes[id];
+        require(d.status == Status.Open, "Dispute closed");
+    }
+
+    function _settle(Dispute storage d, bool upheld, bool byGovernance) private {
+        d.status = upheld ? Status.Upheld : Status.Rejected;
+        hasOpenDispute[d.player] = false;
+
+        if (upheld) {
+            // An issuer who already unstaked or was deactivated cannot be slashed;
+            // the dispute still resolves in the challenger's favour.
+            try staking.slash(d.issuer, "Upheld credential dispute") {
+                d.slashed = true;
+            } catch {}
+        }
+
+        emit DisputeResolved(d.id, upheld, byGovernance, d.slashed);
+        claimable[upheld ? d.challenger : d.issuer] += d.bond;
+    }
+
+    function _expire(Dispute storage d) private {
+        d.status = Status.Expired;
+        hasOpenDispute[d.player] = false;
+
+        emit DisputeExpired(d.id);
+        claimable[d.challenger] += d.bond;
+    }
+
+    function _toString(uint256 value) private pure returns (string memory) {
+        if (value == 0) return "0";
+        uint256 digits;
+        for (uint256 v = value; v != 0; v /= 10) digits++;
+        bytes memory buffer = new bytes(digits);
+        for (; value != 0; value /= 10) buffer[--digits] = bytes1(uint8(48 + (value % 10)));
+        return string(buffer);
+    }
+
+    function _toHexString(address account) private pure returns (string memory) {
+        bytes16 symbols = "0123456789abcdef";
+        bytes memory buffer = new bytes(42);
+        buffer[0] = "0";
+        buffer[1] = "x";
+        uint160 value = uint160(account);
+        for (uint256 i = 41; i > 1; i--) {
+            buffer[i] = symbols[value & 0xf];
+            value >>= 4;
+        }
+        return string(buffer);
+    }
+
+    function _pay(address to, uint256 amount) private {
+        (bool sent, ) = to.call{value: amount}("");
+        require(sent, "Transfer failed");
+    }
+}
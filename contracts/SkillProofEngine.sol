@@ -1,10 +1,240 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-/// @title SkillProofEngine — Trustless On-Chain ELO Computation
-/// @notice Processes match results and computes ELO ratings entirely on-chain
+/// @title GlickoMath — Signed fixed-point (1e18 = 1.0) helpers for Glicko-2
+library GlickoMath {
+    int256 internal constant WAD = 1e18;
+    int256 internal constant LN2 = 693147180559945309;
+    int256 internal constant SCALE = 173.7178e18;  // Glicko-1 ↔ Glicko-2 scale factor
+    int256 internal constant CENTER = 1500e18;     // Rating at μ = 0
+    int256 internal constant TAU = 0.5e18;         // Constrains volatility change
+
+    function mul(int256 a, int256 b) internal pure returns (int256) {
+        return (a * b) / WAD;
+    }
+
+    function div(int256 a, int256 b) internal pure returns (int256) {
+        return (a * WAD) / b;
+    }
+
+    /// @notice e^x; results below 1e-18 round to 0
+    function exp(int256 x) internal pure returns (int256) {
+        if (x < -41 * WAD) return 0;
+        require(x < 130 * WAD, "exp overflow");
+
+        // x = k·ln2 + r with |r| <= ln2/2, then a Taylor series for e^r
+        int256 k = (x >= 0 ? x + LN2 / 2 : x - LN2 / 2) / LN2;
+        int256 r = x - k * LN2;
+        int256 term = WAD;
+        int256 sum = WAD;
+        for (int256 i = 1; term != 0; i++) {
+            term = (term * r) / (i * WAD);
+            sum += term;
+        }
+        return k >= 0 ? sum * int256(2 ** uint256(k)) : sum / int256(2 ** uint256(-k));
+    }
+
+    /// @notice Natural logarithm of x > 0
+    function ln(int256 x) internal pure returns (int256) {
+        require(x > 0, "ln undefined");
+
+        // x = 2^k·m with m in [1, 2), then ln(m) = 2·atanh((m - 1) / (m + 1))
+        int256 k = 0;
+        while (x >= 2 * WAD) {
+            x /= 2;
+            k++;
+        }
+        while (x < WAD) {
+            x *= 2;
+            k--;
+        }
+        int256 z = div(x - WAD, x + WAD);
+        int256 z2 = mul(z, z);
+        int256 term = z;
+        int256 sum = 0;
+        for (int256 i = 1; term != 0; i += 2) {
+            sum += term / i;
+            term = mul(term, z2);
+        }
+        return k * LN2 + 2 * sum;
+    }
+
+    function sqrt(int256 x) internal pure returns (int256) {
+        if (x <= 0) return 0;
+        uint256 y = uint256(x) * uint256(WAD);
+        uint256 z = (y + 1) / 2;
+        uint256 r = y;
+        while (z < r) {
+            r = z;
+            z = (y / z + z) / 2;
+        }
+        return int256(r);
+    }
+}
+
+/// @title SkillProofGlicko — Glicko-2 rating-period update for SkillProofEngine
+/// @notice Stateless; each Engine deploys its own in the constructor so the
+///         Glicko-2 math does not count toward the Engine's contract size
+contract SkillProofGlicko {
+    int256 private constant GLICKO_SCALE = GlickoMath.SCALE;
+    int256 private constant GLICKO_CENTER = GlickoMath.CENTER;
+    int256 private constant TAU = GlickoMath.TAU;
+    int256 private constant PI_SQUARED = 9869604401089358619;
+    int256 private constant CONVERGENCE = 1e12;              // Volatility iteration tolerance (1e-6)
+    int256 private constant MIN_EXPECTED = 1e9;              // Keeps E away from 0 and 1
+    uint256 private constant MAX_ITERATIONS = 50;
+
+    /// @notice Rate both players of a 1v1, each against the other's pre-match rating
+    function updatePair(
+        SkillProofEngineBase.GlickoRating memory player1,
+        SkillProofEngineBase.GlickoRating memory player2,
+        int256 score1
+    ) external view returns (SkillProofEngineBase.GlickoRating memory, SkillProofEngineBase.GlickoRating memory) {
+        SkillProofEngineBase.GlickoRating[] memory vs1 = new SkillProofEngineBase.GlickoRating[](1);
+        SkillProofEngineBase.GlickoRating[] memory vs2 = new SkillProofEngineBase.GlickoRating[](1);
+        vs1[0] = player1;
+        vs2[0] = player2;
+        int256[] memory score = new int256[](1);
+        score[0] = score1;
+        SkillProofEngineBase.GlickoRating memory updated1 = _update(player1, vs2, score);
+        score[0] = GlickoMath.WAD - score1;
+        return (updated1, _update(player2, vs1, score));
+    }
+
+    /// @notice Rate every participant of a team match in one rating period
+    /// @dev Each opposing team is one opponent with its members' mean rating and
+    ///      root-mean-square RD; scores come from the team placements (1 = first)
+    function updateTeams(
+        SkillProofEngineBase.GlickoRating[] memory current,
+        uint8[] memory teamOf,
+        uint8[] memory placements
+    ) external view returns (SkillProofEngineBase.GlickoRating[] memory updated) {
+        uint256 teamCount = placements.length;
+        SkillProofEngineBase.GlickoRating[] memory teams = new SkillProofEngineBase.GlickoRating[](teamCount);
+        int256[] memory size = new int256[](teamCount);
+        for (uint256 i = 0; i < current.length; i++) {
+            SkillProofEngineBase.GlickoRating memory team = teams[teamOf[i]];
+            team.rating += current[i].rating;
+            team.rd += GlickoMath.mul(current[i].rd, current[i].rd);
+            size[teamOf[i]]++;
+        }
+        for (uint256 t = 0; t < teamCount; t++) {
+            teams[t].rating /= size[t];
+            teams[t].rd = GlickoMath.sqrt(teams[t].rd / size[t]);
+        }
+
+        updated = new SkillProofEngineBase.GlickoRating[](current.length);
+        SkillProofEngineBase.GlickoRating[] memory opponents = new SkillProofEngineBase.GlickoRating[](teamCount - 1);
+        int256[] memory scores = new int256[](teamCount - 1);
+        for (uint256 i = 0; i < current.length; i++) {
+            uint256 n;
+            for (uint256 u = 0; u < teamCount; u++) {
+                if (u == teamOf[i]) continue;
+                uint8 own = placements[teamOf[i]];
+                opponents[n] = teams[u];
+                scores[n] = own < placements[u] ? GlickoMath.WAD : own > placements[u] ? int256(0) : GlickoMath.WAD / 2;
+                n++;
+            }
+            updated[i] = _update(current[i], opponents, scores);
+        }
+    }
+
+    /// @notice Glicko-2 update of `self` after scoring `scores[j]` (1, 0.5 or 0) against `opps[j]`
+    /// @dev Steps 2-8 of Glickman's "Example of the Glicko-2 system"
+    function _update(
+        SkillProofEngineBase.GlickoRating memory self,
+        SkillProofEngineBase.GlickoRating[] memory opps,
+        int256[] memory scores
+    ) internal view returns (SkillProofEngineBase.GlickoRating memory) {
+        int256 mu = GlickoMath.div(self.rating - GLICKO_CENTER, GLICKO_SCALE);
+        int256 phi = GlickoMath.div(self.rd, GLICKO_SCALE);
+
+        // 1/v = Σ g²E(1-E); Σ g(s - E) drives both Δ and the rating change
+        int256 vInverse;
+        int256 improvement;
+        for (uint256 j = 0; j < opps.length; j++) {
+            int256 muOpp = GlickoMath.div(opps[j].rating - GLICKO_CENTER, GLICKO_SCALE);
+            int256 g = _glickoG(GlickoMath.div(opps[j].rd, GLICKO_SCALE));
+            int256 e = GlickoMath.div(GlickoMath.WAD, GlickoMath.WAD + GlickoMath.exp(-GlickoMath.mul(g, mu - muOpp)));
+            if (e < MIN_EXPECTED) e = MIN_EXPECTED;
+            if (e > GlickoMath.WAD - MIN_EXPECTED) e = GlickoMath.WAD - MIN_EXPECTED;
+            vInverse += GlickoMath.mul(GlickoMath.mul(g, g), GlickoMath.mul(e, GlickoMath.WAD - e));
+            improvement += GlickoMath.mul(g, scores[j] - e);
+        }
+
+        int256 v = GlickoMath.div(GlickoMath.WAD, vInverse);
+        int256 delta = GlickoMath.mul(v, improvement);
+        int256 sigma = _glickoVolatility(phi, v, delta, self.volatility);
+
+        int256 phiStar2 = GlickoMath.mul(phi, phi) + GlickoMath.mul(sigma, sigma);
+        int256 phiNew = GlickoMath.div(
+            GlickoMath.WAD,
+            GlickoMath.sqrt(GlickoMath.div(GlickoMath.WAD, phiStar2) + GlickoMath.div(GlickoMath.WAD, v))
+        );
+        int256 muNew = mu + GlickoMath.mul(GlickoMath.mul(phiNew, phiNew), improvement);
+
+        return SkillProofEngineBase.GlickoRating(
+            GlickoMath.mul(muNew, GLICKO_SCALE) + GLICKO_CENTER,
+            GlickoMath.mul(phiNew, GLICKO_SCALE),
+            sigma,
+            block.timestamp
+        );
+    }
+
+    /// @notice g(φ) = 1 / sqrt(1 + 3φ²/π²)
+    function _glickoG(int256 phi) internal pure returns (int256) {
+        return GlickoMath.div(
+            GlickoMath.WAD,
+            GlickoMath.sqrt(GlickoMath.WAD + GlickoMath.div(3 * GlickoMath.mul(phi, phi), PI_SQUARED))
+        );
+    }
+
+    /// @notice New volatility σ' by the Illinois algorithm (step 5)
+    function _glickoVolatility(int256 phi, int256 v, int256 delta, int256 sigma) internal pure returns (int256) {
+        int256 a = GlickoMath.ln(GlickoMath.mul(sigma, sigma));
+        int256 phi2 = GlickoMath.mul(phi, phi);
+        int256 delta2 = GlickoMath.mul(delta, delta);
+
+        int256 lo = a;
+        int256 hi;
+        if (delta2 > phi2 + v) {
+            hi = GlickoMath.ln(delta2 - phi2 - v);
+        } else {
+            int256 k = 1;
+            while (_volatilityF(a - k * TAU, delta2, phi2, v, a) < 0) k++;
+            hi = a - k * TAU;
+        }
+
+        int256 fLo = _volatilityF(lo, delta2, phi2, v, a);
+        int256 fHi = _volatilityF(hi, delta2, phi2, v, a);
+        for (uint256 i = 0; i < MAX_ITERATIONS; i++) {
+            if ((hi > lo ? hi - lo : lo - hi) <= CONVERGENCE) break;
+            int256 c = lo + GlickoMath.div(GlickoMath.mul(lo - hi, fLo), fHi - fLo);
+            int256 fC = _volatilityF(c, delta2, phi2, v, a);
+            if ((fC <= 0) == (fHi >= 0)) {
+                lo = hi;
+                fLo = fHi;
+            } else {
+                fLo = fLo / 2;
+            }
+            hi = c;
+            fHi = fC;
+        }
+        return GlickoMath.exp(lo / 2);
+    }
+
+    /// @notice f(x) = e^x(Δ² - φ² - v - e^x) / (2(φ² + v + e^x)²) - (x - a) / τ²
+    function _volatilityF(int256 x, int256 delta2, int256 phi2, int256 v, int256 a) internal pure returns (int256) {
+        int256 ex = GlickoMath.exp(x);
+        int256 denom = phi2 + v + ex;
+        return GlickoMath.div(GlickoMath.mul(ex, delta2 - phi2 - v - ex), 2 * GlickoMath.mul(denom, denom))
+            - GlickoMath.div(x - a, GlickoMath.mul(TAU, TAU));
+    }
+}
+
+/// @title SkillProofEngineBase — Engine state, events and the rating math its dispute module shares
 /// @dev Uses fixed-point arithmetic (10000 = 1.0) for ELO calculations
-contract SkillProofEngine {
+abstract contract SkillProofEngineBase {
     address public owner;
 
     uint256 public constant PRECISION = 10000;
@@ -13,6 +243,17 @@ contract SkillProofEngine {
     uint256 public constant K_NEW = 32;         // K-factor for < 30 games
     uint256 public constant K_ESTABLISHED = 24; // K-factor for 30+ games
     uint256 public constant K_EXPERT = 16;      // K-factor for 2000+ ELO
+    uint256 public constant CURVE_STEP = 25;    // Rating points between expected-score samples
+    uint256 public constant CURVE_RANGE = 800;  // Rating differences beyond this are clamped
+    uint256 public constant MAX_TEAMS = 16;
+    uint256 public constant MAX_PARTICIPANTS = 32;
+
+    // Glicko-2 parameters (fixed-point, 1e18 = 1.0)
+    int256 public constant GLICKO_SCALE = GlickoMath.SCALE;
+    int256 public constant GLICKO_CENTER = GlickoMath.CENTER;
+    int256 public constant INITIAL_RD = 350e18;              // RD of an unrated player, and the RD cap
+    int256 public constant INITIAL_VOLATILITY = 0.06e18;
+    int256 public constant TAU = GlickoMath.TAU;
 
     struct Player {
         uint256 elo;
@@ -25,21 +266,39 @@ contract SkillProofEngine {
         uint256 longestStreak;
         string[] domains;
         bool registered;
+        // Record since the current season began (the totals above are lifetime)
+        uint256 seasonWins;
+        uint256 seasonLosses;
+        uint256 seasonDraws;
     }
 
     struct MatchResult {
         address player1;
         address player2;
-        uint8 outcome; // 1 = player1 wins, 2 = player2 wins, 3 = draw
+        uint8 outcome; // 1 = player1 wins, 2 = player2 wins, 3 = draw, 0 = team match
         uint256 player1EloBefore;
         uint256 player2EloBefore;
         int256 player1EloChange;
         int256 player2EloChange;
         uint256 timestamp;
         string domain;
+        // Team and free-for-all matches only (1v1 fields above are zero); empty for 1v1
+        address[] participants;
+        uint8[] teams;       // Team index of each participant
+        uint8[] placements;  // Each participant's team finish: 1 = first, tied teams share a placement
+        uint256[] elosBefore;
+        int256[] eloChanges;
+    }
+
+    /// @notice Glicko-2 state in the Glicko-1 scale (rating ~1500, RD ~350), fixed-point 1e18
+    struct GlickoRating {
+        int256 rating;
+        int256 rd;
+        int256 volatility;
+        uint256 lastRatedAt;
     }
 
-    mapping(address => Player) private _players;
+    mapping(address => Player) internal _players;
     address[] public playerList;
     MatchResult[] public matchHistory;
 
@@ -53,6 +312,94 @@ contract SkillProofEngine {
     // Authorized match reporters (game servers/oracles)
     mapping(address => bool) public authorizedReporters;
 
+    // ━━━ SIGNED REPORTS (EIP-712) ━━━
+
+    /// @notice One match in a `recordMatches` batch
+    struct MatchInput {
+        address player1;
+        address player2;
+        uint8 outcome;
+        string domain;
+    }
+
+    /// @notice A match result signed off-chain and relayed by anyone
+    /// @dev Signed by `reporter` when it is an authorized reporter, otherwise by
+    ///      both players, with `reporter` set to one of them. `nonce` must equal
+    ///      `nonces[reporter]`, so each reporter's reports land in order, once.
+    struct MatchReport {
+        address player1;
+        address player2;
+        uint8 outcome;
+        string domain;
+        address reporter;
+        uint256 nonce;
+        uint256 deadline;
+    }
+
+    bytes32 public constant MATCH_REPORT_TYPEHASH = keccak256(
+        "MatchReport(address player1,address player2,uint8 outcome,string domain,address reporter,uint256 nonce,uint256 deadline)"
+    );
+
+    // Next report nonce per reporter
+    mapping(address => uint256) public nonces;
+
+    // ━━━ GLICKO-2 ━━━
+
+    // Tracked alongside ELO once enabled; unrated players start from their ELO with INITIAL_RD
+    bool public glickoEnabled;
+    // Every full period without a match inflates RD by the player's volatility
+    uint256 public ratingPeriod = 7 days;
+    mapping(address => GlickoRating) internal _glicko;
+
+    // ━━━ SEASONS ━━━
+
+    /// @notice A closed season; its standings are archived by `archiveStandings`
+    struct Season {
+        uint256 startedAt;
+        uint256 endedAt;
+        uint256 firstMatchId;
+        uint256 matchCount;
+        uint256 resetBps; // Share of each rating's distance to BASE_ELO removed at the close
+    }
+
+    /// @notice A player's final line in a closed season, packed into two slots
+    struct SeasonStanding {
+        address player;
+        uint32 rank;          // 1 = highest final ELO, ties in archive order
+        uint32 elo;           // Final ELO, before the soft reset
+        uint32 peakElo;
+        uint32 wins;
+        uint32 losses;
+        uint32 draws;
+        uint32 longestStreak;
+    }
+
+    // May close seasons alongside the owner (e.g. a governance executor)
+    address public governance;
+    uint256 public seasonResetBps = 5000;
+    // Id of the season in progress; closed seasons are 1 … currentSeason - 1
+    uint256 public currentSeason = 1;
+    uint256 public seasonStartedAt;
+    mapping(uint256 => Season) internal _seasons;
+    mapping(uint256 => SeasonStanding[]) internal _seasonStandings;
+    // Season id => player => rank (0 if not registered when the season closed, or not yet archived)
+    mapping(uint256 => mapping(address => uint256)) public seasonRank;
+    // Closed season whose standings are still being archived (0 if none); ratings are frozen meanwhile
+    uint256 public archivingSeason;
+
+    // ━━━ DISPUTES ━━━
+
+    /// @notice Where a match stands in the dispute flow
+    enum DisputeStatus { None, Open, Dismissed, Voided, Corrected }
+
+    // Resolves disputes alongside the owner
+    address public arbiter;
+    // Seconds after a match during which its players may dispute it
+    uint256 public disputeWindow = 3 days;
+    mapping(uint256 => DisputeStatus) public disputeStatus;
+    // Disputes still Open; `closeSeason` waits for them to be resolved
+    uint256 public openDisputes;
+
     event PlayerRegistered(address indexed player, uint256 initialElo);
     event MatchRecorded(
         uint256 indexed matchId,
@@ -62,17 +409,352 @@ contract SkillProofEngine {
         int256 player1Change,
         int256 player2Change
     );
+    event TeamMatchRecorded(
+        uint256 indexed matchId,
+        address[] participants,
+        uint8[] teams,
+        uint8[] placements,
+        int256[] eloChanges
+    );
     event EloUpdated(address indexed player, uint256 oldElo, uint256 newElo);
+    event MatchReportRelayed(uint256 indexed matchId, address indexed reporter, uint256 nonce, address relayer);
+    event GlickoUpdated(address indexed player, uint256 rating, uint256 rd, uint256 volatility);
+    event GlickoConfigUpdated(bool enabled, uint256 ratingPeriod);
+    event SeasonClosed(uint256 indexed season, uint256 playerCount, uint256 matchCount, uint256 resetBps);
+    event SeasonArchived(uint256 indexed season);
+    event SeasonResetUpdated(uint256 resetBps);
+    event GovernanceUpdated(address indexed governance);
+    event MatchDisputed(uint256 indexed matchId, address indexed player);
+    event DisputeResolved(uint256 indexed matchId, DisputeStatus status, uint8 outcome);
+    event DisputeConfigUpdated(address arbiter, uint256 disputeWindow);
+
+    // ━━━ ELO MATH (fixed-point) ━━━
+
+    /// @notice ELO changes for a team match at the participants' current K-factors
+    /// @dev Each team is rated at its members' average ELO and scores 1, ½ or 0
+    ///      against every other team by placement. Members share their team's
+    ///      summed (actual - expected) score, averaged over the opposing teams,
+    ///      scaled by their own K-factor — a 1v1 rates exactly like `recordMatch`.
+    function _teamChanges(
+        address[] memory players,
+        uint256[] memory elosBefore,
+        uint8[] memory teamOf,
+        uint8[] memory placements
+    ) internal view returns (int256[] memory changes) {
+        uint256 teamCount = placements.length;
+        uint256[] memory teamElo = new uint256[](teamCount);
+        uint256[] memory teamSize = new uint256[](teamCount);
+        for (uint256 i = 0; i < players.length; i++) {
+            teamElo[teamOf[i]] += elosBefore[i];
+            teamSize[teamOf[i]]++;
+        }
+        for (uint256 t = 0; t < teamCount; t++) {
+            require(placements[t] >= 1 && placements[t] <= teamCount, "Invalid placement");
+            teamElo[t] /= teamSize[t];
+        }
+
+        // Summed pairwise scores per team
+        uint256[] memory actual = new uint256[](teamCount);
+        uint256[] memory expected = new uint256[](teamCount);
+        for (uint256 t = 0; t < teamCount; t++) {
+            for (uint256 u = t + 1; u < teamCount; u++) {
+                uint256 e = _expectedScore(teamElo[t], teamElo[u]);
+                uint256 a = _placementScore(placements[t], placements[u]);
+                expected[t] += e;
+                expected[u] += PRECISION - e;
+                actual[t] += a;
+                actual[u] += PRECISION - a;
+            }
+        }
+
+        changes = new int256[](players.length);
+        for (uint256 i = 0; i < players.length; i++) {
+            uint8 team = teamOf[i];
+            // Truncating twice equals truncating k·(A - E) / (PRECISION·(teams - 1)) once
+            changes[i] = _eloChange(_kFactor(_players[players[i]]), actual[team], expected[team]) / int256(teamCount - 1);
+        }
+    }
+
+    /// @notice Number of teams placed first; more than one makes it a shared win (a draw)
+    function _firstPlaces(uint8[] memory placements) internal pure returns (uint256 count) {
+        for (uint256 t = 0; t < placements.length; t++) {
+            if (placements[t] == 1) count++;
+        }
+    }
+
+    /// @notice Score of a team placed `a` against one placed `b` (fixed-point)
+    function _placementScore(uint8 a, uint8 b) internal pure returns (uint256) {
+        if (a < b) return PRECISION;
+        if (a > b) return 0;
+        return PRECISION / 2;
+    }
+
+    /// @notice Calculate expected score on the logistic curve
+    /// @dev Real formula: 1 / (1 + 10^((rB - rA) / 400)), sampled every CURVE_STEP
+    ///      points on [0, CURVE_RANGE] and linearly interpolated; negative
+    ///      differences mirror it, E(-d) = 1 - E(d). Within 0.04% of the exact
+    ///      curve; differences beyond ±CURVE_RANGE are clamped.
+    function _expectedScore(uint256 ratingA, uint256 ratingB) internal pure returns (uint256) {
+        uint256 diff = ratingA >= ratingB ? ratingA - ratingB : ratingB - ratingA;
+        if (diff > CURVE_RANGE) diff = CURVE_RANGE;
+
+        uint16[33] memory curve = [
+            uint16(5000), 5359, 5715, 6063, 6401, 6725, 7034, 7325, 7597, 7850, 8083,
+            8296, 8490, 8666, 8823, 8965, 9091, 9203, 9302, 9390, 9468, 9536,
+            9595, 9648, 9693, 9733, 9768, 9799, 9825, 9848, 9868, 9886, 9901
+        ];
+        uint256 i = diff / CURVE_STEP;
+        uint256 expected = curve[i];
+        if (i < curve.length - 1) {
+            expected += (uint256(curve[i + 1] - curve[i]) * (diff % CURVE_STEP)) / CURVE_STEP;
+        }
+
+        return ratingA >= ratingB ? expected : PRECISION - expected;
+    }
+
+    /// @notice Get K-factor based on player experience
+    function _kFactor(Player storage player) internal view returns (uint256) {
+        if (player.elo >= 2000) return K_EXPERT;
+        if (player.totalMatches >= 30) return K_ESTABLISHED;
+        return K_NEW;
+    }
+
+    /// @notice Calculate ELO change
+    function _eloChange(uint256 k, uint256 actual, uint256 expected) internal pure returns (int256) {
+        int256 diff = int256(actual) - int256(expected);
+        return (int256(k) * diff) / int256(PRECISION);
+    }
+
+    /// @notice Apply ELO change with floor at 100
+    function _applyChange(uint256 currentElo, int256 change) internal pure returns (uint256) {
+        if (change >= 0) {
+            return currentElo + uint256(change);
+        } else {
+            uint256 decrease = uint256(-change);
+            if (decrease >= currentElo - 100) {
+                return 100; // Floor
+            }
+            return currentElo - decrease;
+        }
+    }
+
+    /// @notice Update player statistics after a match
+    function _updatePlayerStats(address player, uint256 newElo, bool won, bool drew) internal {
+        Player storage p = _players[player];
+        p.elo = newElo;
+        p.totalMatches++;
+
+        if (won) {
+            p.wins++;
+            p.seasonWins++;
+            p.currentStreak++;
+            if (p.currentStreak > p.longestStreak) {
+                p.longestStreak = p.currentStreak;
+            }
+        } else if (drew) {
+            p.draws++;
+            p.seasonDraws++;
+            p.currentStreak = 0;
+        } else {
+            p.losses++;
+            p.seasonLosses++;
+            p.currentStreak = 0;
+        }
+
+        if (newElo > p.peakElo) {
+            p.peakElo = newElo;
+        }
+    }
+
+    /// @notice Id of the first match of the season in progress
+    function _seasonFirstMatch() internal view returns (uint256) {
+        uint256 previous = currentSeason - 1;
+        return previous == 0 ? 0 : _seasons[previous].firstMatchId + _seasons[previous].matchCount;
+    }
+}
+
+/// @title SkillProofEngineDisputes — Dispute resolution for SkillProofEngine
+/// @notice Deployed by the Engine, which delegatecalls `resolveDispute` here so it runs on the
+///         Engine's storage. Called directly it only sees its own, empty state.
+contract SkillProofEngineDisputes is SkillProofEngineBase {
+    /// @notice See `SkillProofEngine.resolveDispute`
+    function resolveDispute(uint256 matchId, DisputeStatus resolution, uint8[] calldata placements) external {
+        require(msg.sender == owner || msg.sender == arbiter, "Not authorized");
+        require(disputeStatus[matchId] == DisputeStatus.Open, "No open dispute");
+        require(matchId >= _seasonFirstMatch(), "Season closed");
+        require(resolution >= DisputeStatus.Dismissed, "Invalid resolution");
+        MatchResult storage m = matchHistory[matchId];
+
+        if (resolution != DisputeStatus.Dismissed) {
+            (
+                address[] memory players,
+                uint8[] memory teamOf,
+                uint8[] memory result,
+                uint256[] memory elosBefore,
+                int256[] memory changes
+            ) = _matchTeams(m);
+            uint256 firstPlace = _firstPlaces(result);
+            for (uint256 i = 0; i < players.length; i++) {
+                bool top = result[teamOf[i]] == 1;
+                _revertPlayer(players[i], elosBefore[i], changes[i], top && firstPlace == 1, top && firstPlace > 1, m.domain);
+            }
+
+            changes = new int256[](players.length);
+            if (resolution == DisputeStatus.Corrected) {
+                require(
+                    placements.length == result.length && keccak256(abi.encodePacked(placements)) != keccak256(abi.encodePacked(result)),
+                    "Invalid outcome"
+                );
+                result = placements;
+                changes = _teamChanges(players, elosBefore, teamOf, result);
+                firstPlace = _firstPlaces(result);
+                for (uint256 i = 0; i < players.length; i++) {
+                    bool top = result[teamOf[i]] == 1;
+                    _applyCorrection(players[i], changes[i], top && firstPlace == 1, top && firstPlace > 1, m.domain);
+                }
+            }
+
+            if (m.outcome == 0) {
+                for (uint256 i = 0; i < players.length; i++) {
+                    m.placements[i] = result[teamOf[i]];
+                    m.eloChanges[i] = changes[i];
+                }
+            } else {
+                m.outcome = result[0] < result[1] ? 1 : result[0] > result[1] ? 2 : 3;
+                m.player1EloChange = changes[0];
+                m.player2EloChange = changes[1];
+            }
+        }
+
+        disputeStatus[matchId] = resolution;
+        openDisputes--;
+        emit DisputeResolved(matchId, resolution, m.outcome);
+    }
+
+    /// @notice A match as participant arrays plus each team's placement; a 1v1 is two one-player teams
+    function _matchTeams(MatchResult storage m) internal view returns (
+        address[] memory players,
+        uint8[] memory teamOf,
+        uint8[] memory placements,
+        uint256[] memory elosBefore,
+        int256[] memory changes
+    ) {
+        if (m.outcome == 0) {
+            players = m.participants;
+            teamOf = m.teams;
+            elosBefore = m.elosBefore;
+            changes = m.eloChanges;
+            uint256 teamCount;
+            for (uint256 i = 0; i < teamOf.length; i++) {
+                if (teamOf[i] >= teamCount) teamCount = teamOf[i] + 1;
+            }
+            placements = new uint8[](teamCount);
+            for (uint256 i = 0; i < teamOf.length; i++) {
+                placements[teamOf[i]] = m.placements[i];
+            }
+        } else {
+            players = new address[](2);
+            players[0] = m.player1;
+            players[1] = m.player2;
+            teamOf = new uint8[](2);
+            teamOf[1] = 1;
+            placements = new uint8[](2);
+            placements[0] = m.outcome == 2 ? 2 : 1;
+            placements[1] = m.outcome == 1 ? 2 : 1;
+            elosBefore = new uint256[](2);
+            elosBefore[0] = m.player1EloBefore;
+            elosBefore[1] = m.player2EloBefore;
+            changes = new int256[](2);
+            changes[0] = m.player1EloChange;
+            changes[1] = m.player2EloChange;
+        }
+    }
+
+    /// @notice Take one player's side of a match back out of their rating and record
+    function _revertPlayer(
+        address player,
+        uint256 eloBefore,
+        int256 change,
+        bool won,
+        bool drew,
+        string storage domain
+    ) internal {
+        Player storage p = _players[player];
+        // The change actually applied after the 100 ELO floor
+        uint256 eloAfter = _applyChange(eloBefore, change);
+        int256 applied = int256(eloAfter) - int256(eloBefore);
+        uint256 oldElo = p.elo;
+        uint256 newElo = _applyChange(oldElo, -applied);
+        p.elo = newElo;
+
+        // The match is counted in every total below, so none can underflow
+        unchecked {
+            p.totalMatches--;
+            if (won) {
+                p.wins--;
+                p.seasonWins--;
+                if (p.currentStreak > 0) {
+                    if (p.longestStreak == p.currentStreak) p.longestStreak--;
+                    p.currentStreak--;
+                }
+            } else if (drew) {
+                p.draws--;
+                p.seasonDraws--;
+            } else {
+                p.losses--;
+                p.seasonLosses--;
+            }
+        }
+
+        // The match set the peak if it still equals the rating the match left
+        if (applied > 0 && p.peakElo == eloAfter) {
+            p.peakElo = eloBefore > newElo ? eloBefore : newElo;
+        }
+        if (bytes(domain).length > 0) {
+            domainElo[player][domain] = _applyChange(domainElo[player][domain], -applied);
+        }
+        emit EloUpdated(player, oldElo, newElo);
+    }
+
+    function _applyCorrection(address player, int256 change, bool won, bool drew, string storage domain) internal {
+        uint256 oldElo = _players[player].elo;
+        uint256 newElo = _applyChange(oldElo, change);
+        _updatePlayerStats(player, newElo, won, drew);
+        if (bytes(domain).length > 0) {
+            domainElo[player][domain] = _applyChange(domainElo[player][domain], change);
+        }
+        emit EloUpdated(player, oldElo, newElo);
+    }
+}
+
+/// @title SkillProofEngine — Trustless On-Chain ELO Computation
+/// @notice Processes match results and computes ELO ratings entirely on-chain
+contract SkillProofEngine is SkillProofEngineBase {
+    bytes32 public immutable DOMAIN_SEPARATOR;
+    // Rating-period math and dispute resolution, deployed with the Engine
+    SkillProofGlicko public immutable glickoRater;
+    SkillProofEngineDisputes public immutable disputeResolver;
 
     constructor() {
         owner = msg.sender;
         authorizedReporters[msg.sender] = true;
+        seasonStartedAt = block.timestamp;
+        glickoRater = new SkillProofGlicko();
+        disputeResolver = new SkillProofEngineDisputes();
+        DOMAIN_SEPARATOR = keccak256(abi.encode(
+            keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)"),
+            keccak256(bytes("SkillProofEngine")),
+            keccak256(bytes("1")),
+            block.chainid,
+            address(this)
+        ));
     }
 
     // ━━━ REGISTRATION ━━━
 
     /// @notice Register a new player with base ELO
     function registerPlayer(string[] calldata domains) external {
+        require(archivingSeason == 0, "Season archive pending");
         require(!_players[msg.sender].registered, "Already registered");
 
         Player storage p = _players[msg.sender];
@@ -98,6 +780,7 @@ contract SkillProofEngine {
         string[] calldata domains
     ) external {
         require(authorizedReporters[msg.sender], "Not authorized");
+        require(archivingSeason == 0, "Season archive pending");
         require(!_players[player].registered, "Already registered");
 
         Player storage p = _players[player];
@@ -130,6 +813,145 @@ contract SkillProofEngine {
         string calldata domain
     ) external {
         require(authorizedReporters[msg.sender], "Not authorized");
+        _recordMatch(player1, player2, outcome, domain);
+    }
+
+    /// @notice Record several match results in one transaction, in order
+    /// @dev Reverts the whole batch if any match is invalid
+    function recordMatches(MatchInput[] calldata matches) external {
+        require(authorizedReporters[msg.sender], "Not authorized");
+        require(matches.length > 0, "Empty batch");
+        for (uint256 i = 0; i < matches.length; i++) {
+            _recordMatch(matches[i].player1, matches[i].player2, matches[i].outcome, matches[i].domain);
+        }
+    }
+
+    /// @notice Record a team match, e.g. 2v2 or 3v3v3
+    /// @param teams Members of each team (at least two teams, none empty)
+    /// @param placements Each team's finish: 1 = first; tied teams share a placement
+    /// @param domain The skill domain this match was in
+    function recordTeamMatch(
+        address[][] calldata teams,
+        uint8[] calldata placements,
+        string calldata domain
+    ) external returns (uint256) {
+        require(authorizedReporters[msg.sender], "Not authorized");
+        require(teams.length == placements.length, "Length mismatch");
+
+        uint256 count;
+        for (uint256 t = 0; t < teams.length; t++) {
+            require(teams[t].length > 0, "Empty team");
+            count += teams[t].length;
+        }
+        require(count <= MAX_PARTICIPANTS, "Too many players");
+
+        address[] memory players = new address[](count);
+        uint8[] memory teamOf = new uint8[](count);
+        uint256 n;
+        for (uint256 t = 0; t < teams.length; t++) {
+            for (uint256 i = 0; i < teams[t].length; i++) {
+                players[n] = teams[t][i];
+                teamOf[n] = uint8(t);
+                n++;
+            }
+        }
+        return _recordTeamMatch(players, teamOf, placements, domain);
+    }
+
+    /// @notice Record a free-for-all round: a ranked result of N players
+    /// @param placements Each player's finish: 1 = first; tied players share a placement
+    function recordFreeForAll(
+        address[] calldata players,
+        uint8[] calldata placements,
+        string calldata domain
+    ) external returns (uint256) {
+        require(authorizedReporters[msg.sender], "Not authorized");
+        require(players.length == placements.length, "Length mismatch");
+
+        uint8[] memory teamOf = new uint8[](players.length);
+        for (uint256 i = 0; i < players.length; i++) {
+            teamOf[i] = uint8(i);
+        }
+        return _recordTeamMatch(players, teamOf, placements, domain);
+    }
+
+    /// @notice Record a signed match report; anyone can relay it
+    /// @param signatures The reporter's signature, or player1's then player2's
+    function submitMatchReport(MatchReport calldata report, bytes[] calldata signatures) external {
+        _submitMatchReport(report, signatures);
+    }
+
+    /// @notice Relay several signed match reports in one transaction, in order
+    /// @dev Reverts the whole batch if any report is invalid
+    function submitMatchReports(MatchReport[] calldata reports, bytes[][] calldata signatures) external {
+        require(reports.length > 0, "Empty batch");
+        require(reports.length == signatures.length, "Length mismatch");
+        for (uint256 i = 0; i < reports.length; i++) {
+            _submitMatchReport(reports[i], signatures[i]);
+        }
+    }
+
+    /// @notice EIP-712 digest a match report is signed over
+    function hashMatchReport(MatchReport calldata report) public view returns (bytes32) {
+        bytes32 structHash = keccak256(abi.encode(
+            MATCH_REPORT_TYPEHASH,
+            report.player1,
+            report.player2,
+            report.outcome,
+            keccak256(bytes(report.domain)),
+            report.reporter,
+            report.nonce,
+            report.deadline
+        ));
+        return keccak256(abi.encodePacked("\x19\x01", DOMAIN_SEPARATOR, structHash));
+    }
+
+    function _submitMatchReport(MatchReport calldata report, bytes[] calldata signatures) internal {
+        require(block.timestamp <= report.deadline, "Report expired");
+        require(report.nonce == nonces[report.reporter], "Invalid nonce");
+
+        bytes32 digest = hashMatchReport(report);
+        if (authorizedReporters[report.reporter]) {
+            require(signatures.length == 1, "Invalid signature count");
+            require(_recover(digest, signatures[0]) == report.reporter, "Invalid signature");
+        } else {
+            require(
+                report.reporter == report.player1 || report.reporter == report.player2,
+                "Not authorized"
+            );
+            require(signatures.length == 2, "Invalid signature count");
+            require(_recover(digest, signatures[0]) == report.player1, "Invalid signature");
+            require(_recover(digest, signatures[1]) == report.player2, "Invalid signature");
+        }
+
+        nonces[report.reporter]++;
+        uint256 matchId = _recordMatch(report.player1, report.player2, report.outcome, report.domain);
+        emit MatchReportRelayed(matchId, report.reporter, report.nonce, msg.sender);
+    }
+
+    /// @notice Recover an ECDSA signer, rejecting malleable (high-s) signatures
+    function _recover(bytes32 digest, bytes calldata signature) internal pure returns (address) {
+        require(signature.length == 65, "Invalid signature");
+        bytes32 r = bytes32(signature[0:32]);
+        bytes32 s = bytes32(signature[32:64]);
+        uint8 v = uint8(signature[64]);
+        require(
+            uint256(s) <= 0x7FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF5D576E7357A4501DDFE92F46681B20A0,
+            "Invalid signature"
+        );
+        address signer = ecrecover(digest, v, r, s);
+        require(signer != address(0), "Invalid signature");
+        return signer;
+    }
+
+    /// @notice Validate a match, compute new ELO ratings and store the result
+    function _recordMatch(
+        address player1,
+        address player2,
+        uint8 outcome,
+        string calldata domain
+    ) internal returns (uint256 matchId) {
+        require(archivingSeason == 0, "Season archive pending");
         require(_players[player1].registered, "Player 1 not registered");
         require(_players[player2].registered, "Player 2 not registered");
         require(outcome >= 1 && outcome <= 3, "Invalid outcome");
@@ -167,6 +989,10 @@ contract SkillProofEngine {
         uint256 newElo1 = _applyChange(elo1Before, change1);
         uint256 newElo2 = _applyChange(elo2Before, change2);
 
+        if (glickoEnabled) {
+            _updateGlicko(player1, player2, actual1);
+        }
+
         // Update player stats
         _updatePlayerStats(player1, newElo1, outcome == 1, outcome == 3);
         _updatePlayerStats(player2, newElo2, outcome == 2, outcome == 3);
@@ -177,106 +1003,288 @@ contract SkillProofEngine {
             domainElo[player2][domain] = newElo2;
         }
 
-        // Record match
-        matchHistory.push(MatchResult({
-            player1: player1,
-            player2: player2,
-            outcome: outcome,
-            player1EloBefore: elo1Before,
-            player2EloBefore: elo2Before,
-            player1EloChange: change1,
-            player2EloChange: change2,
-            timestamp: block.timestamp,
-            domain: domain
-        }));
+        // Record match (participant lists stay empty for 1v1)
+        MatchResult storage m = matchHistory.push();
+        m.player1 = player1;
+        m.player2 = player2;
+        m.outcome = outcome;
+        m.player1EloBefore = elo1Before;
+        m.player2EloBefore = elo2Before;
+        m.player1EloChange = change1;
+        m.player2EloChange = change2;
+        m.timestamp = block.timestamp;
+        m.domain = domain;
 
         totalMatches++;
+        matchId = matchHistory.length - 1;
 
-        emit MatchRecorded(matchHistory.length - 1, player1, player2, outcome, change1, change2);
+        emit MatchRecorded(matchId, player1, player2, outcome, change1, change2);
         emit EloUpdated(player1, elo1Before, newElo1);
         emit EloUpdated(player2, elo2Before, newElo2);
     }
 
-    // ━━━ ELO MATH (fixed-point) ━━━
+    /// @notice Validate a team match, rate every participant and store the result
+    function _recordTeamMatch(
+        address[] memory players,
+        uint8[] memory teamOf,
+        uint8[] calldata placements,
+        string calldata domain
+    ) internal returns (uint256 matchId) {
+        require(archivingSeason == 0, "Season archive pending");
+        uint256 teamCount = placements.length;
+        require(teamCount >= 2 && teamCount <= MAX_TEAMS, "Invalid team count");
 
-    /// @notice Calculate expected score using approximated sigmoid
-    /// @dev Real formula: 1 / (1 + 10^((rB - rA) / 400))
-    ///      We approximate with a piecewise linear function for gas efficiency
-    function _expectedScore(uint256 ratingA, uint256 ratingB) internal pure returns (uint256) {
-        int256 diff = int256(ratingA) - int256(ratingB);
+        uint256[] memory elosBefore = new uint256[](players.length);
+        for (uint256 i = 0; i < players.length; i++) {
+            require(_players[players[i]].registered, "Player not registered");
+            for (uint256 j = 0; j < i; j++) {
+                require(players[j] != players[i], "Duplicate player");
+            }
+            elosBefore[i] = _players[players[i]].elo;
+        }
+        int256[] memory changes = _teamChanges(players, elosBefore, teamOf, placements);
 
-        // Clamp to [-400, 400] range for the approximation
-        if (diff > 400) diff = 400;
-        if (diff < -400) diff = -400;
+        if (glickoEnabled) {
+            _updateTeamGlicko(players, teamOf, placements);
+        }
 
-        // Linear approximation of the sigmoid:
-        // At diff = 0: expected = 0.5 (5000)
-        // At diff = +400: expected ≈ 0.91 (9000)
-        // At diff = -400: expected ≈ 0.09 (1000)
-        // Slope: 10 per rating point
-        uint256 expected = uint256(int256(5000) + (diff * 10));
+        uint256 firstPlace = _firstPlaces(placements);
+        uint8[] memory placed = new uint8[](players.length);
+        for (uint256 i = 0; i < players.length; i++) {
+            placed[i] = placements[teamOf[i]];
+            uint256 newElo = _applyChange(elosBefore[i], changes[i]);
+            bool top = placed[i] == 1;
+            _updatePlayerStats(players[i], newElo, top && firstPlace == 1, top && firstPlace > 1);
+            if (bytes(domain).length > 0) {
+                domainElo[players[i]][domain] = newElo;
+            }
+            emit EloUpdated(players[i], elosBefore[i], newElo);
+        }
 
-        // Clamp to [500, 9500] — nobody has 0% or 100% chance
-        if (expected < 500) expected = 500;
-        if (expected > 9500) expected = 9500;
+        MatchResult storage m = matchHistory.push();
+        m.timestamp = block.timestamp;
+        m.domain = domain;
+        m.participants = players;
+        m.teams = teamOf;
+        m.placements = placed;
+        m.elosBefore = elosBefore;
+        m.eloChanges = changes;
 
-        return expected;
+        totalMatches++;
+        matchId = matchHistory.length - 1;
+        emit TeamMatchRecorded(matchId, players, teamOf, placed, changes);
     }
 
-    /// @notice Get K-factor based on player experience
-    function _kFactor(Player storage player) internal view returns (uint256) {
-        if (player.elo >= 2000) return K_EXPERT;
-        if (player.totalMatches >= 30) return K_ESTABLISHED;
-        return K_NEW;
+    // ━━━ ELO MATH (fixed-point) ━━━
+
+    /// @notice Player 1's actual score for a 1v1 outcome (fixed-point)
+    function _outcomeScore(uint8 outcome) internal pure returns (uint256) {
+        if (outcome == 1) return PRECISION;
+        if (outcome == 2) return 0;
+        return PRECISION / 2;
     }
 
-    /// @notice Calculate ELO change
-    function _eloChange(uint256 k, uint256 actual, uint256 expected) internal pure returns (int256) {
-        int256 diff = int256(actual) - int256(expected);
-        return (int256(k) * diff) / int256(PRECISION);
+    /// @notice ELO changes for a 1v1 between players rated `elo1` and `elo2`, at their current K-factors
+    function _matchChanges(
+        address player1,
+        address player2,
+        uint256 elo1,
+        uint256 elo2,
+        uint8 outcome
+    ) internal view returns (int256 change1, int256 change2) {
+        uint256 expected1 = _expectedScore(elo1, elo2);
+        uint256 actual1 = _outcomeScore(outcome);
+        change1 = _eloChange(_kFactor(_players[player1]), actual1, expected1);
+        change2 = _eloChange(_kFactor(_players[player2]), PRECISION - actual1, PRECISION - expected1);
     }
 
-    /// @notice Apply ELO change with floor at 100
-    function _applyChange(uint256 currentElo, int256 change) internal pure returns (uint256) {
-        if (change >= 0) {
-            return currentElo + uint256(change);
-        } else {
-            uint256 decrease = uint256(-change);
-            if (decrease >= currentElo - 100) {
-                return 100; // Floor
-            }
-            return currentElo - decrease;
+    // ━━━ SEASONS ━━━
+
+    /// @notice Close the season in progress; ratings stay frozen until `archiveStandings` finishes
+    /// @dev Owner or governance. Records the season's dates, match range and reset share.
+    ///      Until every player is archived, match recording, registration and the next
+    ///      close revert. Open disputes must be resolved first, as a closed season's
+    ///      matches can no longer be re-rated.
+    function closeSeason() external {
+        require(msg.sender == owner || msg.sender == governance, "Not authorized");
+        require(archivingSeason == 0, "Season archive pending");
+        require(openDisputes == 0, "Disputes pending");
+        uint256 season = currentSeason;
+        uint256 firstMatchId = _seasonFirstMatch();
+        uint256 matchCount = matchHistory.length - firstMatchId;
+        _seasons[season] = Season(seasonStartedAt, block.timestamp, firstMatchId, matchCount, seasonResetBps);
+        currentSeason = season + 1;
+        seasonStartedAt = block.timestamp;
+        if (playerList.length > 0) archivingSeason = season;
+
+        emit SeasonClosed(season, playerList.length, matchCount, seasonResetBps);
+    }
+
+    /// @notice Archive the next players of the closed season's standings and soft-reset their ratings
+    /// @dev Owner or governance. `ranked` continues the standings, ranked off-chain by final
+    ///      ELO, highest first: each player must be registered, not yet archived, and rated
+    ///      no higher than the player archived before. Ranks follow archive order, so ties
+    ///      keep the order given (the SDK uses registration order). Ratings and
+    ///      registered-domain ratings move the season's `resetBps` of the way to BASE_ELO;
+    ///      peak ELO and streaks restart. Lifetime W/L/D and match counts (and so K-factors)
+    ///      carry over, as does Glicko-2, whose RD already widens with inactivity. The batch
+    ///      that archives the last player unfreezes ratings.
+    function archiveStandings(address[] calldata ranked) external {
+        require(msg.sender == owner || msg.sender == governance, "Not authorized");
+        uint256 season = archivingSeason;
+        require(season != 0, "No season to archive");
+        uint256 resetBps = _seasons[season].resetBps;
+        SeasonStanding[] storage standings = _seasonStandings[season];
+        uint256 floor = standings.length == 0 ? type(uint256).max : standings[standings.length - 1].elo;
+
+        for (uint256 i = 0; i < ranked.length; i++) {
+            Player storage p = _players[ranked[i]];
+            require(p.registered, "Player not registered");
+            require(seasonRank[season][ranked[i]] == 0, "Already archived");
+            require(p.elo <= floor, "Not in rank order");
+            floor = p.elo;
+            standings.push(SeasonStanding({
+                player: ranked[i],
+                rank: uint32(standings.length + 1),
+                elo: uint32(p.elo),
+                peakElo: uint32(p.peakElo),
+                wins: uint32(p.seasonWins),
+                losses: uint32(p.seasonLosses),
+                draws: uint32(p.seasonDraws),
+                longestStreak: uint32(p.longestStreak)
+            }));
+            seasonRank[season][ranked[i]] = standings.length;
+            _resetForSeason(ranked[i], p, resetBps);
+        }
+
+        if (standings.length == playerList.length) {
+            archivingSeason = 0;
+            emit SeasonArchived(season);
         }
     }
 
-    /// @notice Update player statistics after a match
-    function _updatePlayerStats(address player, uint256 newElo, bool won, bool drew) internal {
-        Player storage p = _players[player];
+    function _resetForSeason(address player, Player storage p, uint256 resetBps) internal {
+        uint256 oldElo = p.elo;
+        uint256 newElo = _softReset(oldElo, resetBps);
         p.elo = newElo;
-        p.totalMatches++;
+        p.peakElo = newElo;
+        p.currentStreak = 0;
+        p.longestStreak = 0;
+        p.seasonWins = 0;
+        p.seasonLosses = 0;
+        p.seasonDraws = 0;
 
-        if (won) {
-            p.wins++;
-            p.currentStreak++;
-            if (p.currentStreak > p.longestStreak) {
-                p.longestStreak = p.currentStreak;
+        for (uint256 d = 0; d < p.domains.length; d++) {
+            string storage domain = p.domains[d];
+            domainElo[player][domain] = _softReset(domainElo[player][domain], resetBps);
+        }
+        if (newElo != oldElo) {
+            emit EloUpdated(player, oldElo, newElo);
+        }
+    }
+
+    /// @notice Move `elo` `resetBps` of the way toward BASE_ELO, rounding toward the old rating
+    function _softReset(uint256 elo, uint256 resetBps) internal pure returns (uint256) {
+        if (elo >= BASE_ELO) {
+            return elo - ((elo - BASE_ELO) * resetBps) / BPS;
+        }
+        return elo + ((BASE_ELO - elo) * resetBps) / BPS;
+    }
+
+    // ━━━ DISPUTES ━━━
+
+    /// @notice Flag a match for review by the owner or arbiter
+    /// @dev Any of its players, within `disputeWindow` of the match and in the season it was played
+    function disputeMatch(uint256 matchId) external {
+        MatchResult storage m = matchHistory[matchId];
+        bool played = msg.sender == m.player1 || msg.sender == m.player2;
+        for (uint256 i = 0; !played && i < m.participants.length; i++) {
+            played = m.participants[i] == msg.sender;
+        }
+        require(played, "Not a player in this match");
+        require(block.timestamp <= m.timestamp + disputeWindow, "Dispute window closed");
+        require(matchId >= _seasonFirstMatch(), "Season closed");
+        require(disputeStatus[matchId] == DisputeStatus.None, "Already disputed");
+        disputeStatus[matchId] = DisputeStatus.Open;
+        openDisputes++;
+        emit MatchDisputed(matchId, msg.sender);
+    }
+
+    /// @notice Settle an open dispute by keeping, voiding or correcting the result
+    /// @dev Owner or arbiter. `Voided` takes the applied ELO changes and the W/L/D back
+    ///      out of every participant's record and stores zero changes on the match.
+    ///      `Corrected` voids it, then re-rates `placements` (each team's finish,
+    ///      1 = first; a 1v1 is [player1's, player2's], so [1, 1] is a draw) from the
+    ///      pre-match ratings at the players' current K-factors; `placements` is
+    ///      ignored otherwise. Peak ELO and win streaks are walked back where the
+    ///      match set them; a voided loss or draw cannot restore the streak it ended.
+    ///      Glicko-2 and later matches' changes are left as they are. Runs in
+    ///      `disputeResolver`, which keeps the Engine under the contract size limit.
+    function resolveDispute(uint256, DisputeStatus, uint8[] calldata) external {
+        (bool ok, bytes memory result) = address(disputeResolver).delegatecall(msg.data);
+        if (!ok) {
+            assembly ("memory-safe") {
+                revert(add(result, 32), mload(result))
             }
-        } else if (drew) {
-            p.draws++;
-            p.currentStreak = 0;
-        } else {
-            p.losses++;
-            p.currentStreak = 0;
         }
+    }
 
-        if (newElo > p.peakElo) {
-            p.peakElo = newElo;
+    // ━━━ GLICKO-2 MATH ━━━
+
+    /// @notice Rate both players on one match, each against the other's pre-match rating
+    /// @dev Each match is rated as its own Glicko-2 rating period; whole `ratingPeriod`s
+    ///      without a match only inflate RD (see `_currentGlicko`)
+    function _updateGlicko(address player1, address player2, uint256 actual1) internal {
+        (GlickoRating memory g1, GlickoRating memory g2) = glickoRater.updatePair(
+            _currentGlicko(player1),
+            _currentGlicko(player2),
+            (int256(actual1) * GlickoMath.WAD) / int256(PRECISION)
+        );
+        _storeGlicko(player1, g1);
+        _storeGlicko(player2, g2);
+    }
+
+    /// @notice Rate every participant of a team match in one rating period (see `SkillProofGlicko.updateTeams`)
+    function _updateTeamGlicko(address[] memory players, uint8[] memory teamOf, uint8[] calldata placements) internal {
+        GlickoRating[] memory current = new GlickoRating[](players.length);
+        for (uint256 i = 0; i < players.length; i++) {
+            current[i] = _currentGlicko(players[i]);
+        }
+        GlickoRating[] memory updated = glickoRater.updateTeams(current, teamOf, placements);
+        for (uint256 i = 0; i < players.length; i++) {
+            _storeGlicko(players[i], updated[i]);
         }
     }
 
+    function _storeGlicko(address player, GlickoRating memory g) internal {
+        _glicko[player] = g;
+        emit GlickoUpdated(player, _nonNegative(g.rating), uint256(g.rd), uint256(g.volatility));
+    }
+
+    /// @notice A player's Glicko-2 state as of now, with RD inflated for idle rating periods
+    function _currentGlicko(address player) internal view returns (GlickoRating memory g) {
+        g = _glicko[player];
+        if (g.rd == 0) {
+            return GlickoRating(int256(_players[player].elo) * GlickoMath.WAD, INITIAL_RD, INITIAL_VOLATILITY, block.timestamp);
+        }
+
+        // RD² grows by σ² (Glicko-1 scale) per idle period, capped at INITIAL_RD
+        int256 idle = int256((block.timestamp - g.lastRatedAt) / ratingPeriod);
+        if (idle > 0) {
+            int256 sigma = GlickoMath.mul(g.volatility, GLICKO_SCALE);
+            int256 rd = GlickoMath.sqrt(GlickoMath.mul(g.rd, g.rd) + idle * GlickoMath.mul(sigma, sigma));
+            g.rd = rd > INITIAL_RD ? INITIAL_RD : rd;
+        }
+    }
+
+    function _nonNegative(int256 x) internal pure returns (uint256) {
+        return x > 0 ? uint256(x) : 0;
+    }
+
     // ━━━ VIEW FUNCTIONS ━━━
 
     /// @notice Get full player stats
+    /// @dev `peakElo` and the streaks cover the current season; the record is lifetime
     function getPlayer(address player) external view returns (
         uint256 elo,
         uint256 wins,
@@ -304,11 +1312,71 @@ contract SkillProofEngine {
         return _players[player].registered;
     }
 
+    /// @notice W/L/D since the current season began
+    function getSeasonRecord(address player) external view returns (uint256 wins, uint256 losses, uint256 draws) {
+        Player storage p = _players[player];
+        return (p.seasonWins, p.seasonLosses, p.seasonDraws);
+    }
+
+    /// @notice Get a closed season
+    function getSeason(uint256 season) external view returns (Season memory) {
+        require(season > 0 && season < currentSeason, "Season not closed");
+        return _seasons[season];
+    }
+
+    /// @notice Paginated final standings of a closed season, best first
+    function getSeasonStandings(
+        uint256 season,
+        uint256 start,
+        uint256 count
+    ) external view returns (SeasonStanding[] memory page) {
+        require(season > 0 && season < currentSeason, "Season not closed");
+        SeasonStanding[] storage standings = _seasonStandings[season];
+        if (start >= standings.length) return new SeasonStanding[](0);
+        uint256 end = start + count > standings.length ? standings.length : start + count;
+        page = new SeasonStanding[](end - start);
+        for (uint256 i = start; i < end; i++) {
+            page[i - start] = standings[i];
+        }
+    }
+
+    /// @notice A player's final standing in a closed season (all zero if they were not ranked)
+    function getSeasonStanding(uint256 season, address player) external view returns (SeasonStanding memory standing) {
+        uint256 rank = seasonRank[season][player];
+        if (rank > 0) standing = _seasonStandings[season][rank - 1];
+    }
+
     /// @notice Get domain-specific ELO
     function getDomainElo(address player, string calldata domain) external view returns (uint256) {
         return domainElo[player][domain];
     }
 
+    /// @notice Get the domains a player registered with
+    function getPlayerDomains(address player) external view returns (string[] memory) {
+        return _players[player].domains;
+    }
+
+    /// @notice Get a player's Glicko-2 rating (fixed-point, 1e18 = 1.0)
+    /// @dev `rd` includes inflation for idle rating periods up to now. Unrated
+    ///      players report their ELO with INITIAL_RD and `rated == false`.
+    function getGlicko(address player) external view returns (
+        uint256 rating,
+        uint256 rd,
+        uint256 volatility,
+        uint256 lastRatedAt,
+        bool rated
+    ) {
+        GlickoRating memory g = _currentGlicko(player);
+        rated = _glicko[player].rd != 0;
+        return (_nonNegative(g.rating), uint256(g.rd), uint256(g.volatility), rated ? g.lastRatedAt : 0, rated);
+    }
+
+    /// @notice Conservative skill estimate, rating - 2·RD, in whole rating points (0 if negative)
+    function getConservativeRating(address player) external view returns (uint256) {
+        GlickoRating memory g = _currentGlicko(player);
+        return _nonNegative(g.rating - 2 * g.rd) / uint256(GlickoMath.WAD);
+    }
+
     /// @notice Get match details
     function getMatch(uint256 matchId) external view returns (MatchResult memory) {
         return matchHistory[matchId];
@@ -324,6 +1392,11 @@ contract SkillProofEngine {
         return totalPlayers;
     }
 
+    /// @notice Expected score of `ratingA` against `ratingB` (fixed-point, 10000 = 1.0)
+    function expectedScore(uint256 ratingA, uint256 ratingB) external pure returns (uint256) {
+        return _expectedScore(ratingA, ratingB);
+    }
+
     /// @notice Calculate what the ELO changes WOULD be for a hypothetical match
     /// @dev Useful for UI to show potential ELO changes before a match
     function simulateMatch(
@@ -331,17 +1404,7 @@ contract SkillProofEngine {
         address player2,
         uint8 outcome
     ) external view returns (int256 change1, int256 change2) {
-        uint256 expected1 = _expectedScore(_players[player1].elo, _players[player2].elo);
-        uint256 expected2 = PRECISION - expected1;
-
-        uint256 actual1;
-        uint256 actual2;
-        if (outcome == 1) { actual1 = PRECISION; actual2 = 0; }
-        else if (outcome == 2) { actual1 = 0; actual2 = PRECISION; }
-        else { actual1 = PRECISION / 2; actual2 = PRECISION / 2; }
-
-        change1 = _eloChange(_kFactor(_players[player1]), actual1, expected1);
-        change2 = _eloChange(_kFactor(_players[player2]), actual2, expected2);
+        return _matchChanges(player1, player2, _players[player1].elo, _players[player2].elo, outcome);
     }
 
     // ━━━ ADMIN ━━━
@@ -355,4 +1418,36 @@ contract SkillProofEngine {
         require(msg.sender == owner, "Only owner");
         authorizedReporters[reporter] = false;
     }
+
+    /// @notice Turn Glicko-2 tracking on or off and set the rating period length
+    function setGlickoConfig(bool enabled, uint256 period) external {
+        require(msg.sender == owner, "Only owner");
+        require(period > 0, "Invalid period");
+        glickoEnabled = enabled;
+        ratingPeriod = period;
+        emit GlickoConfigUpdated(enabled, period);
+    }
+
+    /// @notice Set how far `closeSeason` moves ratings toward BASE_ELO (10000 = full reset)
+    function setSeasonResetBps(uint256 resetBps) external {
+        require(msg.sender == owner, "Only owner");
+        require(resetBps <= BPS, "Invalid reset factor");
+        seasonResetBps = resetBps;
+        emit SeasonResetUpdated(resetBps);
+    }
+
+    /// @notice Let `governance` close seasons alongside the owner (zero address to disable)
+    function setGovernance(address _governance) external {
+        require(msg.sender == owner, "Only owner");
+        governance = _governance;
+        emit GovernanceUpdated(_governance);
+    }
+
+    /// @notice Set who resolves disputes alongside the owner and how long players have to raise them
+    function setDisputeConfig(address _arbiter, uint256 window) external {
+        require(msg.sender == owner, "Only owner");
+        arbiter = _arbiter;
+        disputeWindow = window;
+        emit DisputeConfigUpdated(_arbiter, window);
+    }
 }
@@ -41,6 +41,13 @@ interface ISkillProofAttestor {
     function getAttestation(address player) external view returns (Attestation memory);
 }
 
+interface ISkillProofTreasuryHubFees {
+    function marketFeeFor(address creator) external view returns (uint256);
+    function bountyCommissionFor(address solver, uint256 reward) external view returns (uint256);
+    function collectMarketFee(address creator) external payable;
+    function processBountyCommission(address solver) external payable;
+}
+
 // ──────────────────────────────────────────────────────────────────────────────
 // SkillProofHub — Skill-gated DeFi, governance, prediction markets & bounties
 //                 with cross-module reputation flywheel
@@ -59,6 +66,12 @@ contract SkillProofHub {
     ISkillProofAttestor public immutable attestor;
     address public owner;
 
+    // When set, createMarket must carry the market fee and bounty rewards are
+    // paid out through the treasury's commission.
+    ISkillProofTreasuryHubFees public treasury;
+
+    event TreasuryUpdated(address indexed treasury);
+
     // ─── Module 5: Reputation ─────────────────────────────────────────────────
 
     mapping(address => int256) public reputationBonus;
@@ -158,6 +171,14 @@ contract SkillProofHub {
         owner = msg.sender;
     }
 
+    /// @notice Owner-only: charge market fees and bounty commission through
+    ///         `_treasury` (address(0) turns fees off).
+    function setTreasury(address _treasury) external {
+        require(msg.sender == owner, "Only owner");
+        treasury = ISkillProofTreasuryHubFees(_treasury);
+        emit TreasuryUpdated(_treasury);
+    }
+
     // ═══════════════════════════════════════════════════════════════════════════
     // MODULE 5 — REPUTATION: Cross-Module Flywheel
     // ═══════════════════════════════════════════════════════════════════════════
@@ -335,7 +356,7 @@ contract SkillProofHub {
         int256 targetPrice,
         uint256 commitDeadline,
         uint256 revealDeadline
-    ) external {
+    ) external payable {
         require(registry.hasCredential(msg.sender), "No credential");
         require(commitDeadline > block.timestamp, "Commit deadline must be future");
         require(revealDeadline > commitDeadline, "Reveal must be after commit");
@@ -353,6 +374,17 @@ contract SkillProofHub {
             creator: msg.sender
         });
         emit MarketCreated(id, question);
+
+        if (address(treasury) != address(0)) {
+            treasury.collectMarketFee{value: msg.value}(msg.sender);
+        } else {
+            require(msg.value == 0, "Market creation is free");
+        }
+    }
+
+    /// @notice Fee `creator` must send with createMarket.
+    function marketFee(address creator) external view returns (uint256) {
+        return address(treasury) == address(0) ? 0 : treasury.marketFeeFor(creator);
     }
 
     /// @notice Commit a hashed prediction to a market.
@@ -541,8 +573,19 @@ contract SkillProofHub {
         reputationBonus[winner] += 15;
         emit ReputationUpdated(winner, reputationBonus[winner]);
 
-        (bool ok,) = winner.call{value: b.reward}("");
-        require(ok, "Transfer failed");
+        if (address(treasury) != address(0)) {
+            // Treasury keeps its commission and forwards the rest to the winner
+            treasury.processBountyCommission{value: b.reward}(winner);
+        } else {
+            (bool ok,) = winner.call{value: b.reward}("");
+            require(ok, "Transfer failed");
+        }
         emit BountyAwarded(bountyId, winner, b.reward);
     }
+
+    /// @notice Commission withheld from the bounty's reward if it is awarded to `winner`.
+    function bountyCommission(uint256 bountyId, address winner) external view returns (uint256) {
+        if (address(treasury) == address(0)) return 0;
+        return treasury.bountyCommissionFor(winner, bounties[bountyId].reward);
+    }
 }
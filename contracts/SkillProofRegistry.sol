@@ -1,6 +1,15 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.25;
 
+interface ISkillProofStakingGate {
+    function isValidIssuer(address issuer) external view returns (bool);
+}
+
+interface ISkillProofTreasuryCredentialFee {
+    function credentialFeeFor(address issuer) external view returns (uint256);
+    function collectCredentialFee(address issuer, address user) external payable;
+}
+
 contract SkillProofRegistry {
     struct SkillCredential {
         string playerName;
@@ -26,11 +35,22 @@ contract SkillProofRegistry {
     mapping(address => bool) public hasCredential;
     address public owner;
 
+    // When set, minting and updating also require an active stake at or above
+    // the staking contract's minimum. A slash that deactivates the stake
+    // suspends issuance on the next call.
+    ISkillProofStakingGate public staking;
+
+    // When set, mintCredential must carry the treasury's credential fee for
+    // the issuer, and the whole payment is forwarded to it.
+    ISkillProofTreasuryCredentialFee public treasury;
+
     event CredentialMinted(address indexed player, address indexed issuer, uint256 overallElo);
     event CredentialUpdated(address indexed player, uint256 overallElo);
     event CredentialRevoked(address indexed player);
     event IssuerRegistered(address indexed issuer, string name);
     event IssuerRevoked(address indexed issuer);
+    event StakingUpdated(address indexed staking);
+    event TreasuryUpdated(address indexed treasury);
 
     constructor() {
         owner = msg.sender;
@@ -48,6 +68,20 @@ contract SkillProofRegistry {
         emit IssuerRevoked(issuerAddress);
     }
 
+    /// @notice Require issuers to be staked in `_staking` (address(0) disables the check)
+    function setStaking(address _staking) external {
+        require(msg.sender == owner, "Only owner");
+        staking = ISkillProofStakingGate(_staking);
+        emit StakingUpdated(_staking);
+    }
+
+    /// @notice Charge minting fees through `_treasury` (address(0) makes minting free)
+    function setTreasury(address _treasury) external {
+        require(msg.sender == owner, "Only owner");
+        treasury = ISkillProofTreasuryCredentialFee(_treasury);
+        emit TreasuryUpdated(_treasury);
+    }
+
     function mintCredential(
         address player,
         string calldata playerName,
@@ -58,8 +92,9 @@ contract SkillProofRegistry {
         uint256[] calldata skillPercentiles,
         uint256 totalMatches,
         uint256 winRate
-    ) external {
+    ) external payable {
         require(issuers[msg.sender].isActive, "Not active issuer");
+        _requireStake();
         require(skillDomains.length == skillScores.length, "Array length mismatch");
         require(skillDomains.length == skillPercentiles.length, "Array length mismatch");
         require(!hasCredential[player], "Credential already exists");
@@ -82,6 +117,12 @@ contract SkillProofRegistry {
 
         hasCredential[player] = true;
         emit CredentialMinted(player, msg.sender, overallElo);
+
+        if (address(treasury) != address(0)) {
+            treasury.collectCredentialFee{value: msg.value}(msg.sender, player);
+        } else {
+            require(msg.value == 0, "Minting is free");
+        }
     }
 
     function updateCredential(
@@ -96,6 +137,7 @@ contract SkillProofRegistry {
         SkillCredential storage cred = credentials[player];
         require(cred.issuer == msg.sender, "Not original issuer");
         require(hasCredential[player] && cred.isValid, "Invalid credential");
+        _requireStake();
 
         cred.overallElo = overallElo;
         cred.percentile = percentile;
@@ -125,4 +167,21 @@ contract SkillProofRegistry {
         Issuer memory iss = issuers[issuerAddress];
         return (iss.name, iss.isActive);
     }
+
+    /// @notice Whether `issuerAddress` can mint right now (registered, and staked when staking is set)
+    function canIssue(address issuerAddress) external view returns (bool) {
+        if (!issuers[issuerAddress].isActive) return false;
+        return address(staking) == address(0) || staking.isValidIssuer(issuerAddress);
+    }
+
+    /// @notice Fee `issuerAddress` must send with mintCredential
+    function mintFee(address issuerAddress) external view returns (uint256) {
+        return address(treasury) == address(0) ? 0 : treasury.credentialFeeFor(issuerAddress);
+    }
+
+    function _requireStake() internal view {
+        if (address(staking) != address(0)) {
+            require(staking.isValidIssuer(msg.sender), "Issuer not staked");
+        }
+    }
 }
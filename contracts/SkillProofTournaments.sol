@@ -0,0 +1,666 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.25;
+
+interface ISkillProofEngineTournaments {
+    function getPlayer(address player) external view returns (
+        uint256 elo,
+        uint256 wins,
+        uint256 losses,
+        uint256 draws,
+        uint256 matchCount,
+        uint256 peakElo,
+        uint256 currentStreak,
+        uint256 longestStreak,
+        bool registered
+    );
+    function getMatchCount() external view returns (uint256);
+    function recordMatch(address player1, address player2, uint8 outcome, string calldata domain) external;
+}
+
+/// @title SkillProofTournaments — Bracket and Swiss Tournaments on SkillProofEngine
+/// @notice Organizers run single-elimination, double-elimination or Swiss
+///         tournaments for Engine-registered players. Entry fees are held in
+///         escrow as the prize pool, players are seeded by their current Engine
+///         ELO, every reported result is recorded on the Engine, and the pool is
+///         paid out by final placement.
+/// @dev Must be an authorized reporter on the Engine for results to record.
+///      Rounds are played in lockstep: the next round is paired when the last
+///      result of the current one is reported. A started tournament that goes
+///      `STALL_TIMEOUT` without a result can be cancelled by anyone, so the
+///      pool is refunded even if the organizer disappears or the Engine stops
+///      accepting its results.
+contract SkillProofTournaments {
+    ISkillProofEngineTournaments public immutable engine;
+
+    address public owner;
+    mapping(address => bool) public organizers;
+
+    uint256 public constant MAX_PLAYERS = 64;
+    uint256 public constant BPS = 10000;
+    uint256 public constant STALL_TIMEOUT = 30 days;
+
+    // Pairing brackets
+    uint8 public constant WINNERS = 0;
+    uint8 public constant LOSERS = 1;
+    uint8 public constant GRAND_FINAL = 2;
+
+    enum Format { SingleElimination, DoubleElimination, Swiss }
+    enum Status { Registration, Active, Completed, Cancelled }
+
+    struct Tournament {
+        uint256 id;
+        string name;
+        string domain;
+        Format format;
+        Status status;
+        address organizer;
+        uint256 entryFee;
+        uint256 prizePool;
+        uint256 maxPlayers;
+        uint256 rounds; // Swiss rounds to play; 0 for elimination formats
+        uint256 currentRound; // 1-based once started
+        uint256[] payoutBps; // share of the pool for 1st, 2nd, ... place
+        address champion;
+        uint256 createdAt;
+        uint256 completedAt;
+    }
+
+    /// @dev `player2 == address(0)` is a bye, recorded as a player1 win without an Engine match
+    struct Pairing {
+        uint256 round;
+        uint8 bracket;
+        address player1;
+        address player2;
+        uint8 outcome; // 0 = pending, 1 = player1 wins, 2 = player2 wins, 3 = draw (Swiss only)
+        uint256 engineMatchId;
+    }
+
+    struct Entrant {
+        bool joined;
+        uint256 seed; // 1 = highest ELO at the start
+        uint256 eloAtStart;
+        uint256 losses;
+        uint256 points; // Swiss: 2 per win or bye, 1 per draw
+        bool hadBye;
+        uint256 eliminatedRound; // elimination formats; 0 while still in
+        uint256 place; // set on completion; tied players share a place
+        uint256 prize;
+    }
+
+    Tournament[] private tournaments;
+    mapping(uint256 => address[]) private players; // join order, then seed order once started
+    mapping(uint256 => Pairing[]) private pairings;
+    mapping(uint256 => uint256) private roundStart; // index of the current round's first pairing
+    mapping(uint256 => uint256) private pendingResults;
+    mapping(uint256 => mapping(address => Entrant)) private entrants;
+    mapping(uint256 => mapping(address => mapping(address => bool))) private played;
+
+    /// @notice When a started tournament was last moved forward (start or a reported result)
+    mapping(uint256 => uint256) public lastProgressAt;
+
+    /// @notice Prizes and refunds waiting for `claim`
+    mapping(address => uint256) public claimable;
+
+    event TournamentCreated(
+        uint256 indexed id,
+        address indexed organizer,
+        Format format,
+        string name,
+        string domain,
+        uint256 entryFee,
+        uint256 maxPlayers
+    );
+    event PlayerJoined(uint256 indexed id, address indexed player, uint256 prizePool);
+    event TournamentStarted(uint256 indexed id, address[] seeds);
+    event RoundStarted(uint256 indexed id, uint256 round, uint256 firstPairing, uint256 pairingCount);
+    event ResultReported(uint256 indexed id, uint256 indexed pairing, uint8 outcome, uint256 engineMatchId);
+    event TournamentCompleted(uint256 indexed id, address indexed champion, uint256 prizePool);
+    event PrizeAwarded(uint256 indexed id, address indexed player, uint256 place, uint256 amount);
+    event TournamentCancelled(uint256 indexed id);
+    event Claimed(address indexed account, uint256 amount);
+    event OrganizerUpdated(address indexed organizer, bool authorized);
+
+    constructor(address _engine) {
+        engine = ISkillProofEngineTournaments(_engine);
+        owner = msg.sender;
+        organizers[msg.sender] = true;
+    }
+
+    // ━━━ LIFECYCLE ━━━
+
+    /// @notice Open a tournament for registration (organizers only)
+    /// @param rounds Rounds to play for Swiss; must be 0 for elimination formats
+    /// @param payoutBps Pool share per place from 1st down, summing to 10000
+    function createTournament(
+        string calldata name,
+        Format format,
+        string calldata domain,
+        uint256 entryFee,
+        uint256 maxPlayers,
+        uint256 rounds,
+        uint256[] calldata payoutBps
+    ) external returns (uint256) {
+        require(organizers[msg.sender], "Not authorized");
+        require(maxPlayers >= 2 && maxPlayers <= MAX_PLAYERS, "Invalid player limit");
+        if (format == Format.Swiss) {
+            require(rounds > 0 && rounds < maxPlayers, "Invalid rounds");
+        } else {
+            require(rounds == 0, "Invalid rounds");
+        }
+        require(payoutBps.length > 0 && payoutBps.length <= maxPlayers, "Invalid payouts");
+        uint256 total = 0;
+        for (uint256 i = 0; i < payoutBps.length; i++) {
+            total += payoutBps[i];
+        }
+        require(total == BPS, "Payouts must sum to 10000");
+
+        uint256 id = tournaments.length;
+        Tournament storage t = tournaments.push();
+        t.id = id;
+        t.name = name;
+        t.domain = domain;
+        t.format = format;
+        t.organizer = msg.sender;
+        t.entryFee = entryFee;
+        t.maxPlayers = maxPlayers;
+        t.rounds = rounds;
+        t.payoutBps = payoutBps;
+        t.createdAt = block.timestamp;
+
+        emit TournamentCreated(id, msg.sender, format, name, domain, entryFee, maxPlayers);
+        return id;
+    }
+
+    /// @notice Enter a tournament, paying exactly its entry fee into the prize pool
+    function join(uint256 id) external payable {
+        Tournament storage t = _tournament(id);
+        require(t.status == Status.Registration, "Registration closed");
+        require(msg.value == t.entryFee, "Wrong entry fee");
+        require(players[id].length < t.maxPlayers, "Tournament full");
+        require(!entrants[id][msg.sender].joined, "Already joined");
+        (, , , , , , , , bool registered) = engine.getPlayer(msg.sender);
+        require(registered, "Player not registered");
+
+        entrants[id][msg.sender].joined = true;
+        players[id].push(msg.sender);
+        t.prizePool += msg.value;
+
+        emit PlayerJoined(id, msg.sender, t.prizePool);
+    }
+
+    /// @notice Close registration, seed players by current Engine ELO and pair round 1
+    function start(uint256 id) external {
+        Tournament storage t = _tournament(id);
+        require(msg.sender == t.organizer, "Only organizer");
+        require(t.status == Status.Registration, "Registration closed");
+        address[] storage list = players[id];
+        uint256 n = list.length;
+        require(n >= 2, "Not enough players");
+        require(t.format != Format.Swiss || t.rounds < n, "Too many rounds");
+
+        // Insertion sort by ELO, highest first; equal ratings keep join order
+        uint256[] memory elos = new uint256[](n);
+        for (uint256 i = 0; i < n; i++) {
+            (uint256 elo, , , , , , , , ) = engine.getPlayer(list[i]);
+            elos[i] = elo;
+            entrants[id][list[i]].eloAtStart = elo;
+        }
+        address[] memory seeds = list;
+        for (uint256 i = 1; i < n; i++) {
+            address p = seeds[i];
+            uint256 elo = elos[i];
+            uint256 j = i;
+            while (j > 0 && elos[j - 1] < elo) {
+                seeds[j] = seeds[j - 1];
+                elos[j] = elos[j - 1];
+                j--;
+            }
+            seeds[j] = p;
+            elos[j] = elo;
+        }
+        for (uint256 i = 0; i < n; i++) {
+            list[i] = seeds[i];
+            entrants[id][seeds[i]].seed = i + 1;
+        }
+
+        t.status = Status.Active;
+        lastProgressAt[id] = block.timestamp;
+        emit TournamentStarted(id, seeds);
+
+        if (t.format == Format.Swiss) {
+            _startSwissRound(id, t);
+        } else {
+            // Standard bracket order (1 v N, then 2 v N-1 meeting in the final);
+            // slots past the field are byes for the top seeds
+            uint256 size = 1;
+            while (size < n) size *= 2;
+            uint256[] memory order = _bracketOrder(size);
+            address[] memory slots = new address[](size);
+            for (uint256 i = 0; i < size; i++) {
+                if (order[i] < n) slots[i] = seeds[order[i]];
+            }
+            _beginRound(id, t);
+            _pairSlots(id, t.currentRound, WINNERS, slots);
+            _endPairing(id, t);
+        }
+    }
+
+    /// @notice Report one result of the current round (the tournament's organizer only).
+    ///         The match is recorded on the Engine; the last result of a round pairs
+    ///         the next one or completes the tournament and awards the prizes.
+    /// @param outcome 1 = player1 wins, 2 = player2 wins, 3 = draw (Swiss only)
+    function reportResult(uint256 id, uint256 pairing, uint8 outcome) external {
+        Tournament storage t = _tournament(id);
+        require(msg.sender == t.organizer, "Only organizer");
+        _report(id, t, pairing, outcome);
+    }
+
+    /// @notice Report several results in one transaction, in order
+    /// @dev Results may span rounds: a later entry can target a pairing created
+    ///      by an earlier one completing its round
+    function reportResults(uint256 id, uint256[] calldata pairingIds, uint8[] calldata outcomes) external {
+        Tournament storage t = _tournament(id);
+        require(msg.sender == t.organizer, "Only organizer");
+        require(pairingIds.length == outcomes.length, "Length mismatch");
+        require(pairingIds.length > 0, "Empty batch");
+        for (uint256 i = 0; i < pairingIds.length; i++) {
+            _report(id, t, pairingIds[i], outcomes[i]);
+        }
+    }
+
+    /// @notice Cancel a tournament that has not completed and refund every entry fee.
+    ///         The organizer or owner can cancel at any point; anyone can once a
+    ///         started tournament has gone `STALL_TIMEOUT` without a result.
+    ///         Results already recorded on the Engine stand.
+    function cancel(uint256 id) external {
+        Tournament storage t = _tournament(id);
+        require(t.status == Status.Registration || t.status == Status.Active, "Tournament over");
+        require(
+            msg.sender == t.organizer ||
+                msg.sender == owner ||
+                (t.status == Status.Active && block.timestamp > lastProgressAt[id] + STALL_TIMEOUT),
+            "Only organizer"
+        );
+
+        t.status = Status.Cancelled;
+        address[] storage list = players[id];
+        for (uint256 i = 0; i < list.length; i++) {
+            claimable[list[i]] += t.entryFee;
+        }
+        t.prizePool = 0;
+        emit TournamentCancelled(id);
+    }
+
+    /// @notice Withdraw prizes and refunds
+    function claim() external {
+        uint256 amount = claimable[msg.sender];
+        require(amount > 0, "Nothing to claim");
+        claimable[msg.sender] = 0;
+        emit Claimed(msg.sender, amount);
+        _pay(msg.sender, amount);
+    }
+
+    // ━━━ VIEWS ━━━
+
+    function getTournament(uint256 id) external view returns (Tournament memory) {
+        require(id < tournaments.length, "Tournament does not exist");
+        return tournaments[id];
+    }
+
+    /// @notice Entrants in join order, or in seed order once the tournament has started
+    function getPlayers(uint256 id) external view returns (address[] memory) {
+        require(id < tournaments.length, "Tournament does not exist");
+        return players[id];
+    }
+
+    /// @notice Every pairing so far, across all rounds and brackets
+    function getPairings(uint256 id) external view returns (Pairing[] memory) {
+        require(id < tournaments.length, "Tournament does not exist");
+        return pairings[id];
+    }
+
+    function getEntrant(uint256 id, address player) external view returns (Entrant memory) {
+        require(id < tournaments.length, "Tournament does not exist");
+        return entrants[id][player];
+    }
+
+    /// @notice Entrants from first place down with their places (completed tournaments)
+    function getStandings(uint256 id) external view returns (address[] memory ranked, uint256[] memory places) {
+        require(id < tournaments.length, "Tournament does not exist");
+        require(tournaments[id].status == Status.Completed, "Not completed");
+        ranked = _ranking(id, tournaments[id]);
+        places = new uint256[](ranked.length);
+        for (uint256 i = 0; i < ranked.length; i++) {
+            places[i] = entrants[id][ranked[i]].place;
+        }
+    }
+
+    function tournamentCount() external view returns (uint256) {
+        return tournaments.length;
+    }
+
+    /// @notice Allow or revoke an organizer (owner only)
+    function setOrganizer(address organizer, bool authorized) external {
+        require(msg.sender == owner, "Only owner");
+        organizers[organizer] = authorized;
+        emit OrganizerUpdated(organizer, authorized);
+    }
+
+    // ━━━ INTERNAL: RESULTS ━━━
+
+    function _tournament(uint256 id) private view returns (Tournament storage) {
+        require(id < tournaments.length, "Tournament does not exist");
+        return tournaments[id];
+    }
+
+    function _report(uint256 id, Tournament storage t, uint256 index, uint8 outcome) private {
+        require(t.status == Status.Active, "Not active");
+        require(index >= roundStart[id] && index < pairings[id].length, "Not in current round");
+        Pairing storage p = pairings[id][index];
+        require(p.outcome == 0, "Already reported");
+        require(outcome >= 1 && outcome <= 3, "Invalid outcome");
+        require(outcome != 3 || t.format == Format.Swiss, "Draws not allowed");
+
+        engine.recordMatch(p.player1, p.player2, outcome, t.domain);
+        p.outcome = outcome;
+        p.engineMatchId = engine.getMatchCount() - 1;
+        lastProgressAt[id] = block.timestamp;
+        emit ResultReported(id, index, outcome, p.engineMatchId);
+
+        if (--pendingResults[id] == 0) {
+            if (t.format == Format.Swiss) {
+                _finishSwissRound(id, t);
+            } else {
+                _finishEliminationRound(id, t);
+            }
+        }
+    }
+
+    // ━━━ INTERNAL: ELIMINATION ━━━
+
+    /// @dev Seed indices (0-based) in bracket order for a power-of-two field
+    function _bracketOrder(uint256 size) private pure returns (uint256[] memory order) {
+        order = new uint256[](size);
+        uint256 len = 1;
+        while (len < size) {
+            // Each seed s is followed by its first-round opponent 2·len - 1 - s
+            for (uint256 i = len; i > 0; i--) {
+                uint256 s = order[i - 1];
+                order[2 * i - 2] = s;
+                order[2 * i - 1] = 2 * len - 1 - s;
+            }
+            len *= 2;
+        }
+    }
+
+    /// @dev Losers-bracket survivors stay in the bracket; winners-bracket losers drop
+    ///      into it. A grand-final upset leaves both finalists on one loss, which
+    ///      forces a deciding rematch.
+    function _finishEliminationRound(uint256 id, Tournament storage t) private {
+        uint256 maxLosses = t.format == Format.DoubleElimination ? 2 : 1;
+        Pairing[] storage round = pairings[id];
+        uint256 first = roundStart[id];
+        uint256 count = round.length - first;
+
+        address[] memory upper = new address[](count);
+        address[] memory lower = new address[](count * 2);
+        address[] memory dropped = new address[](count);
+        uint256 upperLen;
+        uint256 lowerLen;
+        uint256 droppedLen;
+
+        for (uint256 i = first; i < round.length; i++) {
+            Pairing storage p = round[i];
+            (address winner, address loser) = p.outcome == 1 ? (p.player1, p.player2) : (p.player2, p.player1);
+            if (loser != address(0)) {
+                Entrant storage e = entrants[id][loser];
+                e.losses++;
+                if (e.losses == maxLosses) e.eliminatedRound = t.currentRound;
+            }
+            bool loserIn = loser != address(0) && entrants[id][loser].losses < maxLosses;
+
+            if (p.bracket == WINNERS) {
+                upper[upperLen++] = winner;
+                if (loserIn) dropped[droppedLen++] = loser;
+            } else if (p.bracket == LOSERS) {
+                lower[lowerLen++] = winner;
+            } else if (loserIn) {
+                // Grand-final reset: both finalists now have one loss
+                lower[lowerLen++] = p.player1;
+                lower[lowerLen++] = p.player2;
+            } else if (entrants[id][winner].losses == 0) {
+                upper[upperLen++] = winner;
+            } else {
+                lower[lowerLen++] = winner;
+            }
+        }
+
+        // Dropped players meet survivors from the far end of the bracket, which
+        // avoids an immediate rematch; uneven groups are simply appended
+        if (droppedLen == lowerLen) {
+            address[] memory merged = new address[](lowerLen * 2);
+            for (uint256 i = 0; i < lowerLen; i++) {
+                merged[2 * i] = lower[i];
+                merged[2 * i + 1] = dropped[droppedLen - 1 - i];
+            }
+            lower = merged;
+            lowerLen *= 2;
+        } else {
+            for (uint256 i = 0; i < droppedLen; i++) {
+                lower[lowerLen++] = dropped[i];
+            }
+        }
+
+        if (upperLen + lowerLen == 1) {
+            _complete(id, t, upperLen == 1 ? upper[0] : lower[0]);
+            return;
+        }
+
+        _beginRound(id, t);
+        if (upperLen == 1 && lowerLen == 1) {
+            _pair(id, t.currentRound, GRAND_FINAL, upper[0], lower[0]);
+        } else if (upperLen == 0 && lowerLen == 2) {
+            _pair(id, t.currentRound, GRAND_FINAL, lower[0], lower[1]);
+        } else {
+            // The winners-bracket champion waits on a bye while the losers bracket plays down
+            _pairSlots(id, t.currentRound, WINNERS, _trim(upper, upperLen));
+            _pairSlots(id, t.currentRound, LOSERS, _trim(lower, lowerLen));
+        }
+        _endPairing(id, t);
+    }
+
+    /// @dev Pairs adjacent slots; an empty slot or an odd last player is a bye
+    function _pairSlots(uint256 id, uint256 round, uint8 bracket, address[] memory slots) private {
+        for (uint256 i = 0; i < slots.length; i += 2) {
+            address a = slots[i];
+            address b = i + 1 < slots.length ? slots[i + 1] : address(0);
+            if (a == address(0)) (a, b) = (b, a);
+            if (a != address(0)) _pair(id, round, bracket, a, b);
+        }
+    }
+
+    function _trim(address[] memory list, uint256 len) private pure returns (address[] memory trimmed) {
+        trimmed = new address[](len);
+        for (uint256 i = 0; i < len; i++) {
+            trimmed[i] = list[i];
+        }
+    }
+
+    // ━━━ INTERNAL: SWISS ━━━
+
+    function _finishSwissRound(uint256 id, Tournament storage t) private {
+        Pairing[] storage round = pairings[id];
+        for (uint256 i = roundStart[id]; i < round.length; i++) {
+            Pairing storage p = round[i];
+            // A bye is worth a win
+            if (p.outcome == 1) {
+                entrants[id][p.player1].points += 2;
+            } else if (p.outcome == 2) {
+                entrants[id][p.player2].points += 2;
+            } else {
+                entrants[id][p.player1].points += 1;
+                entrants[id][p.player2].points += 1;
+            }
+        }
+
+        if (t.currentRound == t.rounds) {
+            address[] memory ranked = _ranking(id, t);
+            _complete(id, t, ranked[0]);
+        } else {
+            _startSwissRound(id, t);
+        }
+    }
+
+    /// @dev Players are ranked by points then seed. The lowest-ranked player without
+    ///      a bye sits out an odd round; everyone else is paired top-down with the
+    ///      next player they have not met, falling back to a rematch.
+    function _startSwissRound(uint256 id, Tournament storage t) private {
+        address[] memory ranked = _ranking(id, t);
+        uint256 n = ranked.length;
+        bool[] memory done = new bool[](n);
+
+        _beginRound(id, t);
+        if (n % 2 == 1) {
+            uint256 b = n;
+            while (b > 0 && entrants[id][ranked[b - 1]].hadBye) b--;
+            b = b == 0 ? n - 1 : b - 1;
+            done[b] = true;
+            entrants[id][ranked[b]].hadBye = true;
+            _pair(id, t.currentRound, WINNERS, ranked[b], address(0));
+        }
+
+        for (uint256 i = 0; i < n; i++) {
+            if (done[i]) continue;
+            uint256 opponent = n;
+            for (uint256 j = i + 1; j < n; j++) {
+                if (done[j]) continue;
+                if (opponent == n) opponent = j;
+                if (!played[id][ranked[i]][ranked[j]]) {
+                    opponent = j;
+                    break;
+                }
+            }
+            done[i] = true;
+            done[opponent] = true;
+            _pair(id, t.currentRound, WINNERS, ranked[i], ranked[opponent]);
+        }
+        _endPairing(id, t);
+    }
+
+    // ━━━ INTERNAL: ROUNDS AND PAYOUTS ━━━
+
+    function _beginRound(uint256 id, Tournament storage t) private {
+        t.currentRound++;
+        roundStart[id] = pairings[id].length;
+    }
+
+    function _endPairing(uint256 id, Tournament storage t) private {
+        uint256 first = roundStart[id];
+        emit RoundStarted(id, t.currentRound, first, pairings[id].length - first);
+    }
+
+    /// @dev Byes resolve immediately as a player1 win
+    function _pair(uint256 id, uint256 round, uint8 bracket, address a, address b) private {
+        pairings[id].push(Pairing({
+            round: round,
+            bracket: bracket,
+            player1: a,
+            player2: b,
+            outcome: b == address(0) ? 1 : 0,
+            engineMatchId: 0
+        }));
+        if (b != address(0)) {
+            played[id][a][b] = true;
+            played[id][b][a] = true;
+            pendingResults[id]++;
+        }
+    }
+
+    /// @dev Elimination formats rank by how long a player lasted, Swiss by points;
+    ///      seed breaks ties in the ordering
+    function _rankKey(uint256 id, Tournament storage t, address player) private view returns (uint256) {
+        Entrant storage e = entrants[id][player];
+        uint256 primary;
+        if (t.format == Format.Swiss) {
+            primary = e.points;
+        } else {
+            primary = e.eliminatedRound == 0 ? type(uint128).max : e.eliminatedRound;
+        }
+        return primary * (MAX_PLAYERS + 1) + (MAX_PLAYERS - e.seed);
+    }
+
+    function _ranking(uint256 id, Tournament storage t) private view returns (address[] memory ranked) {
+        ranked = players[id];
+        uint256 n = ranked.length;
+        uint256[] memory keys = new uint256[](n);
+        for (uint256 i = 0; i < n; i++) {
+            keys[i] = _rankKey(id, t, ranked[i]);
+        }
+        for (uint256 i = 1; i < n; i++) {
+            address p = ranked[i];
+            uint256 key = keys[i];
+            uint256 j = i;
+            while (j > 0 && keys[j - 1] < key) {
+                ranked[j] = ranked[j - 1];
+                keys[j] = keys[j - 1];
+                j--;
+            }
+            ranked[j] = p;
+            keys[j] = key;
+        }
+    }
+
+    /// @dev Places are shared by players knocked out in the same round, who split
+    ///      the payouts of the places they span. Payouts for places beyond the
+    ///      field are spread pro rata; rounding dust goes to the champion.
+    function _complete(uint256 id, Tournament storage t, address champion) private {
+        t.status = Status.Completed;
+        t.champion = champion;
+        t.completedAt = block.timestamp;
+
+        address[] memory ranked = _ranking(id, t);
+        uint256 n = ranked.length;
+        uint256 paidPlaces = t.payoutBps.length < n ? t.payoutBps.length : n;
+        uint256 totalBps = 0;
+        for (uint256 i = 0; i < paidPlaces; i++) {
+            totalBps += t.payoutBps[i];
+        }
+
+        uint256 paid = 0;
+        uint256 groupStart = 0;
+        while (groupStart < n) {
+            // Swiss places are never shared; elimination ties share the round they went out in
+            uint256 groupEnd = groupStart + 1;
+            if (t.format != Format.Swiss) {
+                uint256 out = entrants[id][ranked[groupStart]].eliminatedRound;
+                while (groupEnd < n && entrants[id][ranked[groupEnd]].eliminatedRound == out) groupEnd++;
+            }
+
+            uint256 groupBps = 0;
+            for (uint256 i = groupStart; i < groupEnd && i < paidPlaces; i++) {
+                groupBps += t.payoutBps[i];
+            }
+            uint256 share = totalBps == 0 ? 0 : (t.prizePool * groupBps) / totalBps / (groupEnd - groupStart);
+            for (uint256 i = groupStart; i < groupEnd; i++) {
+                Entrant storage e = entrants[id][ranked[i]];
+                e.place = groupStart + 1;
+                e.prize = share;
+                paid += share;
+            }
+            groupStart = groupEnd;
+        }
+        entrants[id][champion].prize += t.prizePool - paid;
+
+        for (uint256 i = 0; i < n; i++) {
+            Entrant storage e = entrants[id][ranked[i]];
+            if (e.prize > 0) claimable[ranked[i]] += e.prize;
+            emit PrizeAwarded(id, ranked[i], e.place, e.prize);
+        }
+        emit TournamentCompleted(id, champion, t.prizePool);
+    }
+
+    function _pay(address to, uint256 amount) private {
+        (bool sent, ) = to.call{value: amount}("");
+        require(sent, "Transfer failed");
+    }
+}
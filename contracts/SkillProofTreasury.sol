@@ -26,6 +26,14 @@ contract SkillProofTreasury {
     // Per-issuer revenue tracking
     mapping(address => uint256) public issuerFeesGenerated;
 
+    // Accounts charged no fees or commission (partner issuers, protocol-run markets, ...)
+    mapping(address => bool) public feeExempt;
+
+    // Protocol contracts allowed to collect fees on a payer's behalf
+    address public registry;                   // collectCredentialFee
+    address public hub;                        // collectMarketFee
+    mapping(address => bool) public verifiers; // collectVerificationFee (Merkle and ZK verifiers)
+
     // Monthly/period revenue snapshots
     struct RevenueSnapshot {
         uint256 timestamp;
@@ -50,6 +58,9 @@ contract SkillProofTreasury {
     event FeesWithdrawn(address indexed recipient, uint256 amount);
     event FeeScheduleUpdated(uint256 credentialFee, uint256 marketFee, uint256 verificationFee, uint256 bountyBps);
     event RevenueSnapshotTaken(uint256 indexed snapshotId, uint256 cumulativeRevenue);
+    event FeeExemptionUpdated(address indexed account, bool exempt);
+    event FeeCollectorsUpdated(address indexed registry, address indexed hub);
+    event VerifierUpdated(address indexed verifier, bool allowed);
 
     constructor(
         uint256 _credentialMintFee,
@@ -66,40 +77,61 @@ contract SkillProofTreasury {
         bountyCommissionBps = _bountyCommissionBps;
     }
 
+    // ━━━ FEE QUOTES ━━━
+
+    /// @notice Credential fee charged to `issuer` (0 if exempt)
+    function credentialFeeFor(address issuer) public view returns (uint256) {
+        return feeExempt[issuer] ? 0 : credentialMintFee;
+    }
+
+    /// @notice Market creation fee charged to `creator` (0 if exempt)
+    function marketFeeFor(address creator) public view returns (uint256) {
+        return feeExempt[creator] ? 0 : marketCreationFee;
+    }
+
+    /// @notice Verification fee charged to `user` (0 if exempt)
+    function verificationFeeFor(address user) public view returns (uint256) {
+        return feeExempt[user] ? 0 : verificationFee;
+    }
+
+    /// @notice Commission withheld from a `reward` paid to `solver` (0 if exempt)
+    function bountyCommissionFor(address solver, uint256 reward) public view returns (uint256) {
+        return feeExempt[solver] ? 0 : (reward * bountyCommissionBps) / BPS;
+    }
+
     // ━━━ FEE COLLECTION ━━━
 
     /// @notice Pay credential minting fee (called by issuer before/after minting)
     function payCredentialFee(address user) external payable {
-        require(msg.value >= credentialMintFee, "Insufficient credential fee");
-
-        totalCredentialFees += msg.value;
-        totalRevenue += msg.value;
-        totalCredentialsMinted++;
-        issuerFeesGenerated[msg.sender] += msg.value;
+        _collectCredentialFee(msg.sender, user);
+    }
 
-        emit CredentialFeeCollected(msg.sender, user, msg.value);
+    /// @notice Collect the credential fee for `issuer` (called by the Registry on mint)
+    function collectCredentialFee(address issuer, address user) external payable {
+        require(msg.sender == registry, "Only registry");
+        _collectCredentialFee(issuer, user);
     }
 
     /// @notice Pay market creation fee
     function payMarketFee() external payable {
-        require(msg.value >= marketCreationFee, "Insufficient market fee");
-
-        totalMarketFees += msg.value;
-        totalRevenue += msg.value;
-        totalMarketsCreated++;
+        _collectMarketFee(msg.sender);
+    }
 
-        emit MarketFeeCollected(msg.sender, msg.value);
+    /// @notice Collect the market fee for `creator` (called by the Hub on createMarket)
+    function collectMarketFee(address creator) external payable {
+        require(msg.sender == hub, "Only hub");
+        _collectMarketFee(creator);
     }
 
     /// @notice Pay verification fee (ZK or Merkle proof verification)
     function payVerificationFee() external payable {
-        require(msg.value >= verificationFee, "Insufficient verification fee");
-
-        totalVerificationFees += msg.value;
-        totalRevenue += msg.value;
-        totalVerificationsProcessed++;
+        _collectVerificationFee(msg.sender);
+    }
 
-        emit VerificationFeeCollected(msg.sender, msg.value);
+    /// @notice Collect the verification fee for `user` (called by the ZK and Merkle verifiers)
+    function collectVerificationFee(address user) external payable {
+        require(verifiers[msg.sender], "Only verifier");
+        _collectVerificationFee(user);
     }
 
     /// @notice Process bounty commission (called when arena bounty is awarded)
@@ -107,7 +139,7 @@ contract SkillProofTreasury {
     function processBountyCommission(address solver) external payable {
         require(msg.value > 0, "No bounty to process");
 
-        uint256 commission = (msg.value * bountyCommissionBps) / BPS;
+        uint256 commission = bountyCommissionFor(solver, msg.value);
         uint256 solverPayout = msg.value - commission;
 
         totalBountyCommissions += commission;
@@ -121,6 +153,37 @@ contract SkillProofTreasury {
         emit BountyCommissionCollected(solver, commission, msg.value);
     }
 
+    function _collectCredentialFee(address issuer, address user) private {
+        require(msg.value >= credentialFeeFor(issuer), "Insufficient credential fee");
+
+        totalCredentialFees += msg.value;
+        totalRevenue += msg.value;
+        totalCredentialsMinted++;
+        issuerFeesGenerated[issuer] += msg.value;
+
+        emit CredentialFeeCollected(issuer, user, msg.value);
+    }
+
+    function _collectMarketFee(address creator) private {
+        require(msg.value >= marketFeeFor(creator), "Insufficient market fee");
+
+        totalMarketFees += msg.value;
+        totalRevenue += msg.value;
+        totalMarketsCreated++;
+
+        emit MarketFeeCollected(creator, msg.value);
+    }
+
+    function _collectVerificationFee(address user) private {
+        require(msg.value >= verificationFeeFor(user), "Insufficient verification fee");
+
+        totalVerificationFees += msg.value;
+        totalRevenue += msg.value;
+        totalVerificationsProcessed++;
+
+        emit VerificationFeeCollected(user, msg.value);
+    }
+
     // ━━━ REVENUE ANALYTICS ━━━
 
     /// @notice Take a revenue snapshot (callable by anyone, useful for tracking)
@@ -217,6 +280,28 @@ contract SkillProofTreasury {
         emit FeeScheduleUpdated(_credentialFee, _marketFee, _verificationFee, _bountyBps);
     }
 
+    /// @notice Exempt `account` from (or subject it to) every fee and commission (owner only)
+    function setFeeExempt(address account, bool exempt) external {
+        require(msg.sender == owner, "Only owner");
+        feeExempt[account] = exempt;
+        emit FeeExemptionUpdated(account, exempt);
+    }
+
+    /// @notice Set the Registry and Hub that collect credential and market fees (owner only)
+    function setFeeCollectors(address _registry, address _hub) external {
+        require(msg.sender == owner, "Only owner");
+        registry = _registry;
+        hub = _hub;
+        emit FeeCollectorsUpdated(_registry, _hub);
+    }
+
+    /// @notice Allow (or stop) a verifier collecting verification fees (owner only)
+    function setVerifier(address verifier, bool allowed) external {
+        require(msg.sender == owner, "Only owner");
+        verifiers[verifier] = allowed;
+        emit VerifierUpdated(verifier, allowed);
+    }
+
     /// @notice Update fee recipient (owner only)
     function setFeeRecipient(address _recipient) external {
         require(msg.sender == owner, "Only owner");
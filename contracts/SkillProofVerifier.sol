@@ -20,6 +20,11 @@ interface ISkillProofRegistryV {
     function getCredential(address player) external view returns (SkillCredential memory);
 }
 
+interface ISkillProofTreasuryVerificationFeeV {
+    function verificationFeeFor(address user) external view returns (uint256);
+    function collectVerificationFee(address user) external payable;
+}
+
 /// @title SkillProofVerifier
 /// @notice Merkle tree-based privacy-preserving credential verification.
 ///         Enables users to prove credential properties (e.g. "ELO >= 1500")
@@ -36,11 +41,16 @@ contract SkillProofVerifier {
     mapping(address => bool) public verifiedAboveThreshold;
     uint256 public verificationCount;
 
+    // When set, recorded verifications must carry the treasury's verification
+    // fee for the caller
+    ISkillProofTreasuryVerificationFeeV public treasury;
+
     // ─── Events ─────────────────────────────────────────────────────────────
 
     event MerkleRootUpdated(bytes32 oldRoot, bytes32 newRoot);
     event CredentialVerified(address indexed user, bytes32 leaf);
     event ThresholdVerified(address indexed user, uint256 threshold);
+    event TreasuryUpdated(address indexed treasury);
 
     // ─── Constructor ────────────────────────────────────────────────────────
 
@@ -86,6 +96,14 @@ contract SkillProofVerifier {
         emit MerkleRootUpdated(oldRoot, newRoot);
     }
 
+    /// @notice Charge verification fees through `_treasury` (address(0) makes
+    ///         verification free). Operator only.
+    function setTreasury(address _treasury) external {
+        require(msg.sender == operator, "Only operator");
+        treasury = ISkillProofTreasuryVerificationFeeV(_treasury);
+        emit TreasuryUpdated(_treasury);
+    }
+
     /// @notice Build a Merkle tree from Registry credentials and set the root.
     ///         NOTE: On-chain tree building is expensive — fine for hackathon demos.
     function updateMerkleRootFromRegistry(address[] calldata users) external {
@@ -165,7 +183,7 @@ contract SkillProofVerifier {
     }
 
     /// @notice Verify a proof and record it to prevent replay.
-    function verifyAndRecord(bytes32 leaf, bytes32[] calldata proof) external returns (bool) {
+    function verifyAndRecord(bytes32 leaf, bytes32[] calldata proof) external payable returns (bool) {
         bytes32 proofHash = keccak256(abi.encodePacked(leaf, msg.sender));
         require(!usedProofs[proofHash], "Proof already used");
         require(_verifyProof(leaf, proof, credentialMerkleRoot), "Invalid proof");
@@ -173,6 +191,7 @@ contract SkillProofVerifier {
         usedProofs[proofHash] = true;
         verificationCount++;
         emit CredentialVerified(msg.sender, leaf);
+        _collectVerificationFee();
         return true;
     }
 
@@ -186,12 +205,13 @@ contract SkillProofVerifier {
         address user,
         uint256 eloThreshold,
         bytes32[] calldata proof
-    ) external returns (bool) {
+    ) external payable returns (bool) {
         bytes32 leaf = computeThresholdHash(user, eloThreshold, true);
         require(_verifyProof(leaf, proof, credentialMerkleRoot), "Invalid threshold proof");
 
         verifiedAboveThreshold[user] = true;
         emit ThresholdVerified(user, eloThreshold);
+        _collectVerificationFee();
         return true;
     }
 
@@ -215,10 +235,24 @@ contract SkillProofVerifier {
         return verificationCount;
     }
 
+    /// @notice Fee `user` must send with verifyAndRecord / verifyThresholdProof.
+    function verificationFee(address user) external view returns (uint256) {
+        return address(treasury) == address(0) ? 0 : treasury.verificationFeeFor(user);
+    }
+
     // ═══════════════════════════════════════════════════════════════════════
     // INTERNAL — Merkle tree primitives
     // ═══════════════════════════════════════════════════════════════════════
 
+    /// @notice Forward the caller's payment to the treasury as a verification fee.
+    function _collectVerificationFee() internal {
+        if (address(treasury) != address(0)) {
+            treasury.collectVerificationFee{value: msg.value}(msg.sender);
+        } else {
+            require(msg.value == 0, "Verification is free");
+        }
+    }
+
     /// @notice Verify a Merkle proof using canonical (sorted) pair hashing.
     function _verifyProof(
         bytes32 leaf,
@@ -3,11 +3,20 @@ pragma solidity ^0.8.25;
 
 import "./Groth16Verifier.sol";
 
+interface ISkillProofTreasuryVerificationFee {
+    function verificationFeeFor(address user) external view returns (uint256);
+    function collectVerificationFee(address user) external payable;
+}
+
 /// @title SkillProofZKVerifier — ZK-SNARK Threshold Proof Verifier
 /// @notice Verifies Groth16 proofs that a user's ELO >= threshold without revealing the ELO.
 ///         Uses a circom2 circuit compiled to a snarkjs Groth16 verifier on-chain.
 contract SkillProofZKVerifier {
     Groth16Verifier public immutable groth16Verifier;
+    address public owner;
+
+    // When set, each verification must carry the treasury's verification fee
+    ISkillProofTreasuryVerificationFee public treasury;
 
     mapping(address => bool) public zkVerifiedAboveThreshold;
     mapping(address => uint256) public zkVerifiedThreshold;
@@ -15,9 +24,23 @@ contract SkillProofZKVerifier {
     uint256 public zkVerificationCount;
 
     event ZKThresholdVerified(address indexed user, uint256 threshold, uint256 commitment);
+    event TreasuryUpdated(address indexed treasury);
 
     constructor(address _verifier) {
         groth16Verifier = Groth16Verifier(_verifier);
+        owner = msg.sender;
+    }
+
+    /// @notice Charge verification fees through `_treasury` (address(0) makes verification free)
+    function setTreasury(address _treasury) external {
+        require(msg.sender == owner, "Only owner");
+        treasury = ISkillProofTreasuryVerificationFee(_treasury);
+        emit TreasuryUpdated(_treasury);
+    }
+
+    /// @notice Fee `user` must send with verifyThresholdZK.
+    function verificationFee(address user) external view returns (uint256) {
+        return address(treasury) == address(0) ? 0 : treasury.verificationFeeFor(user);
     }
 
     /// @notice Verify a ZK-SNARK threshold proof on-chain.
@@ -30,7 +53,7 @@ contract SkillProofZKVerifier {
         uint256[2][2] calldata _pB,
         uint256[2] calldata _pC,
         uint256[3] calldata _pubSignals
-    ) external returns (bool) {
+    ) external payable returns (bool) {
         // pubSignals[0] = valid (circuit output, always 1)
         // pubSignals[1] = threshold (public input)
         // pubSignals[2] = credentialCommitment (public input)
@@ -45,6 +68,12 @@ contract SkillProofZKVerifier {
         zkVerificationCount++;
 
         emit ZKThresholdVerified(msg.sender, _pubSignals[1], _pubSignals[2]);
+
+        if (address(treasury) != address(0)) {
+            treasury.collectVerificationFee{value: msg.value}(msg.sender);
+        } else {
+            require(msg.value == 0, "Verification is free");
+        }
         return true;
     }
 
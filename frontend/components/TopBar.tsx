@@ -13,6 +13,10 @@ export default function TopBar() {
     { href: "/issuer", label: "Issuer" },
     { href: "/user", label: "User" },
     { href: "/verify", label: "Verify" },
+    { href: "/disputes", label: "Disputes" },
+    { href: "/treasury", label: "Treasury" },
+    { href: "/engine", label: "Engine" },
+    { href: "/tournaments", label: "Tournaments" },
     { href: "/hub", label: "\u26A1 Hub" },
     { href: "/leaderboard", label: "\uD83C\uDFC6 Board" },
   ];
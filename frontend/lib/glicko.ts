@@ -0,0 +1,91 @@
+// Glicko-2 math mirroring SkillProofEngine (and the SDK's sdk/glicko.ts).
+// Ratings are in the Glicko-1 scale the Engine reports: 1500 ± 350.
+
+const SCALE = 173.7178;
+const CENTER = 1500;
+const TAU = 0.5;
+
+export const INITIAL_RD = 350;
+export const INITIAL_VOLATILITY = 0.06;
+
+export interface Glicko {
+  rating: number;
+  rd: number;
+  volatility: number;
+}
+
+function g(phi: number) {
+  return 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+}
+
+/** Rating minus 2·RD, floored at 0 */
+export function conservativeRating({ rating, rd }: Glicko) {
+  return Math.max(Math.floor(rating - 2 * rd), 0);
+}
+
+/** Probability that A beats B, using both players' RD */
+export function winProbability(a: Glicko, b: Glicko) {
+  const phi = Math.sqrt(a.rd * a.rd + b.rd * b.rd) / SCALE;
+  return 1 / (1 + Math.exp((-g(phi) * (a.rating - b.rating)) / SCALE));
+}
+
+/** An opposing team as one opponent: mean rating, root-mean-square RD */
+export function teamGlicko(members: Glicko[]): Glicko {
+  const mean = (f: (m: Glicko) => number) => members.reduce((sum, m) => sum + f(m), 0) / members.length;
+  return { rating: mean((m) => m.rating), rd: Math.sqrt(mean((m) => m.rd * m.rd)), volatility: INITIAL_VOLATILITY };
+}
+
+/** Rating of `self` after scoring `score` (1, 0.5, 0) against each opponent in one rating period */
+export function glickoUpdate(self: Glicko, results: { opponent: Glicko; score: number }[]): Glicko {
+  const mu = (self.rating - CENTER) / SCALE;
+  const phi = self.rd / SCALE;
+  let vInverse = 0;
+  let improvement = 0;
+  for (const { opponent, score } of results) {
+    const gOpp = g(opponent.rd / SCALE);
+    const e = 1 / (1 + Math.exp(-gOpp * (mu - (opponent.rating - CENTER) / SCALE)));
+    vInverse += gOpp * gOpp * e * (1 - e);
+    improvement += gOpp * (score - e);
+  }
+  const v = 1 / vInverse;
+  const delta = v * improvement;
+
+  // Volatility by the Illinois algorithm
+  const a = Math.log(self.volatility * self.volatility);
+  const f = (x: number) => {
+    const ex = Math.exp(x);
+    const d = phi * phi + v + ex;
+    return (ex * (delta * delta - phi * phi - v - ex)) / (2 * d * d) - (x - a) / (TAU * TAU);
+  };
+  let lo = a;
+  let hi: number;
+  if (delta * delta > phi * phi + v) {
+    hi = Math.log(delta * delta - phi * phi - v);
+  } else {
+    let k = 1;
+    while (f(a - k * TAU) < 0) k++;
+    hi = a - k * TAU;
+  }
+  let fLo = f(lo);
+  let fHi = f(hi);
+  for (let i = 0; i < 50 && Math.abs(hi - lo) > 1e-6; i++) {
+    const c = lo + ((lo - hi) * fLo) / (fHi - fLo);
+    const fC = f(c);
+    if (fC <= 0 === fHi >= 0) {
+      lo = hi;
+      fLo = fHi;
+    } else {
+      fLo /= 2;
+    }
+    hi = c;
+    fHi = fC;
+  }
+  const sigma = Math.exp(lo / 2);
+
+  const phiNew = 1 / Math.sqrt(1 / (phi * phi + sigma * sigma) + 1 / v);
+  return {
+    rating: (mu + phiNew * phiNew * improvement) * SCALE + CENTER,
+    rd: phiNew * SCALE,
+    volatility: sigma,
+  };
+}
@@ -0,0 +1,251 @@
+// Browser bindings for the SkillProof read API (api/ at the repo root).
+// Types mirror api/types.ts — keep the two in sync when routes change.
+
+// ── Response types ──────────────────────────────────────────────────────────
+
+export interface Page<T> {
+  items: T[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+export interface PageQuery {
+  limit?: number;
+  offset?: number;
+}
+
+export interface ApiStatus {
+  chainId: string | null;
+  lastBlock: number | null;
+  lastBlockTimestamp: number | null;
+  counts: {
+    credentials: number;
+    matches: number;
+    markets: number;
+    bounties: number;
+    proposals: number;
+  };
+}
+
+export interface CredentialView {
+  address: string;
+  playerName: string;
+  overallElo: number;
+  percentile: number;
+  skillDomains: string[];
+  skillScores: number[];
+  skillPercentiles: number[];
+  totalMatches: number;
+  winRate: number;
+  issuer: string;
+  issuerName: string | null;
+  issuedAt: number;
+  updatedAt: number;
+  isValid: boolean;
+}
+
+export interface CredentialQuery extends PageQuery {
+  issuer?: string;
+  valid?: boolean;
+}
+
+export interface MatchParticipantView {
+  player: string;
+  /** Team index; in a free-for-all every player is their own team */
+  team: number;
+  /** The team's finish: 1 = first, tied teams share a placement */
+  placement: number;
+  eloBefore: number;
+  eloChange: number;
+}
+
+export interface MatchView {
+  matchId: number;
+  /** 1v1 fields; zero for team and free-for-all matches */
+  player1: string;
+  player2: string;
+  /** 1 = player1 wins, 2 = player2 wins, 3 = draw, 0 = team or free-for-all match */
+  outcome: number;
+  player1EloBefore: number;
+  player2EloBefore: number;
+  player1Change: number;
+  player2Change: number;
+  /** Every player, for 1v1 matches too (player1 is team 0, player2 team 1) */
+  participants: MatchParticipantView[];
+  /** How a dispute over the match was settled, or null; results above are as resolved */
+  resolution: "dismissed" | "voided" | "corrected" | null;
+  domain: string;
+  timestamp: number;
+  txHash: string;
+}
+
+export interface MatchQuery extends PageQuery {
+  player?: string;
+  domain?: string;
+}
+
+export interface MarketView {
+  id: number;
+  question: string;
+  feedId: string;
+  targetPrice: string;
+  commitDeadline: number;
+  revealDeadline: number;
+  resolved: boolean;
+  actualPrice: string;
+  creator: string;
+  createdAt: number;
+}
+
+export interface MarketQuery extends PageQuery {
+  status?: "open" | "resolved";
+  creator?: string;
+}
+
+export interface BountyView {
+  id: number;
+  description: string;
+  poster: string;
+  /** Reward in wei */
+  reward: string;
+  commitDeadline: number;
+  deadline: number;
+  awarded: boolean;
+  winner: string | null;
+  createdAt: number;
+}
+
+export interface BountyQuery extends PageQuery {
+  status?: "open" | "awarded";
+  poster?: string;
+  winner?: string;
+}
+
+export interface ProposalView {
+  id: number;
+  description: string;
+  proposer: string;
+  deadline: number;
+  yesWeight: number;
+  noWeight: number;
+  voteCount: number;
+  createdAt: number;
+}
+
+export interface ProposalQuery extends PageQuery {
+  status?: "active" | "closed";
+  proposer?: string;
+}
+
+export type LeaderboardSort = "elo" | "effective" | "decayed" | "aggregate";
+
+export interface LeaderboardEntryView {
+  rank: number;
+  address: string;
+  playerName: string;
+  issuer: string;
+  issuerName: string | null;
+  overallElo: number;
+  /** overallElo + Hub reputation bonus (floored at 0) */
+  effectiveElo: number;
+  /** overallElo after SkillProofDecay's time decay */
+  decayedElo: number;
+  /** SkillProofAggregator overall score across linked addresses */
+  aggregateElo: number;
+  reputationBonus: number;
+  percentile: number;
+  totalMatches: number;
+  winRate: number;
+  skillDomains: string[];
+}
+
+export interface LeaderboardQuery extends PageQuery {
+  sort?: LeaderboardSort;
+  issuer?: string;
+}
+
+// ── Client ──────────────────────────────────────────────────────────────────
+
+/**
+ * Typed client for the SkillProof read API. `get*` by id/address resolves to
+ * null on 404; any other non-2xx response throws with the server's message.
+ */
+export class SkillProofApiClient {
+  private baseUrl: string;
+
+  constructor(baseUrl: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+  }
+
+  getStatus(): Promise<ApiStatus> {
+    return this.request("/status");
+  }
+
+  listCredentials(query: CredentialQuery = {}): Promise<Page<CredentialView>> {
+    return this.request("/credentials", query);
+  }
+
+  getCredential(address: string): Promise<CredentialView | null> {
+    return this.find(`/credentials/${address}`);
+  }
+
+  listMatches(query: MatchQuery = {}): Promise<Page<MatchView>> {
+    return this.request("/matches", query);
+  }
+
+  getMatch(matchId: number): Promise<MatchView | null> {
+    return this.find(`/matches/${matchId}`);
+  }
+
+  listMarkets(query: MarketQuery = {}): Promise<Page<MarketView>> {
+    return this.request("/markets", query);
+  }
+
+  getMarket(id: number): Promise<MarketView | null> {
+    return this.find(`/markets/${id}`);
+  }
+
+  listBounties(query: BountyQuery = {}): Promise<Page<BountyView>> {
+    return this.request("/bounties", query);
+  }
+
+  getBounty(id: number): Promise<BountyView | null> {
+    return this.find(`/bounties/${id}`);
+  }
+
+  listProposals(query: ProposalQuery = {}): Promise<Page<ProposalView>> {
+    return this.request("/proposals", query);
+  }
+
+  getProposal(id: number): Promise<ProposalView | null> {
+    return this.find(`/proposals/${id}`);
+  }
+
+  getLeaderboard(query: LeaderboardQuery = {}): Promise<Page<LeaderboardEntryView>> {
+    return this.request("/leaderboard", query);
+  }
+
+  // ── Internal ──
+
+  private async find<T>(path: string): Promise<T | null> {
+    const res = await fetch(this.baseUrl + path);
+    if (res.status === 404) return null;
+    return this.parse<T>(res);
+  }
+
+  private async request<T>(path: string, query: PageQuery = {}): Promise<T> {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query) as [string, unknown][]) {
+      if (value !== undefined) params.set(key, String(value));
+    }
+    const qs = params.toString();
+    return this.parse<T>(await fetch(this.baseUrl + path + (qs ? `?${qs}` : "")));
+  }
+
+  private async parse<T>(res: Response): Promise<T> {
+    const body = await res.json();
+    if (!res.ok) throw new Error(`SkillProof API ${res.status}: ${body.error ?? res.statusText}`);
+    return body as T;
+  }
+}
@@ -0,0 +1,141 @@
+import { BrowserProvider, Contract, JsonRpcProvider, ZeroHash, formatEther } from "ethers";
+import { Dispute, DisputeService, DisputeStatus } from "./dispute-types";
+
+// SkillProofDisputes is not on Coston2 yet — set the address printed by
+// scripts/deploy-disputes.ts.
+const DISPUTES_ADDRESS = process.env.NEXT_PUBLIC_SKILLPROOF_DISPUTES_ADDRESS;
+const COSTON2_RPC = "https://coston2-api.flare.network/ext/C/rpc";
+
+const STATUSES: DisputeStatus[] = ["open", "upheld", "rejected", "expired"];
+
+const DISPUTES_ABI = [
+  "function openDispute(address player, string evidenceURI, bytes32 evidenceHash) external payable returns (uint256)",
+  "function respond(uint256 id, string responseURI) external",
+  "function resolve(uint256 id, bool upheld) external",
+  "function escalateToGovernance(uint256 id, uint256 proposalId) external",
+  "function resolveByVote(uint256 id) external",
+  "function expire(uint256 id) external",
+  "function withdraw() external",
+  "function claimable(address account) external view returns (uint256)",
+  "function getDispute(uint256 id) external view returns (tuple(uint256 id, address challenger, address issuer, address player, string evidenceURI, bytes32 evidenceHash, uint256 bond, uint256 openedAt, uint256 responseDeadline, string responseURI, uint8 status, bool escalated, uint256 proposalId, bool slashed))",
+  "function getIssuerDisputes(address issuer) external view returns (uint256[])",
+  "function resolutionDeadline(uint256 id) external view returns (uint256)",
+  "function proposalDescription(uint256 id) external view returns (string)",
+  "function disputeCount() external view returns (uint256)",
+  "function disputeBond() external view returns (uint256)",
+];
+
+function requireAddress(): string {
+  if (!DISPUTES_ADDRESS) {
+    throw new Error("SkillProofDisputes not configured — set NEXT_PUBLIC_SKILLPROOF_DISPUTES_ADDRESS");
+  }
+  return DISPUTES_ADDRESS;
+}
+
+function getReadContract() {
+  return new Contract(requireAddress(), DISPUTES_ABI, new JsonRpcProvider(COSTON2_RPC));
+}
+
+async function getSignerAndContract() {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const eth = (window as any).ethereum;
+  if (typeof window === "undefined" || !eth) {
+    throw new Error("MetaMask not found — connect your wallet first");
+  }
+  const provider = new BrowserProvider(eth);
+  const signer = await provider.getSigner();
+  const disputes = new Contract(requireAddress(), DISPUTES_ABI, signer);
+  return { disputes, signer };
+}
+
+async function send(method: string, ...args: unknown[]) {
+  const { disputes } = await getSignerAndContract();
+  const tx = await disputes[method](...args);
+  const receipt = await tx.wait();
+  return { txHash: receipt.hash as string };
+}
+
+export const disputeContractService: DisputeService = {
+  async getIssuerDisputes(issuer: string) {
+    const disputes = getReadContract();
+    const ids: bigint[] = await disputes.getIssuerDisputes(issuer);
+    const nowSec = Math.floor(Date.now() / 1000);
+
+    return Promise.all(
+      ids.map(async (id): Promise<Dispute> => {
+        const [d, deadline, proposalDescription] = await Promise.all([
+          disputes.getDispute(id),
+          disputes.resolutionDeadline(id),
+          disputes.proposalDescription(id),
+        ]);
+        const status = STATUSES[Number(d.status)];
+        // Open on-chain, but nobody ruled in time: only `expire` is left
+        const awaitingExpiry = status === "open" && !d.escalated && nowSec > Number(deadline);
+        return {
+          id: Number(d.id),
+          challenger: d.challenger,
+          issuer: d.issuer,
+          player: d.player,
+          evidenceURI: d.evidenceURI,
+          evidenceHash: d.evidenceHash,
+          bond: formatEther(d.bond),
+          openedAt: Number(d.openedAt),
+          responseDeadline: Number(d.responseDeadline),
+          resolutionDeadline: Number(deadline),
+          responseURI: d.responseURI,
+          status: awaitingExpiry ? "expired" : status,
+          awaitingExpiry,
+          escalated: d.escalated,
+          proposalId: d.escalated ? Number(d.proposalId) : null,
+          proposalDescription,
+          slashed: d.slashed,
+        };
+      })
+    );
+  },
+
+  async getDisputeBond() {
+    return formatEther(await getReadContract().disputeBond());
+  },
+
+  async openDispute(player: string, evidenceURI: string, evidenceHash: string) {
+    const { disputes } = await getSignerAndContract();
+    const bond = await disputes.disputeBond();
+    const tx = await disputes.openDispute(player, evidenceURI, evidenceHash || ZeroHash, { value: bond });
+    const receipt = await tx.wait();
+    const count = await disputes.disputeCount();
+    return { txHash: receipt.hash, disputeId: Number(count) - 1 };
+  },
+
+  async respondToDispute(disputeId: number, responseURI: string) {
+    return send("respond", disputeId, responseURI);
+  },
+
+  async resolveDispute(disputeId: number, upheld: boolean) {
+    return send("resolve", disputeId, upheld);
+  },
+
+  async escalateDispute(disputeId: number, proposalId: number) {
+    return send("escalateToGovernance", disputeId, proposalId);
+  },
+
+  async resolveDisputeByVote(disputeId: number) {
+    return send("resolveByVote", disputeId);
+  },
+
+  async expireDispute(disputeId: number) {
+    return send("expire", disputeId);
+  },
+
+  async getClaimable(address: string) {
+    return formatEther(await getReadContract().claimable(address));
+  },
+
+  async withdrawBonds() {
+    const { disputes, signer } = await getSignerAndContract();
+    const amount = await disputes.claimable(await signer.getAddress());
+    const tx = await disputes.withdraw();
+    const receipt = await tx.wait();
+    return { txHash: receipt.hash, amount: formatEther(amount) };
+  },
+};
@@ -0,0 +1,9 @@
+import { DisputeService } from "./dispute-types";
+import { disputeMockService } from "./dispute-mock";
+import { disputeContractService } from "./dispute-contract";
+
+export function getDisputeService(demoMode: boolean): DisputeService {
+  return demoMode ? disputeMockService : disputeContractService;
+}
+
+export type { DisputeService, Dispute, DisputeStatus } from "./dispute-types";
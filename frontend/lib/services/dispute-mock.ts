@@ -0,0 +1,210 @@
+import { Dispute, DisputeService } from "./dispute-types";
+
+const STORAGE_KEY = "skillproof_disputes";
+const CLAIMABLE_KEY = "skillproof_dispute_claimable";
+const DEMO_ISSUER = "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266";
+const DEMO_CHALLENGER = "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC";
+const DEMO_DISPUTES_CONTRACT = "0x0000000000000000000000000000000000000d15";
+const BOND = "0.05";
+const RESPONSE_WINDOW = 86400 * 3;
+const RESOLUTION_WINDOW = 86400 * 7;
+const ZERO_HASH = "0x" + "0".repeat(64);
+
+const delay = (ms: number) => new Promise((r) => setTimeout(r, ms));
+const now = () => Math.floor(Date.now() / 1000);
+const randomHex = (len: number) =>
+  "0x" +
+  Array.from({ length: len }, () =>
+    Math.floor(Math.random() * 16).toString(16)
+  ).join("");
+
+function demoDispute(
+  id: number,
+  player: string,
+  openedAt: number,
+  fields: Partial<Dispute> = {},
+): Dispute {
+  return {
+    id,
+    challenger: DEMO_CHALLENGER,
+    issuer: DEMO_ISSUER,
+    player,
+    evidenceURI: `ipfs://bafy-demo-evidence-${id}`,
+    evidenceHash: ZERO_HASH,
+    bond: BOND,
+    openedAt,
+    responseDeadline: openedAt + RESPONSE_WINDOW,
+    resolutionDeadline: openedAt + RESPONSE_WINDOW + RESOLUTION_WINDOW,
+    responseURI: "",
+    status: "open",
+    awaitingExpiry: false,
+    escalated: false,
+    proposalId: null,
+    proposalDescription: `Uphold SkillProofDisputes ${DEMO_DISPUTES_CONTRACT} dispute #${id}? Yes slashes the issuer.`,
+    slashed: false,
+    ...fields,
+  };
+}
+
+const DEMO_DISPUTES: Dispute[] = [
+  demoDispute(0, "0x70997970C51812dc3A010C7d01b50e0d17dc79C8", now() - 86400),
+  demoDispute(1, "0x90F79bf6EB2c4f870365E785982E1f101E93b906", now() - 86400 * 5, {
+    responseURI: "ipfs://bafy-demo-rebuttal-1",
+    status: "upheld",
+    slashed: true,
+  }),
+  demoDispute(2, "0x15d34AAf54267DB7D7c367839AAf71A00a2C6A65", now() - 86400 * 12),
+];
+
+function loadDisputes(): Dispute[] {
+  if (typeof window === "undefined") return [...DEMO_DISPUTES];
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : [...DEMO_DISPUTES];
+  } catch {
+    return [...DEMO_DISPUTES];
+  }
+}
+
+function saveDisputes(disputes: Dispute[]) {
+  if (typeof window === "undefined") return;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(disputes));
+}
+
+function loadClaimable(): Record<string, number> {
+  if (typeof window === "undefined") return {};
+  try {
+    return JSON.parse(localStorage.getItem(CLAIMABLE_KEY) ?? "{}");
+  } catch {
+    return {};
+  }
+}
+
+/** Bonds are credited, not sent, as on-chain */
+function credit(account: string, amount: string) {
+  if (typeof window === "undefined") return;
+  const claimable = loadClaimable();
+  const key = account.toLowerCase();
+  claimable[key] = (claimable[key] ?? 0) + Number(amount);
+  localStorage.setItem(CLAIMABLE_KEY, JSON.stringify(claimable));
+}
+
+/** Mirror the contract's "expired" reporting for open disputes past their deadline */
+function withExpiry(d: Dispute): Dispute {
+  const lapsed = d.status === "open" && !d.escalated && now() > d.resolutionDeadline;
+  return lapsed ? { ...d, status: "expired", awaitingExpiry: true } : d;
+}
+
+function openDispute(disputes: Dispute[], id: number): Dispute {
+  const d = disputes[id];
+  if (!d) throw new Error("Dispute does not exist");
+  if (d.status !== "open") throw new Error("Dispute closed");
+  return d;
+}
+
+export const disputeMockService: DisputeService = {
+  async getIssuerDisputes(issuer: string) {
+    await delay(500);
+    return loadDisputes()
+      .filter((d) => d.issuer.toLowerCase() === issuer.toLowerCase())
+      .map(withExpiry);
+  },
+
+  async getDisputeBond() {
+    return BOND;
+  },
+
+  async openDispute(player: string, evidenceURI: string, evidenceHash: string) {
+    await delay(1500);
+    if (!evidenceURI && !evidenceHash) throw new Error("No evidence");
+    const disputes = loadDisputes();
+    if (disputes.some((d) => d.player.toLowerCase() === player.toLowerCase() && withExpiry(d).status === "open")) {
+      throw new Error("Dispute already open");
+    }
+    const id = disputes.length;
+    disputes.push(
+      demoDispute(id, player, now(), {
+        evidenceURI,
+        evidenceHash: evidenceHash || ZERO_HASH,
+      })
+    );
+    saveDisputes(disputes);
+    return { txHash: randomHex(64), disputeId: id };
+  },
+
+  async respondToDispute(disputeId: number, responseURI: string) {
+    await delay(1500);
+    const disputes = loadDisputes();
+    const d = openDispute(disputes, disputeId);
+    if (now() > d.responseDeadline) throw new Error("Response window closed");
+    d.responseURI = responseURI;
+    saveDisputes(disputes);
+    return { txHash: randomHex(64) };
+  },
+
+  async resolveDispute(disputeId: number, upheld: boolean) {
+    await delay(1500);
+    const disputes = loadDisputes();
+    const d = openDispute(disputes, disputeId);
+    if (d.escalated) throw new Error("Escalated to governance");
+    if (now() > d.resolutionDeadline) throw new Error("Dispute expired");
+    d.status = upheld ? "upheld" : "rejected";
+    d.slashed = upheld;
+    credit(upheld ? d.challenger : d.issuer, d.bond);
+    saveDisputes(disputes);
+    return { txHash: randomHex(64) };
+  },
+
+  async escalateDispute(disputeId: number, proposalId: number) {
+    await delay(1500);
+    const disputes = loadDisputes();
+    const d = openDispute(disputes, disputeId);
+    if (d.escalated) throw new Error("Already escalated");
+    d.escalated = true;
+    d.proposalId = proposalId;
+    saveDisputes(disputes);
+    return { txHash: randomHex(64) };
+  },
+
+  async resolveDisputeByVote(disputeId: number) {
+    await delay(1500);
+    const disputes = loadDisputes();
+    const d = openDispute(disputes, disputeId);
+    if (!d.escalated) throw new Error("Not escalated");
+    // Demo governance always upholds
+    d.status = "upheld";
+    d.slashed = true;
+    credit(d.challenger, d.bond);
+    saveDisputes(disputes);
+    return { txHash: randomHex(64) };
+  },
+
+  async expireDispute(disputeId: number) {
+    await delay(1500);
+    const disputes = loadDisputes();
+    const d = openDispute(disputes, disputeId);
+    if (d.escalated) throw new Error("Escalated to governance");
+    if (now() <= d.resolutionDeadline) throw new Error("Not expired");
+    d.status = "expired";
+    credit(d.challenger, d.bond);
+    saveDisputes(disputes);
+    return { txHash: randomHex(64) };
+  },
+
+  async getClaimable(address: string) {
+    await delay(200);
+    return String(loadClaimable()[address.toLowerCase()] ?? 0);
+  },
+
+  async withdrawBonds() {
+    await delay(1500);
+    // The demo wallet is the demo challenger
+    const claimable = loadClaimable();
+    const key = DEMO_CHALLENGER.toLowerCase();
+    const amount = claimable[key] ?? 0;
+    if (amount <= 0) throw new Error("Nothing to withdraw");
+    claimable[key] = 0;
+    localStorage.setItem(CLAIMABLE_KEY, JSON.stringify(claimable));
+    return { txHash: randomHex(64), amount: String(amount) };
+  },
+};
@@ -0,0 +1,42 @@
+/**
+ * "expired" covers both disputes closed with `expire` / an empty vote and open
+ * disputes whose resolution window has passed without a ruling.
+ */
+export type DisputeStatus = "open" | "upheld" | "rejected" | "expired";
+
+export interface Dispute {
+  id: number;
+  challenger: string;
+  issuer: string;
+  player: string;
+  evidenceURI: string;
+  evidenceHash: string;
+  bond: string; // in C2FLR
+  openedAt: number;
+  responseDeadline: number;
+  resolutionDeadline: number;
+  responseURI: string;
+  status: DisputeStatus;
+  /** Past its resolution deadline but not yet closed on-chain — anyone can refund the bond */
+  awaitingExpiry: boolean;
+  escalated: boolean;
+  proposalId: number | null;
+  /** Exact description a Hub proposal needs before the dispute can be escalated to it */
+  proposalDescription: string;
+  slashed: boolean;
+}
+
+export interface DisputeService {
+  getIssuerDisputes(issuer: string): Promise<Dispute[]>;
+  getDisputeBond(): Promise<string>;
+  openDispute(player: string, evidenceURI: string, evidenceHash: string): Promise<{ txHash: string; disputeId: number }>;
+  respondToDispute(disputeId: number, responseURI: string): Promise<{ txHash: string }>;
+  resolveDispute(disputeId: number, upheld: boolean): Promise<{ txHash: string }>;
+  escalateDispute(disputeId: number, proposalId: number): Promise<{ txHash: string }>;
+  resolveDisputeByVote(disputeId: number): Promise<{ txHash: string }>;
+  expireDispute(disputeId: number): Promise<{ txHash: string }>;
+  /** Refunded and awarded bonds waiting to be withdrawn, in C2FLR */
+  getClaimable(address: string): Promise<string>;
+  /** Withdraw the connected wallet's refunded and awarded bonds */
+  withdrawBonds(): Promise<{ txHash: string; amount: string }>;
+}
@@ -0,0 +1,296 @@
+import { BrowserProvider, Contract, EventLog, JsonRpcProvider, formatEther } from "ethers";
+import {
+  EngineMatch,
+  EngineParticipant,
+  EngineSeason,
+  EngineService,
+  MatchDisputeStatus,
+  MatchOutcome,
+  RatingPoint,
+  SeasonStanding,
+} from "./engine-types";
+
+const ENGINE_ADDRESS = "0x936df2cfC13ed7970B5c028a3940e9aB45497376";
+const COSTON2_RPC = "https://coston2-api.flare.network/ext/C/rpc";
+
+// Per-player history scans `MatchRecorded` and `TeamMatchRecorded` logs. Set the Engine deployment
+// block to cover its full history; otherwise only the most recent
+// LOG_LOOKBACK blocks are scanned.
+const FROM_BLOCK = process.env.NEXT_PUBLIC_SKILLPROOF_ENGINE_FROM_BLOCK;
+const LOG_LOOKBACK = 10000;
+const LOG_CHUNK = 500;
+const STANDINGS_PAGE = 100;
+
+const ENGINE_ABI = [
+  "function registerPlayer(string[] domains) external",
+  "function recordMatch(address player1, address player2, uint8 outcome, string domain) external",
+  "function disputeMatch(uint256 matchId) external",
+  "function getPlayer(address player) view returns (uint256 elo, uint256 wins, uint256 losses, uint256 draws, uint256 matchCount, uint256 peakElo, uint256 currentStreak, uint256 longestStreak, bool registered)",
+  "function getWinRate(address player) view returns (uint256)",
+  "function getGlicko(address player) view returns (uint256 rating, uint256 rd, uint256 volatility, uint256 lastRatedAt, bool rated)",
+  "function getPlayerDomains(address player) view returns (string[])",
+  "function domainElo(address, string) view returns (uint256)",
+  "function getMatch(uint256 matchId) view returns (tuple(address player1, address player2, uint8 outcome, uint256 player1EloBefore, uint256 player2EloBefore, int256 player1EloChange, int256 player2EloChange, uint256 timestamp, string domain, address[] participants, uint8[] teams, uint8[] placements, uint256[] elosBefore, int256[] eloChanges))",
+  "function getMatchCount() view returns (uint256)",
+  "function getPlayerCount() view returns (uint256)",
+  "function simulateMatch(address player1, address player2, uint8 outcome) view returns (int256 change1, int256 change2)",
+  "function authorizedReporters(address) view returns (bool)",
+  "function disputeStatus(uint256) view returns (uint8)",
+  "function disputeWindow() view returns (uint256)",
+  "function currentSeason() view returns (uint256)",
+  "function getSeason(uint256 season) view returns (tuple(uint256 startedAt, uint256 endedAt, uint256 firstMatchId, uint256 matchCount, uint256 resetBps))",
+  "function getSeasonStandings(uint256 season, uint256 start, uint256 count) view returns (tuple(address player, uint32 rank, uint32 elo, uint32 peakElo, uint32 wins, uint32 losses, uint32 draws, uint32 longestStreak)[])",
+  "event MatchRecorded(uint256 indexed matchId, address indexed player1, address indexed player2, uint8 outcome, int256 player1Change, int256 player2Change)",
+  "event TeamMatchRecorded(uint256 indexed matchId, address[] participants, uint8[] teams, uint8[] placements, int256[] eloChanges)",
+];
+
+// Deployments before team matches return the 1v1 fields only
+const LEGACY_GET_MATCH =
+  "function getMatch(uint256 matchId) view returns (tuple(address player1, address player2, uint8 outcome, uint256 player1EloBefore, uint256 player2EloBefore, int256 player1EloChange, int256 player2EloChange, uint256 timestamp, string domain))";
+
+const DISPUTE_STATUSES: MatchDisputeStatus[] = ["none", "open", "dismissed", "voided", "corrected"];
+
+/** A `getSeasonStandings` row as ethers decodes it */
+interface SeasonStandingStruct {
+  player: string;
+  rank: bigint;
+  elo: bigint;
+  peakElo: bigint;
+  wins: bigint;
+  losses: bigint;
+  draws: bigint;
+  longestStreak: bigint;
+}
+
+function getReadContract() {
+  return new Contract(ENGINE_ADDRESS, ENGINE_ABI, new JsonRpcProvider(COSTON2_RPC));
+}
+
+async function getSignerAndContract() {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const eth = (window as any).ethereum;
+  if (typeof window === "undefined" || !eth) {
+    throw new Error("MetaMask not found — connect your wallet first");
+  }
+  const provider = new BrowserProvider(eth);
+  const signer = await provider.getSigner();
+  const engine = new Contract(ENGINE_ADDRESS, ENGINE_ABI, signer);
+  return { engine, signer };
+}
+
+async function readMatch(engine: Contract, id: number): Promise<EngineMatch> {
+  const [m, status, window] = await Promise.all([
+    engine.getMatch(id).catch(() => new Contract(ENGINE_ADDRESS, [LEGACY_GET_MATCH], engine.runner).getMatch(id)),
+    // Deployments before disputes have neither getter
+    engine.disputeStatus(id).catch(() => 0),
+    engine.disputeWindow().catch(() => null),
+  ]);
+  const outcome = Number(m.outcome) as MatchOutcome | 0;
+  const participants: EngineParticipant[] =
+    outcome === 0
+      ? (m.participants as string[]).map((player, i) => ({
+          player,
+          team: Number(m.teams[i]),
+          placement: Number(m.placements[i]),
+          eloBefore: Number(m.elosBefore[i]),
+          eloChange: Number(m.eloChanges[i]),
+        }))
+      : [
+          { player: m.player1, team: 0, placement: outcome === 2 ? 2 : 1, eloBefore: Number(m.player1EloBefore), eloChange: Number(m.player1EloChange) },
+          { player: m.player2, team: 1, placement: outcome === 1 ? 2 : 1, eloBefore: Number(m.player2EloBefore), eloChange: Number(m.player2EloChange) },
+        ];
+  return {
+    id,
+    player1: m.player1,
+    player2: m.player2,
+    outcome,
+    player1EloBefore: Number(m.player1EloBefore),
+    player2EloBefore: Number(m.player2EloBefore),
+    player1EloChange: Number(m.player1EloChange),
+    player2EloChange: Number(m.player2EloChange),
+    timestamp: Number(m.timestamp),
+    domain: m.domain,
+    participants,
+    dispute: DISPUTE_STATUSES[Number(status)],
+    disputeDeadline: window === null ? 0 : Number(m.timestamp) + Number(window),
+  };
+}
+
+/** Ids of matches `player` took part in, oldest first */
+async function playerMatchIds(engine: Contract, player: string): Promise<number[]> {
+  const provider = engine.runner as JsonRpcProvider;
+  const head = await provider.getBlockNumber();
+  const from = FROM_BLOCK ? Number(FROM_BLOCK) : Math.max(0, head - LOG_LOOKBACK);
+  const logs: EventLog[] = [];
+  for (let start = from; start <= head; start += LOG_CHUNK) {
+    const end = Math.min(start + LOG_CHUNK - 1, head);
+    const [asPlayer1, asPlayer2, team] = await Promise.all([
+      engine.queryFilter(engine.filters.MatchRecorded(null, player), start, end),
+      engine.queryFilter(engine.filters.MatchRecorded(null, null, player), start, end),
+      // Team matches are not indexed by player
+      engine.queryFilter(engine.filters.TeamMatchRecorded(), start, end),
+    ]);
+    const key = player.toLowerCase();
+    const inTeam = team.filter(
+      (l) => l instanceof EventLog && (l.args.participants as string[]).some((p) => p.toLowerCase() === key)
+    );
+    logs.push(...[...asPlayer1, ...asPlayer2, ...inTeam].filter((l): l is EventLog => l instanceof EventLog));
+  }
+  return logs.map((l) => Number(l.args.matchId)).sort((a, b) => a - b);
+}
+
+export const engineContractService: EngineService = {
+  async getTotals() {
+    const engine = getReadContract();
+    const [players, matches] = await Promise.all([engine.getPlayerCount(), engine.getMatchCount()]);
+    return { players: Number(players), matches: Number(matches) };
+  },
+
+  async getPlayer(address: string) {
+    const engine = getReadContract();
+    const [p, winRate] = await Promise.all([engine.getPlayer(address), engine.getWinRate(address)]);
+    return {
+      address,
+      registered: p.registered,
+      elo: Number(p.elo),
+      peakElo: Number(p.peakElo),
+      wins: Number(p.wins),
+      losses: Number(p.losses),
+      draws: Number(p.draws),
+      totalMatches: Number(p.matchCount),
+      currentStreak: Number(p.currentStreak),
+      longestStreak: Number(p.longestStreak),
+      winRate: Number(winRate) / 100,
+    };
+  },
+
+  async getDomainElos(address: string) {
+    const engine = getReadContract();
+    // Older Engine deployments have no domain getter — fall back to match domains
+    const registered: string[] = await engine.getPlayerDomains(address).catch(() => []);
+    const ids = await playerMatchIds(engine, address);
+    const played = await Promise.all(ids.map((id) => readMatch(engine, id).then((m) => m.domain)));
+    const domains = Array.from(new Set([...registered, ...played])).filter((d) => d.length > 0);
+    const elos = await Promise.all(domains.map((d) => engine.domainElo(address, d)));
+    return Object.fromEntries(domains.map((d, i) => [d, Number(elos[i])]));
+  },
+
+  async getGlicko(address: string) {
+    const engine = getReadContract();
+    try {
+      const g = await engine.getGlicko(address);
+      return {
+        rating: Number(formatEther(g.rating)),
+        rd: Number(formatEther(g.rd)),
+        volatility: Number(formatEther(g.volatility)),
+        rated: g.rated,
+      };
+    } catch {
+      // Deployments before Glicko-2: report the ELO with full uncertainty
+      const p = await engine.getPlayer(address);
+      return { rating: Number(p.elo), rd: 350, volatility: 0.06, rated: false };
+    }
+  },
+
+  async getMatchHistory(player: string | null, page: number, pageSize: number) {
+    const engine = getReadContract();
+    let ids: number[];
+    if (player === null) {
+      const count = Number(await engine.getMatchCount());
+      ids = Array.from({ length: count }, (_, i) => i);
+    } else {
+      ids = await playerMatchIds(engine, player);
+    }
+    const newestFirst = ids.reverse();
+    const pageIds = newestFirst.slice(page * pageSize, (page + 1) * pageSize);
+    const items = await Promise.all(pageIds.map((id) => readMatch(engine, id)));
+    return { items, total: ids.length };
+  },
+
+  async getRatingHistory(address: string) {
+    const engine = getReadContract();
+    const ids = await playerMatchIds(engine, address);
+    if (ids.length === 0) return [];
+    const matches = await Promise.all(ids.map((id) => readMatch(engine, id)));
+    const key = address.toLowerCase();
+    const side = (m: EngineMatch) => m.participants.find((p) => p.player.toLowerCase() === key)!;
+    return [
+      { matchId: null, timestamp: matches[0].timestamp, elo: side(matches[0]).eloBefore },
+      // Mirrors the Engine's 100 ELO floor
+      ...matches.map((m): RatingPoint => ({
+        matchId: m.id,
+        timestamp: m.timestamp,
+        elo: Math.max(side(m).eloBefore + side(m).eloChange, 100),
+      })),
+    ];
+  },
+
+  async simulateMatch(player1: string, player2: string, outcome: MatchOutcome) {
+    const [change1, change2] = await getReadContract().simulateMatch(player1, player2, outcome);
+    return { player1Change: Number(change1), player2Change: Number(change2) };
+  },
+
+  async isReporter(address: string) {
+    return getReadContract().authorizedReporters(address);
+  },
+
+  async getSeasons(): Promise<EngineSeason[]> {
+    const engine = getReadContract();
+    // Deployments before seasons have no season getters
+    const current = Number(await engine.currentSeason().catch(() => 1));
+    const ids = Array.from({ length: current - 1 }, (_, i) => current - 1 - i);
+    const seasons = await Promise.all(ids.map((id) => engine.getSeason(id)));
+    return seasons.map((s, i) => ({
+      id: ids[i],
+      startedAt: Number(s.startedAt),
+      endedAt: Number(s.endedAt),
+      matchCount: Number(s.matchCount),
+      resetBps: Number(s.resetBps),
+    }));
+  },
+
+  async getSeasonStandings(season: number): Promise<SeasonStanding[]> {
+    const engine = getReadContract();
+    const standings: SeasonStanding[] = [];
+    for (;;) {
+      const page: SeasonStandingStruct[] = await engine.getSeasonStandings(season, standings.length, STANDINGS_PAGE);
+      standings.push(...page.map((s) => ({
+        player: s.player,
+        rank: Number(s.rank),
+        elo: Number(s.elo),
+        peakElo: Number(s.peakElo),
+        wins: Number(s.wins),
+        losses: Number(s.losses),
+        draws: Number(s.draws),
+        longestStreak: Number(s.longestStreak),
+      })));
+      if (page.length < STANDINGS_PAGE) return standings;
+    }
+  },
+
+  async registerPlayer(domains: string[]) {
+    const { engine, signer } = await getSignerAndContract();
+    const tx = await engine.registerPlayer(domains);
+    const receipt = await tx.wait();
+    return { txHash: receipt.hash, player: await signer.getAddress() };
+  },
+
+  async recordMatch(player1: string, player2: string, outcome: MatchOutcome, domain: string) {
+    const { engine } = await getSignerAndContract();
+    const tx = await engine.recordMatch(player1, player2, outcome, domain);
+    const receipt = await tx.wait();
+    // Read the id off this transaction's log; the count may already include other reporters' matches
+    const recorded = receipt.logs
+      .map((log: { topics: string[]; data: string }) => engine.interface.parseLog(log))
+      .find((e: { name: string } | null) => e?.name === "MatchRecorded");
+    if (!recorded) throw new Error("MatchRecorded event not found in receipt");
+    return { txHash: receipt.hash, matchId: Number(recorded.args.matchId) };
+  },
+
+  async disputeMatch(matchId: number) {
+    const { engine } = await getSignerAndContract();
+    const tx = await engine.disputeMatch(matchId);
+    const receipt = await tx.wait();
+    return { txHash: receipt.hash };
+  },
+};
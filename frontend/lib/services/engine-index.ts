@@ -0,0 +1,20 @@
+import { EngineService } from "./engine-types";
+import { engineMockService } from "./engine-mock";
+import { engineContractService } from "./engine-contract";
+
+export function getEngineService(demoMode: boolean): EngineService {
+  return demoMode ? engineMockService : engineContractService;
+}
+
+export type {
+  EngineService,
+  EnginePlayer,
+  EngineGlicko,
+  EngineMatch,
+  EngineParticipant,
+  MatchDisputeStatus,
+  MatchOutcome,
+  RatingPoint,
+  EngineSeason,
+  SeasonStanding,
+} from "./engine-types";
@@ -0,0 +1,499 @@
+import { Glicko, INITIAL_RD, INITIAL_VOLATILITY, glickoUpdate, teamGlicko } from "@/lib/glicko";
+import {
+  EngineMatch,
+  EngineParticipant,
+  EnginePlayer,
+  EngineSeason,
+  EngineService,
+  MatchOutcome,
+  RatingPoint,
+  SeasonStanding,
+} from "./engine-types";
+
+const STORAGE_KEY = "skillproof_engine";
+// Demo writes act as this account
+const DEMO_SELF = "0xa0Ee7A142d267C1f36714E4a8F75612F20a79720";
+const BASE_ELO = 1200;
+const DAY = 86400;
+const DISPUTE_WINDOW = 3 * DAY;
+
+const LEON = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+const ALEX = "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC";
+const MARIA = "0x15d34AAf54267DB7D7c367839AAf71A00a2C6A65";
+const RAJ = "0x9965507D1a55bcC2695C58ba16FB37d819B0A4dc";
+
+const ZERO = "0x0000000000000000000000000000000000000000";
+
+const delay = (ms: number) => new Promise((r) => setTimeout(r, ms));
+const now = () => Math.floor(Date.now() / 1000);
+const randomHex = (len: number) =>
+  "0x" +
+  Array.from({ length: len }, () =>
+    Math.floor(Math.random() * 16).toString(16)
+  ).join("");
+
+interface MockPlayer {
+  address: string;
+  elo: number;
+  peakElo: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  totalMatches: number;
+  currentStreak: number;
+  longestStreak: number;
+  seasonWins: number;
+  seasonLosses: number;
+  seasonDraws: number;
+  domains: string[];
+  domainElo: Record<string, number>;
+  /** Absent until first rated (and in state saved before Glicko-2 existed) */
+  glicko?: Glicko;
+}
+
+interface EngineState {
+  players: Record<string, MockPlayer>;
+  matches: EngineMatch[];
+  /** Closed seasons, oldest first */
+  seasons: { season: EngineSeason; standings: SeasonStanding[] }[];
+  seasonStartedAt: number;
+}
+
+// ── ELO math, mirroring SkillProofEngine ───────────────────────────────────
+
+/** Logistic expected score, clamped at ±800 like the Engine's interpolated table */
+function expectedScore(ratingA: number, ratingB: number) {
+  const diff = Math.max(-800, Math.min(800, ratingA - ratingB));
+  return Math.round(10000 / (1 + 10 ** (-diff / 400)));
+}
+
+function kFactor(p: MockPlayer) {
+  if (p.elo >= 2000) return 16;
+  if (p.totalMatches >= 30) return 24;
+  return 32;
+}
+
+/** Solidity signed division truncates toward zero */
+function eloChange(k: number, actual: number, expected: number) {
+  return Math.trunc((k * (actual - expected)) / 10000);
+}
+
+function applyChange(elo: number, change: number) {
+  return change < 0 && -change >= elo - 100 ? 100 : elo + change;
+}
+
+function simulate(p1: MockPlayer, p2: MockPlayer, outcome: MatchOutcome) {
+  const expected1 = expectedScore(p1.elo, p2.elo);
+  const actual1 = outcome === 1 ? 10000 : outcome === 2 ? 0 : 5000;
+  return {
+    player1Change: eloChange(kFactor(p1), actual1, expected1),
+    player2Change: eloChange(kFactor(p2), 10000 - actual1, 10000 - expected1),
+  };
+}
+
+/** Team averages scored pairwise by placement; a 1v1 rates exactly like `simulate` */
+function simulateTeams(teams: MockPlayer[][], placements: number[]) {
+  const avg = teams.map((t) => Math.floor(t.reduce((sum, p) => sum + p.elo, 0) / t.length));
+  const actual = teams.map(() => 0);
+  const expected = teams.map(() => 0);
+  for (let t = 0; t < teams.length; t++) {
+    for (let u = t + 1; u < teams.length; u++) {
+      const e = expectedScore(avg[t], avg[u]);
+      const a = placements[t] < placements[u] ? 10000 : placements[t] > placements[u] ? 0 : 5000;
+      expected[t] += e;
+      expected[u] += 10000 - e;
+      actual[t] += a;
+      actual[u] += 10000 - a;
+    }
+  }
+  return teams.map((members, t) =>
+    members.map((p) => Math.trunc(eloChange(kFactor(p), actual[t], expected[t]) / (teams.length - 1)))
+  );
+}
+
+/** Participants of a 1v1 match (also fills matches saved before team matches existed) */
+function duel(m: EngineMatch): EngineParticipant[] {
+  return [
+    { player: m.player1, team: 0, placement: m.outcome === 2 ? 2 : 1, eloBefore: m.player1EloBefore, eloChange: m.player1EloChange },
+    { player: m.player2, team: 1, placement: m.outcome === 1 ? 2 : 1, eloBefore: m.player2EloBefore, eloChange: m.player2EloChange },
+  ];
+}
+
+function currentGlicko(p: MockPlayer): Glicko {
+  return p.glicko ?? { rating: p.elo, rd: INITIAL_RD, volatility: INITIAL_VOLATILITY };
+}
+
+function updateStats(p: MockPlayer, newElo: number, won: boolean, drew: boolean) {
+  p.elo = newElo;
+  p.totalMatches++;
+  if (won) {
+    p.wins++;
+    p.seasonWins++;
+    p.currentStreak++;
+    p.longestStreak = Math.max(p.longestStreak, p.currentStreak);
+  } else {
+    if (drew) {
+      p.draws++;
+      p.seasonDraws++;
+    } else {
+      p.losses++;
+      p.seasonLosses++;
+    }
+    p.currentStreak = 0;
+  }
+  p.peakElo = Math.max(p.peakElo, newElo);
+}
+
+function newPlayer(address: string, elo: number, domains: string[]): MockPlayer {
+  return {
+    address,
+    elo,
+    peakElo: elo,
+    wins: 0,
+    losses: 0,
+    draws: 0,
+    totalMatches: 0,
+    currentStreak: 0,
+    longestStreak: 0,
+    seasonWins: 0,
+    seasonLosses: 0,
+    seasonDraws: 0,
+    domains,
+    domainElo: Object.fromEntries(domains.map((d) => [d, elo])),
+  };
+}
+
+function record(state: EngineState, player1: string, player2: string, outcome: MatchOutcome, domain: string, timestamp: number) {
+  const p1 = state.players[player1.toLowerCase()];
+  const p2 = state.players[player2.toLowerCase()];
+  if (!p1) throw new Error("Player 1 not registered");
+  if (!p2) throw new Error("Player 2 not registered");
+  if (p1 === p2) throw new Error("Cannot play self");
+
+  const { player1Change, player2Change } = simulate(p1, p2, outcome);
+  const match: EngineMatch = {
+    id: state.matches.length,
+    player1: p1.address,
+    player2: p2.address,
+    outcome,
+    player1EloBefore: p1.elo,
+    player2EloBefore: p2.elo,
+    player1EloChange: player1Change,
+    player2EloChange: player2Change,
+    timestamp,
+    domain,
+    participants: [],
+    dispute: "none",
+    disputeDeadline: timestamp + DISPUTE_WINDOW,
+  };
+  match.participants = duel(match);
+  // Glicko-2 is seeded from the pre-match ELO, so rate before updating stats
+  const g1 = currentGlicko(p1);
+  const g2 = currentGlicko(p2);
+  const score1 = outcome === 1 ? 1 : outcome === 2 ? 0 : 0.5;
+  p1.glicko = glickoUpdate(g1, [{ opponent: g2, score: score1 }]);
+  p2.glicko = glickoUpdate(g2, [{ opponent: g1, score: 1 - score1 }]);
+
+  const elo1 = applyChange(p1.elo, player1Change);
+  const elo2 = applyChange(p2.elo, player2Change);
+  updateStats(p1, elo1, outcome === 1, outcome === 3);
+  updateStats(p2, elo2, outcome === 2, outcome === 3);
+  if (domain) {
+    p1.domainElo[domain] = elo1;
+    p2.domainElo[domain] = elo2;
+  }
+  state.matches.push(match);
+  return match;
+}
+
+function recordTeams(state: EngineState, teamAddrs: string[][], placements: number[], domain: string, timestamp: number) {
+  const teams = teamAddrs.map((t) =>
+    t.map((a) => {
+      const p = state.players[a.toLowerCase()];
+      if (!p) throw new Error("Player not registered");
+      return p;
+    })
+  );
+  const changes = simulateTeams(teams, placements);
+
+  const glicko = teams.map((t) => t.map(currentGlicko));
+  const opponents = glicko.map(teamGlicko);
+  const firstPlace = placements.filter((p) => p === 1).length;
+  const participants: EngineParticipant[] = [];
+  teams.forEach((members, t) =>
+    members.forEach((p, i) => {
+      const results = opponents
+        .map((opponent, u) => ({
+          opponent,
+          score: placements[t] < placements[u] ? 1 : placements[t] > placements[u] ? 0 : 0.5,
+        }))
+        .filter((_, u) => u !== t);
+      p.glicko = glickoUpdate(glicko[t][i], results);
+
+      participants.push({ player: p.address, team: t, placement: placements[t], eloBefore: p.elo, eloChange: changes[t][i] });
+      const newElo = applyChange(p.elo, changes[t][i]);
+      updateStats(p, newElo, placements[t] === 1 && firstPlace === 1, placements[t] === 1 && firstPlace > 1);
+      if (domain) p.domainElo[domain] = newElo;
+    })
+  );
+
+  const match: EngineMatch = {
+    id: state.matches.length,
+    player1: ZERO,
+    player2: ZERO,
+    outcome: 0,
+    player1EloBefore: 0,
+    player2EloBefore: 0,
+    player1EloChange: 0,
+    player2EloChange: 0,
+    timestamp,
+    domain,
+    participants,
+    dispute: "none",
+    disputeDeadline: timestamp + DISPUTE_WINDOW,
+  };
+  state.matches.push(match);
+  return match;
+}
+
+// ── Seasons ────────────────────────────────────────────────────────────────
+
+/** Move a rating `resetBps` of the way toward BASE_ELO, like the Engine's soft reset */
+function softReset(elo: number, resetBps: number) {
+  return elo >= BASE_ELO
+    ? elo - Math.floor(((elo - BASE_ELO) * resetBps) / 10000)
+    : elo + Math.floor(((BASE_ELO - elo) * resetBps) / 10000);
+}
+
+/** Archive final standings, then soft-reset ratings and restart peaks, streaks and season records */
+function closeSeason(state: EngineState, resetBps: number, timestamp: number) {
+  const players = Object.values(state.players);
+  const ranked = players
+    .map((p, i) => ({ p, i }))
+    .sort((a, b) => b.p.elo - a.p.elo || a.i - b.i)
+    .map(({ p }) => p);
+  const firstMatchId = state.seasons.reduce((n, s) => n + s.season.matchCount, 0);
+  state.seasons.push({
+    season: {
+      id: state.seasons.length + 1,
+      startedAt: state.seasonStartedAt,
+      endedAt: timestamp,
+      matchCount: state.matches.length - firstMatchId,
+      resetBps,
+    },
+    standings: ranked.map((p, i) => ({
+      player: p.address,
+      rank: i + 1,
+      elo: p.elo,
+      peakElo: p.peakElo,
+      wins: p.seasonWins,
+      losses: p.seasonLosses,
+      draws: p.seasonDraws,
+      longestStreak: p.longestStreak,
+    })),
+  });
+  state.seasonStartedAt = timestamp;
+
+  for (const p of players) {
+    p.elo = softReset(p.elo, resetBps);
+    p.peakElo = p.elo;
+    p.currentStreak = 0;
+    p.longestStreak = 0;
+    p.seasonWins = 0;
+    p.seasonLosses = 0;
+    p.seasonDraws = 0;
+    for (const d of p.domains) p.domainElo[d] = softReset(p.domainElo[d], resetBps);
+  }
+}
+
+// Scripted matches: [player1, player2, outcome, domain]; season 1 closes after SEASON_ONE of them
+const DEMO_MATCHES: [string, string, MatchOutcome, string][] = [
+  [LEON, ALEX, 1, "derivatives"],
+  [MARIA, RAJ, 1, "market-making"],
+  [LEON, MARIA, 2, "market-making"],
+  [ALEX, RAJ, 3, "risk-management"],
+  [LEON, RAJ, 1, "derivatives"],
+  [MARIA, ALEX, 1, "derivatives"],
+  [LEON, ALEX, 1, "risk-management"],
+  [RAJ, LEON, 2, "market-making"],
+  [MARIA, LEON, 3, "derivatives"],
+  [ALEX, RAJ, 1, "market-making"],
+  [LEON, MARIA, 1, "derivatives"],
+  [RAJ, ALEX, 1, "risk-management"],
+  [LEON, ALEX, 2, "derivatives"],
+  [MARIA, RAJ, 1, "derivatives"],
+  [LEON, RAJ, 1, "risk-management"],
+  [ALEX, MARIA, 3, "market-making"],
+  [LEON, MARIA, 1, "market-making"],
+  [RAJ, ALEX, 2, "derivatives"],
+];
+
+const SEASON_ONE = 10;
+
+function demoState(): EngineState {
+  const start = now() - DAY * (DEMO_MATCHES.length * 2 + 2);
+  const state: EngineState = { players: {}, matches: [], seasons: [], seasonStartedAt: start - DAY };
+  const domains = ["derivatives", "market-making", "risk-management"];
+  for (const [address, elo] of [[LEON, 1500], [ALEX, 1420], [MARIA, 1650], [RAJ, 1380]] as const) {
+    state.players[address.toLowerCase()] = newPlayer(address, elo, domains);
+  }
+  DEMO_MATCHES.forEach(([p1, p2, outcome, domain], i) => {
+    if (i === SEASON_ONE) closeSeason(state, 5000, start + DAY * (2 * i - 1));
+    record(state, p1, p2, outcome, domain, start + DAY * 2 * i);
+  });
+  // Arena rounds: a 2v2 and a four-way free-for-all
+  const arena = start + DAY * DEMO_MATCHES.length * 2;
+  recordTeams(state, [[LEON, RAJ], [MARIA, ALEX]], [1, 2], "derivatives", arena);
+  recordTeams(state, [[MARIA], [LEON], [ALEX], [RAJ]], [1, 2, 2, 4], "market-making", arena + DAY);
+  return state;
+}
+
+function loadState(): EngineState {
+  if (typeof window === "undefined") return demoState();
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return demoState();
+    const state: EngineState = JSON.parse(raw);
+    for (const m of state.matches) {
+      m.participants ??= duel(m);
+      // State saved before disputes
+      m.dispute ??= "none";
+      m.disputeDeadline ??= m.timestamp + DISPUTE_WINDOW;
+    }
+    // State saved before seasons: everything so far is the current season
+    state.seasons ??= [];
+    state.seasonStartedAt ??= state.matches[0]?.timestamp ?? now();
+    for (const p of Object.values(state.players)) {
+      p.seasonWins ??= p.wins;
+      p.seasonLosses ??= p.losses;
+      p.seasonDraws ??= p.draws;
+    }
+    return state;
+  } catch {
+    return demoState();
+  }
+}
+
+function saveState(state: EngineState) {
+  if (typeof window === "undefined") return;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+}
+
+function involves(m: EngineMatch, address: string) {
+  const key = address.toLowerCase();
+  return m.participants.some((p) => p.player.toLowerCase() === key);
+}
+
+export const engineMockService: EngineService = {
+  async getTotals() {
+    await delay(300);
+    const state = loadState();
+    return { players: Object.keys(state.players).length, matches: state.matches.length };
+  },
+
+  async getPlayer(address: string): Promise<EnginePlayer> {
+    await delay(300);
+    const p = loadState().players[address.toLowerCase()] ?? newPlayer(address, 0, []);
+    const registered = p.elo > 0;
+    return {
+      address,
+      registered,
+      elo: p.elo,
+      peakElo: p.peakElo,
+      wins: p.wins,
+      losses: p.losses,
+      draws: p.draws,
+      totalMatches: p.totalMatches,
+      currentStreak: p.currentStreak,
+      longestStreak: p.longestStreak,
+      winRate: p.totalMatches > 0 ? Math.floor((p.wins * 10000) / p.totalMatches) / 100 : 0,
+    };
+  },
+
+  async getDomainElos(address: string) {
+    await delay(300);
+    return loadState().players[address.toLowerCase()]?.domainElo ?? {};
+  },
+
+  async getGlicko(address: string) {
+    await delay(300);
+    const p = loadState().players[address.toLowerCase()] ?? newPlayer(address, 0, []);
+    return { ...currentGlicko(p), rated: p.glicko !== undefined };
+  },
+
+  async getMatchHistory(player: string | null, page: number, pageSize: number) {
+    await delay(400);
+    const matches = loadState()
+      .matches.filter((m) => player === null || involves(m, player))
+      .reverse();
+    return { items: matches.slice(page * pageSize, (page + 1) * pageSize), total: matches.length };
+  },
+
+  async getRatingHistory(address: string): Promise<RatingPoint[]> {
+    await delay(400);
+    const key = address.toLowerCase();
+    const matches = loadState().matches.filter((m) => involves(m, address));
+    if (matches.length === 0) return [];
+    const side = (m: EngineMatch) => m.participants.find((p) => p.player.toLowerCase() === key)!;
+    return [
+      { matchId: null, timestamp: matches[0].timestamp, elo: side(matches[0]).eloBefore },
+      ...matches.map((m) => ({ matchId: m.id, timestamp: m.timestamp, elo: applyChange(side(m).eloBefore, side(m).eloChange) })),
+    ];
+  },
+
+  async simulateMatch(player1: string, player2: string, outcome: MatchOutcome) {
+    await delay(200);
+    const state = loadState();
+    const blank = newPlayer("", 0, []);
+    return simulate(state.players[player1.toLowerCase()] ?? blank, state.players[player2.toLowerCase()] ?? blank, outcome);
+  },
+
+  async isReporter(_address: string) {
+    // The demo can always report matches
+    return true;
+  },
+
+  async getSeasons() {
+    await delay(300);
+    return loadState().seasons.map((s) => s.season).reverse();
+  },
+
+  async getSeasonStandings(season: number) {
+    await delay(300);
+    const archived = loadState().seasons.find((s) => s.season.id === season);
+    if (!archived) throw new Error("Season not closed");
+    return archived.standings;
+  },
+
+  async registerPlayer(domains: string[]) {
+    await delay(1500);
+    const state = loadState();
+    const key = DEMO_SELF.toLowerCase();
+    if (state.players[key]) throw new Error("Already registered");
+    state.players[key] = newPlayer(DEMO_SELF, BASE_ELO, domains);
+    saveState(state);
+    return { txHash: randomHex(64), player: DEMO_SELF };
+  },
+
+  async recordMatch(player1: string, player2: string, outcome: MatchOutcome, domain: string) {
+    await delay(1500);
+    const state = loadState();
+    const match = record(state, player1, player2, outcome, domain, now());
+    saveState(state);
+    return { txHash: randomHex(64), matchId: match.id };
+  },
+
+  async disputeMatch(matchId: number) {
+    await delay(1500);
+    const state = loadState();
+    const match = state.matches[matchId];
+    if (!match) throw new Error("Match not found");
+    // The demo disputes on behalf of any player; there is no arbiter, so disputes stay open
+    if (now() > match.disputeDeadline) throw new Error("Dispute window closed");
+    if (matchId < state.seasons.reduce((n, s) => n + s.season.matchCount, 0)) throw new Error("Season closed");
+    if (match.dispute !== "none") throw new Error("Already disputed");
+    match.dispute = "open";
+    saveState(state);
+    return { txHash: randomHex(64) };
+  },
+};
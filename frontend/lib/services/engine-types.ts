@@ -0,0 +1,113 @@
+/** 1 = player1 wins, 2 = player2 wins, 3 = draw */
+export type MatchOutcome = 1 | 2 | 3;
+
+export interface EnginePlayer {
+  address: string;
+  registered: boolean;
+  elo: number;
+  peakElo: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  totalMatches: number;
+  currentStreak: number;
+  longestStreak: number;
+  /** Percent, 0-100 */
+  winRate: number;
+}
+
+/** Optional Glicko-2 rating, alongside ELO */
+export interface EngineGlicko {
+  rating: number;
+  /** Rating deviation, grows while the player is idle */
+  rd: number;
+  volatility: number;
+  /** False until the player's first match with Glicko-2 enabled */
+  rated: boolean;
+}
+
+/** Review state of a match; "none" until a player disputes it */
+export type MatchDisputeStatus = "none" | "open" | "dismissed" | "voided" | "corrected";
+
+/** One player's side of a match */
+export interface EngineParticipant {
+  player: string;
+  /** Team index; in a free-for-all every player is their own team */
+  team: number;
+  /** The team's finish: 1 = first, tied teams share a placement */
+  placement: number;
+  eloBefore: number;
+  eloChange: number;
+}
+
+export interface EngineMatch {
+  id: number;
+  /** 1v1 fields; zero for team and free-for-all matches */
+  player1: string;
+  player2: string;
+  /** 0 for team and free-for-all matches */
+  outcome: MatchOutcome | 0;
+  player1EloBefore: number;
+  player2EloBefore: number;
+  player1EloChange: number;
+  player2EloChange: number;
+  timestamp: number;
+  domain: string;
+  /** Every player, for 1v1 matches too */
+  participants: EngineParticipant[];
+  dispute: MatchDisputeStatus;
+  /** Players can dispute until this timestamp; 0 when the dispute window is unknown */
+  disputeDeadline: number;
+}
+
+export interface RatingPoint {
+  /** null for the rating before the first match */
+  matchId: number | null;
+  timestamp: number;
+  elo: number;
+}
+
+/** A closed rating season */
+export interface EngineSeason {
+  id: number;
+  startedAt: number;
+  endedAt: number;
+  matchCount: number;
+  /** How far ratings moved toward the base ELO at the close (bps, 10000 = full reset) */
+  resetBps: number;
+}
+
+/** A player's final line in a closed season */
+export interface SeasonStanding {
+  player: string;
+  /** 1 = highest final ELO */
+  rank: number;
+  /** Final ELO, before the soft reset */
+  elo: number;
+  peakElo: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  longestStreak: number;
+}
+
+export interface EngineService {
+  getTotals(): Promise<{ players: number; matches: number }>;
+  getPlayer(address: string): Promise<EnginePlayer>;
+  getDomainElos(address: string): Promise<Record<string, number>>;
+  getGlicko(address: string): Promise<EngineGlicko>;
+  /** Newest first; all matches when `player` is null */
+  getMatchHistory(player: string | null, page: number, pageSize: number): Promise<{ items: EngineMatch[]; total: number }>;
+  getRatingHistory(address: string): Promise<RatingPoint[]>;
+  simulateMatch(player1: string, player2: string, outcome: MatchOutcome): Promise<{ player1Change: number; player2Change: number }>;
+  isReporter(address: string): Promise<boolean>;
+  /** Closed seasons, newest first */
+  getSeasons(): Promise<EngineSeason[]>;
+  /** Final standings of a closed season, best first */
+  getSeasonStandings(season: number): Promise<SeasonStanding[]>;
+  /** Registers the connected account, returned as `player` */
+  registerPlayer(domains: string[]): Promise<{ txHash: string; player: string }>;
+  recordMatch(player1: string, player2: string, outcome: MatchOutcome, domain: string): Promise<{ txHash: string; matchId: number }>;
+  /** Flags a 1v1 match the connected account played for review by the owner or arbiter */
+  disputeMatch(matchId: number): Promise<{ txHash: string }>;
+}
@@ -1,5 +1,6 @@
-import { BrowserProvider, Contract, JsonRpcProvider, parseEther, formatEther, solidityPackedKeccak256, encodeBytes32String } from "ethers";
-import { HubService, Proposal, Market, Bounty, LeaderboardEntry, AggregateScore } from "./hub-types";
+import { BrowserProvider, Contract, JsonRpcProvider, ZeroAddress, parseEther, formatEther, solidityPackedKeccak256, encodeBytes32String } from "ethers";
+import { HubService, Proposal, Market, Bounty, LeaderboardEntry, AggregateScore, Groth16Calldata } from "./hub-types";
+import { SkillProofApiClient } from "./api-client";
 
 const HUB_ADDRESS = "0x3eBaD0A13fDe9808938a4eD4f2fE5d92c8b29Cc3";
 const REGISTRY_ADDRESS = "0xa855e8E15C9F350438065D19a73565ea1A23E33A";
@@ -8,10 +9,18 @@ const DECAY_ADDRESS = "0x20d0A539e0A49991876CDb2004FeA41AFE1C089E";
 const AGGREGATOR_ADDRESS = "0x919473044Dde9b3eb69161C4a35eFfb995a234bB";
 const COSTON2_RPC = "https://coston2-api.flare.network/ext/C/rpc";
 
+// When set, list/detail reads and the leaderboard come from the indexed read
+// API (scripts/serve-api.ts) instead of per-item RPC calls. Writes always go
+// through the wallet.
+const API_URL = process.env.NEXT_PUBLIC_SKILLPROOF_API_URL;
+const api = API_URL ? new SkillProofApiClient(API_URL) : null;
+
 const ZK_VERIFIER_ABI = [
   "function zkVerificationCount() view returns (uint256)",
   "function zkVerifiedAboveThreshold(address) view returns (bool)",
   "function zkVerifiedThreshold(address) view returns (uint256)",
+  "function verifyThresholdZK(uint256[2] _pA, uint256[2][2] _pB, uint256[2] _pC, uint256[3] _pubSignals) external payable returns (bool)",
+  "function verificationFee(address user) view returns (uint256)",
 ];
 
 const DECAY_ABI = [
@@ -44,7 +53,7 @@ const HUB_ABI = [
   "function proposalCount() external view returns (uint256)",
   "function hasVoted(uint256, address) external view returns (bool)",
   // Predict
-  "function createMarket(string question, bytes21 feedId, int256 targetPrice, uint256 commitDeadline, uint256 revealDeadline) external",
+  "function createMarket(string question, bytes21 feedId, int256 targetPrice, uint256 commitDeadline, uint256 revealDeadline) external payable",
   "function commitPrediction(uint256 marketId, bytes32 commitHash) external",
   "function revealPrediction(uint256 marketId, bool prediction, bytes32 salt) external",
   "function resolveMarket(uint256 marketId) external",
@@ -66,6 +75,9 @@ const HUB_ABI = [
   "function participantCount() external view returns (uint256)",
   "function getLeaderboard(uint256 start, uint256 count) external view returns (address[])",
   "function isParticipant(address) external view returns (bool)",
+  // Fees
+  "function marketFee(address creator) external view returns (uint256)",
+  "function bountyCommission(uint256 bountyId, address winner) external view returns (uint256)",
 ];
 
 function getReadProvider() {
@@ -89,6 +101,15 @@ function getReadContract() {
   return new Contract(HUB_ADDRESS, HUB_ABI, provider);
 }
 
+/** Fee views don't exist on pre-treasury deployments — treat those as free */
+async function readFee(quote: Promise<bigint>): Promise<bigint> {
+  try {
+    return await quote;
+  } catch {
+    return BigInt(0);
+  }
+}
+
 function getRegistryReadContract() {
   const provider = getReadProvider();
   return new Contract(REGISTRY_ADDRESS, REGISTRY_ABI, provider);
@@ -142,6 +163,19 @@ export const hubContractService: HubService = {
   },
 
   async getProposal(proposalId: number): Promise<Proposal> {
+    if (api) {
+      const p = await api.getProposal(proposalId);
+      if (!p) throw new Error(`Proposal ${proposalId} not found`);
+      return {
+        id: p.id,
+        description: p.description,
+        deadline: p.deadline,
+        yesWeight: p.yesWeight,
+        noWeight: p.noWeight,
+        executed: false,
+        proposer: p.proposer,
+      };
+    }
     const hub = getReadContract();
     const p = await hub.getProposal(proposalId);
     return {
@@ -156,6 +190,7 @@ export const hubContractService: HubService = {
   },
 
   async getProposalCount() {
+    if (api) return (await api.getStatus()).counts.proposals;
     const hub = getReadContract();
     return Number(await hub.proposalCount());
   },
@@ -174,8 +209,9 @@ export const hubContractService: HubService = {
     commitDeadline: number,
     revealDeadline: number,
   ) {
-    const { hub } = await getSignerAndContract();
-    const tx = await hub.createMarket(question, feedId, targetPrice, commitDeadline, revealDeadline);
+    const { hub, signer } = await getSignerAndContract();
+    const fee = await readFee(hub.marketFee(await signer.getAddress()));
+    const tx = await hub.createMarket(question, feedId, targetPrice, commitDeadline, revealDeadline, { value: fee });
     const receipt = await tx.wait();
     const count = await hub.marketCount();
     return { txHash: receipt.hash, marketId: Number(count) - 1 };
@@ -207,6 +243,21 @@ export const hubContractService: HubService = {
   },
 
   async getMarket(marketId: number): Promise<Market> {
+    if (api) {
+      const m = await api.getMarket(marketId);
+      if (!m) throw new Error(`Market ${marketId} not found`);
+      return {
+        id: m.id,
+        question: m.question,
+        feedId: m.feedId,
+        targetPrice: BigInt(m.targetPrice),
+        commitDeadline: m.commitDeadline,
+        revealDeadline: m.revealDeadline,
+        resolved: m.resolved,
+        actualPrice: BigInt(m.actualPrice),
+        creator: m.creator,
+      };
+    }
     const hub = getReadContract();
     const m = await hub.markets(marketId);
     return {
@@ -223,6 +274,7 @@ export const hubContractService: HubService = {
   },
 
   async getMarketCount() {
+    if (api) return (await api.getStatus()).counts.markets;
     const hub = getReadContract();
     return Number(await hub.marketCount());
   },
@@ -270,6 +322,20 @@ export const hubContractService: HubService = {
   },
 
   async getBounty(bountyId: number): Promise<Bounty> {
+    if (api) {
+      const b = await api.getBounty(bountyId);
+      if (!b) throw new Error(`Bounty ${bountyId} not found`);
+      return {
+        id: b.id,
+        description: b.description,
+        poster: b.poster,
+        reward: formatEther(b.reward),
+        commitDeadline: b.commitDeadline,
+        deadline: b.deadline,
+        awarded: b.awarded,
+        winner: b.winner ?? ZeroAddress,
+      };
+    }
     const hub = getReadContract();
     const b = await hub.bounties(bountyId);
     return {
@@ -285,6 +351,7 @@ export const hubContractService: HubService = {
   },
 
   async getBountyCount() {
+    if (api) return (await api.getStatus()).counts.bounties;
     const hub = getReadContract();
     return Number(await hub.bountyCount());
   },
@@ -307,6 +374,23 @@ export const hubContractService: HubService = {
   },
 
   async getLeaderboardData(): Promise<LeaderboardEntry[]> {
+    if (api) {
+      const page = await api.getLeaderboard({ sort: "effective", limit: 200 });
+      return page.items.map((e) => ({
+        address: e.address,
+        playerName: e.playerName,
+        overallElo: e.overallElo,
+        effectiveElo: e.effectiveElo,
+        reputationBonus: e.reputationBonus,
+        percentile: e.percentile,
+        issuer: e.issuerName ?? e.issuer.slice(0, 6) + "...",
+        issuerAddress: e.issuer,
+        totalMatches: e.totalMatches,
+        winRate: e.winRate,
+        skillDomains: e.skillDomains,
+      }));
+    }
+
     const hub = getReadContract();
     const registry = getRegistryReadContract();
 
@@ -362,6 +446,7 @@ export const hubContractService: HubService = {
           reputationBonus: rep,
           percentile: Number(cred.percentile),
           issuer: issuerName,
+          issuerAddress: cred.issuer,
           totalMatches: Number(cred.totalMatches),
           winRate: Number(cred.winRate),
           skillDomains: [...cred.skillDomains],
@@ -394,6 +479,22 @@ export const hubContractService: HubService = {
     return Number(await zk.zkVerifiedThreshold(address));
   },
 
+  async getCredentialElo(address: string) {
+    const registry = getRegistryReadContract();
+    const cred = await registry.getCredential(address);
+    if (!cred.isValid) throw new Error("No valid credential for this wallet");
+    return Number(cred.overallElo);
+  },
+
+  async submitZKProof(calldata: Groth16Calldata) {
+    const { signer } = await getSignerAndContract();
+    const zk = new Contract(ZK_VERIFIER_ADDRESS, ZK_VERIFIER_ABI, signer);
+    const fee = await readFee(zk.verificationFee(await signer.getAddress()));
+    const tx = await zk.verifyThresholdZK(calldata.pA, calldata.pB, calldata.pC, calldata.pubSignals, { value: fee });
+    const receipt = await tx.wait();
+    return { txHash: receipt.hash };
+  },
+
   // ── Decay ────────────────────────────────────────────────────────────────
 
   async getDecayMultiplier(address: string) {
@@ -430,4 +531,19 @@ export const hubContractService: HubService = {
       overallScore: Number(score.overallScore),
     };
   },
+
+  // ── Fees ─────────────────────────────────────────────────────────────────
+
+  async getMarketFee(address: string) {
+    return formatEther(await readFee(getReadContract().marketFee(address)));
+  },
+
+  async getBountyCommission(bountyId: number, winner: string) {
+    return formatEther(await readFee(getReadContract().bountyCommission(bountyId, winner)));
+  },
+
+  async getZKVerificationFee(address: string) {
+    const zk = new Contract(ZK_VERIFIER_ADDRESS, ZK_VERIFIER_ABI, getReadProvider());
+    return formatEther(await readFee(zk.verificationFee(address)));
+  },
 };
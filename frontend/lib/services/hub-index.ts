@@ -6,4 +6,4 @@ export function getHubService(demoMode: boolean): HubService {
   return demoMode ? hubMockService : hubContractService;
 }
 
-export type { HubService, Proposal, Market, Bounty, LeaderboardEntry, AggregateScore } from "./hub-types";
+export type { HubService, Proposal, Market, Bounty, LeaderboardEntry, AggregateScore, Groth16Calldata } from "./hub-types";
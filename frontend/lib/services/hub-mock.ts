@@ -1,6 +1,10 @@
-import { HubService, Proposal, Market, Bounty, LeaderboardEntry, AggregateScore } from "./hub-types";
+import { HubService, Proposal, Market, Bounty, LeaderboardEntry, AggregateScore, Groth16Calldata } from "./hub-types";
 
 const STORAGE_KEY = "skillproof_hub";
+// Mirrors the fee schedule in scripts/deploy-treasury.ts
+const MARKET_FEE = "0.05";
+const ZK_VERIFICATION_FEE = "0.005";
+const BOUNTY_COMMISSION_BPS = 500;
 const delay = (ms: number) => new Promise((r) => setTimeout(r, ms));
 const randomHex = (len: number) =>
   "0x" +
@@ -387,6 +391,7 @@ export const hubMockService: HubService = {
         reputationBonus: 15,
         percentile: 99,
         issuer: "ChessArena",
+        issuerAddress: "0x976EA74026E726554dB657fA54763abd0C3a0aa9",
         totalMatches: 312,
         winRate: 74,
         skillDomains: ["opening-theory", "endgame", "tactics", "positional-play"],
@@ -399,6 +404,7 @@ export const hubMockService: HubService = {
         reputationBonus: 10,
         percentile: 96,
         issuer: "FinCraft",
+        issuerAddress: "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266",
         totalMatches: 342,
         winRate: 64,
         skillDomains: ["Options Pricing", "Statistical Arbitrage", "Risk Management", "Portfolio Optimization", "Market Microstructure"],
@@ -411,6 +417,7 @@ export const hubMockService: HubService = {
         reputationBonus: 0,
         percentile: 74,
         issuer: "FinCraft",
+        issuerAddress: "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266",
         totalMatches: 187,
         winRate: 58,
         skillDomains: ["Options Pricing", "Statistical Arbitrage", "Risk Management", "Portfolio Optimization", "Market Microstructure"],
@@ -423,6 +430,7 @@ export const hubMockService: HubService = {
         reputationBonus: -5,
         percentile: 58,
         issuer: "ChessArena",
+        issuerAddress: "0x976EA74026E726554dB657fA54763abd0C3a0aa9",
         totalMatches: 87,
         winRate: 51,
         skillDomains: ["opening-theory", "tactics", "blitz"],
@@ -448,6 +456,16 @@ export const hubMockService: HubService = {
     return 1500;
   },
 
+  async getCredentialElo(_address: string) {
+    await delay(300);
+    return 1847;
+  },
+
+  async submitZKProof(_calldata: Groth16Calldata) {
+    await delay(800);
+    return { txHash: randomHex(64) };
+  },
+
   // ── Decay ────────────────────────────────────────────────────────────────
 
   async getDecayMultiplier(_address: string) {
@@ -479,4 +497,20 @@ export const hubMockService: HubService = {
       overallScore: 1785,
     };
   },
+
+  // ── Fees ─────────────────────────────────────────────────────────────────
+
+  async getMarketFee(_address: string) {
+    return MARKET_FEE;
+  },
+
+  async getBountyCommission(bountyId: number, _winner: string) {
+    const b = loadState().bounties[bountyId];
+    if (!b) throw new Error("Bounty does not exist");
+    return String((parseFloat(b.reward) * BOUNTY_COMMISSION_BPS) / 10000);
+  },
+
+  async getZKVerificationFee(_address: string) {
+    return ZK_VERIFICATION_FEE;
+  },
 };
@@ -38,7 +38,9 @@ export interface LeaderboardEntry {
   effectiveElo: number;
   reputationBonus: number;
   percentile: number;
+  /** Issuer name, or a truncated address when unnamed */
   issuer: string;
+  issuerAddress: string;
   totalMatches: number;
   winRate: number;
   skillDomains: string[];
@@ -54,6 +56,14 @@ export interface AggregateScore {
   overallScore: number;
 }
 
+/** Groth16 proof formatted for `SkillProofZKVerifier.verifyThresholdZK` */
+export interface Groth16Calldata {
+  pA: [string, string];
+  pB: [[string, string], [string, string]];
+  pC: [string, string];
+  pubSignals: [string, string, string];
+}
+
 export interface HubService {
   // Vault
   deposit(amount: string): Promise<{ txHash: string }>;
@@ -107,6 +117,8 @@ export interface HubService {
   getZKVerificationCount(): Promise<number>;
   isZKVerified(address: string): Promise<boolean>;
   getZKVerifiedThreshold(address: string): Promise<number>;
+  getCredentialElo(address: string): Promise<number>;
+  submitZKProof(calldata: Groth16Calldata): Promise<{ txHash: string }>;
 
   // Decay
   getDecayMultiplier(address: string): Promise<number>;
@@ -115,4 +127,9 @@ export interface HubService {
 
   // Aggregator
   getAggregateScore(address: string): Promise<AggregateScore>;
+
+  // Fees (in C2FLR, "0" when no treasury is wired or the account is exempt)
+  getMarketFee(address: string): Promise<string>;
+  getBountyCommission(bountyId: number, winner: string): Promise<string>;
+  getZKVerificationFee(address: string): Promise<string>;
 }
@@ -0,0 +1,101 @@
+import { BrowserProvider, Contract, EventLog, JsonRpcProvider, formatEther, parseEther } from "ethers";
+import { SlashRecord, StakingService } from "./staking-types";
+
+const STAKING_ADDRESS = "0xc9c6837759c769CCA40661285e5633727A1EbDDD";
+const COSTON2_RPC = "https://coston2-api.flare.network/ext/C/rpc";
+const LOCK_PERIOD = 7 * 86400;
+
+// Slash history scans `Slashed` logs. Set the Staking deployment block to
+// cover its full history; otherwise only the most recent LOG_LOOKBACK blocks
+// are scanned.
+const FROM_BLOCK = process.env.NEXT_PUBLIC_SKILLPROOF_STAKING_FROM_BLOCK;
+const LOG_LOOKBACK = 10000;
+const LOG_CHUNK = 500;
+
+const STAKING_ABI = [
+  "function stake(string issuerName) external payable",
+  "function increaseStake() external payable",
+  "function unstake() external",
+  "function getStake(address issuer) view returns (tuple(uint256 amount, uint256 stakedAt, bool isActive, uint256 slashCount, string issuerName))",
+  "function isValidIssuer(address issuer) view returns (bool)",
+  "function minimumStake() view returns (uint256)",
+  "event Slashed(address indexed issuer, uint256 amount, string reason)",
+];
+
+function getReadContract() {
+  return new Contract(STAKING_ADDRESS, STAKING_ABI, new JsonRpcProvider(COSTON2_RPC));
+}
+
+async function getSignerAndContract() {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const eth = (window as any).ethereum;
+  if (typeof window === "undefined" || !eth) {
+    throw new Error("MetaMask not found — connect your wallet first");
+  }
+  const provider = new BrowserProvider(eth);
+  const signer = await provider.getSigner();
+  const staking = new Contract(STAKING_ADDRESS, STAKING_ABI, signer);
+  return { staking, signer };
+}
+
+async function send(method: string, args: unknown[], value?: string) {
+  const { staking } = await getSignerAndContract();
+  const tx = await staking[method](...args, ...(value ? [{ value: parseEther(value) }] : []));
+  const receipt = await tx.wait();
+  return { txHash: receipt.hash as string };
+}
+
+export const stakingContractService: StakingService = {
+  async getStakeInfo(issuer: string) {
+    const staking = getReadContract();
+    const [s, valid, minimum] = await Promise.all([
+      staking.getStake(issuer),
+      staking.isValidIssuer(issuer),
+      staking.minimumStake(),
+    ]);
+    return {
+      issuerName: s.issuerName,
+      amount: formatEther(s.amount),
+      minimumStake: formatEther(minimum),
+      stakedAt: Number(s.stakedAt),
+      unlocksAt: s.isActive ? Number(s.stakedAt) + LOCK_PERIOD : 0,
+      active: s.isActive,
+      valid,
+      slashCount: Number(s.slashCount),
+    };
+  },
+
+  async getSlashHistory(issuer: string) {
+    const staking = getReadContract();
+    const provider = staking.runner as JsonRpcProvider;
+    const head = await provider.getBlockNumber();
+    const from = FROM_BLOCK ? Number(FROM_BLOCK) : Math.max(0, head - LOG_LOOKBACK);
+    const logs: EventLog[] = [];
+    for (let start = from; start <= head; start += LOG_CHUNK) {
+      const end = Math.min(start + LOG_CHUNK - 1, head);
+      const chunk = await staking.queryFilter(staking.filters.Slashed(issuer), start, end);
+      logs.push(...chunk.filter((l): l is EventLog => l instanceof EventLog));
+    }
+    return Promise.all(
+      logs.map(async (l): Promise<SlashRecord> => ({
+        amount: formatEther(l.args.amount),
+        reason: l.args.reason,
+        blockNumber: l.blockNumber,
+        timestamp: (await l.getBlock()).timestamp,
+        txHash: l.transactionHash,
+      }))
+    );
+  },
+
+  async stake(issuerName: string, amount: string) {
+    return send("stake", [issuerName], amount);
+  },
+
+  async increaseStake(amount: string) {
+    return send("increaseStake", [], amount);
+  },
+
+  async unstake() {
+    return send("unstake", []);
+  },
+};
@@ -0,0 +1,9 @@
+import { StakingService } from "./staking-types";
+import { stakingMockService } from "./staking-mock";
+import { stakingContractService } from "./staking-contract";
+
+export function getStakingService(demoMode: boolean): StakingService {
+  return demoMode ? stakingMockService : stakingContractService;
+}
+
+export type { StakingService, StakeInfo, SlashRecord } from "./staking-types";
@@ -0,0 +1,151 @@
+import { SlashRecord, StakeInfo, StakingService } from "./staking-types";
+
+const STORAGE_KEY = "skillproof_staking";
+// The mock acts as this issuer (FinCraft) for writes
+const DEMO_ISSUER = "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266";
+const CHESS_ARENA = "0x976EA74026E726554dB657fA54763abd0C3a0aa9";
+const MINIMUM_STAKE = 0.1;
+const LOCK_PERIOD = 7 * 86400;
+
+const delay = (ms: number) => new Promise((r) => setTimeout(r, ms));
+const now = () => Math.floor(Date.now() / 1000);
+const randomHex = (len: number) =>
+  "0x" +
+  Array.from({ length: len }, () =>
+    Math.floor(Math.random() * 16).toString(16)
+  ).join("");
+
+interface MockStake {
+  issuerName: string;
+  amount: number;
+  stakedAt: number;
+  active: boolean;
+  /** On-chain counter — reset by a fresh `stake` */
+  slashCount: number;
+  /** `Slashed` events — never reset */
+  slashes: SlashRecord[];
+}
+
+type StakingState = Record<string, MockStake>;
+
+function demoState(): StakingState {
+  return {
+    [DEMO_ISSUER.toLowerCase()]: {
+      issuerName: "FinCraft",
+      amount: 0.25,
+      stakedAt: now() - 3 * 86400,
+      active: true,
+      slashCount: 0,
+      slashes: [],
+    },
+    [CHESS_ARENA.toLowerCase()]: {
+      issuerName: "ChessArena",
+      amount: 0.05,
+      stakedAt: now() - 40 * 86400,
+      active: false,
+      slashCount: 1,
+      slashes: [
+        {
+          amount: "0.05",
+          reason: "Dispute #1 upheld: fabricated tournament results",
+          blockNumber: 18822190,
+          timestamp: now() - 5 * 86400,
+          txHash: "0x3b2a19f0c8d7e6a5b4c3d2e1f0a9b8c7d6e5f4a3b2c1d0e9f8a7b6c5d4e3f2a1",
+        },
+      ],
+    },
+  };
+}
+
+function loadState(): StakingState {
+  if (typeof window === "undefined") return demoState();
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : demoState();
+  } catch {
+    return demoState();
+  }
+}
+
+function saveState(state: StakingState) {
+  if (typeof window === "undefined") return;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+}
+
+function toInfo(s: MockStake | undefined): StakeInfo {
+  if (!s) {
+    return {
+      issuerName: "",
+      amount: "0",
+      minimumStake: String(MINIMUM_STAKE),
+      stakedAt: 0,
+      unlocksAt: 0,
+      active: false,
+      valid: false,
+      slashCount: 0,
+    };
+  }
+  return {
+    issuerName: s.issuerName,
+    amount: String(s.amount),
+    minimumStake: String(MINIMUM_STAKE),
+    stakedAt: s.stakedAt,
+    unlocksAt: s.active ? s.stakedAt + LOCK_PERIOD : 0,
+    active: s.active,
+    valid: s.active && s.amount >= MINIMUM_STAKE,
+    slashCount: s.slashCount,
+  };
+}
+
+export const stakingMockService: StakingService = {
+  async getStakeInfo(issuer: string) {
+    await delay(300);
+    return toInfo(loadState()[issuer.toLowerCase()]);
+  },
+
+  async getSlashHistory(issuer: string) {
+    await delay(300);
+    return loadState()[issuer.toLowerCase()]?.slashes ?? [];
+  },
+
+  async stake(issuerName: string, amount: string) {
+    await delay(1500);
+    if (parseFloat(amount) < MINIMUM_STAKE) throw new Error("Below minimum stake");
+    const state = loadState();
+    const key = DEMO_ISSUER.toLowerCase();
+    if (state[key]?.active) throw new Error("Already staked");
+    state[key] = {
+      issuerName,
+      amount: parseFloat(amount),
+      stakedAt: now(),
+      active: true,
+      slashCount: 0,
+      slashes: state[key]?.slashes ?? [],
+    };
+    saveState(state);
+    return { txHash: randomHex(64) };
+  },
+
+  async increaseStake(amount: string) {
+    await delay(1500);
+    const state = loadState();
+    const s = state[DEMO_ISSUER.toLowerCase()];
+    if (!s?.active) throw new Error("Not staked");
+    if (!(parseFloat(amount) > 0)) throw new Error("Must send value");
+    s.amount += parseFloat(amount);
+    saveState(state);
+    return { txHash: randomHex(64) };
+  },
+
+  async unstake() {
+    await delay(1500);
+    const state = loadState();
+    const s = state[DEMO_ISSUER.toLowerCase()];
+    if (!s?.active) throw new Error("Not staked");
+    if (now() < s.stakedAt + LOCK_PERIOD) throw new Error("Lock period not elapsed");
+    s.amount = 0;
+    s.active = false;
+    saveState(state);
+    return { txHash: randomHex(64) };
+  },
+};
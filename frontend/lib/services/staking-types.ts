@@ -0,0 +1,30 @@
+/** Amounts are in C2FLR */
+export interface StakeInfo {
+  issuerName: string;
+  amount: string;
+  minimumStake: string;
+  /** 0 if never staked */
+  stakedAt: number;
+  /** When `unstake` becomes possible, 0 if not staked */
+  unlocksAt: number;
+  active: boolean;
+  /** Active and at or above the minimum stake */
+  valid: boolean;
+  slashCount: number;
+}
+
+export interface SlashRecord {
+  amount: string;
+  reason: string;
+  blockNumber: number;
+  timestamp: number;
+  txHash: string;
+}
+
+export interface StakingService {
+  getStakeInfo(issuer: string): Promise<StakeInfo>;
+  getSlashHistory(issuer: string): Promise<SlashRecord[]>;
+  stake(issuerName: string, amount: string): Promise<{ txHash: string }>;
+  increaseStake(amount: string): Promise<{ txHash: string }>;
+  unstake(): Promise<{ txHash: string }>;
+}
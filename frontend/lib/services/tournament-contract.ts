@@ -0,0 +1,191 @@
+import { BrowserProvider, Contract, JsonRpcProvider, ZeroAddress, formatEther, parseEther } from "ethers";
+import { MatchOutcome } from "./engine-types";
+import {
+  CreateTournamentParams,
+  Tournament,
+  TournamentBracket,
+  TournamentFormat,
+  TournamentService,
+  TournamentStatus,
+} from "./tournament-types";
+
+// SkillProofTournaments is not on Coston2 yet — set the address printed by
+// scripts/deploy-tournaments.ts.
+const TOURNAMENTS_ADDRESS = process.env.NEXT_PUBLIC_SKILLPROOF_TOURNAMENTS_ADDRESS;
+const COSTON2_RPC = "https://coston2-api.flare.network/ext/C/rpc";
+
+const FORMATS: TournamentFormat[] = ["single-elimination", "double-elimination", "swiss"];
+const STATUSES: TournamentStatus[] = ["registration", "active", "completed", "cancelled"];
+const BRACKETS: TournamentBracket[] = ["winners", "losers", "grand-final"];
+
+/** A `getPairings` entry as ethers decodes it */
+interface PairingStruct {
+  round: bigint;
+  bracket: bigint;
+  player1: string;
+  player2: string;
+  outcome: bigint;
+  engineMatchId: bigint;
+}
+
+const TOURNAMENTS_ABI = [
+  "function createTournament(string name, uint8 format, string domain, uint256 entryFee, uint256 maxPlayers, uint256 rounds, uint256[] payoutBps) external returns (uint256)",
+  "function join(uint256 id) external payable",
+  "function start(uint256 id) external",
+  "function reportResult(uint256 id, uint256 pairing, uint8 outcome) external",
+  "function cancel(uint256 id) external",
+  "function claim() external",
+  "function getTournament(uint256 id) external view returns (tuple(uint256 id, string name, string domain, uint8 format, uint8 status, address organizer, uint256 entryFee, uint256 prizePool, uint256 maxPlayers, uint256 rounds, uint256 currentRound, uint256[] payoutBps, address champion, uint256 createdAt, uint256 completedAt))",
+  "function getPlayers(uint256 id) external view returns (address[])",
+  "function getPairings(uint256 id) external view returns (tuple(uint256 round, uint8 bracket, address player1, address player2, uint8 outcome, uint256 engineMatchId)[])",
+  "function getEntrant(uint256 id, address player) external view returns (tuple(bool joined, uint256 seed, uint256 eloAtStart, uint256 losses, uint256 points, bool hadBye, uint256 eliminatedRound, uint256 place, uint256 prize))",
+  "function tournamentCount() external view returns (uint256)",
+  "function claimable(address account) external view returns (uint256)",
+  "event TournamentCreated(uint256 indexed id, address indexed organizer, uint8 format, string name, string domain, uint256 entryFee, uint256 maxPlayers)",
+  "event ResultReported(uint256 indexed id, uint256 indexed pairing, uint8 outcome, uint256 engineMatchId)",
+];
+
+function requireAddress(): string {
+  if (!TOURNAMENTS_ADDRESS) {
+    throw new Error("SkillProofTournaments not configured — set NEXT_PUBLIC_SKILLPROOF_TOURNAMENTS_ADDRESS");
+  }
+  return TOURNAMENTS_ADDRESS;
+}
+
+function getReadContract() {
+  return new Contract(requireAddress(), TOURNAMENTS_ABI, new JsonRpcProvider(COSTON2_RPC));
+}
+
+async function getSignerAndContract() {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const eth = (window as any).ethereum;
+  if (typeof window === "undefined" || !eth) {
+    throw new Error("MetaMask not found — connect your wallet first");
+  }
+  const provider = new BrowserProvider(eth);
+  const signer = await provider.getSigner();
+  const tournaments = new Contract(requireAddress(), TOURNAMENTS_ABI, signer);
+  return { tournaments, signer };
+}
+
+async function send(method: string, ...args: unknown[]) {
+  const { tournaments } = await getSignerAndContract();
+  const tx = await tournaments[method](...args);
+  const receipt = await tx.wait();
+  return { txHash: receipt.hash as string, receipt };
+}
+
+async function loadTournament(tournaments: Contract, id: number): Promise<Tournament> {
+  const [t, players, pairings] = await Promise.all([
+    tournaments.getTournament(id),
+    tournaments.getPlayers(id),
+    tournaments.getPairings(id),
+  ]);
+  const entrants = await Promise.all((players as string[]).map((p) => tournaments.getEntrant(id, p)));
+
+  return {
+    id,
+    name: t.name,
+    domain: t.domain,
+    format: FORMATS[Number(t.format)],
+    status: STATUSES[Number(t.status)],
+    organizer: t.organizer,
+    entryFee: formatEther(t.entryFee),
+    prizePool: formatEther(t.prizePool),
+    maxPlayers: Number(t.maxPlayers),
+    rounds: Number(t.rounds),
+    currentRound: Number(t.currentRound),
+    payoutBps: t.payoutBps.map(Number),
+    champion: t.champion === ZeroAddress ? null : t.champion,
+    createdAt: Number(t.createdAt),
+    completedAt: Number(t.completedAt) === 0 ? null : Number(t.completedAt),
+    entrants: entrants.map((e, i) => ({
+      player: players[i],
+      seed: Number(e.seed),
+      eloAtStart: Number(e.eloAtStart),
+      losses: Number(e.losses),
+      points: Number(e.points),
+      hadBye: e.hadBye,
+      eliminatedRound: Number(e.eliminatedRound),
+      place: Number(e.place) === 0 ? null : Number(e.place),
+      prize: formatEther(e.prize),
+    })),
+    pairings: (pairings as PairingStruct[]).map((p, index) => {
+      const bye = p.player2 === ZeroAddress;
+      return {
+        index,
+        round: Number(p.round),
+        bracket: BRACKETS[Number(p.bracket)],
+        player1: p.player1,
+        player2: bye ? null : p.player2,
+        outcome: Number(p.outcome) === 0 ? null : (Number(p.outcome) as MatchOutcome),
+        engineMatchId: bye || Number(p.outcome) === 0 ? null : Number(p.engineMatchId),
+      };
+    }),
+  };
+}
+
+export const tournamentContractService: TournamentService = {
+  async getTournaments() {
+    const tournaments = getReadContract();
+    const count = Number(await tournaments.tournamentCount());
+    return Promise.all(Array.from({ length: count }, (_, id) => loadTournament(tournaments, id)));
+  },
+
+  async getClaimable(address: string) {
+    return formatEther(await getReadContract().claimable(address));
+  },
+
+  async createTournament(params: CreateTournamentParams) {
+    const { txHash, receipt } = await send(
+      "createTournament",
+      params.name,
+      FORMATS.indexOf(params.format),
+      params.domain,
+      parseEther(params.entryFee || "0"),
+      params.maxPlayers,
+      params.format === "swiss" ? params.rounds : 0,
+      params.payoutBps
+    );
+    const iface = getReadContract().interface;
+    const created = receipt.logs
+      .map((log: { topics: string[]; data: string }) => iface.parseLog(log))
+      .find((e: { name: string } | null) => e?.name === "TournamentCreated");
+    return { txHash, tournamentId: Number(created?.args.id) };
+  },
+
+  async joinTournament(id: number) {
+    const { tournaments } = await getSignerAndContract();
+    const { entryFee } = await tournaments.getTournament(id);
+    const tx = await tournaments.join(id, { value: entryFee });
+    const receipt = await tx.wait();
+    return { txHash: receipt.hash };
+  },
+
+  async startTournament(id: number) {
+    const { txHash } = await send("start", id);
+    return { txHash };
+  },
+
+  async reportResult(id: number, pairing: number, outcome: MatchOutcome) {
+    const { txHash, receipt } = await send("reportResult", id, pairing, outcome);
+    const iface = getReadContract().interface;
+    const reported = receipt.logs
+      .map((log: { topics: string[]; data: string }) => iface.parseLog(log))
+      .find((e: { name: string } | null) => e?.name === "ResultReported");
+    return { txHash, engineMatchId: Number(reported?.args.engineMatchId) };
+  },
+
+  async cancelTournament(id: number) {
+    const { txHash } = await send("cancel", id);
+    return { txHash };
+  },
+
+  async claimWinnings() {
+    const { tournaments, signer } = await getSignerAndContract();
+    const amount = await tournaments.claimable(await signer.getAddress());
+    const tx = await tournaments.claim();
+    const receipt = await tx.wait();
+    return { txHash: receipt.hash, amount: formatEther(amount) };
+  },
+};
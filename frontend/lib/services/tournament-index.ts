@@ -0,0 +1,18 @@
+import { TournamentService } from "./tournament-types";
+import { tournamentMockService } from "./tournament-mock";
+import { tournamentContractService } from "./tournament-contract";
+
+export function getTournamentService(demoMode: boolean): TournamentService {
+  return demoMode ? tournamentMockService : tournamentContractService;
+}
+
+export type {
+  TournamentService,
+  Tournament,
+  TournamentBracket,
+  TournamentEntrant,
+  TournamentFormat,
+  TournamentPairing,
+  TournamentStatus,
+  CreateTournamentParams,
+} from "./tournament-types";
@@ -0,0 +1,210 @@
+import { reportResult, startTournament } from "@/lib/tournament";
+import { engineMockService } from "./engine-mock";
+import { MatchOutcome } from "./engine-types";
+import { CreateTournamentParams, Tournament, TournamentEntrant, TournamentService } from "./tournament-types";
+
+const STORAGE_KEY = "skillproof_tournaments";
+// Demo writes act as the Engine demo's account, which the demo also treats as the organizer
+const DEMO_SELF = "0xa0Ee7A142d267C1f36714E4a8F75612F20a79720";
+const DAY = 86400;
+
+const LEON = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+const ALEX = "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC";
+const MARIA = "0x15d34AAf54267DB7D7c367839AAf71A00a2C6A65";
+const RAJ = "0x9965507D1a55bcC2695C58ba16FB37d819B0A4dc";
+
+const delay = (ms: number) => new Promise((r) => setTimeout(r, ms));
+const now = () => Math.floor(Date.now() / 1000);
+const randomHex = (len: number) =>
+  "0x" +
+  Array.from({ length: len }, () =>
+    Math.floor(Math.random() * 16).toString(16)
+  ).join("");
+
+interface TournamentState {
+  tournaments: Tournament[];
+  claimable: Record<string, number>;
+}
+
+function newEntrant(player: string): TournamentEntrant {
+  return { player, seed: 0, eloAtStart: 0, losses: 0, points: 0, hadBye: false, eliminatedRound: 0, place: null, prize: "0" };
+}
+
+function newTournament(id: number, params: CreateTournamentParams, players: string[], createdAt: number): Tournament {
+  return {
+    id,
+    ...params,
+    status: "registration",
+    organizer: DEMO_SELF,
+    prizePool: String(Number(params.entryFee) * players.length),
+    currentRound: 0,
+    champion: null,
+    createdAt,
+    completedAt: null,
+    entrants: players.map(newEntrant),
+    pairings: [],
+  };
+}
+
+// Demo ratings at the time the scripted tournaments started
+const DEMO_ELOS: Record<string, number> = {
+  [LEON.toLowerCase()]: 1500,
+  [ALEX.toLowerCase()]: 1420,
+  [MARIA.toLowerCase()]: 1650,
+  [RAJ.toLowerCase()]: 1380,
+};
+
+function demoState(): TournamentState {
+  const players = [LEON, ALEX, MARIA, RAJ];
+  const cup = newTournament(
+    0,
+    { name: "Derivatives Cup", format: "single-elimination", domain: "derivatives", entryFee: "1", maxPlayers: 4, rounds: 0, payoutBps: [7000, 3000] },
+    players,
+    now() - DAY * 40
+  );
+  // Results of the Engine demo's first three matches
+  startTournament(cup, DEMO_ELOS);
+  reportResult(cup, 0, 1, 1);
+  reportResult(cup, 1, 1, 0);
+  reportResult(cup, 2, 1, 2);
+
+  const ladder = newTournament(
+    1,
+    { name: "Risk Ladder", format: "swiss", domain: "risk-management", entryFee: "0.5", maxPlayers: 8, rounds: 3, payoutBps: [6000, 3000, 1000] },
+    players,
+    now() - DAY * 2
+  );
+  startTournament(ladder, DEMO_ELOS);
+
+  const weekly = newTournament(
+    2,
+    { name: "Weekly Double", format: "double-elimination", domain: "market-making", entryFee: "0.25", maxPlayers: 8, rounds: 0, payoutBps: [5000, 3000, 2000] },
+    [MARIA, RAJ, ALEX],
+    now() - DAY
+  );
+
+  const claimable: Record<string, number> = {};
+  for (const e of cup.entrants) claimable[e.player.toLowerCase()] = Number(e.prize);
+  return { tournaments: [cup, ladder, weekly], claimable };
+}
+
+function loadState(): TournamentState {
+  if (typeof window === "undefined") return demoState();
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : demoState();
+  } catch {
+    return demoState();
+  }
+}
+
+function saveState(state: TournamentState) {
+  if (typeof window === "undefined") return;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+}
+
+function find(state: TournamentState, id: number): Tournament {
+  const t = state.tournaments[id];
+  if (!t) throw new Error("Tournament does not exist");
+  return t;
+}
+
+function credit(state: TournamentState, player: string, amount: number) {
+  const key = player.toLowerCase();
+  state.claimable[key] = (state.claimable[key] ?? 0) + amount;
+}
+
+export const tournamentMockService: TournamentService = {
+  async getTournaments() {
+    await delay(400);
+    return loadState().tournaments;
+  },
+
+  async getClaimable(address: string) {
+    await delay(200);
+    return String(loadState().claimable[address.toLowerCase()] ?? 0);
+  },
+
+  async createTournament(params: CreateTournamentParams) {
+    await delay(1500);
+    if (params.maxPlayers < 2 || params.maxPlayers > 64) throw new Error("Invalid player limit");
+    if (params.format === "swiss" ? params.rounds < 1 || params.rounds >= params.maxPlayers : params.rounds !== 0) {
+      throw new Error("Invalid rounds");
+    }
+    if (params.payoutBps.reduce((a, b) => a + b, 0) !== 10000) throw new Error("Payouts must sum to 10000");
+    const state = loadState();
+    const id = state.tournaments.length;
+    state.tournaments.push(newTournament(id, params, [], now()));
+    saveState(state);
+    return { txHash: randomHex(64), tournamentId: id };
+  },
+
+  async joinTournament(id: number) {
+    await delay(1500);
+    const state = loadState();
+    const t = find(state, id);
+    if (t.status !== "registration") throw new Error("Registration closed");
+    if (t.entrants.length >= t.maxPlayers) throw new Error("Tournament full");
+    if (t.entrants.some((e) => e.player.toLowerCase() === DEMO_SELF.toLowerCase())) throw new Error("Already joined");
+    if (!(await engineMockService.getPlayer(DEMO_SELF)).registered) {
+      throw new Error("Player not registered — register on the Engine page first");
+    }
+    t.entrants.push(newEntrant(DEMO_SELF));
+    t.prizePool = String(Number(t.prizePool) + Number(t.entryFee));
+    saveState(state);
+    return { txHash: randomHex(64) };
+  },
+
+  async startTournament(id: number) {
+    await delay(1500);
+    const state = loadState();
+    const t = find(state, id);
+    // Seed from the Engine demo's current ratings
+    const players = await Promise.all(t.entrants.map((e) => engineMockService.getPlayer(e.player)));
+    startTournament(t, Object.fromEntries(players.map((p) => [p.address.toLowerCase(), p.elo])));
+    saveState(state);
+    return { txHash: randomHex(64) };
+  },
+
+  async reportResult(id: number, pairing: number, outcome: MatchOutcome) {
+    const state = loadState();
+    const t = find(state, id);
+    const p = t.pairings[pairing];
+    if (t.status !== "active") throw new Error("Not active");
+    if (!p || p.round !== t.currentRound || !p.player2) throw new Error("Not in current round");
+    if (p.outcome !== null) throw new Error("Already reported");
+    if (outcome === 3 && t.format !== "swiss") throw new Error("Draws not allowed");
+
+    // Results flow into the Engine demo like the contract's recordMatch call
+    const { matchId } = await engineMockService.recordMatch(p.player1, p.player2, outcome, t.domain);
+    reportResult(t, pairing, outcome, matchId);
+    if (t.champion !== null) {
+      for (const e of t.entrants) credit(state, e.player, Number(e.prize));
+    }
+    saveState(state);
+    return { txHash: randomHex(64), engineMatchId: matchId };
+  },
+
+  async cancelTournament(id: number) {
+    await delay(1500);
+    const state = loadState();
+    const t = find(state, id);
+    if (t.status !== "registration" && t.status !== "active") throw new Error("Tournament over");
+    t.status = "cancelled";
+    for (const e of t.entrants) credit(state, e.player, Number(t.entryFee));
+    t.prizePool = "0";
+    saveState(state);
+    return { txHash: randomHex(64) };
+  },
+
+  async claimWinnings() {
+    await delay(1500);
+    const state = loadState();
+    const key = DEMO_SELF.toLowerCase();
+    const amount = state.claimable[key] ?? 0;
+    if (amount <= 0) throw new Error("Nothing to claim");
+    state.claimable[key] = 0;
+    saveState(state);
+    return { txHash: randomHex(64), amount: String(amount) };
+  },
+};
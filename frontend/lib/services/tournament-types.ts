@@ -0,0 +1,81 @@
+import type { MatchOutcome } from "./engine-types";
+
+export type TournamentFormat = "single-elimination" | "double-elimination" | "swiss";
+export type TournamentStatus = "registration" | "active" | "completed" | "cancelled";
+export type TournamentBracket = "winners" | "losers" | "grand-final";
+
+export interface TournamentPairing {
+  /** Index the organizer reports the result against */
+  index: number;
+  round: number;
+  bracket: TournamentBracket;
+  player1: string;
+  /** null for a bye */
+  player2: string | null;
+  /** null while pending; byes resolve as a player1 win */
+  outcome: MatchOutcome | null;
+  /** Engine match that recorded the result */
+  engineMatchId: number | null;
+}
+
+export interface TournamentEntrant {
+  player: string;
+  /** 1 = highest Engine ELO at the start; 0 before the tournament starts */
+  seed: number;
+  eloAtStart: number;
+  losses: number;
+  /** Swiss: 2 per win or bye, 1 per draw */
+  points: number;
+  hadBye: boolean;
+  /** Elimination formats: round the player went out in, 0 while still in */
+  eliminatedRound: number;
+  /** Set on completion; players knocked out in the same round share a place */
+  place: number | null;
+  prize: string; // in C2FLR
+}
+
+export interface Tournament {
+  id: number;
+  name: string;
+  domain: string;
+  format: TournamentFormat;
+  status: TournamentStatus;
+  organizer: string;
+  entryFee: string; // in C2FLR
+  prizePool: string; // in C2FLR
+  maxPlayers: number;
+  /** Swiss rounds to play; 0 for elimination formats */
+  rounds: number;
+  currentRound: number;
+  /** Pool share in basis points for 1st, 2nd, … place */
+  payoutBps: number[];
+  champion: string | null;
+  createdAt: number;
+  completedAt: number | null;
+  /** Join order, then seed order once started */
+  entrants: TournamentEntrant[];
+  pairings: TournamentPairing[];
+}
+
+export interface CreateTournamentParams {
+  name: string;
+  format: TournamentFormat;
+  domain: string;
+  entryFee: string; // in C2FLR
+  maxPlayers: number;
+  /** Swiss only */
+  rounds: number;
+  payoutBps: number[];
+}
+
+export interface TournamentService {
+  getTournaments(): Promise<Tournament[]>;
+  /** Prizes and refunds waiting to be claimed, in C2FLR */
+  getClaimable(address: string): Promise<string>;
+  createTournament(params: CreateTournamentParams): Promise<{ txHash: string; tournamentId: number }>;
+  joinTournament(id: number): Promise<{ txHash: string }>;
+  startTournament(id: number): Promise<{ txHash: string }>;
+  reportResult(id: number, pairing: number, outcome: MatchOutcome): Promise<{ txHash: string; engineMatchId: number }>;
+  cancelTournament(id: number): Promise<{ txHash: string }>;
+  claimWinnings(): Promise<{ txHash: string; amount: string }>;
+}
@@ -0,0 +1,160 @@
+import { BrowserProvider, Contract, EventLog, JsonRpcProvider, formatEther, getAddress } from "ethers";
+import { FeeScheduleChange, IssuerRevenue, RevenueSnapshot, TreasuryService } from "./treasury-types";
+
+const TREASURY_ADDRESS = "0xAd9BBc0294C8710FB96eA1d88b0D760C41074E01";
+const REGISTRY_ADDRESS = "0xa855e8E15C9F350438065D19a73565ea1A23E33A";
+const COSTON2_RPC = "https://coston2-api.flare.network/ext/C/rpc";
+
+// Fee schedule history and issuer discovery scan Treasury logs. Set the
+// Treasury deployment block to cover its full history; otherwise only the
+// most recent LOG_LOOKBACK blocks are scanned.
+const FROM_BLOCK = process.env.NEXT_PUBLIC_SKILLPROOF_TREASURY_FROM_BLOCK;
+const LOG_LOOKBACK = 10000;
+const LOG_CHUNK = 500;
+
+const TREASURY_ABI = [
+  "function getRevenueBreakdown() view returns (uint256 credentials, uint256 markets, uint256 verifications, uint256 bounties, uint256 total)",
+  "function getProtocolMetrics() view returns (uint256 credentialCount, uint256 marketCount, uint256 verificationCount, uint256 bountyCount, uint256 revenue, uint256 snapshotCount)",
+  "function getSnapshotCount() view returns (uint256)",
+  "function snapshots(uint256) view returns (uint256 timestamp, uint256 cumulativeRevenue, uint256 periodRevenue, uint256 credentialCount, uint256 marketCount, uint256 verificationCount)",
+  "function getBalance() view returns (uint256)",
+  "function credentialMintFee() view returns (uint256)",
+  "function marketCreationFee() view returns (uint256)",
+  "function verificationFee() view returns (uint256)",
+  "function bountyCommissionBps() view returns (uint256)",
+  "function issuerFeesGenerated(address) view returns (uint256)",
+  "function takeSnapshot() external",
+  "event CredentialFeeCollected(address indexed issuer, address indexed user, uint256 fee)",
+  "event FeeScheduleUpdated(uint256 credentialFee, uint256 marketFee, uint256 verificationFee, uint256 bountyBps)",
+];
+
+const REGISTRY_ABI = ["function issuers(address) view returns (string name, bool isActive)"];
+
+function getReadProvider() {
+  return new JsonRpcProvider(COSTON2_RPC);
+}
+
+function getReadContract() {
+  return new Contract(TREASURY_ADDRESS, TREASURY_ABI, getReadProvider());
+}
+
+async function getSignerAndContract() {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const eth = (window as any).ethereum;
+  if (typeof window === "undefined" || !eth) {
+    throw new Error("MetaMask not found — connect your wallet first");
+  }
+  const provider = new BrowserProvider(eth);
+  const signer = await provider.getSigner();
+  const treasury = new Contract(TREASURY_ADDRESS, TREASURY_ABI, signer);
+  return { treasury, signer };
+}
+
+async function queryEvents(treasury: Contract, eventName: string): Promise<EventLog[]> {
+  const provider = treasury.runner as JsonRpcProvider;
+  const head = await provider.getBlockNumber();
+  const from = FROM_BLOCK ? Number(FROM_BLOCK) : Math.max(0, head - LOG_LOOKBACK);
+  const logs: EventLog[] = [];
+  for (let start = from; start <= head; start += LOG_CHUNK) {
+    const end = Math.min(start + LOG_CHUNK - 1, head);
+    const chunk = await treasury.queryFilter(treasury.getEvent(eventName), start, end);
+    logs.push(...chunk.filter((l): l is EventLog => l instanceof EventLog));
+  }
+  return logs;
+}
+
+export const treasuryContractService: TreasuryService = {
+  async getOverview() {
+    const treasury = getReadContract();
+    const [breakdown, metrics, balance, credentialFee, marketFee, verificationFee, bps] = await Promise.all([
+      treasury.getRevenueBreakdown(),
+      treasury.getProtocolMetrics(),
+      treasury.getBalance(),
+      treasury.credentialMintFee(),
+      treasury.marketCreationFee(),
+      treasury.verificationFee(),
+      treasury.bountyCommissionBps(),
+    ]);
+    return {
+      breakdown: {
+        credentials: formatEther(breakdown.credentials),
+        markets: formatEther(breakdown.markets),
+        verifications: formatEther(breakdown.verifications),
+        bounties: formatEther(breakdown.bounties),
+        total: formatEther(breakdown.total),
+      },
+      credentialsMinted: Number(metrics.credentialCount),
+      marketsCreated: Number(metrics.marketCount),
+      verificationsProcessed: Number(metrics.verificationCount),
+      bountiesProcessed: Number(metrics.bountyCount),
+      balance: formatEther(balance),
+      schedule: {
+        credentialFee: formatEther(credentialFee),
+        marketFee: formatEther(marketFee),
+        verificationFee: formatEther(verificationFee),
+        bountyCommissionBps: Number(bps),
+      },
+    };
+  },
+
+  async getSnapshots() {
+    const treasury = getReadContract();
+    const count = Number(await treasury.getSnapshotCount());
+    const raw = await Promise.all(Array.from({ length: count }, (_, i) => treasury.snapshots(i)));
+    return raw.map((s, id): RevenueSnapshot => ({
+      id,
+      timestamp: Number(s.timestamp),
+      cumulativeRevenue: formatEther(s.cumulativeRevenue),
+      periodRevenue: formatEther(s.periodRevenue),
+      credentialCount: Number(s.credentialCount),
+      marketCount: Number(s.marketCount),
+      verificationCount: Number(s.verificationCount),
+    }));
+  },
+
+  async getFeeScheduleHistory() {
+    const treasury = getReadContract();
+    const logs = await queryEvents(treasury, "FeeScheduleUpdated");
+    return Promise.all(
+      logs.map(async (l): Promise<FeeScheduleChange> => {
+        const block = await l.getBlock();
+        return {
+          blockNumber: l.blockNumber,
+          timestamp: block.timestamp,
+          txHash: l.transactionHash,
+          credentialFee: formatEther(l.args.credentialFee),
+          marketFee: formatEther(l.args.marketFee),
+          verificationFee: formatEther(l.args.verificationFee),
+          bountyCommissionBps: Number(l.args.bountyBps),
+        };
+      })
+    );
+  },
+
+  async getTopIssuers(limit: number) {
+    const treasury = getReadContract();
+    const registry = new Contract(REGISTRY_ADDRESS, REGISTRY_ABI, getReadProvider());
+    const logs = await queryEvents(treasury, "CredentialFeeCollected");
+    const issuers = Array.from(new Set(logs.map((l) => getAddress(l.args.issuer))));
+    const rows = await Promise.all(
+      issuers.map(async (issuer) => {
+        const [fees, info] = await Promise.all([
+          treasury.issuerFeesGenerated(issuer) as Promise<bigint>,
+          registry.issuers(issuer).catch(() => ({ name: "" })),
+        ]);
+        return { issuer, name: info.name as string, fees };
+      })
+    );
+    return rows
+      .sort((a, b) => (b.fees > a.fees ? 1 : b.fees < a.fees ? -1 : 0))
+      .slice(0, limit)
+      .map((r): IssuerRevenue => ({ issuer: r.issuer, name: r.name, feesGenerated: formatEther(r.fees) }));
+  },
+
+  async takeSnapshot() {
+    const { treasury } = await getSignerAndContract();
+    const tx = await treasury.takeSnapshot();
+    const receipt = await tx.wait();
+    return { txHash: receipt.hash };
+  },
+};
@@ -0,0 +1,17 @@
+import { TreasuryService } from "./treasury-types";
+import { treasuryMockService } from "./treasury-mock";
+import { treasuryContractService } from "./treasury-contract";
+
+export function getTreasuryService(demoMode: boolean): TreasuryService {
+  return demoMode ? treasuryMockService : treasuryContractService;
+}
+
+export type {
+  TreasuryService,
+  TreasuryOverview,
+  RevenueBreakdown,
+  RevenueSnapshot,
+  FeeSchedule,
+  FeeScheduleChange,
+  IssuerRevenue,
+} from "./treasury-types";
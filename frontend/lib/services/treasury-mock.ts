@@ -0,0 +1,147 @@
+import { FeeScheduleChange, IssuerRevenue, RevenueSnapshot, TreasuryService } from "./treasury-types";
+
+const STORAGE_KEY = "skillproof_treasury_snapshots";
+const DAY = 86400;
+
+const delay = (ms: number) => new Promise((r) => setTimeout(r, ms));
+const now = () => Math.floor(Date.now() / 1000);
+const randomHex = (len: number) =>
+  "0x" +
+  Array.from({ length: len }, () =>
+    Math.floor(Math.random() * 16).toString(16)
+  ).join("");
+
+// Revenue per 30-day period, oldest first — credentials, markets, verifications
+const DEMO_PERIODS: [number, number, number][] = [
+  [12, 2, 20],
+  [18, 3, 34],
+  [25, 3, 51],
+  [31, 5, 66],
+  [29, 6, 80],
+  [42, 7, 97],
+];
+
+const BREAKDOWN = {
+  credentials: "1.57",
+  markets: "1.3",
+  verifications: "1.74",
+  bounties: "0.85",
+  total: "5.46",
+};
+
+function demoSnapshots(): RevenueSnapshot[] {
+  const start = now() - DAY * 30 * DEMO_PERIODS.length;
+  let credentialCount = 0;
+  let marketCount = 0;
+  let verificationCount = 0;
+  let cumulative = 0;
+  return DEMO_PERIODS.map(([credentials, markets, verifications], id) => {
+    credentialCount += credentials;
+    marketCount += markets;
+    verificationCount += verifications;
+    const period = credentials * 0.01 + markets * 0.05 + verifications * 0.005;
+    cumulative += period;
+    return {
+      id,
+      timestamp: start + DAY * 30 * (id + 1),
+      cumulativeRevenue: cumulative.toFixed(3),
+      periodRevenue: period.toFixed(3),
+      credentialCount,
+      marketCount,
+      verificationCount,
+    };
+  });
+}
+
+const DEMO_SCHEDULE_HISTORY: FeeScheduleChange[] = [
+  {
+    blockNumber: 18204311,
+    timestamp: now() - DAY * 120,
+    txHash: "0x5c1f0a8e93b2d4c7e6f1a0b9c8d7e6f5a4b3c2d1e0f9a8b7c6d5e4f3a2b1c0d9",
+    credentialFee: "0.02",
+    marketFee: "0.05",
+    verificationFee: "0.005",
+    bountyCommissionBps: 300,
+  },
+  {
+    blockNumber: 18951027,
+    timestamp: now() - DAY * 45,
+    txHash: "0x9e8d7c6b5a4f3e2d1c0b9a8f7e6d5c4b3a2f1e0d9c8b7a6f5e4d3c2b1a0f9e8d",
+    credentialFee: "0.01",
+    marketFee: "0.05",
+    verificationFee: "0.005",
+    bountyCommissionBps: 500,
+  },
+];
+
+const DEMO_ISSUERS: IssuerRevenue[] = [
+  { issuer: "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266", name: "FinCraft", feesGenerated: "0.94" },
+  { issuer: "0x70997970C51812dc3A010C7d01b50e0d17dc79C8", name: "ChessArena", feesGenerated: "0.51" },
+  { issuer: "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC", name: "QuantLeague", feesGenerated: "0.12" },
+];
+
+function loadSnapshots(): RevenueSnapshot[] {
+  if (typeof window === "undefined") return demoSnapshots();
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : demoSnapshots();
+  } catch {
+    return demoSnapshots();
+  }
+}
+
+function saveSnapshots(snapshots: RevenueSnapshot[]) {
+  if (typeof window === "undefined") return;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(snapshots));
+}
+
+export const treasuryMockService: TreasuryService = {
+  async getOverview() {
+    await delay(500);
+    const last = loadSnapshots().slice(-1)[0];
+    return {
+      breakdown: BREAKDOWN,
+      credentialsMinted: last?.credentialCount ?? 0,
+      marketsCreated: last?.marketCount ?? 0,
+      verificationsProcessed: last?.verificationCount ?? 0,
+      bountiesProcessed: 11,
+      balance: "0.72",
+      schedule: {
+        credentialFee: "0.01",
+        marketFee: "0.05",
+        verificationFee: "0.005",
+        bountyCommissionBps: 500,
+      },
+    };
+  },
+
+  async getSnapshots() {
+    await delay(500);
+    return loadSnapshots();
+  },
+
+  async getFeeScheduleHistory() {
+    await delay(300);
+    return DEMO_SCHEDULE_HISTORY;
+  },
+
+  async getTopIssuers(limit: number) {
+    await delay(300);
+    return DEMO_ISSUERS.slice(0, limit);
+  },
+
+  async takeSnapshot() {
+    await delay(1500);
+    const snapshots = loadSnapshots();
+    const last = snapshots[snapshots.length - 1];
+    // Demo revenue doesn't grow between snapshots
+    snapshots.push({
+      ...last,
+      id: snapshots.length,
+      timestamp: now(),
+      periodRevenue: "0",
+    });
+    saveSnapshots(snapshots);
+    return { txHash: randomHex(64) };
+  },
+};
@@ -0,0 +1,57 @@
+/** Amounts are in C2FLR */
+export interface RevenueBreakdown {
+  credentials: string;
+  markets: string;
+  verifications: string;
+  bounties: string;
+  total: string;
+}
+
+export interface FeeSchedule {
+  credentialFee: string;
+  marketFee: string;
+  verificationFee: string;
+  bountyCommissionBps: number;
+}
+
+export interface TreasuryOverview {
+  breakdown: RevenueBreakdown;
+  credentialsMinted: number;
+  marketsCreated: number;
+  verificationsProcessed: number;
+  bountiesProcessed: number;
+  /** Uncollected fees held by the contract */
+  balance: string;
+  schedule: FeeSchedule;
+}
+
+/** Counts are cumulative at snapshot time */
+export interface RevenueSnapshot {
+  id: number;
+  timestamp: number;
+  cumulativeRevenue: string;
+  periodRevenue: string;
+  credentialCount: number;
+  marketCount: number;
+  verificationCount: number;
+}
+
+export interface FeeScheduleChange extends FeeSchedule {
+  blockNumber: number;
+  timestamp: number;
+  txHash: string;
+}
+
+export interface IssuerRevenue {
+  issuer: string;
+  name: string;
+  feesGenerated: string;
+}
+
+export interface TreasuryService {
+  getOverview(): Promise<TreasuryOverview>;
+  getSnapshots(): Promise<RevenueSnapshot[]>;
+  getFeeScheduleHistory(): Promise<FeeScheduleChange[]>;
+  getTopIssuers(limit: number): Promise<IssuerRevenue[]>;
+  takeSnapshot(): Promise<{ txHash: string }>;
+}
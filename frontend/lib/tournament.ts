@@ -0,0 +1,223 @@
+// Bracket and Swiss pairing mirroring SkillProofTournaments, used by the demo
+// service to run tournaments locally. Functions mutate the tournament in place.
+
+import type { MatchOutcome } from "@/lib/services/engine-types";
+import type { Tournament, TournamentBracket, TournamentEntrant } from "@/lib/services/tournament-types";
+
+const same = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+function entrant(t: Tournament, player: string): TournamentEntrant {
+  const e = t.entrants.find((x) => same(x.player, player));
+  if (!e) throw new Error("Not an entrant");
+  return e;
+}
+
+/** Seed indices (0-based) in bracket order: 1 and 2 can only meet in the final */
+export function bracketOrder(size: number): number[] {
+  let order = [0];
+  while (order.length < size) {
+    const len = order.length;
+    order = order.flatMap((s) => [s, 2 * len - 1 - s]);
+  }
+  return order;
+}
+
+/** Pairings of the round being played */
+export function currentRound(t: Tournament) {
+  return t.pairings.filter((p) => p.round === t.currentRound);
+}
+
+/** Seed by ELO (highest first, ties in join order) and pair round 1 */
+export function startTournament(t: Tournament, elos: Record<string, number>) {
+  if (t.status !== "registration") throw new Error("Registration closed");
+  if (t.entrants.length < 2) throw new Error("Not enough players");
+  if (t.format === "swiss" && t.rounds >= t.entrants.length) throw new Error("Too many rounds");
+
+  for (const e of t.entrants) e.eloAtStart = elos[e.player.toLowerCase()] ?? 0;
+  t.entrants = t.entrants
+    .map((e, i) => ({ e, i }))
+    .sort((a, b) => b.e.eloAtStart - a.e.eloAtStart || a.i - b.i)
+    .map(({ e }, i) => ({ ...e, seed: i + 1 }));
+  t.status = "active";
+
+  if (t.format === "swiss") {
+    startSwissRound(t);
+    return;
+  }
+  let size = 1;
+  while (size < t.entrants.length) size *= 2;
+  const slots = bracketOrder(size).map((s) => t.entrants[s]?.player ?? null);
+  t.currentRound++;
+  pairSlots(t, "winners", slots);
+}
+
+/** Record a result; the last one of a round pairs the next round or completes the tournament */
+export function reportResult(t: Tournament, index: number, outcome: MatchOutcome, engineMatchId: number) {
+  if (t.status !== "active") throw new Error("Not active");
+  const p = t.pairings[index];
+  if (!p || p.round !== t.currentRound) throw new Error("Not in current round");
+  if (p.outcome !== null) throw new Error("Already reported");
+  if (outcome === 3 && t.format !== "swiss") throw new Error("Draws not allowed");
+
+  p.outcome = outcome;
+  p.engineMatchId = engineMatchId;
+  if (currentRound(t).some((x) => x.outcome === null)) return;
+  if (t.format === "swiss") finishSwissRound(t);
+  else finishEliminationRound(t);
+}
+
+// ── Rounds ─────────────────────────────────────────────────────────────────
+
+function pair(t: Tournament, bracket: TournamentBracket, a: string, b: string | null) {
+  t.pairings.push({
+    index: t.pairings.length,
+    round: t.currentRound,
+    bracket,
+    player1: a,
+    player2: b,
+    outcome: b === null ? 1 : null,
+    engineMatchId: null,
+  });
+}
+
+/** Adjacent slots play; an empty slot or an odd last player is a bye */
+function pairSlots(t: Tournament, bracket: TournamentBracket, slots: (string | null)[]) {
+  for (let i = 0; i < slots.length; i += 2) {
+    const a = slots[i];
+    const b = slots[i + 1] ?? null;
+    if (a) pair(t, bracket, a, b);
+    else if (b) pair(t, bracket, b, null);
+  }
+}
+
+function finishEliminationRound(t: Tournament) {
+  const maxLosses = t.format === "double-elimination" ? 2 : 1;
+  const upper: string[] = [];
+  let lower: string[] = [];
+  const dropped: string[] = [];
+
+  for (const p of currentRound(t)) {
+    const [winner, loser] = p.outcome === 1 ? [p.player1, p.player2] : [p.player2!, p.player1];
+    let loserIn = false;
+    if (loser) {
+      const e = entrant(t, loser);
+      e.losses++;
+      if (e.losses === maxLosses) e.eliminatedRound = t.currentRound;
+      loserIn = e.losses < maxLosses;
+    }
+
+    if (p.bracket === "winners") {
+      upper.push(winner);
+      if (loserIn) dropped.push(loser!);
+    } else if (p.bracket === "losers") {
+      lower.push(winner);
+    } else if (loserIn) {
+      // Grand-final reset: both finalists now have one loss
+      lower.push(p.player1, p.player2!);
+    } else if (entrant(t, winner).losses === 0) {
+      upper.push(winner);
+    } else {
+      lower.push(winner);
+    }
+  }
+
+  // Dropped players meet survivors from the far end of the bracket
+  if (dropped.length === lower.length) {
+    lower = lower.flatMap((s, i) => [s, dropped[dropped.length - 1 - i]]);
+  } else {
+    lower.push(...dropped);
+  }
+
+  if (upper.length + lower.length === 1) {
+    complete(t, upper[0] ?? lower[0]);
+    return;
+  }
+  t.currentRound++;
+  if (upper.length === 1 && lower.length === 1) {
+    pair(t, "grand-final", upper[0], lower[0]);
+  } else if (upper.length === 0 && lower.length === 2) {
+    pair(t, "grand-final", lower[0], lower[1]);
+  } else {
+    pairSlots(t, "winners", upper);
+    pairSlots(t, "losers", lower);
+  }
+}
+
+function finishSwissRound(t: Tournament) {
+  for (const p of currentRound(t)) {
+    // A bye is worth a win
+    if (p.outcome === 1) entrant(t, p.player1).points += 2;
+    else if (p.outcome === 2) entrant(t, p.player2!).points += 2;
+    else {
+      entrant(t, p.player1).points += 1;
+      entrant(t, p.player2!).points += 1;
+    }
+  }
+  if (t.currentRound === t.rounds) complete(t, ranking(t)[0].player);
+  else startSwissRound(t);
+}
+
+/** Lowest-ranked player without a bye sits out; the rest pair top-down avoiding rematches */
+function startSwissRound(t: Tournament) {
+  const ranked = ranking(t).map((e) => e.player);
+  const met = (a: string, b: string) =>
+    t.pairings.some((p) => p.player2 && ((same(p.player1, a) && same(p.player2, b)) || (same(p.player1, b) && same(p.player2, a))));
+  const done = new Set<number>();
+
+  t.currentRound++;
+  if (ranked.length % 2 === 1) {
+    let b = ranked.length - 1;
+    while (b >= 0 && entrant(t, ranked[b]).hadBye) b--;
+    if (b < 0) b = ranked.length - 1;
+    done.add(b);
+    entrant(t, ranked[b]).hadBye = true;
+    pair(t, "winners", ranked[b], null);
+  }
+
+  for (let i = 0; i < ranked.length; i++) {
+    if (done.has(i)) continue;
+    const open = ranked.map((_, j) => j).filter((j) => j > i && !done.has(j));
+    const j = open.find((k) => !met(ranked[i], ranked[k])) ?? open[0];
+    done.add(i).add(j);
+    pair(t, "winners", ranked[i], ranked[j]);
+  }
+}
+
+// ── Standings and payouts ──────────────────────────────────────────────────
+
+/** Elimination formats rank by how long a player lasted, Swiss by points; seed breaks ties */
+export function ranking(t: Tournament): TournamentEntrant[] {
+  const primary = (e: TournamentEntrant) =>
+    t.format === "swiss" ? e.points : e.eliminatedRound === 0 ? Infinity : e.eliminatedRound;
+  return [...t.entrants].sort((a, b) => primary(b) - primary(a) || a.seed - b.seed);
+}
+
+/** Players out in the same round share a place and split its payouts; dust goes to the champion */
+function complete(t: Tournament, champion: string) {
+  t.status = "completed";
+  t.champion = champion;
+  t.completedAt = Math.floor(Date.now() / 1000);
+
+  const ranked = ranking(t);
+  const pool = Number(t.prizePool);
+  const paidPlaces = Math.min(t.payoutBps.length, ranked.length);
+  const totalBps = t.payoutBps.slice(0, paidPlaces).reduce((a, b) => a + b, 0);
+
+  let paid = 0;
+  for (let start = 0; start < ranked.length; ) {
+    let end = start + 1;
+    if (t.format !== "swiss") {
+      while (end < ranked.length && ranked[end].eliminatedRound === ranked[start].eliminatedRound) end++;
+    }
+    const groupBps = t.payoutBps.slice(start, Math.min(end, paidPlaces)).reduce((a, b) => a + b, 0);
+    const share = totalBps === 0 ? 0 : (pool * groupBps) / totalBps / (end - start);
+    for (let i = start; i < end; i++) {
+      ranked[i].place = start + 1;
+      ranked[i].prize = String(share);
+      paid += share;
+    }
+    start = end;
+  }
+  const winner = entrant(t, champion);
+  winner.prize = String(Number(winner.prize) + pool - paid);
+}
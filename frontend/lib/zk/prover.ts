@@ -0,0 +1,109 @@
+import type { Groth16Calldata } from "@/lib/services/hub-types";
+
+// ── Browser ZK prover for threshold_proof.circom ──
+// Circuit artifacts are served from public/zk (copied from circuits/build).
+// commitment = elo + salt * 2^32, public signals = [valid, threshold, commitment].
+
+export type ProvePhase = "fetch" | "witness" | "prove" | "verify";
+
+export const PHASE_LABELS: Record<ProvePhase, string> = {
+  fetch: "Loading circuit artifacts",
+  witness: "Computing witness",
+  prove: "Generating Groth16 proof",
+  verify: "Verifying proof locally",
+};
+
+export interface ProverRequest {
+  input: Record<string, string>;
+  artifacts: { wasm: string; zkey: string; vkey: string };
+}
+
+export type ProverMessage =
+  | { type: "progress"; phase: ProvePhase; status: "start" | "done"; ms?: number }
+  | { type: "result"; proof: object; publicSignals: string[]; calldata: Groth16Calldata; verified: boolean }
+  | { type: "error"; message: string };
+
+export interface ThresholdProofResult {
+  proof: object;
+  publicSignals: string[];
+  calldata: Groth16Calldata;
+  commitment: string;
+  salt: string;
+  verified: boolean;
+  timings: Partial<Record<ProvePhase, number>>;
+}
+
+const TWO_POW_32 = BigInt(4294967296);
+
+function randomSalt(): bigint {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return BigInt("0x" + Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join(""));
+}
+
+/**
+ * Prove `elo >= threshold` in a Web Worker. `onPhase` fires as each phase
+ * starts and again with its duration once it finishes.
+ */
+export function proveThreshold(params: {
+  elo: number;
+  threshold: number;
+  basePath?: string;
+  onPhase?: (phase: ProvePhase, status: "start" | "done", ms?: number) => void;
+}): Promise<ThresholdProofResult> {
+  const { elo, threshold, basePath = "", onPhase } = params;
+  if (!Number.isInteger(threshold) || threshold < 0) {
+    return Promise.reject(new Error("Threshold must be a non-negative integer"));
+  }
+  if (elo < threshold) {
+    return Promise.reject(new Error(`ELO ${elo} is below threshold ${threshold} — the circuit cannot prove it`));
+  }
+
+  const salt = randomSalt();
+  const commitment = BigInt(elo) + salt * TWO_POW_32;
+  const request: ProverRequest = {
+    input: {
+      threshold: String(threshold),
+      credentialCommitment: commitment.toString(),
+      elo: String(elo),
+      salt: salt.toString(),
+    },
+    artifacts: {
+      wasm: `${basePath}/zk/threshold_proof.wasm`,
+      zkey: `${basePath}/zk/threshold_proof_final.zkey`,
+      vkey: `${basePath}/zk/verification_key.json`,
+    },
+  };
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL("./threshold.worker.ts", import.meta.url));
+    const timings: Partial<Record<ProvePhase, number>> = {};
+
+    worker.onmessage = (event: MessageEvent<ProverMessage>) => {
+      const msg = event.data;
+      if (msg.type === "progress") {
+        if (msg.status === "done") timings[msg.phase] = msg.ms;
+        onPhase?.(msg.phase, msg.status, msg.ms);
+        return;
+      }
+      worker.terminate();
+      if (msg.type === "error") {
+        reject(new Error(msg.message));
+      } else {
+        resolve({
+          proof: msg.proof,
+          publicSignals: msg.publicSignals,
+          calldata: msg.calldata,
+          commitment: commitment.toString(),
+          salt: salt.toString(),
+          verified: msg.verified,
+          timings,
+        });
+      }
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message || "Prover worker crashed"));
+    };
+    worker.postMessage(request);
+  });
+}
@@ -0,0 +1,52 @@
+// Web Worker: Groth16 proving for threshold_proof.circom, off the main thread.
+// Posts a progress message as each real phase starts and finishes.
+
+import * as snarkjs from "snarkjs";
+import type { ProverRequest, ProverMessage, ProvePhase } from "./prover";
+
+const ctx = self as unknown as Worker;
+
+function post(message: ProverMessage) {
+  ctx.postMessage(message);
+}
+
+async function timed<T>(phase: ProvePhase, run: () => Promise<T>): Promise<T> {
+  post({ type: "progress", phase, status: "start" });
+  const start = performance.now();
+  const result = await run();
+  post({ type: "progress", phase, status: "done", ms: Math.round(performance.now() - start) });
+  return result;
+}
+
+async function fetchBytes(url: string): Promise<Uint8Array> {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Failed to load ${url} (${res.status})`);
+  return new Uint8Array(await res.arrayBuffer());
+}
+
+ctx.onmessage = async (event: MessageEvent<ProverRequest>) => {
+  const { input, artifacts } = event.data;
+  try {
+    const [wasm, zkey, vkey] = await timed("fetch", () =>
+      Promise.all([
+        fetchBytes(artifacts.wasm),
+        fetchBytes(artifacts.zkey),
+        fetch(artifacts.vkey).then((r) => r.json()),
+      ])
+    );
+
+    const wtns: snarkjs.MemFile = { type: "mem" };
+    await timed("witness", () => snarkjs.wtns.calculate(input, wasm, wtns));
+
+    const { proof, publicSignals } = await timed("prove", () => snarkjs.groth16.prove(zkey, wtns));
+
+    const verified = await timed("verify", () => snarkjs.groth16.verify(vkey, publicSignals, proof));
+
+    const raw = await snarkjs.groth16.exportSolidityCallData(proof, publicSignals);
+    const [pA, pB, pC, pubSignals] = JSON.parse(`[${raw}]`);
+
+    post({ type: "result", proof, publicSignals, calldata: { pA, pB, pC, pubSignals }, verified });
+  } catch (e) {
+    post({ type: "error", message: (e as Error).message || "Witness generation failed" });
+  }
+};
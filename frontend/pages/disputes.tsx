@@ -0,0 +1,387 @@
+import { useEffect, useState } from "react";
+import { useApp } from "@/pages/_app";
+import { getDisputeService, Dispute } from "@/lib/services/dispute-index";
+
+const DEMO_ISSUER = "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266";
+// Demo mode acts as the challenger of the demo disputes
+const DEMO_CHALLENGER = "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC";
+
+const GROUPS = [
+  { key: "open", title: "Open", color: "text-accent" },
+  { key: "resolved", title: "Resolved", color: "text-white" },
+  { key: "expired", title: "Expired", color: "text-muted" },
+] as const;
+
+function groupOf(d: Dispute): (typeof GROUPS)[number]["key"] {
+  if (d.status === "open") return "open";
+  if (d.status === "expired") return "expired";
+  return "resolved";
+}
+
+function formatTime(ts: number) {
+  return new Date(ts * 1000).toLocaleString();
+}
+
+function shortAddr(addr: string) {
+  return addr.length > 12 ? `${addr.slice(0, 6)}...${addr.slice(-4)}` : addr;
+}
+
+export default function DisputesPage() {
+  const { demoMode, wallet, setResponseData, showToast } = useApp();
+  const service = getDisputeService(demoMode);
+  const me = demoMode ? DEMO_CHALLENGER : wallet;
+
+  // Open form state
+  const [player, setPlayer] = useState("");
+  const [evidenceURI, setEvidenceURI] = useState("");
+  const [evidenceHash, setEvidenceHash] = useState("");
+  const [bond, setBond] = useState<string | null>(null);
+  const [opening, setOpening] = useState(false);
+  const [claimable, setClaimable] = useState<string | null>(null);
+  const [withdrawing, setWithdrawing] = useState(false);
+
+  // Issuer view state
+  const [issuer, setIssuer] = useState(DEMO_ISSUER);
+  const [disputes, setDisputes] = useState<Dispute[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [responses, setResponses] = useState<Record<number, string>>({});
+  const [proposals, setProposals] = useState<Record<number, string>>({});
+  const [pending, setPending] = useState<number | null>(null);
+
+  useEffect(() => {
+    service.getDisputeBond().then(setBond).catch(() => setBond(null));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [demoMode]);
+
+  useEffect(() => {
+    if (wallet) setIssuer(wallet);
+  }, [wallet]);
+
+  useEffect(() => {
+    if (me) service.getClaimable(me).then(setClaimable).catch(() => setClaimable(null));
+    else setClaimable(null);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [demoMode, me, disputes]);
+
+  async function loadDisputes(address = issuer) {
+    if (!address) return;
+    setLoading(true);
+    try {
+      const list = await service.getIssuerDisputes(address);
+      setDisputes(list);
+      setResponseData(list);
+    } catch (e) {
+      showToast({ type: "error", message: (e as Error).message });
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleOpen() {
+    if (!player || (!evidenceURI && !evidenceHash)) {
+      showToast({ type: "error", message: "Player and evidence URI or hash required" });
+      return;
+    }
+    setOpening(true);
+    try {
+      const result = await service.openDispute(player, evidenceURI, evidenceHash);
+      setResponseData(result);
+      showToast({ type: "success", message: `Dispute #${result.disputeId} opened` });
+      setPlayer("");
+      setEvidenceURI("");
+      setEvidenceHash("");
+      await loadDisputes();
+    } catch (e) {
+      showToast({ type: "error", message: (e as Error).message });
+    } finally {
+      setOpening(false);
+    }
+  }
+
+  async function handleWithdraw() {
+    setWithdrawing(true);
+    try {
+      const result = await service.withdrawBonds();
+      setResponseData(result);
+      showToast({ type: "success", message: `Withdrew ${result.amount} C2FLR` });
+      setClaimable("0");
+    } catch (e) {
+      showToast({ type: "error", message: (e as Error).message });
+    } finally {
+      setWithdrawing(false);
+    }
+  }
+
+  async function act(id: number, label: string, action: () => Promise<{ txHash: string }>) {
+    setPending(id);
+    try {
+      const result = await action();
+      setResponseData({ dispute: id, ...result });
+      showToast({ type: "success", message: `Dispute #${id}: ${label}` });
+      await loadDisputes();
+    } catch (e) {
+      showToast({ type: "error", message: (e as Error).message });
+    } finally {
+      setPending(null);
+    }
+  }
+
+  function renderDispute(d: Dispute) {
+    const busy = pending === d.id;
+    const nowSec = Math.floor(Date.now() / 1000);
+    const canRespond = d.status === "open" && !d.responseURI && nowSec <= d.responseDeadline;
+
+    return (
+      <div key={d.id} className="border-2 border-border p-4 space-y-3">
+        <div className="flex items-center justify-between gap-2 flex-wrap">
+          <div className="flex items-center gap-2">
+            <span className="text-white font-bold">#{d.id}</span>
+            <span
+              className={
+                d.status === "upheld"
+                  ? "badge-pink"
+                  : d.status === "rejected"
+                    ? "badge-green"
+                    : d.status === "open"
+                      ? "badge-amber"
+                      : "badge-muted"
+              }
+            >
+              {d.status}
+            </span>
+            {d.escalated && <span className="badge-cyan">Vote #{d.proposalId}</span>}
+            {d.slashed && <span className="badge-pink">Slashed</span>}
+          </div>
+          <span className="text-xs text-muted">Bond {d.bond} C2FLR</span>
+        </div>
+
+        <div className="text-xs space-y-1">
+          <div>
+            <span className="text-muted">Credential: </span>
+            <span className="text-accent break-all">{d.player}</span>
+          </div>
+          <div>
+            <span className="text-muted">Challenger: </span>
+            <span className="text-white">{shortAddr(d.challenger)}</span>
+          </div>
+          {d.evidenceURI && (
+            <div>
+              <span className="text-muted">Evidence: </span>
+              <span className="text-white break-all">{d.evidenceURI}</span>
+            </div>
+          )}
+          {/^0x0*$/.test(d.evidenceHash) ? null : (
+            <div>
+              <span className="text-muted">Evidence hash: </span>
+              <span className="text-white break-all">{d.evidenceHash}</span>
+            </div>
+          )}
+          <div>
+            <span className="text-muted">Response: </span>
+            <span className="text-white break-all">
+              {d.responseURI || `none (window closes ${formatTime(d.responseDeadline)})`}
+            </span>
+          </div>
+          <div>
+            <span className="text-muted">Opened: </span>
+            <span className="text-white">{formatTime(d.openedAt)}</span>
+            <span className="text-muted"> · Ruling by: </span>
+            <span className="text-white">{formatTime(d.resolutionDeadline)}</span>
+          </div>
+        </div>
+
+        {d.status === "open" && (
+          <div className="space-y-2 border-t-2 border-border pt-3">
+            {canRespond && (
+              <div className="flex gap-2">
+                <input
+                  className="input-field"
+                  placeholder="Response URI (issuer)"
+                  value={responses[d.id] || ""}
+                  onChange={(e) => setResponses({ ...responses, [d.id]: e.target.value })}
+                />
+                <button
+                  onClick={() => act(d.id, "response posted", () => service.respondToDispute(d.id, responses[d.id] || ""))}
+                  disabled={busy || !responses[d.id]}
+                  className="btn-secondary btn-small"
+                >
+                  Respond
+                </button>
+              </div>
+            )}
+            {d.escalated ? (
+              <button
+                onClick={() => act(d.id, "settled by vote", () => service.resolveDisputeByVote(d.id))}
+                disabled={busy}
+                className="btn-secondary btn-small"
+              >
+                Settle from Vote #{d.proposalId}
+              </button>
+            ) : (
+              <div className="flex gap-2 flex-wrap">
+                <button
+                  onClick={() => act(d.id, "upheld", () => service.resolveDispute(d.id, true))}
+                  disabled={busy}
+                  className="btn-pink btn-small"
+                >
+                  Uphold &amp; Slash
+                </button>
+                <button
+                  onClick={() => act(d.id, "rejected", () => service.resolveDispute(d.id, false))}
+                  disabled={busy}
+                  className="btn-secondary btn-small"
+                >
+                  Reject
+                </button>
+                <input
+                  className="input-field w-32"
+                  type="number"
+                  min="0"
+                  placeholder="Proposal #"
+                  value={proposals[d.id] || ""}
+                  onChange={(e) => setProposals({ ...proposals, [d.id]: e.target.value })}
+                />
+                <button
+                  onClick={() => act(d.id, "escalated", () => service.escalateDispute(d.id, Number(proposals[d.id])))}
+                  disabled={busy || !proposals[d.id]}
+                  className="btn-secondary btn-small"
+                >
+                  Escalate to Vote
+                </button>
+                {d.proposalDescription && (
+                  <p className="w-full text-xs text-muted break-all">
+                    Escalate only to a proposal described exactly as: {d.proposalDescription}
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {d.awaitingExpiry && (
+          <button
+            onClick={() => act(d.id, "expired, bond refunded", () => service.expireDispute(d.id))}
+            disabled={busy}
+            className="btn-secondary btn-small"
+          >
+            Refund Bond
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-8 animate-fade-in">
+      <div>
+        <h1 className="text-3xl font-bold mb-1 tracking-wide">DISPUTES</h1>
+        <p className="text-xs text-muted font-body">
+          Challenge fraudulent credentials &mdash; upheld disputes slash the issuer&apos;s stake
+          {demoMode && <span className="badge-pink ml-2">Demo</span>}
+        </p>
+      </div>
+
+      {/* Section A: Open Dispute */}
+      <section className="card space-y-4 border-t-4 border-t-pink">
+        <div className="flex items-center justify-between">
+          <h2 className="text-sm font-bold uppercase tracking-widest text-pink">
+            Open Dispute
+          </h2>
+          {bond && <span className="badge-muted">Bond {bond} C2FLR</span>}
+        </div>
+
+        <div>
+          <label className="label">Credential Holder</label>
+          <input
+            className="input-field"
+            placeholder="0x..."
+            value={player}
+            onChange={(e) => setPlayer(e.target.value)}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="label">Evidence URI</label>
+            <input
+              className="input-field"
+              placeholder="ipfs://..."
+              value={evidenceURI}
+              onChange={(e) => setEvidenceURI(e.target.value)}
+            />
+          </div>
+          <div>
+            <label className="label">Evidence Hash (optional)</label>
+            <input
+              className="input-field"
+              placeholder="0x... (bytes32)"
+              value={evidenceHash}
+              onChange={(e) => setEvidenceHash(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <p className="text-xs text-muted font-body">
+          The issuer has a response window before the arbiter or a Hub vote rules. Upheld: bond
+          refunded and issuer slashed. Rejected: bond goes to the issuer. No ruling in time: bond refunded.
+          Refunded and awarded bonds wait here until withdrawn.
+        </p>
+
+        <button onClick={handleOpen} disabled={opening} className="btn-pink w-full">
+          {opening ? "Posting bond..." : "Post Bond & Open Dispute"}
+        </button>
+
+        {claimable !== null && Number(claimable) > 0 && (
+          <div className="flex items-center justify-between border-t-2 border-border pt-3 text-xs">
+            <span className="text-muted">
+              Bonds to withdraw: <span className="text-accent font-bold">{claimable} C2FLR</span>
+            </span>
+            <button onClick={handleWithdraw} disabled={withdrawing} className="btn-primary btn-small">
+              {withdrawing ? "Withdrawing..." : "Withdraw"}
+            </button>
+          </div>
+        )}
+      </section>
+
+      {/* Section B: Issuer Disputes */}
+      <section className="card space-y-4">
+        <h2 className="text-sm font-bold uppercase tracking-widest text-white">
+          Disputes by Issuer
+        </h2>
+        <div className="flex gap-2">
+          <input
+            className="input-field"
+            placeholder="Issuer 0x..."
+            value={issuer}
+            onChange={(e) => setIssuer(e.target.value)}
+          />
+          <button onClick={() => loadDisputes()} disabled={loading} className="btn-secondary">
+            {loading ? "Loading..." : "Load"}
+          </button>
+        </div>
+
+        {disputes && disputes.length === 0 && (
+          <p className="text-xs text-muted">No disputes against this issuer.</p>
+        )}
+
+        {disputes &&
+          disputes.length > 0 &&
+          GROUPS.map((group) => {
+            const items = disputes.filter((d) => groupOf(d) === group.key);
+            return (
+              <div key={group.key} className="space-y-2">
+                <h3 className={`text-xs font-bold uppercase tracking-widest ${group.color}`}>
+                  {group.title} ({items.length})
+                </h3>
+                {items.length === 0 ? (
+                  <p className="text-xs text-muted">None</p>
+                ) : (
+                  items.map(renderDispute)
+                )}
+              </div>
+            );
+          })}
+      </section>
+    </div>
+  );
+}
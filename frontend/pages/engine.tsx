@@ -0,0 +1,582 @@
+import { useEffect, useState } from "react";
+import { useApp } from "@/pages/_app";
+import { conservativeRating, winProbability } from "@/lib/glicko";
+import {
+  getEngineService,
+  EngineGlicko,
+  EngineMatch,
+  EngineParticipant,
+  EnginePlayer,
+  MatchDisputeStatus,
+  MatchOutcome,
+  RatingPoint,
+} from "@/lib/services/engine-index";
+
+const DEMO_PLAYER = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+const PAGE_SIZE = 8;
+const CHART_W = 600;
+const CHART_H = 160;
+
+const OUTCOMES: { value: MatchOutcome; label: string }[] = [
+  { value: 1, label: "Player 1 wins" },
+  { value: 2, label: "Player 2 wins" },
+  { value: 3, label: "Draw" },
+];
+
+const DISPUTE_BADGES: Record<Exclude<MatchDisputeStatus, "none">, { label: string; className: string }> = {
+  open: { label: "Disputed", className: "badge-amber" },
+  dismissed: { label: "Upheld", className: "badge-muted" },
+  voided: { label: "Voided", className: "badge-pink" },
+  corrected: { label: "Corrected", className: "badge-cyan" },
+};
+
+function shortAddr(addr: string) {
+  return addr.length > 12 ? `${addr.slice(0, 6)}...${addr.slice(-4)}` : addr;
+}
+
+function formatDate(ts: number) {
+  return new Date(ts * 1000).toLocaleDateString();
+}
+
+function signed(n: number) {
+  return n > 0 ? `+${n}` : `${n}`;
+}
+
+function ordinal(n: number) {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? "th" : ["th", "st", "nd", "rd"][n % 10] ?? "th";
+  return `${n}${suffix}`;
+}
+
+/** Teams in finishing order, each with its members and their rating changes */
+function Lineup({ match }: { match: EngineMatch }) {
+  const teams = new Map<number, EngineParticipant[]>();
+  for (const p of match.participants) teams.set(p.team, [...(teams.get(p.team) ?? []), p]);
+  const ordered = Array.from(teams.values()).sort((a, b) => a[0].placement - b[0].placement);
+
+  return (
+    <div className="space-y-0.5">
+      {ordered.map((members) => (
+        <div key={members[0].team} className="flex flex-wrap gap-x-2">
+          <span className={`w-8 ${members[0].placement === 1 ? "text-accent" : "text-muted"}`}>
+            {ordinal(members[0].placement)}
+          </span>
+          {members.map((p) => (
+            <span key={p.player} className="text-white">
+              {shortAddr(p.player)}{" "}
+              <span className={p.eloChange >= 0 ? "text-accent" : "text-pink"}>{signed(p.eloChange)}</span>
+            </span>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function RatingChart({ points }: { points: RatingPoint[] }) {
+  const elos = points.map((p) => p.elo);
+  const min = Math.min(...elos) - 20;
+  const max = Math.max(...elos) + 20;
+  const x = (i: number) => (points.length === 1 ? CHART_W / 2 : (i / (points.length - 1)) * CHART_W);
+  const y = (elo: number) => CHART_H - ((elo - min) / (max - min)) * CHART_H;
+  const path = points.map((p, i) => `${x(i)},${y(p.elo)}`).join(" ");
+
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-xs text-muted">
+        <span>{max - 20}</span>
+        <span>{points.length - 1} matches</span>
+      </div>
+      <svg viewBox={`0 0 ${CHART_W} ${CHART_H}`} className="w-full h-40 border-b-2 border-border" preserveAspectRatio="none">
+        <polyline points={path} fill="none" stroke="#00ff88" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+        {points.map((p, i) => (
+          <circle key={i} cx={x(i)} cy={y(p.elo)} r={3} fill="#00ff88">
+            <title>
+              {p.matchId === null ? "Start" : `Match #${p.matchId}`} · {formatDate(p.timestamp)}: {p.elo}
+            </title>
+          </circle>
+        ))}
+      </svg>
+      <div className="text-xs text-muted">{min + 20}</div>
+    </div>
+  );
+}
+
+export default function EnginePage() {
+  const { demoMode, wallet, setResponseData, showToast } = useApp();
+  const service = getEngineService(demoMode);
+
+  const [totals, setTotals] = useState<{ players: number; matches: number } | null>(null);
+  const [canReport, setCanReport] = useState(false);
+
+  // Player view state
+  const [address, setAddress] = useState(DEMO_PLAYER);
+  const [player, setPlayer] = useState<EnginePlayer | null>(null);
+  const [glicko, setGlicko] = useState<EngineGlicko | null>(null);
+  const [domainElos, setDomainElos] = useState<Record<string, number>>({});
+  const [rating, setRating] = useState<RatingPoint[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  // History state
+  const [onlyPlayer, setOnlyPlayer] = useState(true);
+  const [page, setPage] = useState(0);
+  const [history, setHistory] = useState<{ items: EngineMatch[]; total: number } | null>(null);
+  const [disputing, setDisputing] = useState<number | null>(null);
+
+  // Register form state
+  const [domains, setDomains] = useState("derivatives, market-making");
+  const [registering, setRegistering] = useState(false);
+
+  // What-if state
+  const [opponent, setOpponent] = useState("");
+  const [whatIf, setWhatIf] = useState<Record<MatchOutcome, number> | null>(null);
+  const [winChance, setWinChance] = useState<number | null>(null);
+  const [simulating, setSimulating] = useState(false);
+
+  // Reporter form state
+  const [p1, setP1] = useState("");
+  const [p2, setP2] = useState("");
+  const [outcome, setOutcome] = useState<MatchOutcome>(1);
+  const [domain, setDomain] = useState("");
+  const [reporting, setReporting] = useState(false);
+
+  useEffect(() => {
+    service.getTotals().then(setTotals).catch(() => setTotals(null));
+    loadPlayer();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [demoMode]);
+
+  useEffect(() => {
+    if (demoMode) {
+      setCanReport(true);
+    } else if (wallet) {
+      service.isReporter(wallet).then(setCanReport).catch(() => setCanReport(false));
+    } else {
+      setCanReport(false);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [demoMode, wallet]);
+
+  useEffect(() => {
+    loadHistory();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [demoMode, page, onlyPlayer]);
+
+  async function loadPlayer(target = address) {
+    if (!target) return;
+    setLoading(true);
+    setWhatIf(null);
+    setWinChance(null);
+    try {
+      const [info, elos, points, g] = await Promise.all([
+        service.getPlayer(target),
+        service.getDomainElos(target),
+        service.getRatingHistory(target),
+        service.getGlicko(target),
+      ]);
+      setPlayer(info);
+      setGlicko(g);
+      setDomainElos(elos);
+      setRating(points);
+      setResponseData({ player: info, domainElos: elos, glicko: g });
+      if (page === 0) await loadHistory(target);
+      else setPage(0);
+    } catch (e) {
+      showToast({ type: "error", message: (e as Error).message });
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function loadHistory(target = address) {
+    try {
+      setHistory(await service.getMatchHistory(onlyPlayer ? target : null, page, PAGE_SIZE));
+    } catch (e) {
+      showToast({ type: "error", message: (e as Error).message });
+    }
+  }
+
+  async function handleRegister() {
+    const list = domains.split(",").map((d) => d.trim()).filter(Boolean);
+    setRegistering(true);
+    try {
+      const result = await service.registerPlayer(list);
+      setResponseData(result);
+      showToast({ type: "success", message: "Registered at 1200 ELO" });
+      setAddress(result.player);
+      await loadPlayer(result.player);
+    } catch (e) {
+      showToast({ type: "error", message: (e as Error).message });
+    } finally {
+      setRegistering(false);
+    }
+  }
+
+  async function handleSimulate() {
+    if (!opponent) {
+      showToast({ type: "error", message: "Opponent address required" });
+      return;
+    }
+    setSimulating(true);
+    try {
+      const [results, self, other] = await Promise.all([
+        Promise.all(OUTCOMES.map((o) => service.simulateMatch(address, opponent, o.value))),
+        service.getGlicko(address),
+        service.getGlicko(opponent),
+      ]);
+      const changes = { 1: results[0].player1Change, 2: results[1].player1Change, 3: results[2].player1Change };
+      const chance = winProbability(self, other);
+      setWhatIf(changes);
+      setWinChance(chance);
+      setResponseData({ player: address, opponent, changes, winProbability: chance });
+    } catch (e) {
+      showToast({ type: "error", message: (e as Error).message });
+    } finally {
+      setSimulating(false);
+    }
+  }
+
+  async function handleReport() {
+    if (!p1 || !p2) {
+      showToast({ type: "error", message: "Both players required" });
+      return;
+    }
+    setReporting(true);
+    try {
+      const result = await service.recordMatch(p1, p2, outcome, domain.trim());
+      setResponseData(result);
+      showToast({ type: "success", message: `Match #${result.matchId} recorded` });
+      service.getTotals().then(setTotals).catch(() => {});
+      await loadPlayer();
+    } catch (e) {
+      showToast({ type: "error", message: (e as Error).message });
+    } finally {
+      setReporting(false);
+    }
+  }
+
+  async function handleDispute(matchId: number) {
+    setDisputing(matchId);
+    try {
+      const result = await service.disputeMatch(matchId);
+      setResponseData(result);
+      showToast({ type: "success", message: `Match #${matchId} disputed` });
+      await loadHistory();
+    } catch (e) {
+      showToast({ type: "error", message: (e as Error).message });
+    } finally {
+      setDisputing(null);
+    }
+  }
+
+  const domainMax = Math.max(...Object.values(domainElos), 1);
+  const pageCount = history ? Math.max(Math.ceil(history.total / PAGE_SIZE), 1) : 1;
+
+  function resultFor(m: EngineMatch) {
+    if (!onlyPlayer || !player) return null;
+    const self = m.participants.find((p) => p.player.toLowerCase() === player.address.toLowerCase());
+    if (!self) return null;
+    const winners = new Set(m.participants.filter((p) => p.placement === 1).map((p) => p.team));
+    if (self.placement === 1 && winners.size > 1) return <span className="badge-muted">Draw</span>;
+    if (self.placement === 1) return <span className="badge-green">Win</span>;
+    const teams = new Set(m.participants.map((p) => p.team)).size;
+    return <span className="badge-pink">{teams > 2 ? `${ordinal(self.placement)} of ${teams}` : "Loss"}</span>;
+  }
+
+  // Players can dispute matches they played in until the window closes; the demo acts as the loaded player
+  const disputer = demoMode ? (onlyPlayer ? player?.address : undefined) : wallet;
+
+  function disputeFor(m: EngineMatch) {
+    if (m.dispute !== "none") {
+      const badge = DISPUTE_BADGES[m.dispute];
+      return <span className={`${badge.className} ml-2`}>{badge.label}</span>;
+    }
+    const key = disputer?.toLowerCase();
+    if (!key || m.disputeDeadline < Date.now() / 1000) return null;
+    if (!m.participants.some((p) => p.player.toLowerCase() === key)) return null;
+    return (
+      <button
+        onClick={() => handleDispute(m.id)}
+        disabled={disputing !== null}
+        className="btn-secondary btn-small ml-2"
+        title={`Open until ${new Date(m.disputeDeadline * 1000).toLocaleString()}`}
+      >
+        {disputing === m.id ? "Disputing..." : "Dispute"}
+      </button>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-8 animate-fade-in">
+      <div>
+        <h1 className="text-3xl font-bold mb-1 tracking-wide">ENGINE</h1>
+        <p className="text-xs text-muted font-body">
+          On-chain ELO ratings from reported head-to-head matches
+          {totals && (
+            <span className="ml-2">
+              &middot; {totals.players} players &middot; {totals.matches} matches
+            </span>
+          )}
+          {demoMode && <span className="badge-pink ml-2">Demo</span>}
+        </p>
+      </div>
+
+      {/* Section A: Player */}
+      <section className="card space-y-4 border-t-4 border-t-accent">
+        <h2 className="text-sm font-bold uppercase tracking-widest text-accent">Player</h2>
+        <div className="flex gap-2">
+          <input
+            className="input-field"
+            placeholder="Player 0x..."
+            value={address}
+            onChange={(e) => setAddress(e.target.value)}
+          />
+          <button onClick={() => loadPlayer()} disabled={loading} className="btn-secondary">
+            {loading ? "Loading..." : "Load"}
+          </button>
+          {wallet && (
+            <button
+              onClick={() => {
+                setAddress(wallet);
+                loadPlayer(wallet);
+              }}
+              className="btn-secondary"
+            >
+              Me
+            </button>
+          )}
+        </div>
+
+        {player && !player.registered && (
+          <div className="space-y-2 border-t-2 border-border pt-3">
+            <p className="text-xs text-muted">Not registered with the Engine.</p>
+            <label className="label">Domains (comma separated)</label>
+            <div className="flex gap-2">
+              <input className="input-field" value={domains} onChange={(e) => setDomains(e.target.value)} />
+              <button onClick={handleRegister} disabled={registering} className="btn-primary">
+                {registering ? "Registering..." : "Register"}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {player && player.registered && (
+          <>
+            <div className="grid grid-cols-4 gap-4 text-center">
+              <div>
+                <div className="text-2xl font-bold text-accent">{player.elo}</div>
+                <div className="label">ELO</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold text-white">{player.peakElo}</div>
+                <div className="label">Peak</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold text-white">
+                  {player.wins}/{player.losses}/{player.draws}
+                </div>
+                <div className="label">W / L / D</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold text-white">{player.winRate.toFixed(1)}%</div>
+                <div className="label">Win Rate</div>
+              </div>
+            </div>
+            <div className="text-xs text-muted">
+              Current streak <span className="text-white">{player.currentStreak}</span> &middot; Longest{" "}
+              <span className="text-white">{player.longestStreak}</span> &middot;{" "}
+              <span className="text-white">{player.totalMatches}</span> matches
+            </div>
+            {glicko && (
+              <div className="text-xs text-muted">
+                Glicko-2 <span className="text-white">{Math.round(glicko.rating)}</span> &plusmn;{" "}
+                <span className="text-white">{Math.round(2 * glicko.rd)}</span> &middot; Conservative{" "}
+                <span className="text-accent">{conservativeRating(glicko)}</span> &middot; Volatility{" "}
+                <span className="text-white">{glicko.volatility.toFixed(4)}</span>
+                {!glicko.rated && <span className="badge-muted ml-2">Unrated</span>}
+              </div>
+            )}
+          </>
+        )}
+      </section>
+
+      {player && player.registered && (
+        <>
+          {/* Section B: Rating over Time */}
+          <section className="card space-y-4">
+            <h2 className="text-sm font-bold uppercase tracking-widest text-white">Rating over Time</h2>
+            {rating.length === 0 ? (
+              <p className="text-xs text-muted">No matches yet.</p>
+            ) : (
+              <RatingChart points={rating} />
+            )}
+          </section>
+
+          {/* Section C: Domain ELO */}
+          <section className="card space-y-3">
+            <h2 className="text-sm font-bold uppercase tracking-widest text-white">ELO by Domain</h2>
+            {Object.keys(domainElos).length === 0 ? (
+              <p className="text-xs text-muted">No domain ratings.</p>
+            ) : (
+              Object.entries(domainElos).map(([d, elo]) => (
+                <div key={d} className="space-y-1">
+                  <div className="flex justify-between text-xs">
+                    <span className="text-white">{d}</span>
+                    <span className="text-accent">{elo}</span>
+                  </div>
+                  <div className="h-2 bg-elevated">
+                    <div className="h-full bg-cyan-500 transition-all" style={{ width: `${(elo / domainMax) * 100}%` }} />
+                  </div>
+                </div>
+              ))
+            )}
+          </section>
+
+          {/* Section D: What If */}
+          <section className="card space-y-4">
+            <h2 className="text-sm font-bold uppercase tracking-widest text-white">What If</h2>
+            <div className="flex gap-2">
+              <input
+                className="input-field"
+                placeholder="Opponent 0x..."
+                value={opponent}
+                onChange={(e) => setOpponent(e.target.value)}
+              />
+              <button onClick={handleSimulate} disabled={simulating} className="btn-secondary">
+                {simulating ? "Simulating..." : "Simulate"}
+              </button>
+            </div>
+            {winChance !== null && (
+              <p className="text-xs text-muted">
+                Glicko-2 win probability{" "}
+                <span className="text-accent font-bold">{(winChance * 100).toFixed(1)}%</span>
+              </p>
+            )}
+            {whatIf && (
+              <div className="grid grid-cols-3 gap-4 text-center">
+                {OUTCOMES.map((o) => (
+                  <div key={o.value}>
+                    <div className={`text-xl font-bold ${whatIf[o.value] >= 0 ? "text-accent" : "text-pink"}`}>
+                      {signed(whatIf[o.value])}
+                    </div>
+                    <div className="label">{o.value === 1 ? "Win" : o.value === 2 ? "Loss" : "Draw"}</div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+        </>
+      )}
+
+      {/* Section E: Match History */}
+      <section className="card space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-sm font-bold uppercase tracking-widest text-white">Match History</h2>
+          <label className="text-xs text-muted flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={onlyPlayer}
+              onChange={(e) => {
+                setOnlyPlayer(e.target.checked);
+                setPage(0);
+              }}
+            />
+            This player only
+          </label>
+        </div>
+        {history && history.items.length === 0 ? (
+          <p className="text-xs text-muted">No matches recorded.</p>
+        ) : (
+          history && (
+            <>
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-muted uppercase tracking-widest text-left">
+                    <th className="py-1">#</th>
+                    <th className="py-1">Date</th>
+                    <th className="py-1">Lineup</th>
+                    <th className="py-1">Domain</th>
+                    <th className="py-1 text-right">Result</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {history.items.map((m) => (
+                    <tr key={m.id} className="border-t border-border align-top">
+                      <td className="py-1 text-muted">{m.id}</td>
+                      <td className="py-1">{formatDate(m.timestamp)}</td>
+                      <td className="py-1">
+                        <Lineup match={m} />
+                      </td>
+                      <td className="py-1 text-muted">{m.domain || "—"}</td>
+                      <td className="py-1 text-right">
+                        {resultFor(m)}
+                        {disputeFor(m)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <div className="flex items-center justify-between text-xs">
+                <button onClick={() => setPage(page - 1)} disabled={page === 0} className="btn-secondary btn-small">
+                  Prev
+                </button>
+                <span className="text-muted">
+                  Page {page + 1} of {pageCount} &middot; {history.total} matches
+                </span>
+                <button
+                  onClick={() => setPage(page + 1)}
+                  disabled={page + 1 >= pageCount}
+                  className="btn-secondary btn-small"
+                >
+                  Next
+                </button>
+              </div>
+            </>
+          )
+        )}
+      </section>
+
+      {/* Section F: Report Match */}
+      {canReport && (
+        <section className="card space-y-4 border-t-4 border-t-pink">
+          <h2 className="text-sm font-bold uppercase tracking-widest text-pink">Report Match</h2>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="label">Player 1</label>
+              <input className="input-field" placeholder="0x..." value={p1} onChange={(e) => setP1(e.target.value)} />
+            </div>
+            <div>
+              <label className="label">Player 2</label>
+              <input className="input-field" placeholder="0x..." value={p2} onChange={(e) => setP2(e.target.value)} />
+            </div>
+            <div>
+              <label className="label">Outcome</label>
+              <select
+                className="input-field"
+                value={outcome}
+                onChange={(e) => setOutcome(Number(e.target.value) as MatchOutcome)}
+              >
+                {OUTCOMES.map((o) => (
+                  <option key={o.value} value={o.value}>
+                    {o.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="label">Domain (optional)</label>
+              <input
+                className="input-field"
+                placeholder="derivatives"
+                value={domain}
+                onChange={(e) => setDomain(e.target.value)}
+              />
+            </div>
+          </div>
+          <button onClick={handleReport} disabled={reporting} className="btn-pink w-full">
+            {reporting ? "Recording..." : "Record Match"}
+          </button>
+        </section>
+      )}
+    </div>
+  );
+}
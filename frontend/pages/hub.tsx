@@ -134,6 +134,7 @@ export default function HubPage() {
   const [newMarketCommitHours, setNewMarketCommitHours] = useState("24");
   const [newMarketRevealHours, setNewMarketRevealHours] = useState("24");
   const [creatingMarket, setCreatingMarket] = useState(false);
+  const [marketFee, setMarketFee] = useState<string | null>(null);
 
   // ── Arena State ──────────────────────────────────────────────────────────
   const [bounties, setBounties] = useState<Bounty[]>([]);
@@ -143,6 +144,7 @@ export default function HubPage() {
   const [bountySalts, setBountySalts] = useState<Record<number, string>>({});
   const [bountyWinners, setBountyWinners] = useState<Record<number, string>>({});
   const [bountyBusy, setBountyBusy] = useState<number | null>(null);
+  const [bountyCommissions, setBountyCommissions] = useState<Record<number, string>>({});
   // Post bounty form
   const [newBountyDesc, setNewBountyDesc] = useState("");
   const [newBountyReward, setNewBountyReward] = useState("0.5");
@@ -205,6 +207,7 @@ export default function HubPage() {
         ms.push(await hub.getMarket(i));
       }
       setMarkets(ms);
+      hub.getMarketFee(wallet || "mock-user").then(setMarketFee).catch(() => setMarketFee(null));
       setResponseData({
         marketCount: count,
         markets: ms.map((m) => ({ ...m, targetPrice: m.targetPrice.toString(), actualPrice: m.actualPrice.toString() })),
@@ -424,6 +427,16 @@ export default function HubPage() {
     }
   }
 
+  function handleWinnerChange(bountyId: number, winner: string) {
+    setBountyWinners((s) => ({ ...s, [bountyId]: winner }));
+    if (!/^0x[0-9a-fA-F]{40}$/.test(winner)) return;
+    // The commission can depend on the winner (treasury exemptions)
+    hub
+      .getBountyCommission(bountyId, winner)
+      .then((c) => setBountyCommissions((s) => ({ ...s, [bountyId]: c })))
+      .catch(() => {});
+  }
+
   async function handleAwardBounty(bountyId: number) {
     const winner = bountyWinners[bountyId];
     if (!winner) {
@@ -1141,6 +1154,12 @@ export default function HubPage() {
                 />
               </div>
             </div>
+            {marketFee && parseFloat(marketFee) > 0 && (
+              <p className="text-xs text-muted">
+                Market creation fee: <span className="text-accent font-bold">{marketFee} C2FLR</span>, paid to the
+                protocol treasury
+              </p>
+            )}
             <button
               onClick={handleCreateMarket}
               disabled={creatingMarket}
@@ -1327,9 +1346,16 @@ export default function HubPage() {
                               className="input-field"
                               placeholder="0x..."
                               value={bountyWinners[b.id] || ""}
-                              onChange={(e) => setBountyWinners((s) => ({ ...s, [b.id]: e.target.value }))}
+                              onChange={(e) => handleWinnerChange(b.id, e.target.value)}
                             />
                           </div>
+                          {bountyCommissions[b.id] && parseFloat(bountyCommissions[b.id]) > 0 && (
+                            <p className="text-xs text-muted">
+                              Treasury commission:{" "}
+                              <span className="text-accent font-bold">{bountyCommissions[b.id]} C2FLR</span> &mdash;
+                              winner receives {(parseFloat(b.reward) - parseFloat(bountyCommissions[b.id])).toString()} C2FLR
+                            </p>
+                          )}
                           <button
                             onClick={() => handleAwardBounty(b.id)}
                             disabled={busy}
@@ -1,12 +1,22 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useApp } from "@/pages/_app";
 import { getService, Credential } from "@/lib/services";
+import { getStakingService, StakeInfo, SlashRecord } from "@/lib/services/staking-index";
 
 const DOMAINS = ["quant", "ib", "consulting", "custom"] as const;
+const DEMO_ISSUER = "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266";
+
+function formatCountdown(seconds: number) {
+  const d = Math.floor(seconds / 86400);
+  const h = Math.floor((seconds % 86400) / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  return `${d}d ${h}h ${m}m`;
+}
 
 export default function IssuerPage() {
-  const { demoMode, setResponseData, showToast } = useApp();
+  const { demoMode, wallet, setResponseData, showToast } = useApp();
   const service = getService(demoMode);
+  const stakingService = getStakingService(demoMode);
 
   // Issue form state
   const [userAddress, setUserAddress] = useState("");
@@ -27,6 +37,51 @@ export default function IssuerPage() {
   const [lookupResult, setLookupResult] = useState<Credential | null>(null);
   const [lookingUp, setLookingUp] = useState(false);
 
+  // Staking state
+  const [stakeInfo, setStakeInfo] = useState<StakeInfo | null>(null);
+  const [slashes, setSlashes] = useState<SlashRecord[]>([]);
+  const [stakeName, setStakeName] = useState("");
+  const [stakeAmount, setStakeAmount] = useState("0.1");
+  const [stakeBusy, setStakeBusy] = useState(false);
+  const [nowSec, setNowSec] = useState(Math.floor(Date.now() / 1000));
+
+  const issuerAddress = wallet || DEMO_ISSUER;
+
+  useEffect(() => {
+    loadStake();
+  }, [demoMode, wallet]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  useEffect(() => {
+    const id = setInterval(() => setNowSec(Math.floor(Date.now() / 1000)), 30000);
+    return () => clearInterval(id);
+  }, []);
+
+  async function loadStake() {
+    try {
+      const info = await stakingService.getStakeInfo(issuerAddress);
+      setStakeInfo(info);
+      setNowSec(Math.floor(Date.now() / 1000));
+      if (info.issuerName) setStakeName(info.issuerName);
+    } catch {
+      setStakeInfo(null);
+    }
+    stakingService.getSlashHistory(issuerAddress).then(setSlashes).catch(() => setSlashes([]));
+  }
+
+  async function handleStakeAction(label: string, action: () => Promise<{ txHash: string }>) {
+    setStakeBusy(true);
+    try {
+      const result = await action();
+      setResponseData(result);
+      showToast({ type: "success", message: label });
+      await loadStake();
+    } catch (e) {
+      showToast({ type: "error", message: (e as Error).message });
+    } finally {
+      setStakeBusy(false);
+    }
+  }
+
   function loadDemo() {
     setUserAddress("0x70997970C51812dc3A010C7d01b50e0d17dc79C8");
     setDomain("quant");
@@ -101,7 +156,128 @@ export default function IssuerPage() {
         </p>
       </div>
 
-      {/* Section A: Issue Credential */}
+      {/* Section A: Issuer Stake */}
+      <section className="card space-y-4 border-t-4 border-t-amber-500">
+        <div className="flex items-center justify-between">
+          <h2 className="text-sm font-bold uppercase tracking-widest text-amber-500">
+            Issuer Stake
+          </h2>
+          {stakeInfo && (
+            <span
+              className={
+                stakeInfo.valid ? "badge-green" : stakeInfo.slashCount > 0 ? "badge-pink" : "badge-amber"
+              }
+            >
+              {stakeInfo.valid ? "Staked" : stakeInfo.slashCount > 0 ? "Slashed" : "Under-staked"}
+            </span>
+          )}
+        </div>
+
+        {stakeInfo && (
+          <div className="grid grid-cols-4 gap-2 text-center">
+            <div className="border-2 border-border p-2">
+              <div className="text-[9px] text-muted uppercase tracking-widest">Stake</div>
+              <div className="text-sm font-bold text-white">{stakeInfo.amount}</div>
+              <div className="text-[9px] text-muted">min {stakeInfo.minimumStake} C2FLR</div>
+            </div>
+            <div className="border-2 border-border p-2">
+              <div className="text-[9px] text-muted uppercase tracking-widest">Lock</div>
+              <div className="text-sm font-bold text-white">
+                {!stakeInfo.active
+                  ? "—"
+                  : stakeInfo.unlocksAt > nowSec
+                    ? formatCountdown(stakeInfo.unlocksAt - nowSec)
+                    : "Unlocked"}
+              </div>
+            </div>
+            <div className="border-2 border-border p-2">
+              <div className="text-[9px] text-muted uppercase tracking-widest">Slashes</div>
+              <div className={`text-sm font-bold ${stakeInfo.slashCount > 0 ? "text-pink" : "text-white"}`}>
+                {stakeInfo.slashCount}
+              </div>
+            </div>
+            <div className="border-2 border-border p-2">
+              <div className="text-[9px] text-muted uppercase tracking-widest">Issuer</div>
+              <div className="text-sm font-bold text-white truncate">{stakeInfo.issuerName || "—"}</div>
+            </div>
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-4">
+          {!stakeInfo?.active && (
+            <div>
+              <label className="label">Issuer Name</label>
+              <input
+                className="input-field"
+                placeholder="FinCraft"
+                value={stakeName}
+                onChange={(e) => setStakeName(e.target.value)}
+              />
+            </div>
+          )}
+          <div>
+            <label className="label">Amount (C2FLR)</label>
+            <input
+              className="input-field"
+              type="number"
+              min="0"
+              step="0.01"
+              value={stakeAmount}
+              onChange={(e) => setStakeAmount(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          {stakeInfo?.active ? (
+            <>
+              <button
+                onClick={() => handleStakeAction("Stake increased", () => stakingService.increaseStake(stakeAmount))}
+                disabled={stakeBusy || !stakeAmount}
+                className="btn-primary flex-1"
+              >
+                {stakeBusy ? "Processing..." : "Top Up"}
+              </button>
+              <button
+                onClick={() => handleStakeAction("Stake withdrawn", () => stakingService.unstake())}
+                disabled={stakeBusy || stakeInfo.unlocksAt > nowSec}
+                className="btn-secondary flex-1"
+              >
+                Unstake All
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={() => handleStakeAction("Staked", () => stakingService.stake(stakeName, stakeAmount))}
+              disabled={stakeBusy || !stakeName || !stakeAmount}
+              className="btn-primary w-full"
+            >
+              {stakeBusy ? "Processing..." : "Stake"}
+            </button>
+          )}
+        </div>
+
+        {slashes.length > 0 && (
+          <div className="space-y-2 border-t-2 border-border pt-3">
+            <h3 className="text-xs font-bold uppercase tracking-widest text-pink">Slash History</h3>
+            {slashes.map((s) => (
+              <div key={s.txHash} className="text-xs flex justify-between gap-4">
+                <span className="text-white">{s.reason}</span>
+                <span className="text-muted whitespace-nowrap">
+                  -{s.amount} C2FLR · {new Date(s.timestamp * 1000).toLocaleDateString()}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <p className="text-xs text-muted font-body">
+          Credentials can only be minted while your stake is at or above the minimum. Stakes are locked
+          for 7 days; a slash below the minimum deactivates the stake.
+        </p>
+      </section>
+
+      {/* Section B: Issue Credential */}
       <section className="card space-y-4 border-t-4 border-t-accent">
         <div className="flex items-center justify-between">
           <h2 className="text-sm font-bold uppercase tracking-widest text-accent">
@@ -230,7 +406,7 @@ export default function IssuerPage() {
         )}
       </section>
 
-      {/* Section B: Revoke */}
+      {/* Section C: Revoke */}
       <section className="card space-y-4">
         <h2 className="text-sm font-bold uppercase tracking-widest text-pink">
           Revoke Credential
@@ -253,7 +429,7 @@ export default function IssuerPage() {
         </button>
       </section>
 
-      {/* Section C: Lookup */}
+      {/* Section D: Lookup */}
       <section className="card space-y-4">
         <h2 className="text-sm font-bold uppercase tracking-widest text-white">
           Lookup Credential
@@ -1,16 +1,30 @@
 import { useState, useEffect, useCallback } from "react";
 import { useApp } from "@/pages/_app";
 import { getHubService, LeaderboardEntry, AggregateScore } from "@/lib/services/hub-index";
+import { getStakingService, StakeInfo } from "@/lib/services/staking-index";
+import { getEngineService, EngineSeason, SeasonStanding } from "@/lib/services/engine-index";
+
+function formatDate(ts: number) {
+  return new Date(ts * 1000).toLocaleDateString();
+}
 
 export default function LeaderboardPage() {
   const { demoMode, setResponseData, showToast } = useApp();
   const service = getHubService(demoMode);
+  const staking = getStakingService(demoMode);
+  const engine = getEngineService(demoMode);
 
   const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [expanded, setExpanded] = useState<Record<number, boolean>>({});
   const [viewMode, setViewMode] = useState<"issuer" | "aggregate">("issuer");
   const [aggregateScores, setAggregateScores] = useState<Record<string, AggregateScore>>({});
+  const [issuerStakes, setIssuerStakes] = useState<Record<string, StakeInfo>>({});
+  const [seasons, setSeasons] = useState<EngineSeason[]>([]);
+  // null = live credential rankings, otherwise a closed Engine season
+  const [seasonId, setSeasonId] = useState<number | null>(null);
+  const [standings, setStandings] = useState<SeasonStanding[]>([]);
+  const [standingsLoading, setStandingsLoading] = useState(false);
 
   const load = useCallback(async () => {
     setLoading(true);
@@ -19,6 +33,18 @@ export default function LeaderboardPage() {
       setEntries(data);
       setResponseData(data);
 
+      // Flag credentials whose issuer is under-staked or has been slashed
+      const issuerAddrs = Array.from(new Set(data.map((e) => e.issuerAddress)));
+      const stakeMap: Record<string, StakeInfo> = {};
+      await Promise.all(
+        issuerAddrs.map(async (addr) => {
+          try {
+            stakeMap[addr] = await staking.getStakeInfo(addr);
+          } catch { /* skip */ }
+        })
+      );
+      setIssuerStakes(stakeMap);
+
       // Fetch aggregate scores for all unique addresses
       const uniqueAddrs = Array.from(new Set(data.map((e) => e.address)));
       const aggMap: Record<string, AggregateScore> = {};
@@ -41,6 +67,28 @@ export default function LeaderboardPage() {
     load();
   }, [load]);
 
+  useEffect(() => {
+    setSeasonId(null);
+    engine.getSeasons().then(setSeasons).catch(() => setSeasons([]));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [demoMode]);
+
+  useEffect(() => {
+    if (seasonId === null) return;
+    setStandingsLoading(true);
+    engine
+      .getSeasonStandings(seasonId)
+      .then((data) => {
+        setStandings(data);
+        setResponseData(data);
+      })
+      .catch((e) => showToast({ type: "error", message: (e as Error).message }))
+      .finally(() => setStandingsLoading(false));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [seasonId, demoMode]);
+
+  const season = seasons.find((s) => s.id === seasonId) ?? null;
+
   function toggleExpand(idx: number) {
     setExpanded((prev) => ({ ...prev, [idx]: !prev[idx] }));
   }
@@ -73,291 +121,386 @@ export default function LeaderboardPage() {
 
   return (
     <div className="max-w-3xl mx-auto space-y-8 animate-fade-in">
-      <div>
-        <h1 className="text-3xl font-bold mb-1 tracking-wide">LEADERBOARD</h1>
-        <p className="text-xs text-muted font-body">
-          All credentialed users ranked by effective ELO (base + reputation)
-          {demoMode && <span className="badge-pink ml-2">Demo</span>}
-        </p>
+      <div className="flex items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold mb-1 tracking-wide">LEADERBOARD</h1>
+          <p className="text-xs text-muted font-body">
+            {season
+              ? `Season ${season.id} final standings by Engine ELO, ${formatDate(season.startedAt)} – ${formatDate(season.endedAt)}`
+              : "All credentialed users ranked by effective ELO (base + reputation)"}
+            {demoMode && <span className="badge-pink ml-2">Demo</span>}
+          </p>
+        </div>
+        {seasons.length > 0 && (
+          <select
+            className="input-field w-44"
+            value={seasonId ?? ""}
+            onChange={(e) => setSeasonId(e.target.value === "" ? null : Number(e.target.value))}
+          >
+            <option value="">Current season</option>
+            {seasons.map((s) => (
+              <option key={s.id} value={s.id}>
+                Season {s.id}
+              </option>
+            ))}
+          </select>
+        )}
       </div>
 
-      {/* Stats bar */}
-      <div className="grid grid-cols-3 gap-4">
-        <div className="card text-center">
-          <span className="label">Players</span>
-          <div className="stat-number-green mt-1">
-            {loading ? "-" : entries.length}
+      {season ? (
+        <>
+          {/* Archived season stats */}
+          <div className="grid grid-cols-3 gap-4">
+            <div className="card text-center">
+              <span className="label">Players</span>
+              <div className="stat-number-green mt-1">{standingsLoading ? "-" : standings.length}</div>
+            </div>
+            <div className="card text-center">
+              <span className="label">Matches</span>
+              <div className="stat-number-amber mt-1">{season.matchCount}</div>
+            </div>
+            <div className="card text-center">
+              <span className="label">Top ELO</span>
+              <div className="stat-number-green mt-1">{standingsLoading ? "-" : standings[0]?.elo ?? "-"}</div>
+            </div>
           </div>
-        </div>
-        <div className="card text-center">
-          <span className="label">Issuers</span>
-          <div className="stat-number-amber mt-1">
-            {loading ? "-" : Array.from(new Set(entries.map((e) => e.issuer))).length}
+
+          {/* ── Archived Season ─────────────────────────────────────── */}
+          <section className="card p-0 overflow-hidden">
+            <div className="flex items-center justify-between px-6 py-4 border-b-2 border-border">
+              <h2 className="text-sm font-bold uppercase tracking-widest text-accent">Season {season.id} Standings</h2>
+              <span className="text-[10px] text-muted">
+                Ratings reset {season.resetBps / 100}% toward 1200 at the close
+              </span>
+            </div>
+            {standingsLoading ? (
+              <div className="p-6 space-y-4">
+                {[...Array(4)].map((_, i) => (
+                  <div key={i} className="animate-pulse h-8 bg-border rounded" />
+                ))}
+              </div>
+            ) : standings.length === 0 ? (
+              <div className="p-8 text-center border-2 border-dashed border-border m-6">
+                <p className="text-sm text-muted">No players were registered this season.</p>
+              </div>
+            ) : (
+              <div className="divide-y-2 divide-border">
+                {standings.map((s, idx) => (
+                  <div key={s.player} className={`px-6 py-4 flex items-center gap-4 ${idx % 2 === 1 ? "bg-surface/30" : ""}`}>
+                    <div className={`w-10 text-center ${rankClass(idx)}`}>{rankLabel(idx)}</div>
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm font-bold text-white truncate">
+                        {s.player.slice(0, 6)}...{s.player.slice(-4)}
+                      </div>
+                      <div className="flex items-center gap-3 mt-1 text-[10px] text-muted">
+                        <span>
+                          W/L/D: <span className="text-white font-bold">{s.wins}/{s.losses}/{s.draws}</span>
+                        </span>
+                        <span>Peak: <span className="text-white font-bold">{s.peakElo}</span></span>
+                        <span>Best streak: <span className="text-white font-bold">{s.longestStreak}</span></span>
+                      </div>
+                    </div>
+                    <div className="text-right w-20">
+                      <div className={`text-xl font-bold ${eloTierColor(s.elo)}`}>{s.elo}</div>
+                      <div className="text-[10px] text-muted">final</div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+        </>
+      ) : (
+        <>
+
+        {/* Stats bar */}
+        <div className="grid grid-cols-3 gap-4">
+          <div className="card text-center">
+            <span className="label">Players</span>
+            <div className="stat-number-green mt-1">
+              {loading ? "-" : entries.length}
+            </div>
           </div>
-        </div>
-        <div className="card text-center">
-          <span className="label">Top ELO</span>
-          <div className="stat-number-green mt-1">
-            {loading ? "-" : entries[0]?.effectiveElo ?? "-"}
+          <div className="card text-center">
+            <span className="label">Issuers</span>
+            <div className="stat-number-amber mt-1">
+              {loading ? "-" : Array.from(new Set(entries.map((e) => e.issuer))).length}
+            </div>
+          </div>
+          <div className="card text-center">
+            <span className="label">Top ELO</span>
+            <div className="stat-number-green mt-1">
+              {loading ? "-" : entries[0]?.effectiveElo ?? "-"}
+            </div>
           </div>
         </div>
-      </div>
 
-      {/* View toggle */}
-      <div className="flex border-2 border-border">
-        <button
-          onClick={() => setViewMode("issuer")}
-          className={`flex-1 px-4 py-2.5 text-xs font-bold uppercase tracking-widest transition-all duration-200 ${viewMode === "issuer"
-              ? "bg-accent text-bg"
-              : "bg-transparent text-muted hover:text-white hover:bg-surface/50"
-            }`}
-        >
-          Per-Issuer
-        </button>
-        <button
-          onClick={() => setViewMode("aggregate")}
-          className={`flex-1 px-4 py-2.5 text-xs font-bold uppercase tracking-widest border-l-2 border-border transition-all duration-200 ${viewMode === "aggregate"
-              ? "bg-cyan-500 text-bg"
-              : "bg-transparent text-muted hover:text-white hover:bg-surface/50"
-            }`}
-        >
-          {"🌐"} Aggregate
-        </button>
-      </div>
-
-      {/* Leaderboard table */}
-      <section className="card p-0 overflow-hidden">
-        <div className="flex items-center justify-between px-6 py-4 border-b-2 border-border">
-          <h2 className="text-sm font-bold uppercase tracking-widest text-accent">
-            {viewMode === "aggregate" ? "\uD83C\uDF10 Aggregate Rankings" : "Rankings"}
-          </h2>
-          <button onClick={load} disabled={loading} className="btn-secondary btn-small">
-            {loading ? "Loading..." : "Refresh"}
+        {/* View toggle */}
+        <div className="flex border-2 border-border">
+          <button
+            onClick={() => setViewMode("issuer")}
+            className={`flex-1 px-4 py-2.5 text-xs font-bold uppercase tracking-widest transition-all duration-200 ${viewMode === "issuer"
+                ? "bg-accent text-bg"
+                : "bg-transparent text-muted hover:text-white hover:bg-surface/50"
+              }`}
+          >
+            Per-Issuer
+          </button>
+          <button
+            onClick={() => setViewMode("aggregate")}
+            className={`flex-1 px-4 py-2.5 text-xs font-bold uppercase tracking-widest border-l-2 border-border transition-all duration-200 ${viewMode === "aggregate"
+                ? "bg-cyan-500 text-bg"
+                : "bg-transparent text-muted hover:text-white hover:bg-surface/50"
+              }`}
+          >
+            {"🌐"} Aggregate
           </button>
         </div>
 
-        {loading ? (
-          <div className="p-6 space-y-4">
-            {[...Array(4)].map((_, i) => (
-              <div key={i} className="animate-pulse flex items-center gap-4">
-                <div className="w-10 h-10 bg-border rounded" />
-                <div className="flex-1 space-y-2">
-                  <div className="h-4 bg-border rounded w-1/3" />
-                  <div className="h-3 bg-border rounded w-1/2" />
-                </div>
-                <div className="w-16 h-6 bg-border rounded" />
-              </div>
-            ))}
+        {/* Leaderboard table */}
+        <section className="card p-0 overflow-hidden">
+          <div className="flex items-center justify-between px-6 py-4 border-b-2 border-border">
+            <h2 className="text-sm font-bold uppercase tracking-widest text-accent">
+              {viewMode === "aggregate" ? "\uD83C\uDF10 Aggregate Rankings" : "Rankings"}
+            </h2>
+            <button onClick={load} disabled={loading} className="btn-secondary btn-small">
+              {loading ? "Loading..." : "Refresh"}
+            </button>
           </div>
-        ) : entries.length === 0 ? (
-          <div className="p-8 text-center border-2 border-dashed border-border m-6">
-            <p className="text-sm text-muted">No credentialed users found.</p>
-          </div>
-        ) : viewMode === "aggregate" ? (
-          /* ── Aggregate View ──────────────────────────────────────── */
-          <div className="divide-y-2 divide-border">
-            {(() => {
-              // Build unique players by address, merge across issuers
-              const playerMap = new Map<string, { name: string; entries: LeaderboardEntry[] }>();
-              for (const e of entries) {
-                const existing = playerMap.get(e.address);
-                if (existing) {
-                  existing.entries.push(e);
-                } else {
-                  playerMap.set(e.address, { name: e.playerName, entries: [e] });
-                }
-              }
-              // Build aggregate rows
-              const aggRows = Array.from(playerMap.entries()).map(([addr, { name, entries: es }]) => {
-                const agg = aggregateScores[addr];
-                if (agg && agg.issuerCount > 1) {
-                  return { address: addr, playerName: name, ...agg };
-                }
-                // Single-issuer fallback
-                const e = es[0];
-                return {
-                  address: addr,
-                  playerName: name,
-                  compositeElo: e.overallElo,
-                  compositePercentile: e.percentile,
-                  totalMatches: e.totalMatches,
-                  issuerCount: 1,
-                  domainCount: e.skillDomains.length,
-                  crossDomainBonus: 0,
-                  overallScore: e.effectiveElo,
-                };
-              });
-              aggRows.sort((a, b) => b.overallScore - a.overallScore);
 
-              return aggRows.map((row, idx) => (
-                <div key={row.address} className="px-6 py-4 flex items-center gap-4">
-                  <div className={`w-10 text-center ${rankClass(idx)}`}>
-                    {rankLabel(idx)}
+          {loading ? (
+            <div className="p-6 space-y-4">
+              {[...Array(4)].map((_, i) => (
+                <div key={i} className="animate-pulse flex items-center gap-4">
+                  <div className="w-10 h-10 bg-border rounded" />
+                  <div className="flex-1 space-y-2">
+                    <div className="h-4 bg-border rounded w-1/3" />
+                    <div className="h-3 bg-border rounded w-1/2" />
                   </div>
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-center gap-2">
-                      <span className="text-sm font-bold text-white truncate">
-                        {row.playerName}
-                      </span>
-                      {row.issuerCount > 1 && (
-                        <span className="badge-cyan text-[10px]">
-                          {"🌐"} Multi-Issuer
-                        </span>
-                      )}
+                  <div className="w-16 h-6 bg-border rounded" />
+                </div>
+              ))}
+            </div>
+          ) : entries.length === 0 ? (
+            <div className="p-8 text-center border-2 border-dashed border-border m-6">
+              <p className="text-sm text-muted">No credentialed users found.</p>
+            </div>
+          ) : viewMode === "aggregate" ? (
+            /* ── Aggregate View ──────────────────────────────────────── */
+            <div className="divide-y-2 divide-border">
+              {(() => {
+                // Build unique players by address, merge across issuers
+                const playerMap = new Map<string, { name: string; entries: LeaderboardEntry[] }>();
+                for (const e of entries) {
+                  const existing = playerMap.get(e.address);
+                  if (existing) {
+                    existing.entries.push(e);
+                  } else {
+                    playerMap.set(e.address, { name: e.playerName, entries: [e] });
+                  }
+                }
+                // Build aggregate rows
+                const aggRows = Array.from(playerMap.entries()).map(([addr, { name, entries: es }]) => {
+                  const agg = aggregateScores[addr];
+                  if (agg && agg.issuerCount > 1) {
+                    return { address: addr, playerName: name, ...agg };
+                  }
+                  // Single-issuer fallback
+                  const e = es[0];
+                  return {
+                    address: addr,
+                    playerName: name,
+                    compositeElo: e.overallElo,
+                    compositePercentile: e.percentile,
+                    totalMatches: e.totalMatches,
+                    issuerCount: 1,
+                    domainCount: e.skillDomains.length,
+                    crossDomainBonus: 0,
+                    overallScore: e.effectiveElo,
+                  };
+                });
+                aggRows.sort((a, b) => b.overallScore - a.overallScore);
+
+                return aggRows.map((row, idx) => (
+                  <div key={row.address} className="px-6 py-4 flex items-center gap-4">
+                    <div className={`w-10 text-center ${rankClass(idx)}`}>
+                      {rankLabel(idx)}
                     </div>
-                    <div className="text-xs text-muted truncate">
-                      {row.address.slice(0, 6)}...{row.address.slice(-4)}
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm font-bold text-white truncate">
+                          {row.playerName}
+                        </span>
+                        {row.issuerCount > 1 && (
+                          <span className="badge-cyan text-[10px]">
+                            {"🌐"} Multi-Issuer
+                          </span>
+                        )}
+                      </div>
+                      <div className="text-xs text-muted truncate">
+                        {row.address.slice(0, 6)}...{row.address.slice(-4)}
+                      </div>
+                      <div className="flex items-center gap-3 mt-1 text-[10px] text-muted">
+                        <span>Composite ELO: <span className="text-white font-bold">{row.compositeElo}</span></span>
+                        {row.crossDomainBonus > 0 && (
+                          <span>+ Cross-domain: <span className="text-accent font-bold">+{row.crossDomainBonus}</span></span>
+                        )}
+                        <span>{row.issuerCount} issuer{row.issuerCount !== 1 ? "s" : ""}</span>
+                        <span>{row.domainCount} domains</span>
+                      </div>
                     </div>
-                    <div className="flex items-center gap-3 mt-1 text-[10px] text-muted">
-                      <span>Composite ELO: <span className="text-white font-bold">{row.compositeElo}</span></span>
-                      {row.crossDomainBonus > 0 && (
-                        <span>+ Cross-domain: <span className="text-accent font-bold">+{row.crossDomainBonus}</span></span>
-                      )}
-                      <span>{row.issuerCount} issuer{row.issuerCount !== 1 ? "s" : ""}</span>
-                      <span>{row.domainCount} domains</span>
+                    <div className="text-right w-20">
+                      <div className="text-lg font-bold text-accent">
+                        {row.overallScore}
+                      </div>
+                      <div className="text-[10px] text-muted">overall</div>
                     </div>
                   </div>
-                  <div className="text-right w-20">
-                    <div className="text-lg font-bold text-accent">
-                      {row.overallScore}
+                ));
+              })()}
+            </div>
+          ) : (
+            /* ── Per-Issuer View ─────────────────────────────────────── */
+            <div className="divide-y-2 divide-border">
+              {entries.map((entry, idx) => (
+                <div key={`${entry.address}-${entry.issuer}`} className={idx % 2 === 1 ? "bg-surface/30" : ""}>
+                  {/* Main row */}
+                  <button
+                    onClick={() => toggleExpand(idx)}
+                    className="w-full px-6 py-4 flex items-center gap-4 hover:bg-surface/50 transition-colors text-left"
+                  >
+                    {/* Rank */}
+                    <div className={`w-10 text-center ${rankClass(idx)}`}>
+                      {rankLabel(idx)}
                     </div>
-                    <div className="text-[10px] text-muted">overall</div>
-                  </div>
-                </div>
-              ));
-            })()}
-          </div>
-        ) : (
-          /* ── Per-Issuer View ─────────────────────────────────────── */
-          <div className="divide-y-2 divide-border">
-            {entries.map((entry, idx) => (
-              <div key={`${entry.address}-${entry.issuer}`} className={idx % 2 === 1 ? "bg-surface/30" : ""}>
-                {/* Main row */}
-                <button
-                  onClick={() => toggleExpand(idx)}
-                  className="w-full px-6 py-4 flex items-center gap-4 hover:bg-surface/50 transition-colors text-left"
-                >
-                  {/* Rank */}
-                  <div className={`w-10 text-center ${rankClass(idx)}`}>
-                    {rankLabel(idx)}
-                  </div>
 
-                  {/* Player info */}
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-center gap-2">
-                      <span className="text-sm font-bold text-white truncate">
-                        {entry.playerName}
-                      </span>
-                      <span className="badge-muted text-[10px]">{entry.issuer}</span>
-                      {aggregateScores[entry.address]?.issuerCount > 1 && (
-                        <span className="badge-cyan text-[10px]">
-                          {"🌐"} Multi
+                    {/* Player info */}
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm font-bold text-white truncate">
+                          {entry.playerName}
                         </span>
-                      )}
-                    </div>
-                    <div className="text-xs text-muted truncate">
-                      {entry.address.slice(0, 6)}...{entry.address.slice(-4)}
+                        <span className="badge-muted text-[10px]">{entry.issuer}</span>
+                        {issuerStakes[entry.issuerAddress]?.slashCount > 0 ? (
+                          <span className="badge-pink text-[10px]" title="Issuer stake has been slashed">
+                            Slashed
+                          </span>
+                        ) : issuerStakes[entry.issuerAddress] && !issuerStakes[entry.issuerAddress].valid ? (
+                          <span className="badge-amber text-[10px]" title="Issuer stake is below the minimum">
+                            Under-staked
+                          </span>
+                        ) : null}
+                        {aggregateScores[entry.address]?.issuerCount > 1 && (
+                          <span className="badge-cyan text-[10px]">
+                            {"🌐"} Multi
+                          </span>
+                        )}
+                      </div>
+                      <div className="text-xs text-muted truncate">
+                        {entry.address.slice(0, 6)}...{entry.address.slice(-4)}
+                      </div>
                     </div>
-                  </div>
-
-                  {/* Reputation */}
-                  <div className="text-right">
-                    <span className={`text-xs ${repColor(entry.reputationBonus)}`}>
-                      {entry.reputationBonus > 0 ? "+" : ""}
-                      {entry.reputationBonus} rep
-                    </span>
-                  </div>
 
-                  {/* Effective ELO */}
-                  <div className="text-right w-20">
-                    <div className={`text-xl font-bold ${eloTierColor(entry.effectiveElo)}`}>
-                      {entry.effectiveElo}
+                    {/* Reputation */}
+                    <div className="text-right">
+                      <span className={`text-xs ${repColor(entry.reputationBonus)}`}>
+                        {entry.reputationBonus > 0 ? "+" : ""}
+                        {entry.reputationBonus} rep
+                      </span>
                     </div>
-                    {entry.reputationBonus !== 0 && (
-                      <div className="text-[10px] text-muted">
-                        base {entry.overallElo}
-                      </div>
-                    )}
-                  </div>
-
-                  {/* Expand indicator */}
-                  <div className="text-muted text-xs w-4">
-                    {expanded[idx] ? "\u25B2" : "\u25BC"}
-                  </div>
-                </button>
 
-                {/* Expanded details */}
-                {expanded[idx] && (
-                  <div className="px-6 pb-4 bg-bg border-t border-border">
-                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 py-3">
-                      <div>
-                        <span className="label">Percentile</span>
-                        <div className="text-sm font-bold text-white">{entry.percentile}th</div>
-                      </div>
-                      <div>
-                        <span className="label">Matches</span>
-                        <div className="text-sm font-bold text-white">{entry.totalMatches}</div>
-                      </div>
-                      <div>
-                        <span className="label">Win Rate</span>
-                        <div className="text-sm font-bold text-white">{entry.winRate}%</div>
-                      </div>
-                      <div>
-                        <span className="label">Issuer</span>
-                        <div className="text-sm font-bold text-white">{entry.issuer}</div>
+                    {/* Effective ELO */}
+                    <div className="text-right w-20">
+                      <div className={`text-xl font-bold ${eloTierColor(entry.effectiveElo)}`}>
+                        {entry.effectiveElo}
                       </div>
+                      {entry.reputationBonus !== 0 && (
+                        <div className="text-[10px] text-muted">
+                          base {entry.overallElo}
+                        </div>
+                      )}
                     </div>
 
-                    {/* Skill domains */}
-                    <div className="pt-2 border-t border-border">
-                      <span className="label">Skill Domains</span>
-                      <div className="flex flex-wrap gap-2 mt-1">
-                        {entry.skillDomains.map((d) => (
-                          <span key={d} className="badge-muted text-[10px]">
-                            {d}
-                          </span>
-                        ))}
-                      </div>
+                    {/* Expand indicator */}
+                    <div className="text-muted text-xs w-4">
+                      {expanded[idx] ? "\u25B2" : "\u25BC"}
                     </div>
+                  </button>
 
-                    {/* Reputation breakdown */}
-                    <div className="pt-3 border-t border-border mt-3">
-                      <span className="label">ELO Breakdown</span>
-                      <div className="flex items-center gap-3 mt-1 text-xs">
-                        <span className="text-muted">Base ELO:</span>
-                        <span className="text-white font-bold">{entry.overallElo}</span>
-                        <span className="text-muted">+</span>
-                        <span className="text-muted">Reputation:</span>
-                        <span className={`font-bold ${repColor(entry.reputationBonus)}`}>
-                          {entry.reputationBonus > 0 ? "+" : ""}{entry.reputationBonus}
-                        </span>
-                        <span className="text-muted">=</span>
-                        <span className="text-accent font-bold">{entry.effectiveElo}</span>
+                  {/* Expanded details */}
+                  {expanded[idx] && (
+                    <div className="px-6 pb-4 bg-bg border-t border-border">
+                      <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 py-3">
+                        <div>
+                          <span className="label">Percentile</span>
+                          <div className="text-sm font-bold text-white">{entry.percentile}th</div>
+                        </div>
+                        <div>
+                          <span className="label">Matches</span>
+                          <div className="text-sm font-bold text-white">{entry.totalMatches}</div>
+                        </div>
+                        <div>
+                          <span className="label">Win Rate</span>
+                          <div className="text-sm font-bold text-white">{entry.winRate}%</div>
+                        </div>
+                        <div>
+                          <span className="label">Issuer</span>
+                          <div className="text-sm font-bold text-white">{entry.issuer}</div>
+                        </div>
+                      </div>
+
+                      {/* Skill domains */}
+                      <div className="pt-2 border-t border-border">
+                        <span className="label">Skill Domains</span>
+                        <div className="flex flex-wrap gap-2 mt-1">
+                          {entry.skillDomains.map((d) => (
+                            <span key={d} className="badge-muted text-[10px]">
+                              {d}
+                            </span>
+                          ))}
+                        </div>
                       </div>
-                    </div>
 
-                    {/* Aggregate score (if multi-issuer) */}
-                    {aggregateScores[entry.address]?.issuerCount > 1 && (
+                      {/* Reputation breakdown */}
                       <div className="pt-3 border-t border-border mt-3">
-                        <span className="label">{"\uD83C\uDF10"} Aggregate Score</span>
+                        <span className="label">ELO Breakdown</span>
                         <div className="flex items-center gap-3 mt-1 text-xs">
-                          <span className="text-muted">Composite:</span>
-                          <span className="text-white font-bold">{aggregateScores[entry.address].compositeElo}</span>
+                          <span className="text-muted">Base ELO:</span>
+                          <span className="text-white font-bold">{entry.overallElo}</span>
                           <span className="text-muted">+</span>
-                          <span className="text-muted">Cross-domain:</span>
-                          <span className="text-accent font-bold">+{aggregateScores[entry.address].crossDomainBonus}</span>
+                          <span className="text-muted">Reputation:</span>
+                          <span className={`font-bold ${repColor(entry.reputationBonus)}`}>
+                            {entry.reputationBonus > 0 ? "+" : ""}{entry.reputationBonus}
+                          </span>
                           <span className="text-muted">=</span>
-                          <span className="text-accent font-bold">{aggregateScores[entry.address].overallScore}</span>
+                          <span className="text-accent font-bold">{entry.effectiveElo}</span>
                         </div>
                       </div>
-                    )}
-                  </div>
-                )}
-              </div>
-            ))}
-          </div>
-        )}
-      </section>
+
+                      {/* Aggregate score (if multi-issuer) */}
+                      {aggregateScores[entry.address]?.issuerCount > 1 && (
+                        <div className="pt-3 border-t border-border mt-3">
+                          <span className="label">{"\uD83C\uDF10"} Aggregate Score</span>
+                          <div className="flex items-center gap-3 mt-1 text-xs">
+                            <span className="text-muted">Composite:</span>
+                            <span className="text-white font-bold">{aggregateScores[entry.address].compositeElo}</span>
+                            <span className="text-muted">+</span>
+                            <span className="text-muted">Cross-domain:</span>
+                            <span className="text-accent font-bold">+{aggregateScores[entry.address].crossDomainBonus}</span>
+                            <span className="text-muted">=</span>
+                            <span className="text-accent font-bold">{aggregateScores[entry.address].overallScore}</span>
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+        </>
+      )}
     </div>
   );
 }
@@ -0,0 +1,473 @@
+import { useEffect, useState } from "react";
+import { useApp } from "@/pages/_app";
+import { MatchOutcome } from "@/lib/services/engine-index";
+import {
+  getTournamentService,
+  Tournament,
+  TournamentBracket,
+  TournamentEntrant,
+  TournamentFormat,
+  TournamentPairing,
+} from "@/lib/services/tournament-index";
+
+// Demo writes act as the Engine demo's account
+const DEMO_SELF = "0xa0Ee7A142d267C1f36714E4a8F75612F20a79720";
+
+const FORMATS: { value: TournamentFormat; label: string }[] = [
+  { value: "single-elimination", label: "Single Elimination" },
+  { value: "double-elimination", label: "Double Elimination" },
+  { value: "swiss", label: "Swiss" },
+];
+
+const BRACKETS: { key: TournamentBracket; title: string }[] = [
+  { key: "winners", title: "Winners Bracket" },
+  { key: "losers", title: "Losers Bracket" },
+  { key: "grand-final", title: "Grand Final" },
+];
+
+function shortAddr(addr: string) {
+  return addr.length > 12 ? `${addr.slice(0, 6)}...${addr.slice(-4)}` : addr;
+}
+
+function ordinal(n: number) {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? "th" : ["th", "st", "nd", "rd"][n % 10] ?? "th";
+  return `${n}${suffix}`;
+}
+
+function formatAmount(amount: string) {
+  return Number(amount).toFixed(4).replace(/\.?0+$/, "");
+}
+
+function formatLabel(format: TournamentFormat) {
+  return FORMATS.find((f) => f.value === format)!.label;
+}
+
+function statusBadge(status: Tournament["status"]) {
+  if (status === "registration") return "badge-amber";
+  if (status === "active") return "badge-cyan";
+  if (status === "completed") return "badge-green";
+  return "badge-muted";
+}
+
+interface PairingCardProps {
+  pairing: TournamentPairing;
+  seedOf: (player: string) => number;
+  allowDraw: boolean;
+  canReport: boolean;
+  busy: boolean;
+  onReport: (pairing: TournamentPairing, outcome: MatchOutcome) => void;
+}
+
+/** One pairing: both sides with seeds, the winner highlighted, report buttons while pending */
+function PairingCard({ pairing, seedOf, allowDraw, canReport, busy, onReport }: PairingCardProps) {
+  const pending = pairing.outcome === null;
+  const side = (player: string | null, outcome: 1 | 2) => {
+    const won = pairing.outcome === outcome;
+    const drew = pairing.outcome === 3;
+    return (
+      <div className="flex items-center justify-between gap-2">
+        {player ? (
+          <span className={won ? "text-accent font-bold" : pending || drew ? "text-white" : "text-muted line-through"}>
+            <span className="text-muted mr-1">{seedOf(player)}</span>
+            {shortAddr(player)}
+          </span>
+        ) : (
+          <span className="text-muted italic">bye</span>
+        )}
+        {pending && canReport && player && (
+          <button onClick={() => onReport(pairing, outcome)} disabled={busy} className="btn-secondary btn-small">
+            Won
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="border-2 border-border p-2 space-y-1 text-xs w-48">
+      {side(pairing.player1, 1)}
+      {side(pairing.player2, 2)}
+      <div className="flex items-center justify-between text-muted">
+        <span>#{pairing.index}</span>
+        {pairing.engineMatchId !== null && <span>Engine #{pairing.engineMatchId}</span>}
+        {pairing.outcome === 3 && <span className="badge-muted">Draw</span>}
+        {pending && canReport && allowDraw && (
+          <button onClick={() => onReport(pairing, 3)} disabled={busy} className="btn-ghost btn-small">
+            Draw
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function TournamentsPage() {
+  const { demoMode, wallet, setResponseData, showToast } = useApp();
+  const service = getTournamentService(demoMode);
+  const me = demoMode ? DEMO_SELF : wallet;
+
+  const [tournaments, setTournaments] = useState<Tournament[] | null>(null);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [claimable, setClaimable] = useState<string | null>(null);
+
+  // Create form state
+  const [name, setName] = useState("");
+  const [format, setFormat] = useState<TournamentFormat>("single-elimination");
+  const [domain, setDomain] = useState("derivatives");
+  const [entryFee, setEntryFee] = useState("0.5");
+  const [maxPlayers, setMaxPlayers] = useState("8");
+  const [rounds, setRounds] = useState("3");
+  const [payouts, setPayouts] = useState("60, 30, 10");
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    loadTournaments();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [demoMode]);
+
+  useEffect(() => {
+    if (me) service.getClaimable(me).then(setClaimable).catch(() => setClaimable(null));
+    else setClaimable(null);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [demoMode, me, tournaments]);
+
+  async function loadTournaments() {
+    setLoading(true);
+    try {
+      const list = await service.getTournaments();
+      setTournaments(list);
+      setSelected((current) => (current !== null && current < list.length ? current : list.length > 0 ? list.length - 1 : null));
+    } catch (e) {
+      showToast({ type: "error", message: (e as Error).message });
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function act<T>(label: string, action: () => Promise<T>) {
+    setBusy(true);
+    try {
+      const result = await action();
+      setResponseData(result);
+      showToast({ type: "success", message: label });
+      await loadTournaments();
+    } catch (e) {
+      showToast({ type: "error", message: (e as Error).message });
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleCreate() {
+    const payoutBps = payouts.split(",").map((p) => Math.round(Number(p.trim()) * 100));
+    if (!name || payoutBps.some((p) => !Number.isFinite(p) || p <= 0)) {
+      showToast({ type: "error", message: "Name and payout percentages required" });
+      return;
+    }
+    setCreating(true);
+    try {
+      const result = await service.createTournament({
+        name,
+        format,
+        domain: domain.trim(),
+        entryFee,
+        maxPlayers: Number(maxPlayers),
+        rounds: format === "swiss" ? Number(rounds) : 0,
+        payoutBps,
+      });
+      setResponseData(result);
+      showToast({ type: "success", message: `Tournament #${result.tournamentId} open for registration` });
+      setName("");
+      await loadTournaments();
+      setSelected(result.tournamentId);
+    } catch (e) {
+      showToast({ type: "error", message: (e as Error).message });
+    } finally {
+      setCreating(false);
+    }
+  }
+
+  const t = tournaments && selected !== null ? tournaments[selected] : null;
+  const isOrganizer = !!t && (demoMode || (!!wallet && t.organizer.toLowerCase() === wallet.toLowerCase()));
+  const joined = !!t && !!me && t.entrants.some((e) => e.player.toLowerCase() === me.toLowerCase());
+
+  function seedOf(player: string) {
+    return t?.entrants.find((e) => e.player.toLowerCase() === player.toLowerCase())?.seed ?? 0;
+  }
+
+  function standings(): TournamentEntrant[] {
+    if (!t) return [];
+    if (t.status === "completed") return [...t.entrants].sort((a, b) => (a.place ?? 0) - (b.place ?? 0) || a.seed - b.seed);
+    if (t.format === "swiss" && t.status === "active") return [...t.entrants].sort((a, b) => b.points - a.points || a.seed - b.seed);
+    return t.entrants;
+  }
+
+  function renderBracket(tournament: Tournament) {
+    const groups = BRACKETS.map((b) => ({ ...b, pairings: tournament.pairings.filter((p) => p.bracket === b.key) })).filter(
+      (b) => b.pairings.length > 0
+    );
+    return groups.map((group) => {
+      const roundNumbers = Array.from(new Set(group.pairings.map((p) => p.round)));
+      return (
+        <div key={group.key} className="space-y-2">
+          {tournament.format !== "swiss" && (
+            <h3 className="text-xs font-bold uppercase tracking-widest text-white">{group.title}</h3>
+          )}
+          <div className="flex gap-4 overflow-x-auto pb-2">
+            {roundNumbers.map((round) => (
+              <div key={round} className="space-y-2 flex flex-col justify-around">
+                <div className="label">Round {round}</div>
+                {group.pairings
+                  .filter((p) => p.round === round)
+                  .map((p) => (
+                    <PairingCard
+                      key={p.index}
+                      pairing={p}
+                      seedOf={seedOf}
+                      allowDraw={tournament.format === "swiss"}
+                      canReport={isOrganizer && tournament.status === "active" && p.round === tournament.currentRound}
+                      busy={busy}
+                      onReport={(pairing, outcome) =>
+                        act(`Pairing #${pairing.index} reported`, () => service.reportResult(tournament.id, pairing.index, outcome))
+                      }
+                    />
+                  ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      );
+    });
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-8 animate-fade-in">
+      <div>
+        <h1 className="text-3xl font-bold mb-1 tracking-wide">TOURNAMENTS</h1>
+        <p className="text-xs text-muted font-body">
+          Brackets seeded by Engine ELO &mdash; entry fees fund the prize pool, every result is recorded on the Engine
+          {demoMode && <span className="badge-pink ml-2">Demo</span>}
+        </p>
+      </div>
+
+      {/* Section A: Tournament list */}
+      <section className="card space-y-4 border-t-4 border-t-accent">
+        <div className="flex items-center justify-between">
+          <h2 className="text-sm font-bold uppercase tracking-widest text-accent">Tournaments</h2>
+          <button onClick={loadTournaments} disabled={loading} className="btn-secondary btn-small">
+            {loading ? "Loading..." : "Refresh"}
+          </button>
+        </div>
+        {tournaments && tournaments.length === 0 && <p className="text-xs text-muted">No tournaments yet.</p>}
+        <div className="flex flex-wrap gap-2">
+          {tournaments?.map((item) => (
+            <button
+              key={item.id}
+              onClick={() => setSelected(item.id)}
+              className={`border-2 p-2 text-left text-xs space-y-1 ${item.id === selected ? "border-accent" : "border-border"}`}
+            >
+              <div className="text-white font-bold">
+                #{item.id} {item.name}
+              </div>
+              <div className="flex gap-1 items-center">
+                <span className={statusBadge(item.status)}>{item.status}</span>
+                <span className="text-muted">
+                  {formatLabel(item.format)} &middot; {item.entrants.length}/{item.maxPlayers}
+                </span>
+              </div>
+            </button>
+          ))}
+        </div>
+        {claimable !== null && Number(claimable) > 0 && (
+          <div className="flex items-center justify-between border-t-2 border-border pt-3 text-xs">
+            <span className="text-muted">
+              Winnings and refunds to claim: <span className="text-accent font-bold">{formatAmount(claimable)} C2FLR</span>
+            </span>
+            <button
+              onClick={() => act("Winnings claimed", () => service.claimWinnings())}
+              disabled={busy}
+              className="btn-primary btn-small"
+            >
+              Claim
+            </button>
+          </div>
+        )}
+      </section>
+
+      {/* Section B: Selected tournament */}
+      {t && (
+        <section className="card space-y-4">
+          <div className="flex items-center justify-between gap-2 flex-wrap">
+            <div className="flex items-center gap-2">
+              <h2 className="text-sm font-bold uppercase tracking-widest text-white">{t.name}</h2>
+              <span className={statusBadge(t.status)}>{t.status}</span>
+              <span className="badge-muted">{formatLabel(t.format)}</span>
+            </div>
+            <span className="text-xs text-muted">
+              Pool <span className="text-accent font-bold">{formatAmount(t.prizePool)} C2FLR</span>
+            </span>
+          </div>
+
+          <div className="text-xs text-muted space-y-1">
+            <div>
+              Entry {formatAmount(t.entryFee)} C2FLR &middot; {t.entrants.length}/{t.maxPlayers} players &middot; Domain{" "}
+              <span className="text-white">{t.domain || "—"}</span>
+              {t.format === "swiss" && (
+                <>
+                  {" "}
+                  &middot; {t.rounds} rounds
+                </>
+              )}
+              {t.currentRound > 0 && (
+                <>
+                  {" "}
+                  &middot; Round <span className="text-white">{t.currentRound}</span>
+                </>
+              )}
+            </div>
+            <div>
+              Payouts:{" "}
+              {t.payoutBps.map((bps, i) => (
+                <span key={i} className="mr-2">
+                  {ordinal(i + 1)} <span className="text-white">{bps / 100}%</span>
+                </span>
+              ))}
+            </div>
+            {t.champion && (
+              <div>
+                Champion <span className="text-accent font-bold">{t.champion}</span>
+              </div>
+            )}
+          </div>
+
+          {t.status === "registration" && (
+            <div className="flex gap-2 flex-wrap border-t-2 border-border pt-3">
+              <button
+                onClick={() => act(`Joined ${t.name}`, () => service.joinTournament(t.id))}
+                disabled={busy || joined || t.entrants.length >= t.maxPlayers}
+                className="btn-primary btn-small"
+              >
+                {joined ? "Joined" : `Join (${formatAmount(t.entryFee)} C2FLR)`}
+              </button>
+              {isOrganizer && (
+                <>
+                  <button
+                    onClick={() => act(`${t.name} started`, () => service.startTournament(t.id))}
+                    disabled={busy || t.entrants.length < 2}
+                    className="btn-secondary btn-small"
+                  >
+                    Seed &amp; Start
+                  </button>
+                  <button
+                    onClick={() => act(`${t.name} cancelled, entry fees refundable`, () => service.cancelTournament(t.id))}
+                    disabled={busy}
+                    className="btn-pink btn-small"
+                  >
+                    Cancel
+                  </button>
+                </>
+              )}
+            </div>
+          )}
+
+          {t.status === "active" && isOrganizer && (
+            <div className="flex gap-2 flex-wrap border-t-2 border-border pt-3">
+              <button
+                onClick={() => act(`${t.name} cancelled, entry fees refundable`, () => service.cancelTournament(t.id))}
+                disabled={busy}
+                className="btn-pink btn-small"
+              >
+                Cancel &amp; Refund
+              </button>
+            </div>
+          )}
+
+          {t.pairings.length > 0 && <div className="space-y-4 border-t-2 border-border pt-3">{renderBracket(t)}</div>}
+
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-muted uppercase tracking-widest text-left">
+                <th className="py-1">{t.status === "completed" ? "Place" : "Seed"}</th>
+                <th className="py-1">Player</th>
+                <th className="py-1 text-right">ELO at Start</th>
+                <th className="py-1 text-right">{t.format === "swiss" ? "Points" : "Losses"}</th>
+                <th className="py-1 text-right">Prize</th>
+              </tr>
+            </thead>
+            <tbody>
+              {standings().map((e) => (
+                <tr key={e.player} className="border-t border-border">
+                  <td className="py-1">{e.place !== null ? ordinal(e.place) : e.seed || "—"}</td>
+                  <td className={`py-1 ${e.eliminatedRound > 0 ? "text-muted" : "text-white"}`}>{e.player}</td>
+                  <td className="py-1 text-right">{e.seed ? e.eloAtStart : "—"}</td>
+                  <td className="py-1 text-right">{t.format === "swiss" ? e.points / 2 : e.losses}</td>
+                  <td className="py-1 text-right text-accent">
+                    {Number(e.prize) > 0 ? `${formatAmount(e.prize)} C2FLR` : "—"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      )}
+
+      {/* Section C: Create */}
+      {(demoMode || wallet) && (
+        <section className="card space-y-4 border-t-4 border-t-pink">
+          <h2 className="text-sm font-bold uppercase tracking-widest text-pink">Create Tournament</h2>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="label">Name</label>
+              <input className="input-field" placeholder="Friday Blitz" value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+            <div>
+              <label className="label">Format</label>
+              <select
+                className="input-field"
+                value={format}
+                onChange={(e) => setFormat(e.target.value as TournamentFormat)}
+              >
+                {FORMATS.map((f) => (
+                  <option key={f.value} value={f.value}>
+                    {f.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="label">Domain</label>
+              <input className="input-field" value={domain} onChange={(e) => setDomain(e.target.value)} />
+            </div>
+            <div>
+              <label className="label">Entry Fee (C2FLR)</label>
+              <input className="input-field" type="number" min="0" value={entryFee} onChange={(e) => setEntryFee(e.target.value)} />
+            </div>
+            <div>
+              <label className="label">Max Players</label>
+              <input className="input-field" type="number" min="2" max="64" value={maxPlayers} onChange={(e) => setMaxPlayers(e.target.value)} />
+            </div>
+            {format === "swiss" && (
+              <div>
+                <label className="label">Rounds</label>
+                <input className="input-field" type="number" min="1" value={rounds} onChange={(e) => setRounds(e.target.value)} />
+              </div>
+            )}
+            <div className="col-span-2">
+              <label className="label">Payouts by Place (%, comma separated)</label>
+              <input className="input-field" value={payouts} onChange={(e) => setPayouts(e.target.value)} />
+            </div>
+          </div>
+          <p className="text-xs text-muted font-body">
+            Entry fees are held in escrow. Players are seeded by Engine ELO when you start; each result you report is
+            recorded on the Engine. Players knocked out in the same round split the payouts of the places they share.
+          </p>
+          <button onClick={handleCreate} disabled={creating} className="btn-pink w-full">
+            {creating ? "Creating..." : "Create Tournament"}
+          </button>
+        </section>
+      )}
+    </div>
+  );
+}
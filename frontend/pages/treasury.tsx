@@ -0,0 +1,354 @@
+import { useEffect, useState } from "react";
+import { useApp } from "@/pages/_app";
+import {
+  getTreasuryService,
+  TreasuryOverview,
+  RevenueSnapshot,
+  FeeScheduleChange,
+  IssuerRevenue,
+} from "@/lib/services/treasury-index";
+
+const TOP_ISSUERS = 10;
+
+const CATEGORIES = [
+  { key: "credentials", label: "Credential Mints", color: "bg-accent" },
+  { key: "markets", label: "Market Creation", color: "bg-cyan-500" },
+  { key: "verifications", label: "Verifications", color: "bg-amber-500" },
+  { key: "bounties", label: "Bounty Commission", color: "bg-pink" },
+] as const;
+
+function formatDate(ts: number) {
+  return new Date(ts * 1000).toLocaleDateString();
+}
+
+function shortAddr(addr: string) {
+  return addr.length > 12 ? `${addr.slice(0, 6)}...${addr.slice(-4)}` : addr;
+}
+
+function formatFlr(value: string) {
+  return parseFloat(value).toFixed(4);
+}
+
+/** Percent change from `prev` to `curr`, null when there is no baseline */
+function periodChange(curr: string, prev: string | undefined): number | null {
+  if (prev === undefined || parseFloat(prev) === 0) return null;
+  return ((parseFloat(curr) - parseFloat(prev)) / parseFloat(prev)) * 100;
+}
+
+function csvRow(cells: (string | number)[]) {
+  return cells.map((c) => (/[",\n]/.test(String(c)) ? `"${String(c).replace(/"/g, '""')}"` : String(c))).join(",");
+}
+
+function buildCsv(
+  overview: TreasuryOverview,
+  snapshots: RevenueSnapshot[],
+  issuers: IssuerRevenue[],
+  history: FeeScheduleChange[],
+) {
+  const lines = [
+    "Revenue by category (C2FLR)",
+    csvRow(["category", "revenue"]),
+    ...CATEGORIES.map((c) => csvRow([c.key, overview.breakdown[c.key]])),
+    csvRow(["total", overview.breakdown.total]),
+    "",
+    "Revenue snapshots",
+    csvRow(["id", "date", "period_revenue", "cumulative_revenue", "credentials", "markets", "verifications"]),
+    ...snapshots.map((s) =>
+      csvRow([
+        s.id,
+        new Date(s.timestamp * 1000).toISOString(),
+        s.periodRevenue,
+        s.cumulativeRevenue,
+        s.credentialCount,
+        s.marketCount,
+        s.verificationCount,
+      ])
+    ),
+    "",
+    "Top issuers by fees",
+    csvRow(["issuer", "name", "fees_generated"]),
+    ...issuers.map((i) => csvRow([i.issuer, i.name, i.feesGenerated])),
+    "",
+    "Fee schedule history",
+    csvRow(["block", "date", "tx", "credential_fee", "market_fee", "verification_fee", "bounty_commission_bps"]),
+    ...history.map((h) =>
+      csvRow([
+        h.blockNumber,
+        new Date(h.timestamp * 1000).toISOString(),
+        h.txHash,
+        h.credentialFee,
+        h.marketFee,
+        h.verificationFee,
+        h.bountyCommissionBps,
+      ])
+    ),
+  ];
+  return lines.join("\n") + "\n";
+}
+
+export default function TreasuryPage() {
+  const { demoMode, setResponseData, showToast } = useApp();
+  const service = getTreasuryService(demoMode);
+
+  const [overview, setOverview] = useState<TreasuryOverview | null>(null);
+  const [snapshots, setSnapshots] = useState<RevenueSnapshot[]>([]);
+  const [issuers, setIssuers] = useState<IssuerRevenue[]>([]);
+  const [history, setHistory] = useState<FeeScheduleChange[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [snapshotting, setSnapshotting] = useState(false);
+
+  useEffect(() => {
+    load();
+  }, [demoMode]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  async function load() {
+    setLoading(true);
+    try {
+      const [o, s] = await Promise.all([service.getOverview(), service.getSnapshots()]);
+      setOverview(o);
+      setSnapshots(s);
+      setResponseData({ overview: o, snapshots: s });
+    } catch (e) {
+      showToast({ type: "error", message: (e as Error).message });
+    } finally {
+      setLoading(false);
+    }
+    // Log scans are slower and may hit RPC range limits — don't block the rest of the page
+    service.getTopIssuers(TOP_ISSUERS).then(setIssuers).catch(() => setIssuers([]));
+    service.getFeeScheduleHistory().then(setHistory).catch(() => setHistory([]));
+  }
+
+  async function handleSnapshot() {
+    setSnapshotting(true);
+    try {
+      const result = await service.takeSnapshot();
+      setResponseData(result);
+      showToast({ type: "success", message: "Revenue snapshot taken" });
+      await load();
+    } catch (e) {
+      showToast({ type: "error", message: (e as Error).message });
+    } finally {
+      setSnapshotting(false);
+    }
+  }
+
+  function handleExport() {
+    if (!overview) return;
+    const blob = new Blob([buildCsv(overview, snapshots, issuers, history)], { type: "text/csv" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `skillproof-treasury-${new Date().toISOString().slice(0, 10)}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+
+  const total = overview ? parseFloat(overview.breakdown.total) : 0;
+  const maxPeriod = Math.max(0, ...snapshots.map((s) => parseFloat(s.periodRevenue)));
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-8 animate-fade-in">
+      <div className="flex items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold mb-1 tracking-wide">TREASURY</h1>
+          <p className="text-xs text-muted font-body">
+            Protocol revenue from credential, market, verification and bounty fees
+            {demoMode && <span className="badge-pink ml-2">Demo</span>}
+          </p>
+        </div>
+        <button onClick={handleExport} disabled={!overview} className="btn-secondary btn-small">
+          Export CSV
+        </button>
+      </div>
+
+      {loading && !overview && <p className="text-xs text-muted">Loading treasury...</p>}
+
+      {overview && (
+        <>
+          {/* Section A: Revenue by Category */}
+          <section className="card space-y-4 border-t-4 border-t-accent">
+            <div className="flex items-center justify-between">
+              <h2 className="text-sm font-bold uppercase tracking-widest text-accent">Revenue by Category</h2>
+              <span className="text-white font-bold">{formatFlr(overview.breakdown.total)} C2FLR</span>
+            </div>
+            <div className="space-y-3">
+              {CATEGORIES.map((c) => {
+                const value = parseFloat(overview.breakdown[c.key]);
+                const pct = total > 0 ? (value / total) * 100 : 0;
+                return (
+                  <div key={c.key} className="space-y-1">
+                    <div className="flex justify-between text-xs">
+                      <span className="text-muted uppercase tracking-widest">{c.label}</span>
+                      <span className="text-white">
+                        {formatFlr(overview.breakdown[c.key])} C2FLR
+                        <span className="text-muted"> · {pct.toFixed(1)}%</span>
+                      </span>
+                    </div>
+                    <div className="w-full h-2 bg-bg border border-border overflow-hidden">
+                      <div className={`h-full ${c.color} transition-all`} style={{ width: `${pct}%` }} />
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+            <div className="grid grid-cols-5 gap-2 border-t-2 border-border pt-4 text-center">
+              {[
+                ["Credentials", overview.credentialsMinted],
+                ["Markets", overview.marketsCreated],
+                ["Verifications", overview.verificationsProcessed],
+                ["Bounties", overview.bountiesProcessed],
+                ["Balance", formatFlr(overview.balance)],
+              ].map(([label, value]) => (
+                <div key={label}>
+                  <div className="text-[9px] text-muted uppercase tracking-widest">{label}</div>
+                  <div className="text-sm font-bold text-white">{value}</div>
+                </div>
+              ))}
+            </div>
+          </section>
+
+          {/* Section B: Period-over-Period */}
+          <section className="card space-y-4">
+            <div className="flex items-center justify-between">
+              <h2 className="text-sm font-bold uppercase tracking-widest text-white">Revenue per Period</h2>
+              <button onClick={handleSnapshot} disabled={snapshotting} className="btn-secondary btn-small">
+                {snapshotting ? "Processing..." : "Take Snapshot"}
+              </button>
+            </div>
+            {snapshots.length === 0 ? (
+              <p className="text-xs text-muted">No snapshots yet &mdash; anyone can take one to close a period.</p>
+            ) : (
+              <>
+                <div className="flex items-end gap-2 h-40 border-b-2 border-border">
+                  {snapshots.map((s) => {
+                    const height = maxPeriod > 0 ? (parseFloat(s.periodRevenue) / maxPeriod) * 100 : 0;
+                    return (
+                      <div
+                        key={s.id}
+                        className="flex-1 bg-accent/80 hover:bg-accent transition-all"
+                        style={{ height: `${Math.max(height, 1)}%` }}
+                        title={`${formatDate(s.timestamp)}: ${s.periodRevenue} C2FLR`}
+                      />
+                    );
+                  })}
+                </div>
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-muted uppercase tracking-widest text-left">
+                      <th className="py-1">Period</th>
+                      <th className="py-1 text-right">Revenue</th>
+                      <th className="py-1 text-right">Change</th>
+                      <th className="py-1 text-right">Credentials</th>
+                      <th className="py-1 text-right">Markets</th>
+                      <th className="py-1 text-right">Verifications</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {snapshots.map((s, i) => {
+                      const prev = snapshots[i - 1];
+                      const change = periodChange(s.periodRevenue, prev?.periodRevenue);
+                      return (
+                        <tr key={s.id} className="border-t border-border">
+                          <td className="py-1 text-white">{formatDate(s.timestamp)}</td>
+                          <td className="py-1 text-right text-white">{formatFlr(s.periodRevenue)}</td>
+                          <td className={`py-1 text-right ${change === null ? "text-muted" : change >= 0 ? "text-accent" : "text-pink"}`}>
+                            {change === null ? "—" : `${change >= 0 ? "+" : ""}${change.toFixed(1)}%`}
+                          </td>
+                          <td className="py-1 text-right">{s.credentialCount - (prev?.credentialCount ?? 0)}</td>
+                          <td className="py-1 text-right">{s.marketCount - (prev?.marketCount ?? 0)}</td>
+                          <td className="py-1 text-right">{s.verificationCount - (prev?.verificationCount ?? 0)}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </>
+            )}
+          </section>
+
+          {/* Section C: Top Issuers */}
+          <section className="card space-y-4">
+            <h2 className="text-sm font-bold uppercase tracking-widest text-white">Top Issuers by Fees</h2>
+            {issuers.length === 0 ? (
+              <p className="text-xs text-muted">No credential fees found.</p>
+            ) : (
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-muted uppercase tracking-widest text-left">
+                    <th className="py-1">#</th>
+                    <th className="py-1">Issuer</th>
+                    <th className="py-1 text-right">Fees (C2FLR)</th>
+                    <th className="py-1 text-right">Share</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {issuers.map((i, idx) => {
+                    const credentialTotal = parseFloat(overview.breakdown.credentials);
+                    const share = credentialTotal > 0 ? (parseFloat(i.feesGenerated) / credentialTotal) * 100 : 0;
+                    return (
+                      <tr key={i.issuer} className="border-t border-border">
+                        <td className="py-1 text-muted">{idx + 1}</td>
+                        <td className="py-1">
+                          <span className="text-white">{i.name || "Unregistered"}</span>
+                          <span className="text-muted"> {shortAddr(i.issuer)}</span>
+                        </td>
+                        <td className="py-1 text-right text-accent">{formatFlr(i.feesGenerated)}</td>
+                        <td className="py-1 text-right">{share.toFixed(1)}%</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </section>
+
+          {/* Section D: Fee Schedule */}
+          <section className="card space-y-4">
+            <h2 className="text-sm font-bold uppercase tracking-widest text-white">Fee Schedule</h2>
+            <div className="grid grid-cols-4 gap-2 text-center">
+              {[
+                ["Mint", `${overview.schedule.credentialFee} C2FLR`],
+                ["Market", `${overview.schedule.marketFee} C2FLR`],
+                ["Verification", `${overview.schedule.verificationFee} C2FLR`],
+                ["Commission", `${overview.schedule.bountyCommissionBps / 100}%`],
+              ].map(([label, value]) => (
+                <div key={label} className="border-2 border-border p-2">
+                  <div className="text-[9px] text-muted uppercase tracking-widest">{label}</div>
+                  <div className="text-sm font-bold text-accent">{value}</div>
+                </div>
+              ))}
+            </div>
+            {history.length === 0 ? (
+              <p className="text-xs text-muted">Unchanged since deployment.</p>
+            ) : (
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-muted uppercase tracking-widest text-left">
+                    <th className="py-1">Changed</th>
+                    <th className="py-1 text-right">Mint</th>
+                    <th className="py-1 text-right">Market</th>
+                    <th className="py-1 text-right">Verification</th>
+                    <th className="py-1 text-right">Commission</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {[...history].reverse().map((h) => (
+                    <tr key={h.txHash} className="border-t border-border">
+                      <td className="py-1 text-white" title={h.txHash}>
+                        {formatDate(h.timestamp)} <span className="text-muted">#{h.blockNumber}</span>
+                      </td>
+                      <td className="py-1 text-right">{h.credentialFee}</td>
+                      <td className="py-1 text-right">{h.marketFee}</td>
+                      <td className="py-1 text-right">{h.verificationFee}</td>
+                      <td className="py-1 text-right">{h.bountyCommissionBps / 100}%</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </section>
+        </>
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { useRouter } from "next/router";
 import { useApp } from "@/pages/_app";
 import { getService, ProofResult, VerificationResult } from "@/lib/services";
 import { getHubService } from "@/lib/services/hub-index";
+import { proveThreshold, PHASE_LABELS, ProvePhase, ThresholdProofResult } from "@/lib/zk/prover";
 import { JsonRpcProvider, Contract } from "ethers";
 
 const VERIFIER_ADDRESS = "0xBEFded5454c7b3E16f1Db888e8280793735B866b";
@@ -75,6 +76,10 @@ export default function VerifyPage() {
   const [merkleResult, setMerkleResult] = useState<{ verified: boolean; elo: number; threshold: number } | null>(null);
   const [zkStep, setZkStep] = useState<string | null>(null);
   const [zkResult, setZkResult] = useState<{ verified: boolean; elo: number; threshold: number; proof: object } | null>(null);
+  const [zkPhases, setZkPhases] = useState<Partial<Record<ProvePhase, "running" | number>>>({});
+  const [zkProof, setZkProof] = useState<ThresholdProofResult | null>(null);
+  const [zkSubmitting, setZkSubmitting] = useState(false);
+  const [zkFee, setZkFee] = useState<string | null>(null);
 
   useEffect(() => {
     loadMerkleData();
@@ -115,6 +120,7 @@ export default function VerifyPage() {
     try {
       const count = await hub.getZKVerificationCount();
       setZkVerificationCount(count);
+      hub.getZKVerificationFee(wallet || "mock-user").then(setZkFee).catch(() => setZkFee(null));
       if (wallet) {
         const [verified, threshold] = await Promise.all([
           hub.isZKVerified(wallet),
@@ -174,64 +180,53 @@ export default function VerifyPage() {
   }
 
   async function handleZKProve() {
-    if (!demoMode) {
-      showToast({ type: "warning", message: "Live mode: ZK proof generation requires circuit artifacts (WASM + zkey). Use CLI: npx hardhat run scripts/generate-zk-proof.ts" });
+    if (!demoMode && !wallet) {
+      showToast({ type: "warning", message: "Connect your wallet to prove your credential ELO" });
       return;
     }
     setZkProving(true);
     setZkResult(null);
+    setZkProof(null);
+    setZkPhases({});
     try {
       const addr = wallet || DEMO_ADDRESS;
-
-      setZkStep("Loading credential...");
-      await new Promise((r) => setTimeout(r, 500));
-      const cred = await service.getCredential(addr);
-      const elo = cred?.scoreCommitment ? parseInt(cred.scoreCommitment, 16) || 1847 : 1847;
       const threshold = parseInt(zkThresholdInput) || 1500;
 
-      setZkStep("Computing witness...");
-      await new Promise((r) => setTimeout(r, 800));
-      const salt = BigInt(randomHex(8));
-      const commitment = BigInt(elo) + salt * BigInt(2 ** 32);
-
-      setZkStep("Generating Groth16 proof...");
-      await new Promise((r) => setTimeout(r, 1200));
-      const proof = {
-        pi_a: [randomHex(32), randomHex(32), "1"],
-        pi_b: [[randomHex(32), randomHex(32)], [randomHex(32), randomHex(32)], ["1", "0"]],
-        pi_c: [randomHex(32), randomHex(32), "1"],
-        protocol: "groth16",
-        curve: "bn128",
-      };
-      const publicSignals = ["1", String(threshold), String(commitment)];
+      setZkStep("Loading credential...");
+      const elo = await hub.getCredentialElo(addr);
 
-      setZkStep("Verifying on-chain...");
-      await new Promise((r) => setTimeout(r, 500));
-      const verified = elo >= threshold;
+      // Proving runs in a Web Worker; phases are reported as they really happen
+      const proof = await proveThreshold({
+        elo,
+        threshold,
+        basePath: router.basePath,
+        onPhase: (phase, status, ms) => {
+          setZkPhases((p) => ({ ...p, [phase]: status === "done" ? (ms ?? 0) : "running" }));
+          if (status === "start") setZkStep(`${PHASE_LABELS[phase]}...`);
+        },
+      });
 
       const fullResult = {
         method: "zk_threshold",
         user: addr,
         threshold,
-        verified,
-        proof,
-        publicSignals,
-        commitment: String(commitment),
+        verifiedLocally: proof.verified,
+        proof: proof.proof,
+        publicSignals: proof.publicSignals,
+        calldata: proof.calldata,
+        commitment: proof.commitment,
         circuit: "threshold_proof.circom",
-        constraints: 36,
+        timingsMs: proof.timings,
         timestamp: new Date().toISOString(),
       };
 
-      setZkResult({ verified, elo, threshold, proof: fullResult });
+      setZkProof(proof);
+      setZkResult({ verified: proof.verified, elo, threshold, proof: fullResult });
       setResponseData(fullResult);
-      if (verified) {
-        setZkVerified(true);
-        setZkThreshold(threshold);
-        setZkVerificationCount((c) => (c ?? 0) + 1);
-        showToast({ type: "success", message: `ZK Verified: ELO ${elo} >= ${threshold}` });
+      if (proof.verified) {
+        showToast({ type: "success", message: `Proof valid: ELO >= ${threshold}. Submit it on-chain to record it.` });
       } else {
-        setZkVerified(false);
-        showToast({ type: "error", message: `ZK proof failed: ELO ${elo} below threshold ${threshold}` });
+        showToast({ type: "error", message: "Proof failed local verification" });
       }
     } catch (e) {
       showToast({ type: "error", message: (e as Error).message });
@@ -241,6 +236,28 @@ export default function VerifyPage() {
     }
   }
 
+  async function handleZKSubmit() {
+    if (!zkProof || !zkResult) return;
+    if (!demoMode && !wallet) {
+      showToast({ type: "warning", message: "Connect your wallet to submit the proof" });
+      return;
+    }
+    setZkSubmitting(true);
+    try {
+      const { txHash } = await hub.submitZKProof(zkProof.calldata);
+      setResponseData({ method: "verifyThresholdZK", txHash, threshold: zkResult.threshold, commitment: zkProof.commitment });
+      setZkVerified(true);
+      setZkThreshold(zkResult.threshold);
+      setZkVerificationCount((c) => (c ?? 0) + 1);
+      setZkProof(null);
+      showToast({ type: "success", message: `ZK Verified on-chain: ELO >= ${zkResult.threshold}` });
+    } catch (e) {
+      showToast({ type: "error", message: (e as Error).message });
+    } finally {
+      setZkSubmitting(false);
+    }
+  }
+
   // Load pre-filled data from query params (from user dashboard "Send to Verifier")
   useEffect(() => {
     if (router.query.data) {
@@ -542,6 +559,23 @@ export default function VerifyPage() {
               {zkStep || (zkProving ? "Generating..." : "Generate & Verify ZK Proof")}
             </button>
 
+            {/* Proving Phases */}
+            {Object.keys(zkPhases).length > 0 && (
+              <div className="bg-[#0d0d0d] border border-[#1a1a1a] p-3 space-y-1 text-[10px]">
+                {(Object.keys(PHASE_LABELS) as ProvePhase[]).map((phase) => {
+                  const state = zkPhases[phase];
+                  return (
+                    <div key={phase} className="flex justify-between">
+                      <span className={state === undefined ? "text-[#444]" : state === "running" ? "text-pink" : "text-[#888]"}>
+                        {state === undefined ? "○" : state === "running" ? "◌" : "✓"} {PHASE_LABELS[phase]}
+                      </span>
+                      {typeof state === "number" && <span className="text-[#555]">{state}ms</span>}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
             {/* Inline Result */}
             {zkResult && (
               <div className="border-t border-[#1a1a1a] pt-4 space-y-3">
@@ -561,6 +595,20 @@ export default function VerifyPage() {
                     </div>
                   </div>
                 </div>
+                {zkProof?.verified && zkFee && parseFloat(zkFee) > 0 && (
+                  <div className="text-[10px] text-[#555]">
+                    Verification fee: <span className="text-accent font-bold">{zkFee} C2FLR</span>
+                  </div>
+                )}
+                {zkProof?.verified && (
+                  <button
+                    onClick={handleZKSubmit}
+                    disabled={zkSubmitting}
+                    className="btn-pink w-full"
+                  >
+                    {zkSubmitting ? "Submitting..." : demoMode ? "Submit On-Chain (Demo)" : "Submit On-Chain"}
+                  </button>
+                )}
               </div>
             )}
 
@@ -0,0 +1,334 @@
+import { ethers } from "ethers";
+
+import RegistryABI from "../lib/abi.json";
+import EngineABI from "../lib/engine-abi.json";
+import HubABI from "../lib/hub-abi.json";
+import StakingABI from "../lib/staking-abi.json";
+import ZKWrapperABI from "../lib/zk-wrapper-abi.json";
+import TreasuryABI from "../lib/treasury-abi.json";
+import DecayABI from "../lib/decay-abi.json";
+import AggregatorABI from "../lib/aggregator-abi.json";
+
+import { EventTable } from "./schema";
+
+// ━━━ INDEXED CONTRACTS ━━━
+
+/** Contracts the indexer can follow; keys match the SDK address book */
+export const INDEXED_ABIS = {
+  registry: RegistryABI,
+  engine: EngineABI,
+  hub: HubABI,
+  staking: StakingABI,
+  zkVerifier: ZKWrapperABI,
+  treasury: TreasuryABI,
+  decay: DecayABI,
+  aggregator: AggregatorABI,
+};
+
+export type IndexedContract = keyof typeof INDEXED_ABIS;
+
+export type IndexerContracts = Partial<Record<IndexedContract, string>>;
+
+export type ColumnValue = string | number | null;
+
+export interface EventHandler {
+  contract: IndexedContract;
+  event: string;
+  table: EventTable;
+  /** Map decoded event args to the table's event-specific columns */
+  row: (args: ethers.Result) => Record<string, ColumnValue>;
+  /** Read columns the event does not carry from the emitting contract */
+  enrich?: (
+    contract: ethers.Contract,
+    args: ethers.Result,
+    blockTag: ethers.BlockTag
+  ) => Promise<Record<string, ColumnValue>>;
+}
+
+// ━━━ EVENT → TABLE MAPPING ━━━
+
+export const EVENT_HANDLERS: EventHandler[] = [
+  // Registry
+  {
+    contract: "registry",
+    event: "IssuerRegistered",
+    table: "issuer_registrations",
+    row: (a) => ({ issuer: a.issuer, name: a.name }),
+  },
+  {
+    contract: "registry",
+    event: "IssuerRevoked",
+    table: "issuer_revocations",
+    row: (a) => ({ issuer: a.issuer }),
+  },
+  {
+    contract: "registry",
+    event: "CredentialMinted",
+    table: "credential_mints",
+    row: (a) => ({ player: a.player, issuer: a.issuer, overall_elo: Number(a.overallElo) }),
+    enrich: (registry, a, blockTag) => credentialSnapshot(registry, a.player, blockTag),
+  },
+  {
+    contract: "registry",
+    event: "CredentialUpdated",
+    table: "credential_updates",
+    row: (a) => ({ player: a.player, overall_elo: Number(a.overallElo) }),
+    enrich: (registry, a, blockTag) => credentialSnapshot(registry, a.player, blockTag),
+  },
+  {
+    contract: "registry",
+    event: "CredentialRevoked",
+    table: "credential_revocations",
+    row: (a) => ({ player: a.player }),
+  },
+
+  // Engine
+  {
+    contract: "engine",
+    event: "MatchRecorded",
+    table: "matches",
+    row: (a) => ({
+      match_id: Number(a.matchId),
+      player1: a.player1,
+      player2: a.player2,
+      outcome: Number(a.outcome),
+      player1_change: Number(a.player1Change),
+      player2_change: Number(a.player2Change),
+    }),
+    enrich: async (engine, a, blockTag) => {
+      const m = await engine.getMatch(a.matchId, { blockTag });
+      return {
+        player1_elo_before: Number(m.player1EloBefore),
+        player2_elo_before: Number(m.player2EloBefore),
+        domain: m.domain,
+      };
+    },
+  },
+  {
+    contract: "engine",
+    event: "TeamMatchRecorded",
+    table: "team_matches",
+    row: (a) => ({
+      match_id: Number(a.matchId),
+      participants: JSON.stringify([...a.participants]),
+      teams: JSON.stringify(a.teams.map(Number)),
+      placements: JSON.stringify(a.placements.map(Number)),
+      elo_changes: JSON.stringify(a.eloChanges.map(Number)),
+    }),
+    enrich: async (engine, a, blockTag) => {
+      const m = await engine.getMatch(a.matchId, { blockTag });
+      return { elos_before: JSON.stringify(m.elosBefore.map(Number)), domain: m.domain };
+    },
+  },
+  {
+    contract: "engine",
+    event: "DisputeResolved",
+    table: "dispute_resolutions",
+    row: (a) => ({ match_id: Number(a.matchId), status: Number(a.status), outcome: Number(a.outcome) }),
+    enrich: async (engine, a, blockTag) => {
+      const m = await engine.getMatch(a.matchId, { blockTag });
+      const outcome = Number(m.outcome);
+      if (outcome === 0) {
+        return {
+          placements: JSON.stringify(m.placements.map(Number)),
+          elo_changes: JSON.stringify(m.eloChanges.map(Number)),
+        };
+      }
+      return {
+        placements: JSON.stringify([outcome === 2 ? 2 : 1, outcome === 1 ? 2 : 1]),
+        elo_changes: JSON.stringify([Number(m.player1EloChange), Number(m.player2EloChange)]),
+      };
+    },
+  },
+  {
+    contract: "engine",
+    event: "EloUpdated",
+    table: "elo_updates",
+    row: (a) => ({ player: a.player, old_elo: Number(a.oldElo), new_elo: Number(a.newElo) }),
+  },
+
+  // Hub
+  {
+    contract: "hub",
+    event: "ReputationUpdated",
+    table: "reputation_updates",
+    row: (a) => ({ user: a.user, new_reputation: Number(a.newReputation) }),
+  },
+  {
+    contract: "hub",
+    event: "ProposalCreated",
+    table: "proposals",
+    row: (a) => ({ proposal_id: Number(a.id), description: a.description, proposer: a.proposer }),
+    enrich: async (hub, a, blockTag) => {
+      const p = await hub.proposals(a.id, { blockTag });
+      return { deadline: Number(p.deadline) };
+    },
+  },
+  {
+    contract: "hub",
+    event: "Voted",
+    table: "votes",
+    row: (a) => ({
+      proposal_id: Number(a.proposalId),
+      voter: a.voter,
+      support: a.support ? 1 : 0,
+      weight: Number(a.weight),
+    }),
+  },
+  {
+    contract: "hub",
+    event: "MarketCreated",
+    table: "markets",
+    row: (a) => ({ market_id: Number(a.id), question: a.question }),
+    enrich: async (hub, a, blockTag) => {
+      const m = await hub.markets(a.id, { blockTag });
+      return {
+        feed_id: m.feedId,
+        target_price: m.targetPrice.toString(),
+        commit_deadline: Number(m.commitDeadline),
+        reveal_deadline: Number(m.revealDeadline),
+        creator: m.creator,
+      };
+    },
+  },
+  {
+    contract: "hub",
+    event: "MarketResolved",
+    table: "market_resolutions",
+    row: (a) => ({ market_id: Number(a.marketId), actual_price: a.actualPrice.toString() }),
+  },
+  {
+    contract: "hub",
+    event: "BountyPosted",
+    table: "bounties",
+    row: (a) => ({ bounty_id: Number(a.id), description: a.description, reward: a.reward.toString() }),
+    enrich: async (hub, a, blockTag) => {
+      const b = await hub.bounties(a.id, { blockTag });
+      return { poster: b.poster, commit_deadline: Number(b.commitDeadline), deadline: Number(b.deadline) };
+    },
+  },
+  {
+    contract: "hub",
+    event: "BountyAwarded",
+    table: "bounty_awards",
+    row: (a) => ({ bounty_id: Number(a.bountyId), winner: a.winner, reward: a.reward.toString() }),
+  },
+
+  // Staking
+  {
+    contract: "staking",
+    event: "Slashed",
+    table: "slashes",
+    row: (a) => ({ issuer: a.issuer, amount: a.amount.toString(), reason: a.reason }),
+  },
+
+  // ZK Verifier
+  {
+    contract: "zkVerifier",
+    event: "ZKThresholdVerified",
+    table: "zk_verifications",
+    row: (a) => ({
+      user: a.user,
+      threshold: Number(a.threshold),
+      commitment: a.commitment.toString(),
+    }),
+  },
+
+  // Decay
+  {
+    contract: "decay",
+    event: "CredentialRefreshed",
+    table: "credential_refreshes",
+    row: (a) => ({ user: a.user, timestamp: Number(a.timestamp) }),
+  },
+  {
+    contract: "decay",
+    event: "DecayParametersUpdated",
+    table: "decay_parameter_updates",
+    row: (a) => ({ decay_rate: Number(a.decayRate), minimum_multiplier: Number(a.minimumMultiplier) }),
+  },
+
+  // Aggregator
+  {
+    contract: "aggregator",
+    event: "AddressLinked",
+    table: "address_links",
+    row: (a) => ({ primary_address: a.primary, linked: a.linked }),
+  },
+  {
+    contract: "aggregator",
+    event: "AddressUnlinked",
+    table: "address_unlinks",
+    row: (a) => ({ primary_address: a.primary, unlinked: a.unlinked }),
+  },
+
+  // Treasury
+  {
+    contract: "treasury",
+    event: "CredentialFeeCollected",
+    table: "treasury_fees",
+    row: (a) => fee("credential", a.issuer, a.user, a.fee),
+  },
+  {
+    contract: "treasury",
+    event: "MarketFeeCollected",
+    table: "treasury_fees",
+    row: (a) => fee("market", a.creator, null, a.fee),
+  },
+  {
+    contract: "treasury",
+    event: "VerificationFeeCollected",
+    table: "treasury_fees",
+    row: (a) => fee("verification", a.user, null, a.fee),
+  },
+  {
+    contract: "treasury",
+    event: "BountyCommissionCollected",
+    table: "treasury_fees",
+    row: (a) => ({ ...fee("bounty", a.solver, null, a.commission), bounty_total: a.bountyTotal.toString() }),
+  },
+  {
+    contract: "treasury",
+    event: "FeesWithdrawn",
+    table: "fee_withdrawals",
+    row: (a) => ({ recipient: a.recipient, amount: a.amount.toString() }),
+  },
+  {
+    contract: "treasury",
+    event: "FeeScheduleUpdated",
+    table: "fee_schedule_updates",
+    row: (a) => ({
+      credential_fee: a.credentialFee.toString(),
+      market_fee: a.marketFee.toString(),
+      verification_fee: a.verificationFee.toString(),
+      bounty_bps: Number(a.bountyBps),
+    }),
+  },
+  {
+    contract: "treasury",
+    event: "RevenueSnapshotTaken",
+    table: "revenue_snapshots",
+    row: (a) => ({ snapshot_id: Number(a.snapshotId), cumulative_revenue: a.cumulativeRevenue.toString() }),
+  },
+];
+
+async function credentialSnapshot(
+  registry: ethers.Contract,
+  player: string,
+  blockTag: ethers.BlockTag
+): Promise<Record<string, ColumnValue>> {
+  const c = await registry.getCredential(player, { blockTag });
+  return {
+    player_name: c.playerName,
+    percentile: Number(c.percentile),
+    domains: JSON.stringify([...c.skillDomains]),
+    skill_scores: JSON.stringify(c.skillScores.map(Number)),
+    skill_percentiles: JSON.stringify(c.skillPercentiles.map(Number)),
+    total_matches: Number(c.totalMatches),
+    win_rate: Number(c.winRate),
+  };
+}
+
+function fee(kind: string, payer: string, user: string | null, amount: bigint): Record<string, ColumnValue> {
+  return { kind, payer, user, amount: amount.toString(), bounty_total: null };
+}
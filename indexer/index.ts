@@ -0,0 +1,312 @@
+import { ethers } from "ethers";
+
+import deployments from "../lib/deployments.json";
+import {
+  EVENT_HANDLERS,
+  INDEXED_ABIS,
+  ColumnValue,
+  EventHandler,
+  IndexedContract,
+  IndexerContracts,
+} from "./events";
+import { BlockRow, IndexedEvent, IndexerStore } from "./store";
+
+// Deployed Coston2 contracts the indexer follows by default
+export const COSTON2_CONTRACTS: IndexerContracts = {
+  registry: deployments.coston2.SkillProofRegistry,
+  engine: deployments.coston2.SkillProofEngine,
+  hub: deployments.coston2.SkillProofHub,
+  staking: deployments.coston2.SkillProofStaking,
+  zkVerifier: deployments.coston2.SkillProofZKVerifier,
+  treasury: deployments.coston2.SkillProofTreasury,
+  decay: deployments.coston2.SkillProofDecay,
+  aggregator: deployments.coston2.SkillProofAggregator,
+};
+
+export interface IndexerOptions {
+  /** Contracts to index; omitted keys are skipped (defaults to Coston2) */
+  contracts?: IndexerContracts;
+  /** First block to index when the store is empty (default 0) */
+  startBlock?: number;
+  /** Blocks per eth_getLogs request (default 500) */
+  chunkSize?: number;
+  /** Only index blocks this far behind the head (default 0) */
+  confirmations?: number;
+  /** Polling interval for `start()` in ms (default 4000) */
+  pollInterval?: number;
+  /** Deepest reorg to unwind before giving up (default 64 blocks) */
+  maxReorgDepth?: number;
+  /** Called after every `sync()` made by `start()` */
+  onSync?: (result: SyncResult) => void;
+  /** Called when a polling `sync()` throws; polling continues */
+  onError?: (error: Error) => void;
+}
+
+export interface ReorgInfo {
+  /** Last block still on the canonical chain; rows above it were dropped */
+  forkBlock: number;
+  /** Blocks rolled back */
+  depth: number;
+}
+
+export interface SyncResult {
+  /** Inclusive range indexed by this call; null if already at the target */
+  fromBlock: number | null;
+  toBlock: number | null;
+  events: number;
+  reorg: ReorgInfo | null;
+}
+
+/**
+ * Indexes SkillProof events into an `IndexerStore`.
+ *
+ * `sync()` first checks the stored cursor block hash against the chain and
+ * unwinds any reorg, then backfills up to the (confirmed) head in chunks.
+ * `start()` repeats that on an interval to follow new blocks.
+ */
+export class SkillProofIndexer {
+  readonly store: IndexerStore;
+  private provider: ethers.Provider;
+  private options: Required<Omit<IndexerOptions, "onSync" | "onError" | "contracts">> &
+    Pick<IndexerOptions, "onSync" | "onError">;
+  private handlers = new Map<string, { handler: EventHandler; contract: ethers.Contract }>();
+  private addresses: string[] = [];
+  private topics: string[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running: Promise<void> | null = null;
+  private stopped = true;
+
+  constructor(provider: ethers.Provider, store: IndexerStore, options: IndexerOptions = {}) {
+    this.provider = provider;
+    this.store = store;
+    this.options = {
+      startBlock: options.startBlock ?? 0,
+      chunkSize: options.chunkSize ?? 500,
+      confirmations: options.confirmations ?? 0,
+      pollInterval: options.pollInterval ?? 4000,
+      maxReorgDepth: options.maxReorgDepth ?? 64,
+      onSync: options.onSync,
+      onError: options.onError,
+    };
+
+    const contracts = options.contracts ?? COSTON2_CONTRACTS;
+    const topics = new Set<string>();
+    for (const [key, address] of Object.entries(contracts) as [IndexedContract, string | undefined][]) {
+      if (!address) continue;
+      const normalized = ethers.getAddress(address);
+      const contract = new ethers.Contract(normalized, INDEXED_ABIS[key], provider);
+      this.addresses.push(normalized);
+      for (const handler of EVENT_HANDLERS.filter((h) => h.contract === key)) {
+        const topic = contract.interface.getEvent(handler.event)!.topicHash;
+        this.handlers.set(`${normalized.toLowerCase()}:${topic}`, { handler, contract });
+        topics.add(topic);
+      }
+    }
+    if (this.addresses.length === 0) throw new Error("No contracts to index");
+    this.topics = [...topics];
+  }
+
+  // ━━━ SYNC ━━━
+
+  /** Unwind any reorg, then index up to `toBlock` (default: confirmed head) */
+  async sync(toBlock?: number): Promise<SyncResult> {
+    await this.checkChain();
+    const reorg = await this.detectReorg();
+
+    const head = await this.provider.getBlockNumber();
+    const target = Math.min(toBlock ?? Infinity, head - this.options.confirmations);
+    const last = this.indexedTo();
+    const from = last === null ? this.options.startBlock : last + 1;
+    if (from > target) return { fromBlock: null, toBlock: null, events: 0, reorg };
+
+    let events = 0;
+    for (let start = from; start <= target; start += this.options.chunkSize) {
+      const end = Math.min(start + this.options.chunkSize - 1, target);
+      events += await this.indexRange(start, end);
+    }
+    return { fromBlock: from, toBlock: target, events, reorg };
+  }
+
+  // ━━━ FOLLOW ━━━
+
+  /** Poll `sync()` every `pollInterval` ms until `stop()` */
+  start(): void {
+    if (!this.stopped) return;
+    this.stopped = false;
+    const tick = () => {
+      this.running = this.sync()
+        .then((result) => this.options.onSync?.(result))
+        .catch((e) => this.options.onError?.(e as Error))
+        .finally(() => {
+          this.running = null;
+          if (!this.stopped) this.timer = setTimeout(tick, this.options.pollInterval);
+        });
+    };
+    tick();
+  }
+
+  /** Stop polling; resolves once any in-flight sync has finished */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    await this.running;
+  }
+
+  // ━━━ INTERNAL ━━━
+
+  /** Store cursor, ignoring a cursor rewound below `startBlock` */
+  private indexedTo(): number | null {
+    const last = this.store.lastBlock;
+    return last === null || last < this.options.startBlock ? null : last;
+  }
+
+  /** Refuse to mix chains in one database */
+  private async checkChain(): Promise<void> {
+    const chainId = (await this.provider.getNetwork()).chainId.toString();
+    const stored = this.store.getState("chain_id");
+    if (stored === null) this.store.setState("chain_id", chainId);
+    else if (stored !== chainId) throw new Error(`Store was indexed on chain ${stored}, provider is on chain ${chainId}`);
+  }
+
+  /**
+   * Compare the cursor block's stored hash with the chain. On mismatch, walk
+   * back through stored blocks to the newest one still canonical and roll the
+   * store back to it. Blocks form a hash chain, so a matching cursor hash
+   * means everything below it is canonical too.
+   */
+  private async detectReorg(): Promise<ReorgInfo | null> {
+    const last = this.indexedTo();
+    if (last === null) return null;
+    if (await this.isCanonical(this.store.getBlock(last))) return null;
+
+    let fork = this.options.startBlock - 1;
+    let cursor = last;
+    while (true) {
+      const [candidate] = this.store.blocksBelow(cursor, 1);
+      if (!candidate) break;
+      if (await this.isCanonical(candidate)) {
+        fork = candidate.number;
+        break;
+      }
+      if (last - candidate.number >= this.options.maxReorgDepth) {
+        throw new Error(`Reorg deeper than ${this.options.maxReorgDepth} blocks below ${last}`);
+      }
+      cursor = candidate.number;
+    }
+
+    this.store.rollback(fork);
+    return { forkBlock: fork, depth: last - fork };
+  }
+
+  private async isCanonical(stored: BlockRow | null): Promise<boolean> {
+    if (!stored) return false;
+    const block = await this.provider.getBlock(stored.number);
+    return block !== null && block.hash === stored.hash;
+  }
+
+  private async indexRange(from: number, to: number): Promise<number> {
+    // Pin the range end before reading logs: if the chain reorgs in between,
+    // the stored cursor hash is stale and the next sync rolls this chunk back.
+    const end = await this.fetchBlock(to, to);
+    const logs = await this.provider.getLogs({
+      address: this.addresses,
+      topics: [this.topics],
+      fromBlock: from,
+      toBlock: to,
+    });
+
+    const events: IndexedEvent[] = [];
+    const blocks = new Map<number, BlockRow>([[to, end]]);
+    for (const log of logs) {
+      if (log.removed) continue;
+      const entry = this.handlers.get(`${log.address.toLowerCase()}:${log.topics[0]}`);
+      if (!entry) continue;
+      const parsed = entry.contract.interface.parseLog(log);
+      if (!parsed) continue;
+
+      const block = blocks.get(log.blockNumber) ?? (await this.fetchBlock(log.blockHash, log.blockNumber));
+      if (block.hash !== log.blockHash) throw new Error(`Block ${log.blockNumber} changed during sync; retry sync`);
+      blocks.set(log.blockNumber, block);
+
+      events.push({
+        table: entry.handler.table,
+        block_number: log.blockNumber,
+        log_index: log.index,
+        tx_hash: log.transactionHash,
+        values: { ...entry.handler.row(parsed.args), ...(await this.enrich(entry, parsed.args, log.blockNumber)) },
+      });
+    }
+
+    this.store.applyChunk([...blocks.values()], events, to);
+    return events.length;
+  }
+
+  /**
+   * Read the handler's extra columns at the log's block. Nodes without that
+   * historical state (pruned RPCs during backfill) fall back to the latest
+   * state, which is exact for the immutable fields most handlers read.
+   */
+  private async enrich(
+    entry: { handler: EventHandler; contract: ethers.Contract },
+    args: ethers.Result,
+    blockNumber: number
+  ): Promise<Record<string, ColumnValue>> {
+    const { enrich } = entry.handler;
+    if (!enrich) return {};
+    try {
+      return await enrich(entry.contract, args, blockNumber);
+    } catch {
+      return await enrich(entry.contract, args, "latest");
+    }
+  }
+
+  private async fetchBlock(tag: string | number, number: number): Promise<BlockRow> {
+    const block = await this.provider.getBlock(tag);
+    if (!block || block.hash === null) throw new Error(`Block ${number} not available; retry sync`);
+    return { number: block.number, hash: block.hash, timestamp: block.timestamp };
+  }
+}
+
+export { IndexerStore } from "./store";
+export type {
+  BlockRow,
+  EventRow,
+  IssuerRegistrationRow,
+  IssuerRevocationRow,
+  CredentialSnapshot,
+  CredentialMintRow,
+  CredentialUpdateRow,
+  CredentialRevocationRow,
+  MatchRow,
+  TeamMatchRow,
+  DisputeResolutionRow,
+  EloUpdateRow,
+  ReputationUpdateRow,
+  ProposalRow,
+  VoteRow,
+  MarketRow,
+  MarketResolutionRow,
+  BountyRow,
+  BountyAwardRow,
+  SlashRow,
+  ZKVerificationRow,
+  CredentialRefreshRow,
+  DecayParameterUpdateRow,
+  AddressLinkRow,
+  AddressUnlinkRow,
+  TreasuryFeeRow,
+  FeeWithdrawalRow,
+  FeeScheduleUpdateRow,
+  RevenueSnapshotRow,
+  TableRows,
+  ListOptions,
+} from "./store";
+export { EVENT_TABLES, type EventTable } from "./schema";
+export {
+  EVENT_HANDLERS,
+  INDEXED_ABIS,
+  type ColumnValue,
+  type IndexedContract,
+  type IndexerContracts,
+} from "./events";
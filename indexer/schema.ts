@@ -0,0 +1,308 @@
+// ━━━ SQLITE SCHEMA ━━━
+// One table per indexed event, keyed by (block_number, log_index) so a chunk
+// can be re-applied safely and a reorg rolls back with a single range delete.
+// uint256 amounts (wei, commitments) are stored as decimal TEXT; ELO and other
+// small integers as INTEGER. Columns the event does not carry (credential
+// details, market/bounty/proposal terms, match domain) are read from the
+// contract when the event is indexed.
+
+export const EVENT_TABLES = [
+  "issuer_registrations",
+  "issuer_revocations",
+  "credential_mints",
+  "credential_updates",
+  "credential_revocations",
+  "matches",
+  "team_matches",
+  "dispute_resolutions",
+  "elo_updates",
+  "reputation_updates",
+  "proposals",
+  "votes",
+  "markets",
+  "market_resolutions",
+  "bounties",
+  "bounty_awards",
+  "slashes",
+  "zk_verifications",
+  "credential_refreshes",
+  "decay_parameter_updates",
+  "address_links",
+  "address_unlinks",
+  "treasury_fees",
+  "fee_withdrawals",
+  "fee_schedule_updates",
+  "revenue_snapshots",
+] as const;
+
+export type EventTable = (typeof EVENT_TABLES)[number];
+
+const EVENT_COLUMNS = `
+  block_number INTEGER NOT NULL REFERENCES blocks(number),
+  log_index    INTEGER NOT NULL,
+  tx_hash      TEXT    NOT NULL,`;
+
+const EVENT_KEY = `PRIMARY KEY (block_number, log_index)`;
+
+const CREDENTIAL_COLUMNS = `
+  player_name       TEXT    NOT NULL,
+  percentile        INTEGER NOT NULL,
+  domains           TEXT    NOT NULL,
+  skill_scores      TEXT    NOT NULL,
+  skill_percentiles TEXT    NOT NULL,
+  total_matches     INTEGER NOT NULL,
+  win_rate          INTEGER NOT NULL,`;
+
+export const SCHEMA = `
+CREATE TABLE IF NOT EXISTS sync_state (
+  key   TEXT PRIMARY KEY,
+  value TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS blocks (
+  number    INTEGER PRIMARY KEY,
+  hash      TEXT    NOT NULL,
+  timestamp INTEGER NOT NULL
+);
+
+-- ─── Registry ───
+
+CREATE TABLE IF NOT EXISTS issuer_registrations (${EVENT_COLUMNS}
+  issuer TEXT NOT NULL,
+  name   TEXT NOT NULL,
+  ${EVENT_KEY}
+);
+CREATE INDEX IF NOT EXISTS idx_issuer_registrations_issuer ON issuer_registrations(issuer);
+
+CREATE TABLE IF NOT EXISTS issuer_revocations (${EVENT_COLUMNS}
+  issuer TEXT NOT NULL,
+  ${EVENT_KEY}
+);
+
+-- Mints and updates carry the credential as read right after the event.
+-- domains / skill_scores / skill_percentiles are JSON arrays.
+CREATE TABLE IF NOT EXISTS credential_mints (${EVENT_COLUMNS}
+  player      TEXT    NOT NULL,
+  issuer      TEXT    NOT NULL,
+  overall_elo INTEGER NOT NULL,${CREDENTIAL_COLUMNS}
+  ${EVENT_KEY}
+);
+CREATE INDEX IF NOT EXISTS idx_credential_mints_player ON credential_mints(player);
+CREATE INDEX IF NOT EXISTS idx_credential_mints_issuer ON credential_mints(issuer);
+
+CREATE TABLE IF NOT EXISTS credential_updates (${EVENT_COLUMNS}
+  player      TEXT    NOT NULL,
+  overall_elo INTEGER NOT NULL,${CREDENTIAL_COLUMNS}
+  ${EVENT_KEY}
+);
+CREATE INDEX IF NOT EXISTS idx_credential_updates_player ON credential_updates(player);
+
+CREATE TABLE IF NOT EXISTS credential_revocations (${EVENT_COLUMNS}
+  player TEXT NOT NULL,
+  ${EVENT_KEY}
+);
+CREATE INDEX IF NOT EXISTS idx_credential_revocations_player ON credential_revocations(player);
+
+-- ─── Engine ───
+
+CREATE TABLE IF NOT EXISTS matches (${EVENT_COLUMNS}
+  match_id           INTEGER NOT NULL,
+  player1            TEXT    NOT NULL,
+  player2            TEXT    NOT NULL,
+  outcome            INTEGER NOT NULL,
+  player1_change     INTEGER NOT NULL,
+  player2_change     INTEGER NOT NULL,
+  player1_elo_before INTEGER NOT NULL,
+  player2_elo_before INTEGER NOT NULL,
+  domain             TEXT    NOT NULL,
+  ${EVENT_KEY}
+);
+CREATE INDEX IF NOT EXISTS idx_matches_player1 ON matches(player1);
+CREATE INDEX IF NOT EXISTS idx_matches_player2 ON matches(player2);
+CREATE INDEX IF NOT EXISTS idx_matches_match_id ON matches(match_id);
+
+-- Team and free-for-all matches. participants / teams / placements /
+-- elos_before / elo_changes are JSON arrays in participant order.
+CREATE TABLE IF NOT EXISTS team_matches (${EVENT_COLUMNS}
+  match_id     INTEGER NOT NULL,
+  participants TEXT    NOT NULL,
+  teams        TEXT    NOT NULL,
+  placements   TEXT    NOT NULL,
+  elo_changes  TEXT    NOT NULL,
+  elos_before  TEXT    NOT NULL,
+  domain       TEXT    NOT NULL,
+  ${EVENT_KEY}
+);
+CREATE INDEX IF NOT EXISTS idx_team_matches_match_id ON team_matches(match_id);
+
+-- status: 2 = dismissed, 3 = voided, 4 = corrected. placements / elo_changes are
+-- the match as resolved, JSON arrays in participant order (player1, player2 for 1v1).
+CREATE TABLE IF NOT EXISTS dispute_resolutions (${EVENT_COLUMNS}
+  match_id    INTEGER NOT NULL,
+  status      INTEGER NOT NULL,
+  outcome     INTEGER NOT NULL,
+  placements  TEXT    NOT NULL,
+  elo_changes TEXT    NOT NULL,
+  ${EVENT_KEY}
+);
+CREATE INDEX IF NOT EXISTS idx_dispute_resolutions_match_id ON dispute_resolutions(match_id);
+
+CREATE TABLE IF NOT EXISTS elo_updates (${EVENT_COLUMNS}
+  player  TEXT    NOT NULL,
+  old_elo INTEGER NOT NULL,
+  new_elo INTEGER NOT NULL,
+  ${EVENT_KEY}
+);
+CREATE INDEX IF NOT EXISTS idx_elo_updates_player ON elo_updates(player);
+
+-- ─── Hub ───
+
+CREATE TABLE IF NOT EXISTS reputation_updates (${EVENT_COLUMNS}
+  user           TEXT    NOT NULL,
+  new_reputation INTEGER NOT NULL,
+  ${EVENT_KEY}
+);
+CREATE INDEX IF NOT EXISTS idx_reputation_updates_user ON reputation_updates(user);
+
+CREATE TABLE IF NOT EXISTS proposals (${EVENT_COLUMNS}
+  proposal_id INTEGER NOT NULL,
+  description TEXT    NOT NULL,
+  proposer    TEXT    NOT NULL,
+  deadline    INTEGER NOT NULL,
+  ${EVENT_KEY}
+);
+CREATE INDEX IF NOT EXISTS idx_proposals_proposal_id ON proposals(proposal_id);
+
+CREATE TABLE IF NOT EXISTS votes (${EVENT_COLUMNS}
+  proposal_id INTEGER NOT NULL,
+  voter       TEXT    NOT NULL,
+  support     INTEGER NOT NULL,
+  weight      INTEGER NOT NULL,
+  ${EVENT_KEY}
+);
+CREATE INDEX IF NOT EXISTS idx_votes_proposal_id ON votes(proposal_id);
+
+-- target_price / actual_price are int256 decimal strings (FTSO-scaled)
+CREATE TABLE IF NOT EXISTS markets (${EVENT_COLUMNS}
+  market_id       INTEGER NOT NULL,
+  question        TEXT    NOT NULL,
+  feed_id         TEXT    NOT NULL,
+  target_price    TEXT    NOT NULL,
+  commit_deadline INTEGER NOT NULL,
+  reveal_deadline INTEGER NOT NULL,
+  creator         TEXT    NOT NULL,
+  ${EVENT_KEY}
+);
+CREATE INDEX IF NOT EXISTS idx_markets_market_id ON markets(market_id);
+
+CREATE TABLE IF NOT EXISTS market_resolutions (${EVENT_COLUMNS}
+  market_id    INTEGER NOT NULL,
+  actual_price TEXT    NOT NULL,
+  ${EVENT_KEY}
+);
+CREATE INDEX IF NOT EXISTS idx_market_resolutions_market_id ON market_resolutions(market_id);
+
+CREATE TABLE IF NOT EXISTS bounties (${EVENT_COLUMNS}
+  bounty_id       INTEGER NOT NULL,
+  description     TEXT    NOT NULL,
+  reward          TEXT    NOT NULL,
+  poster          TEXT    NOT NULL,
+  commit_deadline INTEGER NOT NULL,
+  deadline        INTEGER NOT NULL,
+  ${EVENT_KEY}
+);
+CREATE INDEX IF NOT EXISTS idx_bounties_bounty_id ON bounties(bounty_id);
+
+CREATE TABLE IF NOT EXISTS bounty_awards (${EVENT_COLUMNS}
+  bounty_id INTEGER NOT NULL,
+  winner    TEXT    NOT NULL,
+  reward    TEXT    NOT NULL,
+  ${EVENT_KEY}
+);
+CREATE INDEX IF NOT EXISTS idx_bounty_awards_bounty_id ON bounty_awards(bounty_id);
+
+-- ─── Staking ───
+
+CREATE TABLE IF NOT EXISTS slashes (${EVENT_COLUMNS}
+  issuer TEXT NOT NULL,
+  amount TEXT NOT NULL,
+  reason TEXT NOT NULL,
+  ${EVENT_KEY}
+);
+CREATE INDEX IF NOT EXISTS idx_slashes_issuer ON slashes(issuer);
+
+-- ─── ZK Verifier ───
+
+CREATE TABLE IF NOT EXISTS zk_verifications (${EVENT_COLUMNS}
+  user       TEXT    NOT NULL,
+  threshold  INTEGER NOT NULL,
+  commitment TEXT    NOT NULL,
+  ${EVENT_KEY}
+);
+CREATE INDEX IF NOT EXISTS idx_zk_verifications_user ON zk_verifications(user);
+
+-- ─── Decay ───
+
+CREATE TABLE IF NOT EXISTS credential_refreshes (${EVENT_COLUMNS}
+  user      TEXT    NOT NULL,
+  timestamp INTEGER NOT NULL,
+  ${EVENT_KEY}
+);
+CREATE INDEX IF NOT EXISTS idx_credential_refreshes_user ON credential_refreshes(user);
+
+CREATE TABLE IF NOT EXISTS decay_parameter_updates (${EVENT_COLUMNS}
+  decay_rate         INTEGER NOT NULL,
+  minimum_multiplier INTEGER NOT NULL,
+  ${EVENT_KEY}
+);
+
+-- ─── Aggregator ───
+
+CREATE TABLE IF NOT EXISTS address_links (${EVENT_COLUMNS}
+  primary_address TEXT NOT NULL,
+  linked          TEXT NOT NULL,
+  ${EVENT_KEY}
+);
+
+CREATE TABLE IF NOT EXISTS address_unlinks (${EVENT_COLUMNS}
+  primary_address TEXT NOT NULL,
+  unlinked        TEXT NOT NULL,
+  ${EVENT_KEY}
+);
+
+-- ─── Treasury ───
+
+-- kind: credential | market | verification | bounty
+-- payer: issuer / market creator / verifying user / bounty solver
+-- user: credential holder (credential fees only)
+CREATE TABLE IF NOT EXISTS treasury_fees (${EVENT_COLUMNS}
+  kind         TEXT NOT NULL,
+  payer        TEXT NOT NULL,
+  user         TEXT,
+  amount       TEXT NOT NULL,
+  bounty_total TEXT,
+  ${EVENT_KEY}
+);
+CREATE INDEX IF NOT EXISTS idx_treasury_fees_kind ON treasury_fees(kind);
+CREATE INDEX IF NOT EXISTS idx_treasury_fees_payer ON treasury_fees(payer);
+
+CREATE TABLE IF NOT EXISTS fee_withdrawals (${EVENT_COLUMNS}
+  recipient TEXT NOT NULL,
+  amount    TEXT NOT NULL,
+  ${EVENT_KEY}
+);
+
+CREATE TABLE IF NOT EXISTS fee_schedule_updates (${EVENT_COLUMNS}
+  credential_fee   TEXT    NOT NULL,
+  market_fee       TEXT    NOT NULL,
+  verification_fee TEXT    NOT NULL,
+  bounty_bps       INTEGER NOT NULL,
+  ${EVENT_KEY}
+);
+
+CREATE TABLE IF NOT EXISTS revenue_snapshots (${EVENT_COLUMNS}
+  snapshot_id        INTEGER NOT NULL,
+  cumulative_revenue TEXT    NOT NULL,
+  ${EVENT_KEY}
+);
+`;
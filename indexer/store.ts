@@ -0,0 +1,385 @@
+import Database from "better-sqlite3";
+
+import { ColumnValue } from "./events";
+import { EVENT_TABLES, EventTable, SCHEMA } from "./schema";
+
+// ━━━ ROW TYPES ━━━
+
+export interface BlockRow {
+  number: number;
+  hash: string;
+  timestamp: number;
+}
+
+export interface EventRow {
+  block_number: number;
+  log_index: number;
+  tx_hash: string;
+}
+
+export interface IssuerRegistrationRow extends EventRow {
+  issuer: string;
+  name: string;
+}
+
+export interface IssuerRevocationRow extends EventRow {
+  issuer: string;
+}
+
+/** Credential state read at the event's block; array columns are JSON */
+export interface CredentialSnapshot {
+  player: string;
+  overall_elo: number;
+  player_name: string;
+  percentile: number;
+  domains: string;
+  skill_scores: string;
+  skill_percentiles: string;
+  total_matches: number;
+  win_rate: number;
+}
+
+export interface CredentialMintRow extends EventRow, CredentialSnapshot {
+  issuer: string;
+}
+
+export interface CredentialUpdateRow extends EventRow, CredentialSnapshot {}
+
+export interface CredentialRevocationRow extends EventRow {
+  player: string;
+}
+
+export interface MatchRow extends EventRow {
+  match_id: number;
+  player1: string;
+  player2: string;
+  /** 1 = player1 wins, 2 = player2 wins, 3 = draw */
+  outcome: number;
+  player1_change: number;
+  player2_change: number;
+  player1_elo_before: number;
+  player2_elo_before: number;
+  domain: string;
+}
+
+/** A team or free-for-all match; array columns are JSON, in participant order */
+export interface TeamMatchRow extends EventRow {
+  match_id: number;
+  participants: string;
+  teams: string;
+  /** Each participant's team placement: 1 = first, tied teams share a placement */
+  placements: string;
+  elo_changes: string;
+  elos_before: string;
+  domain: string;
+}
+
+/** A settled Engine match dispute; array columns are JSON, in participant order */
+export interface DisputeResolutionRow extends EventRow {
+  match_id: number;
+  /** 2 = dismissed, 3 = voided, 4 = corrected */
+  status: number;
+  /** The 1v1 outcome as resolved; 0 for team matches */
+  outcome: number;
+  placements: string;
+  elo_changes: string;
+}
+
+export interface EloUpdateRow extends EventRow {
+  player: string;
+  old_elo: number;
+  new_elo: number;
+}
+
+export interface ReputationUpdateRow extends EventRow {
+  user: string;
+  new_reputation: number;
+}
+
+export interface ProposalRow extends EventRow {
+  proposal_id: number;
+  description: string;
+  proposer: string;
+  deadline: number;
+}
+
+export interface VoteRow extends EventRow {
+  proposal_id: number;
+  voter: string;
+  /** 1 = yes, 0 = no */
+  support: number;
+  weight: number;
+}
+
+export interface MarketRow extends EventRow {
+  market_id: number;
+  question: string;
+  feed_id: string;
+  target_price: string;
+  commit_deadline: number;
+  reveal_deadline: number;
+  creator: string;
+}
+
+export interface MarketResolutionRow extends EventRow {
+  market_id: number;
+  actual_price: string;
+}
+
+export interface BountyRow extends EventRow {
+  bounty_id: number;
+  description: string;
+  reward: string;
+  poster: string;
+  commit_deadline: number;
+  deadline: number;
+}
+
+export interface BountyAwardRow extends EventRow {
+  bounty_id: number;
+  winner: string;
+  reward: string;
+}
+
+export interface SlashRow extends EventRow {
+  issuer: string;
+  amount: string;
+  reason: string;
+}
+
+export interface ZKVerificationRow extends EventRow {
+  user: string;
+  threshold: number;
+  commitment: string;
+}
+
+export interface CredentialRefreshRow extends EventRow {
+  user: string;
+  timestamp: number;
+}
+
+export interface DecayParameterUpdateRow extends EventRow {
+  decay_rate: number;
+  minimum_multiplier: number;
+}
+
+export interface AddressLinkRow extends EventRow {
+  primary_address: string;
+  linked: string;
+}
+
+export interface AddressUnlinkRow extends EventRow {
+  primary_address: string;
+  unlinked: string;
+}
+
+export interface TreasuryFeeRow extends EventRow {
+  kind: "credential" | "market" | "verification" | "bounty";
+  payer: string;
+  user: string | null;
+  amount: string;
+  bounty_total: string | null;
+}
+
+export interface FeeWithdrawalRow extends EventRow {
+  recipient: string;
+  amount: string;
+}
+
+export interface FeeScheduleUpdateRow extends EventRow {
+  credential_fee: string;
+  market_fee: string;
+  verification_fee: string;
+  bounty_bps: number;
+}
+
+export interface RevenueSnapshotRow extends EventRow {
+  snapshot_id: number;
+  cumulative_revenue: string;
+}
+
+export interface TableRows {
+  issuer_registrations: IssuerRegistrationRow;
+  issuer_revocations: IssuerRevocationRow;
+  credential_mints: CredentialMintRow;
+  credential_updates: CredentialUpdateRow;
+  credential_revocations: CredentialRevocationRow;
+  matches: MatchRow;
+  team_matches: TeamMatchRow;
+  dispute_resolutions: DisputeResolutionRow;
+  elo_updates: EloUpdateRow;
+  reputation_updates: ReputationUpdateRow;
+  proposals: ProposalRow;
+  votes: VoteRow;
+  markets: MarketRow;
+  market_resolutions: MarketResolutionRow;
+  bounties: BountyRow;
+  bounty_awards: BountyAwardRow;
+  slashes: SlashRow;
+  zk_verifications: ZKVerificationRow;
+  credential_refreshes: CredentialRefreshRow;
+  decay_parameter_updates: DecayParameterUpdateRow;
+  address_links: AddressLinkRow;
+  address_unlinks: AddressUnlinkRow;
+  treasury_fees: TreasuryFeeRow;
+  fee_withdrawals: FeeWithdrawalRow;
+  fee_schedule_updates: FeeScheduleUpdateRow;
+  revenue_snapshots: RevenueSnapshotRow;
+}
+
+/** A decoded log ready to insert; `values` holds the event-specific columns */
+export interface IndexedEvent extends EventRow {
+  table: EventTable;
+  values: Record<string, ColumnValue>;
+}
+
+export interface ListOptions {
+  /** Column equality filters, ANDed together */
+  where?: Record<string, ColumnValue>;
+  limit?: number;
+  offset?: number;
+  /** Chain order (block, log index); defaults to "asc" */
+  order?: "asc" | "desc";
+}
+
+// ━━━ STORE ━━━
+
+/**
+ * SQLite store for indexed SkillProof events. Every chunk of blocks is
+ * written in one transaction together with the sync cursor, so the database
+ * never holds a partially indexed range.
+ */
+export class IndexerStore {
+  readonly db: Database.Database;
+  private columns = new Map<EventTable, Set<string>>();
+  private inserts = new Map<string, Database.Statement>();
+
+  constructor(filename = ":memory:") {
+    this.db = new Database(filename);
+    if (filename !== ":memory:") this.db.pragma("journal_mode = WAL");
+    this.db.pragma("foreign_keys = ON");
+    this.db.exec(SCHEMA);
+
+    for (const table of EVENT_TABLES) {
+      const info = this.db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+      this.columns.set(table, new Set(info.map((c) => c.name)));
+    }
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  // ━━━ SYNC STATE ━━━
+
+  getState(key: string): string | null {
+    const row = this.db.prepare("SELECT value FROM sync_state WHERE key = ?").get(key) as
+      | { value: string }
+      | undefined;
+    return row ? row.value : null;
+  }
+
+  setState(key: string, value: string): void {
+    this.db
+      .prepare("INSERT INTO sync_state (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value")
+      .run(key, value);
+  }
+
+  /** Last fully indexed block, or null before the first sync */
+  get lastBlock(): number | null {
+    const value = this.getState("last_block");
+    return value === null ? null : Number(value);
+  }
+
+  getBlock(number: number): BlockRow | null {
+    return (this.db.prepare("SELECT * FROM blocks WHERE number = ?").get(number) as BlockRow | undefined) ?? null;
+  }
+
+  /** Stored blocks strictly below `number`, newest first */
+  blocksBelow(number: number, limit: number): BlockRow[] {
+    return this.db
+      .prepare("SELECT * FROM blocks WHERE number < ? ORDER BY number DESC LIMIT ?")
+      .all(number, limit) as BlockRow[];
+  }
+
+  // ━━━ WRITES ━━━
+
+  /** Atomically insert a chunk's blocks and events and advance the cursor */
+  applyChunk(blocks: BlockRow[], events: IndexedEvent[], lastBlock: number): void {
+    const putBlock = this.db.prepare(
+      "INSERT INTO blocks (number, hash, timestamp) VALUES (@number, @hash, @timestamp) " +
+        "ON CONFLICT(number) DO UPDATE SET hash = excluded.hash, timestamp = excluded.timestamp"
+    );
+    this.db.transaction(() => {
+      for (const block of blocks) putBlock.run(block);
+      for (const event of events) this.insertStatement(event).run({
+        block_number: event.block_number,
+        log_index: event.log_index,
+        tx_hash: event.tx_hash,
+        ...event.values,
+      });
+      this.setState("last_block", String(lastBlock));
+    })();
+  }
+
+  /** Drop everything above `block` (a reorg fork point) and rewind the cursor */
+  rollback(block: number): void {
+    this.db.transaction(() => {
+      for (const table of EVENT_TABLES) {
+        this.db.prepare(`DELETE FROM ${table} WHERE block_number > ?`).run(block);
+      }
+      this.db.prepare("DELETE FROM blocks WHERE number > ?").run(block);
+      this.setState("last_block", String(block));
+    })();
+  }
+
+  // ━━━ READS ━━━
+
+  list<T extends EventTable>(table: T, options: ListOptions = {}): TableRows[T][] {
+    const { clause, params } = this.whereClause(table, options.where);
+    const order = options.order === "desc" ? "DESC" : "ASC";
+    const sql =
+      `SELECT * FROM ${table}${clause} ORDER BY block_number ${order}, log_index ${order}` +
+      ` LIMIT ? OFFSET ?`;
+    return this.db.prepare(sql).all(...params, options.limit ?? -1, options.offset ?? 0) as TableRows[T][];
+  }
+
+  count(table: EventTable, where?: Record<string, ColumnValue>): number {
+    const { clause, params } = this.whereClause(table, where);
+    const row = this.db.prepare(`SELECT COUNT(*) AS n FROM ${table}${clause}`).get(...params) as { n: number };
+    return row.n;
+  }
+
+  // ━━━ INTERNAL ━━━
+
+  private insertStatement(event: IndexedEvent): Database.Statement {
+    const names = ["block_number", "log_index", "tx_hash", ...Object.keys(event.values)];
+    const key = `${event.table}:${names.join(",")}`;
+    let stmt = this.inserts.get(key);
+    if (!stmt) {
+      stmt = this.db.prepare(
+        `INSERT OR REPLACE INTO ${event.table} (${names.join(", ")}) ` +
+          `VALUES (${names.map((n) => "@" + n).join(", ")})`
+      );
+      this.inserts.set(key, stmt);
+    }
+    return stmt;
+  }
+
+  private whereClause(
+    table: EventTable,
+    where: Record<string, ColumnValue> = {}
+  ): { clause: string; params: ColumnValue[] } {
+    const known = this.columns.get(table);
+    if (!known) throw new Error(`Unknown table: ${table}`);
+    const entries = Object.entries(where);
+    for (const [column] of entries) {
+      if (!known.has(column)) throw new Error(`Unknown column ${table}.${column}`);
+    }
+    if (entries.length === 0) return { clause: "", params: [] };
+    return {
+      clause: " WHERE " + entries.map(([c, v]) => (v === null ? `${c} IS NULL` : `${c} = ?`)).join(" AND "),
+      params: entries.filter(([, v]) => v !== null).map(([, v]) => v),
+    };
+  }
+}
@@ -0,0 +1,8 @@
+export { MatchmakingQueue, MemoryMatchmakingStore, MatchmakingError, findPairs, searchWindow } from "./queue";
+export type { MatchOutcome, QueueTicket, Pairing, QueueOptions, MatchmakingStore } from "./queue";
+export { SkillProofMatchmaker } from "./matchmaker";
+export type { RatingMode, MatchmakerOptions, MatchmakingEvent } from "./matchmaker";
+export { createMatchmakingServer, HttpError } from "./server";
+export type { MatchmakingServerOptions } from "./server";
+export { simulateMatchmaking, countRematches } from "./simulation";
+export type { SimulationOptions, SimulationReport, SkillBand, Distribution } from "./simulation";
@@ -0,0 +1,178 @@
+import { ethers } from "ethers";
+
+import deployments from "../lib/deployments.json";
+import EngineABI from "../lib/engine-abi.json";
+import {
+  MatchOutcome,
+  MatchmakingError,
+  MatchmakingQueue,
+  MatchmakingStore,
+  Pairing,
+  QueueOptions,
+  QueueTicket,
+} from "./queue";
+
+// ━━━ TYPES ━━━
+
+/** `elo` pairs on overall rating, `domain` on the Engine's per-domain `domainElo` */
+export type RatingMode = "elo" | "domain";
+
+export interface MatchmakerOptions extends QueueOptions {
+  /** SkillProofEngine address (defaults to Coston2) */
+  engine?: string;
+  /** Queue storage (default in-memory) */
+  store?: MatchmakingStore;
+  /** Rating players are paired on (default "elo") */
+  rating?: RatingMode;
+  /** Polling interval for `start()` in ms (default 1000) */
+  pollInterval?: number;
+  /** Called when a polling `tick()` throws; polling continues */
+  onError?: (error: Error) => void;
+  /** Current unix time in seconds (default: wall clock) */
+  clock?: () => number;
+}
+
+export type MatchmakingEvent =
+  | { type: "queued"; ticket: QueueTicket }
+  | { type: "left"; player: string }
+  | { type: "paired"; pairing: Pairing }
+  | { type: "reported"; pairing: Pairing };
+
+// ━━━ MATCHMAKER ━━━
+
+/**
+ * Pairs SkillProofEngine players by rating and reports their results.
+ *
+ * `join` reads the player's rating from the Engine, `tick` (or `start()`'s
+ * polling loop) pairs the queue, and `report` records a pairing's result
+ * with `recordMatch`, signed by `reporter` — which must be an authorized
+ * Engine reporter. Subscribers get every queue change, which is what the
+ * server pushes over WebSocket.
+ */
+export class SkillProofMatchmaker {
+  readonly queue: MatchmakingQueue;
+  private engine: ethers.Contract;
+  private rating: RatingMode;
+  private clock: () => number;
+  private pollInterval: number;
+  private onError?: (error: Error) => void;
+  private listeners = new Set<(event: MatchmakingEvent) => void>();
+  // Pairings whose result transaction is in flight
+  private reporting = new Set<number>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private stopped = true;
+  private running: Promise<unknown> = Promise.resolve();
+
+  constructor(reporter: ethers.Signer, options: MatchmakerOptions = {}) {
+    if (!reporter.provider) throw new Error("Reporter must be connected to a provider");
+    this.engine = new ethers.Contract(options.engine ?? deployments.coston2.SkillProofEngine, EngineABI, reporter);
+    this.queue = new MatchmakingQueue(options.store, options);
+    this.rating = options.rating ?? "elo";
+    this.clock = options.clock ?? (() => Math.floor(Date.now() / 1000));
+    this.pollInterval = options.pollInterval ?? 1000;
+    this.onError = options.onError;
+  }
+
+  /** Listen for queue changes; returns an unsubscribe function */
+  subscribe(listener: (event: MatchmakingEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  // ━━━ QUEUE ━━━
+
+  /** Queue a registered Engine player in `domain` at their current rating */
+  async join(player: string, domain = ""): Promise<QueueTicket> {
+    if (!ethers.isAddress(player)) throw new MatchmakingError("invalid", `Invalid address ${player}`);
+    if (this.rating === "domain" && domain === "") {
+      throw new MatchmakingError("invalid", "Domain rating needs a domain");
+    }
+    const ticket = await this.queue.join(player, domain, await this.ratingOf(player, domain), this.clock());
+    this.emit({ type: "queued", ticket });
+    return ticket;
+  }
+
+  async leave(player: string): Promise<boolean> {
+    const left = await this.queue.leave(player);
+    if (left) this.emit({ type: "left", player: ethers.getAddress(player) });
+    return left;
+  }
+
+  tickets() {
+    return this.queue.tickets(this.clock());
+  }
+
+  /** Pair whoever fits now */
+  async tick(): Promise<Pairing[]> {
+    const pairings = await this.queue.tick(this.clock());
+    for (const pairing of pairings) this.emit({ type: "paired", pairing });
+    return pairings;
+  }
+
+  // ━━━ RESULTS ━━━
+
+  /** Record a pairing's result on the Engine and close it */
+  async report(id: number, outcome: MatchOutcome): Promise<Pairing> {
+    const pairing = await this.queue.checkResult(id, outcome);
+    if (this.reporting.has(id)) throw new MatchmakingError("conflict", "Result already being reported");
+    this.reporting.add(id);
+    try {
+      const tx = await this.engine.recordMatch(pairing.player1, pairing.player2, outcome, pairing.domain);
+      const receipt = await tx.wait();
+      const recorded = receipt.logs
+        .map((log: ethers.Log) => this.engine.interface.parseLog(log))
+        .find((e: ethers.LogDescription | null) => e?.name === "MatchRecorded");
+      if (!recorded) throw new Error("MatchRecorded event not found in receipt");
+      const done = await this.queue.complete(id, outcome, Number(recorded.args.matchId), this.clock());
+      this.emit({ type: "reported", pairing: done });
+      return done;
+    } finally {
+      this.reporting.delete(id);
+    }
+  }
+
+  // ━━━ POLLING ━━━
+
+  /** Run `tick()` every `pollInterval` ms until `stop()` */
+  start(): void {
+    if (!this.stopped) return;
+    this.stopped = false;
+    const tick = () => {
+      this.running = this.tick()
+        .catch((e) => this.onError?.(e as Error))
+        .finally(() => {
+          if (!this.stopped) this.timer = setTimeout(tick, this.pollInterval);
+        });
+    };
+    tick();
+  }
+
+  /** Stop polling and wait for a tick in progress */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    await this.running;
+  }
+
+  // ━━━ INTERNAL ━━━
+
+  private async ratingOf(player: string, domain: string): Promise<number> {
+    const p = await this.engine.getPlayer(player);
+    if (!p.registered) throw new MatchmakingError("invalid", "Player not registered");
+    if (this.rating === "elo") return Number(p.elo);
+    // A domain the player has never played or registered reads 0 — use their overall rating
+    const domainElo = Number(await this.engine.domainElo(player, domain));
+    return domainElo > 0 ? domainElo : Number(p.elo);
+  }
+
+  private emit(event: MatchmakingEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch {
+        // A failing subscriber must not break the queue
+      }
+    }
+  }
+}
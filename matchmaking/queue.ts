@@ -0,0 +1,314 @@
+import { ethers } from "ethers";
+
+// ━━━ TYPES ━━━
+
+/** 1 = player1 wins, 2 = player2 wins, 3 = draw */
+export type MatchOutcome = 1 | 2 | 3;
+
+/** A player waiting for an opponent */
+export interface QueueTicket {
+  /** Checksummed address */
+  player: string;
+  /** Players only meet others queued in the same domain; results are reported in it */
+  domain: string;
+  /** Rating the player is matched on, read when they joined */
+  rating: number;
+  /** Unix seconds */
+  joinedAt: number;
+}
+
+export interface Pairing {
+  id: number;
+  player1: string;
+  player2: string;
+  domain: string;
+  rating1: number;
+  rating2: number;
+  /** Unix seconds the players were paired */
+  createdAt: number;
+  /** Seconds each player waited in the queue */
+  wait1: number;
+  wait2: number;
+  /** null until the result is reported */
+  outcome: MatchOutcome | null;
+  /** Engine match that recorded the result */
+  engineMatchId: number | null;
+  reportedAt: number | null;
+}
+
+export interface QueueOptions {
+  /** Rating gap accepted the moment a player joins (default 50) */
+  initialWindow?: number;
+  /** Points the window widens per second of waiting (default 5) */
+  widenRate?: number;
+  /** Widest window (default 400) */
+  maxWindow?: number;
+  /**
+   * Each player's last N opponents are avoided (default 3). A recent
+   * opponent is only accepted once both windows are at `maxWindow`, so two
+   * players alone in a domain still meet again eventually.
+   */
+  rematchMemory?: number;
+}
+
+/**
+ * Where the queue keeps tickets and pairings. Methods are async so a shared
+ * store (Redis, SQL) can back several matchmaker processes; the queue
+ * serializes its own calls but does not lock across processes.
+ */
+export interface MatchmakingStore {
+  getTickets(): Promise<QueueTicket[]>;
+  getTicket(player: string): Promise<QueueTicket | null>;
+  putTicket(ticket: QueueTicket): Promise<void>;
+  /** Resolves false if the player was not queued */
+  removeTicket(player: string): Promise<boolean>;
+  /** Assigns the next pairing id */
+  createPairing(pairing: Omit<Pairing, "id">): Promise<Pairing>;
+  getPairing(id: number): Promise<Pairing | null>;
+  updatePairing(pairing: Pairing): Promise<void>;
+  /** The player's pairings, newest first */
+  getPlayerPairings(player: string, limit: number): Promise<Pairing[]>;
+}
+
+/** Invalid request; `code` maps to an HTTP status in the server */
+export class MatchmakingError extends Error {
+  constructor(readonly code: "invalid" | "not-found" | "conflict", message: string) {
+    super(message);
+  }
+}
+
+// ━━━ MEMORY STORE ━━━
+
+/** Default store: everything in process memory, lost on restart */
+export class MemoryMatchmakingStore implements MatchmakingStore {
+  private tickets = new Map<string, QueueTicket>();
+  private pairings: Pairing[] = [];
+
+  async getTickets(): Promise<QueueTicket[]> {
+    return [...this.tickets.values()];
+  }
+
+  async getTicket(player: string): Promise<QueueTicket | null> {
+    return this.tickets.get(player.toLowerCase()) ?? null;
+  }
+
+  async putTicket(ticket: QueueTicket): Promise<void> {
+    this.tickets.set(ticket.player.toLowerCase(), ticket);
+  }
+
+  async removeTicket(player: string): Promise<boolean> {
+    return this.tickets.delete(player.toLowerCase());
+  }
+
+  async createPairing(pairing: Omit<Pairing, "id">): Promise<Pairing> {
+    const created = { id: this.pairings.length, ...pairing };
+    this.pairings.push(created);
+    return { ...created };
+  }
+
+  async getPairing(id: number): Promise<Pairing | null> {
+    const pairing = this.pairings[id];
+    return pairing ? { ...pairing } : null;
+  }
+
+  async updatePairing(pairing: Pairing): Promise<void> {
+    this.pairings[pairing.id] = { ...pairing };
+  }
+
+  async getPlayerPairings(player: string, limit: number): Promise<Pairing[]> {
+    const key = player.toLowerCase();
+    const found: Pairing[] = [];
+    for (let i = this.pairings.length - 1; i >= 0 && found.length < limit; i--) {
+      const p = this.pairings[i];
+      if (p.player1.toLowerCase() === key || p.player2.toLowerCase() === key) found.push({ ...p });
+    }
+    return found;
+  }
+}
+
+// ━━━ PAIRING ━━━
+
+/** Rating gap `ticket` accepts at `now` */
+export function searchWindow(ticket: QueueTicket, now: number, options: Required<QueueOptions>): number {
+  const waited = Math.max(0, now - ticket.joinedAt);
+  return Math.min(options.initialWindow + options.widenRate * waited, options.maxWindow);
+}
+
+/**
+ * Pair queued tickets, longest-waiting first. Each ticket takes the
+ * closest-rated opponent in its domain whose gap fits either player's
+ * window, preferring players it has not met recently. Using the wider of
+ * the two windows lets a long wait pull in newer players; only a player
+ * with nobody within `maxWindow` keeps waiting.
+ */
+export function findPairs(
+  tickets: QueueTicket[],
+  now: number,
+  options: Required<QueueOptions>,
+  recentOpponents: (player: string) => string[]
+): [QueueTicket, QueueTicket][] {
+  const queue = [...tickets].sort((a, b) => a.joinedAt - b.joinedAt);
+  const windows = new Map(queue.map((t) => [t, searchWindow(t, now, options)]));
+  const taken = new Set<QueueTicket>();
+  const pairs: [QueueTicket, QueueTicket][] = [];
+
+  for (const a of queue) {
+    if (taken.has(a)) continue;
+    const recent = new Set(recentOpponents(a.player).map((p) => p.toLowerCase()));
+    let best: QueueTicket | null = null;
+    let bestRank: [number, number] | null = null;
+
+    for (const b of queue) {
+      if (b === a || taken.has(b) || b.domain !== a.domain) continue;
+      const gap = Math.abs(a.rating - b.rating);
+      const windowA = windows.get(a)!;
+      const windowB = windows.get(b)!;
+      if (gap > Math.max(windowA, windowB)) continue;
+      const rematch = recent.has(b.player.toLowerCase());
+      if (rematch && (windowA < options.maxWindow || windowB < options.maxWindow)) continue;
+      // Fresh opponents first, then the smallest gap; ties go to the longer wait
+      const rank: [number, number] = [rematch ? 1 : 0, gap];
+      if (!bestRank || rank[0] < bestRank[0] || (rank[0] === bestRank[0] && rank[1] < bestRank[1])) {
+        best = b;
+        bestRank = rank;
+      }
+    }
+
+    if (best) {
+      taken.add(a).add(best);
+      pairs.push([a, best]);
+    }
+  }
+  return pairs;
+}
+
+// ━━━ QUEUE ━━━
+
+/**
+ * Matchmaking queue over a `MatchmakingStore`. Players `join` with a rating,
+ * `tick` pairs whoever fits and removes them from the queue, and `complete`
+ * records a pairing's result. Times are unix seconds passed in by the
+ * caller, so the queue runs the same against wall-clock or simulated time.
+ */
+export class MatchmakingQueue {
+  readonly options: Required<QueueOptions>;
+  private store: MatchmakingStore;
+  // Serializes store access so a tick never sees a half-applied join
+  private lock: Promise<unknown> = Promise.resolve();
+
+  constructor(store: MatchmakingStore = new MemoryMatchmakingStore(), options: QueueOptions = {}) {
+    this.store = store;
+    this.options = {
+      initialWindow: options.initialWindow ?? 50,
+      widenRate: options.widenRate ?? 5,
+      maxWindow: options.maxWindow ?? 400,
+      rematchMemory: options.rematchMemory ?? 3,
+    };
+    if (this.options.maxWindow < this.options.initialWindow) throw new Error("maxWindow must be at least initialWindow");
+  }
+
+  /** Queue a player; they must not be queued already or have an unreported pairing */
+  async join(player: string, domain: string, rating: number, now: number): Promise<QueueTicket> {
+    const address = checksum(player);
+    if (!Number.isFinite(rating) || rating < 0) throw new MatchmakingError("invalid", "Invalid rating");
+    return this.serial(async () => {
+      if (await this.store.getTicket(address)) throw new MatchmakingError("conflict", "Already queued");
+      const [last] = await this.store.getPlayerPairings(address, 1);
+      if (last && last.outcome === null) {
+        throw new MatchmakingError("conflict", `Player has an unreported match (${last.id})`);
+      }
+      const ticket = { player: address, domain, rating, joinedAt: now };
+      await this.store.putTicket(ticket);
+      return ticket;
+    });
+  }
+
+  /** Remove a queued player; false if they were not queued */
+  async leave(player: string): Promise<boolean> {
+    return this.serial(() => this.store.removeTicket(checksum(player)));
+  }
+
+  /** Queued players, longest-waiting first, with their current search window */
+  async tickets(now: number): Promise<(QueueTicket & { window: number })[]> {
+    const tickets = await this.store.getTickets();
+    return tickets
+      .sort((a, b) => a.joinedAt - b.joinedAt)
+      .map((t) => ({ ...t, window: searchWindow(t, now, this.options) }));
+  }
+
+  async pairing(id: number): Promise<Pairing | null> {
+    return this.store.getPairing(id);
+  }
+
+  /** A player's pairings, newest first */
+  async history(player: string, limit = 20): Promise<Pairing[]> {
+    return this.store.getPlayerPairings(checksum(player), limit);
+  }
+
+  /** Pair every ticket that fits and take them out of the queue */
+  async tick(now: number): Promise<Pairing[]> {
+    return this.serial(async () => {
+      const tickets = await this.store.getTickets();
+      const recent = new Map<string, string[]>();
+      for (const t of tickets) {
+        const history = await this.store.getPlayerPairings(t.player, this.options.rematchMemory);
+        recent.set(t.player, history.map((p) => (p.player1 === t.player ? p.player2 : p.player1)));
+      }
+
+      const created: Pairing[] = [];
+      for (const [a, b] of findPairs(tickets, now, this.options, (p) => recent.get(p) ?? [])) {
+        await this.store.removeTicket(a.player);
+        await this.store.removeTicket(b.player);
+        created.push(
+          await this.store.createPairing({
+            player1: a.player,
+            player2: b.player,
+            domain: a.domain,
+            rating1: a.rating,
+            rating2: b.rating,
+            createdAt: now,
+            wait1: now - a.joinedAt,
+            wait2: now - b.joinedAt,
+            outcome: null,
+            engineMatchId: null,
+            reportedAt: null,
+          })
+        );
+      }
+      return created;
+    });
+  }
+
+  /** Check a result can be recorded for `id`, before it is sent anywhere */
+  async checkResult(id: number, outcome: number): Promise<Pairing> {
+    if (outcome !== 1 && outcome !== 2 && outcome !== 3) throw new MatchmakingError("invalid", "Invalid outcome");
+    const pairing = await this.store.getPairing(id);
+    if (!pairing) throw new MatchmakingError("not-found", "Match not found");
+    if (pairing.outcome !== null) throw new MatchmakingError("conflict", "Already reported");
+    return pairing;
+  }
+
+  /** Record a pairing's result */
+  async complete(id: number, outcome: MatchOutcome, engineMatchId: number | null, now: number): Promise<Pairing> {
+    return this.serial(async () => {
+      const pairing = await this.checkResult(id, outcome);
+      const done = { ...pairing, outcome, engineMatchId, reportedAt: now };
+      await this.store.updatePairing(done);
+      return done;
+    });
+  }
+
+  private serial<T>(fn: () => Promise<T>): Promise<T> {
+    const run = this.lock.then(fn);
+    this.lock = run.catch(() => undefined);
+    return run;
+  }
+}
+
+function checksum(player: string): string {
+  try {
+    return ethers.getAddress(player);
+  } catch {
+    throw new MatchmakingError("invalid", `Invalid address ${player}`);
+  }
+}
@@ -0,0 +1,255 @@
+import * as http from "http";
+import { Duplex } from "stream";
+import { createHash } from "crypto";
+
+import { MatchmakingEvent, SkillProofMatchmaker } from "./matchmaker";
+import { MatchmakingError } from "./queue";
+
+export interface MatchmakingServerOptions {
+  /** Value of Access-Control-Allow-Origin (default "*") */
+  corsOrigin?: string;
+  /** Writes need `Authorization: Bearer <authToken>`; without one they are refused */
+  authToken?: string;
+  /** Leave writes open when no `authToken` is set (local development only) */
+  insecure?: boolean;
+}
+
+/** Error with an HTTP status; the message is returned as `{ error }` */
+export class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+type Handler = (params: string[], body: Record<string, unknown>, query: URLSearchParams) => Promise<unknown>;
+
+const STATUS: Record<MatchmakingError["code"], number> = { invalid: 400, "not-found": 404, conflict: 409 };
+const MAX_BODY = 16 * 1024;
+const WS_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+/**
+ * JSON API over a `SkillProofMatchmaker`, plus a WebSocket event stream.
+ *
+ *   GET    /queue                         Queued players and their search windows
+ *   POST   /queue            { player, domain? }
+ *   DELETE /queue/:player
+ *   GET    /matches/:id
+ *   POST   /matches/:id/result  { outcome: 1 | 2 | 3 }
+ *   GET    /players/:address/matches?limit=
+ *   WS     /events?player=               `MatchmakingEvent`s as JSON text frames
+ */
+export function createMatchmakingServer(
+  matchmaker: SkillProofMatchmaker,
+  options: MatchmakingServerOptions = {}
+): http.Server {
+  // [method, path, handler, success status]
+  const routes: [string, RegExp, Handler, number?][] = [
+    ["GET", /^\/queue$/, async () => matchmaker.tickets()],
+    ["POST", /^\/queue$/, async (_, body) => matchmaker.join(field(body, "player"), optional(body, "domain")), 201],
+    [
+      "DELETE",
+      /^\/queue\/([^/]+)$/,
+      async ([player]) => {
+        if (!(await matchmaker.leave(player))) throw new HttpError(404, "Player not queued");
+        return { left: true };
+      },
+    ],
+    ["GET", /^\/matches\/([^/]+)$/, async ([id]) => found(await matchmaker.queue.pairing(int(id, "id")))],
+    [
+      "POST",
+      /^\/matches\/([^/]+)\/result$/,
+      async ([id], body) => matchmaker.report(int(id, "id"), body.outcome as 1 | 2 | 3),
+    ],
+    [
+      "GET",
+      /^\/players\/([^/]+)\/matches$/,
+      async ([player], _, q) => matchmaker.queue.history(player, q.has("limit") ? int(q.get("limit")!, "limit") : 20),
+    ],
+  ];
+
+  const server = http.createServer(async (req, res) => {
+    res.setHeader("Access-Control-Allow-Origin", options.corsOrigin ?? "*");
+    res.setHeader("Access-Control-Allow-Methods", "GET, POST, DELETE, OPTIONS");
+    res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization");
+
+    if (req.method === "OPTIONS") {
+      res.writeHead(204).end();
+      return;
+    }
+
+    let status = 200;
+    let body: unknown;
+    try {
+      const url = new URL(req.url ?? "/", "http://localhost");
+      const path = url.pathname.replace(/\/+$/, "") || "/";
+      const matching = routes.filter(([, pattern]) => pattern.test(path));
+      if (matching.length === 0) throw new HttpError(404, `No route for ${path}`);
+      const route = matching.find(([method]) => method === req.method);
+      if (!route) throw new HttpError(405, `Method ${req.method} not allowed`);
+      if (route[0] !== "GET" && !authorized(req, options)) throw new HttpError(401, "Unauthorized");
+      const params = path.match(route[1])!.slice(1).map(decodeURIComponent);
+      body = await route[2](params, route[0] === "POST" ? await readJson(req) : {}, url.searchParams);
+      status = route[3] ?? 200;
+    } catch (e) {
+      const error = e instanceof MatchmakingError ? new HttpError(STATUS[e.code], e.message) : e;
+      status = error instanceof HttpError ? error.status : 500;
+      body = { error: error instanceof HttpError ? error.message : "Internal server error" };
+    }
+
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+  });
+
+  // ━━━ WEBSOCKET ━━━
+
+  const sockets = new Set<Duplex>();
+  server.on("upgrade", (req: http.IncomingMessage, socket: Duplex) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const key = req.headers["sec-websocket-key"];
+    if (url.pathname.replace(/\/+$/, "") !== "/events" || typeof key !== "string") {
+      socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+      return;
+    }
+    const accept = createHash("sha1").update(key + WS_GUID).digest("base64");
+    socket.write(
+      "HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n" +
+        `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+    );
+
+    // Optionally only the events that involve one player
+    const player = url.searchParams.get("player")?.toLowerCase();
+    const unsubscribe = matchmaker.subscribe((event) => {
+      if (socket.writable && (!player || involves(event, player))) {
+        socket.write(frame(1, Buffer.from(JSON.stringify(event))));
+      }
+    });
+    sockets.add(socket);
+
+    let buffer = Buffer.alloc(0);
+    socket.on("data", (chunk: Buffer) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      for (let f = readFrame(buffer); f; f = readFrame(buffer)) {
+        buffer = buffer.subarray(f.length);
+        if (f.opcode === 0x8) socket.end(frame(0x8, Buffer.alloc(0)));
+        else if (f.opcode === 0x9) socket.write(frame(0xa, f.payload));
+      }
+    });
+    const close = () => {
+      unsubscribe();
+      sockets.delete(socket);
+    };
+    socket.on("close", close);
+    socket.on("error", close);
+  });
+
+  // Upgraded sockets outlive http.Server.close(); end them with it
+  const closeServer = server.close.bind(server);
+  server.close = ((callback?: (err?: Error) => void) => {
+    for (const socket of sockets) socket.destroy();
+    return closeServer(callback);
+  }) as typeof server.close;
+
+  return server;
+}
+
+// ━━━ HELPERS ━━━
+
+function involves(event: MatchmakingEvent, player: string): boolean {
+  switch (event.type) {
+    case "queued":
+      return event.ticket.player.toLowerCase() === player;
+    case "left":
+      return event.player.toLowerCase() === player;
+    default:
+      return event.pairing.player1.toLowerCase() === player || event.pairing.player2.toLowerCase() === player;
+  }
+}
+
+/** Unmasked server frame, FIN set */
+function frame(opcode: number, payload: Buffer): Buffer {
+  const length = payload.length;
+  const header =
+    length < 126
+      ? Buffer.from([0x80 | opcode, length])
+      : length < 65536
+        ? Buffer.from([0x80 | opcode, 126, length >> 8, length & 0xff])
+        : Buffer.concat([Buffer.from([0x80 | opcode, 127]), bigEndian64(length)]);
+  return Buffer.concat([header, payload]);
+}
+
+function bigEndian64(n: number): Buffer {
+  const b = Buffer.alloc(8);
+  b.writeBigUInt64BE(BigInt(n));
+  return b;
+}
+
+/** Parse one (masked) client frame from the front of `buffer`, or null if incomplete */
+function readFrame(buffer: Buffer): { opcode: number; payload: Buffer; length: number } | null {
+  if (buffer.length < 2) return null;
+  const opcode = buffer[0] & 0x0f;
+  const masked = (buffer[1] & 0x80) !== 0;
+  let length = buffer[1] & 0x7f;
+  let offset = 2;
+  if (length === 126) {
+    if (buffer.length < 4) return null;
+    length = buffer.readUInt16BE(2);
+    offset = 4;
+  } else if (length === 127) {
+    if (buffer.length < 10) return null;
+    length = Number(buffer.readBigUInt64BE(2));
+    offset = 10;
+  }
+  const maskOffset = offset;
+  if (masked) offset += 4;
+  if (buffer.length < offset + length) return null;
+  const payload = Buffer.from(buffer.subarray(offset, offset + length));
+  if (masked) {
+    for (let i = 0; i < payload.length; i++) payload[i] ^= buffer[maskOffset + (i % 4)];
+  }
+  return { opcode, payload, length: offset + length };
+}
+
+async function readJson(req: http.IncomingMessage): Promise<Record<string, unknown>> {
+  let raw = "";
+  for await (const chunk of req) {
+    raw += chunk;
+    if (raw.length > MAX_BODY) throw new HttpError(413, "Body too large");
+  }
+  if (raw === "") return {};
+  try {
+    const body = JSON.parse(raw);
+    if (typeof body !== "object" || body === null || Array.isArray(body)) throw new Error();
+    return body;
+  } catch {
+    throw new HttpError(400, "Body must be a JSON object");
+  }
+}
+
+/** Writes fail closed: no token configured means no writes, unless explicitly `insecure` */
+function authorized(req: http.IncomingMessage, options: MatchmakingServerOptions): boolean {
+  if (!options.authToken) return options.insecure === true;
+  return req.headers.authorization === `Bearer ${options.authToken}`;
+}
+
+function found<T>(value: T | null): T {
+  if (value === null) throw new HttpError(404, "Match not found");
+  return value;
+}
+
+function field(body: Record<string, unknown>, key: string): string {
+  const value = body[key];
+  if (typeof value !== "string") throw new HttpError(400, `${key} is required`);
+  return value;
+}
+
+function optional(body: Record<string, unknown>, key: string): string | undefined {
+  const value = body[key];
+  if (value === undefined) return undefined;
+  if (typeof value !== "string") throw new HttpError(400, `${key} must be a string`);
+  return value;
+}
+
+function int(value: string, key: string): number {
+  if (!/^\d+$/.test(value)) throw new HttpError(400, `${key} must be a non-negative integer`);
+  return Number(value);
+}
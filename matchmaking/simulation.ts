@@ -0,0 +1,235 @@
+import { ELO_PRECISION, applyEloChange, expectedScore, logisticExpectedScore, simulateEloMatch } from "../sdk/elo";
+import { MatchOutcome, MatchmakingQueue, MemoryMatchmakingStore, Pairing, QueueOptions } from "./queue";
+
+// ━━━ TYPES ━━━
+
+export interface SimulationOptions extends QueueOptions {
+  /** Synthetic players (default 200) */
+  players?: number;
+  /** Simulated seconds (default 3600) */
+  duration?: number;
+  /** Seconds between queue ticks (default 1) */
+  tickInterval?: number;
+  /** Match length range in seconds (default [60, 300]) */
+  matchLength?: [number, number];
+  /** Longest rest between a result and re-queueing, in seconds (default 120) */
+  maxRest?: number;
+  /** Mean and standard deviation of true skill (default 1500, 250) */
+  skill?: [number, number];
+  /** Domains players queue in, picked at random per visit (default ["chess"]) */
+  domains?: string[];
+  /** PRNG seed; the same seed replays the same run (default 1) */
+  seed?: number;
+}
+
+export interface Distribution {
+  mean: number;
+  p95: number;
+  max: number;
+}
+
+export interface SkillBand {
+  /** True-skill range of the band's players */
+  minSkill: number;
+  maxSkill: number;
+  /** Seconds queued per match */
+  wait: Distribution;
+  matches: number;
+}
+
+export interface SimulationReport {
+  players: number;
+  matches: number;
+  /** Seconds from joining to being paired */
+  wait: Distribution;
+  /** Rating gap of each pairing */
+  gap: Distribution;
+  /** Gaps wider than the wider of the two players' windows when paired — always 0 */
+  windowViolations: number;
+  /** Pairings against one of either player's last `rematchMemory` opponents */
+  rematches: number;
+  /** Players split into quartiles by true skill */
+  bands: SkillBand[];
+  /** Slowest band's mean wait over the fastest band's; 1 = perfectly even */
+  waitRatio: number;
+  /** Players still queued at the end, and the longest of their waits */
+  stillQueued: number;
+  longestQueued: number;
+  /** Mean |rating - true skill| at the start and the end */
+  ratingError: { start: number; end: number };
+  pairings: Pairing[];
+}
+
+interface SimPlayer {
+  address: string;
+  skill: number;
+  rating: number;
+  totalMatches: number;
+  /** Unix second the player next joins the queue; Infinity while queued or playing */
+  nextJoin: number;
+}
+
+// ━━━ SIMULATION ━━━
+
+/**
+ * Run synthetic players through a `MatchmakingQueue` in simulated time.
+ *
+ * Each player has a hidden true skill and an Engine-style rating that starts
+ * from a noisy guess. Players queue, get paired, play for a while, and the
+ * result is drawn from the logistic win probability of their true skills.
+ * Ratings then move exactly as `recordMatch` would move them (`sdk/elo`),
+ * and the player rests before queueing again. The report measures what a
+ * fair queue must keep bounded: waits across skill bands, rating gaps
+ * against the search window, and rematches.
+ */
+export async function simulateMatchmaking(options: SimulationOptions = {}): Promise<SimulationReport> {
+  const count = options.players ?? 200;
+  const duration = options.duration ?? 3600;
+  const tickInterval = options.tickInterval ?? 1;
+  const [minLength, maxLength] = options.matchLength ?? [60, 300];
+  const maxRest = options.maxRest ?? 120;
+  const [meanSkill, skillSd] = options.skill ?? [1500, 250];
+  const domains = options.domains ?? ["chess"];
+  const random = mulberry32(options.seed ?? 1);
+  const queue = new MatchmakingQueue(new MemoryMatchmakingStore(), options);
+
+  const players: SimPlayer[] = Array.from({ length: count }, (_, i) => {
+    const skill = Math.round(meanSkill + skillSd * gaussian(random));
+    return {
+      address: "0x" + (i + 1).toString(16).padStart(40, "0"),
+      skill,
+      rating: Math.max(100, Math.round(skill + 150 * gaussian(random))),
+      totalMatches: 0,
+      nextJoin: Math.floor(random() * maxRest),
+    };
+  });
+  const byAddress = new Map(players.map((p) => [p.address.toLowerCase(), p]));
+  const startError = meanError(players);
+
+  const pairings: Pairing[] = [];
+  const waits = new Map<SimPlayer, number[]>(players.map((p) => [p, []]));
+  let windowViolations = 0;
+  // Results due: [unix second, pairing]
+  let playing: [number, Pairing][] = [];
+
+  for (let now = 0; now <= duration; now += tickInterval) {
+    for (const [, pairing] of playing.filter(([end]) => end <= now)) {
+      const p1 = byAddress.get(pairing.player1.toLowerCase())!;
+      const p2 = byAddress.get(pairing.player2.toLowerCase())!;
+      const outcome = playOut(p1, p2, random);
+      const { player1Change, player2Change } = simulateEloMatch(
+        { elo: p1.rating, totalMatches: p1.totalMatches },
+        { elo: p2.rating, totalMatches: p2.totalMatches },
+        outcome
+      );
+      p1.rating = applyEloChange(p1.rating, player1Change);
+      p2.rating = applyEloChange(p2.rating, player2Change);
+      p1.totalMatches++;
+      p2.totalMatches++;
+      await queue.complete(pairing.id, outcome, null, now);
+      p1.nextJoin = now + Math.floor(random() * maxRest);
+      p2.nextJoin = now + Math.floor(random() * maxRest);
+    }
+    playing = playing.filter(([end]) => end > now);
+
+    for (const p of players) {
+      if (p.nextJoin > now) continue;
+      p.nextJoin = Infinity;
+      await queue.join(p.address, domains[Math.floor(random() * domains.length)], p.rating, now);
+    }
+
+    const tickets = new Map((await queue.tickets(now)).map((t) => [t.player.toLowerCase(), t.window]));
+    for (const pairing of await queue.tick(now)) {
+      const gap = Math.abs(pairing.rating1 - pairing.rating2);
+      const window = Math.max(tickets.get(pairing.player1.toLowerCase())!, tickets.get(pairing.player2.toLowerCase())!);
+      if (gap > window) windowViolations++;
+      waits.get(byAddress.get(pairing.player1.toLowerCase())!)!.push(pairing.wait1);
+      waits.get(byAddress.get(pairing.player2.toLowerCase())!)!.push(pairing.wait2);
+      pairings.push(pairing);
+      playing.push([now + minLength + Math.floor(random() * (maxLength - minLength + 1)), pairing]);
+    }
+  }
+
+  const queued = await queue.tickets(duration);
+  const sorted = [...players].sort((a, b) => a.skill - b.skill);
+  const bands: SkillBand[] = [0, 1, 2, 3].map((q) => {
+    const band = sorted.slice(Math.floor((q * count) / 4), Math.floor(((q + 1) * count) / 4));
+    const bandWaits = band.flatMap((p) => waits.get(p)!);
+    return {
+      minSkill: band[0]?.skill ?? 0,
+      maxSkill: band[band.length - 1]?.skill ?? 0,
+      wait: distribution(bandWaits),
+      matches: bandWaits.length,
+    };
+  });
+  const bandMeans = bands.filter((b) => b.matches > 0).map((b) => b.wait.mean);
+
+  return {
+    players: count,
+    matches: pairings.length,
+    wait: distribution([...waits.values()].flat()),
+    gap: distribution(pairings.map((p) => Math.abs(p.rating1 - p.rating2))),
+    windowViolations,
+    rematches: countRematches(pairings, queue.options.rematchMemory),
+    bands,
+    waitRatio: bandMeans.length === 0 ? 1 : Math.max(...bandMeans) / Math.max(Math.min(...bandMeans), 1),
+    stillQueued: queued.length,
+    longestQueued: queued.reduce((m, t) => Math.max(m, duration - t.joinedAt), 0),
+    ratingError: { start: startError, end: meanError(players) },
+    pairings,
+  };
+}
+
+/** Pairings where the players met within either one's last `memory` pairings */
+export function countRematches(pairings: Pairing[], memory: number): number {
+  const recent = new Map<string, string[]>();
+  let rematches = 0;
+  for (const p of pairings) {
+    const a = p.player1.toLowerCase();
+    const b = p.player2.toLowerCase();
+    if ((recent.get(a) ?? []).includes(b) || (recent.get(b) ?? []).includes(a)) rematches++;
+    recent.set(a, [b, ...(recent.get(a) ?? [])].slice(0, memory));
+    recent.set(b, [a, ...(recent.get(b) ?? [])].slice(0, memory));
+  }
+  return rematches;
+}
+
+// ━━━ HELPERS ━━━
+
+/** Draw a result from the true-skill win probability; close matchups sometimes draw */
+function playOut(p1: SimPlayer, p2: SimPlayer, random: () => number): MatchOutcome {
+  const p = logisticExpectedScore(p1.skill, p2.skill);
+  const draw = 0.1 * (1 - Math.abs(expectedScore(p1.skill, p2.skill) - ELO_PRECISION / 2) / (ELO_PRECISION / 2));
+  const r = random();
+  if (r < draw) return 3;
+  return r < draw + (1 - draw) * p ? 1 : 2;
+}
+
+function meanError(players: SimPlayer[]): number {
+  return players.reduce((sum, p) => sum + Math.abs(p.rating - p.skill), 0) / Math.max(players.length, 1);
+}
+
+function distribution(values: number[]): Distribution {
+  if (values.length === 0) return { mean: 0, p95: 0, max: 0 };
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    mean: sorted.reduce((a, b) => a + b, 0) / sorted.length,
+    p95: sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95))],
+    max: sorted[sorted.length - 1],
+  };
+}
+
+/** Deterministic PRNG so runs are reproducible */
+function mulberry32(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Standard normal draw (Box–Muller) */
+function gaussian(random: () => number): number {
+  return Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+}
@@ -0,0 +1,252 @@
+import { ethers } from "ethers";
+
+import deployments from "../lib/deployments.json";
+import EngineABI from "../lib/engine-abi.json";
+
+// ━━━ TYPES ━━━
+
+/** 1 = player1 wins, 2 = player2 wins, 3 = draw */
+export type MatchOutcome = 1 | 2 | 3;
+
+export interface MatchInput {
+  player1: string;
+  player2: string;
+  outcome: MatchOutcome;
+  domain: string;
+}
+
+/** `SkillProofEngine.MatchReport` — the EIP-712 message a report is signed as */
+export interface MatchReport extends MatchInput {
+  /** Authorized reporter, or one of the players for a player-signed report */
+  reporter: string;
+  /** Must equal the Engine's `nonces(reporter)` when the report lands */
+  nonce: number;
+  /** Unix timestamp after which the report is rejected */
+  deadline: number;
+}
+
+export interface SignedMatchReport {
+  report: MatchReport;
+  /** The reporter's signature, or player1's then player2's */
+  signatures: string[];
+}
+
+export interface RelayerOptions {
+  /** SkillProofEngine address (defaults to Coston2) */
+  engine?: string;
+  /** Key that signs matches passed to `report()` (default: the relaying signer) */
+  reporter?: ethers.Signer;
+  /** Reports per `submitMatchReports` transaction (default 20) */
+  batchSize?: number;
+  /** Seconds a report stays valid after it is prepared (default 3600) */
+  ttl?: number;
+}
+
+export interface RelayBatch {
+  reports: SignedMatchReport[];
+  txHash: string;
+  /** Engine match ids, in report order */
+  matchIds: number[];
+}
+
+export interface RelayResult {
+  batches: RelayBatch[];
+  /** Batches whose transaction failed; their reports are not re-queued */
+  failed: { reports: SignedMatchReport[]; error: string }[];
+}
+
+// ━━━ EIP-712 ━━━
+
+export const MATCH_REPORT_TYPES: Record<string, ethers.TypedDataField[]> = {
+  MatchReport: [
+    { name: "player1", type: "address" },
+    { name: "player2", type: "address" },
+    { name: "outcome", type: "uint8" },
+    { name: "domain", type: "string" },
+    { name: "reporter", type: "address" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+/** EIP-712 domain of the Engine deployed at `engine` */
+export async function matchReportDomain(engine: string, provider: ethers.Provider): Promise<ethers.TypedDataDomain> {
+  const { chainId } = await provider.getNetwork();
+  return { name: "SkillProofEngine", version: "1", chainId, verifyingContract: engine };
+}
+
+export function signMatchReport(
+  signer: ethers.Signer,
+  domain: ethers.TypedDataDomain,
+  report: MatchReport
+): Promise<string> {
+  return signer.signTypedData(domain, MATCH_REPORT_TYPES, report);
+}
+
+export function recoverMatchReportSigner(
+  domain: ethers.TypedDataDomain,
+  report: MatchReport,
+  signature: string
+): string {
+  return ethers.verifyTypedData(domain, MATCH_REPORT_TYPES, report, signature);
+}
+
+// ━━━ RELAYER ━━━
+
+/**
+ * Queues signed match reports and relays them to SkillProofEngine in
+ * `submitMatchReports` batches, paying the gas with `signer`.
+ *
+ * `report()` signs a match with the reporter key. Reports signed elsewhere —
+ * typically by both players — go through `enqueue()`, which checks the
+ * signatures and nonce the same way the Engine will, so a bad report is
+ * rejected before it can revert a whole batch. Each reporter's nonces are
+ * sequential, so reports are queued in nonce order and relayed once.
+ */
+export class SkillProofRelayer {
+  private signer: ethers.Signer;
+  private reporter: ethers.Signer;
+  private engine: ethers.Contract;
+  private options: Required<Omit<RelayerOptions, "engine" | "reporter">>;
+  private queue: SignedMatchReport[] = [];
+  private domainCache: Promise<ethers.TypedDataDomain> | null = null;
+  // Serializes queue changes so nonces are read and assigned consistently
+  private lock: Promise<unknown> = Promise.resolve();
+
+  constructor(signer: ethers.Signer, options: RelayerOptions = {}) {
+    if (!signer.provider) throw new Error("Signer must be connected to a provider");
+    this.signer = signer;
+    this.reporter = options.reporter ?? signer;
+    this.options = {
+      batchSize: options.batchSize ?? 20,
+      ttl: options.ttl ?? 3600,
+    };
+    this.engine = new ethers.Contract(options.engine ?? deployments.coston2.SkillProofEngine, EngineABI, signer);
+  }
+
+  /** Reports waiting for `flush()` */
+  get pending(): SignedMatchReport[] {
+    return [...this.queue];
+  }
+
+  async domain(): Promise<ethers.TypedDataDomain> {
+    this.domainCache ??= this.engine
+      .getAddress()
+      .then((address) => matchReportDomain(address, this.signer.provider!));
+    return this.domainCache;
+  }
+
+  // ━━━ QUEUE ━━━
+
+  /**
+   * Build an unsigned report for `match` with `reporter`'s next free nonce.
+   * Reports prepared for the same reporter must be queued in the order
+   * they were prepared; preparing another before queueing reuses the nonce.
+   */
+  async prepareReport(match: MatchInput, reporter: string): Promise<MatchReport> {
+    const nonce = await this.nextNonce(reporter);
+    const latest = await this.signer.provider!.getBlock("latest");
+    return { ...match, reporter, nonce, deadline: latest!.timestamp + this.options.ttl };
+  }
+
+  /** Sign `match` with the reporter key and queue it */
+  async report(match: MatchInput): Promise<SignedMatchReport> {
+    return this.serial(async () => {
+      const report = await this.prepareReport(match, await this.reporter.getAddress());
+      const signed = { report, signatures: [await signMatchReport(this.reporter, await this.domain(), report)] };
+      this.queue.push(signed);
+      return signed;
+    });
+  }
+
+  /** Verify a report signed elsewhere and queue it; throws if the Engine would reject it */
+  async enqueue(signed: SignedMatchReport): Promise<void> {
+    return this.serial(async () => {
+      await this.check(signed);
+      this.queue.push(signed);
+    });
+  }
+
+  // ━━━ RELAY ━━━
+
+  /** Submit every queued report in batches of `batchSize` */
+  async flush(): Promise<RelayResult> {
+    return this.serial(async () => {
+      const reports = this.queue;
+      this.queue = [];
+      const result: RelayResult = { batches: [], failed: [] };
+
+      for (let i = 0; i < reports.length; i += this.options.batchSize) {
+        const batch = reports.slice(i, i + this.options.batchSize);
+        try {
+          const tx = await this.engine.submitMatchReports(
+            batch.map((s) => s.report),
+            batch.map((s) => s.signatures)
+          );
+          const receipt = await tx.wait();
+          if (!receipt || receipt.status !== 1) throw new Error(`Transaction ${tx.hash} reverted`);
+          const matchIds = receipt.logs
+            .map((log: ethers.Log) => this.engine.interface.parseLog(log))
+            .filter((e: ethers.LogDescription | null) => e?.name === "MatchReportRelayed")
+            .map((e: ethers.LogDescription) => Number(e.args.matchId));
+          result.batches.push({ reports: batch, txHash: receipt.hash, matchIds });
+        } catch (e) {
+          result.failed.push({ reports: batch, error: (e as Error).message });
+        }
+      }
+      return result;
+    });
+  }
+
+  // ━━━ INTERNAL ━━━
+
+  /** On-chain nonce plus the reports already queued for `reporter` */
+  private async nextNonce(reporter: string): Promise<number> {
+    const onChain = Number(await this.engine.nonces(reporter));
+    const queued = this.queue.filter((s) => s.report.reporter.toLowerCase() === reporter.toLowerCase()).length;
+    return onChain + queued;
+  }
+
+  /** Mirrors `SkillProofEngine._submitMatchReport` */
+  private async check({ report, signatures }: SignedMatchReport): Promise<void> {
+    const latest = await this.signer.provider!.getBlock("latest");
+    if (latest!.timestamp >= report.deadline) throw new Error("Report expired");
+
+    const onChain = Number(await this.engine.nonces(report.reporter));
+    if (report.nonce < onChain) throw new Error(`Report already relayed (nonce ${report.nonce})`);
+    const expected = await this.nextNonce(report.reporter);
+    if (report.nonce !== expected) throw new Error(`Invalid nonce ${report.nonce}, expected ${expected}`);
+
+    const domain = await this.domain();
+    const signedBy = (signature: string, account: string) => {
+      try {
+        return recoverMatchReportSigner(domain, report, signature).toLowerCase() === account.toLowerCase();
+      } catch {
+        return false;
+      }
+    };
+    const key = report.reporter.toLowerCase();
+    if (await this.engine.authorizedReporters(report.reporter)) {
+      if (signatures.length !== 1 || !signedBy(signatures[0], report.reporter)) {
+        throw new Error("Invalid signature");
+      }
+    } else {
+      if (key !== report.player1.toLowerCase() && key !== report.player2.toLowerCase()) {
+        throw new Error(`${report.reporter} is not an authorized reporter or a player`);
+      }
+      if (
+        signatures.length !== 2 ||
+        !signedBy(signatures[0], report.player1) ||
+        !signedBy(signatures[1], report.player2)
+      ) {
+        throw new Error("Invalid signature");
+      }
+    }
+  }
+
+  private serial<T>(fn: () => Promise<T>): Promise<T> {
+    const run = this.lock.then(fn);
+    this.lock = run.catch(() => undefined);
+    return run;
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Merkle Tree Builder for SkillProofVerifier
+ *
+ * Rebuilds the Verifier's credential tree off-chain from Registry state,
+ * exports every user's inclusion proofs as JSON, and checks (or sets) the
+ * on-chain root.
+ *
+ * Usage:
+ *   # Users from CredentialMinted events, credential leaves only
+ *   npx hardhat run scripts/build-merkle-tree.ts --network coston2
+ *
+ *   # Explicit users + threshold leaves (same order as updateMerkleRootWithThresholds)
+ *   USERS=0xabc...,0xdef... THRESHOLDS=1200,1500 npx hardhat run scripts/build-merkle-tree.ts
+ *
+ *   # Write the off-chain root to the Verifier (operator only)
+ *   SET_ROOT=true OUT=proofs.json npx hardhat run scripts/build-merkle-tree.ts --network coston2
+ */
+
+import { ethers } from "hardhat";
+import { EventLog } from "ethers";
+import * as fs from "fs";
+import * as path from "path";
+import { SkillProofClient } from "../sdk";
+
+async function main() {
+  const thresholds = (process.env.THRESHOLDS || "")
+    .split(",")
+    .filter(Boolean)
+    .map((t) => parseInt(t));
+  const out = process.env.OUT || "merkle-proofs.json";
+  const setRoot = process.env.SET_ROOT === "true";
+
+  const deployments = JSON.parse(
+    fs.readFileSync(path.join(__dirname, "../lib/deployments.json"), "utf8")
+  );
+  const network = await ethers.provider.getNetwork();
+  const networkName = network.chainId === 114n ? "coston2" : "localhost";
+  const registryAddr = deployments[networkName]?.SkillProofRegistry;
+  const verifierAddr = deployments[networkName]?.SkillProofVerifier;
+  if (!registryAddr || !verifierAddr) {
+    throw new Error(`Registry/Verifier not found for "${networkName}" in deployments.json`);
+  }
+
+  const [signer] = await ethers.getSigners();
+  const client = new SkillProofClient(signer, { registry: registryAddr, verifier: verifierAddr });
+
+  // ── Users ──
+  let users: string[];
+  if (process.env.USERS) {
+    users = process.env.USERS.split(",").map((u) => ethers.getAddress(u.trim()));
+  } else {
+    const registryAbi = JSON.parse(fs.readFileSync(path.join(__dirname, "../lib/abi.json"), "utf8"));
+    const registry = new ethers.Contract(registryAddr, registryAbi, ethers.provider);
+    const fromBlock = parseInt(process.env.FROM_BLOCK || "0");
+    const minted = await registry.queryFilter(registry.filters.CredentialMinted(), fromBlock);
+    users = [...new Set(minted.map((e) => (e as EventLog).args.player as string))];
+  }
+
+  console.log(`\n=== Merkle Tree Builder ===`);
+  console.log(`  Network:    ${networkName}`);
+  console.log(`  Verifier:   ${verifierAddr}`);
+  console.log(`  Users:      ${users.length}`);
+  console.log(`  Thresholds: ${thresholds.length ? thresholds.join(", ") : "(none)"}`);
+
+  if (users.length === 0) {
+    console.log("  No users — nothing to build");
+    return;
+  }
+
+  // ── Build + export ──
+  const proofs = await client.buildMerkleProofs(users, thresholds);
+  fs.writeFileSync(out, JSON.stringify(proofs, null, 2) + "\n");
+  console.log(`\n  Off-chain root: ${proofs.root}`);
+  console.log(`  Wrote proofs to ${out}`);
+
+  // ── Compare / set on-chain root ──
+  const onChainRoot = await client.getMerkleRoot();
+  console.log(`  On-chain root:  ${onChainRoot}`);
+
+  if (onChainRoot.toLowerCase() === proofs.root.toLowerCase()) {
+    console.log("  ✅ Roots match");
+  } else if (setRoot) {
+    const { receipt } = await client.updateMerkleRoot(proofs.root);
+    console.log(`  ✅ Root updated (tx ${receipt.hash})`);
+  } else {
+    console.log("  ⚠ Roots differ — rerun with SET_ROOT=true to publish the off-chain root");
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,92 @@
+import { ethers } from "hardhat";
+import * as fs from "fs";
+import * as path from "path";
+
+async function main() {
+  const [deployer] = await ethers.getSigners();
+  console.log("Deploying SkillProofDisputes with account:", deployer.address);
+
+  const balance = await ethers.provider.getBalance(deployer.address);
+  console.log("Account balance:", ethers.formatEther(balance), "C2FLR");
+
+  const libDir = path.join(__dirname, "..", "lib");
+  const deploymentsPath = path.join(libDir, "deployments.json");
+  const deployments = JSON.parse(fs.readFileSync(deploymentsPath, "utf-8"));
+
+  const network = await ethers.provider.getNetwork();
+  const networkName = network.chainId === 114n ? "coston2" : "localhost";
+  const deployed = deployments[networkName] || {};
+
+  const registryAddress = deployed.SkillProofRegistry;
+  const stakingAddress = deployed.SkillProofStaking;
+  const hubAddress = deployed.SkillProofHub;
+  if (!registryAddress || !stakingAddress || !hubAddress) {
+    throw new Error(`Registry, Staking and Hub must be deployed on "${networkName}" first`);
+  }
+
+  const disputeBond = ethers.parseEther("0.05");
+  const responseWindow = 3 * 24 * 60 * 60; // 3 days
+  const resolutionWindow = 7 * 24 * 60 * 60; // 7 days
+
+  console.log("Dispute bond:", ethers.formatEther(disputeBond), "C2FLR");
+  console.log("Response window:", responseWindow / 86400, "days");
+  console.log("Resolution window:", resolutionWindow / 86400, "days");
+
+  // Deploy
+  const Factory = await ethers.getContractFactory("SkillProofDisputes");
+  const disputes = await Factory.deploy(
+    registryAddress,
+    stakingAddress,
+    hubAddress,
+    disputeBond,
+    responseWindow,
+    resolutionWindow
+  );
+  await disputes.waitForDeployment();
+
+  const address = await disputes.getAddress();
+  console.log("SkillProofDisputes deployed to:", address);
+
+  // Update deployments.json
+  if (!deployments[networkName]) deployments[networkName] = {};
+  deployments[networkName].SkillProofDisputes = address;
+  fs.writeFileSync(deploymentsPath, JSON.stringify(deployments, null, 2) + "\n");
+  console.log("Updated lib/deployments.json");
+
+  // Extract ABI
+  const artifactPath = path.join(
+    __dirname, "..", "artifacts", "contracts",
+    "SkillProofDisputes.sol", "SkillProofDisputes.json"
+  );
+  const artifact = JSON.parse(fs.readFileSync(artifactPath, "utf-8"));
+  fs.writeFileSync(
+    path.join(libDir, "disputes-abi.json"),
+    JSON.stringify(artifact.abi, null, 2) + "\n"
+  );
+  console.log("Saved ABI to lib/disputes-abi.json");
+
+  // ── Let upheld disputes slash ──
+  console.log("\n── Handing slashing to SkillProofDisputes ──");
+  const stakingAbi = JSON.parse(fs.readFileSync(path.join(libDir, "staking-abi.json"), "utf-8"));
+  const staking = new ethers.Contract(stakingAddress, stakingAbi, deployer);
+  try {
+    const tx = await staking.setArbiter(address);
+    await tx.wait();
+    console.log("SkillProofStaking", stakingAddress, "arbiter is now", address);
+  } catch {
+    console.log("Could not set the Staking arbiter — run setArbiter as the Staking owner");
+  }
+
+  // ── Print summary ──
+  console.log("\n── Summary ──");
+  console.log("Registry:", registryAddress);
+  console.log("Staking:", stakingAddress);
+  console.log("Hub:", hubAddress);
+  console.log("Arbiter:", await disputes.arbiter());
+  console.log("Contract:", address);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -73,6 +73,24 @@ async function main() {
     console.log("\nOnly one signer available — skipping ChessArena stake");
   }
 
+  // ── Gate Registry issuance on the stake ──
+  // Runs after the issuers above have staked so they can keep minting.
+  const registryAddress = deployments[networkName].SkillProofRegistry;
+  if (registryAddress) {
+    console.log("\n── Enforcing stake in SkillProofRegistry ──");
+    const registryAbi = JSON.parse(fs.readFileSync(path.join(libDir, "abi.json"), "utf-8"));
+    const registry = new ethers.Contract(registryAddress, registryAbi, deployer);
+    try {
+      const tx3 = await registry.setStaking(address);
+      await tx3.wait();
+      console.log("Registry", registryAddress, "now requires a valid stake to mint / update");
+    } catch {
+      console.log("Registry", registryAddress, "predates staking enforcement — redeploy it with deploy.ts to gate issuance");
+    }
+  } else {
+    console.log("\nNo SkillProofRegistry deployment found — skipping issuance gate");
+  }
+
   // ── Print summary ──
   const totalStaked = await staking.totalStaked();
   const issuerCount = await staking.getStakedIssuerCount();
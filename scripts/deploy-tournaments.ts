@@ -0,0 +1,73 @@
+import { ethers } from "hardhat";
+import * as fs from "fs";
+import * as path from "path";
+
+async function main() {
+  const [deployer] = await ethers.getSigners();
+  console.log("Deploying SkillProofTournaments with account:", deployer.address);
+
+  const balance = await ethers.provider.getBalance(deployer.address);
+  console.log("Account balance:", ethers.formatEther(balance), "C2FLR");
+
+  const libDir = path.join(__dirname, "..", "lib");
+  const deploymentsPath = path.join(libDir, "deployments.json");
+  const deployments = JSON.parse(fs.readFileSync(deploymentsPath, "utf-8"));
+
+  const network = await ethers.provider.getNetwork();
+  const networkName = network.chainId === 114n ? "coston2" : "localhost";
+  const deployed = deployments[networkName] || {};
+
+  const engineAddress = deployed.SkillProofEngine;
+  if (!engineAddress) {
+    throw new Error(`SkillProofEngine must be deployed on "${networkName}" first`);
+  }
+
+  // Deploy
+  const Factory = await ethers.getContractFactory("SkillProofTournaments");
+  const tournaments = await Factory.deploy(engineAddress);
+  await tournaments.waitForDeployment();
+
+  const address = await tournaments.getAddress();
+  console.log("SkillProofTournaments deployed to:", address);
+
+  // Update deployments.json
+  if (!deployments[networkName]) deployments[networkName] = {};
+  deployments[networkName].SkillProofTournaments = address;
+  fs.writeFileSync(deploymentsPath, JSON.stringify(deployments, null, 2) + "\n");
+  console.log("Updated lib/deployments.json");
+
+  // Extract ABI
+  const artifactPath = path.join(
+    __dirname, "..", "artifacts", "contracts",
+    "SkillProofTournaments.sol", "SkillProofTournaments.json"
+  );
+  const artifact = JSON.parse(fs.readFileSync(artifactPath, "utf-8"));
+  fs.writeFileSync(
+    path.join(libDir, "tournaments-abi.json"),
+    JSON.stringify(artifact.abi, null, 2) + "\n"
+  );
+  console.log("Saved ABI to lib/tournaments-abi.json");
+
+  // ── Let tournament results reach the Engine ──
+  console.log("\n── Authorizing SkillProofTournaments as an Engine reporter ──");
+  const engineAbi = JSON.parse(fs.readFileSync(path.join(libDir, "engine-abi.json"), "utf-8"));
+  const engine = new ethers.Contract(engineAddress, engineAbi, deployer);
+  try {
+    const tx = await engine.addReporter(address);
+    await tx.wait();
+    console.log("SkillProofEngine", engineAddress, "now accepts results from", address);
+  } catch {
+    console.log("Could not add the reporter — run addReporter as the Engine owner");
+  }
+
+  // ── Print summary ──
+  console.log("\n── Summary ──");
+  console.log("Engine:", engineAddress);
+  console.log("Organizer:", deployer.address);
+  console.log("Contract:", address);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -58,6 +58,38 @@ async function main() {
   );
   console.log("Saved ABI to lib/treasury-abi.json");
 
+  // ── Wire fee collection into the protocol contracts ──
+  // Each contract charges nothing until its treasury is set; older
+  // deployments without `setTreasury` are skipped.
+  console.log("\n── Wiring Treasury ──");
+  const wired: [string, string][] = [
+    ["SkillProofRegistry", deployments[networkName].SkillProofRegistry],
+    ["SkillProofHub", deployments[networkName].SkillProofHub],
+    ["SkillProofVerifier", deployments[networkName].SkillProofVerifier],
+    ["SkillProofZKVerifier", deployments[networkName].SkillProofZKVerifier],
+  ];
+  for (const [name, target] of wired) {
+    if (!target) {
+      console.log(`${name}: not deployed, skipped`);
+      continue;
+    }
+    try {
+      const contract = await ethers.getContractAt(name, target);
+      await (await contract.setTreasury(address)).wait();
+      console.log(`${name}: fees now routed to treasury`);
+    } catch (e) {
+      console.log(`${name}: could not set treasury (${(e as Error).message.split("\n")[0]})`);
+    }
+  }
+
+  // The treasury only accepts collect* calls from the contracts wired above
+  const { SkillProofRegistry, SkillProofHub, SkillProofVerifier, SkillProofZKVerifier } = deployments[networkName];
+  await (await treasury.setFeeCollectors(SkillProofRegistry ?? ethers.ZeroAddress, SkillProofHub ?? ethers.ZeroAddress)).wait();
+  for (const verifier of [SkillProofVerifier, SkillProofZKVerifier].filter(Boolean)) {
+    await (await treasury.setVerifier(verifier, true)).wait();
+  }
+  console.log("Treasury: registry, hub and verifiers allowed to collect fees");
+
   // ── Seed: Pay credential fees ──
   console.log("\n── Seeding: Credential Fees ──");
   const tx1 = await treasury.payCredentialFee(deployer.address, { value: credentialMintFee });
@@ -0,0 +1,91 @@
+/**
+ * SkillProof Engine → Registry Credential Sync
+ *
+ * Mints / updates Registry credentials from SkillProofEngine ratings, as the
+ * deployer (which must be a registered issuer), then refreshes their decay
+ * clock. Percentiles are recomputed across the Engine's whole player list.
+ *
+ * Usage:
+ *   # Print what would change, send nothing
+ *   DRY_RUN=true npx hardhat run scripts/run-credential-sync.ts --network coston2
+ *
+ *   # Sync once, then keep following new matches
+ *   FOLLOW=true DOMAINS=chess,poker npx hardhat run scripts/run-credential-sync.ts --network coston2
+ *
+ * Env: FROM_BLOCK (default 0), CONFIRMATIONS (default 0), MIN_MATCHES (default 1),
+ *      DOMAINS (comma-separated, added to those seen in matches), BATCH_SIZE (default 10),
+ *      RETRIES (default 3), POLL_MS (default 4000), DRY_RUN, FOLLOW
+ */
+
+import { ethers } from "hardhat";
+import * as fs from "fs";
+import * as path from "path";
+import { SkillProofCredentialSync, CredentialSyncResult } from "../sync";
+
+function report(r: CredentialSyncResult) {
+  if (r.toBlock === null) return;
+  console.log(`  #${r.fromBlock}–#${r.toBlock}: ${r.events} engine events, ${r.actions.length} credentials out of date`);
+  for (const a of r.actions) {
+    const c = a.credential;
+    console.log(
+      `    ${r.dryRun ? "would " : ""}${a.kind} ${a.player}: ELO ${c.overallElo}, P${c.percentile}, ` +
+        `${c.totalMatches} matches, ${(c.winRate / 100).toFixed(1)}% wins`
+    );
+  }
+  for (const s of r.skipped) console.log(`    skipped ${s.player}: ${s.reason}`);
+  for (const f of r.failed) console.error(`    ❌ ${f.action.kind} ${f.action.player}: ${f.error}`);
+  if (!r.dryRun) console.log(`  ✅ ${r.applied.length} applied, ${r.failed.length} failed`);
+}
+
+async function main() {
+  const deployments = JSON.parse(
+    fs.readFileSync(path.join(__dirname, "../lib/deployments.json"), "utf8")
+  );
+  const network = await ethers.provider.getNetwork();
+  const networkName = network.chainId === 114n ? "coston2" : "localhost";
+  const deployed = deployments[networkName] || {};
+  if (!deployed.SkillProofEngine || !deployed.SkillProofRegistry) {
+    throw new Error(`No Engine/Registry deployment found for network "${networkName}"`);
+  }
+
+  const [issuer] = await ethers.getSigners();
+  const worker = new SkillProofCredentialSync(issuer, {
+    contracts: {
+      engine: deployed.SkillProofEngine,
+      registry: deployed.SkillProofRegistry,
+      decay: deployed.SkillProofDecay,
+    },
+    startBlock: parseInt(process.env.FROM_BLOCK || "0"),
+    confirmations: parseInt(process.env.CONFIRMATIONS || "0"),
+    minMatches: parseInt(process.env.MIN_MATCHES || "1"),
+    domains: process.env.DOMAINS ? process.env.DOMAINS.split(",").map((d) => d.trim()) : [],
+    batchSize: parseInt(process.env.BATCH_SIZE || "10"),
+    retries: parseInt(process.env.RETRIES || "3"),
+    pollInterval: parseInt(process.env.POLL_MS || "4000"),
+    dryRun: process.env.DRY_RUN === "true",
+    onSync: report,
+    onError: (e) => console.error(`  ❌ ${e.message}`),
+  });
+
+  console.log(`\n=== SkillProof Credential Sync ===`);
+  console.log(`  Network: ${networkName}`);
+  console.log(`  Issuer:  ${issuer.address}`);
+  console.log(`  Mode:    ${process.env.DRY_RUN === "true" ? "dry run" : "live"}`);
+
+  if (process.env.FOLLOW === "true") {
+    console.log("  Following new matches — Ctrl+C to stop\n");
+    process.on("SIGINT", async () => {
+      await worker.stop();
+      process.exit(0);
+    });
+    worker.start();
+    return;
+  }
+
+  report(await worker.sync());
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
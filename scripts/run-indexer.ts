@@ -0,0 +1,88 @@
+/**
+ * SkillProof Event Indexer
+ *
+ * Backfills Registry / Engine / Hub / Staking / ZK Verifier / Decay / Aggregator /
+ * Treasury events into SQLite, then optionally keeps following new blocks (with
+ * reorg rollback).
+ *
+ * Usage:
+ *   # One-shot backfill of Coston2 from a start block
+ *   FROM_BLOCK=12000000 npx hardhat run scripts/run-indexer.ts --network coston2
+ *
+ *   # Follow the chain, 3 confirmations, custom database file
+ *   FOLLOW=true CONFIRMATIONS=3 DB=skillproof.db npx hardhat run scripts/run-indexer.ts --network coston2
+ *
+ * Env: DB (default indexer.db), FROM_BLOCK (default 0), CHUNK_SIZE (default 500),
+ *      CONFIRMATIONS (default 0), POLL_MS (default 4000), FOLLOW
+ */
+
+import { ethers } from "hardhat";
+import * as fs from "fs";
+import * as path from "path";
+import { SkillProofIndexer, IndexerStore, IndexerContracts } from "../indexer";
+
+async function main() {
+  const deployments = JSON.parse(
+    fs.readFileSync(path.join(__dirname, "../lib/deployments.json"), "utf8")
+  );
+  const network = await ethers.provider.getNetwork();
+  const networkName = network.chainId === 114n ? "coston2" : "localhost";
+  const deployed = deployments[networkName] || {};
+
+  const contracts: IndexerContracts = {
+    registry: deployed.SkillProofRegistry,
+    engine: deployed.SkillProofEngine,
+    hub: deployed.SkillProofHub,
+    staking: deployed.SkillProofStaking,
+    zkVerifier: deployed.SkillProofZKVerifier,
+    treasury: deployed.SkillProofTreasury,
+    decay: deployed.SkillProofDecay,
+    aggregator: deployed.SkillProofAggregator,
+  };
+
+  const db = process.env.DB || "indexer.db";
+  const store = new IndexerStore(db);
+  const indexer = new SkillProofIndexer(ethers.provider, store, {
+    contracts,
+    startBlock: parseInt(process.env.FROM_BLOCK || "0"),
+    chunkSize: parseInt(process.env.CHUNK_SIZE || "500"),
+    confirmations: parseInt(process.env.CONFIRMATIONS || "0"),
+    pollInterval: parseInt(process.env.POLL_MS || "4000"),
+    onSync: (r) => {
+      if (r.reorg) console.log(`  ⚠ Reorg: rolled back ${r.reorg.depth} blocks to #${r.reorg.forkBlock}`);
+      if (r.toBlock !== null) console.log(`  #${r.fromBlock}–#${r.toBlock}: ${r.events} events`);
+    },
+    onError: (e) => console.error(`  ❌ ${e.message}`),
+  });
+
+  console.log(`\n=== SkillProof Indexer ===`);
+  console.log(`  Network:   ${networkName}`);
+  console.log(`  Database:  ${db}`);
+  console.log(`  Contracts: ${Object.entries(contracts).filter(([, a]) => a).map(([k]) => k).join(", ")}`);
+  console.log(`  Cursor:    ${store.lastBlock ?? "(empty)"}`);
+
+  if (process.env.FOLLOW === "true") {
+    console.log("  Following new blocks — Ctrl+C to stop\n");
+    process.on("SIGINT", async () => {
+      await indexer.stop();
+      store.close();
+      process.exit(0);
+    });
+    indexer.start();
+    return;
+  }
+
+  const result = await indexer.sync();
+  if (result.reorg) console.log(`  ⚠ Reorg: rolled back ${result.reorg.depth} blocks to #${result.reorg.forkBlock}`);
+  console.log(
+    result.toBlock === null
+      ? "  Already up to date"
+      : `  ✅ Indexed #${result.fromBlock}–#${result.toBlock} (${result.events} events)`
+  );
+  store.close();
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,89 @@
+/**
+ * SkillProof Collusion Scan
+ *
+ * Scans SkillProofEngine match history for repeat pairs, win trading and
+ * abnormal rating velocity, prints the flagged clusters and optionally
+ * writes the report as JSON. With FILE_DISPUTES=true the deployer opens a
+ * bonded SkillProofDisputes challenge against each flagged player's credential.
+ *
+ * Usage:
+ *   npx hardhat run scripts/scan-collusion.ts --network coston2
+ *   OUTPUT=collusion.json FROM_MATCH=500 npx hardhat run scripts/scan-collusion.ts --network coston2
+ *   FILE_DISPUTES=true DRY_RUN=true npx hardhat run scripts/scan-collusion.ts --network coston2
+ *
+ * Env: FROM_MATCH, TO_MATCH, OUTPUT (JSON report path), MIN_PAIR_MATCHES (default 6),
+ *      PAIR_SHARE (default 0.5), MIN_TRADED_RESULTS (default 8), ALTERNATION (default 0.85),
+ *      VELOCITY_DAYS (default 7), MAX_VELOCITY (default 120), FILE_DISPUTES, DRY_RUN,
+ *      MIN_FINDINGS (default 2), EVIDENCE_URI (published copy of the report, filed with each dispute)
+ */
+
+import { ethers } from "hardhat";
+import * as fs from "fs";
+import * as path from "path";
+import { SkillProofCollusionScanner } from "../analytics";
+
+async function main() {
+  const deployments = JSON.parse(
+    fs.readFileSync(path.join(__dirname, "../lib/deployments.json"), "utf8")
+  );
+  const network = await ethers.provider.getNetwork();
+  const networkName = network.chainId === 114n ? "coston2" : "localhost";
+  const deployed = deployments[networkName] || {};
+  if (!deployed.SkillProofEngine) {
+    throw new Error(`No Engine deployment found for network "${networkName}"`);
+  }
+
+  const [signer] = await ethers.getSigners();
+  const scanner = new SkillProofCollusionScanner(signer, {
+    engine: deployed.SkillProofEngine,
+    disputes: deployed.SkillProofDisputes,
+    fromMatch: process.env.FROM_MATCH ? parseInt(process.env.FROM_MATCH) : undefined,
+    toMatch: process.env.TO_MATCH ? parseInt(process.env.TO_MATCH) : undefined,
+    thresholds: {
+      minPairMatches: parseInt(process.env.MIN_PAIR_MATCHES || "6"),
+      pairShare: parseFloat(process.env.PAIR_SHARE || "0.5"),
+      minTradedResults: parseInt(process.env.MIN_TRADED_RESULTS || "8"),
+      alternation: parseFloat(process.env.ALTERNATION || "0.85"),
+      velocityWindow: parseFloat(process.env.VELOCITY_DAYS || "7") * 24 * 60 * 60,
+      maxVelocity: parseInt(process.env.MAX_VELOCITY || "120"),
+    },
+  });
+
+  console.log(`\n=== SkillProof Collusion Scan ===`);
+  console.log(`  Network: ${networkName}`);
+  console.log(`  Engine:  ${deployed.SkillProofEngine}`);
+
+  const report = await scanner.scan();
+  console.log(
+    `  ${report.matches} matches (#${report.fromMatch ?? "-"}–#${report.toMatch ?? "-"}), ` +
+      `${report.players} players, ${report.findings.length} findings in ${report.clusters.length} clusters\n`
+  );
+  report.clusters.forEach((c, i) => {
+    console.log(`  Cluster ${i + 1}: ${c.players.join(", ")}`);
+    for (const f of c.findings) console.log(`    [${f.kind}] ${f.summary}`);
+    console.log(`    matches: ${c.matchIds.join(", ")}`);
+  });
+
+  if (process.env.OUTPUT) {
+    fs.writeFileSync(process.env.OUTPUT, JSON.stringify(report, null, 2) + "\n");
+    console.log(`\n  Report written to ${process.env.OUTPUT}`);
+  }
+
+  if (process.env.FILE_DISPUTES === "true") {
+    const result = await scanner.fileDisputes(report, {
+      minFindings: parseInt(process.env.MIN_FINDINGS || "2"),
+      evidenceURI: process.env.EVIDENCE_URI ? () => process.env.EVIDENCE_URI! : undefined,
+      dryRun: process.env.DRY_RUN === "true",
+    });
+    console.log(`\n  Disputes${result.dryRun ? " (dry run)" : ""}:`);
+    for (const f of result.filed) {
+      console.log(`    ${result.dryRun ? "would file" : `#${f.disputeId}`} ${f.player} evidence ${f.evidenceHash}`);
+    }
+    for (const s of result.skipped) console.log(`    skipped ${s.player}: ${s.reason}`);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,88 @@
+/**
+ * SkillProof Read API
+ *
+ * Follows the chain with the event indexer and serves the indexed data over
+ * HTTP (see api/README.md for routes). Point the frontend at it with
+ * NEXT_PUBLIC_SKILLPROOF_API_URL.
+ *
+ * Usage:
+ *   PORT=4000 DB=skillproof.db npx hardhat run scripts/serve-api.ts --network coston2
+ *
+ * Env: DB (default indexer.db), PORT (default 4000), FROM_BLOCK (default 0),
+ *      CONFIRMATIONS (default 0), POLL_MS (default 4000), CORS_ORIGIN (default *)
+ */
+
+import { ethers } from "hardhat";
+import * as fs from "fs";
+import * as path from "path";
+import { SkillProofIndexer, IndexerStore, IndexerContracts, INDEXED_ABIS } from "../indexer";
+import { SkillProofReadModel, createApiServer, DecayParameters } from "../api";
+
+async function main() {
+  const deployments = JSON.parse(
+    fs.readFileSync(path.join(__dirname, "../lib/deployments.json"), "utf8")
+  );
+  const network = await ethers.provider.getNetwork();
+  const networkName = network.chainId === 114n ? "coston2" : "localhost";
+  const deployed = deployments[networkName] || {};
+
+  const contracts: IndexerContracts = {
+    registry: deployed.SkillProofRegistry,
+    engine: deployed.SkillProofEngine,
+    hub: deployed.SkillProofHub,
+    staking: deployed.SkillProofStaking,
+    zkVerifier: deployed.SkillProofZKVerifier,
+    treasury: deployed.SkillProofTreasury,
+    decay: deployed.SkillProofDecay,
+    aggregator: deployed.SkillProofAggregator,
+  };
+
+  // Constructor-set decay parameters emit no event; read them once so the
+  // decayed leaderboard matches the contract until the first update.
+  let decay: DecayParameters | undefined;
+  if (contracts.decay) {
+    const contract = new ethers.Contract(contracts.decay, INDEXED_ABIS.decay, ethers.provider);
+    decay = {
+      ratePerDay: Number(await contract.decayRatePerDay()),
+      minimumMultiplierBps: Number(await contract.minimumMultiplierBps()),
+    };
+  }
+
+  const db = process.env.DB || "indexer.db";
+  const port = parseInt(process.env.PORT || "4000");
+  const store = new IndexerStore(db);
+  const indexer = new SkillProofIndexer(ethers.provider, store, {
+    contracts,
+    startBlock: parseInt(process.env.FROM_BLOCK || "0"),
+    confirmations: parseInt(process.env.CONFIRMATIONS || "0"),
+    pollInterval: parseInt(process.env.POLL_MS || "4000"),
+    onSync: (r) => {
+      if (r.reorg) console.log(`  ⚠ Reorg: rolled back ${r.reorg.depth} blocks to #${r.reorg.forkBlock}`);
+      if (r.toBlock !== null) console.log(`  #${r.fromBlock}–#${r.toBlock}: ${r.events} events`);
+    },
+    onError: (e) => console.error(`  ❌ ${e.message}`),
+  });
+  const server = createApiServer(new SkillProofReadModel(store, { decay }), {
+    corsOrigin: process.env.CORS_ORIGIN,
+  });
+
+  console.log(`\n=== SkillProof Read API ===`);
+  console.log(`  Network:  ${networkName}`);
+  console.log(`  Database: ${db}`);
+  console.log(`  Cursor:   ${store.lastBlock ?? "(empty)"}`);
+
+  process.on("SIGINT", async () => {
+    server.close();
+    await indexer.stop();
+    store.close();
+    process.exit(0);
+  });
+
+  indexer.start();
+  server.listen(port, () => console.log(`  Listening on http://localhost:${port} — Ctrl+C to stop\n`));
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
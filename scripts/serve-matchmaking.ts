@@ -0,0 +1,91 @@
+/**
+ * SkillProof Matchmaking Server
+ *
+ * Queues SkillProofEngine players, pairs them by rating and records their
+ * results on the Engine (see matchmaking/README.md for routes). Results are
+ * signed by REPORTER_KEY, or the deployer, which must be an authorized
+ * Engine reporter.
+ *
+ * Usage:
+ *   PORT=4100 AUTH_TOKEN=secret npx hardhat run scripts/serve-matchmaking.ts --network coston2
+ *
+ * Env: PORT (default 4100), REPORTER_KEY (default deployer), RATING (elo | domain, default elo),
+ *      INITIAL_WINDOW (default 50), WIDEN_RATE (default 5), MAX_WINDOW (default 400),
+ *      REMATCH_MEMORY (default 3), POLL_MS (default 1000), AUTH_TOKEN (required), CORS_ORIGIN (default *),
+ *      INSECURE=1 (run without AUTH_TOKEN, writes open to anyone — local development only)
+ */
+
+import { ethers } from "hardhat";
+import * as fs from "fs";
+import * as path from "path";
+import { SkillProofMatchmaker, RatingMode, createMatchmakingServer } from "../matchmaking";
+
+async function main() {
+  const deployments = JSON.parse(
+    fs.readFileSync(path.join(__dirname, "../lib/deployments.json"), "utf8")
+  );
+  const network = await ethers.provider.getNetwork();
+  const networkName = network.chainId === 114n ? "coston2" : "localhost";
+  const deployed = deployments[networkName] || {};
+  if (!deployed.SkillProofEngine) {
+    throw new Error(`No Engine deployment found for network "${networkName}"`);
+  }
+
+  const [deployer] = await ethers.getSigners();
+  const reporter = process.env.REPORTER_KEY
+    ? new ethers.Wallet(process.env.REPORTER_KEY, ethers.provider)
+    : deployer;
+  const rating = (process.env.RATING || "elo") as RatingMode;
+  if (rating !== "elo" && rating !== "domain") throw new Error(`RATING must be elo or domain, got "${rating}"`);
+  const insecure = process.env.INSECURE === "1";
+  if (!process.env.AUTH_TOKEN && !insecure) {
+    throw new Error("AUTH_TOKEN is required (set INSECURE=1 to leave writes open for local development)");
+  }
+
+  const matchmaker = new SkillProofMatchmaker(reporter, {
+    engine: deployed.SkillProofEngine,
+    rating,
+    initialWindow: parseInt(process.env.INITIAL_WINDOW || "50"),
+    widenRate: parseFloat(process.env.WIDEN_RATE || "5"),
+    maxWindow: parseInt(process.env.MAX_WINDOW || "400"),
+    rematchMemory: parseInt(process.env.REMATCH_MEMORY || "3"),
+    pollInterval: parseInt(process.env.POLL_MS || "1000"),
+    onError: (e) => console.error(`  ❌ ${e.message}`),
+  });
+  matchmaker.subscribe((e) => {
+    if (e.type === "paired") {
+      const p = e.pairing;
+      console.log(`  #${p.id} ${p.player1} (${p.rating1}) vs ${p.player2} (${p.rating2}) in "${p.domain}"`);
+    } else if (e.type === "reported") {
+      console.log(`  #${e.pairing.id} result ${e.pairing.outcome} → Engine match ${e.pairing.engineMatchId}`);
+    }
+  });
+
+  const port = parseInt(process.env.PORT || "4100");
+  const server = createMatchmakingServer(matchmaker, {
+    corsOrigin: process.env.CORS_ORIGIN,
+    authToken: process.env.AUTH_TOKEN,
+    insecure,
+  });
+
+  console.log(`\n=== SkillProof Matchmaking ===`);
+  console.log(`  Network:  ${networkName}`);
+  console.log(`  Engine:   ${deployed.SkillProofEngine}`);
+  console.log(`  Reporter: ${await reporter.getAddress()}`);
+  console.log(`  Rating:   ${rating}`);
+  if (!process.env.AUTH_TOKEN) console.log("  ⚠ INSECURE — anyone can queue players and report results");
+
+  process.on("SIGINT", async () => {
+    server.close();
+    await matchmaker.stop();
+    process.exit(0);
+  });
+
+  matchmaker.start();
+  server.listen(port, () => console.log(`  Listening on http://localhost:${port} — Ctrl+C to stop\n`));
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,113 @@
+import type { MatchOutcome } from "./index";
+
+// ━━━ ENGINE ELO MODEL ━━━
+//
+// Reference implementation of SkillProofEngine's rating math, in the same
+// fixed-point units (10000 = 1.0) and with the same integer rounding, so
+// results match `simulateMatch` / `recordMatch` exactly. Use it to preview
+// rating changes offline or to replay a match history.
+
+export const ELO_PRECISION = 10000;
+export const ELO_FLOOR = 100;
+export const BASE_ELO = 1200;
+
+/** Rating points between expected-score samples */
+export const CURVE_STEP = 25;
+/** Rating differences beyond ±CURVE_RANGE are clamped */
+export const CURVE_RANGE = 800;
+
+/** `round(10000 / (1 + 10^(-d / 400)))` for d = 0, 25, …, 800 — the Engine's table */
+export const EXPECTED_SCORE_CURVE: readonly number[] = [
+  5000, 5359, 5715, 6063, 6401, 6725, 7034, 7325, 7597, 7850, 8083,
+  8296, 8490, 8666, 8823, 8965, 9091, 9203, 9302, 9390, 9468, 9536,
+  9595, 9648, 9693, 9733, 9768, 9799, 9825, 9848, 9868, 9886, 9901,
+];
+
+/** Rating state that determines a player's K-factor */
+export interface EloRating {
+  elo: number;
+  totalMatches: number;
+}
+
+/** Exact logistic expected score of A against B, in [0, 1] */
+export function logisticExpectedScore(ratingA: number, ratingB: number): number {
+  return 1 / (1 + 10 ** ((ratingB - ratingA) / 400));
+}
+
+/** Expected score of A against B as the Engine computes it (fixed-point) */
+export function expectedScore(ratingA: number, ratingB: number): number {
+  const diff = Math.min(Math.abs(ratingA - ratingB), CURVE_RANGE);
+  const i = Math.floor(diff / CURVE_STEP);
+  let expected = EXPECTED_SCORE_CURVE[i];
+  if (i < EXPECTED_SCORE_CURVE.length - 1) {
+    expected += Math.floor(((EXPECTED_SCORE_CURVE[i + 1] - expected) * (diff % CURVE_STEP)) / CURVE_STEP);
+  }
+  return ratingA >= ratingB ? expected : ELO_PRECISION - expected;
+}
+
+/** K_EXPERT (16) from 2000 ELO, K_ESTABLISHED (24) from 30 matches, else K_NEW (32) */
+export function kFactor(player: EloRating): number {
+  if (player.elo >= 2000) return 16;
+  if (player.totalMatches >= 30) return 24;
+  return 32;
+}
+
+/** `k * (actual - expected)` in fixed-point; Solidity signed division truncates toward zero */
+export function eloChange(k: number, actual: number, expected: number): number {
+  return Math.trunc((k * (actual - expected)) / ELO_PRECISION);
+}
+
+/** Apply a rating change, flooring at 100 ELO */
+export function applyEloChange(elo: number, change: number): number {
+  return change < 0 && -change >= elo - ELO_FLOOR ? ELO_FLOOR : elo + change;
+}
+
+/** Rating after season archiving (`archiveStandings`) moves it `resetBps` of the way toward BASE_ELO */
+export function seasonReset(elo: number, resetBps: number): number {
+  return elo >= BASE_ELO
+    ? elo - Math.floor(((elo - BASE_ELO) * resetBps) / ELO_PRECISION)
+    : elo + Math.floor(((BASE_ELO - elo) * resetBps) / ELO_PRECISION);
+}
+
+/** Rating changes the Engine would apply for `outcome` */
+export function simulateEloMatch(
+  player1: EloRating,
+  player2: EloRating,
+  outcome: MatchOutcome
+): { player1Change: number; player2Change: number } {
+  const expected1 = expectedScore(player1.elo, player2.elo);
+  const actual1 = outcome === 1 ? ELO_PRECISION : outcome === 2 ? 0 : ELO_PRECISION / 2;
+  return {
+    player1Change: eloChange(kFactor(player1), actual1, expected1),
+    player2Change: eloChange(kFactor(player2), ELO_PRECISION - actual1, ELO_PRECISION - expected1),
+  };
+}
+
+/** Score of a team placed `a` against one placed `b` (fixed-point) */
+export function placementScore(a: number, b: number): number {
+  return a < b ? ELO_PRECISION : a > b ? 0 : ELO_PRECISION / 2;
+}
+
+/**
+ * Rating changes the Engine applies for a team or free-for-all match, per
+ * member of each team. Teams are rated at their members' average ELO and
+ * score pairwise against every other team by placement (1 = first).
+ */
+export function simulateTeamMatch(teams: EloRating[][], placements: number[]): number[][] {
+  const teamElo = teams.map((members) => Math.floor(members.reduce((sum, p) => sum + p.elo, 0) / members.length));
+  const actual = teams.map(() => 0);
+  const expected = teams.map(() => 0);
+  for (let t = 0; t < teams.length; t++) {
+    for (let u = t + 1; u < teams.length; u++) {
+      const e = expectedScore(teamElo[t], teamElo[u]);
+      const a = placementScore(placements[t], placements[u]);
+      expected[t] += e;
+      expected[u] += ELO_PRECISION - e;
+      actual[t] += a;
+      actual[u] += ELO_PRECISION - a;
+    }
+  }
+  return teams.map((members, t) =>
+    members.map((p) => Math.trunc(eloChange(kFactor(p), actual[t], expected[t]) / (teams.length - 1)))
+  );
+}
@@ -65,6 +65,17 @@ async function main() {
   const gate4 = await sdk.checkGate(testAddr, { minPercentile: 95 });
   console.log(`  Gate (top 5%):       ${gate4.passed ? "PASS" : "FAIL"} ${gate4.reason || ""}`);
 
+  const gate5 = await sdk.checkGate(testAddr, {
+    any: [
+      { rule: "elo", source: "decayed", min: 1800 },
+      { all: [{ rule: "zkVerified", minThreshold: 1500 }, { rule: "attestations", min: 2 }] },
+    ],
+  });
+  console.log(`  Gate (policy):       ${gate5.passed ? "PASS" : "FAIL"}`);
+  for (const clause of gate5.trace.children ?? []) {
+    console.log(`    ${clause.passed ? "✓" : "✗"} ${clause.clause} ${clause.reason || ""}`);
+  }
+
   // ── 4. Aggregate score ──
   console.log("\n── Aggregate Score ──");
   const agg = await sdk.getAggregateScore(testAddr);
@@ -0,0 +1,143 @@
+// ━━━ ENGINE GLICKO-2 MODEL ━━━
+//
+// Floating-point reference for SkillProofEngine's optional Glicko-2 ratings.
+// The Engine uses 18-decimal fixed-point, so results agree to well within a
+// rating point rather than exactly. Ratings are in the Glicko-1 scale
+// (1500 ± 350) that `getGlicko` reports; each match is its own rating period.
+
+export const GLICKO_SCALE = 173.7178;
+export const GLICKO_CENTER = 1500;
+/** RD of an unrated player, and the most RD can inflate to */
+export const INITIAL_RD = 350;
+export const INITIAL_VOLATILITY = 0.06;
+/** System constant constraining volatility change */
+export const GLICKO_TAU = 0.5;
+
+const CONVERGENCE = 1e-6;
+const MAX_ITERATIONS = 50;
+
+export interface GlickoRating {
+  rating: number;
+  rd: number;
+  volatility: number;
+}
+
+/** One game in a rating period */
+export interface GlickoResult {
+  opponent: GlickoRating;
+  /** 1 = win, 0.5 = draw, 0 = loss */
+  score: number;
+}
+
+/** Starting Glicko state for a player first rated at `elo` */
+export function initialGlicko(elo: number): GlickoRating {
+  return { rating: elo, rd: INITIAL_RD, volatility: INITIAL_VOLATILITY };
+}
+
+/** RD after `idlePeriods` whole rating periods without a match, capped at INITIAL_RD */
+export function inflateRd(rd: number, volatility: number, idlePeriods: number): number {
+  if (idlePeriods <= 0) return rd;
+  const sigma = volatility * GLICKO_SCALE;
+  return Math.min(Math.sqrt(rd * rd + idlePeriods * sigma * sigma), INITIAL_RD);
+}
+
+/** Rating minus 2·RD, floored at 0 — the figure `conservative` gate rules compare against */
+export function conservativeRating({ rating, rd }: GlickoRating): number {
+  return Math.max(Math.floor(rating - 2 * rd), 0);
+}
+
+function g(phi: number): number {
+  return 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+}
+
+/**
+ * Probability that A beats B, accounting for both players' uncertainty.
+ * Unlike the update's E term this uses the combined RD, so it is symmetric.
+ */
+export function glickoWinProbability(a: GlickoRating, b: GlickoRating): number {
+  const phi = Math.sqrt(a.rd * a.rd + b.rd * b.rd) / GLICKO_SCALE;
+  return 1 / (1 + Math.exp((-g(phi) * (a.rating - b.rating)) / GLICKO_SCALE));
+}
+
+/** Glicko-2 update of `self` after scoring `score` (1, 0.5 or 0) against `opponent` */
+export function glickoUpdate(self: GlickoRating, opponent: GlickoRating, score: number): GlickoRating {
+  return glickoPeriodUpdate(self, [{ opponent, score }]);
+}
+
+/**
+ * An opposing team as the single opponent the Engine rates team matches
+ * against: the members' mean rating and root-mean-square RD.
+ */
+export function teamGlicko(members: GlickoRating[]): GlickoRating {
+  const mean = (f: (m: GlickoRating) => number) => members.reduce((sum, m) => sum + f(m), 0) / members.length;
+  return {
+    rating: mean((m) => m.rating),
+    rd: Math.sqrt(mean((m) => m.rd * m.rd)),
+    volatility: mean((m) => m.volatility),
+  };
+}
+
+/** Glicko-2 update of `self` after every game of one rating period */
+export function glickoPeriodUpdate(self: GlickoRating, results: GlickoResult[]): GlickoRating {
+  const mu = (self.rating - GLICKO_CENTER) / GLICKO_SCALE;
+  const phi = self.rd / GLICKO_SCALE;
+
+  let vInverse = 0;
+  let improvement = 0;
+  for (const { opponent, score } of results) {
+    const gOpp = g(opponent.rd / GLICKO_SCALE);
+    const e = 1 / (1 + Math.exp(-gOpp * (mu - (opponent.rating - GLICKO_CENTER) / GLICKO_SCALE)));
+    vInverse += gOpp * gOpp * e * (1 - e);
+    improvement += gOpp * (score - e);
+  }
+  const v = 1 / vInverse;
+  const sigma = newVolatility(phi, v, v * improvement, self.volatility);
+
+  const phiStar2 = phi * phi + sigma * sigma;
+  const phiNew = 1 / Math.sqrt(1 / phiStar2 + 1 / v);
+  const muNew = mu + phiNew * phiNew * improvement;
+
+  return {
+    rating: muNew * GLICKO_SCALE + GLICKO_CENTER,
+    rd: phiNew * GLICKO_SCALE,
+    volatility: sigma,
+  };
+}
+
+/** Illinois iteration for σ', as in Glickman's step 5 */
+function newVolatility(phi: number, v: number, delta: number, sigma: number): number {
+  const a = Math.log(sigma * sigma);
+  const phi2 = phi * phi;
+  const delta2 = delta * delta;
+  const f = (x: number) => {
+    const ex = Math.exp(x);
+    const denom = phi2 + v + ex;
+    return (ex * (delta2 - phi2 - v - ex)) / (2 * denom * denom) - (x - a) / (GLICKO_TAU * GLICKO_TAU);
+  };
+
+  let lo = a;
+  let hi: number;
+  if (delta2 > phi2 + v) {
+    hi = Math.log(delta2 - phi2 - v);
+  } else {
+    let k = 1;
+    while (f(a - k * GLICKO_TAU) < 0) k++;
+    hi = a - k * GLICKO_TAU;
+  }
+
+  let fLo = f(lo);
+  let fHi = f(hi);
+  for (let i = 0; i < MAX_ITERATIONS && Math.abs(hi - lo) > CONVERGENCE; i++) {
+    const c = lo + ((lo - hi) * fLo) / (fHi - fLo);
+    const fC = f(c);
+    if (fC <= 0 === fHi >= 0) {
+      lo = hi;
+      fLo = fHi;
+    } else {
+      fLo /= 2;
+    }
+    hi = c;
+    fHi = fC;
+  }
+  return Math.exp(lo / 2);
+}
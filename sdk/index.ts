@@ -9,6 +9,36 @@ import ZKVerifierABI from "../lib/zk-verifier-abi.json";
 import ZKWrapperABI from "../lib/zk-wrapper-abi.json";
 import DecayABI from "../lib/decay-abi.json";
 import AggregatorABI from "../lib/aggregator-abi.json";
+import MatchVerifierABI from "../lib/match-verifier-abi.json";
+import StakingABI from "../lib/staking-abi.json";
+import DisputesABI from "../lib/disputes-abi.json";
+import TreasuryABI from "../lib/treasury-abi.json";
+import EngineABI from "../lib/engine-abi.json";
+import TournamentsABI from "../lib/tournaments-abi.json";
+
+import {
+  proveEloThreshold,
+  proveMatchHistory,
+  ThresholdProofParams,
+  ThresholdProof,
+  MatchHistoryProofParams,
+  MatchHistoryProof,
+  Groth16Calldata,
+} from "./zk";
+import {
+  collectRules,
+  evaluatePolicy,
+  firstFailure,
+  isGatePolicy,
+  EloSource,
+  GatePolicy,
+  GateRule,
+  PolicyContext,
+  PolicyTrace,
+} from "./policy";
+import { exportMerkleProofs, CredentialLeafData, MerkleProofExport } from "./merkle";
+import { batchRead, BatchOptions, BatchRead, MULTICALL3_ABI, MULTICALL3_ADDRESS } from "./multicall";
+import { applyEloChange } from "./elo";
 
 // Default Coston2 addresses
 const COSTON2_ADDRESSES = {
@@ -20,8 +50,18 @@ const COSTON2_ADDRESSES = {
   zkVerifier: "0x0F46334167e68C489DE6B65D488F9d64624Bc270",
   decay: "0x20d0A539e0A49991876CDb2004FeA41AFE1C089E",
   aggregator: "0x919473044Dde9b3eb69161C4a35eFfb995a234bB",
+  matchVerifier: "0x417dbD1E6D4A35bb09bcC1E1b8DE64F8a2fC70a2",
+  staking: "0xc9c6837759c769CCA40661285e5633727A1EbDDD",
+  disputes: ethers.ZeroAddress, // not deployed to Coston2 yet — pass the address from deploy-disputes.ts
+  treasury: "0xAd9BBc0294C8710FB96eA1d88b0D760C41074E01",
+  engine: "0x936df2cfC13ed7970B5c028a3940e9aB45497376",
+  tournaments: ethers.ZeroAddress, // not deployed to Coston2 yet — pass the address from deploy-tournaments.ts
+  multicall3: MULTICALL3_ADDRESS,
 };
 
+/** SkillProofStaking lock between staking and `unstake` (seconds) */
+export const STAKE_LOCK_PERIOD = 7 * 24 * 60 * 60;
+
 export interface SkillCredential {
   issuer: string;
   playerName: string;
@@ -36,6 +76,7 @@ export interface SkillCredential {
   isValid: boolean;
 }
 
+/** Legacy flat gate config; translated to a `GatePolicy` by `checkGate` */
 export interface SkillGateConfig {
   minElo?: number;
   minPercentile?: number;
@@ -46,10 +87,23 @@ export interface SkillGateConfig {
 
 export interface GateResult {
   passed: boolean;
+  /** First failing clause's reason; see `trace` for the full evaluation */
   reason?: string;
   elo: number;
   percentile: number;
   domains: string[];
+  trace: PolicyTrace;
+}
+
+export interface BatchCredentialResult {
+  address: string;
+  credential: SkillCredential | null;
+  error?: string;
+}
+
+export interface BatchGateResult extends GateResult {
+  address: string;
+  error?: string;
 }
 
 export interface AggregateScore {
@@ -62,6 +116,326 @@ export interface AggregateScore {
   overallScore: number;
 }
 
+export interface MatchVerification {
+  verified: boolean;
+  minMatches: number;
+  minWinRateBps: number;
+  commitment: bigint;
+}
+
+export interface IssuerStatus {
+  name: string;
+  /** Registered and not revoked in the Registry */
+  registered: boolean;
+  /** The Registry requires a stake to mint / update */
+  stakeRequired: boolean;
+  /** Active stake at or above the staking contract's minimum */
+  staked: boolean;
+  /** Current stake in wei */
+  stake: bigint;
+  /** When `unstake` becomes possible (unix seconds), 0 if not staked */
+  unlocksAt: number;
+  slashCount: number;
+  /** Whether mintCredential / updateCredential would pass the issuer checks */
+  canIssue: boolean;
+}
+
+/** A `Slashed` event against an issuer */
+export interface SlashRecord {
+  /** Amount slashed in wei */
+  amount: bigint;
+  reason: string;
+  blockNumber: number;
+  timestamp: number;
+  txHash: string;
+}
+
+export interface FeeQuote {
+  /** Registry.mintCredential, charged to the issuer */
+  mint: bigint;
+  /** Hub.createMarket */
+  market: bigint;
+  /** ZK Verifier.verifyThresholdZK */
+  zkVerification: bigint;
+  /** Merkle Verifier.verifyAndRecord / verifyThresholdProof */
+  merkleVerification: bigint;
+}
+
+/** Cumulative Treasury revenue by category (wei) */
+export interface RevenueBreakdown {
+  credentials: bigint;
+  markets: bigint;
+  verifications: bigint;
+  bounties: bigint;
+  total: bigint;
+}
+
+export interface TreasuryMetrics {
+  credentialsMinted: number;
+  marketsCreated: number;
+  verificationsProcessed: number;
+  bountiesProcessed: number;
+  totalRevenue: bigint;
+  snapshotCount: number;
+}
+
+/** A `takeSnapshot` record; counts are cumulative at snapshot time */
+export interface RevenueSnapshot {
+  id: number;
+  timestamp: number;
+  cumulativeRevenue: bigint;
+  /** Revenue since the previous snapshot */
+  periodRevenue: bigint;
+  credentialCount: number;
+  marketCount: number;
+  verificationCount: number;
+}
+
+export interface FeeSchedule {
+  credentialFee: bigint;
+  marketFee: bigint;
+  verificationFee: bigint;
+  bountyCommissionBps: number;
+}
+
+/** A `FeeScheduleUpdated` event */
+export interface FeeScheduleChange extends FeeSchedule {
+  blockNumber: number;
+  timestamp: number;
+  txHash: string;
+}
+
+export interface IssuerRevenue {
+  issuer: string;
+  /** Registry issuer name, empty if unregistered */
+  name: string;
+  /** Credential fees paid by this issuer (wei) */
+  feesGenerated: bigint;
+}
+
+/**
+ * Block range for event-derived queries. Public RPCs cap `eth_getLogs` ranges,
+ * so logs are fetched in `chunkSize` windows; long histories are better served
+ * by the indexer.
+ */
+export interface EventRangeOptions {
+  fromBlock?: number;
+  toBlock?: number;
+  /** Blocks per eth_getLogs request (default 500) */
+  chunkSize?: number;
+}
+
+/** SkillProofEngine match outcome: 1 = player1 wins, 2 = player2 wins, 3 = draw */
+export type MatchOutcome = 1 | 2 | 3;
+
+export interface EnginePlayer {
+  registered: boolean;
+  elo: number;
+  /** This season's peak; each season starts it at the soft-reset rating */
+  peakElo: number;
+  /** Lifetime record (`getEngineSeasonRecord` has this season's) */
+  wins: number;
+  losses: number;
+  draws: number;
+  totalMatches: number;
+  /** Consecutive wins, reset by a loss or draw and at each season's close */
+  currentStreak: number;
+  /** Longest win streak this season */
+  longestStreak: number;
+  /** Basis points, 10000 = 100% */
+  winRateBps: number;
+}
+
+/** SkillProofEngine Glicko-2 rating, in rating points */
+export interface EngineGlicko {
+  rating: number;
+  /** Includes inflation for idle rating periods up to now */
+  rd: number;
+  volatility: number;
+  /** Unix seconds of the last rated match, 0 if never rated */
+  lastRatedAt: number;
+  /** False until the player's first match with Glicko-2 enabled; rating is then their ELO */
+  rated: boolean;
+}
+
+/** One match in a `recordEngineMatches` batch */
+export interface EngineMatchInput {
+  player1: string;
+  player2: string;
+  outcome: MatchOutcome;
+  domain: string;
+}
+
+/** One player's side of an Engine match */
+export interface EngineParticipant {
+  player: string;
+  /** Team index; in a free-for-all every player is their own team */
+  team: number;
+  /** The team's finish: 1 = first, tied teams share a placement */
+  placement: number;
+  eloBefore: number;
+  eloChange: number;
+}
+
+export interface EngineMatch {
+  id: number;
+  /** 1v1 fields; zero for team and free-for-all matches */
+  player1: string;
+  player2: string;
+  /** 0 for team and free-for-all matches */
+  outcome: MatchOutcome | 0;
+  player1EloBefore: number;
+  player2EloBefore: number;
+  player1EloChange: number;
+  player2EloChange: number;
+  timestamp: number;
+  domain: string;
+  /** Every player, for 1v1 matches too (player1 is team 0, player2 team 1) */
+  participants: EngineParticipant[];
+}
+
+/** A closed SkillProofEngine rating season */
+export interface EngineSeason {
+  id: number;
+  startedAt: number;
+  endedAt: number;
+  /** Matches recorded during the season are ids firstMatchId … firstMatchId + matchCount - 1 */
+  firstMatchId: number;
+  matchCount: number;
+  /** Share of each rating's distance to the base ELO removed when the season closed (bps) */
+  resetBps: number;
+}
+
+/** A player's final standing in a closed season */
+export interface SeasonStanding {
+  player: string;
+  /** 1 = highest final ELO */
+  rank: number;
+  /** Final ELO, before the soft reset */
+  elo: number;
+  peakElo: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  longestStreak: number;
+}
+
+/** A player's rating after a match; the first point is the rating before their first match */
+export interface RatingPoint {
+  /** null for the starting point */
+  matchId: number | null;
+  timestamp: number;
+  elo: number;
+}
+
+/** Review state of an Engine match; "none" until a player disputes it */
+export type MatchDisputeStatus = "none" | "open" | "dismissed" | "voided" | "corrected";
+
+export interface MatchDispute {
+  matchId: number;
+  status: MatchDisputeStatus;
+  /** Players may dispute until this timestamp (unix seconds) */
+  deadline: number;
+}
+
+export type DisputeStatus = "open" | "upheld" | "rejected" | "expired";
+
+export interface Dispute {
+  id: number;
+  challenger: string;
+  issuer: string;
+  /** Holder of the disputed credential */
+  player: string;
+  evidenceURI: string;
+  /** bytes32 hex, ZeroHash if only a URI was given */
+  evidenceHash: string;
+  /** Bond in wei */
+  bond: bigint;
+  openedAt: number;
+  /** Issuer may respond until this timestamp */
+  responseDeadline: number;
+  /** Arbiter may rule until this timestamp; afterwards anyone can expire the dispute */
+  resolutionDeadline: number;
+  responseURI: string;
+  /** Status as stored on-chain — an "open" dispute past `resolutionDeadline` is awaiting `expire` */
+  status: DisputeStatus;
+  escalated: boolean;
+  /** Hub proposal deciding the dispute, when escalated */
+  proposalId: number | null;
+  /** Exact description a Hub proposal needs before the dispute can be escalated to it */
+  proposalDescription: string;
+  /** The issuer's stake was slashed when the dispute was upheld */
+  slashed: boolean;
+}
+
+export type TournamentFormat = "single-elimination" | "double-elimination" | "swiss";
+export type TournamentStatus = "registration" | "active" | "completed" | "cancelled";
+
+export interface Tournament {
+  id: number;
+  name: string;
+  domain: string;
+  format: TournamentFormat;
+  status: TournamentStatus;
+  organizer: string;
+  /** Entry fee in wei */
+  entryFee: bigint;
+  /** Escrowed entry fees in wei */
+  prizePool: bigint;
+  maxPlayers: number;
+  /** Swiss rounds to play; 0 for elimination formats */
+  rounds: number;
+  /** 0 until started */
+  currentRound: number;
+  /** Pool share in basis points for 1st, 2nd, … place */
+  payoutBps: number[];
+  /** Winner once completed */
+  champion: string | null;
+  createdAt: number;
+  completedAt: number | null;
+}
+
+export interface TournamentPairing {
+  /** Index passed to `reportTournamentResult` */
+  index: number;
+  round: number;
+  bracket: "winners" | "losers" | "grand-final";
+  player1: string;
+  /** null for a bye */
+  player2: string | null;
+  /** null while pending; byes resolve as a player1 win */
+  outcome: MatchOutcome | null;
+  /** Engine match that recorded the result; null for byes and pending pairings */
+  engineMatchId: number | null;
+}
+
+export interface TournamentEntrant {
+  player: string;
+  /** 1 = highest Engine ELO when the tournament started */
+  seed: number;
+  eloAtStart: number;
+  losses: number;
+  /** Swiss points: 2 per win or bye, 1 per draw */
+  points: number;
+  /** Final place once completed; players knocked out in the same round share it */
+  place: number | null;
+  /** Prize in wei */
+  prize: bigint;
+}
+
+export interface CreateTournamentParams {
+  name: string;
+  format: TournamentFormat;
+  domain: string;
+  /** Entry fee in wei */
+  entryFee: bigint;
+  maxPlayers: number;
+  /** Swiss only */
+  rounds?: number;
+  /** Pool share in basis points per place from 1st down; must sum to 10000 */
+  payoutBps: number[];
+}
+
 export interface ProtocolStats {
   merkleVerifications: number;
   zkVerifications: number;
@@ -71,15 +445,57 @@ export interface ProtocolStats {
   totalParticipants: number;
 }
 
+export interface DecodedEvent {
+  /** Contract key in the address book (e.g. "registry", "hub") */
+  contract: keyof typeof COSTON2_ADDRESSES;
+  address: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface TxResult {
+  receipt: ethers.TransactionReceipt;
+  events: DecodedEvent[];
+}
+
+export interface MintCredentialParams {
+  player: string;
+  playerName: string;
+  overallElo: number;
+  percentile: number;
+  domains: string[];
+  skillScores: number[];
+  skillPercentiles: number[];
+  totalMatches: number;
+  winRate: number;
+}
+
+export interface UpdateCredentialParams {
+  overallElo: number;
+  percentile: number;
+  skillScores: number[];
+  skillPercentiles: number[];
+  totalMatches: number;
+  winRate: number;
+}
+
 export class SkillProof {
-  private provider: ethers.Provider;
-  private registry: ethers.Contract;
-  private hub: ethers.Contract;
-  private verifier: ethers.Contract;
-  private zkWrapper: ethers.Contract;
-  private decay: ethers.Contract;
-  private aggregator: ethers.Contract;
-  private addresses: typeof COSTON2_ADDRESSES;
+  protected provider: ethers.Provider;
+  protected registry: ethers.Contract;
+  protected attestor: ethers.Contract;
+  protected hub: ethers.Contract;
+  protected verifier: ethers.Contract;
+  protected zkWrapper: ethers.Contract;
+  protected decay: ethers.Contract;
+  protected aggregator: ethers.Contract;
+  protected matchVerifier: ethers.Contract;
+  protected staking: ethers.Contract;
+  protected disputes: ethers.Contract;
+  protected treasury: ethers.Contract;
+  protected engine: ethers.Contract;
+  protected tournaments: ethers.Contract;
+  protected multicall: ethers.Contract;
+  protected addresses: typeof COSTON2_ADDRESSES;
 
   constructor(
     providerOrUrl: ethers.Provider | string,
@@ -93,11 +509,19 @@ export class SkillProof {
     this.addresses = { ...COSTON2_ADDRESSES, ...addresses };
 
     this.registry = new ethers.Contract(this.addresses.registry, RegistryABI, this.provider);
+    this.attestor = new ethers.Contract(this.addresses.attestor, AttestorABI, this.provider);
     this.hub = new ethers.Contract(this.addresses.hub, HubABI, this.provider);
     this.verifier = new ethers.Contract(this.addresses.verifier, VerifierABI, this.provider);
     this.zkWrapper = new ethers.Contract(this.addresses.zkVerifier, ZKWrapperABI, this.provider);
     this.decay = new ethers.Contract(this.addresses.decay, DecayABI, this.provider);
     this.aggregator = new ethers.Contract(this.addresses.aggregator, AggregatorABI, this.provider);
+    this.matchVerifier = new ethers.Contract(this.addresses.matchVerifier, MatchVerifierABI, this.provider);
+    this.staking = new ethers.Contract(this.addresses.staking, StakingABI, this.provider);
+    this.disputes = new ethers.Contract(this.addresses.disputes, DisputesABI, this.provider);
+    this.treasury = new ethers.Contract(this.addresses.treasury, TreasuryABI, this.provider);
+    this.engine = new ethers.Contract(this.addresses.engine, EngineABI, this.provider);
+    this.tournaments = new ethers.Contract(this.addresses.tournaments, TournamentsABI, this.provider);
+    this.multicall = new ethers.Contract(this.addresses.multicall3, MULTICALL3_ABI, this.provider);
   }
 
   // ━━━ CREDENTIAL QUERIES ━━━
@@ -105,21 +529,7 @@ export class SkillProof {
   /** Get a user's skill credential from the on-chain registry */
   async getCredential(address: string): Promise<SkillCredential | null> {
     try {
-      const cred = await this.registry.getCredential(address);
-      if (!cred.isValid) return null;
-      return {
-        issuer: cred.issuer,
-        playerName: cred.playerName,
-        overallElo: Number(cred.overallElo),
-        percentile: Number(cred.percentile),
-        totalMatches: Number(cred.totalMatches),
-        winRate: Number(cred.winRate),
-        domains: [...cred.skillDomains],
-        skillScores: cred.skillScores.map(Number),
-        skillPercentiles: cred.skillPercentiles.map(Number),
-        timestamp: Number(cred.issuedAt),
-        isValid: cred.isValid,
-      };
+      return toSkillCredential(await this.registry.getCredential(address));
     } catch {
       return null;
     }
@@ -134,6 +544,243 @@ export class SkillProof {
     }
   }
 
+  // ━━━ ISSUERS ━━━
+
+  /**
+   * Registration and stake status of an issuer. Staking is read from the
+   * contract the Registry is gated on; Registries deployed before staking
+   * enforcement report `stakeRequired: false` and use the SDK's staking address.
+   */
+  async getIssuerStatus(issuer: string): Promise<IssuerStatus> {
+    const [[name, registered], gate] = await Promise.all([
+      this.registry.getIssuer(issuer),
+      this.registry.staking().catch(() => ethers.ZeroAddress),
+    ]);
+    const stakeRequired = gate !== ethers.ZeroAddress;
+    const staking = stakeRequired ? (this.staking.attach(gate) as ethers.Contract) : this.staking;
+    const [stake, staked] = await Promise.all([staking.getStake(issuer), staking.isValidIssuer(issuer)]);
+    return {
+      name,
+      registered,
+      stakeRequired,
+      staked,
+      stake: stake.amount,
+      unlocksAt: stake.isActive ? Number(stake.stakedAt) + STAKE_LOCK_PERIOD : 0,
+      slashCount: Number(stake.slashCount),
+      canIssue: registered && (!stakeRequired || staked),
+    };
+  }
+
+  /** Slashes against `issuer`, oldest first, from `Slashed` events on the SDK's staking contract */
+  async getSlashHistory(issuer: string, options: EventRangeOptions = {}): Promise<SlashRecord[]> {
+    const logs = await this.queryEvents(this.staking, "Slashed", options, [issuer]);
+    const timestamps = await this.blockTimestamps(logs.map((l) => l.blockNumber));
+    return logs.map((l) => ({
+      amount: l.args.amount,
+      reason: l.args.reason,
+      blockNumber: l.blockNumber,
+      timestamp: timestamps.get(l.blockNumber) ?? 0,
+      txHash: l.transactionHash,
+    }));
+  }
+
+  // ━━━ FEES ━━━
+
+  /**
+   * Fees (wei) `account` must attach to fee-bearing calls, as quoted by each
+   * contract from the Treasury schedule and exemptions. Contracts without a
+   * treasury, or deployed before fee wiring, quote 0.
+   */
+  async getFees(account: string): Promise<FeeQuote> {
+    const [mint, market, zkVerification, merkleVerification] = await Promise.all([
+      this.quoteFee(this.registry, "mintFee", [account]),
+      this.quoteFee(this.hub, "marketFee", [account]),
+      this.quoteFee(this.zkWrapper, "verificationFee", [account]),
+      this.quoteFee(this.verifier, "verificationFee", [account]),
+    ]);
+    return { mint, market, zkVerification, merkleVerification };
+  }
+
+  /** Commission (wei) the Treasury would withhold if `bountyId` were awarded to `winner` */
+  async getBountyCommission(bountyId: number, winner: string): Promise<bigint> {
+    return this.quoteFee(this.hub, "bountyCommission", [bountyId, winner]);
+  }
+
+  protected async quoteFee(contract: ethers.Contract, method: string, args: unknown[]): Promise<bigint> {
+    try {
+      return await contract[method](...args);
+    } catch {
+      return 0n;
+    }
+  }
+
+  // ━━━ TREASURY ━━━
+
+  /** Cumulative revenue per fee category */
+  async getRevenueBreakdown(): Promise<RevenueBreakdown> {
+    const [credentials, markets, verifications, bounties, total] = await this.treasury.getRevenueBreakdown();
+    return { credentials, markets, verifications, bounties, total };
+  }
+
+  /** Fee-bearing action counts and total revenue */
+  async getTreasuryMetrics(): Promise<TreasuryMetrics> {
+    const [credentials, markets, verifications, bounties, revenue, snapshots] =
+      await this.treasury.getProtocolMetrics();
+    return {
+      credentialsMinted: Number(credentials),
+      marketsCreated: Number(markets),
+      verificationsProcessed: Number(verifications),
+      bountiesProcessed: Number(bounties),
+      totalRevenue: revenue,
+      snapshotCount: Number(snapshots),
+    };
+  }
+
+  /** Every revenue snapshot, oldest first */
+  async getRevenueSnapshots(): Promise<RevenueSnapshot[]> {
+    const count = Number(await this.treasury.getSnapshotCount());
+    const raw = await Promise.all(
+      Array.from({ length: count }, (_, i) => this.treasury.snapshots(i))
+    );
+    return raw.map((s, id) => ({
+      id,
+      timestamp: Number(s.timestamp),
+      cumulativeRevenue: s.cumulativeRevenue,
+      periodRevenue: s.periodRevenue,
+      credentialCount: Number(s.credentialCount),
+      marketCount: Number(s.marketCount),
+      verificationCount: Number(s.verificationCount),
+    }));
+  }
+
+  /** Current base fee schedule (before exemptions) */
+  async getFeeSchedule(): Promise<FeeSchedule> {
+    const [credentialFee, marketFee, verificationFee, bps] = await Promise.all([
+      this.treasury.credentialMintFee(),
+      this.treasury.marketCreationFee(),
+      this.treasury.verificationFee(),
+      this.treasury.bountyCommissionBps(),
+    ]);
+    return { credentialFee, marketFee, verificationFee, bountyCommissionBps: Number(bps) };
+  }
+
+  /**
+   * Fee schedule changes from `FeeScheduleUpdated`, oldest first. The schedule
+   * set at deployment emits no event — pair with `getFeeSchedule` for the current one.
+   */
+  async getFeeScheduleHistory(options: EventRangeOptions = {}): Promise<FeeScheduleChange[]> {
+    const logs = await this.queryEvents(this.treasury, "FeeScheduleUpdated", options);
+    const timestamps = await this.blockTimestamps(logs.map((l) => l.blockNumber));
+    return logs.map((l) => ({
+      blockNumber: l.blockNumber,
+      timestamp: timestamps.get(l.blockNumber) ?? 0,
+      txHash: l.transactionHash,
+      credentialFee: l.args.credentialFee,
+      marketFee: l.args.marketFee,
+      verificationFee: l.args.verificationFee,
+      bountyCommissionBps: Number(l.args.bountyBps),
+    }));
+  }
+
+  /**
+   * Issuers ranked by credential fees paid. Issuers are discovered from
+   * `CredentialFeeCollected` in the range; totals are the on-chain
+   * `issuerFeesGenerated`, so they cover all time.
+   */
+  async getTopIssuersByFees(limit: number = 10, options: EventRangeOptions = {}): Promise<IssuerRevenue[]> {
+    const logs = await this.queryEvents(this.treasury, "CredentialFeeCollected", options);
+    const issuers = [...new Set(logs.map((l) => ethers.getAddress(l.args.issuer)))];
+    const rows = await Promise.all(
+      issuers.map(async (issuer): Promise<IssuerRevenue> => {
+        const [feesGenerated, info] = await Promise.all([
+          this.treasury.issuerFeesGenerated(issuer),
+          this.registry.issuers(issuer).catch(() => ({ name: "" })),
+        ]);
+        return { issuer, name: info.name, feesGenerated };
+      })
+    );
+    return rows
+      .sort((a, b) => (b.feesGenerated > a.feesGenerated ? 1 : b.feesGenerated < a.feesGenerated ? -1 : 0))
+      .slice(0, limit);
+  }
+
+  /** Query `eventName` logs (optionally filtered on indexed `args`) in `chunkSize` block windows */
+  protected async queryEvents(
+    contract: ethers.Contract,
+    eventName: string,
+    options: EventRangeOptions,
+    args: unknown[] = []
+  ): Promise<ethers.EventLog[]> {
+    const fromBlock = options.fromBlock ?? 0;
+    const toBlock = options.toBlock ?? (await this.provider.getBlockNumber());
+    const chunkSize = options.chunkSize ?? 500;
+    const logs: ethers.EventLog[] = [];
+    for (let start = fromBlock; start <= toBlock; start += chunkSize) {
+      const end = Math.min(start + chunkSize - 1, toBlock);
+      const chunk = await contract.queryFilter(contract.getEvent(eventName)(...args), start, end);
+      logs.push(...chunk.filter((l): l is ethers.EventLog => l instanceof ethers.EventLog));
+    }
+    return logs;
+  }
+
+  protected async blockTimestamps(blockNumbers: number[]): Promise<Map<number, number>> {
+    const unique = [...new Set(blockNumbers)];
+    const blocks = await Promise.all(unique.map((n) => this.provider.getBlock(n)));
+    return new Map(unique.map((n, i) => [n, blocks[i]?.timestamp ?? 0]));
+  }
+
+  // ━━━ DISPUTES ━━━
+
+  /** Get a dispute by id, or null if it does not exist */
+  async getDispute(id: number): Promise<Dispute | null> {
+    const disputes = this.requireDisputes();
+    try {
+      const [dispute, deadline, description] = await Promise.all([
+        disputes.getDispute(id),
+        disputes.resolutionDeadline(id),
+        disputes.proposalDescription(id),
+      ]);
+      return toDispute(dispute, deadline, description);
+    } catch {
+      return null;
+    }
+  }
+
+  /** Every dispute ever opened against credentials from `issuer`, oldest first */
+  async getIssuerDisputes(issuer: string): Promise<Dispute[]> {
+    const ids: bigint[] = await this.requireDisputes().getIssuerDisputes(issuer);
+    const disputes = await Promise.all(ids.map((id) => this.getDispute(Number(id))));
+    return disputes.filter((d): d is Dispute => d !== null);
+  }
+
+  /** Current dispute bond in wei */
+  async getDisputeBond(): Promise<bigint> {
+    return await this.requireDisputes().disputeBond();
+  }
+
+  /**
+   * Voting rules for escalated disputes: the proposal must have at least
+   * `minVotingPeriod` seconds left when escalated, and `quorum` vote weight to settle
+   */
+  async getDisputeGovernance(): Promise<{ minVotingPeriod: number; quorum: number }> {
+    const disputes = this.requireDisputes();
+    const [period, quorum] = await Promise.all([disputes.minVotingPeriod(), disputes.quorum()]);
+    return { minVotingPeriod: Number(period), quorum: Number(quorum) };
+  }
+
+  /** Refunded and awarded bonds `address` can collect with `withdrawDisputeBonds`, in wei */
+  async getClaimableBonds(address: string): Promise<bigint> {
+    return await this.requireDisputes().claimable(address);
+  }
+
+  /** The disputes contract, or an error if the address book has none */
+  protected requireDisputes(): ethers.Contract {
+    if (this.addresses.disputes === ethers.ZeroAddress) {
+      throw new Error("No SkillProofDisputes address configured");
+    }
+    return this.disputes;
+  }
+
   /** Get effective ELO (base + reputation bonus from Hub activity) */
   async getEffectiveElo(address: string): Promise<number> {
     return Number(await this.hub.getEffectiveElo(address));
@@ -165,64 +812,201 @@ export class SkillProof {
    * Check if a user passes a skill gate.
    * This is the main integration point for other protocols.
    *
+   * Accepts either a flat `SkillGateConfig` or a composable `GatePolicy`
+   * (see `sdk/policy.ts`). The result carries a per-clause `trace`.
+   *
    * @example
    * ```ts
    * const sdk = new SkillProof("https://coston2-api.flare.network/ext/C/rpc");
    * const result = await sdk.checkGate(userAddress, { minElo: 1500 });
    * if (result.passed) { // grant access }
+   *
+   * const pro = await sdk.checkGate(userAddress, {
+   *   all: [
+   *     { rule: "skillScore", domain: "derivatives", min: 1800 },
+   *     { any: [{ rule: "zkVerified", minThreshold: 1500 }, { rule: "attestations", min: 2 }] },
+   *   ],
+   * });
    * ```
    */
-  async checkGate(address: string, config: SkillGateConfig): Promise<GateResult> {
-    const cred = await this.getCredential(address);
-    if (!cred) {
-      return { passed: false, reason: "No credential found", elo: 0, percentile: 0, domains: [] };
-    }
+  async checkGate(address: string, config: SkillGateConfig | GatePolicy): Promise<GateResult> {
+    return evaluateGate(config, this.policyContext(address));
+  }
 
-    // Determine which ELO to use
-    let elo = cred.overallElo;
-    if (config.useEffectiveElo) {
-      elo = await this.getEffectiveElo(address);
-    } else if (config.useDecayedElo) {
-      elo = await this.getDecayedElo(address);
-    }
+  /** Memoized on-chain lookups for evaluating a policy against one address */
+  protected policyContext(address: string): PolicyContext {
+    const cache = new Map<string, Promise<unknown>>();
+    const once = <T>(key: string, load: () => Promise<T>): Promise<T> => {
+      if (!cache.has(key)) cache.set(key, load());
+      return cache.get(key) as Promise<T>;
+    };
+    const orNull = async (read: () => Promise<number>) => {
+      try {
+        return await read();
+      } catch {
+        return null;
+      }
+    };
 
-    // Check ELO threshold
-    if (config.minElo && elo < config.minElo) {
-      return {
-        passed: false,
-        reason: `ELO ${elo} below minimum ${config.minElo}`,
-        elo,
-        percentile: cred.percentile,
-        domains: cred.domains,
-      };
-    }
+    return {
+      credential: () => once("credential", () => this.getCredential(address)),
+      elo: (source) =>
+        once(`elo:${source}`, async () => {
+          switch (source) {
+            case "decayed":
+              return orNull(() => this.getDecayedElo(address));
+            case "effective":
+              return orNull(() => this.getEffectiveElo(address));
+            case "aggregate":
+              return (await this.getAggregateScore(address)).overallScore;
+            case "conservative":
+              return orNull(() => this.getConservativeRating(address));
+            default:
+              return (await this.getCredential(address))?.overallElo ?? null;
+          }
+        }),
+      zkVerification: () =>
+        once("zk", async () => {
+          const verified = await this.isZKVerified(address);
+          const threshold = verified ? ((await orNull(() => this.getVerifiedThreshold(address))) ?? 0) : 0;
+          return { verified, threshold };
+        }),
+      meetsMatchRequirements: (minMatches, minWinRateBps) =>
+        once(`match:${minMatches}:${minWinRateBps}`, () =>
+          this.meetsMatchRequirements(address, minMatches, minWinRateBps)
+        ),
+      attestations: () =>
+        once("attestations", async () => {
+          const [oracle, merkleThreshold, zkThreshold, zkMatchHistory] = await Promise.all([
+            this.attestor.getAttestation(address).then((a) => Boolean(a.isAttested)).catch(() => false),
+            this.verifier.isVerifiedAboveThreshold(address).catch(() => false),
+            this.isZKVerified(address),
+            this.getMatchVerification(address).then((m) => m.verified).catch(() => false),
+          ]);
+          return { oracle, merkleThreshold, zkThreshold, zkMatchHistory };
+        }),
+    };
+  }
 
-    // Check percentile threshold
-    if (config.minPercentile && cred.percentile < config.minPercentile) {
-      return {
-        passed: false,
-        reason: `Percentile ${cred.percentile} below minimum ${config.minPercentile}`,
-        elo,
-        percentile: cred.percentile,
-        domains: cred.domains,
-      };
-    }
+  // ━━━ BATCH QUERIES (MULTICALL3) ━━━
 
-    // Check required domains
-    if (config.requiredDomains && config.requiredDomains.length > 0) {
-      const missing = config.requiredDomains.filter((d) => !cred.domains.includes(d));
-      if (missing.length > 0) {
-        return {
-          passed: false,
-          reason: `Missing domains: ${missing.join(", ")}`,
-          elo,
-          percentile: cred.percentile,
-          domains: cred.domains,
-        };
+  /**
+   * Get credentials for many addresses, packed into Multicall3 calls.
+   * Results are in input order; unreadable addresses carry an `error`.
+   */
+  async getCredentials(addresses: string[], options?: BatchOptions): Promise<BatchCredentialResult[]> {
+    const results = await batchRead(
+      this.multicall,
+      addresses,
+      (address) => [this.credentialRead(address)],
+      options
+    );
+    return results.map(({ address, values, failures, error }) => ({
+      address,
+      credential: (values.get("credential") as SkillCredential | null) ?? null,
+      error: error ?? failures.get("credential"),
+    }));
+  }
+
+  /**
+   * Check a skill gate for many addresses, e.g. for an airdrop snapshot.
+   * Only the reads the policy needs are made, packed into Multicall3 calls.
+   * Results are in input order; unreadable addresses fail with an `error`.
+   *
+   * @example
+   * ```ts
+   * const results = await sdk.checkGateBatch(wallets, { minElo: 1500 }, { chunkSize: 200 });
+   * const eligible = results.filter((r) => r.passed).map((r) => r.address);
+   * ```
+   */
+  async checkGateBatch(
+    addresses: string[],
+    config: SkillGateConfig | GatePolicy,
+    options?: BatchOptions
+  ): Promise<BatchGateResult[]> {
+    const policy = isGatePolicy(config) ? config : toGatePolicy(config);
+    const plan = this.policyReads(policy);
+
+    const results = await batchRead(this.multicall, addresses, plan, options);
+    return Promise.all(
+      results.map(async ({ address, values, failures, error: readError }) => {
+        const error = readError ?? failures.get("credential");
+        if (error) {
+          const trace = { clause: "READ", passed: false, reason: error };
+          return { address, error, passed: false, reason: error, elo: 0, percentile: 0, domains: [], trace };
+        }
+        return { address, ...(await evaluateGate(config, prefetchedContext(values))) };
+      })
+    );
+  }
+
+  /** Registry read shared by the batch queries */
+  private credentialRead(address: string): BatchRead {
+    return {
+      key: "credential",
+      contract: this.registry,
+      method: "getCredential",
+      args: [address],
+      decode: ([cred]) => toSkillCredential(cred),
+    };
+  }
+
+  /** Plan the reads a policy needs per address, keyed like `prefetchedContext` expects */
+  private policyReads(policy: GatePolicy): (address: string) => BatchRead[] {
+    const read = (
+      key: string,
+      contract: ethers.Contract,
+      method: string,
+      decode: BatchRead["decode"],
+      extra: unknown[] = []
+    ) => (address: string): BatchRead => ({ key, contract, method, args: [address, ...extra], decode });
+
+    const toNumber: BatchRead["decode"] = ([value]) => Number(value);
+    const toBool: BatchRead["decode"] = ([value]) => Boolean(value);
+    const zkVerified = read("zk:verified", this.zkWrapper, "isZKVerified", toBool);
+
+    const planned = new Map<string, (address: string) => BatchRead>();
+    for (const rule of collectRules(policy)) {
+      switch (rule.rule) {
+        case "elo":
+          if (rule.source === "decayed") {
+            planned.set("elo:decayed", read("elo:decayed", this.decay, "getDecayedElo", toNumber));
+          } else if (rule.source === "effective") {
+            planned.set("elo:effective", read("elo:effective", this.hub, "getEffectiveElo", toNumber));
+          } else if (rule.source === "aggregate") {
+            planned.set(
+              "elo:aggregate",
+              read("elo:aggregate", this.aggregator, "getAggregateScore", ([s]) => Number(s.overallScore))
+            );
+          } else if (rule.source === "conservative") {
+            planned.set(
+              "elo:conservative",
+              read("elo:conservative", this.engine, "getConservativeRating", toNumber)
+            );
+          }
+          break;
+        case "zkVerified":
+          planned.set("zk:verified", zkVerified);
+          planned.set("zk:threshold", read("zk:threshold", this.zkWrapper, "getVerifiedThreshold", toNumber));
+          break;
+        case "matchHistory": {
+          const key = `match:${rule.minMatches}:${rule.minWinRateBps}`;
+          planned.set(
+            key,
+            read(key, this.matchVerifier, "meetsMatchRequirements", toBool, [rule.minMatches, rule.minWinRateBps])
+          );
+          break;
+        }
+        case "attestations":
+          planned.set("att:oracle", read("att:oracle", this.attestor, "getAttestation", ([a]) => Boolean(a.isAttested)));
+          planned.set("att:merkle", read("att:merkle", this.verifier, "isVerifiedAboveThreshold", toBool));
+          planned.set("zk:verified", zkVerified);
+          planned.set("att:match", read("att:match", this.matchVerifier, "getVerification", toBool));
+          break;
       }
     }
 
-    return { passed: true, elo, percentile: cred.percentile, domains: cred.domains };
+    return (address) => [this.credentialRead(address), ...[...planned.values()].map((plan) => plan(address))];
   }
 
   // ━━━ AGGREGATE QUERIES ━━━
@@ -262,6 +1046,43 @@ export class SkillProof {
     }
   }
 
+  // ━━━ MERKLE PROOFS ━━━
+
+  /**
+   * Raw Registry fields hashed into credential leaves. Unlike `getCredential`,
+   * missing or revoked credentials are returned as stored, because the
+   * Verifier hashes whatever the Registry returns.
+   */
+  async getCredentialLeafData(users: string[]): Promise<CredentialLeafData[]> {
+    return Promise.all(
+      users.map(async (user) => {
+        const cred = await this.registry.getCredential(user);
+        return {
+          user,
+          playerName: cred.playerName,
+          overallElo: cred.overallElo,
+          percentile: cred.percentile,
+          totalMatches: cred.totalMatches,
+        };
+      })
+    );
+  }
+
+  /**
+   * Rebuild the Verifier's tree from current Registry state and export every
+   * user's proofs. `users` and `thresholds` must be in the same order as passed
+   * to `updateMerkleRootWithThresholds` (or `updateMerkleRootFromRegistry`
+   * when `thresholds` is empty) for the root to match.
+   */
+  async buildMerkleProofs(users: string[], thresholds: number[] = []): Promise<MerkleProofExport> {
+    return exportMerkleProofs(await this.getCredentialLeafData(users), thresholds);
+  }
+
+  /** Get the credential Merkle root currently set on the Verifier */
+  async getMerkleRoot(): Promise<string> {
+    return await this.verifier.getMerkleRoot();
+  }
+
   // ━━━ ZK VERIFICATION QUERIES ━━━
 
   /** Check if a user has a verified ZK threshold proof */
@@ -278,27 +1099,363 @@ export class SkillProof {
     return Number(await this.zkWrapper.getVerifiedThreshold(address));
   }
 
-  // ━━━ LEADERBOARD ━━━
+  // ━━━ ZK PROOF GENERATION ━━━
 
-  /** Get leaderboard addresses (paginated) */
-  async getLeaderboard(start: number = 0, count: number = 10): Promise<string[]> {
+  /**
+   * Generate a Groth16 proof that a user's ELO >= threshold, entirely in-process.
+   * The proof is verified locally before it is returned; `calldata` can be passed
+   * straight to `SkillProofZKVerifier.verifyThresholdZK`.
+   *
+   * @example
+   * ```ts
+   * const { calldata, salt } = await sdk.proveEloThreshold({ elo: 1847, threshold: 1500 });
+   * await zkVerifier.verifyThresholdZK(calldata.pA, calldata.pB, calldata.pC, calldata.pubSignals);
+   * ```
+   */
+  async proveEloThreshold(params: ThresholdProofParams): Promise<ThresholdProof> {
+    return proveEloThreshold(params);
+  }
+
+  // ━━━ ZK MATCH HISTORY ━━━
+
+  /**
+   * Generate a Groth16 proof that totalMatches >= minMatches and win rate >= minWinRateBps.
+   * Inputs are range-checked before witness generation; violations throw a `ZKProofError`.
+   *
+   * @example
+   * ```ts
+   * const proof = await sdk.proveMatchHistory({ totalMatches: 12, wins: 8, minMatches: 10, minWinRateBps: 6000 });
+   * await sdk.registerMatchCommitment(signer, proof);
+   * await sdk.submitMatchHistoryProof(signer, proof.calldata);
+   * ```
+   */
+  async proveMatchHistory(params: MatchHistoryProofParams): Promise<MatchHistoryProof> {
+    return proveMatchHistory(params);
+  }
+
+  /**
+   * Register the match commitment on-chain. Must be sent from the same account that
+   * later submits the proof; the contract recomputes the commitment from these values.
+   */
+  async registerMatchCommitment(
+    signer: ethers.Signer,
+    proof: Pick<MatchHistoryProof, "totalMatches" | "wins" | "salt">
+  ): Promise<ethers.TransactionReceipt> {
+    const matchVerifier = this.matchVerifier.connect(signer) as ethers.Contract;
+    const tx = await matchVerifier.registerMatchCommitment(proof.totalMatches, proof.wins, proof.salt);
+    return await tx.wait();
+  }
+
+  /** Submit a match history proof to `SkillProofMatchVerifier.verifyMatchHistory` */
+  async submitMatchHistoryProof(
+    signer: ethers.Signer,
+    calldata: Groth16Calldata
+  ): Promise<ethers.TransactionReceipt> {
+    const matchVerifier = this.matchVerifier.connect(signer) as ethers.Contract;
+    const tx = await matchVerifier.verifyMatchHistory(
+      calldata.pA,
+      calldata.pB,
+      calldata.pC,
+      calldata.pubSignals
+    );
+    return await tx.wait();
+  }
+
+  /** Get a user's on-chain match history verification */
+  async getMatchVerification(address: string): Promise<MatchVerification> {
+    const [verified, minMatches, minWinRate, commitment] =
+      await this.matchVerifier.getVerification(address);
+    return {
+      verified,
+      minMatches: Number(minMatches),
+      minWinRateBps: Number(minWinRate),
+      commitment: BigInt(commitment),
+    };
+  }
+
+  /** Check if a user's verified match history meets the given requirements */
+  async meetsMatchRequirements(
+    address: string,
+    requiredMatches: number,
+    requiredWinRateBps: number
+  ): Promise<boolean> {
     try {
-      return await this.hub.getLeaderboard(start, count);
+      return await this.matchVerifier.meetsMatchRequirements(
+        address,
+        requiredMatches,
+        requiredWinRateBps
+      );
     } catch {
-      return [];
+      return false;
     }
   }
 
-  // ━━━ PROTOCOL STATS ━━━
+  // ━━━ ENGINE ━━━
 
-  /** Get protocol-wide statistics */
-  async getProtocolStats(): Promise<ProtocolStats> {
-    const [merkleCount, zkCount, marketCount, bountyCount, proposalCount, participantCount] =
-      await Promise.all([
-        this.verifier.getVerificationCount().catch(() => 0n),
-        this.zkWrapper.getZKVerificationCount().catch(() => 0n),
-        this.hub.marketCount().catch(() => 0n),
-        this.hub.bountyCount().catch(() => 0n),
+  /** Rating and record of a SkillProofEngine player */
+  async getEnginePlayer(address: string): Promise<EnginePlayer> {
+    const [p, winRate] = await Promise.all([this.engine.getPlayer(address), this.engine.getWinRate(address)]);
+    return {
+      registered: p.registered,
+      elo: Number(p.elo),
+      peakElo: Number(p.peakElo),
+      wins: Number(p.wins),
+      losses: Number(p.losses),
+      draws: Number(p.draws),
+      totalMatches: Number(p.matchCount),
+      currentStreak: Number(p.currentStreak),
+      longestStreak: Number(p.longestStreak),
+      winRateBps: Number(winRate),
+    };
+  }
+
+  /**
+   * Per-domain ratings for the player's registered domains, plus any `extraDomains`
+   * (matches can be reported in domains the player never registered).
+   */
+  async getEngineDomainElos(address: string, extraDomains: string[] = []): Promise<Record<string, number>> {
+    const registered: string[] = await this.engine.getPlayerDomains(address);
+    const domains = [...new Set([...registered, ...extraDomains])].filter((d) => d.length > 0);
+    const elos = await Promise.all(domains.map((d) => this.engine.domainElo(address, d)));
+    return Object.fromEntries(domains.map((d, i) => [d, Number(elos[i])]));
+  }
+
+  /** Get an Engine match by id, or null if it does not exist */
+  async getEngineMatch(matchId: number): Promise<EngineMatch | null> {
+    if (matchId >= Number(await this.engine.getMatchCount())) return null;
+    return toEngineMatch(matchId, await this.engine.getMatch(matchId));
+  }
+
+  /**
+   * Matches `player` took part in, oldest first, discovered from `MatchRecorded`
+   * and `TeamMatchRecorded` events. Team matches are not indexed by player, so
+   * every team match in the range is scanned.
+   */
+  async getEngineMatches(player: string, options: EventRangeOptions = {}): Promise<EngineMatch[]> {
+    const [asPlayer1, asPlayer2, team] = await Promise.all([
+      this.queryEvents(this.engine, "MatchRecorded", options, [null, player]),
+      this.queryEvents(this.engine, "MatchRecorded", options, [null, null, player]),
+      this.queryEvents(this.engine, "TeamMatchRecorded", options),
+    ]);
+    const key = player.toLowerCase();
+    const inTeamMatch = team.filter((l) => (l.args.participants as string[]).some((p) => p.toLowerCase() === key));
+    const ids = [...asPlayer1, ...asPlayer2, ...inTeamMatch]
+      .map((l) => Number(l.args.matchId))
+      .sort((a, b) => a - b);
+    const raw = await Promise.all(ids.map((id) => this.engine.getMatch(id)));
+    return raw.map((m, i) => toEngineMatch(ids[i], m));
+  }
+
+  /** Rating over time, rebuilt from the player's `MatchRecorded` history */
+  async getRatingHistory(player: string, options: EventRangeOptions = {}): Promise<RatingPoint[]> {
+    const matches = await this.getEngineMatches(player, options);
+    if (matches.length === 0) return [];
+    const key = player.toLowerCase();
+    const side = (m: EngineMatch) => m.participants.find((p) => p.player.toLowerCase() === key)!;
+
+    const first = matches[0];
+    return [
+      { matchId: null, timestamp: first.timestamp, elo: side(first).eloBefore },
+      ...matches.map((m) => {
+        const { eloBefore, eloChange } = side(m);
+        return { matchId: m.id, timestamp: m.timestamp, elo: applyEloChange(eloBefore, eloChange) };
+      }),
+    ];
+  }
+
+  /** Rating changes the Engine would apply if this match were reported now */
+  async simulateEngineMatch(
+    player1: string,
+    player2: string,
+    outcome: MatchOutcome
+  ): Promise<{ player1Change: number; player2Change: number }> {
+    const [change1, change2] = await this.engine.simulateMatch(player1, player2, outcome);
+    return { player1Change: Number(change1), player2Change: Number(change2) };
+  }
+
+  /** Whether `address` may report Engine matches */
+  async isEngineReporter(address: string): Promise<boolean> {
+    return await this.engine.authorizedReporters(address);
+  }
+
+  /** Glicko-2 rating, RD and volatility of a SkillProofEngine player */
+  async getEngineGlicko(address: string): Promise<EngineGlicko> {
+    const g = await this.engine.getGlicko(address);
+    return {
+      rating: Number(ethers.formatEther(g.rating)),
+      rd: Number(ethers.formatEther(g.rd)),
+      volatility: Number(ethers.formatEther(g.volatility)),
+      lastRatedAt: Number(g.lastRatedAt),
+      rated: g.rated,
+    };
+  }
+
+  /** Glicko-2 rating minus 2·RD in whole points — a conservative skill estimate */
+  async getConservativeRating(address: string): Promise<number> {
+    return Number(await this.engine.getConservativeRating(address));
+  }
+
+  /** Whether the Engine is tracking Glicko-2 ratings, and its rating period in seconds */
+  async getEngineGlickoConfig(): Promise<{ enabled: boolean; ratingPeriod: number }> {
+    const [enabled, period] = await Promise.all([this.engine.glickoEnabled(), this.engine.ratingPeriod()]);
+    return { enabled, ratingPeriod: Number(period) };
+  }
+
+  /** Nonce the reporter's next signed match report must carry */
+  async getEngineReportNonce(reporter: string): Promise<number> {
+    return Number(await this.engine.nonces(reporter));
+  }
+
+  /** Dispute state of an Engine match and the last moment a player can raise one */
+  async getEngineMatchDispute(matchId: number): Promise<MatchDispute> {
+    const [status, m, window] = await Promise.all([
+      this.engine.disputeStatus(matchId),
+      this.engine.getMatch(matchId),
+      this.engine.disputeWindow(),
+    ]);
+    return {
+      matchId,
+      status: MATCH_DISPUTE_STATUSES[Number(status)],
+      deadline: Number(m.timestamp) + Number(window),
+    };
+  }
+
+  /** Who resolves match disputes besides the owner, and how long players have to raise one (seconds) */
+  async getEngineDisputeConfig(): Promise<{ arbiter: string; disputeWindow: number }> {
+    const [arbiter, window] = await Promise.all([this.engine.arbiter(), this.engine.disputeWindow()]);
+    return { arbiter, disputeWindow: Number(window) };
+  }
+
+  /**
+   * Id and start of the season in progress, the reset closing it will apply,
+   * and the closed season still being archived (0 if none)
+   */
+  async getCurrentSeason(): Promise<{ id: number; startedAt: number; resetBps: number; archivingSeason: number }> {
+    const [id, startedAt, resetBps, archivingSeason] = await Promise.all([
+      this.engine.currentSeason(),
+      this.engine.seasonStartedAt(),
+      this.engine.seasonResetBps(),
+      this.engine.archivingSeason(),
+    ]);
+    return {
+      id: Number(id),
+      startedAt: Number(startedAt),
+      resetBps: Number(resetBps),
+      archivingSeason: Number(archivingSeason),
+    };
+  }
+
+  /** A closed season, or null if it has not closed yet */
+  async getSeason(id: number): Promise<EngineSeason | null> {
+    if (id < 1 || id >= Number(await this.engine.currentSeason())) return null;
+    return toEngineSeason(id, await this.engine.getSeason(id));
+  }
+
+  /** Every closed season, oldest first */
+  async getSeasons(): Promise<EngineSeason[]> {
+    const current = Number(await this.engine.currentSeason());
+    const ids = Array.from({ length: current - 1 }, (_, i) => i + 1);
+    const raw = await Promise.all(ids.map((id) => this.engine.getSeason(id)));
+    return raw.map((s, i) => toEngineSeason(ids[i], s));
+  }
+
+  /** Final standings of a closed season, best first */
+  async getSeasonStandings(id: number, start = 0, count = 100): Promise<SeasonStanding[]> {
+    const page: ethers.Result[] = await this.engine.getSeasonStandings(id, start, count);
+    return page.map(toSeasonStanding);
+  }
+
+  /** A player's final standing in a closed season, or null if they were not ranked */
+  async getSeasonStanding(id: number, player: string): Promise<SeasonStanding | null> {
+    const standing = await this.engine.getSeasonStanding(id, player);
+    return Number(standing.rank) === 0 ? null : toSeasonStanding(standing);
+  }
+
+  /** W/L/D since the current season began (`getEnginePlayer` reports lifetime totals) */
+  async getEngineSeasonRecord(address: string): Promise<{ wins: number; losses: number; draws: number }> {
+    const [wins, losses, draws] = await this.engine.getSeasonRecord(address);
+    return { wins: Number(wins), losses: Number(losses), draws: Number(draws) };
+  }
+
+  // ━━━ TOURNAMENTS ━━━
+
+  /** Get a tournament by id, or null if it does not exist */
+  async getTournament(id: number): Promise<Tournament | null> {
+    const tournaments = this.requireTournaments();
+    try {
+      return toTournament(await tournaments.getTournament(id));
+    } catch {
+      return null;
+    }
+  }
+
+  /** Every tournament, oldest first */
+  async getTournaments(): Promise<Tournament[]> {
+    const tournaments = this.requireTournaments();
+    const count = Number(await tournaments.tournamentCount());
+    const raw = await Promise.all(Array.from({ length: count }, (_, id) => tournaments.getTournament(id)));
+    return raw.map(toTournament);
+  }
+
+  /** Every pairing so far across rounds and brackets, in creation order */
+  async getTournamentPairings(id: number): Promise<TournamentPairing[]> {
+    const pairings: ethers.Result[] = await this.requireTournaments().getPairings(id);
+    return pairings.map((p, index) => toTournamentPairing(index, p));
+  }
+
+  /**
+   * Entrants in join order, or in seed order once the tournament has started.
+   * After completion, `getTournamentStandings` gives them by place.
+   */
+  async getTournamentEntrants(id: number): Promise<TournamentEntrant[]> {
+    const tournaments = this.requireTournaments();
+    const players: string[] = await tournaments.getPlayers(id);
+    const raw = await Promise.all(players.map((p) => tournaments.getEntrant(id, p)));
+    return raw.map((e, i) => toTournamentEntrant(players[i], e));
+  }
+
+  /** Entrants from first place down (completed tournaments) */
+  async getTournamentStandings(id: number): Promise<TournamentEntrant[]> {
+    const tournaments = this.requireTournaments();
+    const [ranked]: [string[]] = await tournaments.getStandings(id);
+    const raw = await Promise.all(ranked.map((p) => tournaments.getEntrant(id, p)));
+    return raw.map((e, i) => toTournamentEntrant(ranked[i], e));
+  }
+
+  /** Prizes and refunds `address` can withdraw with `claimTournamentWinnings`, in wei */
+  async getClaimableWinnings(address: string): Promise<bigint> {
+    return await this.requireTournaments().claimable(address);
+  }
+
+  /** The tournaments contract, or an error if the address book has none */
+  protected requireTournaments(): ethers.Contract {
+    if (this.addresses.tournaments === ethers.ZeroAddress) {
+      throw new Error("No SkillProofTournaments address configured");
+    }
+    return this.tournaments;
+  }
+
+  // ━━━ LEADERBOARD ━━━
+
+  /** Get leaderboard addresses (paginated) */
+  async getLeaderboard(start: number = 0, count: number = 10): Promise<string[]> {
+    try {
+      return await this.hub.getLeaderboard(start, count);
+    } catch {
+      return [];
+    }
+  }
+
+  // ━━━ PROTOCOL STATS ━━━
+
+  /** Get protocol-wide statistics */
+  async getProtocolStats(): Promise<ProtocolStats> {
+    const [merkleCount, zkCount, marketCount, bountyCount, proposalCount, participantCount] =
+      await Promise.all([
+        this.verifier.getVerificationCount().catch(() => 0n),
+        this.zkWrapper.getZKVerificationCount().catch(() => 0n),
+        this.hub.marketCount().catch(() => 0n),
+        this.hub.bountyCount().catch(() => 0n),
         this.hub.proposalCount().catch(() => 0n),
         this.hub.participantCount().catch(() => 0n),
       ]);
@@ -313,6 +1470,870 @@ export class SkillProof {
   }
 }
 
+// ━━━ COMMIT-REVEAL HELPERS ━━━
+
+/** Random bytes32 salt for Hub commit-reveal flows */
+export function generateCommitSalt(): string {
+  return ethers.hexlify(ethers.randomBytes(32));
+}
+
+/** Commit hash for `commitPrediction`: keccak256(abi.encodePacked(prediction, salt)) */
+export function computePredictionCommit(prediction: boolean, salt: ethers.BytesLike): string {
+  return ethers.solidityPackedKeccak256(["bool", "bytes32"], [prediction, salt]);
+}
+
+/** Commit hash for `commitSolution`: keccak256(abi.encodePacked(solution, salt)) */
+export function computeSolutionCommit(solution: string, salt: ethers.BytesLike): string {
+  return ethers.solidityPackedKeccak256(["string", "bytes32"], [solution, salt]);
+}
+
+/**
+ * Signer-aware SkillProof client. Inherits every read method and adds typed
+ * write methods for issuers and users. Each write waits for the receipt and
+ * decodes the events emitted by any SkillProof contract in the transaction.
+ *
+ * @example
+ * ```ts
+ * const client = new SkillProofClient(signer);
+ * const { events } = await client.mintCredential({ player, playerName: "Alice", ... });
+ * ```
+ */
+export class SkillProofClient extends SkillProof {
+  protected signer: ethers.Signer;
+  private interfaces: Map<string, { contract: keyof typeof COSTON2_ADDRESSES; iface: ethers.Interface }>;
+
+  constructor(signer: ethers.Signer, addresses?: Partial<typeof COSTON2_ADDRESSES>) {
+    if (!signer.provider) {
+      throw new Error("Signer must be connected to a provider");
+    }
+    super(signer.provider, addresses);
+    this.signer = signer;
+
+    const contracts: [keyof typeof COSTON2_ADDRESSES, ethers.Contract][] = [
+      ["registry", this.registry],
+      ["hub", this.hub],
+      ["verifier", this.verifier],
+      ["zkVerifier", this.zkWrapper],
+      ["decay", this.decay],
+      ["aggregator", this.aggregator],
+      ["matchVerifier", this.matchVerifier],
+      ["staking", this.staking],
+      ["disputes", this.disputes],
+      ["treasury", this.treasury],
+      ["engine", this.engine],
+      ["tournaments", this.tournaments],
+    ];
+    this.interfaces = new Map(
+      contracts.map(([key, contract]) => [
+        this.addresses[key].toLowerCase(),
+        { contract: key, iface: contract.interface },
+      ])
+    );
+  }
+
+  /** Address of the connected signer */
+  async getAddress(): Promise<string> {
+    return await this.signer.getAddress();
+  }
+
+  // ━━━ REGISTRY (ISSUER) ━━━
+
+  /**
+   * Mint a new credential. Caller must be an active issuer, staked if the Registry requires it.
+   * The issuer's minting fee is attached automatically.
+   */
+  async mintCredential(params: MintCredentialParams): Promise<TxResult> {
+    const value = await this.quoteFee(this.registry, "mintFee", [await this.getAddress()]);
+    return this.send(this.registry, "mintCredential", [
+      params.player,
+      params.playerName,
+      params.overallElo,
+      params.percentile,
+      params.domains,
+      params.skillScores,
+      params.skillPercentiles,
+      params.totalMatches,
+      params.winRate,
+    ], { value });
+  }
+
+  /** Update an existing credential. Caller must be its original issuer, still staked if required. */
+  async updateCredential(player: string, params: UpdateCredentialParams): Promise<TxResult> {
+    return this.send(this.registry, "updateCredential", [
+      player,
+      params.overallElo,
+      params.percentile,
+      params.skillScores,
+      params.skillPercentiles,
+      params.totalMatches,
+      params.winRate,
+    ]);
+  }
+
+  /** Revoke a credential (issuer or registry owner) */
+  async revokeCredential(player: string): Promise<TxResult> {
+    return this.send(this.registry, "revokeCredential", [player]);
+  }
+
+  /** Require issuers to hold a valid stake in `staking` (ZeroAddress disables). Registry owner only. */
+  async setRegistryStaking(staking: string): Promise<TxResult> {
+    return this.send(this.registry, "setStaking", [staking]);
+  }
+
+  // ━━━ DECAY / AGGREGATOR ━━━
+
+  /** Reset a credential's decay timer. Caller must be the credential's issuer. */
+  async refreshCredential(user: string): Promise<TxResult> {
+    return this.send(this.decay, "refreshCredential", [user]);
+  }
+
+  /** Link a credential address to a primary identity (owner or the linked address) */
+  async linkAddress(primary: string, linked: string): Promise<TxResult> {
+    return this.send(this.aggregator, "linkAddress", [primary, linked]);
+  }
+
+  // ━━━ HUB: VAULT ━━━
+
+  /** Deposit native tokens (wei) into the vault */
+  async deposit(amount: bigint): Promise<TxResult> {
+    return this.send(this.hub, "deposit", [], { value: amount });
+  }
+
+  /** Withdraw native tokens (wei). Requires effective ELO >= vault threshold. */
+  async withdraw(amount: bigint): Promise<TxResult> {
+    return this.send(this.hub, "withdraw", [amount]);
+  }
+
+  // ━━━ HUB: GOVERN ━━━
+
+  /** Create a proposal; resolves the new id from `ProposalCreated` */
+  async createProposal(
+    description: string,
+    deadline: number
+  ): Promise<TxResult & { proposalId: number }> {
+    const result = await this.send(this.hub, "createProposal", [description, deadline]);
+    return { ...result, proposalId: Number(this.findEvent(result, "ProposalCreated").id) };
+  }
+
+  /** Cast a skill-weighted vote */
+  async vote(proposalId: number, support: boolean): Promise<TxResult> {
+    return this.send(this.hub, "vote", [proposalId, support]);
+  }
+
+  // ━━━ HUB: PREDICT ━━━
+
+  /**
+   * Create an FTSO-resolved prediction market, attaching the market fee;
+   * resolves the new id from `MarketCreated`
+   */
+  async createMarket(
+    question: string,
+    feedId: string,
+    targetPrice: bigint,
+    commitDeadline: number,
+    revealDeadline: number
+  ): Promise<TxResult & { marketId: number }> {
+    const value = await this.quoteFee(this.hub, "marketFee", [await this.getAddress()]);
+    const result = await this.send(
+      this.hub,
+      "createMarket",
+      [question, feedId, targetPrice, commitDeadline, revealDeadline],
+      { value }
+    );
+    return { ...result, marketId: Number(this.findEvent(result, "MarketCreated").id) };
+  }
+
+  /** Commit a hashed prediction. Keep `salt` — it is needed to reveal. */
+  async commitPrediction(
+    marketId: number,
+    prediction: boolean,
+    salt: ethers.BytesLike
+  ): Promise<TxResult> {
+    return this.send(this.hub, "commitPrediction", [
+      marketId,
+      computePredictionCommit(prediction, salt),
+    ]);
+  }
+
+  /** Reveal a previously committed prediction */
+  async revealPrediction(
+    marketId: number,
+    prediction: boolean,
+    salt: ethers.BytesLike
+  ): Promise<TxResult> {
+    return this.send(this.hub, "revealPrediction", [marketId, prediction, salt]);
+  }
+
+  // ━━━ HUB: ARENA ━━━
+
+  /** Post a bounty funded with `reward` wei; resolves the new id from `BountyPosted` */
+  async postBounty(
+    description: string,
+    commitDeadline: number,
+    deadline: number,
+    reward: bigint
+  ): Promise<TxResult & { bountyId: number }> {
+    const result = await this.send(
+      this.hub,
+      "postBounty",
+      [description, commitDeadline, deadline],
+      { value: reward }
+    );
+    return { ...result, bountyId: Number(this.findEvent(result, "BountyPosted").id) };
+  }
+
+  /** Commit a hashed bounty solution. Keep `salt` — it is needed to reveal. */
+  async commitSolution(
+    bountyId: number,
+    solution: string,
+    salt: ethers.BytesLike
+  ): Promise<TxResult> {
+    return this.send(this.hub, "commitSolution", [
+      bountyId,
+      computeSolutionCommit(solution, salt),
+    ]);
+  }
+
+  /** Reveal a previously committed bounty solution */
+  async revealSolution(
+    bountyId: number,
+    solution: string,
+    salt: ethers.BytesLike
+  ): Promise<TxResult> {
+    return this.send(this.hub, "revealSolution", [bountyId, solution, salt]);
+  }
+
+  /**
+   * Award a bounty to a solver with a revealed solution (poster only). With a
+   * treasury set, the winner receives the reward minus `getBountyCommission`.
+   */
+  async awardBounty(bountyId: number, winner: string): Promise<TxResult> {
+    return this.send(this.hub, "awardBounty", [bountyId, winner]);
+  }
+
+  // ━━━ STAKING (ISSUER) ━━━
+
+  /** Stake `amount` wei to register as an issuer */
+  async stake(issuerName: string, amount: bigint): Promise<TxResult> {
+    return this.send(this.staking, "stake", [issuerName], { value: amount });
+  }
+
+  /** Top up an existing stake by `amount` wei */
+  async increaseStake(amount: bigint): Promise<TxResult> {
+    return this.send(this.staking, "increaseStake", [], { value: amount });
+  }
+
+  /** Withdraw the full stake after the 7-day lock */
+  async unstake(): Promise<TxResult> {
+    return this.send(this.staking, "unstake", []);
+  }
+
+  /** Slash an issuer's stake; deactivates it once below the minimum. Arbiter only. */
+  async slash(issuer: string, reason: string): Promise<TxResult> {
+    return this.send(this.staking, "slash", [issuer, reason]);
+  }
+
+  // ━━━ DISPUTES ━━━
+
+  /**
+   * Challenge `player`'s credential, posting `bond` wei (defaults to the
+   * current dispute bond). Evidence is a URI, a bytes32 hash, or both.
+   */
+  async openDispute(
+    player: string,
+    evidence: { uri?: string; hash?: string },
+    bond?: bigint
+  ): Promise<TxResult> {
+    const disputes = this.requireDisputes();
+    return this.send(
+      disputes,
+      "openDispute",
+      [player, evidence.uri ?? "", evidence.hash ?? ethers.ZeroHash],
+      { value: bond ?? (await disputes.disputeBond()) }
+    );
+  }
+
+  /** Answer a dispute within the response window. Disputed issuer only. */
+  async respondToDispute(id: number, responseURI: string): Promise<TxResult> {
+    return this.send(this.requireDisputes(), "respond", [id, responseURI]);
+  }
+
+  /** Rule on a dispute; upheld slashes the issuer and credits the challenger's bond back. Arbiter only. */
+  async resolveDispute(id: number, upheld: boolean): Promise<TxResult> {
+    return this.send(this.requireDisputes(), "resolve", [id, upheld]);
+  }
+
+  /**
+   * Hand a dispute to a Hub proposal created after it was opened with the
+   * dispute's `proposalDescription`, voting for at least `minVotingPeriod` more.
+   * Arbiter or either party.
+   */
+  async escalateDispute(id: number, proposalId: number): Promise<TxResult> {
+    return this.send(this.requireDisputes(), "escalateToGovernance", [id, proposalId]);
+  }
+
+  /** Settle an escalated dispute from its proposal's votes once voting has ended; below quorum it expires */
+  async resolveDisputeByVote(id: number): Promise<TxResult> {
+    return this.send(this.requireDisputes(), "resolveByVote", [id]);
+  }
+
+  /** Close a dispute nobody ruled on in time and credit the challenger's bond back */
+  async expireDispute(id: number): Promise<TxResult> {
+    return this.send(this.requireDisputes(), "expire", [id]);
+  }
+
+  /** Withdraw the signer's refunded and awarded dispute bonds */
+  async withdrawDisputeBonds(): Promise<TxResult> {
+    return this.send(this.requireDisputes(), "withdraw", []);
+  }
+
+  // ━━━ ENGINE ━━━
+
+  /** Register the signer as an Engine player at the base rating */
+  async registerEnginePlayer(domains: string[]): Promise<TxResult> {
+    return this.send(this.engine, "registerPlayer", [domains]);
+  }
+
+  /** Report a match result (authorized reporters only) */
+  async recordEngineMatch(
+    player1: string,
+    player2: string,
+    outcome: MatchOutcome,
+    domain: string
+  ): Promise<TxResult & { matchId: number }> {
+    const result = await this.send(this.engine, "recordMatch", [player1, player2, outcome, domain]);
+    const recorded = result.events.find((e) => e.name === "MatchRecorded");
+    return { ...result, matchId: Number(recorded?.args.matchId) };
+  }
+
+  /** Report several match results in one transaction (authorized reporters only) */
+  async recordEngineMatches(matches: EngineMatchInput[]): Promise<TxResult & { matchIds: number[] }> {
+    const result = await this.send(this.engine, "recordMatches", [matches]);
+    const matchIds = result.events.filter((e) => e.name === "MatchRecorded").map((e) => Number(e.args.matchId));
+    return { ...result, matchIds };
+  }
+
+  /**
+   * Report a team match (authorized reporters only)
+   * @param teams Members of each team
+   * @param placements Each team's finish: 1 = first, tied teams share a placement
+   */
+  async recordEngineTeamMatch(
+    teams: string[][],
+    placements: number[],
+    domain: string
+  ): Promise<TxResult & { matchId: number }> {
+    const result = await this.send(this.engine, "recordTeamMatch", [teams, placements, domain]);
+    const recorded = result.events.find((e) => e.name === "TeamMatchRecorded");
+    return { ...result, matchId: Number(recorded?.args.matchId) };
+  }
+
+  /** Report a free-for-all round: each player's placement, 1 = first (authorized reporters only) */
+  async recordEngineFreeForAll(
+    players: string[],
+    placements: number[],
+    domain: string
+  ): Promise<TxResult & { matchId: number }> {
+    const result = await this.send(this.engine, "recordFreeForAll", [players, placements, domain]);
+    const recorded = result.events.find((e) => e.name === "TeamMatchRecorded");
+    return { ...result, matchId: Number(recorded?.args.matchId) };
+  }
+
+  /**
+   * Close the season in progress (owner or governance). Ratings stay frozen
+   * until `archiveEngineSeason` has archived every player's standing. Open
+   * disputes must be resolved first.
+   */
+  async closeEngineSeason(): Promise<TxResult & { season: number }> {
+    const result = await this.send(this.engine, "closeSeason", []);
+    const closed = result.events.find((e) => e.name === "SeasonClosed");
+    return { ...result, season: Number(closed?.args.season) };
+  }
+
+  /**
+   * Archive the closed season's standings and soft-reset ratings, `batchSize`
+   * players per transaction (owner or governance). Players are ranked by final
+   * ELO, ties in registration order; a call resumes after any players already
+   * archived. Returns no transactions when no season is waiting.
+   */
+  async archiveEngineSeason(batchSize = 100): Promise<TxResult[]> {
+    const season = await this.engine.archivingSeason();
+    if (season === 0n) return [];
+    const count = Number(await this.engine.getPlayerCount());
+    const players: string[] = await Promise.all(Array.from({ length: count }, (_, i) => this.engine.playerList(i)));
+    const [stats, ranks] = await Promise.all([
+      Promise.all(players.map((player) => this.engine.getPlayer(player))),
+      Promise.all(players.map((player) => this.engine.seasonRank(season, player))),
+    ]);
+    // Array.prototype.sort is stable, so ties keep registration order
+    const ranked = players
+      .map((player, i) => ({ player, elo: stats[i].elo as bigint, archived: ranks[i] > 0n }))
+      .filter((p) => !p.archived)
+      .sort((a, b) => (a.elo === b.elo ? 0 : a.elo < b.elo ? 1 : -1))
+      .map((p) => p.player);
+
+    const results: TxResult[] = [];
+    for (let start = 0; start < ranked.length; start += batchSize) {
+      results.push(await this.send(this.engine, "archiveStandings", [ranked.slice(start, start + batchSize)]));
+    }
+    return results;
+  }
+
+  /** Flag a match the signer played in (1v1, team or free-for-all) for review, within the dispute window */
+  async disputeEngineMatch(matchId: number): Promise<TxResult> {
+    return this.send(this.engine, "disputeMatch", [matchId]);
+  }
+
+  /**
+   * Settle an open match dispute (owner or arbiter). "voided" reverses the
+   * match's rating changes and record for every participant; "corrected" also
+   * re-rates it, as a 1v1 `outcome` or as each team's placement (1 = first).
+   */
+  async resolveEngineDispute(
+    matchId: number,
+    resolution: "dismissed" | "voided" | "corrected",
+    outcome?: MatchOutcome | number[]
+  ): Promise<TxResult> {
+    if (resolution === "corrected" && outcome === undefined) throw new Error("A correction needs an outcome");
+    const placements = typeof outcome === "number" ? ONE_ON_ONE_PLACEMENTS[outcome] : (outcome ?? []);
+    return this.send(this.engine, "resolveDispute", [matchId, MATCH_DISPUTE_STATUSES.indexOf(resolution), placements]);
+  }
+
+  /** Set the dispute arbiter and window in seconds (owner only) */
+  async setEngineDisputeConfig(arbiter: string, disputeWindow: number): Promise<TxResult> {
+    return this.send(this.engine, "setDisputeConfig", [arbiter, disputeWindow]);
+  }
+
+  // ━━━ TOURNAMENTS ━━━
+
+  /** Open a tournament for registration (organizers only) */
+  async createTournament(params: CreateTournamentParams): Promise<TxResult & { tournamentId: number }> {
+    const result = await this.send(this.requireTournaments(), "createTournament", [
+      params.name,
+      TOURNAMENT_FORMATS.indexOf(params.format),
+      params.domain,
+      params.entryFee,
+      params.maxPlayers,
+      params.rounds ?? 0,
+      params.payoutBps,
+    ]);
+    return { ...result, tournamentId: Number(this.findEvent(result, "TournamentCreated").id) };
+  }
+
+  /** Enter a tournament as the signer, paying its entry fee into the prize pool */
+  async joinTournament(id: number): Promise<TxResult> {
+    const tournaments = this.requireTournaments();
+    const { entryFee } = await tournaments.getTournament(id);
+    return this.send(tournaments, "join", [id], { value: entryFee });
+  }
+
+  /** Close registration, seed by Engine ELO and pair round 1. Organizer only. */
+  async startTournament(id: number): Promise<TxResult> {
+    return this.send(this.requireTournaments(), "start", [id]);
+  }
+
+  /**
+   * Report a pairing's result; it is recorded on the Engine, and the last result
+   * of a round pairs the next one or pays out. Organizer only.
+   */
+  async reportTournamentResult(id: number, pairing: number, outcome: MatchOutcome): Promise<TxResult> {
+    return this.send(this.requireTournaments(), "reportResult", [id, pairing, outcome]);
+  }
+
+  /** Report several results in one transaction, in order. Organizer only. */
+  async reportTournamentResults(
+    id: number,
+    results: { pairing: number; outcome: MatchOutcome }[]
+  ): Promise<TxResult> {
+    return this.send(this.requireTournaments(), "reportResults", [
+      id,
+      results.map((r) => r.pairing),
+      results.map((r) => r.outcome),
+    ]);
+  }
+
+  /**
+   * Cancel a tournament before it completes; every entry fee becomes claimable.
+   * Organizer or owner, or anyone once a started tournament has stalled for `STALL_TIMEOUT`.
+   */
+  async cancelTournament(id: number): Promise<TxResult> {
+    return this.send(this.requireTournaments(), "cancel", [id]);
+  }
+
+  /** Withdraw the signer's prizes and refunds */
+  async claimTournamentWinnings(): Promise<TxResult> {
+    return this.send(this.requireTournaments(), "claim", []);
+  }
+
+  // ━━━ MERKLE VERIFIER ━━━
+
+  /** Set the Verifier's Merkle root, e.g. from `buildMerkleProofs`. Operator only. */
+  async updateMerkleRoot(root: string): Promise<TxResult> {
+    return this.send(this.verifier, "updateMerkleRoot", [root]);
+  }
+
+  /** Verify and record a credential leaf proof for the signer, paying the verification fee */
+  async verifyAndRecord(leaf: string, proof: string[]): Promise<TxResult> {
+    const value = await this.quoteFee(this.verifier, "verificationFee", [await this.getAddress()]);
+    return this.send(this.verifier, "verifyAndRecord", [leaf, proof], { value });
+  }
+
+  /** Prove `user` has ELO >= `threshold` with a threshold leaf proof; the signer pays the fee */
+  async verifyThresholdProof(user: string, threshold: number, proof: string[]): Promise<TxResult> {
+    const value = await this.quoteFee(this.verifier, "verificationFee", [await this.getAddress()]);
+    return this.send(this.verifier, "verifyThresholdProof", [user, threshold, proof], { value });
+  }
+
+  // ━━━ ZK SUBMISSION ━━━
+
+  /** Submit a threshold proof (see `proveEloThreshold`) to `SkillProofZKVerifier`, paying the verification fee */
+  async submitThresholdProof(calldata: Groth16Calldata): Promise<TxResult> {
+    const value = await this.quoteFee(this.zkWrapper, "verificationFee", [await this.getAddress()]);
+    return this.send(
+      this.zkWrapper,
+      "verifyThresholdZK",
+      [calldata.pA, calldata.pB, calldata.pC, calldata.pubSignals],
+      { value }
+    );
+  }
+
+  // ━━━ INTERNAL ━━━
+
+  /** Send a transaction from the signer, wait for it, and decode SkillProof events */
+  protected async send(
+    contract: ethers.Contract,
+    method: string,
+    args: unknown[],
+    overrides: ethers.Overrides & { value?: bigint } = {}
+  ): Promise<TxResult> {
+    const connected = contract.connect(this.signer) as ethers.Contract;
+    const tx: ethers.ContractTransactionResponse = await connected[method](...args, overrides);
+    const receipt = await tx.wait();
+    if (!receipt) {
+      throw new Error(`Transaction ${tx.hash} was dropped`);
+    }
+    return { receipt, events: this.decodeEvents(receipt) };
+  }
+
+  /** Decode every log emitted by a known SkillProof contract */
+  protected decodeEvents(receipt: ethers.TransactionReceipt): DecodedEvent[] {
+    const events: DecodedEvent[] = [];
+    for (const log of receipt.logs) {
+      const known = this.interfaces.get(log.address.toLowerCase());
+      if (!known) continue;
+      const parsed = known.iface.parseLog({ topics: [...log.topics], data: log.data });
+      if (!parsed) continue;
+      events.push({
+        contract: known.contract,
+        address: log.address,
+        name: parsed.name,
+        args: parsed.args.toObject(),
+      });
+    }
+    return events;
+  }
+
+  private findEvent(result: TxResult, name: string): Record<string, unknown> {
+    const event = result.events.find((e) => e.name === name);
+    if (!event) {
+      throw new Error(`Expected ${name} event in ${result.receipt.hash}`);
+    }
+    return event.args;
+  }
+}
+
+// ━━━ GATE HELPERS ━━━
+
+function toSkillCredential(cred: ethers.Result): SkillCredential | null {
+  if (!cred.isValid) return null;
+  return {
+    issuer: cred.issuer,
+    playerName: cred.playerName,
+    overallElo: Number(cred.overallElo),
+    percentile: Number(cred.percentile),
+    totalMatches: Number(cred.totalMatches),
+    winRate: Number(cred.winRate),
+    domains: [...cred.skillDomains],
+    skillScores: cred.skillScores.map(Number),
+    skillPercentiles: cred.skillPercentiles.map(Number),
+    timestamp: Number(cred.issuedAt),
+    isValid: cred.isValid,
+  };
+}
+
+function toEngineSeason(id: number, s: ethers.Result): EngineSeason {
+  return {
+    id,
+    startedAt: Number(s.startedAt),
+    endedAt: Number(s.endedAt),
+    firstMatchId: Number(s.firstMatchId),
+    matchCount: Number(s.matchCount),
+    resetBps: Number(s.resetBps),
+  };
+}
+
+function toSeasonStanding(s: ethers.Result): SeasonStanding {
+  return {
+    player: s.player,
+    rank: Number(s.rank),
+    elo: Number(s.elo),
+    peakElo: Number(s.peakElo),
+    wins: Number(s.wins),
+    losses: Number(s.losses),
+    draws: Number(s.draws),
+    longestStreak: Number(s.longestStreak),
+  };
+}
+
+function toEngineMatch(id: number, m: ethers.Result): EngineMatch {
+  const outcome = Number(m.outcome) as MatchOutcome | 0;
+  const participants: EngineParticipant[] =
+    outcome === 0
+      ? (m.participants as string[]).map((player, i) => ({
+          player,
+          team: Number(m.teams[i]),
+          placement: Number(m.placements[i]),
+          eloBefore: Number(m.elosBefore[i]),
+          eloChange: Number(m.eloChanges[i]),
+        }))
+      : [
+          {
+            player: m.player1,
+            team: 0,
+            placement: outcome === 2 ? 2 : 1,
+            eloBefore: Number(m.player1EloBefore),
+            eloChange: Number(m.player1EloChange),
+          },
+          {
+            player: m.player2,
+            team: 1,
+            placement: outcome === 1 ? 2 : 1,
+            eloBefore: Number(m.player2EloBefore),
+            eloChange: Number(m.player2EloChange),
+          },
+        ];
+  return {
+    id,
+    player1: m.player1,
+    player2: m.player2,
+    outcome,
+    player1EloBefore: Number(m.player1EloBefore),
+    player2EloBefore: Number(m.player2EloBefore),
+    player1EloChange: Number(m.player1EloChange),
+    player2EloChange: Number(m.player2EloChange),
+    timestamp: Number(m.timestamp),
+    domain: m.domain,
+    participants,
+  };
+}
+
+const MATCH_DISPUTE_STATUSES: MatchDisputeStatus[] = ["none", "open", "dismissed", "voided", "corrected"];
+
+// Player 1's and player 2's placement for each 1v1 outcome
+const ONE_ON_ONE_PLACEMENTS: Record<MatchOutcome, number[]> = { 1: [1, 2], 2: [2, 1], 3: [1, 1] };
+
+const DISPUTE_STATUSES: DisputeStatus[] = ["open", "upheld", "rejected", "expired"];
+
+function toDispute(d: ethers.Result, resolutionDeadline: bigint, proposalDescription: string): Dispute {
+  return {
+    id: Number(d.id),
+    challenger: d.challenger,
+    issuer: d.issuer,
+    player: d.player,
+    evidenceURI: d.evidenceURI,
+    evidenceHash: d.evidenceHash,
+    bond: d.bond,
+    openedAt: Number(d.openedAt),
+    responseDeadline: Number(d.responseDeadline),
+    resolutionDeadline: Number(resolutionDeadline),
+    responseURI: d.responseURI,
+    status: DISPUTE_STATUSES[Number(d.status)],
+    escalated: d.escalated,
+    proposalId: d.escalated ? Number(d.proposalId) : null,
+    proposalDescription,
+    slashed: d.slashed,
+  };
+}
+
+const TOURNAMENT_FORMATS: TournamentFormat[] = ["single-elimination", "double-elimination", "swiss"];
+const TOURNAMENT_STATUSES: TournamentStatus[] = ["registration", "active", "completed", "cancelled"];
+const TOURNAMENT_BRACKETS: TournamentPairing["bracket"][] = ["winners", "losers", "grand-final"];
+
+function toTournament(t: ethers.Result): Tournament {
+  return {
+    id: Number(t.id),
+    name: t.name,
+    domain: t.domain,
+    format: TOURNAMENT_FORMATS[Number(t.format)],
+    status: TOURNAMENT_STATUSES[Number(t.status)],
+    organizer: t.organizer,
+    entryFee: t.entryFee,
+    prizePool: t.prizePool,
+    maxPlayers: Number(t.maxPlayers),
+    rounds: Number(t.rounds),
+    currentRound: Number(t.currentRound),
+    payoutBps: t.payoutBps.map(Number),
+    champion: t.champion === ethers.ZeroAddress ? null : t.champion,
+    createdAt: Number(t.createdAt),
+    completedAt: t.completedAt === 0n ? null : Number(t.completedAt),
+  };
+}
+
+function toTournamentPairing(index: number, p: ethers.Result): TournamentPairing {
+  const bye = p.player2 === ethers.ZeroAddress;
+  return {
+    index,
+    round: Number(p.round),
+    bracket: TOURNAMENT_BRACKETS[Number(p.bracket)],
+    player1: p.player1,
+    player2: bye ? null : p.player2,
+    outcome: p.outcome === 0n ? null : (Number(p.outcome) as MatchOutcome),
+    engineMatchId: bye || p.outcome === 0n ? null : Number(p.engineMatchId),
+  };
+}
+
+function toTournamentEntrant(player: string, e: ethers.Result): TournamentEntrant {
+  return {
+    player,
+    seed: Number(e.seed),
+    eloAtStart: Number(e.eloAtStart),
+    losses: Number(e.losses),
+    points: Number(e.points),
+    place: e.place === 0n ? null : Number(e.place),
+    prize: e.prize,
+  };
+}
+
+/** Evaluate a gate config or policy and summarize it as a `GateResult` */
+async function evaluateGate(config: SkillGateConfig | GatePolicy, ctx: PolicyContext): Promise<GateResult> {
+  const policy = isGatePolicy(config) ? config : toGatePolicy(config);
+  const eloSource = isGatePolicy(config) ? "base" : legacyEloSource(config);
+
+  const trace = await evaluatePolicy(policy, ctx);
+  const cred = await ctx.credential();
+
+  return {
+    passed: trace.passed,
+    reason: firstFailure(trace),
+    elo: cred ? ((await ctx.elo(eloSource)) ?? cred.overallElo) : 0,
+    percentile: cred?.percentile ?? 0,
+    domains: cred?.domains ?? [],
+    trace,
+  };
+}
+
+/** Policy context over values already fetched by `batchRead` */
+function prefetchedContext(values: Map<string, unknown>): PolicyContext {
+  const get = <T>(key: string, fallback: T): T => (values.get(key) ?? fallback) as T;
+  const credential = get<SkillCredential | null>("credential", null);
+
+  return {
+    credential: async () => credential,
+    elo: async (source) => (source === "base" ? (credential?.overallElo ?? null) : get(`elo:${source}`, null)),
+    zkVerification: async () => {
+      const verified = get("zk:verified", false);
+      return { verified, threshold: verified ? get("zk:threshold", 0) : 0 };
+    },
+    meetsMatchRequirements: async (minMatches, minWinRateBps) =>
+      get(`match:${minMatches}:${minWinRateBps}`, false),
+    attestations: async () => ({
+      oracle: get("att:oracle", false),
+      merkleThreshold: get("att:merkle", false),
+      zkThreshold: get("zk:verified", false),
+      zkMatchHistory: get("att:match", false),
+    }),
+  };
+}
+
+// ━━━ LEGACY GATE CONFIG ━━━
+
+function legacyEloSource(config: SkillGateConfig): EloSource {
+  if (config.useEffectiveElo) return "effective";
+  if (config.useDecayedElo) return "decayed";
+  return "base";
+}
+
+/** Translate a flat `SkillGateConfig` into the equivalent `GatePolicy` */
+export function toGatePolicy(config: SkillGateConfig): GatePolicy {
+  // A credential is always required, even by an empty config
+  const rules: GateRule[] = [
+    { rule: "elo", source: legacyEloSource(config), min: config.minElo ?? 0 },
+  ];
+  if (config.minPercentile) {
+    rules.push({ rule: "percentile", min: config.minPercentile });
+  }
+  if (config.requiredDomains && config.requiredDomains.length > 0) {
+    rules.push({ rule: "domains", required: config.requiredDomains });
+  }
+  return { all: rules };
+}
+
 // Named exports for convenience
 export { COSTON2_ADDRESSES };
+export {
+  ZKProofError,
+  generateSalt,
+  computeThresholdCommitment,
+  computeMatchCommitment,
+  validateMatchHistoryInputs,
+  THRESHOLD_ARTIFACTS,
+  MATCH_HISTORY_ARTIFACTS,
+} from "./zk";
+export {
+  computeCredentialLeaf,
+  computeThresholdLeaf,
+  buildCredentialLeaves,
+  buildMerkleTree,
+  getMerkleProof,
+  verifyMerkleProof,
+  exportMerkleProofs,
+} from "./merkle";
+export type { CredentialLeafData, MerkleTree, MerkleLeafProof, MerkleProofExport } from "./merkle";
+export { MULTICALL3_ADDRESS } from "./multicall";
+export type { BatchOptions } from "./multicall";
+export { GatePolicyError, parseGatePolicy, isGatePolicy, evaluatePolicy } from "./policy";
+export {
+  ELO_PRECISION,
+  BASE_ELO,
+  EXPECTED_SCORE_CURVE,
+  logisticExpectedScore,
+  expectedScore,
+  kFactor,
+  eloChange,
+  applyEloChange,
+  simulateEloMatch,
+  placementScore,
+  simulateTeamMatch,
+  seasonReset,
+} from "./elo";
+export type { EloRating } from "./elo";
+export {
+  INITIAL_RD,
+  INITIAL_VOLATILITY,
+  initialGlicko,
+  inflateRd,
+  conservativeRating,
+  glickoWinProbability,
+  glickoUpdate,
+  glickoPeriodUpdate,
+  teamGlicko,
+} from "./glicko";
+export type { GlickoRating, GlickoResult } from "./glicko";
+export type {
+  EloSource,
+  GateRule,
+  GatePolicy,
+  PolicyTrace,
+  PolicyContext,
+  AttestationSummary,
+} from "./policy";
+export type {
+  ZKProofErrorCode,
+  CircuitArtifacts,
+  Groth16Calldata,
+  ThresholdProofParams,
+  ThresholdProof,
+  MatchHistoryProofParams,
+  MatchHistoryProof,
+} from "./zk";
 export default SkillProof;
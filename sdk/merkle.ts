@@ -0,0 +1,166 @@
+import { ethers } from "ethers";
+
+// ━━━ CREDENTIAL MERKLE TREE ━━━
+//
+// Off-chain mirror of SkillProofVerifier's tree: sorted-pair keccak256
+// hashing, leaves zero-padded to the next power of two. Roots built here
+// match `updateMerkleRootFromRegistry` / `updateMerkleRootWithThresholds`,
+// and proofs verify with `verifyAndRecord` / `verifyThresholdProof`.
+
+/** Registry fields committed to by a credential leaf */
+export interface CredentialLeafData {
+  user: string;
+  playerName: string;
+  overallElo: number | bigint;
+  percentile: number | bigint;
+  totalMatches: number | bigint;
+}
+
+export interface MerkleTree {
+  root: string;
+  /** Layers bottom-up; layers[0] is the zero-padded leaf layer */
+  layers: string[][];
+  /** Unpadded leaves in insertion order */
+  leaves: string[];
+}
+
+export interface MerkleLeafProof {
+  leaf: string;
+  index: number;
+  proof: string[];
+}
+
+/** JSON export: everything a user needs to verify on-chain */
+export interface MerkleProofExport {
+  root: string;
+  thresholds: number[];
+  users: Record<
+    string,
+    {
+      credential: MerkleLeafProof & {
+        playerName: string;
+        overallElo: number;
+        percentile: number;
+        totalMatches: number;
+      };
+      /** Keyed by threshold; only thresholds the user meets have a leaf */
+      thresholds: Record<string, MerkleLeafProof>;
+    }
+  >;
+}
+
+// ━━━ LEAVES ━━━
+
+/** Same as `SkillProofVerifier.computeCredentialHash` */
+export function computeCredentialLeaf(data: CredentialLeafData): string {
+  return ethers.solidityPackedKeccak256(
+    ["address", "string", "uint256", "uint256", "uint256"],
+    [data.user, data.playerName, data.overallElo, data.percentile, data.totalMatches]
+  );
+}
+
+/** Same as `SkillProofVerifier.computeThresholdHash` */
+export function computeThresholdLeaf(user: string, threshold: number | bigint, meetsThreshold = true): string {
+  return ethers.solidityPackedKeccak256(["address", "uint256", "bool"], [user, threshold, meetsThreshold]);
+}
+
+/**
+ * Leaves in the order `updateMerkleRootWithThresholds` emits them: for each
+ * user, its credential leaf followed by a leaf for every threshold (in the
+ * given order) the user's ELO meets. With no thresholds this is the
+ * `updateMerkleRootFromRegistry` leaf set.
+ */
+export function buildCredentialLeaves(credentials: CredentialLeafData[], thresholds: number[] = []): string[] {
+  return credentials.flatMap((cred) => [
+    computeCredentialLeaf(cred),
+    ...thresholds
+      .filter((t) => BigInt(cred.overallElo) >= BigInt(t))
+      .map((t) => computeThresholdLeaf(cred.user, t)),
+  ]);
+}
+
+// ━━━ TREE ━━━
+
+function hashPair(a: string, b: string): string {
+  const [first, second] = a <= b ? [a, b] : [b, a];
+  return ethers.solidityPackedKeccak256(["bytes32", "bytes32"], [first, second]);
+}
+
+/** Build a tree exactly like `SkillProofVerifier._buildMerkleRoot` */
+export function buildMerkleTree(leaves: string[]): MerkleTree {
+  if (leaves.length === 0) {
+    throw new Error("No leaves");
+  }
+
+  let size = 1;
+  while (size < leaves.length) size *= 2;
+
+  const padded = leaves.map((leaf) => ethers.hexlify(leaf).toLowerCase());
+  while (padded.length < size) padded.push(ethers.ZeroHash);
+
+  const layers = [padded];
+  while (layers[layers.length - 1].length > 1) {
+    const prev = layers[layers.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < prev.length; i += 2) {
+      next.push(hashPair(prev[i], prev[i + 1]));
+    }
+    layers.push(next);
+  }
+
+  return { root: layers[layers.length - 1][0], layers, leaves: padded.slice(0, leaves.length) };
+}
+
+/** Inclusion proof for the leaf at `index` */
+export function getMerkleProof(tree: MerkleTree, index: number): MerkleLeafProof {
+  if (!Number.isInteger(index) || index < 0 || index >= tree.leaves.length) {
+    throw new Error(`Leaf index ${index} out of range`);
+  }
+
+  const proof: string[] = [];
+  let idx = index;
+  for (let layer = 0; layer < tree.layers.length - 1; layer++) {
+    proof.push(tree.layers[layer][idx ^ 1]);
+    idx = Math.floor(idx / 2);
+  }
+  return { leaf: tree.leaves[index], index, proof };
+}
+
+/** Same check as `SkillProofVerifier._verifyProof` */
+export function verifyMerkleProof(leaf: string, proof: string[], root: string): boolean {
+  return proof.reduce((hash, sibling) => hashPair(hash, sibling), leaf.toLowerCase()) === root.toLowerCase();
+}
+
+// ━━━ EXPORT ━━━
+
+/**
+ * Build the tree for `credentials` + `thresholds` and collect every user's
+ * credential and threshold proofs, keyed by checksummed address.
+ */
+export function exportMerkleProofs(credentials: CredentialLeafData[], thresholds: number[] = []): MerkleProofExport {
+  const tree = buildMerkleTree(buildCredentialLeaves(credentials, thresholds));
+
+  const users: MerkleProofExport["users"] = {};
+  let index = 0;
+  for (const cred of credentials) {
+    const user = ethers.getAddress(cred.user);
+    const entry: MerkleProofExport["users"][string] = {
+      credential: {
+        ...getMerkleProof(tree, index++),
+        playerName: cred.playerName,
+        overallElo: Number(cred.overallElo),
+        percentile: Number(cred.percentile),
+        totalMatches: Number(cred.totalMatches),
+      },
+      thresholds: {},
+    };
+    for (const t of thresholds) {
+      if (BigInt(cred.overallElo) >= BigInt(t)) {
+        entry.thresholds[t] = getMerkleProof(tree, index++);
+      }
+    }
+    users[user] = entry;
+  }
+
+  return { root: tree.root, thresholds, users };
+}
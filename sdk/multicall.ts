@@ -0,0 +1,153 @@
+import { ethers } from "ethers";
+
+// ━━━ MULTICALL3 ━━━
+//
+// Batched reads through the canonical Multicall3 deployment
+// (https://www.multicall3.com), which is live on Flare and Coston2.
+
+export const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+export const MULTICALL3_ABI = [
+  "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)",
+];
+
+export interface BatchOptions {
+  /** Addresses packed into one `aggregate3` call (default 100) */
+  chunkSize?: number;
+  /** Chunks requested in parallel (default 4) */
+  concurrency?: number;
+  /**
+   * Block to read at. Defaults to the latest block when the batch starts, so
+   * every chunk reads the same snapshot.
+   */
+  blockTag?: ethers.BlockTag;
+}
+
+/** One view call planned for an address, stored under `key` once decoded */
+export interface BatchRead {
+  key: string;
+  contract: ethers.Contract;
+  method: string;
+  args: unknown[];
+  decode: (result: ethers.Result) => unknown;
+}
+
+/** Decoded reads for one address. Failed reads are `null` in `values`, with the cause in `failures`. */
+export interface BatchValues {
+  address: string;
+  values: Map<string, unknown>;
+  failures: Map<string, string>;
+  /** Set when the address could not be read at all (invalid address, RPC failure) */
+  error?: string;
+}
+
+const DEFAULT_CHUNK_SIZE = 100;
+const DEFAULT_CONCURRENCY = 4;
+const ERROR_SELECTOR = "0x08c379a0";
+
+function revertReason(data: string): string {
+  if (data.startsWith(ERROR_SELECTOR)) {
+    try {
+      const [reason] = ethers.AbiCoder.defaultAbiCoder().decode(["string"], "0x" + data.slice(10));
+      return reason;
+    } catch {
+      // fall through
+    }
+  }
+  return "Call reverted";
+}
+
+function errorMessage(err: unknown): string {
+  if (err && typeof err === "object" && "shortMessage" in err) return String(err.shortMessage);
+  return err instanceof Error ? err.message : String(err);
+}
+
+async function readChunk(
+  multicall: ethers.Contract,
+  addresses: string[],
+  plan: (address: string) => BatchRead[],
+  blockTag: ethers.BlockTag
+): Promise<BatchValues[]> {
+  const reads = addresses.map(plan);
+  const calls = reads.flat().map((r) => ({
+    target: r.contract.target as string,
+    allowFailure: true,
+    callData: r.contract.interface.encodeFunctionData(r.method, r.args),
+  }));
+
+  let raw: { success: boolean; returnData: string }[];
+  try {
+    raw = await multicall.aggregate3.staticCall(calls, { blockTag });
+  } catch (err) {
+    const error = `Multicall failed: ${errorMessage(err)}`;
+    return addresses.map((address) => ({ address, values: new Map(), failures: new Map(), error }));
+  }
+
+  let i = 0;
+  return addresses.map((address, a) => {
+    const values = new Map<string, unknown>();
+    const failures = new Map<string, string>();
+    for (const read of reads[a]) {
+      const { success, returnData } = raw[i++];
+      values.set(read.key, null);
+      if (!success) {
+        failures.set(read.key, `${read.method}: ${revertReason(returnData)}`);
+        continue;
+      }
+      try {
+        values.set(read.key, read.decode(read.contract.interface.decodeFunctionResult(read.method, returnData)));
+      } catch {
+        // Empty return data: no contract at the target, or an ABI mismatch
+        failures.set(read.key, `${read.method}: Could not decode result`);
+      }
+    }
+    return { address, values, failures };
+  });
+}
+
+/**
+ * Run the reads planned for each address through Multicall3 in chunks.
+ * Results come back in input order; invalid addresses and failed chunks are
+ * reported in `error` rather than thrown.
+ */
+export async function batchRead(
+  multicall: ethers.Contract,
+  addresses: string[],
+  plan: (address: string) => BatchRead[],
+  options: BatchOptions = {}
+): Promise<BatchValues[]> {
+  const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  const concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+  if (!Number.isInteger(chunkSize) || chunkSize < 1) throw new Error("chunkSize must be a positive integer");
+  if (!Number.isInteger(concurrency) || concurrency < 1) throw new Error("concurrency must be a positive integer");
+
+  const runner = multicall.runner as ethers.ContractRunner | null;
+  const blockTag = options.blockTag ?? (await runner!.provider!.getBlockNumber());
+
+  const results: BatchValues[] = new Array(addresses.length);
+  const valid: number[] = [];
+  addresses.forEach((address, i) => {
+    if (ethers.isAddress(address)) {
+      valid.push(i);
+    } else {
+      results[i] = { address, values: new Map(), failures: new Map(), error: "Invalid address" };
+    }
+  });
+
+  const chunks: number[][] = [];
+  for (let i = 0; i < valid.length; i += chunkSize) {
+    chunks.push(valid.slice(i, i + chunkSize));
+  }
+
+  let next = 0;
+  const worker = async () => {
+    while (next < chunks.length) {
+      const chunk = chunks[next++];
+      const values = await readChunk(multicall, chunk.map((i) => addresses[i]), plan, blockTag);
+      chunk.forEach((index, j) => (results[index] = values[j]));
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, chunks.length) }, worker));
+
+  return results;
+}
@@ -0,0 +1,323 @@
+// ━━━ GATE POLICY LANGUAGE ━━━
+//
+// A gate policy is a JSON-serializable tree of rules combined with
+// `all` (AND), `any` (OR) and `not`. Policies can be stored as-is
+// (e.g. per product tier) and validated with `parseGatePolicy`.
+//
+// {
+//   "all": [
+//     { "rule": "elo", "source": "decayed", "min": 1500 },
+//     { "any": [
+//       { "rule": "zkVerified", "minThreshold": 1500 },
+//       { "rule": "matchHistory", "minMatches": 10, "minWinRateBps": 6000 }
+//     ]},
+//     { "not": { "rule": "issuer", "allow": ["0xBad..."] } }
+//   ]
+// }
+
+import type { SkillCredential } from "./index";
+
+/**
+ * Which ELO figure an `elo` rule compares against. `conservative` is the
+ * Engine's Glicko-2 rating minus 2·RD.
+ */
+export type EloSource = "base" | "decayed" | "effective" | "aggregate" | "conservative";
+
+export type GateRule =
+  | { rule: "elo"; min: number; source?: EloSource }
+  | { rule: "percentile"; min: number }
+  | { rule: "domains"; required: string[] }
+  | { rule: "skillScore"; domain: string; min: number }
+  | { rule: "skillPercentile"; domain: string; min: number }
+  | { rule: "zkVerified"; minThreshold?: number }
+  | { rule: "matchHistory"; minMatches: number; minWinRateBps: number }
+  | { rule: "attestations"; min: number }
+  | { rule: "issuer"; allow?: string[]; deny?: string[] };
+
+export type GatePolicy = GateRule | { all: GatePolicy[] } | { any: GatePolicy[] } | { not: GatePolicy };
+
+/** One evaluated node of a policy, mirroring the policy tree */
+export interface PolicyTrace {
+  clause: string;
+  passed: boolean;
+  /** Observed value the clause was checked against, if any */
+  actual?: number | boolean | string | string[];
+  reason?: string;
+  children?: PolicyTrace[];
+}
+
+/** Independent attestations a user can hold, counted by `attestations` rules */
+export interface AttestationSummary {
+  oracle: boolean;
+  merkleThreshold: boolean;
+  zkThreshold: boolean;
+  zkMatchHistory: boolean;
+}
+
+/**
+ * Data source for policy evaluation. Each lookup is called lazily and should be
+ * memoized by the implementation; `null` means the value could not be read.
+ */
+export interface PolicyContext {
+  credential(): Promise<SkillCredential | null>;
+  elo(source: EloSource): Promise<number | null>;
+  zkVerification(): Promise<{ verified: boolean; threshold: number }>;
+  meetsMatchRequirements(minMatches: number, minWinRateBps: number): Promise<boolean>;
+  attestations(): Promise<AttestationSummary>;
+}
+
+/** Thrown by `parseGatePolicy` when a stored policy is malformed */
+export class GatePolicyError extends Error {
+  readonly path: string;
+
+  constructor(path: string, message: string) {
+    super(`${path}: ${message}`);
+    this.name = "GatePolicyError";
+    this.path = path;
+  }
+}
+
+// ━━━ VALIDATION ━━━
+
+const ELO_SOURCES: EloSource[] = ["base", "decayed", "effective", "aggregate", "conservative"];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function requireNumber(node: Record<string, unknown>, key: string, path: string, optional = false) {
+  const value = node[key];
+  if (value === undefined && optional) return;
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+    throw new GatePolicyError(`${path}.${key}`, "must be a non-negative number");
+  }
+}
+
+function requireStrings(node: Record<string, unknown>, key: string, path: string, optional = false) {
+  const value = node[key];
+  if (value === undefined && optional) return;
+  if (!Array.isArray(value) || value.some((v) => typeof v !== "string")) {
+    throw new GatePolicyError(`${path}.${key}`, "must be an array of strings");
+  }
+}
+
+function requireString(node: Record<string, unknown>, key: string, path: string) {
+  if (typeof node[key] !== "string" || (node[key] as string).length === 0) {
+    throw new GatePolicyError(`${path}.${key}`, "must be a non-empty string");
+  }
+}
+
+function validate(node: unknown, path: string): void {
+  if (!isObject(node)) {
+    throw new GatePolicyError(path, "must be an object");
+  }
+
+  if ("all" in node || "any" in node) {
+    const key = "all" in node ? "all" : "any";
+    const children = node[key];
+    if (!Array.isArray(children) || children.length === 0) {
+      throw new GatePolicyError(`${path}.${key}`, "must be a non-empty array");
+    }
+    children.forEach((child, i) => validate(child, `${path}.${key}[${i}]`));
+    return;
+  }
+  if ("not" in node) {
+    validate(node.not, `${path}.not`);
+    return;
+  }
+
+  switch (node.rule) {
+    case "elo":
+      requireNumber(node, "min", path);
+      if (node.source !== undefined && !ELO_SOURCES.includes(node.source as EloSource)) {
+        throw new GatePolicyError(`${path}.source`, `must be one of ${ELO_SOURCES.join(", ")}`);
+      }
+      return;
+    case "percentile":
+    case "attestations":
+      requireNumber(node, "min", path);
+      return;
+    case "domains":
+      requireStrings(node, "required", path);
+      return;
+    case "skillScore":
+    case "skillPercentile":
+      requireString(node, "domain", path);
+      requireNumber(node, "min", path);
+      return;
+    case "zkVerified":
+      requireNumber(node, "minThreshold", path, true);
+      return;
+    case "matchHistory":
+      requireNumber(node, "minMatches", path);
+      requireNumber(node, "minWinRateBps", path);
+      return;
+    case "issuer":
+      requireStrings(node, "allow", path, true);
+      requireStrings(node, "deny", path, true);
+      if (node.allow === undefined && node.deny === undefined) {
+        throw new GatePolicyError(path, "issuer rule needs allow and/or deny");
+      }
+      return;
+    default:
+      throw new GatePolicyError(path, `unknown rule "${String(node.rule)}"`);
+  }
+}
+
+/** Validate an untrusted value (e.g. parsed from storage) as a gate policy */
+export function parseGatePolicy(value: unknown): GatePolicy {
+  const policy = typeof value === "string" ? JSON.parse(value) : value;
+  validate(policy, "policy");
+  return policy as GatePolicy;
+}
+
+/** True if `value` is a policy tree rather than a legacy `SkillGateConfig` */
+export function isGatePolicy(value: object): value is GatePolicy {
+  return "rule" in value || "all" in value || "any" in value || "not" in value;
+}
+
+/** All leaf rules of a policy, in tree order */
+export function collectRules(policy: GatePolicy): GateRule[] {
+  if ("all" in policy) return policy.all.flatMap(collectRules);
+  if ("any" in policy) return policy.any.flatMap(collectRules);
+  if ("not" in policy) return collectRules(policy.not);
+  return [policy];
+}
+
+// ━━━ EVALUATION ━━━
+
+function describe(rule: GateRule): string {
+  switch (rule.rule) {
+    case "elo":
+      return `elo[${rule.source ?? "base"}] >= ${rule.min}`;
+    case "percentile":
+      return `percentile >= ${rule.min}`;
+    case "domains":
+      return `domains include ${rule.required.join(", ")}`;
+    case "skillScore":
+      return `skillScore[${rule.domain}] >= ${rule.min}`;
+    case "skillPercentile":
+      return `skillPercentile[${rule.domain}] >= ${rule.min}`;
+    case "zkVerified":
+      return rule.minThreshold ? `zkVerified threshold >= ${rule.minThreshold}` : "zkVerified";
+    case "matchHistory":
+      return `matchHistory >= ${rule.minMatches} matches @ ${rule.minWinRateBps} bps`;
+    case "attestations":
+      return `attestations >= ${rule.min}`;
+    case "issuer": {
+      const parts = [];
+      if (rule.allow) parts.push(`allow [${rule.allow.join(", ")}]`);
+      if (rule.deny) parts.push(`deny [${rule.deny.join(", ")}]`);
+      return `issuer ${parts.join(" ")}`;
+    }
+  }
+}
+
+function threshold(clause: string, actual: number, min: number, label: string): PolicyTrace {
+  const passed = actual >= min;
+  return passed
+    ? { clause, passed, actual }
+    : { clause, passed, actual, reason: `${label} ${actual} below minimum ${min}` };
+}
+
+async function evaluateRule(rule: GateRule, ctx: PolicyContext): Promise<PolicyTrace> {
+  const clause = describe(rule);
+  const noCredential = { clause, passed: false, reason: "No credential found" };
+
+  switch (rule.rule) {
+    case "elo": {
+      if (!(await ctx.credential())) return noCredential;
+      const source = rule.source ?? "base";
+      const elo = await ctx.elo(source);
+      if (elo === null) return { clause, passed: false, reason: `Could not read ${source} ELO` };
+      return threshold(clause, elo, rule.min, "ELO");
+    }
+    case "percentile": {
+      const cred = await ctx.credential();
+      if (!cred) return noCredential;
+      return threshold(clause, cred.percentile, rule.min, "Percentile");
+    }
+    case "domains": {
+      const cred = await ctx.credential();
+      if (!cred) return noCredential;
+      const missing = rule.required.filter((d) => !cred.domains.includes(d));
+      return missing.length === 0
+        ? { clause, passed: true, actual: cred.domains }
+        : { clause, passed: false, actual: cred.domains, reason: `Missing domains: ${missing.join(", ")}` };
+    }
+    case "skillScore":
+    case "skillPercentile": {
+      const cred = await ctx.credential();
+      if (!cred) return noCredential;
+      const i = cred.domains.indexOf(rule.domain);
+      if (i < 0) return { clause, passed: false, reason: `Missing domain: ${rule.domain}` };
+      return rule.rule === "skillScore"
+        ? threshold(clause, cred.skillScores[i], rule.min, `${rule.domain} score`)
+        : threshold(clause, cred.skillPercentiles[i], rule.min, `${rule.domain} percentile`);
+    }
+    case "zkVerified": {
+      const zk = await ctx.zkVerification();
+      if (!zk.verified) return { clause, passed: false, actual: false, reason: "No ZK threshold proof" };
+      if (rule.minThreshold) return threshold(clause, zk.threshold, rule.minThreshold, "ZK-verified threshold");
+      return { clause, passed: true, actual: zk.threshold };
+    }
+    case "matchHistory": {
+      const meets = await ctx.meetsMatchRequirements(rule.minMatches, rule.minWinRateBps);
+      return meets
+        ? { clause, passed: true, actual: true }
+        : { clause, passed: false, actual: false, reason: "Verified match history does not meet requirements" };
+    }
+    case "attestations": {
+      const summary = await ctx.attestations();
+      const held = Object.entries(summary).filter(([, v]) => v).map(([k]) => k);
+      const result = threshold(clause, held.length, rule.min, "Attestation count");
+      return result.passed ? result : { ...result, reason: `${result.reason} (held: ${held.join(", ") || "none"})` };
+    }
+    case "issuer": {
+      const cred = await ctx.credential();
+      if (!cred) return noCredential;
+      const issuer = cred.issuer.toLowerCase();
+      if (rule.deny?.some((a) => a.toLowerCase() === issuer)) {
+        return { clause, passed: false, actual: cred.issuer, reason: `Issuer ${cred.issuer} is denied` };
+      }
+      if (rule.allow && !rule.allow.some((a) => a.toLowerCase() === issuer)) {
+        return { clause, passed: false, actual: cred.issuer, reason: `Issuer ${cred.issuer} is not allowed` };
+      }
+      return { clause, passed: true, actual: cred.issuer };
+    }
+  }
+}
+
+/**
+ * Evaluate a policy against a context. Every clause is evaluated (no
+ * short-circuiting) so the returned trace is complete.
+ */
+export async function evaluatePolicy(policy: GatePolicy, ctx: PolicyContext): Promise<PolicyTrace> {
+  if ("all" in policy || "any" in policy) {
+    const isAll = "all" in policy;
+    const children = await Promise.all(
+      (isAll ? policy.all : policy.any).map((child) => evaluatePolicy(child, ctx))
+    );
+    const passed = isAll ? children.every((c) => c.passed) : children.some((c) => c.passed);
+    return { clause: isAll ? "ALL" : "ANY", passed, children };
+  }
+  if ("not" in policy) {
+    const child = await evaluatePolicy(policy.not, ctx);
+    return child.passed
+      ? { clause: "NOT", passed: false, reason: `Negated clause passed: ${child.clause}`, children: [child] }
+      : { clause: "NOT", passed: true, children: [child] };
+  }
+  return evaluateRule(policy, ctx);
+}
+
+/** First failing leaf reason in a trace, for a one-line summary */
+export function firstFailure(trace: PolicyTrace): string | undefined {
+  if (trace.passed) return undefined;
+  if (trace.children && trace.clause !== "NOT") {
+    for (const child of trace.children) {
+      const reason = firstFailure(child);
+      if (reason) return reason;
+    }
+  }
+  return trace.reason;
+}
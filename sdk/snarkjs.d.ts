@@ -0,0 +1,45 @@
+// Minimal type declarations for the parts of snarkjs the SDK and the
+// frontend's proving worker use. snarkjs ships without typings; these mirror
+// the 0.7.x groth16 API.
+declare module "snarkjs" {
+  export interface Groth16Proof {
+    pi_a: string[];
+    pi_b: string[][];
+    pi_c: string[];
+    protocol: string;
+    curve: string;
+  }
+
+  export type PublicSignals = string[];
+
+  export type MemFile = { type: "mem"; data?: Uint8Array };
+
+  export const groth16: {
+    fullProve(
+      input: Record<string, string | number | bigint>,
+      wasmFile: string | Uint8Array,
+      zkeyFile: string | Uint8Array,
+      logger?: unknown
+    ): Promise<{ proof: Groth16Proof; publicSignals: PublicSignals }>;
+    prove(
+      zkeyFile: string | Uint8Array,
+      witnessFile: string | Uint8Array | MemFile,
+      logger?: unknown
+    ): Promise<{ proof: Groth16Proof; publicSignals: PublicSignals }>;
+    verify(
+      verificationKey: object,
+      publicSignals: PublicSignals,
+      proof: Groth16Proof,
+      logger?: unknown
+    ): Promise<boolean>;
+    exportSolidityCallData(proof: Groth16Proof, publicSignals: PublicSignals): Promise<string>;
+  };
+
+  export const wtns: {
+    calculate(
+      input: Record<string, string | number | bigint>,
+      wasmFile: string | Uint8Array,
+      wtnsFile: string | MemFile
+    ): Promise<void>;
+  };
+}
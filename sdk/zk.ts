@@ -0,0 +1,290 @@
+import { ethers } from "ethers";
+import * as snarkjs from "snarkjs";
+import * as fs from "fs";
+import * as path from "path";
+
+// ━━━ TYPES ━━━
+
+/** Where to find a circuit's compiled artifacts. Paths or already-loaded bytes/JSON. */
+export interface CircuitArtifacts {
+  wasm: string | Uint8Array;
+  zkey: string | Uint8Array;
+  vkey: string | object;
+}
+
+/** Groth16 proof formatted for the on-chain `verifyProof(pA, pB, pC, pubSignals)` signature */
+export interface Groth16Calldata {
+  pA: [string, string];
+  pB: [[string, string], [string, string]];
+  pC: [string, string];
+  pubSignals: [string, string, string];
+}
+
+export interface ThresholdProofParams {
+  elo: number;
+  threshold: number;
+  /** Commitment salt. A random 128-bit salt is generated when omitted. */
+  salt?: bigint | number | string;
+  /** Override any of the default `circuits/build` artifacts */
+  artifacts?: Partial<CircuitArtifacts>;
+}
+
+export interface ThresholdProof {
+  calldata: Groth16Calldata;
+  proof: snarkjs.Groth16Proof;
+  publicSignals: string[];
+  threshold: number;
+  commitment: bigint;
+  salt: bigint;
+}
+
+export interface MatchHistoryProofParams {
+  totalMatches: number;
+  wins: number;
+  minMatches: number;
+  /** Minimum win rate in basis points (6000 = 60%) */
+  minWinRateBps: number;
+  /** Commitment salt (32-bit, enforced by the circuit). Random when omitted. */
+  salt?: bigint | number | string;
+  /** Override any of the default `circuits/build` artifacts */
+  artifacts?: Partial<CircuitArtifacts>;
+}
+
+export interface MatchHistoryProof {
+  calldata: Groth16Calldata;
+  proof: snarkjs.Groth16Proof;
+  publicSignals: string[];
+  minMatches: number;
+  minWinRateBps: number;
+  commitment: bigint;
+  /** Private inputs, needed again for `registerMatchCommitment` */
+  totalMatches: number;
+  wins: number;
+  salt: bigint;
+}
+
+export type ZKProofErrorCode =
+  | "INVALID_INPUT"
+  | "ELO_BELOW_THRESHOLD"
+  | "WINS_EXCEED_MATCHES"
+  | "BELOW_MIN_MATCHES"
+  | "BELOW_MIN_WIN_RATE"
+  | "ARTIFACT_NOT_FOUND"
+  | "LOCAL_VERIFICATION_FAILED";
+
+/** Thrown before or after proving when inputs, artifacts or the resulting proof are unusable */
+export class ZKProofError extends Error {
+  readonly code: ZKProofErrorCode;
+
+  constructor(code: ZKProofErrorCode, message: string) {
+    super(message);
+    this.name = "ZKProofError";
+    this.code = code;
+  }
+}
+
+// ━━━ CONSTANTS ━━━
+
+const BUILD_DIR = path.join(__dirname, "../circuits/build");
+
+const TWO_POW_16 = 65536n;
+const TWO_POW_32 = 4294967296n;
+const BPS = 10000;
+
+/** Default artifacts for `threshold_proof.circom` */
+export const THRESHOLD_ARTIFACTS: CircuitArtifacts = {
+  wasm: path.join(BUILD_DIR, "threshold_proof_js/threshold_proof.wasm"),
+  zkey: path.join(BUILD_DIR, "threshold_proof_final.zkey"),
+  vkey: path.join(BUILD_DIR, "verification_key.json"),
+};
+
+/** Default artifacts for `match_history_proof.circom` */
+export const MATCH_HISTORY_ARTIFACTS: CircuitArtifacts = {
+  wasm: path.join(BUILD_DIR, "match_history_proof_js/match_history_proof.wasm"),
+  zkey: path.join(BUILD_DIR, "match_history_final.zkey"),
+  vkey: path.join(BUILD_DIR, "match_history_vkey.json"),
+};
+
+// ━━━ HELPERS ━━━
+
+/** Generate a cryptographically secure random salt of `bits` bits */
+export function generateSalt(bits: number = 128): bigint {
+  return ethers.toBigInt(ethers.randomBytes(Math.ceil(bits / 8)));
+}
+
+/** Credential commitment used by the threshold circuit: elo + salt * 2^32 */
+export function computeThresholdCommitment(elo: number, salt: bigint): bigint {
+  return BigInt(elo) + salt * TWO_POW_32;
+}
+
+/** Match history commitment: totalMatches + wins * 2^16 + salt * 2^32 */
+export function computeMatchCommitment(totalMatches: number, wins: number, salt: bigint): bigint {
+  return BigInt(totalMatches) + BigInt(wins) * TWO_POW_16 + salt * TWO_POW_32;
+}
+
+function requireUint(name: string, value: number, maxExclusive: bigint) {
+  if (!Number.isInteger(value) || value < 0 || BigInt(value) >= maxExclusive) {
+    throw new ZKProofError("INVALID_INPUT", `${name} must be an integer in [0, ${maxExclusive})`);
+  }
+}
+
+function toSalt(salt: bigint | number | string, maxExclusive?: bigint): bigint {
+  let value: bigint;
+  try {
+    value = BigInt(salt);
+  } catch {
+    throw new ZKProofError("INVALID_INPUT", `Salt "${salt}" is not an integer`);
+  }
+  if (value < 0n) {
+    throw new ZKProofError("INVALID_INPUT", "Salt must be non-negative");
+  }
+  if (maxExclusive !== undefined && value >= maxExclusive) {
+    throw new ZKProofError("INVALID_INPUT", `Salt must be below ${maxExclusive}`);
+  }
+  return value;
+}
+
+function resolveArtifacts(defaults: CircuitArtifacts, overrides?: Partial<CircuitArtifacts>) {
+  const artifacts = { ...defaults, ...overrides };
+  for (const [label, value] of Object.entries(artifacts)) {
+    if (typeof value === "string" && !fs.existsSync(value)) {
+      throw new ZKProofError("ARTIFACT_NOT_FOUND", `${label} artifact not found at ${value}`);
+    }
+  }
+  const vkey =
+    typeof artifacts.vkey === "string"
+      ? JSON.parse(fs.readFileSync(artifacts.vkey, "utf8"))
+      : artifacts.vkey;
+  return { wasm: artifacts.wasm, zkey: artifacts.zkey, vkey };
+}
+
+/**
+ * Run witness generation + Groth16 proving, verify the proof locally against
+ * the verification key, and format it as Solidity calldata.
+ */
+export async function proveAndVerify(
+  input: Record<string, string>,
+  defaults: CircuitArtifacts,
+  overrides?: Partial<CircuitArtifacts>
+) {
+  const { wasm, zkey, vkey } = resolveArtifacts(defaults, overrides);
+
+  const { proof, publicSignals } = await snarkjs.groth16.fullProve(input, wasm, zkey);
+
+  const isValid = await snarkjs.groth16.verify(vkey, publicSignals, proof);
+  if (!isValid) {
+    throw new ZKProofError("LOCAL_VERIFICATION_FAILED", "Proof failed local verification");
+  }
+
+  const raw = await snarkjs.groth16.exportSolidityCallData(proof, publicSignals);
+  const [pA, pB, pC, pubSignals] = JSON.parse(`[${raw}]`);
+  const calldata: Groth16Calldata = { pA, pB, pC, pubSignals };
+
+  return { proof, publicSignals, calldata };
+}
+
+// ━━━ THRESHOLD PROOF ━━━
+
+/** Generate and locally verify a proof that `elo >= threshold` (see `threshold_proof.circom`) */
+export async function proveEloThreshold(params: ThresholdProofParams): Promise<ThresholdProof> {
+  const { elo, threshold } = params;
+  requireUint("elo", elo, TWO_POW_32);
+  requireUint("threshold", threshold, TWO_POW_32);
+  if (elo < threshold) {
+    throw new ZKProofError(
+      "ELO_BELOW_THRESHOLD",
+      `ELO ${elo} is below threshold ${threshold}; the circuit cannot prove it`
+    );
+  }
+
+  const salt = params.salt === undefined ? generateSalt() : toSalt(params.salt);
+  const commitment = computeThresholdCommitment(elo, salt);
+
+  const input = {
+    threshold: threshold.toString(),
+    credentialCommitment: commitment.toString(),
+    elo: elo.toString(),
+    salt: salt.toString(),
+  };
+
+  const { proof, publicSignals, calldata } = await proveAndVerify(
+    input,
+    THRESHOLD_ARTIFACTS,
+    params.artifacts
+  );
+
+  return { calldata, proof, publicSignals, threshold, commitment, salt };
+}
+
+// ━━━ MATCH HISTORY PROOF ━━━
+
+/**
+ * Check match history inputs against the circuit's constraints so that bad
+ * inputs fail fast with a typed error instead of inside witness generation.
+ */
+export function validateMatchHistoryInputs(
+  params: Pick<MatchHistoryProofParams, "totalMatches" | "wins" | "minMatches" | "minWinRateBps">
+) {
+  const { totalMatches, wins, minMatches, minWinRateBps } = params;
+  requireUint("totalMatches", totalMatches, TWO_POW_16);
+  requireUint("wins", wins, TWO_POW_16);
+  requireUint("minMatches", minMatches, TWO_POW_16);
+  requireUint("minWinRateBps", minWinRateBps, BigInt(BPS + 1));
+
+  if (wins > totalMatches) {
+    throw new ZKProofError(
+      "WINS_EXCEED_MATCHES",
+      `Wins (${wins}) cannot exceed totalMatches (${totalMatches})`
+    );
+  }
+  if (totalMatches < minMatches) {
+    throw new ZKProofError(
+      "BELOW_MIN_MATCHES",
+      `totalMatches (${totalMatches}) is below minMatches (${minMatches})`
+    );
+  }
+  // Same division-free comparison as the circuit: wins * 10000 >= minWinRateBps * totalMatches
+  if (wins * BPS < minWinRateBps * totalMatches) {
+    const actualBps = totalMatches === 0 ? 0 : Math.floor((wins * BPS) / totalMatches);
+    throw new ZKProofError(
+      "BELOW_MIN_WIN_RATE",
+      `Win rate ${actualBps} bps is below minWinRateBps ${minWinRateBps}`
+    );
+  }
+}
+
+/** Generate and locally verify a match history proof (see `match_history_proof.circom`) */
+export async function proveMatchHistory(params: MatchHistoryProofParams): Promise<MatchHistoryProof> {
+  validateMatchHistoryInputs(params);
+  const { totalMatches, wins, minMatches, minWinRateBps } = params;
+
+  const salt = params.salt === undefined ? generateSalt(32) : toSalt(params.salt, TWO_POW_32);
+  const commitment = computeMatchCommitment(totalMatches, wins, salt);
+
+  const input = {
+    minMatches: minMatches.toString(),
+    minWinRateBps: minWinRateBps.toString(),
+    commitment: commitment.toString(),
+    totalMatches: totalMatches.toString(),
+    wins: wins.toString(),
+    salt: salt.toString(),
+  };
+
+  const { proof, publicSignals, calldata } = await proveAndVerify(
+    input,
+    MATCH_HISTORY_ARTIFACTS,
+    params.artifacts
+  );
+
+  return {
+    calldata,
+    proof,
+    publicSignals,
+    minMatches,
+    minWinRateBps,
+    commitment,
+    totalMatches,
+    wins,
+    salt,
+  };
+}
@@ -0,0 +1,470 @@
+import { ethers } from "ethers";
+
+import deployments from "../lib/deployments.json";
+import RegistryABI from "../lib/abi.json";
+import EngineABI from "../lib/engine-abi.json";
+import DecayABI from "../lib/decay-abi.json";
+
+// ━━━ TYPES ━━━
+
+export interface CredentialSyncContracts {
+  engine: string;
+  registry: string;
+  /** When set, every credential update is followed by `refreshCredential` */
+  decay?: string;
+}
+
+// Deployed Coston2 contracts the worker syncs by default
+export const COSTON2_SYNC_CONTRACTS: CredentialSyncContracts = {
+  engine: deployments.coston2.SkillProofEngine,
+  registry: deployments.coston2.SkillProofRegistry,
+  decay: deployments.coston2.SkillProofDecay,
+};
+
+export interface CredentialSyncOptions {
+  /** Contracts to read from / write to (defaults to Coston2) */
+  contracts?: CredentialSyncContracts;
+  /** First block to scan for Engine events (default 0) */
+  startBlock?: number;
+  /** Blocks to stay behind the head (default 0) */
+  confirmations?: number;
+  /** Minimum Engine matches before a credential is minted (default 1) */
+  minMatches?: number;
+  /** Domains to consider when minting, in addition to those seen in recorded matches */
+  domains?: string[];
+  /** Name written into newly minted credentials (default: shortened address) */
+  playerName?: (player: string) => string | Promise<string>;
+  /** Compute the plan but send no transactions (default false) */
+  dryRun?: boolean;
+  /** Credentials written per batch before waiting for receipts (default 10) */
+  batchSize?: number;
+  /** Attempts per credential after the first failure (default 3) */
+  retries?: number;
+  /** Delay before each retry in ms, doubled per attempt (default 1000) */
+  retryDelay?: number;
+  /** Polling interval for `start()` in ms (default 4000) */
+  pollInterval?: number;
+  /** Called after every `sync()` made by `start()` */
+  onSync?: (result: CredentialSyncResult) => void;
+  /** Called when a polling `sync()` throws; polling continues */
+  onError?: (error: Error) => void;
+}
+
+/** Credential fields the worker derives from Engine state */
+export interface DerivedCredential {
+  overallElo: number;
+  percentile: number;
+  skillDomains: string[];
+  skillScores: number[];
+  skillPercentiles: number[];
+  totalMatches: number;
+  /** Basis points, as `SkillProofEngine.getWinRate` */
+  winRate: number;
+}
+
+export interface CredentialSyncAction {
+  kind: "mint" | "update";
+  player: string;
+  credential: DerivedCredential;
+  /** Name for `mintCredential`; empty for updates */
+  playerName: string;
+}
+
+export interface CredentialSyncResult {
+  /** Block range scanned for Engine events; null when already up to date */
+  fromBlock: number | null;
+  toBlock: number | null;
+  /** `MatchRecorded` + `TeamMatchRecorded` + `EloUpdated` events in the range */
+  events: number;
+  /** Credentials out of step with the Engine (all of them in dry-run mode) */
+  actions: CredentialSyncAction[];
+  /** Actions whose transactions were mined */
+  applied: CredentialSyncAction[];
+  /** Players that cannot be synced by this issuer */
+  skipped: { player: string; reason: string }[];
+  /** Actions that still failed after all retries */
+  failed: { action: CredentialSyncAction; error: string }[];
+  dryRun: boolean;
+}
+
+// ━━━ PERCENTILES ━━━
+
+/**
+ * Percentile (0–100) of `value` within `population`: the share of entries
+ * strictly below it, rounded down. The population includes `value` itself.
+ */
+export function percentileOf(value: number, population: number[]): number {
+  if (population.length === 0) return 0;
+  const below = population.filter((v) => v < value).length;
+  return Math.floor((below * 100) / population.length);
+}
+
+// ━━━ WORKER ━━━
+
+interface EnginePlayer {
+  address: string;
+  elo: number;
+  totalMatches: number;
+  winRate: number;
+  domainElo: Map<string, number>;
+}
+
+/**
+ * Keeps Registry credentials in step with SkillProofEngine ratings.
+ *
+ * `sync()` scans new `MatchRecorded` / `TeamMatchRecorded` / `EloUpdated`
+ * events; when there are any (and always on the first run) it recomputes
+ * percentiles across the whole `playerList`, diffs the result against each
+ * player's credential and mints or updates the ones that differ, as the
+ * issuer `signer`. Because
+ * every write is derived from a fresh diff, re-running after a crash or a
+ * failed batch only sends what is still missing.
+ */
+export class SkillProofCredentialSync {
+  private signer: ethers.Signer;
+  private nonces: ethers.NonceManager;
+  private engine: ethers.Contract;
+  private registry: ethers.Contract;
+  private decay: ethers.Contract | null;
+  private options: Required<Omit<CredentialSyncOptions, "onSync" | "onError" | "contracts" | "playerName">> &
+    Pick<CredentialSyncOptions, "onSync" | "onError" | "playerName">;
+  private domains: Set<string>;
+  private lastBlock: number | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running: Promise<void> | null = null;
+  private stopped = true;
+
+  constructor(signer: ethers.Signer, options: CredentialSyncOptions = {}) {
+    if (!signer.provider) throw new Error("Signer must be connected to a provider");
+    this.signer = signer;
+    this.nonces = new ethers.NonceManager(signer);
+    this.options = {
+      startBlock: options.startBlock ?? 0,
+      confirmations: options.confirmations ?? 0,
+      minMatches: options.minMatches ?? 1,
+      domains: options.domains ?? [],
+      dryRun: options.dryRun ?? false,
+      batchSize: options.batchSize ?? 10,
+      retries: options.retries ?? 3,
+      retryDelay: options.retryDelay ?? 1000,
+      pollInterval: options.pollInterval ?? 4000,
+      playerName: options.playerName,
+      onSync: options.onSync,
+      onError: options.onError,
+    };
+    this.domains = new Set(this.options.domains);
+
+    const contracts = options.contracts ?? COSTON2_SYNC_CONTRACTS;
+    this.engine = new ethers.Contract(contracts.engine, EngineABI, signer.provider);
+    this.registry = new ethers.Contract(contracts.registry, RegistryABI, this.nonces);
+    this.decay = contracts.decay ? new ethers.Contract(contracts.decay, DecayABI, this.nonces) : null;
+  }
+
+  // ━━━ SYNC ━━━
+
+  /** Scan Engine events up to `toBlock` (default: confirmed head) and sync affected credentials */
+  async sync(toBlock?: number): Promise<CredentialSyncResult> {
+    const provider = this.signer.provider!;
+    const head = await provider.getBlockNumber();
+    const target = Math.min(toBlock ?? Infinity, head - this.options.confirmations);
+    const firstRun = this.lastBlock === null;
+    const from = firstRun ? this.options.startBlock : this.lastBlock! + 1;
+    const result: CredentialSyncResult = {
+      fromBlock: null,
+      toBlock: null,
+      events: 0,
+      actions: [],
+      applied: [],
+      skipped: [],
+      failed: [],
+      dryRun: this.options.dryRun,
+    };
+    if (from > target) return result;
+
+    const matches = [
+      ...(await this.engine.queryFilter(this.engine.filters.MatchRecorded(), from, target)),
+      ...(await this.engine.queryFilter(this.engine.filters.TeamMatchRecorded(), from, target)),
+    ];
+    const updates = await this.engine.queryFilter(this.engine.filters.EloUpdated(), from, target);
+    for (const log of matches) {
+      const m = await this.engine.getMatch((log as ethers.EventLog).args.matchId);
+      if (m.domain) this.domains.add(m.domain);
+    }
+    result.fromBlock = from;
+    result.toBlock = target;
+    result.events = matches.length + updates.length;
+
+    if (firstRun || result.events > 0) {
+      const { actions, skipped } = await this.plan();
+      result.actions = actions;
+      result.skipped = skipped;
+      if (!this.options.dryRun) {
+        const { applied, failed } = await this.apply(actions);
+        result.applied = applied;
+        result.failed = failed;
+      }
+    }
+
+    // Failed writes are retried on the next run by re-planning from scratch
+    if (result.failed.length === 0 && !this.options.dryRun) this.lastBlock = target;
+    return result;
+  }
+
+  /**
+   * Diff every Engine player against their Registry credential. Players
+   * holding a credential from another issuer, or a revoked one, are skipped:
+   * the Registry only lets the original issuer update a valid credential.
+   */
+  async plan(): Promise<{ actions: CredentialSyncAction[]; skipped: { player: string; reason: string }[] }> {
+    const issuer = await this.signer.getAddress();
+    const [, isActive] = await this.registry.issuers(issuer);
+    if (!isActive) throw new Error(`${issuer} is not an active issuer`);
+
+    const players = await this.readPlayers();
+    const elos = players.map((p) => p.elo);
+    const domainPopulations = new Map<string, number[]>();
+    for (const domain of this.domains) {
+      domainPopulations.set(
+        domain,
+        players.map((p) => p.domainElo.get(domain) ?? 0).filter((elo) => elo > 0)
+      );
+    }
+
+    const actions: CredentialSyncAction[] = [];
+    const skipped: { player: string; reason: string }[] = [];
+    for (const p of players) {
+      if (p.totalMatches < this.options.minMatches) continue;
+      const percentile = percentileOf(p.elo, elos);
+      const domainScore = (domain: string) => p.domainElo.get(domain) ?? 0;
+      const domainPercentile = (domain: string) => percentileOf(domainScore(domain), domainPopulations.get(domain) ?? []);
+
+      if (!(await this.registry.hasCredential(p.address))) {
+        const skillDomains = [...this.domains].filter((d) => domainScore(d) > 0).sort();
+        actions.push({
+          kind: "mint",
+          player: p.address,
+          playerName: this.options.playerName
+            ? await this.options.playerName(p.address)
+            : `${p.address.slice(0, 6)}...${p.address.slice(-4)}`,
+          credential: {
+            overallElo: p.elo,
+            percentile,
+            skillDomains,
+            skillScores: skillDomains.map(domainScore),
+            skillPercentiles: skillDomains.map(domainPercentile),
+            totalMatches: p.totalMatches,
+            winRate: p.winRate,
+          },
+        });
+        continue;
+      }
+
+      const cred = await this.registry.getCredential(p.address);
+      if (cred.issuer !== issuer) {
+        skipped.push({ player: p.address, reason: `Issued by ${cred.issuer}` });
+        continue;
+      }
+      if (!cred.isValid) {
+        skipped.push({ player: p.address, reason: "Credential revoked" });
+        continue;
+      }
+
+      // Credential domains are fixed at mint; domains outside the known set
+      // or without an Engine rating keep their current score and percentile
+      const skillDomains: string[] = [...cred.skillDomains];
+      const derived: DerivedCredential = {
+        overallElo: p.elo,
+        percentile,
+        skillDomains,
+        skillScores: skillDomains.map((d, i) =>
+          domainScore(d) > 0 ? domainScore(d) : Number(cred.skillScores[i])
+        ),
+        skillPercentiles: skillDomains.map((d, i) =>
+          domainScore(d) > 0 && domainPopulations.has(d) ? domainPercentile(d) : Number(cred.skillPercentiles[i])
+        ),
+        totalMatches: p.totalMatches,
+        winRate: p.winRate,
+      };
+      if (!matchesCredential(derived, cred)) {
+        actions.push({ kind: "update", player: p.address, playerName: "", credential: derived });
+      }
+    }
+    return { actions, skipped };
+  }
+
+  /**
+   * Send `actions` in batches of `batchSize`, waiting for each batch's
+   * receipts. A failed action is re-planned before every retry, so one whose
+   * transaction landed despite an error is not written twice.
+   */
+  async apply(
+    actions: CredentialSyncAction[]
+  ): Promise<{ applied: CredentialSyncAction[]; failed: { action: CredentialSyncAction; error: string }[] }> {
+    const applied: CredentialSyncAction[] = [];
+    let pending: { action: CredentialSyncAction; error: string }[] = [];
+
+    for (let i = 0; i < actions.length; i += this.options.batchSize) {
+      const batch = await this.sendBatch(actions.slice(i, i + this.options.batchSize));
+      applied.push(...batch.applied);
+      pending.push(...batch.failed);
+    }
+
+    for (let attempt = 0; attempt < this.options.retries && pending.length > 0; attempt++) {
+      await sleep(this.options.retryDelay * 2 ** attempt);
+      const { actions: fresh } = await this.plan();
+      const retry = fresh.filter((a) => pending.some((p) => p.action.player === a.player));
+      const settled = pending.filter((p) => !retry.some((a) => a.player === p.action.player));
+      applied.push(...settled.map((p) => p.action));
+
+      const batch = await this.sendBatch(retry);
+      applied.push(...batch.applied);
+      pending = batch.failed;
+    }
+    return { applied, failed: pending };
+  }
+
+  // ━━━ FOLLOW ━━━
+
+  /** Poll `sync()` every `pollInterval` ms until `stop()` */
+  start(): void {
+    if (!this.stopped) return;
+    this.stopped = false;
+    const tick = () => {
+      this.running = this.sync()
+        .then((result) => this.options.onSync?.(result))
+        .catch((e) => this.options.onError?.(e as Error))
+        .finally(() => {
+          this.running = null;
+          if (!this.stopped) this.timer = setTimeout(tick, this.options.pollInterval);
+        });
+    };
+    tick();
+  }
+
+  /** Stop polling; resolves once any in-flight sync has finished */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    await this.running;
+  }
+
+  // ━━━ INTERNAL ━━━
+
+  private async readPlayers(): Promise<EnginePlayer[]> {
+    const count = Number(await this.engine.getPlayerCount());
+    const players: EnginePlayer[] = [];
+    for (let i = 0; i < count; i++) {
+      const address: string = await this.engine.playerList(i);
+      const p = await this.engine.getPlayer(address);
+      const domainElo = new Map<string, number>();
+      for (const domain of this.domains) {
+        const elo = Number(await this.engine.domainElo(address, domain));
+        if (elo > 0) domainElo.set(domain, elo);
+      }
+      players.push({
+        address,
+        elo: Number(p.elo),
+        totalMatches: Number(p.matchCount),
+        winRate: Number(await this.engine.getWinRate(address)),
+        domainElo,
+      });
+    }
+    return players;
+  }
+
+  /**
+   * Send every transaction of the batch back to back, then wait for all
+   * receipts. A send that fails (e.g. gas estimation revert) resets the
+   * nonce manager so later sends in the batch do not leave a gap.
+   */
+  private async sendBatch(
+    actions: CredentialSyncAction[]
+  ): Promise<{ applied: CredentialSyncAction[]; failed: { action: CredentialSyncAction; error: string }[] }> {
+    const sent: { action: CredentialSyncAction; txs: ethers.ContractTransactionResponse[] }[] = [];
+    const failed: { action: CredentialSyncAction; error: string }[] = [];
+
+    // Mints carry the Registry's fee for this issuer (0 without a treasury)
+    const mintFee = actions.some((a) => a.kind === "mint")
+      ? await this.registry.mintFee(await this.signer.getAddress()).catch(() => 0n)
+      : 0n;
+
+    // The signer may have sent transactions of its own since the last batch
+    this.nonces.reset();
+    for (const action of actions) {
+      try {
+        sent.push({ action, txs: await this.send(action, mintFee) });
+      } catch (e) {
+        this.nonces.reset();
+        failed.push({ action, error: (e as Error).message });
+      }
+    }
+
+    const applied: CredentialSyncAction[] = [];
+    for (const { action, txs } of sent) {
+      try {
+        for (const tx of txs) {
+          const receipt = await tx.wait();
+          if (!receipt || receipt.status !== 1) throw new Error(`Transaction ${tx.hash} reverted`);
+        }
+        applied.push(action);
+      } catch (e) {
+        failed.push({ action, error: (e as Error).message });
+      }
+    }
+    return { applied, failed };
+  }
+
+  private async send(action: CredentialSyncAction, mintFee: bigint): Promise<ethers.ContractTransactionResponse[]> {
+    const c = action.credential;
+    if (action.kind === "mint") {
+      return [
+        await this.registry.mintCredential(
+          action.player,
+          action.playerName,
+          c.overallElo,
+          c.percentile,
+          c.skillDomains,
+          c.skillScores,
+          c.skillPercentiles,
+          c.totalMatches,
+          c.winRate,
+          { value: mintFee }
+        ),
+      ];
+    }
+
+    const txs: ethers.ContractTransactionResponse[] = [
+      await this.registry.updateCredential(
+        action.player,
+        c.overallElo,
+        c.percentile,
+        c.skillScores,
+        c.skillPercentiles,
+        c.totalMatches,
+        c.winRate
+      ),
+    ];
+    // Minting already starts the decay clock at issuedAt; updates reset it
+    if (this.decay) txs.push(await this.decay.refreshCredential(action.player));
+    return txs;
+  }
+}
+
+// ━━━ HELPERS ━━━
+
+function matchesCredential(derived: DerivedCredential, cred: ethers.Result): boolean {
+  const same = (a: number[], b: bigint[]) => a.length === b.length && a.every((v, i) => BigInt(v) === b[i]);
+  return (
+    BigInt(derived.overallElo) === cred.overallElo &&
+    BigInt(derived.percentile) === cred.percentile &&
+    BigInt(derived.totalMatches) === cred.totalMatches &&
+    BigInt(derived.winRate) === cred.winRate &&
+    same(derived.skillScores, [...cred.skillScores]) &&
+    same(derived.skillPercentiles, [...cred.skillPercentiles])
+  );
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,371 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { once } from "events";
+import { AddressInfo } from "net";
+import * as http from "http";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { SkillProofIndexer, IndexerStore } from "../indexer";
+import { SkillProofReadModel, SkillProofApiClient, createApiServer } from "../api";
+
+describe("SkillProofApi", function () {
+  const DAY = 86400;
+  const FLR_USD = "0x01464c522f55534400000000000000000000000000";
+
+  async function deployApiFixture() {
+    const [owner, alice, bob, carol, dave, arena] = await ethers.getSigners();
+    const startBlock = (await ethers.provider.getBlockNumber()) + 1;
+
+    const registry = await (await ethers.getContractFactory("SkillProofRegistry")).deploy();
+    const engine = await (await ethers.getContractFactory("SkillProofEngine")).deploy();
+    const hub = await (await ethers.getContractFactory("SkillProofHub")).deploy(
+      await registry.getAddress(),
+      ethers.ZeroAddress,
+      1500
+    );
+    const decay = await (await ethers.getContractFactory("SkillProofDecay")).deploy(
+      await registry.getAddress(),
+      100,
+      5000
+    );
+    const aggregator = await (await ethers.getContractFactory("SkillProofAggregator")).deploy(
+      await registry.getAddress()
+    );
+
+    // Credentials from two issuers; Dave's is revoked
+    await registry.registerIssuer(owner.address, "FinCraft");
+    await registry.registerIssuer(arena.address, "ChessArena");
+    const mint = (issuer: HardhatEthersSigner, player: string, name: string, elo: number, percentile: number) =>
+      registry.connect(issuer).mintCredential(player, name, elo, percentile, ["chess"], [elo], [percentile], 50, 60);
+    await mint(owner, alice.address, "Alice", 1847, 92);
+    await mint(owner, bob.address, "Bob", 1623, 80);
+    await mint(arena, carol.address, "Carol", 1700, 85);
+    await mint(arena, dave.address, "Dave", 1500, 70);
+    await registry.connect(arena).revokeCredential(dave.address);
+
+    // Carol's ChessArena credential is linked under Alice
+    await aggregator.linkAddress(alice.address, carol.address);
+
+    // Matches in two domains
+    await engine.registerPlayerByAddress(alice.address, 1200, ["chess"]);
+    await engine.registerPlayerByAddress(bob.address, 1200, ["chess"]);
+    await engine.registerPlayerByAddress(carol.address, 1200, ["go"]);
+    await engine.recordMatch(alice.address, bob.address, 1, "chess");
+    await engine.recordMatch(bob.address, carol.address, 3, "go");
+    await engine.recordMatch(alice.address, carol.address, 2, "chess");
+
+    // Hub: proposal 0 closes, proposal 1 stays open; market 0 open; bounty 0 awarded to Alice, bounty 1 open
+    const now = await time.latest();
+    await hub.connect(alice).createProposal("Raise vault threshold", now + 1000);
+    await hub.connect(bob).createProposal("Add Go domain", now + 90 * DAY);
+    await hub.connect(alice).vote(1, true);
+    await hub.connect(bob).vote(1, false);
+    await hub.connect(alice).createMarket("FLR above $0.05?", FLR_USD, 5000000n, now + 1000, now + 2000);
+    await hub.postBounty("Solve it", now + 100, now + 200, { value: ethers.parseEther("1") });
+    await hub.postBounty("Open problem", now + 90 * DAY, now + 91 * DAY, { value: ethers.parseEther("0.5") });
+    const salt = ethers.id("salt");
+    await hub.connect(alice).commitSolution(0, ethers.solidityPackedKeccak256(["string", "bytes32"], ["answer", salt]));
+    await time.increaseTo(now + 101);
+    await hub.connect(alice).revealSolution(0, "answer", salt);
+    await hub.awardBounty(0, alice.address);
+
+    // 30 days later only Bob's credential is refreshed
+    await time.increase(30 * DAY);
+    await decay.refreshCredential(bob.address);
+
+    const contracts = {
+      registry: await registry.getAddress(),
+      engine: await engine.getAddress(),
+      hub: await hub.getAddress(),
+      decay: await decay.getAddress(),
+      aggregator: await aggregator.getAddress(),
+    };
+
+    return { registry, engine, hub, decay, aggregator, contracts, startBlock, owner, alice, bob, carol, dave, arena };
+  }
+
+  let server: http.Server | null = null;
+
+  afterEach(function () {
+    server?.close();
+    server = null;
+  });
+
+  async function serve(f: Awaited<ReturnType<typeof deployApiFixture>>) {
+    const store = new IndexerStore();
+    await new SkillProofIndexer(ethers.provider, store, { contracts: f.contracts, startBlock: f.startBlock }).sync();
+    server = createApiServer(new SkillProofReadModel(store));
+    server.listen(0);
+    await once(server, "listening");
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    return { url, client: new SkillProofApiClient(url) };
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // Credentials & Matches
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  describe("Credentials", function () {
+    it("Should serve the latest credential by address and filter by issuer", async function () {
+      const f = await loadFixture(deployApiFixture);
+      const { registry, owner, alice, carol, dave, arena } = f;
+      await registry.updateCredential(alice.address, 1900, 95, [1900], [95], 60, 62);
+      const { client } = await serve(f);
+
+      const cred = (await client.getCredential(alice.address.toLowerCase()))!;
+      expect(cred).to.include({
+        address: alice.address,
+        playerName: "Alice",
+        overallElo: 1900,
+        percentile: 95,
+        winRate: 62,
+        issuer: owner.address,
+        issuerName: "FinCraft",
+        isValid: true,
+      });
+      expect(cred.skillDomains).to.deep.equal(["chess"]);
+      expect(cred.issuedAt).to.equal(Number((await registry.getCredential(alice.address)).issuedAt));
+      expect(await client.getCredential(ethers.Wallet.createRandom().address)).to.be.null;
+
+      const arenaCreds = await client.listCredentials({ issuer: arena.address });
+      expect(arenaCreds.total).to.equal(2);
+      expect(arenaCreds.items.map((c) => c.address)).to.deep.equal([carol.address, dave.address]);
+
+      const revoked = await client.listCredentials({ valid: false });
+      expect(revoked.items.map((c) => [c.address, c.isValid])).to.deep.equal([[dave.address, false]]);
+
+      const paged = await client.listCredentials({ limit: 2, offset: 1 });
+      expect(paged).to.include({ total: 4, limit: 2, offset: 1 });
+      expect(paged.items.map((c) => c.playerName)).to.deep.equal(["Carol", "Bob"]);
+    });
+  });
+
+  describe("Matches", function () {
+    it("Should serve match history matching SkillProofEngine.getMatch", async function () {
+      const f = await loadFixture(deployApiFixture);
+      const { engine, alice, carol } = f;
+      const { client } = await serve(f);
+
+      const all = await client.listMatches();
+      expect(all.total).to.equal(3);
+      expect(all.items.map((m) => m.matchId)).to.deep.equal([2, 1, 0]);
+
+      for (const id of [0, 1, 2]) {
+        const onChain = await engine.getMatch(id);
+        const m = (await client.getMatch(id))!;
+        expect(m).to.include({
+          player1: onChain.player1,
+          player2: onChain.player2,
+          outcome: Number(onChain.outcome),
+          player1EloBefore: Number(onChain.player1EloBefore),
+          player2EloBefore: Number(onChain.player2EloBefore),
+          player1Change: Number(onChain.player1EloChange),
+          player2Change: Number(onChain.player2EloChange),
+          domain: onChain.domain,
+          timestamp: Number(onChain.timestamp),
+        });
+      }
+      expect(await client.getMatch(3)).to.be.null;
+
+      const alices = await client.listMatches({ player: alice.address });
+      expect(alices.items.map((m) => m.matchId)).to.deep.equal([2, 0]);
+      const carolChess = await client.listMatches({ player: carol.address, domain: "chess" });
+      expect(carolChess.items.map((m) => m.matchId)).to.deep.equal([2]);
+    });
+
+    it("Should serve team and free-for-all matches with their participants", async function () {
+      const f = await loadFixture(deployApiFixture);
+      const { engine, alice, bob, carol } = f;
+      await engine.recordTeamMatch([[alice.address, carol.address], [bob.address]], [1, 2], "chess");
+      await engine.recordFreeForAll([bob.address, carol.address], [1, 1], "go");
+      const { client } = await serve(f);
+
+      const team = (await client.getMatch(3))!;
+      const onChain = await engine.getMatch(3);
+      expect(team).to.include({ player1: ethers.ZeroAddress, player2: ethers.ZeroAddress, outcome: 0, domain: "chess" });
+      expect(team.participants).to.deep.equal(
+        onChain.participants.map((player, i) => ({
+          player,
+          team: Number(onChain.teams[i]),
+          placement: Number(onChain.placements[i]),
+          eloBefore: Number(onChain.elosBefore[i]),
+          eloChange: Number(onChain.eloChanges[i]),
+        }))
+      );
+      expect((await client.getMatch(4))!.participants.map((p) => p.placement)).to.deep.equal([1, 1]);
+
+      // 1v1 matches list both sides as participants
+      const first = (await client.getMatch(0))!;
+      expect(first.participants.map((p) => [p.player, p.team, p.placement])).to.deep.equal([
+        [alice.address, 0, 1],
+        [bob.address, 1, 2],
+      ]);
+
+      expect((await client.listMatches({ player: carol.address })).items.map((m) => m.matchId)).to.deep.equal([4, 3, 2, 1]);
+      expect((await client.listMatches({ player: alice.address, domain: "chess" })).items.map((m) => m.matchId)).to.deep.equal([3, 2, 0]);
+      expect((await client.getStatus()).counts.matches).to.equal(5);
+    });
+
+    it("Should serve disputed matches as resolved", async function () {
+      const f = await loadFixture(deployApiFixture);
+      const { engine, alice, bob, carol } = f;
+      await engine.recordTeamMatch([[alice.address, carol.address], [bob.address]], [1, 2], "chess");
+      // The fixture's matches are 30 days old
+      await engine.setDisputeConfig(ethers.ZeroAddress, 60 * DAY);
+      await engine.connect(bob).disputeMatch(0);
+      await engine.resolveDispute(0, 4, [1, 1]);
+      await engine.connect(carol).disputeMatch(3);
+      await engine.resolveDispute(3, 3, []);
+      const { client } = await serve(f);
+
+      const corrected = (await client.getMatch(0))!;
+      const onChain = await engine.getMatch(0);
+      expect(corrected).to.include({
+        outcome: 3,
+        player1Change: Number(onChain.player1EloChange),
+        player2Change: Number(onChain.player2EloChange),
+        resolution: "corrected",
+      });
+      expect(corrected.participants.map((p) => [p.placement, p.eloChange])).to.deep.equal([
+        [1, Number(onChain.player1EloChange)],
+        [1, Number(onChain.player2EloChange)],
+      ]);
+
+      const voided = (await client.getMatch(3))!;
+      expect(voided.resolution).to.equal("voided");
+      expect(voided.participants.map((p) => [p.placement, p.eloChange])).to.deep.equal([
+        [1, 0],
+        [1, 0],
+        [2, 0],
+      ]);
+      expect((await client.getMatch(1))!.resolution).to.be.null;
+    });
+  });
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // Hub: Markets / Bounties / Proposals
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  describe("Hub", function () {
+    it("Should list markets, bounties and proposals with status filters", async function () {
+      const f = await loadFixture(deployApiFixture);
+      const { hub, owner, alice, bob } = f;
+      const { client } = await serve(f);
+
+      const market = (await client.getMarket(0))!;
+      expect(market).to.include({
+        question: "FLR above $0.05?",
+        feedId: FLR_USD,
+        targetPrice: "5000000",
+        resolved: false,
+        actualPrice: "0",
+        creator: alice.address,
+      });
+      expect((await client.listMarkets({ status: "open" })).total).to.equal(1);
+      expect((await client.listMarkets({ status: "resolved" })).total).to.equal(0);
+
+      const awarded = await client.listBounties({ status: "awarded" });
+      expect(awarded.items.map((b) => [b.id, b.winner])).to.deep.equal([[0, alice.address]]);
+      const open = await client.listBounties({ status: "open", poster: owner.address });
+      expect(open.items).to.have.length(1);
+      expect(open.items[0]).to.include({ id: 1, reward: ethers.parseEther("0.5").toString(), winner: null });
+      expect((await client.listBounties({ winner: bob.address })).total).to.equal(0);
+
+      const onChain = await hub.getProposal(1);
+      const proposal = (await client.getProposal(1))!;
+      expect(proposal).to.include({
+        proposer: bob.address,
+        deadline: Number(onChain.deadline),
+        yesWeight: Number(onChain.yesWeight),
+        noWeight: Number(onChain.noWeight),
+        voteCount: 2,
+      });
+      expect((await client.listProposals({ status: "active" })).items.map((p) => p.id)).to.deep.equal([1]);
+      expect((await client.listProposals({ status: "closed" })).items.map((p) => p.id)).to.deep.equal([0]);
+      expect((await client.listProposals({ proposer: alice.address })).total).to.equal(1);
+
+      const status = await client.getStatus();
+      expect(status.counts).to.deep.equal({ credentials: 4, matches: 3, markets: 1, bounties: 2, proposals: 2 });
+      expect(status.lastBlock).to.equal(await ethers.provider.getBlockNumber());
+    });
+  });
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // Leaderboard
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  describe("Leaderboard", function () {
+    it("Should rank by effective, decayed and aggregate ELO as the contracts compute them", async function () {
+      const f = await loadFixture(deployApiFixture);
+      const { hub, decay, aggregator, alice, bob, carol, arena } = f;
+      const { client } = await serve(f);
+
+      const effective = await client.getLeaderboard();
+      expect(effective.total).to.equal(3);
+      expect(effective.items.map((e) => [e.rank, e.address])).to.deep.equal([
+        [1, alice.address],
+        [2, carol.address],
+        [3, bob.address],
+      ]);
+      for (const e of effective.items) {
+        expect(e.effectiveElo).to.equal(Number(await hub.getEffectiveElo(e.address)));
+        expect(e.decayedElo).to.equal(Number(await decay.getDecayedElo(e.address)));
+      }
+      expect(effective.items[0]).to.include({ reputationBonus: 15, issuerName: "FinCraft" });
+
+      const decayed = await client.getLeaderboard({ sort: "decayed" });
+      expect(decayed.items.map((e) => e.address)).to.deep.equal([bob.address, alice.address, carol.address]);
+      expect(decayed.items[0].decayedElo).to.equal(1623);
+
+      // Carol is folded into Alice's aggregate entry
+      const aggregate = await client.getLeaderboard({ sort: "aggregate" });
+      expect(aggregate.items.map((e) => e.address)).to.deep.equal([alice.address, bob.address]);
+      for (const e of aggregate.items) {
+        expect(e.aggregateElo).to.equal(Number((await aggregator.getAggregateScore(e.address)).overallScore));
+      }
+
+      const arenaOnly = await client.getLeaderboard({ sort: "elo", issuer: arena.address });
+      expect(arenaOnly.items.map((e) => e.address)).to.deep.equal([carol.address]);
+
+      const second = await client.getLeaderboard({ limit: 1, offset: 1 });
+      expect(second.items.map((e) => [e.rank, e.address])).to.deep.equal([[2, carol.address]]);
+    });
+
+    it("Should apply decay parameter updates from the chain", async function () {
+      const f = await loadFixture(deployApiFixture);
+      const { decay, alice } = f;
+      await decay.updateDecayParameters(200, 2000);
+      const { client } = await serve(f);
+
+      const entry = (await client.getLeaderboard({ sort: "decayed" })).items.find((e) => e.address === alice.address)!;
+      expect(entry.decayedElo).to.equal(Number(await decay.getDecayedElo(alice.address)));
+    });
+  });
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // Errors
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  describe("Errors", function () {
+    it("Should reject bad input, unknown routes and non-GET methods", async function () {
+      const f = await loadFixture(deployApiFixture);
+      const { url, client } = await serve(f);
+
+      const badAddress = await client.getCredential("0x1234").catch((e) => e);
+      expect(badAddress.message).to.include("400").and.include("Invalid address");
+      const badSort = await fetch(`${url}/leaderboard?sort=wins`);
+      expect(badSort.status).to.equal(400);
+      expect((await badSort.json()).error).to.include("sort must be one of");
+      const badLimit = await client.listMatches({ limit: 500 }).catch((e) => e);
+      expect(badLimit.message).to.include("limit must be an integer between 1 and 200");
+
+      const missing = await fetch(`${url}/nope`);
+      expect(missing.status).to.equal(404);
+      expect((await missing.json()).error).to.equal("No route for /nope");
+
+      const post = await fetch(`${url}/status`, { method: "POST" });
+      expect(post.status).to.equal(405);
+      expect(post.headers.get("access-control-allow-origin")).to.equal("*");
+    });
+  });
+});
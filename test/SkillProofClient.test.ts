@@ -0,0 +1,815 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import {
+  SkillProofClient,
+  GatePolicyError,
+  STAKE_LOCK_PERIOD,
+  conservativeRating,
+  generateCommitSalt,
+  parseGatePolicy,
+  seasonReset,
+} from "../sdk";
+
+describe("SkillProofClient (SDK)", function () {
+  const VAULT_ELO_THRESHOLD = 1500;
+  const MINIMUM_STAKE = ethers.parseEther("0.1");
+  const DISPUTE_BOND = ethers.parseEther("0.01");
+
+  async function deployClientFixture() {
+    const [owner, player1, player2, alt] = await ethers.getSigners();
+
+    const registry = await (await ethers.getContractFactory("SkillProofRegistry")).deploy();
+    await registry.registerIssuer(owner.address, "FinCraft");
+
+    const registryAddr = await registry.getAddress();
+    const hub = await (await ethers.getContractFactory("SkillProofHub")).deploy(
+      registryAddr,
+      ethers.ZeroAddress,
+      VAULT_ELO_THRESHOLD
+    );
+    const decay = await (await ethers.getContractFactory("SkillProofDecay")).deploy(
+      registryAddr,
+      100,
+      5000
+    );
+    const aggregator = await (await ethers.getContractFactory("SkillProofAggregator")).deploy(
+      registryAddr
+    );
+    const staking = await (await ethers.getContractFactory("SkillProofStaking")).deploy(
+      MINIMUM_STAKE,
+      5000
+    );
+    const disputes = await (await ethers.getContractFactory("SkillProofDisputes")).deploy(
+      registryAddr,
+      await staking.getAddress(),
+      await hub.getAddress(),
+      DISPUTE_BOND,
+      3600,
+      3600
+    );
+    const multicall = await (await ethers.getContractFactory("Multicall3")).deploy();
+
+    const addresses = {
+      registry: registryAddr,
+      hub: await hub.getAddress(),
+      decay: await decay.getAddress(),
+      aggregator: await aggregator.getAddress(),
+      staking: await staking.getAddress(),
+      disputes: await disputes.getAddress(),
+      multicall3: await multicall.getAddress(),
+    };
+
+    const issuer = new SkillProofClient(owner, addresses);
+    const user1 = new SkillProofClient(player1, addresses);
+    const user2 = new SkillProofClient(player2, addresses);
+
+    await issuer.mintCredential({
+      player: player1.address,
+      playerName: "AlphaTrader",
+      overallElo: 1847,
+      percentile: 96,
+      domains: ["market-making", "derivatives"],
+      skillScores: [1900, 1750],
+      skillPercentiles: [97, 91],
+      totalMatches: 150,
+      winRate: 68,
+    });
+
+    return { registry, hub, decay, aggregator, staking, disputes, issuer, user1, user2, owner, player1, player2, alt };
+  }
+
+  describe("Registry", function () {
+    it("Should mint a credential and decode CredentialMinted", async function () {
+      const { issuer, owner, player2 } = await loadFixture(deployClientFixture);
+
+      const { receipt, events } = await issuer.mintCredential({
+        player: player2.address,
+        playerName: "BetaTrader",
+        overallElo: 1623,
+        percentile: 74,
+        domains: ["risk-management"],
+        skillScores: [1650],
+        skillPercentiles: [76],
+        totalMatches: 120,
+        winRate: 61,
+      });
+
+      expect(receipt.status).to.equal(1);
+      expect(events).to.have.length(1);
+      expect(events[0].contract).to.equal("registry");
+      expect(events[0].name).to.equal("CredentialMinted");
+      expect(events[0].args.player).to.equal(player2.address);
+      expect(events[0].args.issuer).to.equal(owner.address);
+      expect(events[0].args.overallElo).to.equal(1623n);
+      expect((await issuer.getCredential(player2.address))?.playerName).to.equal("BetaTrader");
+    });
+
+    it("Should update and revoke a credential", async function () {
+      const { issuer, player1 } = await loadFixture(deployClientFixture);
+
+      const updated = await issuer.updateCredential(player1.address, {
+        overallElo: 1900,
+        percentile: 97,
+        skillScores: [1950, 1800],
+        skillPercentiles: [98, 92],
+        totalMatches: 160,
+        winRate: 70,
+      });
+      expect(updated.events[0].name).to.equal("CredentialUpdated");
+      expect((await issuer.getCredential(player1.address))?.overallElo).to.equal(1900);
+
+      const revoked = await issuer.revokeCredential(player1.address);
+      expect(revoked.events[0].name).to.equal("CredentialRevoked");
+      expect(await issuer.getCredential(player1.address)).to.be.null;
+    });
+
+    it("Should surface contract reverts", async function () {
+      const { user1, player2 } = await loadFixture(deployClientFixture);
+
+      await expect(user1.revokeCredential(player2.address)).to.be.revertedWith("Not authorized");
+    });
+  });
+
+  describe("Decay and Aggregator", function () {
+    it("Should refresh a credential as its issuer", async function () {
+      const { issuer, player1 } = await loadFixture(deployClientFixture);
+
+      await time.increase(10 * 24 * 60 * 60);
+      expect(await issuer.getDecayMultiplier(player1.address)).to.equal(9000);
+
+      const { events } = await issuer.refreshCredential(player1.address);
+      expect(events[0].name).to.equal("CredentialRefreshed");
+      expect(await issuer.getDecayMultiplier(player1.address)).to.equal(10000);
+    });
+
+    it("Should link an address from the linked account", async function () {
+      const { user2, player1, player2 } = await loadFixture(deployClientFixture);
+
+      const { events } = await user2.linkAddress(player1.address, player2.address);
+      expect(events[0].name).to.equal("AddressLinked");
+      expect(await user2.getLinkedAddresses(player1.address)).to.deep.equal([
+        player1.address,
+        player2.address,
+      ]);
+    });
+  });
+
+  describe("Hub", function () {
+    it("Should deposit and withdraw from the vault", async function () {
+      const { user1 } = await loadFixture(deployClientFixture);
+      const amount = ethers.parseEther("1");
+
+      const dep = await user1.deposit(amount);
+      expect(dep.events.map((e) => e.name)).to.deep.equal(["ParticipantRegistered", "Deposited"]);
+
+      const wd = await user1.withdraw(amount);
+      expect(wd.events[0].name).to.equal("Withdrawn");
+      expect(wd.events[0].args.amount).to.equal(amount);
+    });
+
+    it("Should create a proposal and vote", async function () {
+      const { user1 } = await loadFixture(deployClientFixture);
+
+      const deadline = (await time.latest()) + 3600;
+      const { proposalId } = await user1.createProposal("Raise vault threshold", deadline);
+      expect(proposalId).to.equal(0);
+
+      const { events } = await user1.vote(proposalId, true);
+      const voted = events.find((e) => e.name === "Voted");
+      expect(voted?.args.support).to.be.true;
+      expect(voted?.args.weight).to.equal(96n);
+    });
+
+    it("Should run a prediction commit-reveal cycle", async function () {
+      const { user1 } = await loadFixture(deployClientFixture);
+
+      const now = await time.latest();
+      const { marketId } = await user1.createMarket(
+        "FLR above $0.05?",
+        "0x01464c522f55534400000000000000000000000000",
+        50000n,
+        now + 3600,
+        now + 7200
+      );
+
+      const salt = generateCommitSalt();
+      await user1.commitPrediction(marketId, true, salt);
+      await time.increaseTo(now + 3601);
+
+      const { events } = await user1.revealPrediction(marketId, true, salt);
+      expect(events[0].name).to.equal("PredictionRevealed");
+      expect(events[0].args.prediction).to.be.true;
+    });
+
+    it("Should post, solve and award a bounty", async function () {
+      const { user1, user2, player1 } = await loadFixture(deployClientFixture);
+
+      const now = await time.latest();
+      const reward = ethers.parseEther("0.5");
+      const { bountyId } = await user2.postBounty("Optimal hedge", now + 3600, now + 7200, reward);
+
+      const salt = generateCommitSalt();
+      await user1.commitSolution(bountyId, "delta-neutral", salt);
+      await time.increaseTo(now + 3601);
+      await user1.revealSolution(bountyId, "delta-neutral", salt);
+
+      const { events } = await user2.awardBounty(bountyId, player1.address);
+      expect(events.map((e) => e.name)).to.deep.equal(["ReputationUpdated", "BountyAwarded"]);
+      expect(await user1.getReputationBonus(player1.address)).to.equal(15);
+    });
+  });
+
+  describe("Fees", function () {
+    it("Should quote treasury fees and attach them to writes", async function () {
+      const { registry, hub, issuer, user1, owner, player1, player2 } = await loadFixture(deployClientFixture);
+      const mintFee = ethers.parseEther("0.01");
+      const marketFee = ethers.parseEther("0.05");
+
+      expect((await issuer.getFees(owner.address)).mint).to.equal(0n);
+
+      const treasury = await (await ethers.getContractFactory("SkillProofTreasury")).deploy(mintFee, marketFee, 0, 500);
+      await registry.setTreasury(await treasury.getAddress());
+      await hub.setTreasury(await treasury.getAddress());
+      await treasury.setFeeCollectors(await registry.getAddress(), await hub.getAddress());
+
+      const fees = await issuer.getFees(owner.address);
+      expect(fees.mint).to.equal(mintFee);
+      expect(fees.market).to.equal(marketFee);
+      expect(fees.zkVerification).to.equal(0n);
+
+      await issuer.mintCredential({
+        player: player2.address,
+        playerName: "BetaTrader",
+        overallElo: 1623,
+        percentile: 74,
+        domains: [],
+        skillScores: [],
+        skillPercentiles: [],
+        totalMatches: 120,
+        winRate: 61,
+      });
+      const now = await time.latest();
+      await user1.createMarket("FLR above $0.05?", "0x01464c522f55534400000000000000000000000000", 50000n, now + 3600, now + 7200);
+      expect(await treasury.issuerFeesGenerated(owner.address)).to.equal(mintFee);
+      expect(await treasury.totalRevenue()).to.equal(mintFee + marketFee);
+
+      await treasury.setFeeExempt(player1.address, true);
+      expect((await user1.getFees(player1.address)).market).to.equal(0n);
+    });
+  });
+
+  describe("Treasury", function () {
+    it("Should read revenue, snapshots, fee history and top issuers", async function () {
+      const { registry, owner, player1, player2, alt } = await loadFixture(deployClientFixture);
+      const treasury = await (await ethers.getContractFactory("SkillProofTreasury")).deploy(
+        ethers.parseEther("0.01"),
+        ethers.parseEther("0.05"),
+        ethers.parseEther("0.005"),
+        500
+      );
+      const sdk = new SkillProofClient(owner, {
+        registry: await registry.getAddress(),
+        treasury: await treasury.getAddress(),
+      });
+
+      await treasury.connect(alt).payCredentialFee(player1.address, { value: ethers.parseEther("0.01") });
+      await treasury.payCredentialFee(player1.address, { value: ethers.parseEther("0.01") });
+      await treasury.payCredentialFee(player2.address, { value: ethers.parseEther("0.01") });
+      await treasury.takeSnapshot();
+      await treasury.payMarketFee({ value: ethers.parseEther("0.05") });
+      await treasury.takeSnapshot();
+      await treasury.updateFeeSchedule(ethers.parseEther("0.02"), ethers.parseEther("0.05"), 0, 300);
+
+      const breakdown = await sdk.getRevenueBreakdown();
+      expect(breakdown.credentials).to.equal(ethers.parseEther("0.03"));
+      expect(breakdown.total).to.equal(ethers.parseEther("0.08"));
+
+      const metrics = await sdk.getTreasuryMetrics();
+      expect(metrics.credentialsMinted).to.equal(3);
+      expect(metrics.snapshotCount).to.equal(2);
+
+      const snapshots = await sdk.getRevenueSnapshots();
+      expect(snapshots.map((sn) => sn.periodRevenue)).to.deep.equal([ethers.parseEther("0.03"), ethers.parseEther("0.05")]);
+      expect(snapshots[1].marketCount).to.equal(1);
+
+      expect((await sdk.getFeeSchedule()).bountyCommissionBps).to.equal(300);
+      const history = await sdk.getFeeScheduleHistory({ chunkSize: 3 });
+      expect(history).to.have.length(1);
+      expect(history[0].credentialFee).to.equal(ethers.parseEther("0.02"));
+      expect(history[0].timestamp).to.be.greaterThan(0);
+
+      const top = await sdk.getTopIssuersByFees(1);
+      expect(top).to.have.length(1);
+      expect(top[0].issuer).to.equal(owner.address);
+      expect(top[0].name).to.equal("FinCraft");
+      expect(top[0].feesGenerated).to.equal(ethers.parseEther("0.02"));
+    });
+  });
+
+  describe("Engine", function () {
+    it("Should report matches and rebuild player history", async function () {
+      const { owner, player1, player2, alt } = await loadFixture(deployClientFixture);
+      const engine = await (await ethers.getContractFactory("SkillProofEngine")).deploy();
+      const addresses = { engine: await engine.getAddress() };
+      const reporter = new SkillProofClient(owner, addresses);
+      const alice = new SkillProofClient(player1, addresses);
+      const bob = new SkillProofClient(player2, addresses);
+
+      await alice.registerEnginePlayer(["derivatives"]);
+      await bob.registerEnginePlayer(["derivatives"]);
+      expect(await reporter.isEngineReporter(owner.address)).to.be.true;
+      expect(await reporter.isEngineReporter(alt.address)).to.be.false;
+
+      expect(await reporter.simulateEngineMatch(player1.address, player2.address, 1)).to.deep.equal({
+        player1Change: 16,
+        player2Change: -16,
+      });
+      const first = await reporter.recordEngineMatch(player1.address, player2.address, 1, "derivatives");
+      expect(first.matchId).to.equal(0);
+      await reporter.recordEngineMatch(player2.address, player1.address, 3, "options");
+
+      const stats = await alice.getEnginePlayer(player1.address);
+      expect(stats).to.include({ registered: true, wins: 1, draws: 1, totalMatches: 2, peakElo: 1216, currentStreak: 0 });
+      expect(stats.winRateBps).to.equal(5000);
+
+      const history = await alice.getEngineMatches(player1.address, { chunkSize: 2 });
+      expect(history.map((m) => m.id)).to.deep.equal([0, 1]);
+      expect(history[1]).to.include({ player1: player2.address, outcome: 3, domain: "options" });
+      expect(await alice.getEngineMatch(5)).to.be.null;
+
+      const ratings = await alice.getRatingHistory(player1.address);
+      expect(ratings.map((r) => r.elo)).to.deep.equal([1200, 1216, stats.elo]);
+      expect(ratings[0].matchId).to.be.null;
+
+      expect(await alice.getEngineDomainElos(player1.address, ["options"])).to.deep.equal({
+        derivatives: 1216,
+        options: stats.elo,
+      });
+    });
+
+    it("Should record a batch of matches", async function () {
+      const { owner, player1, player2, alt } = await loadFixture(deployClientFixture);
+      const engine = await (await ethers.getContractFactory("SkillProofEngine")).deploy();
+      const reporter = new SkillProofClient(owner, { engine: await engine.getAddress() });
+      for (const p of [player1, player2, alt]) {
+        await engine.registerPlayerByAddress(p.address, 1200, []);
+      }
+
+      const result = await reporter.recordEngineMatches([
+        { player1: player1.address, player2: player2.address, outcome: 1, domain: "" },
+        { player1: player2.address, player2: alt.address, outcome: 2, domain: "" },
+      ]);
+      expect(result.matchIds).to.deep.equal([0, 1]);
+      expect((await reporter.getEnginePlayer(alt.address)).wins).to.equal(1);
+      expect(await reporter.getEngineReportNonce(owner.address)).to.equal(0);
+    });
+
+    it("Should report team and free-for-all matches", async function () {
+      const { owner, player1, player2, alt } = await loadFixture(deployClientFixture);
+      const engine = await (await ethers.getContractFactory("SkillProofEngine")).deploy();
+      const reporter = new SkillProofClient(owner, { engine: await engine.getAddress() });
+      const [a, b, c] = [player1.address, player2.address, alt.address];
+      for (const p of [a, b, c, owner.address]) {
+        await engine.registerPlayerByAddress(p, 1200, []);
+      }
+
+      await reporter.recordEngineMatch(a, b, 1, "");
+      const team = await reporter.recordEngineTeamMatch([[a, c], [b, owner.address]], [2, 1], "arena");
+      const ffa = await reporter.recordEngineFreeForAll([b, c, owner.address], [1, 2, 3], "");
+      expect([team.matchId, ffa.matchId]).to.deep.equal([1, 2]);
+
+      const history = await reporter.getEngineMatches(c, { chunkSize: 2 });
+      expect(history.map((m) => m.id)).to.deep.equal([1, 2]);
+      expect(history[0].outcome).to.equal(0);
+      expect(history[0].participants.map((p) => [p.player, p.team, p.placement])).to.deep.equal([
+        [a, 0, 2],
+        [c, 0, 2],
+        [b, 1, 1],
+        [owner.address, 1, 1],
+      ]);
+
+      // 1v1 matches list their participants too, so history mixes formats
+      const ratings = await reporter.getRatingHistory(a);
+      expect(ratings.map((r) => r.matchId)).to.deep.equal([null, 0, 1]);
+      expect(ratings[2].elo).to.equal((await reporter.getEnginePlayer(a)).elo);
+      expect((await reporter.getEngineMatch(0))!.participants[1]).to.include({ player: b, placement: 2 });
+    });
+
+    it("Should read Glicko-2 ratings and gate on the conservative rating", async function () {
+      const { registry, owner, player1, player2 } = await loadFixture(deployClientFixture);
+      const engine = await (await ethers.getContractFactory("SkillProofEngine")).deploy();
+      const reporter = new SkillProofClient(owner, {
+        registry: await registry.getAddress(),
+        engine: await engine.getAddress(),
+      });
+      await engine.registerPlayerByAddress(player1.address, 2000, []);
+      await engine.registerPlayerByAddress(player2.address, 1200, []);
+      await engine.setGlickoConfig(true, 3600);
+
+      expect(await reporter.getEngineGlickoConfig()).to.deep.equal({ enabled: true, ratingPeriod: 3600 });
+      expect(await reporter.getEngineGlicko(player1.address)).to.include({ rating: 2000, rd: 350, rated: false });
+
+      await reporter.recordEngineMatch(player1.address, player2.address, 1, "");
+      const glicko = await reporter.getEngineGlicko(player1.address);
+      expect(glicko.rated).to.be.true;
+      expect(glicko.rd).to.be.lessThan(350);
+
+      const conservative = await reporter.getConservativeRating(player1.address);
+      expect(conservative).to.equal(conservativeRating(glicko));
+      // player1's credential says 1847, but the gate reads the Engine's Glicko-2 estimate
+      const gate = (min: number) => reporter.checkGate(player1.address, { rule: "elo", source: "conservative", min });
+      expect((await gate(conservative)).passed).to.be.true;
+      expect((await gate(conservative + 1)).trace).to.include({ passed: false, actual: conservative });
+    });
+
+    it("Should close a season and read its archived standings", async function () {
+      const { owner, player1, player2 } = await loadFixture(deployClientFixture);
+      const engine = await (await ethers.getContractFactory("SkillProofEngine")).deploy();
+      const reporter = new SkillProofClient(owner, { engine: await engine.getAddress() });
+      await engine.registerPlayerByAddress(player1.address, 1600, ["derivatives"]);
+      await engine.registerPlayerByAddress(player2.address, 1400, ["derivatives"]);
+      await reporter.recordEngineMatch(player1.address, player2.address, 1, "derivatives");
+      const final = await reporter.getEnginePlayer(player1.address);
+
+      expect(await reporter.getSeasons()).to.be.empty;
+      expect((await reporter.getCurrentSeason()).id).to.equal(1);
+      expect(await reporter.getEngineSeasonRecord(player1.address)).to.deep.equal({ wins: 1, losses: 0, draws: 0 });
+
+      const { season } = await reporter.closeEngineSeason();
+      expect(season).to.equal(1);
+      expect(await reporter.getSeasons()).to.have.length(1);
+      expect(await reporter.getSeason(1)).to.include({ id: 1, firstMatchId: 0, matchCount: 1, resetBps: 5000 });
+      expect(await reporter.getSeason(2)).to.be.null;
+      expect((await reporter.getCurrentSeason()).archivingSeason).to.equal(1);
+
+      // One player per batch: the second batch unfreezes ratings
+      expect(await reporter.archiveEngineSeason(1)).to.have.length(2);
+      expect((await reporter.getCurrentSeason()).archivingSeason).to.equal(0);
+      expect(await reporter.archiveEngineSeason()).to.be.empty;
+
+      const standings = await reporter.getSeasonStandings(1);
+      expect(standings.map((s) => s.player)).to.deep.equal([player1.address, player2.address]);
+      expect(standings[0]).to.include({ rank: 1, elo: final.elo, wins: 1, losses: 0, longestStreak: 1 });
+      expect(await reporter.getSeasonStanding(1, player2.address)).to.include({ rank: 2, losses: 1 });
+      expect(await reporter.getSeasonStanding(1, owner.address)).to.be.null;
+
+      const reset = await reporter.getEnginePlayer(player1.address);
+      expect(reset.elo).to.equal(seasonReset(final.elo, 5000));
+      expect(reset.peakElo).to.equal(reset.elo);
+      expect((await reporter.getCurrentSeason()).id).to.equal(2);
+    });
+
+    it("Should dispute matches and correct their results", async function () {
+      const { owner, player1, player2, alt } = await loadFixture(deployClientFixture);
+      const engine = await (await ethers.getContractFactory("SkillProofEngine")).deploy();
+      const addresses = { engine: await engine.getAddress() };
+      const reporter = new SkillProofClient(owner, addresses);
+      const bob = new SkillProofClient(player2, addresses);
+      const arbiter = new SkillProofClient(alt, addresses);
+      await engine.registerPlayerByAddress(player1.address, 1200, []);
+      await engine.registerPlayerByAddress(player2.address, 1200, []);
+      const { matchId } = await reporter.recordEngineMatch(player1.address, player2.address, 1, "");
+
+      await reporter.setEngineDisputeConfig(alt.address, 3600);
+      expect(await reporter.getEngineDisputeConfig()).to.deep.equal({ arbiter: alt.address, disputeWindow: 3600 });
+      const { timestamp } = (await reporter.getEngineMatch(matchId))!;
+      expect(await bob.getEngineMatchDispute(matchId)).to.deep.equal({ matchId, status: "none", deadline: timestamp + 3600 });
+
+      await bob.disputeEngineMatch(matchId);
+      expect((await bob.getEngineMatchDispute(matchId)).status).to.equal("open");
+      await expect(arbiter.resolveEngineDispute(matchId, "corrected")).to.be.rejectedWith("A correction needs an outcome");
+      await arbiter.resolveEngineDispute(matchId, "corrected", 2);
+
+      expect((await bob.getEngineMatchDispute(matchId)).status).to.equal("corrected");
+      expect(await reporter.getEngineMatch(matchId)).to.include({ outcome: 2, player1EloChange: -16, player2EloChange: 16 });
+      expect(await reporter.getEnginePlayer(player2.address)).to.include({ elo: 1216, wins: 1, losses: 0 });
+
+      // Team and free-for-all results are corrected by placement
+      const ffa = await reporter.recordEngineFreeForAll([player1.address, player2.address], [1, 2], "");
+      await bob.disputeEngineMatch(ffa.matchId);
+      await arbiter.resolveEngineDispute(ffa.matchId, "corrected", [1, 1]);
+      const drawn = (await reporter.getEngineMatch(ffa.matchId))!;
+      expect(drawn.participants.map((p) => p.placement)).to.deep.equal([1, 1]);
+      expect(await reporter.getEnginePlayer(player2.address)).to.include({ wins: 1, draws: 1, losses: 0 });
+    });
+  });
+
+  describe("Staking", function () {
+    it("Should stake, top up and unstake after the lock", async function () {
+      const { issuer } = await loadFixture(deployClientFixture);
+
+      const staked = await issuer.stake("FinCraft", MINIMUM_STAKE);
+      expect(staked.events[0].name).to.equal("Staked");
+      expect(staked.events[0].args.name).to.equal("FinCraft");
+
+      const topUp = await issuer.increaseStake(MINIMUM_STAKE);
+      expect(topUp.events[0].args.newTotal).to.equal(MINIMUM_STAKE * 2n);
+
+      await time.increase(7 * 24 * 60 * 60);
+      const { events } = await issuer.unstake();
+      expect(events[0].name).to.equal("Unstaked");
+      expect(events[0].args.amount).to.equal(MINIMUM_STAKE * 2n);
+    });
+
+    it("Should block issuance end to end: stake → issue → slash → blocked", async function () {
+      const { issuer, staking, owner, player2, alt } = await loadFixture(deployClientFixture);
+      await issuer.setRegistryStaking(await staking.getAddress());
+      const params = {
+        playerName: "BetaTrader",
+        overallElo: 1623,
+        percentile: 74,
+        domains: ["risk-management"],
+        skillScores: [1650],
+        skillPercentiles: [76],
+        totalMatches: 120,
+        winRate: 61,
+      };
+
+      const unstaked = await issuer.getIssuerStatus(owner.address);
+      expect(unstaked).to.include({ registered: true, stakeRequired: true, staked: false, canIssue: false });
+      const blocked = await issuer.mintCredential({ player: player2.address, ...params }).catch((e) => e);
+      expect(blocked.message).to.include("Issuer not staked");
+
+      await issuer.stake("FinCraft", MINIMUM_STAKE);
+      expect((await issuer.getIssuerStatus(owner.address)).canIssue).to.be.true;
+      const { events } = await issuer.mintCredential({ player: player2.address, ...params });
+      expect(events[0].name).to.equal("CredentialMinted");
+
+      const { events: slashEvents } = await issuer.slash(owner.address, "Fabricated results");
+      expect(slashEvents[0].name).to.equal("Slashed");
+      const slashed = await issuer.getIssuerStatus(owner.address);
+      expect(slashed).to.include({ staked: false, slashCount: 1, canIssue: false, stake: MINIMUM_STAKE / 2n });
+
+      const afterSlash = await issuer.mintCredential({ player: alt.address, ...params }).catch((e) => e);
+      expect(afterSlash.message).to.include("Issuer not staked");
+      const update = await issuer.updateCredential(player2.address, params).catch((e) => e);
+      expect(update.message).to.include("Issuer not staked");
+    });
+
+    it("Should report the unlock time and slash history", async function () {
+      const { issuer, owner, alt } = await loadFixture(deployClientFixture);
+
+      expect((await issuer.getIssuerStatus(owner.address)).unlocksAt).to.equal(0);
+      const { receipt } = await issuer.stake("FinCraft", MINIMUM_STAKE * 4n);
+      const stakedAt = (await ethers.provider.getBlock(receipt.blockNumber))!.timestamp;
+      expect((await issuer.getIssuerStatus(owner.address)).unlocksAt).to.equal(stakedAt + STAKE_LOCK_PERIOD);
+
+      await issuer.slash(owner.address, "Fabricated results");
+      await issuer.slash(owner.address, "Duplicate credentials");
+      expect(await issuer.getSlashHistory(alt.address)).to.deep.equal([]);
+
+      const history = await issuer.getSlashHistory(owner.address, { chunkSize: 2 });
+      expect(history.map((h) => h.reason)).to.deep.equal(["Fabricated results", "Duplicate credentials"]);
+      expect(history.map((h) => h.amount)).to.deep.equal([MINIMUM_STAKE * 2n, MINIMUM_STAKE]);
+      expect(history[0].timestamp).to.be.greaterThan(stakedAt);
+    });
+  });
+
+  describe("Disputes", function () {
+    it("Should run a dispute end to end: open → respond → uphold → slashed", async function () {
+      const { issuer, user2, staking, disputes, owner, player1, player2 } = await loadFixture(deployClientFixture);
+      await issuer.stake("FinCraft", MINIMUM_STAKE);
+      await staking.setArbiter(await disputes.getAddress());
+
+      const opened = await user2.openDispute(player1.address, { uri: "ipfs://bafy-evidence" });
+      expect(opened.events[0].name).to.equal("DisputeOpened");
+      expect(opened.events[0].args.bond).to.equal(DISPUTE_BOND);
+
+      await issuer.respondToDispute(0, "ipfs://bafy-rebuttal");
+      const open = await user2.getDispute(0);
+      expect(open).to.include({ status: "open", issuer: owner.address, responseURI: "ipfs://bafy-rebuttal" });
+      expect(open?.evidenceHash).to.equal(ethers.ZeroHash);
+      expect(open?.proposalId).to.be.null;
+
+      const { events } = await issuer.resolveDispute(0, true);
+      expect(events.map((e) => [e.contract, e.name])).to.deep.equal([
+        ["staking", "Slashed"],
+        ["disputes", "DisputeResolved"],
+      ]);
+
+      const [resolved] = await user2.getIssuerDisputes(owner.address);
+      expect(resolved).to.include({ id: 0, status: "upheld", slashed: true });
+      expect((await issuer.getIssuerStatus(owner.address)).slashCount).to.equal(1);
+      expect(await user2.getDispute(1)).to.be.null;
+
+      expect(await user2.getClaimableBonds(player2.address)).to.equal(DISPUTE_BOND);
+      const withdrawn = await user2.withdrawDisputeBonds();
+      expect(withdrawn.events.map((e) => e.name)).to.deep.equal(["Withdrawn"]);
+      expect(await user2.getClaimableBonds(player2.address)).to.equal(0n);
+    });
+
+    it("Should refuse dispute calls without a disputes address", async function () {
+      const { owner } = await loadFixture(deployClientFixture);
+      const client = new SkillProofClient(owner);
+      const error = await client.getIssuerDisputes(owner.address).catch((e) => e);
+      expect(error.message).to.equal("No SkillProofDisputes address configured");
+    });
+  });
+
+  describe("Tournaments", function () {
+    it("Should run a tournament end to end: create → join → report → claim", async function () {
+      const { owner, player1, player2, alt } = await loadFixture(deployClientFixture);
+      const engine = await (await ethers.getContractFactory("SkillProofEngine")).deploy();
+      const tournaments = await (await ethers.getContractFactory("SkillProofTournaments")).deploy(
+        await engine.getAddress()
+      );
+      await engine.addReporter(await tournaments.getAddress());
+      const addresses = { engine: await engine.getAddress(), tournaments: await tournaments.getAddress() };
+      const organizer = new SkillProofClient(owner, addresses);
+      const entrants = [player1, player2, alt];
+      for (const [i, p] of entrants.entries()) {
+        await engine.registerPlayerByAddress(p.address, 1300 - i * 50, ["chess"]);
+      }
+
+      const fee = ethers.parseEther("0.5");
+      const { tournamentId } = await organizer.createTournament({
+        name: "Friday Blitz",
+        format: "single-elimination",
+        domain: "chess",
+        entryFee: fee,
+        maxPlayers: 4,
+        payoutBps: [7000, 3000],
+      });
+      for (const p of entrants) {
+        await new SkillProofClient(p, addresses).joinTournament(tournamentId);
+      }
+      await organizer.startTournament(tournamentId);
+
+      // Three players in a 4-slot bracket: the top seed gets a bye
+      const round1 = await organizer.getTournamentPairings(tournamentId);
+      expect(round1.map((p) => [p.player1, p.player2, p.outcome])).to.deep.equal([
+        [player1.address, null, 1],
+        [player2.address, alt.address, null],
+      ]);
+
+      const reported = await organizer.reportTournamentResults(tournamentId, [
+        { pairing: 1, outcome: 2 },
+        { pairing: 2, outcome: 2 },
+      ]);
+      expect(reported.events.map((e) => e.name)).to.include.members(["MatchRecorded", "TournamentCompleted"]);
+
+      const t = await organizer.getTournament(tournamentId);
+      expect(t).to.include({ status: "completed", champion: alt.address, currentRound: 2, prizePool: fee * 3n });
+      const final = (await organizer.getTournamentPairings(tournamentId))[2];
+      expect(final).to.include({ round: 2, bracket: "winners", outcome: 2, engineMatchId: 1 });
+
+      const standings = await organizer.getTournamentStandings(tournamentId);
+      expect(standings.map((s) => [s.player, s.seed, s.place])).to.deep.equal([
+        [alt.address, 3, 1],
+        [player1.address, 1, 2],
+        [player2.address, 2, 3],
+      ]);
+      expect(await organizer.getClaimableWinnings(alt.address)).to.equal(ethers.parseEther("1.05"));
+
+      const winner = new SkillProofClient(alt, addresses);
+      const claimed = await winner.claimTournamentWinnings();
+      expect(claimed.events[0]).to.include({ contract: "tournaments", name: "Claimed" });
+      expect(await organizer.getClaimableWinnings(alt.address)).to.equal(0n);
+    });
+  });
+
+  describe("Gate Policies", function () {
+    it("Should keep flat gate configs working with a trace", async function () {
+      const { user1, player1, player2 } = await loadFixture(deployClientFixture);
+
+      const pass = await user1.checkGate(player1.address, { minElo: 1500, requiredDomains: ["derivatives"] });
+      expect(pass.passed).to.be.true;
+      expect(pass.elo).to.equal(1847);
+      expect(pass.trace.children?.map((c) => c.passed)).to.deep.equal([true, true]);
+
+      const fail = await user1.checkGate(player1.address, { minElo: 1500, minPercentile: 99 });
+      expect(fail.passed).to.be.false;
+      expect(fail.reason).to.equal("Percentile 96 below minimum 99");
+
+      const none = await user1.checkGate(player2.address, { minElo: 1000 });
+      expect(none.reason).to.equal("No credential found");
+    });
+
+    it("Should evaluate AND/OR/NOT with a per-clause trace", async function () {
+      const { user1, owner, player1 } = await loadFixture(deployClientFixture);
+
+      const result = await user1.checkGate(player1.address, {
+        all: [
+          { rule: "skillScore", domain: "derivatives", min: 1800 },
+          { any: [{ rule: "zkVerified" }, { rule: "skillPercentile", domain: "market-making", min: 95 }] },
+          { not: { rule: "issuer", allow: [owner.address] } },
+        ],
+      });
+
+      expect(result.passed).to.be.false;
+      const [score, any, not] = result.trace.children!;
+      expect(score).to.include({ passed: false, actual: 1750 });
+      expect(score.reason).to.equal("derivatives score 1750 below minimum 1800");
+      expect(any.passed).to.be.true;
+      expect(any.children!.map((c) => c.passed)).to.deep.equal([false, true]);
+      expect(not.passed).to.be.false;
+      expect(result.reason).to.equal(score.reason);
+    });
+
+    it("Should gate on effective and aggregate ELO sources", async function () {
+      const { user1, player1 } = await loadFixture(deployClientFixture);
+
+      const result = await user1.checkGate(player1.address, {
+        all: [
+          { rule: "elo", source: "effective", min: 1847 },
+          { rule: "elo", source: "aggregate", min: 1900 },
+        ],
+      });
+
+      // Single issuer: no cross-issuer bonus, so the aggregate score stays at 1847
+      expect(result.trace.children![0].passed).to.be.true;
+      expect(result.trace.children![1].passed).to.be.false;
+    });
+
+    it("Should count attestations and apply issuer deny lists", async function () {
+      const { user1, owner, player1 } = await loadFixture(deployClientFixture);
+
+      const result = await user1.checkGate(player1.address, {
+        any: [{ rule: "attestations", min: 1 }, { rule: "issuer", deny: [owner.address] }],
+      });
+
+      expect(result.passed).to.be.false;
+      expect(result.trace.children![0].reason).to.equal("Attestation count 0 below minimum 1 (held: none)");
+      expect(result.trace.children![1].reason).to.equal(`Issuer ${owner.address} is denied`);
+    });
+
+    it("Should reject malformed stored policies", async function () {
+      expect(() => parseGatePolicy('{"all":[{"rule":"elo","min":1500,"source":"peak"}]}')).to.throw(
+        GatePolicyError,
+        "policy.all[0].source"
+      );
+      expect(() => parseGatePolicy({ any: [] })).to.throw(GatePolicyError, "policy.any");
+      expect(() => parseGatePolicy({ not: { rule: "karma", min: 1 } })).to.throw(
+        GatePolicyError,
+        'unknown rule "karma"'
+      );
+      expect(parseGatePolicy({ rule: "issuer", deny: ["0x01"] })).to.deep.equal({ rule: "issuer", deny: ["0x01"] });
+    });
+  });
+
+  describe("Batch Queries", function () {
+    it("Should return credentials in input order with per-address errors", async function () {
+      const { user1, player1, player2, alt } = await loadFixture(deployClientFixture);
+
+      const results = await user1.getCredentials(
+        [player2.address, "not-an-address", player1.address, alt.address],
+        { chunkSize: 2 }
+      );
+
+      expect(results.map((r) => r.address)).to.deep.equal([
+        player2.address,
+        "not-an-address",
+        player1.address,
+        alt.address,
+      ]);
+      expect(results[0]).to.deep.equal({ address: player2.address, credential: null, error: undefined });
+      expect(results[1].error).to.equal("Invalid address");
+      expect(results[2].credential).to.deep.equal(await user1.getCredential(player1.address));
+      expect(results[3].credential).to.be.null;
+    });
+
+    it("Should match checkGate for every address", async function () {
+      const { user1, player1, player2, alt } = await loadFixture(deployClientFixture);
+      const wallets = [player1.address, player2.address, alt.address];
+      const policy = {
+        all: [
+          { rule: "elo" as const, source: "decayed" as const, min: 1500 },
+          { rule: "elo" as const, source: "aggregate" as const, min: 1800 },
+          { any: [{ rule: "zkVerified" as const }, { rule: "percentile" as const, min: 90 }] },
+        ],
+      };
+
+      const batch = await user1.checkGateBatch(wallets, policy, { chunkSize: 1, concurrency: 2 });
+      for (const [i, address] of wallets.entries()) {
+        const { address: batchAddress, error, ...result } = batch[i];
+        expect(batchAddress).to.equal(address);
+        expect(error).to.be.undefined;
+        expect(result).to.deep.equal(await user1.checkGate(address, policy));
+      }
+      expect(batch.map((r) => r.passed)).to.deep.equal([true, false, false]);
+    });
+
+    it("Should read a consistent snapshot at a past block", async function () {
+      const { issuer, user1, player2 } = await loadFixture(deployClientFixture);
+      const snapshotBlock = await ethers.provider.getBlockNumber();
+
+      await issuer.mintCredential({
+        player: player2.address,
+        playerName: "BetaTrader",
+        overallElo: 1623,
+        percentile: 74,
+        domains: ["risk-management"],
+        skillScores: [1650],
+        skillPercentiles: [76],
+        totalMatches: 120,
+        winRate: 61,
+      });
+
+      const [before] = await user1.checkGateBatch([player2.address], { minElo: 1500 }, { blockTag: snapshotBlock });
+      const [after] = await user1.checkGateBatch([player2.address], { minElo: 1500 });
+      expect(before.reason).to.equal("No credential found");
+      expect(after.passed).to.be.true;
+    });
+  });
+});
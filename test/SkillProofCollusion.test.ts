@@ -0,0 +1,280 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { ScannedMatch, SkillProofCollusionScanner, analyzeMatches, collusionEvidence } from "../analytics";
+import { EloRating, applyEloChange, logisticExpectedScore, simulateEloMatch } from "../sdk/elo";
+import { MatchOutcome } from "../sdk";
+
+describe("SkillProofCollusion", function () {
+  const HOUR = 60 * 60;
+  const DAY = 24 * HOUR;
+  const BOND = ethers.parseEther("0.01");
+
+  // Deterministic PRNG (mulberry32) so synthetic histories are reproducible
+  function random(seed: number) {
+    return () => {
+      seed = (seed + 0x6d2b79f5) | 0;
+      let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+      t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+
+  /** Off-chain match history rated exactly as the Engine would rate it */
+  function syntheticHistory() {
+    const matches: ScannedMatch[] = [];
+    const ratings = new Map<string, EloRating>();
+    let accounts = 0;
+
+    const join = (elo = 1200, totalMatches = 0) => {
+      const address = ethers.getAddress("0x" + (++accounts).toString(16).padStart(40, "0"));
+      ratings.set(address, { elo, totalMatches });
+      return address;
+    };
+    const play = (player1: string, player2: string, outcome: MatchOutcome, timestamp: number) => {
+      const r1 = ratings.get(player1)!;
+      const r2 = ratings.get(player2)!;
+      const { player1Change, player2Change } = simulateEloMatch(r1, r2, outcome);
+      matches.push({
+        id: matches.length,
+        player1,
+        player2,
+        outcome,
+        player1EloBefore: r1.elo,
+        player2EloBefore: r2.elo,
+        player1EloChange: player1Change,
+        player2EloChange: player2Change,
+        timestamp,
+        domain: "chess",
+      });
+      ratings.set(player1, { elo: applyEloChange(r1.elo, player1Change), totalMatches: r1.totalMatches + 1 });
+      ratings.set(player2, { elo: applyEloChange(r2.elo, player2Change), totalMatches: r2.totalMatches + 1 });
+    };
+
+    // Twelve honest players meeting at random over 90 days, results drawn from true skill
+    const next = random(7);
+    const honest = Array.from({ length: 12 }, (_, i) => ({ address: join(), skill: 1200 + 60 * i }));
+    for (let i = 0; i < 150; i++) {
+      const a = honest[Math.floor(next() * honest.length)];
+      let b = a;
+      while (b === a) b = honest[Math.floor(next() * honest.length)];
+      const r = next();
+      const outcome = r < 0.1 ? 3 : r < 0.1 + 0.9 * logisticExpectedScore(a.skill, b.skill) ? 1 : 2;
+      play(a.address, b.address, outcome, i * 0.6 * DAY);
+    }
+
+    /** `a` and `b` take turns winning, `games` times, an hour apart */
+    const tradeWins = (a: string, b: string, games: number, start: number) => {
+      for (let i = 0; i < games; i++) play(a, b, i % 2 === 0 ? 1 : 2, start + i * HOUR);
+    };
+    /** `feeder` loses to `alt`, `games` times, two hours apart */
+    const feed = (feeder: string, alt: string, games: number, start: number) => {
+      for (let i = 0; i < games; i++) play(feeder, alt, 2, start + i * 2 * HOUR);
+    };
+
+    return { matches, honest: honest.map((h) => h.address), join, play, tradeWins, feed };
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // Detection
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  describe("Detection", function () {
+    it("Should not flag an honest population", async function () {
+      const { matches, honest } = syntheticHistory();
+      const report = analyzeMatches(matches);
+
+      expect(report.matches).to.equal(150);
+      expect(report.players).to.equal(honest.length);
+      expect([report.fromMatch, report.toMatch]).to.deep.equal([0, 149]);
+      expect(report.findings).to.be.empty;
+      expect(report.clusters).to.be.empty;
+      expect(analyzeMatches([]).fromMatch).to.be.null;
+    });
+
+    it("Should flag a pair trading wins by frequency and alternation", async function () {
+      const history = syntheticHistory();
+      const [a, b] = [history.join(), history.join()];
+      history.tradeWins(a, b, 12, 30 * DAY);
+      const report = analyzeMatches(history.matches);
+
+      expect(report.clusters).to.have.length(1);
+      const [cluster] = report.clusters;
+      expect(cluster.players).to.deep.equal([a, b]);
+      expect(cluster.findings.map((f) => f.kind)).to.deep.equal(["repeat-pair", "win-trading"]);
+      expect(cluster.findings[0].value).to.equal(1);
+      expect(cluster.findings[1]).to.include({ value: 1, threshold: 0.85 });
+      expect(cluster.matchIds).to.deep.equal(Array.from({ length: 12 }, (_, i) => 150 + i));
+
+      // Fewer games than the pair thresholds stay below them
+      expect(analyzeMatches(history.matches, { minPairMatches: 13, minTradedResults: 13 }).findings).to.be.empty;
+    });
+
+    it("Should trace an alt's rating velocity to the account feeding it losses", async function () {
+      const history = syntheticHistory();
+      const feeder = history.join(2000, 60);
+      const alt = history.join();
+      history.feed(feeder, alt, 10, 40 * DAY);
+      // The feeder also plays honest games, so the pair is only a share of its matches
+      for (let i = 0; i < 6; i++) history.play(feeder, history.honest[i], 1, 50 * DAY + i * DAY);
+      const report = analyzeMatches(history.matches);
+
+      expect(report.clusters).to.have.length(1);
+      const [cluster] = report.clusters;
+      expect(cluster.players).to.deep.equal([feeder, alt]);
+      expect(cluster.findings.map((f) => f.kind)).to.deep.equal(["repeat-pair", "rating-velocity"]);
+
+      const velocity = cluster.findings[1];
+      expect(velocity.players).to.deep.equal([alt, feeder]);
+      expect(velocity.matchIds).to.have.length(10);
+      expect(velocity.value).to.be.greaterThan(250);
+      expect(velocity.summary).to.include("100% of it from");
+      // The alt played nobody else; the feeder's side of the pair is 10 of 16 matches
+      expect(cluster.findings[0].value).to.equal(1);
+      expect(analyzeMatches(history.matches, { maxVelocity: 400 }).findings.map((f) => f.kind)).to.deep.equal([
+        "repeat-pair",
+      ]);
+    });
+
+    it("Should merge a ring of accounts into one cluster", async function () {
+      const history = syntheticHistory();
+      const ring = [history.join(), history.join(), history.join()];
+      history.tradeWins(ring[0], ring[1], 8, 20 * DAY);
+      history.tradeWins(ring[1], ring[2], 8, 21 * DAY);
+      history.tradeWins(ring[2], ring[0], 8, 22 * DAY);
+      const lone = history.join();
+      history.feed(history.join(2100, 60), lone, 6, 60 * DAY);
+      const report = analyzeMatches(history.matches);
+
+      expect(report.clusters).to.have.length(2);
+      expect(report.clusters[0].players).to.have.members(ring);
+      expect(report.clusters[0].findings).to.have.length(6);
+      expect(report.clusters[0].matchIds).to.have.length(24);
+      // None of the honest players is pulled into either cluster
+      const flagged = report.clusters.flatMap((c) => c.players);
+      expect(flagged.some((p) => history.honest.includes(p))).to.be.false;
+    });
+  });
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // Scanning and Filing
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  describe("Scanning and Filing", function () {
+    async function deployScanFixture() {
+      const [owner, issuer, alice, bob, carol, dave, challenger] = await ethers.getSigners();
+
+      const engine = await (await ethers.getContractFactory("SkillProofEngine")).deploy();
+      const registry = await (await ethers.getContractFactory("SkillProofRegistry")).deploy();
+      const staking = await (await ethers.getContractFactory("SkillProofStaking")).deploy(ethers.parseEther("0.1"), 5000);
+      const hub = await (await ethers.getContractFactory("SkillProofHub")).deploy(
+        await registry.getAddress(),
+        ethers.ZeroAddress,
+        1500
+      );
+      const disputes = await (await ethers.getContractFactory("SkillProofDisputes")).deploy(
+        await registry.getAddress(),
+        await staking.getAddress(),
+        await hub.getAddress(),
+        BOND,
+        DAY,
+        DAY
+      );
+
+      for (const p of [alice, bob, carol, dave]) {
+        await engine.registerPlayerByAddress(p.address, 1200, ["chess"]);
+      }
+      // alice and bob trade ten wins; carol and dave play twice, with a team match between
+      for (let i = 0; i < 10; i++) {
+        await engine.recordMatch(alice.address, bob.address, i % 2 === 0 ? 1 : 2, "chess");
+        await time.increase(HOUR);
+      }
+      await engine.recordMatch(carol.address, dave.address, 1, "chess");
+      await engine.recordTeamMatch([[alice.address, carol.address], [bob.address, dave.address]], [1, 2], "chess");
+      await engine.recordMatch(dave.address, carol.address, 1, "chess");
+
+      await registry.registerIssuer(issuer.address, "ChessArena");
+      await registry.connect(issuer).mintCredential(alice.address, "Alice", 1250, 80, ["chess"], [1250], [80], 10, 5000);
+
+      const scanner = new SkillProofCollusionScanner(challenger, {
+        engine: await engine.getAddress(),
+        disputes: await disputes.getAddress(),
+        concurrency: 4,
+      });
+      return { engine, registry, disputes, scanner, owner, issuer, alice, bob, carol, dave, challenger };
+    }
+
+    it("Should read standing 1v1 results from the Engine and flag the pair", async function () {
+      const { engine, scanner, alice, bob, dave } = await loadFixture(deployScanFixture);
+
+      // dave disputes losing match 10 and the owner voids it, so it no longer counts
+      await engine.connect(dave).disputeMatch(10);
+      await engine.resolveDispute(10, 3, []);
+
+      const matches = await scanner.readMatches();
+      expect(matches.map((m) => m.id)).to.deep.equal([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 11, 11, 11, 11, 12]);
+      expect(matches[matches.length - 1]).to.include({ player1: dave.address, outcome: 1 });
+
+      const report = await scanner.scan();
+      expect(report.clusters).to.have.length(1);
+      expect(report.clusters[0].players).to.deep.equal([alice.address, bob.address]);
+      expect(report.clusters[0].findings.map((f) => f.kind)).to.deep.equal(["repeat-pair", "win-trading"]);
+
+      const ranged = new SkillProofCollusionScanner(ethers.provider, { engine: await engine.getAddress(), fromMatch: 5, toMatch: 7 });
+      expect((await ranged.readMatches()).map((m) => m.id)).to.deep.equal([5, 6, 7]);
+    });
+
+    it("Should read team and free-for-all matches pair by pair and flag a pair farming through them", async function () {
+      const { engine, scanner, alice, bob, carol, dave } = await loadFixture(deployScanFixture);
+
+      const team = (await scanner.readMatches()).filter((m) => m.id === 11);
+      expect(team.map((m) => [m.player1, m.player2, m.outcome])).to.deep.equal([
+        [alice.address, bob.address, 1],
+        [alice.address, dave.address, 1],
+        [carol.address, bob.address, 1],
+        [carol.address, dave.address, 1],
+      ]);
+      expect(team[0]).to.include({ player1Opponents: 2, player2Opponents: 2 });
+
+      // carol and dave take turns winning free-for-alls against each other
+      for (let i = 0; i < 8; i++) {
+        await engine.recordFreeForAll([carol.address, dave.address], i % 2 === 0 ? [1, 2] : [2, 1], "chess");
+        await time.increase(HOUR);
+      }
+      const report = await scanner.scan();
+      expect(report.matches).to.equal(21);
+      const cluster = report.clusters.find((c) => c.players.includes(carol.address))!;
+      expect(cluster.players).to.deep.equal([carol.address, dave.address]);
+      expect(cluster.findings.map((f) => f.kind)).to.deep.equal(["repeat-pair", "win-trading"]);
+      expect(cluster.matchIds).to.include.members([11, 13, 20]);
+    });
+
+    it("Should file credential disputes with the cluster's evidence hash", async function () {
+      const { disputes, scanner, alice, bob, challenger } = await loadFixture(deployScanFixture);
+      const report = await scanner.scan();
+      const evidenceHash = ethers.id(collusionEvidence(report.clusters[0]));
+
+      const planned = await scanner.fileDisputes(report, { dryRun: true });
+      expect(planned.filed).to.deep.equal([{ player: alice.address, disputeId: null, evidenceHash, txHash: null }]);
+      expect(planned.skipped).to.deep.equal([{ player: bob.address, reason: "No credential" }]);
+      expect(await disputes.hasOpenDispute(alice.address)).to.be.false;
+
+      const filed = await scanner.fileDisputes(report, { evidenceURI: () => "ipfs://bafy-collusion" });
+      expect(filed.filed).to.have.length(1);
+      expect(filed.filed[0]).to.include({ player: alice.address, disputeId: 0, evidenceHash });
+      const dispute = await disputes.getDispute(0);
+      expect(dispute.challenger).to.equal(challenger.address);
+      expect(dispute.evidenceURI).to.equal("ipfs://bafy-collusion");
+      expect(dispute.evidenceHash).to.equal(evidenceHash);
+      expect(dispute.bond).to.equal(BOND);
+
+      const again = await scanner.fileDisputes(report);
+      expect(again.skipped).to.deep.include({ player: alice.address, reason: "Dispute already open" });
+      // Clusters with fewer than `minFindings` findings are left alone
+      expect((await scanner.fileDisputes(report, { minFindings: 3 })).filed).to.be.empty;
+      await expect(
+        new SkillProofCollusionScanner(challenger).fileDisputes(report)
+      ).to.be.rejectedWith("No SkillProofDisputes address configured");
+    });
+  });
+});
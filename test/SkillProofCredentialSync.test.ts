@@ -0,0 +1,179 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { SkillProofEngine } from "../typechain-types";
+import { SkillProofCredentialSync, percentileOf } from "../sync";
+
+describe("SkillProofCredentialSync", function () {
+  async function deploySyncFixture() {
+    const [owner, alice, bob, carol, dave, other] = await ethers.getSigners();
+
+    const registry = await (await ethers.getContractFactory("SkillProofRegistry")).deploy();
+    const engine = await (await ethers.getContractFactory("SkillProofEngine")).deploy();
+    const decay = await (await ethers.getContractFactory("SkillProofDecay")).deploy(
+      await registry.getAddress(),
+      100,
+      5000
+    );
+
+    await registry.registerIssuer(owner.address, "SkillProof Engine");
+    for (const player of [alice, bob, carol, dave]) {
+      await engine.registerPlayerByAddress(player.address, 1200, ["chess"]);
+    }
+    await engine.recordMatch(alice.address, bob.address, 1, "chess");
+    await engine.recordMatch(alice.address, carol.address, 1, "chess");
+    await engine.recordMatch(bob.address, carol.address, 3, "go");
+
+    const contracts = {
+      engine: await engine.getAddress(),
+      registry: await registry.getAddress(),
+      decay: await decay.getAddress(),
+    };
+
+    return { registry, engine, decay, contracts, owner, alice, bob, carol, dave, other };
+  }
+
+  async function engineElos(engine: SkillProofEngine, players: string[]) {
+    return Promise.all(players.map(async (p) => Number((await engine.getPlayer(p)).elo)));
+  }
+
+  describe("Percentiles", function () {
+    it("Should rank a value by the share of the population strictly below it", async function () {
+      expect(percentileOf(1500, [1200, 1300, 1500, 1600])).to.equal(50);
+      expect(percentileOf(1200, [1200, 1200])).to.equal(0);
+      expect(percentileOf(2000, [2000])).to.equal(0);
+      expect(percentileOf(1000, [])).to.equal(0);
+    });
+  });
+
+  describe("Minting", function () {
+    it("Should mint credentials that match Engine stats for players with matches", async function () {
+      const { registry, engine, contracts, owner, alice, bob, carol, dave } = await loadFixture(deploySyncFixture);
+      const worker = new SkillProofCredentialSync(owner, {
+        contracts,
+        playerName: (p) => (p === alice.address ? "Alice" : "Player"),
+      });
+
+      const result = await worker.sync();
+      expect(result.actions.map((a) => [a.kind, a.player])).to.deep.equal([
+        ["mint", alice.address],
+        ["mint", bob.address],
+        ["mint", carol.address],
+      ]);
+      expect(result.applied).to.have.length(3);
+      expect(result.failed).to.be.empty;
+      expect(await registry.hasCredential(dave.address)).to.be.false;
+
+      const all = [alice.address, bob.address, carol.address, dave.address];
+      const elos = await engineElos(engine, all);
+      const cred = await registry.getCredential(alice.address);
+      expect(cred.playerName).to.equal("Alice");
+      expect(cred.issuer).to.equal(owner.address);
+      expect(cred.overallElo).to.equal(BigInt(elos[0]));
+      expect(cred.percentile).to.equal(BigInt(percentileOf(elos[0], elos)));
+      expect(cred.totalMatches).to.equal(2n);
+      expect(cred.winRate).to.equal(await engine.getWinRate(alice.address));
+      expect([...cred.skillDomains]).to.deep.equal(["chess"]);
+
+      // Bob played chess and go; go percentiles only rank players rated in go
+      const bobCred = await registry.getCredential(bob.address);
+      expect([...bobCred.skillDomains]).to.deep.equal(["chess", "go"]);
+      const goElos = await Promise.all([bob, carol].map(async (p) => Number(await engine.domainElo(p.address, "go"))));
+      expect(bobCred.skillScores[1]).to.equal(BigInt(goElos[0]));
+      expect(bobCred.skillPercentiles[1]).to.equal(BigInt(percentileOf(goElos[0], goElos)));
+    });
+
+    it("Should pick up domains and players from team and free-for-all matches", async function () {
+      const { registry, engine, contracts, owner, alice, bob, dave } = await loadFixture(deploySyncFixture);
+      await engine.recordFreeForAll([dave.address, alice.address, bob.address], [1, 2, 3], "poker");
+      const worker = new SkillProofCredentialSync(owner, { contracts });
+
+      const result = await worker.sync();
+      // Three 1v1 matches and the free-for-all, each with an EloUpdated per player
+      expect(result.events).to.equal(3 * 3 + 1 + 3);
+      expect(result.actions.map((a) => a.player)).to.include(dave.address);
+
+      const cred = await registry.getCredential(dave.address);
+      expect([...cred.skillDomains]).to.deep.equal(["chess", "poker"]);
+      expect(cred.skillScores[1]).to.equal(await engine.domainElo(dave.address, "poker"));
+      expect(cred.totalMatches).to.equal(1n);
+      expect([...(await registry.getCredential(alice.address)).skillDomains]).to.deep.equal(["chess", "poker"]);
+    });
+
+    it("Should report the plan without sending transactions in dry-run mode", async function () {
+      const { registry, contracts, owner, alice } = await loadFixture(deploySyncFixture);
+      const worker = new SkillProofCredentialSync(owner, { contracts, dryRun: true });
+
+      const result = await worker.sync();
+      expect(result.dryRun).to.be.true;
+      expect(result.actions).to.have.length(3);
+      expect(result.applied).to.be.empty;
+      expect(await registry.hasCredential(alice.address)).to.be.false;
+    });
+  });
+
+  describe("Updates", function () {
+    it("Should update changed credentials after new matches and refresh their decay", async function () {
+      const { registry, engine, decay, contracts, owner, alice, bob, carol } = await loadFixture(deploySyncFixture);
+      const worker = new SkillProofCredentialSync(owner, { contracts });
+      await worker.sync();
+
+      // No new Engine events → nothing to do
+      const idle = await worker.sync();
+      expect(idle.events).to.equal(0);
+      expect(idle.actions).to.be.empty;
+
+      await engine.recordMatch(carol.address, alice.address, 1, "chess");
+      const result = await worker.sync();
+      expect(result.events).to.equal(3);
+      expect(result.actions.every((a) => a.kind === "update")).to.be.true;
+      expect(result.actions.map((a) => a.player)).to.include.members([alice.address, carol.address]);
+
+      const elos = await engineElos(engine, [alice.address, bob.address, carol.address]);
+      const cred = await registry.getCredential(carol.address);
+      expect(cred.overallElo).to.equal(BigInt(elos[2]));
+      expect(cred.totalMatches).to.equal(3n);
+      expect(cred.skillScores[0]).to.equal(await engine.domainElo(carol.address, "chess"));
+      expect(await decay.lastRefreshed(carol.address)).to.be.greaterThan(0n);
+
+      // Everything is in step now
+      const { actions } = await worker.plan();
+      expect(actions).to.be.empty;
+    });
+
+    it("Should skip credentials held from another issuer or revoked", async function () {
+      const { registry, contracts, owner, alice, bob, other } = await loadFixture(deploySyncFixture);
+      await registry.registerIssuer(other.address, "ChessArena");
+      await registry.connect(other).mintCredential(alice.address, "Alice", 1500, 50, [], [], [], 10, 5000);
+      await registry.mintCredential(bob.address, "Bob", 1200, 50, [], [], [], 0, 0);
+      await registry.revokeCredential(bob.address);
+
+      const result = await new SkillProofCredentialSync(owner, { contracts }).sync();
+      expect(result.skipped).to.deep.equal([
+        { player: alice.address, reason: `Issued by ${other.address}` },
+        { player: bob.address, reason: "Credential revoked" },
+      ]);
+      expect(result.actions).to.have.length(1);
+      expect((await registry.getCredential(alice.address)).overallElo).to.equal(1500n);
+    });
+
+    it("Should treat writes that already landed as applied when retrying", async function () {
+      const { registry, contracts, owner, alice } = await loadFixture(deploySyncFixture);
+      const worker = new SkillProofCredentialSync(owner, { contracts, batchSize: 2, retryDelay: 0 });
+      const { actions } = await worker.plan();
+      await worker.apply(actions);
+
+      // Replaying a stale plan: every mint reverts, the re-plan shows nothing left to do
+      const replay = await worker.apply(actions);
+      expect(replay.failed).to.be.empty;
+      expect(replay.applied).to.have.length(3);
+      expect(await registry.hasCredential(alice.address)).to.be.true;
+    });
+
+    it("Should refuse to run as an address that is not an active issuer", async function () {
+      const { contracts, other } = await loadFixture(deploySyncFixture);
+      const error = await new SkillProofCredentialSync(other, { contracts }).sync().catch((e) => e);
+      expect(error.message).to.equal(`${other.address} is not an active issuer`);
+    });
+  });
+});
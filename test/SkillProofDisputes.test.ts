@@ -0,0 +1,334 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, setCode, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+
+describe("SkillProofDisputes", function () {
+  const MINIMUM_STAKE = ethers.parseEther("0.1");
+  const BOND = ethers.parseEther("0.05");
+  const RESPONSE_WINDOW = 3 * 24 * 60 * 60;
+  const RESOLUTION_WINDOW = 7 * 24 * 60 * 60;
+  const EVIDENCE_URI = "ipfs://bafy-evidence";
+  const EVIDENCE_HASH = ethers.id("tournament-logs.zip");
+  const MIN_VOTING_PERIOD = 3 * 24 * 60 * 60;
+  const QUORUM = 80;
+
+  async function deployDisputesFixture() {
+    const [owner, issuer, player, challenger, voter, other] = await ethers.getSigners();
+
+    const registry = await (await ethers.getContractFactory("SkillProofRegistry")).deploy();
+    const staking = await (await ethers.getContractFactory("SkillProofStaking")).deploy(MINIMUM_STAKE, 5000);
+    const hub = await (await ethers.getContractFactory("SkillProofHub")).deploy(
+      await registry.getAddress(),
+      ethers.ZeroAddress,
+      1500
+    );
+    const disputes = await (await ethers.getContractFactory("SkillProofDisputes")).deploy(
+      await registry.getAddress(),
+      await staking.getAddress(),
+      await hub.getAddress(),
+      BOND,
+      RESPONSE_WINDOW,
+      RESOLUTION_WINDOW
+    );
+    await staking.setArbiter(await disputes.getAddress());
+    await disputes.setGovernanceParameters(MIN_VOTING_PERIOD, QUORUM);
+
+    // issuer is staked and has minted player's credential; voter holds one from the owner
+    await registry.registerIssuer(owner.address, "FinCraft");
+    await registry.registerIssuer(issuer.address, "ChessArena");
+    await staking.connect(issuer).stake("ChessArena", { value: MINIMUM_STAKE });
+    await registry.connect(issuer).mintCredential(player.address, "Suspicious", 2400, 99, ["chess"], [2400], [99], 10, 10000);
+    await registry.mintCredential(voter.address, "Voter", 1800, 90, [], [], [], 100, 5500);
+
+    return { registry, staking, hub, disputes, owner, issuer, player, challenger, voter, other };
+  }
+
+  async function openDisputeFixture() {
+    const fixture = await loadFixture(deployDisputesFixture);
+    const { disputes, player, challenger } = fixture;
+    await disputes.connect(challenger).openDispute(player.address, EVIDENCE_URI, EVIDENCE_HASH, { value: BOND });
+    return fixture;
+  }
+
+  /** A Hub proposal, created after the dispute, that decides it */
+  async function escalatedFixture() {
+    const fixture = await loadFixture(openDisputeFixture);
+    const { hub, disputes, voter, challenger } = fixture;
+    const deadline = (await time.latest()) + MIN_VOTING_PERIOD + 60;
+    await hub.connect(voter).createProposal(await disputes.proposalDescription(0), deadline);
+    await disputes.connect(challenger).escalateToGovernance(0, 0);
+    return { ...fixture, deadline };
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // Opening
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  describe("Opening", function () {
+    it("Should open a bonded dispute against the credential's issuer", async function () {
+      const { disputes, issuer, player, challenger } = await loadFixture(deployDisputesFixture);
+
+      await expect(
+        disputes.connect(challenger).openDispute(player.address, EVIDENCE_URI, EVIDENCE_HASH, { value: BOND })
+      )
+        .to.emit(disputes, "DisputeOpened")
+        .withArgs(0, issuer.address, player.address, challenger.address, EVIDENCE_URI, EVIDENCE_HASH, BOND);
+
+      const d = await disputes.getDispute(0);
+      expect(d.challenger).to.equal(challenger.address);
+      expect(d.issuer).to.equal(issuer.address);
+      expect(d.bond).to.equal(BOND);
+      expect(d.responseDeadline).to.equal(d.openedAt + BigInt(RESPONSE_WINDOW));
+      expect(d.status).to.equal(0); // Open
+      expect(await disputes.resolutionDeadline(0)).to.equal(d.responseDeadline + BigInt(RESOLUTION_WINDOW));
+      expect(await disputes.getIssuerDisputes(issuer.address)).to.deep.equal([0n]);
+      expect(await disputes.hasOpenDispute(player.address)).to.be.true;
+      expect(await ethers.provider.getBalance(await disputes.getAddress())).to.equal(BOND);
+    });
+
+    it("Should reject a low bond or missing evidence", async function () {
+      const { disputes, player, challenger } = await loadFixture(deployDisputesFixture);
+
+      await expect(
+        disputes.connect(challenger).openDispute(player.address, EVIDENCE_URI, ethers.ZeroHash, { value: BOND - 1n })
+      ).to.be.revertedWith("Bond too low");
+      await expect(
+        disputes.connect(challenger).openDispute(player.address, "", ethers.ZeroHash, { value: BOND })
+      ).to.be.revertedWith("No evidence");
+
+      // Either kind of evidence is enough
+      await disputes.connect(challenger).openDispute(player.address, "", EVIDENCE_HASH, { value: BOND });
+    });
+
+    it("Should reject missing, revoked or already disputed credentials", async function () {
+      const { registry, disputes, issuer, player, challenger, other } = await loadFixture(deployDisputesFixture);
+
+      await expect(
+        disputes.connect(challenger).openDispute(other.address, EVIDENCE_URI, EVIDENCE_HASH, { value: BOND })
+      ).to.be.revertedWith("No credential");
+
+      await disputes.connect(challenger).openDispute(player.address, EVIDENCE_URI, EVIDENCE_HASH, { value: BOND });
+      await expect(
+        disputes.connect(other).openDispute(player.address, EVIDENCE_URI, EVIDENCE_HASH, { value: BOND })
+      ).to.be.revertedWith("Dispute already open");
+
+      await registry.connect(issuer).revokeCredential(player.address);
+      await expect(
+        disputes.connect(other).openDispute(player.address, EVIDENCE_URI, EVIDENCE_HASH, { value: BOND })
+      ).to.be.revertedWith("Credential revoked");
+    });
+  });
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // Issuer Response
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  describe("Issuer Response", function () {
+    it("Should let the issuer respond within the window", async function () {
+      const { disputes, issuer } = await loadFixture(openDisputeFixture);
+
+      await expect(disputes.connect(issuer).respond(0, "ipfs://bafy-rebuttal"))
+        .to.emit(disputes, "DisputeResponded")
+        .withArgs(0, "ipfs://bafy-rebuttal");
+      expect((await disputes.getDispute(0)).responseURI).to.equal("ipfs://bafy-rebuttal");
+    });
+
+    it("Should reject responses from others or after the window", async function () {
+      const { disputes, issuer, challenger } = await loadFixture(openDisputeFixture);
+
+      await expect(disputes.connect(challenger).respond(0, "ipfs://x")).to.be.revertedWith("Only issuer");
+
+      await time.increase(RESPONSE_WINDOW + 1);
+      await expect(disputes.connect(issuer).respond(0, "ipfs://x")).to.be.revertedWith("Response window closed");
+    });
+  });
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // Arbiter Resolution
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  describe("Arbiter Resolution", function () {
+    it("Should slash the issuer and refund the challenger when upheld", async function () {
+      const { staking, disputes, issuer, player, challenger } = await loadFixture(openDisputeFixture);
+      await time.increase(RESPONSE_WINDOW + 1);
+
+      const tx = disputes.resolve(0, true);
+      await expect(tx).to.emit(disputes, "DisputeResolved").withArgs(0, true, false, true);
+      await expect(tx).to.emit(staking, "Slashed").withArgs(issuer.address, MINIMUM_STAKE / 2n, "Upheld credential dispute");
+      await expect(tx).to.changeEtherBalances([challenger, disputes], [0, 0]);
+      expect(await disputes.claimable(challenger.address)).to.equal(BOND);
+
+      const withdrawal = disputes.connect(challenger).withdraw();
+      await expect(withdrawal).to.emit(disputes, "Withdrawn").withArgs(challenger.address, BOND);
+      await expect(withdrawal).to.changeEtherBalances([challenger, disputes], [BOND, -BOND]);
+      await expect(disputes.connect(challenger).withdraw()).to.be.revertedWith("Nothing to withdraw");
+
+      const d = await disputes.getDispute(0);
+      expect(d.status).to.equal(1); // Upheld
+      expect(d.slashed).to.be.true;
+      expect(await staking.isValidIssuer(issuer.address)).to.be.false;
+      expect(await disputes.hasOpenDispute(player.address)).to.be.false;
+    });
+
+    it("Should forfeit the bond to the issuer when rejected", async function () {
+      const { staking, disputes, issuer, challenger } = await loadFixture(openDisputeFixture);
+      await disputes.connect(issuer).respond(0, "ipfs://bafy-rebuttal");
+
+      // A response lets the arbiter rule before the window closes
+      const tx = disputes.resolve(0, false);
+      await expect(tx).to.emit(disputes, "DisputeResolved").withArgs(0, false, false, false);
+      expect(await disputes.claimable(issuer.address)).to.equal(BOND);
+      expect(await disputes.claimable(challenger.address)).to.equal(0);
+      expect((await disputes.getDispute(0)).status).to.equal(2); // Rejected
+      expect(await staking.isValidIssuer(issuer.address)).to.be.true;
+    });
+
+    it("Should still uphold a dispute when the issuer has no stake left", async function () {
+      const { staking, disputes, issuer } = await loadFixture(openDisputeFixture);
+      await time.increase(7 * 24 * 60 * 60);
+      await staking.connect(issuer).unstake();
+
+      await expect(disputes.resolve(0, true)).to.emit(disputes, "DisputeResolved").withArgs(0, true, false, false);
+      expect((await disputes.getDispute(0)).slashed).to.be.false;
+    });
+
+    it("Should not let a recipient that rejects ETH block a ruling", async function () {
+      const { disputes, challenger } = await loadFixture(openDisputeFixture);
+      await time.increase(RESPONSE_WINDOW + 1);
+
+      // The challenger turns out to be a contract whose code reverts on receipt
+      await setCode(challenger.address, "0xfe");
+      await expect(disputes.resolve(0, true)).to.emit(disputes, "DisputeResolved");
+      expect(await disputes.claimable(challenger.address)).to.equal(BOND);
+      expect(await ethers.provider.getBalance(await disputes.getAddress())).to.equal(BOND);
+    });
+
+    it("Should only let the arbiter rule once the issuer had a chance to respond", async function () {
+      const { disputes, other } = await loadFixture(openDisputeFixture);
+
+      await expect(disputes.resolve(0, true)).to.be.revertedWith("Response window open");
+      await time.increase(RESPONSE_WINDOW + 1);
+      await expect(disputes.connect(other).resolve(0, true)).to.be.revertedWith("Only arbiter");
+
+      await disputes.resolve(0, true);
+      await expect(disputes.resolve(0, false)).to.be.revertedWith("Dispute closed");
+    });
+  });
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // Governance Resolution
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  describe("Governance Resolution", function () {
+    it("Should settle an escalated dispute from the Hub vote", async function () {
+      const { hub, disputes, voter, issuer, challenger, deadline } = await loadFixture(escalatedFixture);
+      expect((await disputes.getDispute(0)).escalated).to.be.true;
+
+      await hub.connect(voter).vote(0, true);
+      await expect(disputes.resolveByVote(0)).to.be.revertedWith("Voting not ended");
+      await expect(disputes.resolve(0, false)).to.be.revertedWith("Escalated to governance");
+
+      await time.increaseTo(deadline);
+      const tx = disputes.connect(issuer).resolveByVote(0);
+      await expect(tx).to.emit(disputes, "DisputeResolved").withArgs(0, true, true, true);
+      expect(await disputes.claimable(challenger.address)).to.equal(BOND);
+    });
+
+    it("Should expire an escalated dispute whose vote missed quorum", async function () {
+      const { disputes, challenger, deadline } = await loadFixture(escalatedFixture);
+
+      await time.increaseTo(deadline);
+      await expect(disputes.resolveByVote(0)).to.emit(disputes, "DisputeExpired").withArgs(0);
+      expect(await disputes.claimable(challenger.address)).to.equal(BOND);
+      expect((await disputes.getDispute(0)).status).to.equal(3); // Expired
+    });
+
+    it("Should only link proposals created after the dispute, by a party", async function () {
+      const { hub, disputes, player, voter, challenger, other } = await loadFixture(deployDisputesFixture);
+      const deadline = (await time.latest()) + MIN_VOTING_PERIOD + 60;
+      await hub.connect(voter).createProposal("Unrelated", deadline);
+      await disputes.connect(challenger).openDispute(player.address, EVIDENCE_URI, EVIDENCE_HASH, { value: BOND });
+
+      await expect(disputes.connect(challenger).escalateToGovernance(0, 0)).to.be.revertedWith("Invalid proposal");
+      await expect(disputes.connect(challenger).escalateToGovernance(0, 1)).to.be.revertedWith("Invalid proposal");
+
+      await hub.connect(voter).createProposal(await disputes.proposalDescription(0), deadline);
+      await expect(disputes.connect(other).escalateToGovernance(0, 1)).to.be.revertedWith("Not a party");
+      await expect(disputes.connect(challenger).escalateToGovernance(0, 1))
+        .to.emit(disputes, "DisputeEscalated")
+        .withArgs(0, 1);
+      await expect(disputes.escalateToGovernance(0, 1)).to.be.revertedWith("Already escalated");
+    });
+
+    it("Should not settle from a short proposal only the challenger votes on", async function () {
+      const { registry, hub, disputes, issuer, challenger, other } = await loadFixture(openDisputeFixture);
+      const description = await disputes.proposalDescription(0);
+      expect(description).to.equal(
+        `Uphold SkillProofDisputes ${(await disputes.getAddress()).toLowerCase()} dispute #0? Yes slashes the issuer.`
+      );
+
+      // The challenger holds a weak credential and writes their own proposals
+      await registry.mintCredential(challenger.address, "Challenger", 1300, 40, [], [], [], 20, 5000);
+      const now = await time.latest();
+      await hub.connect(challenger).createProposal(description, now + 60);
+      await expect(disputes.connect(challenger).escalateToGovernance(0, 0)).to.be.revertedWith("Voting period too short");
+      await hub.connect(challenger).createProposal("Slash ChessArena?", now + MIN_VOTING_PERIOD + 60);
+      await expect(disputes.connect(challenger).escalateToGovernance(0, 1)).to.be.revertedWith("Wrong proposal description");
+
+      // A proposal for dispute #0 cannot decide another dispute
+      await registry.connect(issuer).mintCredential(other.address, "Other", 1800, 90, [], [], [], 100, 5500);
+      await disputes.connect(challenger).openDispute(other.address, EVIDENCE_URI, EVIDENCE_HASH, { value: BOND });
+      const deadline = (await time.latest()) + MIN_VOTING_PERIOD + 60;
+      await hub.connect(challenger).createProposal(description, deadline);
+      await expect(disputes.connect(challenger).escalateToGovernance(1, 2)).to.be.revertedWith("Wrong proposal description");
+
+      // Long enough and correctly described, but one weak vote is below quorum
+      await disputes.connect(challenger).escalateToGovernance(0, 2);
+      await hub.connect(challenger).vote(2, true);
+      await time.increaseTo(deadline);
+      await expect(disputes.resolveByVote(0)).to.emit(disputes, "DisputeExpired").withArgs(0);
+      expect(await disputes.claimable(issuer.address)).to.equal(0);
+      expect((await disputes.getDispute(0)).slashed).to.be.false;
+      expect((await hub.getProposal(2)).yesWeight).to.be.lessThan(QUORUM);
+    });
+  });
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // Expiry & Admin
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  describe("Expiry & Admin", function () {
+    it("Should refund the challenger once the resolution window passes", async function () {
+      const { disputes, player, challenger, other } = await loadFixture(openDisputeFixture);
+
+      await time.increase(RESPONSE_WINDOW + 1);
+      await expect(disputes.connect(other).expire(0)).to.be.revertedWith("Not expired");
+
+      await time.increase(RESOLUTION_WINDOW);
+      await expect(disputes.resolve(0, true)).to.be.revertedWith("Dispute expired");
+      await expect(disputes.connect(other).expire(0)).to.emit(disputes, "DisputeExpired").withArgs(0);
+      expect(await disputes.claimable(challenger.address)).to.equal(BOND);
+      expect(await disputes.hasOpenDispute(player.address)).to.be.false;
+    });
+
+    it("Should restrict arbiter and parameter changes to the owner", async function () {
+      const { disputes, other } = await loadFixture(deployDisputesFixture);
+
+      await expect(disputes.connect(other).setArbiter(other.address)).to.be.revertedWith("Only owner");
+      await expect(disputes.connect(other).setParameters(0, 0, 0)).to.be.revertedWith("Only owner");
+      await expect(disputes.connect(other).setGovernanceParameters(0, 1)).to.be.revertedWith("Only owner");
+      await expect(disputes.setGovernanceParameters(60, 0)).to.be.revertedWith("Quorum must be positive");
+
+      await expect(disputes.setArbiter(other.address)).to.emit(disputes, "ArbiterUpdated").withArgs(other.address);
+      await expect(disputes.setParameters(BOND * 2n, 60, 120))
+        .to.emit(disputes, "DisputeParametersUpdated")
+        .withArgs(BOND * 2n, 60, 120);
+      await expect(disputes.setGovernanceParameters(60, 500))
+        .to.emit(disputes, "GovernanceParametersUpdated")
+        .withArgs(60, 500);
+      expect(await disputes.arbiter()).to.equal(other.address);
+      expect(await disputes.disputeBond()).to.equal(BOND * 2n);
+      expect(await disputes.quorum()).to.equal(500);
+    });
+  });
+});
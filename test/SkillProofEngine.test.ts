@@ -1,10 +1,38 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
-import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { MATCH_REPORT_TYPES, MatchReport, matchReportDomain, signMatchReport } from "../relayer";
+import {
+  EloRating,
+  applyEloChange,
+  expectedScore,
+  logisticExpectedScore,
+  simulateEloMatch,
+  simulateTeamMatch,
+} from "../sdk/elo";
+import {
+  GlickoRating,
+  conservativeRating,
+  glickoPeriodUpdate,
+  glickoUpdate,
+  inflateRd,
+  initialGlicko,
+  teamGlicko,
+} from "../sdk/glicko";
 
 describe("SkillProofEngine", function () {
   const BASE_ELO = 1200n;
 
+  // Deterministic PRNG (mulberry32) so differential runs are reproducible
+  function random(seed: number) {
+    return () => {
+      seed = (seed + 0x6d2b79f5) | 0;
+      let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+      t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+
   async function deployEngineFixture() {
     const [owner, reporter, playerA, playerB, playerC, unauthorized] =
       await ethers.getSigners();
@@ -88,6 +116,15 @@ describe("SkillProofEngine", function () {
       expect(await engine.getDomainElo(playerA.address, "derivatives")).to.equal(BASE_ELO);
     });
 
+    it("Should expose registered domains", async function () {
+      const { engine, playerA, playerB } = await loadFixture(deployEngineFixture);
+
+      await engine.connect(playerA).registerPlayer(["market-making", "derivatives"]);
+
+      expect(await engine.getPlayerDomains(playerA.address)).to.deep.equal(["market-making", "derivatives"]);
+      expect(await engine.getPlayerDomains(playerB.address)).to.deep.equal([]);
+    });
+
     it("Should track player count and list", async function () {
       const { engine, playerA, playerB } = await loadFixture(deployEngineFixture);
 
@@ -130,16 +167,16 @@ describe("SkillProofEngine", function () {
       await engine.connect(reporter).registerPlayerByAddress(playerA.address, 1400, ["quant"]);
       await engine.connect(reporter).registerPlayerByAddress(playerB.address, 1000, ["quant"]);
 
-      // diff = 400, expected1 = 9000
-      // change1 = 32 * (10000 - 9000) / 10000 = 3
+      // diff = 400, expected1 = 9091
+      // change1 = 32 * (10000 - 9091) / 10000 = 2
       await engine.connect(reporter).recordMatch(
         playerA.address, playerB.address, 1, "quant"
       );
 
       const pA = await engine.getPlayer(playerA.address);
       const pB = await engine.getPlayer(playerB.address);
-      expect(pA.elo).to.equal(1403); // +3
-      expect(pB.elo).to.equal(997);  // -3
+      expect(pA.elo).to.equal(1402); // +2
+      expect(pB.elo).to.equal(998);  // -2
     });
 
     it("Upset: lower-rated beats higher — big gain, big loss", async function () {
@@ -150,16 +187,16 @@ describe("SkillProofEngine", function () {
       await engine.connect(reporter).registerPlayerByAddress(playerA.address, 1000, ["quant"]);
       await engine.connect(reporter).registerPlayerByAddress(playerB.address, 1400, ["quant"]);
 
-      // diff for A = 1000 - 1400 = -400, expected_A = 1000
-      // change_A = 32 * (10000 - 1000) / 10000 = 28
+      // diff for A = 1000 - 1400 = -400, expected_A = 909
+      // change_A = 32 * (10000 - 909) / 10000 = 29
       await engine.connect(reporter).recordMatch(
         playerA.address, playerB.address, 1, "quant"
       );
 
       const pA = await engine.getPlayer(playerA.address);
       const pB = await engine.getPlayer(playerB.address);
-      expect(pA.elo).to.equal(1028); // +28
-      expect(pB.elo).to.equal(1372); // -28
+      expect(pA.elo).to.equal(1029); // +29
+      expect(pB.elo).to.equal(1371); // -29
     });
 
     it("Draw between equal players: no change", async function () {
@@ -184,30 +221,30 @@ describe("SkillProofEngine", function () {
       await engine.connect(reporter).registerPlayerByAddress(playerA.address, 1400, ["quant"]);
       await engine.connect(reporter).registerPlayerByAddress(playerB.address, 1000, ["quant"]);
 
-      // For A (1400): expected = 9000, actual = 5000
-      // change_A = 32 * (5000 - 9000) / 10000 = -12
-      // For B (1000): expected = 1000, actual = 5000
-      // change_B = 32 * (5000 - 1000) / 10000 = 12
+      // For A (1400): expected = 9091, actual = 5000
+      // change_A = 32 * (5000 - 9091) / 10000 = -13
+      // For B (1000): expected = 909, actual = 5000
+      // change_B = 32 * (5000 - 909) / 10000 = 13
       await engine.connect(reporter).recordMatch(
         playerA.address, playerB.address, 3, "quant"
       );
 
       const pA = await engine.getPlayer(playerA.address);
       const pB = await engine.getPlayer(playerB.address);
-      expect(pA.elo).to.equal(1388); // -12
-      expect(pB.elo).to.equal(1012); // +12
+      expect(pA.elo).to.equal(1387); // -13
+      expect(pB.elo).to.equal(1013); // +13
     });
 
     it("ELO floor at 100 — cannot go below", async function () {
       const { engine, reporter, playerA, playerB } =
         await loadFixture(deployEngineFixture);
 
-      // Register A at 102 (near floor), B at 1400
-      // diff = -1298 clamped to -400, expected_A = 1000
-      // A loses: change = 32 * (0 - 1000) / 10000 = -3
-      // _applyChange(102, -3): decrease(3) >= 102-100(2) → floor at 100
-      await engine.connect(reporter).registerPlayerByAddress(playerA.address, 102, ["quant"]);
-      await engine.connect(reporter).registerPlayerByAddress(playerB.address, 1400, ["quant"]);
+      // Register A at 105 (near floor), B at 200
+      // diff = -95, expected_A = 10000 - (6401 + (6725 - 6401) * 20 / 25) = 3340
+      // A loses: change = 32 * (0 - 3340) / 10000 = -10
+      // _applyChange(105, -10): decrease(10) >= 105-100(5) → floor at 100
+      await engine.connect(reporter).registerPlayerByAddress(playerA.address, 105, ["quant"]);
+      await engine.connect(reporter).registerPlayerByAddress(playerB.address, 200, ["quant"]);
 
       await engine.connect(reporter).recordMatch(
         playerA.address, playerB.address, 2, "quant"
@@ -218,6 +255,86 @@ describe("SkillProofEngine", function () {
     });
   });
 
+  // ═══════════════════════════════════════════════════════════════════════════
+  // Expected Score Curve
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  describe("Expected Score Curve", function () {
+    it("Should stay within 0.5% of the logistic curve over ±800 points", async function () {
+      const { engine } = await loadFixture(deployEngineFixture);
+
+      for (let diff = -800; diff <= 800; diff += 5) {
+        const onChain = Number(await engine.expectedScore(2000 + diff, 2000)) / 10000;
+        expect(Math.abs(onChain - logisticExpectedScore(2000 + diff, 2000))).to.be.lessThan(0.005);
+      }
+    });
+
+    it("Should be symmetric and clamp beyond ±800 points", async function () {
+      const { engine } = await loadFixture(deployEngineFixture);
+
+      expect(await engine.expectedScore(1500, 1500)).to.equal(5000);
+      expect(await engine.expectedScore(1900, 1500)).to.equal(9091);
+      expect(await engine.expectedScore(1500, 1900)).to.equal(909);
+      expect(await engine.expectedScore(3000, 100)).to.equal(await engine.expectedScore(1300, 500));
+      expect(await engine.expectedScore(100, 3000)).to.equal(99);
+    });
+
+    it("Should match the TS model over thousands of random matchups", async function () {
+      const { engine } = await loadFixture(deployEngineFixture);
+      const rand = random(18);
+
+      for (let i = 0; i < 2000; i++) {
+        const a = 100 + Math.floor(rand() * 2900);
+        const b = 100 + Math.floor(rand() * 2900);
+        expect(Number(await engine.expectedScore(a, b))).to.equal(expectedScore(a, b), `${a} vs ${b}`);
+      }
+    });
+
+    it("Should replay random match histories exactly like the TS model", async function () {
+      const { engine, reporter } = await loadFixture(deployEngineFixture);
+      const rand = random(42);
+      const signers = (await ethers.getSigners()).slice(6, 14);
+
+      // Spread across K-factor bands, including experts and players near the floor
+      const model = new Map<string, EloRating>();
+      for (const s of signers) {
+        const elo = 120 + Math.floor(rand() * 2200);
+        await engine.connect(reporter).registerPlayerByAddress(s.address, elo, []);
+        model.set(s.address, { elo, totalMatches: 0 });
+      }
+
+      const matches = Array.from({ length: 240 }, () => {
+        const i = Math.floor(rand() * signers.length);
+        const j = (i + 1 + Math.floor(rand() * (signers.length - 1))) % signers.length;
+        return {
+          player1: signers[i].address,
+          player2: signers[j].address,
+          outcome: 1 + Math.floor(rand() * 3),
+          domain: "",
+        };
+      });
+      for (let i = 0; i < matches.length; i += 60) {
+        await engine.connect(reporter).recordMatches(matches.slice(i, i + 60));
+      }
+
+      for (const [id, m] of matches.entries()) {
+        const p1 = model.get(m.player1)!;
+        const p2 = model.get(m.player2)!;
+        const { player1Change, player2Change } = simulateEloMatch(p1, p2, m.outcome as 1 | 2 | 3);
+        const recorded = await engine.getMatch(id);
+        expect([Number(recorded.player1EloChange), Number(recorded.player2EloChange)]).to.deep.equal(
+          [player1Change, player2Change],
+          `match ${id}`
+        );
+        model.set(m.player1, { elo: applyEloChange(p1.elo, player1Change), totalMatches: p1.totalMatches + 1 });
+        model.set(m.player2, { elo: applyEloChange(p2.elo, player2Change), totalMatches: p2.totalMatches + 1 });
+      }
+      for (const [address, p] of model) {
+        expect((await engine.getPlayer(address)).elo).to.equal(p.elo);
+      }
+    });
+  });
+
   // ═══════════════════════════════════════════════════════════════════════════
   // K-Factor
   // ═══════════════════════════════════════════════════════════════════════════
@@ -495,6 +612,877 @@ describe("SkillProofEngine", function () {
     });
   });
 
+  // ═══════════════════════════════════════════════════════════════════════════
+  // Batch Recording
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  describe("Batch Recording", function () {
+    it("Should record a batch with the same results as one-by-one recording", async function () {
+      const { engine, reporter, playerA, playerB, playerC } =
+        await loadFixture(registeredPlayersFixture);
+      const players = [playerA, playerB, playerC];
+      const matches = [
+        { player1: playerA.address, player2: playerB.address, outcome: 1, domain: "derivatives" },
+        { player1: playerB.address, player2: playerC.address, outcome: 3, domain: "" },
+        { player1: playerC.address, player2: playerA.address, outcome: 1, domain: "derivatives" },
+      ];
+
+      for (const m of matches) {
+        await engine.connect(reporter).recordMatch(m.player1, m.player2, m.outcome, m.domain);
+      }
+      const sequential = await Promise.all(players.map(async (p) => (await engine.getPlayer(p.address)).elo));
+
+      // Back to the fixture snapshot: same contract, no matches
+      const { engine: fresh } = await loadFixture(registeredPlayersFixture);
+      await expect(fresh.connect(reporter).recordMatches(matches)).to.emit(fresh, "MatchRecorded");
+
+      for (const [i, p] of players.entries()) {
+        expect((await fresh.getPlayer(p.address)).elo).to.equal(sequential[i]);
+      }
+      expect(await fresh.getMatchCount()).to.equal(3);
+      expect(await fresh.domainElo(playerA.address, "derivatives")).to.equal(sequential[0]);
+    });
+
+    it("Should revert the whole batch if one match is invalid", async function () {
+      const { engine, reporter, playerA, playerB, unauthorized } =
+        await loadFixture(registeredPlayersFixture);
+
+      await expect(
+        engine.connect(reporter).recordMatches([
+          { player1: playerA.address, player2: playerB.address, outcome: 1, domain: "" },
+          { player1: playerA.address, player2: unauthorized.address, outcome: 1, domain: "" },
+        ])
+      ).to.be.revertedWith("Player 2 not registered");
+      expect(await engine.getMatchCount()).to.equal(0);
+    });
+
+    it("Should reject unauthorized and empty batches", async function () {
+      const { engine, reporter, playerA, playerB, unauthorized } =
+        await loadFixture(registeredPlayersFixture);
+
+      await expect(
+        engine.connect(unauthorized).recordMatches([
+          { player1: playerA.address, player2: playerB.address, outcome: 1, domain: "" },
+        ])
+      ).to.be.revertedWith("Not authorized");
+      await expect(engine.connect(reporter).recordMatches([])).to.be.revertedWith("Empty batch");
+    });
+  });
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // Team Matches
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  describe("Team Matches", function () {
+    // Eight seeded players: fresh addresses at the given ratings and match counts
+    async function teamFixture() {
+      const { engine, owner, reporter, unauthorized } = await loadFixture(deployEngineFixture);
+      const elos = [1500, 1320, 1610, 1180, 2050, 990, 1400, 1400];
+      const players = elos.map(() => ethers.Wallet.createRandom().address);
+      for (const [i, player] of players.entries()) {
+        await engine.registerPlayerByAddress(player, elos[i], ["arena"]);
+      }
+      return { engine, owner, reporter, unauthorized, players, elos };
+    }
+
+    const rated = (elo: number) => ({ elo, totalMatches: 0 });
+
+    it("Should rate a 2v2 match pairwise from team averages", async function () {
+      const { engine, reporter, players, elos } = await loadFixture(teamFixture);
+      const [a, b, c, d] = players;
+      const expected = simulateTeamMatch(
+        [
+          [rated(elos[0]), rated(elos[1])],
+          [rated(elos[2]), rated(elos[3])],
+        ],
+        [1, 2]
+      ).flat();
+
+      await expect(engine.connect(reporter).recordTeamMatch([[a, b], [c, d]], [1, 2], "arena"))
+        .to.emit(engine, "TeamMatchRecorded")
+        .withArgs(0, [a, b, c, d], [0, 0, 1, 1], [1, 1, 2, 2], expected);
+
+      const m = await engine.getMatch(0);
+      expect(m.outcome).to.equal(0);
+      expect(m.player1).to.equal(ethers.ZeroAddress);
+      expect(m.participants).to.deep.equal([a, b, c, d]);
+      expect(m.elosBefore).to.deep.equal(elos.slice(0, 4).map(BigInt));
+      expect(m.eloChanges).to.deep.equal(expected.map(BigInt));
+      expect(m.domain).to.equal("arena");
+
+      const pa = await engine.getPlayer(a);
+      expect(pa.elo).to.equal(elos[0] + expected[0]);
+      expect(pa.wins).to.equal(1);
+      expect((await engine.getPlayer(d)).losses).to.equal(1);
+      expect(await engine.domainElo(c, "arena")).to.equal(elos[2] + expected[2]);
+      expect(await engine.totalMatches()).to.equal(1);
+    });
+
+    it("Should rate a 1v1 team match exactly like recordMatch", async function () {
+      const { engine, reporter, players, elos } = await loadFixture(teamFixture);
+      const [change1, change2] = await engine.simulateMatch(players[0], players[2], 2);
+      const { player1Change, player2Change } = simulateEloMatch(rated(elos[0]), rated(elos[2]), 2);
+      expect([change1, change2]).to.deep.equal([BigInt(player1Change), BigInt(player2Change)]);
+
+      await engine.connect(reporter).recordTeamMatch([[players[0]], [players[2]]], [2, 1], "");
+      expect((await engine.getMatch(0)).eloChanges).to.deep.equal([change1, change2]);
+    });
+
+    it("Should rate a free-for-all with shared placements", async function () {
+      const { engine, reporter, players, elos } = await loadFixture(teamFixture);
+      const field = players.slice(0, 6);
+      const placements = [3, 1, 1, 4, 5, 6];
+
+      await engine.connect(reporter).recordFreeForAll(field, placements, "");
+
+      const expected = simulateTeamMatch(
+        field.map((_, i) => [rated(elos[i])]),
+        placements
+      ).flat();
+      const m = await engine.getMatch(0);
+      expect(m.teams).to.deep.equal([0n, 1n, 2n, 3n, 4n, 5n]);
+      expect(m.placements).to.deep.equal(placements.map(BigInt));
+      expect(m.eloChanges).to.deep.equal(expected.map(BigInt));
+      // The shared winner gains, last place loses
+      expect(expected[1]).to.be.greaterThan(0);
+      expect(expected[5]).to.be.lessThan(0);
+
+      // Tied for first counts as a draw, every other finish as a loss
+      const second = await engine.getPlayer(field[1]);
+      expect([second.wins, second.draws, second.losses]).to.deep.equal([0n, 1n, 0n]);
+      expect((await engine.getPlayer(field[0])).losses).to.equal(1);
+    });
+
+    it("Should match the ELO model across random team and free-for-all matches", async function () {
+      const { engine, reporter, players, elos } = await loadFixture(teamFixture);
+      const next = random(20);
+      const model = players.map((_, i) => rated(elos[i]));
+
+      for (let round = 0; round < 25; round++) {
+        // Shuffle, then split into 2-4 teams (free-for-all when every team has one player)
+        const order = [...players.keys()].sort(() => next() - 0.5);
+        const teamCount = 2 + Math.floor(next() * 3);
+        const perTeam = next() < 0.4 ? 1 : Math.floor(players.length / teamCount);
+        const teams = Array.from({ length: teamCount }, (_, t) => order.slice(t * perTeam, (t + 1) * perTeam));
+        const placements = teams.map(() => 1 + Math.floor(next() * teamCount));
+
+        await engine.connect(reporter).recordTeamMatch(
+          teams.map((team) => team.map((i) => players[i])),
+          placements,
+          ""
+        );
+
+        const changes = simulateTeamMatch(teams.map((team) => team.map((i) => model[i])), placements);
+        teams.forEach((team, t) =>
+          team.forEach((i, j) => {
+            model[i] = { elo: applyEloChange(model[i].elo, changes[t][j]), totalMatches: model[i].totalMatches + 1 };
+          })
+        );
+      }
+
+      for (const [i, player] of players.entries()) {
+        const p = await engine.getPlayer(player);
+        expect(Number(p.elo)).to.equal(model[i].elo);
+        expect(Number(p.matchCount)).to.equal(model[i].totalMatches);
+      }
+    });
+
+    it("Should rate team matches in Glicko-2 against each opposing team", async function () {
+      const { engine, owner, reporter, players, elos } = await loadFixture(teamFixture);
+      await engine.connect(owner).setGlickoConfig(true, 7 * 24 * 3600);
+      const teams = [[0, 1], [2, 3], [4, 5]];
+      const placements = [2, 1, 2];
+
+      await engine.connect(reporter).recordTeamMatch(
+        teams.map((team) => team.map((i) => players[i])),
+        placements,
+        ""
+      );
+
+      const composite = teams.map((team) => teamGlicko(team.map((i) => initialGlicko(elos[i]))));
+      for (const [t, team] of teams.entries()) {
+        const results = teams
+          .map((_, u) => ({
+            opponent: composite[u],
+            score: placements[t] < placements[u] ? 1 : placements[t] > placements[u] ? 0 : 0.5,
+          }))
+          .filter((_, u) => u !== t);
+        for (const i of team) {
+          const expected = glickoPeriodUpdate(initialGlicko(elos[i]), results);
+          const g = await engine.getGlicko(players[i]);
+          expect(Number(ethers.formatEther(g.rating))).to.be.closeTo(expected.rating, 1e-6);
+          expect(Number(ethers.formatEther(g.rd))).to.be.closeTo(expected.rd, 1e-6);
+        }
+      }
+    });
+
+    it("Should reject invalid team matches", async function () {
+      const { engine, reporter, unauthorized, players } = await loadFixture(teamFixture);
+      const [a, b, c, d] = players;
+      const record = (teams: string[][], placements: number[]) =>
+        engine.connect(reporter).recordTeamMatch(teams, placements, "");
+
+      await expect(engine.connect(unauthorized).recordTeamMatch([[a], [b]], [1, 2], "")).to.be.revertedWith(
+        "Not authorized"
+      );
+      await expect(record([[a], [b]], [1])).to.be.revertedWith("Length mismatch");
+      await expect(record([[a, b]], [1])).to.be.revertedWith("Invalid team count");
+      await expect(record([[a, b], []], [1, 2])).to.be.revertedWith("Empty team");
+      await expect(record([[a], [b]], [0, 1])).to.be.revertedWith("Invalid placement");
+      await expect(record([[a], [b]], [1, 3])).to.be.revertedWith("Invalid placement");
+      await expect(record([[a, b], [c, a]], [1, 2])).to.be.revertedWith("Duplicate player");
+      await expect(record([[a, b], [c, unauthorized.address]], [1, 2])).to.be.revertedWith(
+        "Player not registered"
+      );
+      await expect(record([Array(17).fill(a), Array(16).fill(b)], [1, 2])).to.be.revertedWith("Too many players");
+      await expect(
+        engine.connect(reporter).recordFreeForAll(Array(17).fill(d), Array(17).fill(1), "")
+      ).to.be.revertedWith("Invalid team count");
+      expect(await engine.getMatchCount()).to.equal(0);
+    });
+  });
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // Signed Reports
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  describe("Signed Reports", function () {
+    async function signedReportFixture() {
+      const fixture = await loadFixture(registeredPlayersFixture);
+      const { engine, reporter, playerA, playerB } = fixture;
+      const domain = await matchReportDomain(await engine.getAddress(), ethers.provider);
+      const report: MatchReport = {
+        player1: playerA.address,
+        player2: playerB.address,
+        outcome: 1,
+        domain: "derivatives",
+        reporter: reporter.address,
+        nonce: 0,
+        deadline: (await time.latest()) + 3600,
+      };
+      return { ...fixture, domain, report };
+    }
+
+    it("Should record a reporter-signed report relayed by anyone", async function () {
+      const { engine, reporter, unauthorized, domain, report } = await loadFixture(signedReportFixture);
+      const sig = await signMatchReport(reporter, domain, report);
+
+      await expect(engine.connect(unauthorized).submitMatchReport(report, [sig]))
+        .to.emit(engine, "MatchReportRelayed")
+        .withArgs(0, reporter.address, 0, unauthorized.address);
+      expect(await engine.nonces(reporter.address)).to.equal(1);
+      expect((await engine.getMatch(0)).domain).to.equal("derivatives");
+    });
+
+    it("Should match the off-chain EIP-712 digest", async function () {
+      const { engine, domain, report } = await loadFixture(signedReportFixture);
+
+      expect(await engine.hashMatchReport(report)).to.equal(
+        ethers.TypedDataEncoder.hash(domain, MATCH_REPORT_TYPES, report)
+      );
+    });
+
+    it("Should reject a signature from anyone but the reporter", async function () {
+      const { engine, unauthorized, domain, report } = await loadFixture(signedReportFixture);
+      const sig = await signMatchReport(unauthorized, domain, report);
+
+      await expect(engine.submitMatchReport(report, [sig])).to.be.revertedWith("Invalid signature");
+      await expect(engine.submitMatchReport(report, ["0x1234"])).to.be.revertedWith("Invalid signature");
+    });
+
+    it("Should reject a report altered after signing", async function () {
+      const { engine, reporter, domain, report } = await loadFixture(signedReportFixture);
+      const sig = await signMatchReport(reporter, domain, report);
+
+      await expect(
+        engine.submitMatchReport({ ...report, outcome: 2 }, [sig])
+      ).to.be.revertedWith("Invalid signature");
+    });
+
+    it("Should reject a replayed report", async function () {
+      const { engine, reporter, domain, report } = await loadFixture(signedReportFixture);
+      const sig = await signMatchReport(reporter, domain, report);
+
+      await engine.submitMatchReport(report, [sig]);
+      await expect(engine.submitMatchReport(report, [sig])).to.be.revertedWith("Invalid nonce");
+    });
+
+    it("Should reject an expired report", async function () {
+      const { engine, reporter, domain, report } = await loadFixture(signedReportFixture);
+      const sig = await signMatchReport(reporter, domain, report);
+
+      await time.increaseTo(report.deadline + 1);
+      await expect(engine.submitMatchReport(report, [sig])).to.be.revertedWith("Report expired");
+    });
+
+    it("Should accept a report signed by both players", async function () {
+      const { engine, playerA, playerB, domain, report } = await loadFixture(signedReportFixture);
+      const playerReport = { ...report, reporter: playerA.address };
+      const sigA = await signMatchReport(playerA, domain, playerReport);
+      const sigB = await signMatchReport(playerB, domain, playerReport);
+
+      await expect(engine.submitMatchReport(playerReport, [sigA])).to.be.revertedWith(
+        "Invalid signature count"
+      );
+      await expect(engine.submitMatchReport(playerReport, [sigB, sigA])).to.be.revertedWith(
+        "Invalid signature"
+      );
+      await engine.submitMatchReport(playerReport, [sigA, sigB]);
+      expect(await engine.nonces(playerA.address)).to.equal(1);
+      expect((await engine.getPlayer(playerA.address)).wins).to.equal(1);
+    });
+
+    it("Should reject an unauthorized reporter that is not a player", async function () {
+      const { engine, playerA, playerB, unauthorized, domain, report } =
+        await loadFixture(signedReportFixture);
+      const outsider = { ...report, reporter: unauthorized.address };
+      const sigs = [
+        await signMatchReport(playerA, domain, outsider),
+        await signMatchReport(playerB, domain, outsider),
+      ];
+
+      await expect(engine.submitMatchReport(outsider, sigs)).to.be.revertedWith("Not authorized");
+    });
+
+    it("Should relay a batch of reports in nonce order", async function () {
+      const { engine, reporter, playerC, domain, report } = await loadFixture(signedReportFixture);
+      const second = { ...report, player2: playerC.address, nonce: 1 };
+      const sigs = [
+        [await signMatchReport(reporter, domain, report)],
+        [await signMatchReport(reporter, domain, second)],
+      ];
+
+      await expect(engine.submitMatchReports([second, report], [sigs[1], sigs[0]])).to.be.revertedWith(
+        "Invalid nonce"
+      );
+      await expect(engine.submitMatchReports([report, second], [sigs[0]])).to.be.revertedWith(
+        "Length mismatch"
+      );
+      await engine.submitMatchReports([report, second], sigs);
+      expect(await engine.getMatchCount()).to.equal(2);
+      expect(await engine.nonces(reporter.address)).to.equal(2);
+    });
+  });
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // Glicko-2
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  describe("Glicko-2", function () {
+    const PERIOD = 7 * 24 * 3600;
+
+    async function readGlicko(engine: Awaited<ReturnType<typeof deployEngineFixture>>["engine"], player: string) {
+      const g = await engine.getGlicko(player);
+      return {
+        rating: Number(ethers.formatEther(g.rating)),
+        rd: Number(ethers.formatEther(g.rd)),
+        volatility: Number(ethers.formatEther(g.volatility)),
+        rated: g.rated,
+      };
+    }
+
+    function expectClose(actual: GlickoRating, expected: GlickoRating) {
+      expect(actual.rating).to.be.closeTo(expected.rating, 1e-6);
+      expect(actual.rd).to.be.closeTo(expected.rd, 1e-6);
+      expect(actual.volatility).to.be.closeTo(expected.volatility, 1e-9);
+    }
+
+    async function glickoFixture() {
+      const fixture = await loadFixture(registeredPlayersFixture);
+      await fixture.engine.connect(fixture.owner).setGlickoConfig(true, PERIOD);
+      return fixture;
+    }
+
+    it("Should be disabled by default and report unrated players at their ELO", async function () {
+      const { engine, reporter, playerA, playerB } = await loadFixture(registeredPlayersFixture);
+
+      expect(await engine.glickoEnabled()).to.be.false;
+      await expect(engine.connect(reporter).recordMatch(playerA.address, playerB.address, 1, "")).not.to.emit(
+        engine,
+        "GlickoUpdated"
+      );
+
+      const g = await engine.getGlicko(playerA.address);
+      expect(g.rating).to.equal(ethers.parseEther("1216"));
+      expect(g.rd).to.equal(ethers.parseEther("350"));
+      expect(g.volatility).to.equal(ethers.parseEther("0.06"));
+      expect(g.lastRatedAt).to.equal(0);
+      expect(g.rated).to.be.false;
+      expect(await engine.getConservativeRating(playerA.address)).to.equal(1216 - 700);
+    });
+
+    it("Should rate both players from their ELO when enabled", async function () {
+      const { engine, reporter, playerA, playerB } = await loadFixture(glickoFixture);
+
+      await expect(engine.connect(reporter).recordMatch(playerA.address, playerB.address, 1, "")).to.emit(
+        engine,
+        "GlickoUpdated"
+      );
+
+      const a = await readGlicko(engine, playerA.address);
+      const b = await readGlicko(engine, playerB.address);
+      expectClose(a, glickoUpdate(initialGlicko(1200), initialGlicko(1200), 1));
+      expectClose(b, glickoUpdate(initialGlicko(1200), initialGlicko(1200), 0));
+      expect(a.rated).to.be.true;
+      // Equal ratings and RDs: the winner gains what the loser drops
+      expect(a.rating - 1200).to.be.closeTo(1200 - b.rating, 1e-6);
+      expect(a.rating).to.be.closeTo(1362.31, 0.01);
+      expect(a.rd).to.be.closeTo(290.32, 0.01);
+    });
+
+    it("Should inflate RD for idle rating periods up to the initial RD", async function () {
+      const { engine, reporter, playerA, playerB } = await loadFixture(glickoFixture);
+      await engine.connect(reporter).recordMatch(playerA.address, playerB.address, 3, "");
+      const rated = await readGlicko(engine, playerA.address);
+
+      await time.increase(PERIOD - 60);
+      expect((await readGlicko(engine, playerA.address)).rd).to.equal(rated.rd);
+
+      await time.increase(2 * PERIOD);
+      expect((await readGlicko(engine, playerA.address)).rd).to.be.closeTo(
+        inflateRd(rated.rd, rated.volatility, 2),
+        1e-6
+      );
+
+      await time.increase(5000 * PERIOD);
+      expect((await readGlicko(engine, playerA.address)).rd).to.equal(350);
+    });
+
+    it("Should gate conservatively on rating minus 2·RD", async function () {
+      const { engine, reporter, playerA, playerB } = await loadFixture(glickoFixture);
+
+      for (let i = 0; i < 5; i++) {
+        await engine.connect(reporter).recordMatch(playerA.address, playerB.address, 1, "");
+      }
+
+      const a = await readGlicko(engine, playerA.address);
+      const conservative = Number(await engine.getConservativeRating(playerA.address));
+      expect(conservative).to.equal(conservativeRating(a));
+      // More certain after five matches, but still well below the point estimate
+      expect(conservative).to.be.lessThan(a.rating - 2 * 150);
+      expect(await engine.getConservativeRating(playerB.address)).to.equal(
+        conservativeRating(await readGlicko(engine, playerB.address))
+      );
+      // Unregistered: rating 0, floored rather than negative
+      expect(await engine.getConservativeRating(ethers.ZeroAddress)).to.equal(0);
+    });
+
+    it("Should match the SDK model across random matches and idle gaps", async function () {
+      const { engine, reporter } = await loadFixture(deployEngineFixture);
+      await engine.setGlickoConfig(true, PERIOD);
+      const players = Array.from({ length: 4 }, () => ethers.Wallet.createRandom().address);
+      const next = random(19);
+
+      const model = new Map<string, { rating: GlickoRating | null; elo: number; lastRatedAt: number }>();
+      for (const player of players) {
+        const elo = 800 + Math.floor(next() * 1200);
+        await engine.registerPlayerByAddress(player, elo, []);
+        model.set(player, { rating: null, elo, lastRatedAt: 0 });
+      }
+
+      let now = await time.latest();
+      for (let i = 0; i < 40; i++) {
+        const i1 = Math.floor(next() * 4);
+        const i2 = (i1 + 1 + Math.floor(next() * 3)) % 4;
+        const outcome = (1 + Math.floor(next() * 3)) as 1 | 2 | 3;
+        now += 60 + Math.floor(next() * 3 * PERIOD);
+        await time.setNextBlockTimestamp(now);
+        await engine.connect(reporter).recordMatch(players[i1], players[i2], outcome, "");
+
+        // Current state of each side, then both updates from pre-match values
+        const before = [players[i1], players[i2]].map((p) => {
+          const m = model.get(p)!;
+          if (!m.rating) return initialGlicko(m.elo);
+          const idle = Math.floor((now - m.lastRatedAt) / PERIOD);
+          return { ...m.rating, rd: inflateRd(m.rating.rd, m.rating.volatility, idle) };
+        });
+        const score = outcome === 1 ? 1 : outcome === 2 ? 0 : 0.5;
+        const [p1, p2] = await Promise.all([engine.getPlayer(players[i1]), engine.getPlayer(players[i2])]);
+        model.set(players[i1], { rating: glickoUpdate(before[0], before[1], score), elo: Number(p1.elo), lastRatedAt: now });
+        model.set(players[i2], { rating: glickoUpdate(before[1], before[0], 1 - score), elo: Number(p2.elo), lastRatedAt: now });
+      }
+
+      for (const player of players) {
+        const m = model.get(player)!;
+        if (!m.rating) continue;
+        const idle = Math.floor((now - m.lastRatedAt) / PERIOD);
+        const onChain = await readGlicko(engine, player);
+        expect(onChain.rating).to.be.closeTo(m.rating.rating, 1e-4);
+        expect(onChain.rd).to.be.closeTo(inflateRd(m.rating.rd, m.rating.volatility, idle), 1e-4);
+        expect(onChain.volatility).to.be.closeTo(m.rating.volatility, 1e-8);
+      }
+    });
+
+    it("Should restrict configuration to the owner", async function () {
+      const { engine, owner, unauthorized } = await loadFixture(deployEngineFixture);
+
+      await expect(engine.connect(unauthorized).setGlickoConfig(true, PERIOD)).to.be.revertedWith("Only owner");
+      await expect(engine.connect(owner).setGlickoConfig(true, 0)).to.be.revertedWith("Invalid period");
+      await expect(engine.connect(owner).setGlickoConfig(true, 3600))
+        .to.emit(engine, "GlickoConfigUpdated")
+        .withArgs(true, 3600);
+      expect(await engine.ratingPeriod()).to.equal(3600);
+    });
+  });
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // Seasons
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  describe("Seasons", function () {
+    async function playedSeasonFixture() {
+      const fixture = await loadFixture(registeredPlayersFixture);
+      const { engine, reporter, playerA, playerB, playerC } = fixture;
+      // A: 2-0, B: 1-1 with a draw, C: 0-1 with a draw
+      await engine.connect(reporter).recordMatch(playerA.address, playerB.address, 1, "derivatives");
+      await engine.connect(reporter).recordMatch(playerA.address, playerC.address, 1, "derivatives");
+      await engine.connect(reporter).recordMatch(playerB.address, playerC.address, 3, "");
+      await engine.connect(reporter).recordMatch(playerB.address, playerC.address, 1, "");
+      return fixture;
+    }
+
+    // Close the season as the owner and archive it in one batch, ranked by final ELO (ties in registration order)
+    async function closeAndArchive({ engine, owner }: Awaited<ReturnType<typeof playedSeasonFixture>>) {
+      await engine.connect(owner).closeSeason();
+      const count = Number(await engine.getPlayerCount());
+      const players = await Promise.all(Array.from({ length: count }, (_, i) => engine.playerList(i)));
+      const elos = await Promise.all(players.map(async (player) => (await engine.getPlayer(player)).elo));
+      const ranked = players
+        .map((player, i) => ({ player, elo: elos[i] }))
+        .sort((a, b) => (a.elo === b.elo ? 0 : a.elo < b.elo ? 1 : -1))
+        .map(({ player }) => player);
+      return engine.connect(owner).archiveStandings(ranked);
+    }
+
+    it("Should archive final ELO, rank and season record", async function () {
+      const { engine, owner, playerA, playerB, playerC } = await loadFixture(playedSeasonFixture);
+      const finals = await Promise.all([playerA, playerB, playerC].map((p) => engine.getPlayer(p.address)));
+
+      await expect(engine.connect(owner).closeSeason())
+        .to.emit(engine, "SeasonClosed")
+        .withArgs(1, 3, 4, 5000);
+      expect(await engine.archivingSeason()).to.equal(1);
+      await expect(engine.connect(owner).archiveStandings([playerA.address, playerB.address, playerC.address]))
+        .to.emit(engine, "SeasonArchived")
+        .withArgs(1);
+      expect(await engine.archivingSeason()).to.equal(0);
+
+      const standings = await engine.getSeasonStandings(1, 0, 10);
+      expect(standings.map((s) => s.player)).to.deep.equal([playerA.address, playerB.address, playerC.address]);
+      expect(standings.map((s) => Number(s.rank))).to.deep.equal([1, 2, 3]);
+      expect(standings.map((s) => s.elo)).to.deep.equal(finals.map((p) => p.elo));
+      expect(standings.map((s) => s.peakElo)).to.deep.equal(finals.map((p) => p.peakElo));
+      expect(standings.map((s) => [Number(s.wins), Number(s.losses), Number(s.draws)])).to.deep.equal([
+        [2, 0, 0],
+        [1, 1, 1],
+        [0, 2, 1],
+      ]);
+      expect(standings[0].longestStreak).to.equal(2);
+
+      expect(await engine.seasonRank(1, playerC.address)).to.equal(3);
+      expect((await engine.getSeasonStanding(1, playerB.address)).rank).to.equal(2);
+      expect((await engine.getSeasonStandings(1, 1, 1)).map((s) => s.player)).to.deep.equal([playerB.address]);
+      expect(await engine.getSeasonStandings(1, 5, 10)).to.be.empty;
+
+      const season = await engine.getSeason(1);
+      expect(season.firstMatchId).to.equal(0);
+      expect(season.matchCount).to.equal(4);
+      expect(season.resetBps).to.equal(5000);
+      expect(season.endedAt).to.equal(await engine.seasonStartedAt());
+      expect(await engine.currentSeason()).to.equal(2);
+    });
+
+    it("Should soft-reset ratings toward base and restart peaks, streaks and season records", async function () {
+      const fixture = await loadFixture(playedSeasonFixture);
+      const { engine, owner, reporter, playerA, playerC } = fixture;
+      const [a, c] = await Promise.all([engine.getPlayer(playerA.address), engine.getPlayer(playerC.address)]);
+      const domainA = await engine.getDomainElo(playerA.address, "derivatives");
+      expect(a.elo).to.be.greaterThan(BASE_ELO);
+      expect(c.elo).to.be.lessThan(BASE_ELO);
+
+      await engine.connect(owner).setSeasonResetBps(2500);
+      await expect(closeAndArchive(fixture))
+        .to.emit(engine, "EloUpdated")
+        .withArgs(playerA.address, a.elo, a.elo - ((a.elo - BASE_ELO) * 2500n) / 10000n);
+
+      const [resetA, resetC] = await Promise.all([engine.getPlayer(playerA.address), engine.getPlayer(playerC.address)]);
+      expect(resetA.elo).to.equal(a.elo - ((a.elo - BASE_ELO) * 2500n) / 10000n);
+      expect(resetC.elo).to.equal(c.elo + ((BASE_ELO - c.elo) * 2500n) / 10000n);
+      expect(await engine.getDomainElo(playerA.address, "derivatives")).to.equal(
+        domainA - ((domainA - BASE_ELO) * 2500n) / 10000n
+      );
+      expect(resetA.peakElo).to.equal(resetA.elo);
+      expect(resetA.currentStreak).to.equal(0);
+      expect(resetA.longestStreak).to.equal(0);
+      // Lifetime record carries over
+      expect(resetA.wins).to.equal(2);
+      expect(resetA.matchCount).to.equal(2);
+      expect(await engine.getSeasonRecord(playerA.address)).to.deep.equal([0n, 0n, 0n]);
+
+      await engine.connect(reporter).recordMatch(playerC.address, playerA.address, 1, "");
+      expect(await engine.getSeasonRecord(playerC.address)).to.deep.equal([1n, 0n, 0n]);
+      await closeAndArchive(fixture);
+      const season2 = await engine.getSeason(2);
+      expect(season2.firstMatchId).to.equal(4);
+      expect(season2.matchCount).to.equal(1);
+      expect((await engine.getSeasonStanding(2, playerC.address)).wins).to.equal(1);
+      // Season 1's archive is untouched
+      expect((await engine.getSeasonStanding(1, playerC.address)).elo).to.equal(c.elo);
+    });
+
+    it("Should fully reset at 10000 and leave ratings alone at 0", async function () {
+      const fixture = await loadFixture(playedSeasonFixture);
+      const { engine, owner, playerA } = fixture;
+      const { elo } = await engine.getPlayer(playerA.address);
+
+      await engine.connect(owner).setSeasonResetBps(0);
+      await closeAndArchive(fixture);
+      expect((await engine.getPlayer(playerA.address)).elo).to.equal(elo);
+
+      await engine.connect(owner).setSeasonResetBps(10000);
+      await closeAndArchive(fixture);
+      expect((await engine.getPlayer(playerA.address)).elo).to.equal(BASE_ELO);
+      expect((await engine.getSeasonStanding(2, playerA.address)).elo).to.equal(elo);
+    });
+
+    it("Should let the owner or governance close seasons", async function () {
+      const { engine, owner, reporter, unauthorized } = await loadFixture(playedSeasonFixture);
+
+      await expect(engine.connect(unauthorized).closeSeason()).to.be.revertedWith("Not authorized");
+      await expect(engine.connect(reporter).closeSeason()).to.be.revertedWith("Not authorized");
+      await expect(engine.connect(owner).archiveStandings([])).to.be.revertedWith("No season to archive");
+      await expect(engine.connect(unauthorized).setGovernance(unauthorized.address)).to.be.revertedWith("Only owner");
+      await expect(engine.connect(owner).setGovernance(unauthorized.address))
+        .to.emit(engine, "GovernanceUpdated")
+        .withArgs(unauthorized.address);
+      await expect(engine.connect(unauthorized).closeSeason()).to.emit(engine, "SeasonClosed");
+      await expect(engine.connect(reporter).archiveStandings([])).to.be.revertedWith("Not authorized");
+      await expect(engine.connect(unauthorized).archiveStandings([])).to.not.be.reverted;
+
+      await expect(engine.connect(unauthorized).setSeasonResetBps(1000)).to.be.revertedWith("Only owner");
+      await expect(engine.connect(owner).setSeasonResetBps(10001)).to.be.revertedWith("Invalid reset factor");
+      await expect(engine.getSeason(0)).to.be.revertedWith("Season not closed");
+      await expect(engine.getSeason(2)).to.be.revertedWith("Season not closed");
+      await expect(engine.getSeasonStandings(2, 0, 10)).to.be.revertedWith("Season not closed");
+      expect((await engine.getSeasonStanding(1, owner.address)).rank).to.equal(0);
+    });
+
+    it("Should archive standings in batches and freeze ratings until the last one", async function () {
+      const { engine, owner, reporter, playerA, playerB, playerC, unauthorized } = await loadFixture(playedSeasonFixture);
+      const b = await engine.getPlayer(playerB.address);
+      await engine.connect(owner).closeSeason();
+
+      await expect(engine.connect(reporter).recordMatch(playerA.address, playerB.address, 1, "")).to.be.revertedWith(
+        "Season archive pending"
+      );
+      await expect(engine.connect(unauthorized).registerPlayer([])).to.be.revertedWith("Season archive pending");
+      await expect(engine.connect(owner).closeSeason()).to.be.revertedWith("Season archive pending");
+
+      await expect(engine.connect(owner).archiveStandings([playerA.address])).to.not.emit(engine, "SeasonArchived");
+      expect(await engine.seasonRank(1, playerA.address)).to.equal(1);
+      expect(await engine.seasonRank(1, playerB.address)).to.equal(0);
+      // Ratings of players still waiting to be archived are untouched
+      expect((await engine.getPlayer(playerB.address)).elo).to.equal(b.elo);
+
+      await expect(engine.connect(owner).archiveStandings([playerA.address])).to.be.revertedWith("Already archived");
+      await expect(engine.connect(owner).archiveStandings([playerC.address, playerB.address])).to.be.revertedWith(
+        "Not in rank order"
+      );
+      await expect(engine.connect(owner).archiveStandings([unauthorized.address])).to.be.revertedWith(
+        "Player not registered"
+      );
+
+      await engine.connect(owner).archiveStandings([playerB.address]);
+      await expect(engine.connect(owner).archiveStandings([playerC.address]))
+        .to.emit(engine, "SeasonArchived")
+        .withArgs(1);
+      expect((await engine.getSeasonStandings(1, 0, 10)).map((s) => Number(s.rank))).to.deep.equal([1, 2, 3]);
+      expect((await engine.getSeasonStanding(1, playerB.address)).elo).to.equal(b.elo);
+      await expect(engine.connect(owner).archiveStandings([])).to.be.revertedWith("No season to archive");
+      await engine.connect(reporter).recordMatch(playerA.address, playerB.address, 1, "");
+    });
+  });
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // Disputes
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  describe("Disputes", function () {
+    async function disputedMatchFixture() {
+      const fixture = await loadFixture(registeredPlayersFixture);
+      const { engine, reporter, playerA, playerB } = fixture;
+      // A wins once, then the disputed match 1 extends A's streak and peak
+      await engine.connect(reporter).recordMatch(playerA.address, playerB.address, 1, "");
+      const before = await Promise.all([engine.getPlayer(playerA.address), engine.getPlayer(playerB.address)]);
+      await engine.connect(reporter).recordMatch(playerA.address, playerB.address, 1, "derivatives");
+      await engine.connect(playerB).disputeMatch(1);
+      return { ...fixture, before };
+    }
+
+    it("Should let either player dispute within the window, once", async function () {
+      const { engine, owner, reporter, playerA, playerB, playerC } = await loadFixture(registeredPlayersFixture);
+      await engine.connect(reporter).recordMatch(playerA.address, playerB.address, 1, "");
+
+      await expect(engine.connect(playerC).disputeMatch(0)).to.be.revertedWith("Not a player in this match");
+      await expect(engine.connect(playerB).disputeMatch(0))
+        .to.emit(engine, "MatchDisputed")
+        .withArgs(0, playerB.address);
+      expect(await engine.disputeStatus(0)).to.equal(1);
+      await expect(engine.connect(playerA).disputeMatch(0)).to.be.revertedWith("Already disputed");
+
+      await expect(engine.connect(owner).resolveDispute(0, 2, []))
+        .to.emit(engine, "DisputeResolved")
+        .withArgs(0, 2, 1);
+      expect(await engine.disputeStatus(0)).to.equal(2);
+      await expect(engine.connect(playerB).disputeMatch(0)).to.be.revertedWith("Already disputed");
+
+      await engine.connect(reporter).recordMatch(playerA.address, playerC.address, 1, "");
+      await time.increase(3 * 24 * 60 * 60 + 1);
+      await expect(engine.connect(playerC).disputeMatch(1)).to.be.revertedWith("Dispute window closed");
+    });
+
+    it("Should void a result and reverse ELO, record, streak and peak for both players", async function () {
+      const { engine, owner, playerA, playerB, before } = await loadFixture(disputedMatchFixture);
+      const [a, b] = before;
+      const m = await engine.getMatch(1);
+      const domainA = await engine.getDomainElo(playerA.address, "derivatives");
+
+      await expect(engine.connect(owner).resolveDispute(1, 3, []))
+        .to.emit(engine, "DisputeResolved")
+        .withArgs(1, 3, 1)
+        .and.to.emit(engine, "EloUpdated")
+        .withArgs(playerA.address, a.elo + BigInt(m.player1EloChange), a.elo);
+
+      const [voidedA, voidedB] = await Promise.all([engine.getPlayer(playerA.address), engine.getPlayer(playerB.address)]);
+      expect(voidedA.elo).to.equal(a.elo);
+      expect(voidedB.elo).to.equal(b.elo);
+      expect(voidedA.peakElo).to.equal(a.peakElo);
+      expect([voidedA.wins, voidedA.matchCount, voidedA.currentStreak, voidedA.longestStreak]).to.deep.equal([1n, 1n, 1n, 1n]);
+      expect([voidedB.losses, voidedB.matchCount]).to.deep.equal([1n, 1n]);
+      expect(await engine.getSeasonRecord(playerB.address)).to.deep.equal([0n, 1n, 0n]);
+      expect(await engine.getDomainElo(playerA.address, "derivatives")).to.equal(domainA - BigInt(m.player1EloChange));
+
+      const voided = await engine.getMatch(1);
+      expect(voided.player1EloChange).to.equal(0);
+      expect(voided.player2EloChange).to.equal(0);
+      expect(await engine.disputeStatus(1)).to.equal(3);
+    });
+
+    it("Should correct an outcome and re-rate it from the pre-match ratings", async function () {
+      const { engine, owner, playerA, playerB, before } = await loadFixture(disputedMatchFixture);
+      const [a, b] = before;
+      await engine.connect(owner).setDisputeConfig(playerB.address, 3 * 24 * 60 * 60);
+      await expect(engine.connect(playerB).resolveDispute(1, 4, [1, 2])).to.be.revertedWith("Invalid outcome");
+      await expect(engine.connect(playerB).resolveDispute(1, 4, [1])).to.be.revertedWith("Invalid outcome");
+
+      const expected = simulateEloMatch(
+        { elo: Number(a.elo), totalMatches: Number(a.matchCount) },
+        { elo: Number(b.elo), totalMatches: Number(b.matchCount) },
+        2
+      );
+      await expect(engine.connect(playerB).resolveDispute(1, 4, [2, 1]))
+        .to.emit(engine, "DisputeResolved")
+        .withArgs(1, 4, 2);
+
+      const [fixedA, fixedB] = await Promise.all([engine.getPlayer(playerA.address), engine.getPlayer(playerB.address)]);
+      expect(fixedA.elo).to.equal(applyEloChange(Number(a.elo), expected.player1Change));
+      expect(fixedB.elo).to.equal(applyEloChange(Number(b.elo), expected.player2Change));
+      expect([fixedA.wins, fixedA.losses, fixedA.currentStreak, fixedA.longestStreak]).to.deep.equal([1n, 1n, 0n, 1n]);
+      expect([fixedB.wins, fixedB.losses, fixedB.currentStreak]).to.deep.equal([1n, 1n, 1n]);
+      expect(fixedB.peakElo).to.equal(fixedB.elo);
+
+      const corrected = await engine.getMatch(1);
+      expect(corrected.outcome).to.equal(2);
+      expect(corrected.player1EloChange).to.equal(expected.player1Change);
+      expect(corrected.player2EloChange).to.equal(expected.player2Change);
+      await expect(engine.connect(owner).resolveDispute(1, 3, [])).to.be.revertedWith("No open dispute");
+    });
+
+    it("Should let any participant dispute a free-for-all and void it for every player", async function () {
+      const { engine, owner, reporter, playerA, playerB, playerC, unauthorized } =
+        await loadFixture(registeredPlayersFixture);
+      const field = [playerA.address, playerB.address, playerC.address];
+      const before = await Promise.all(field.map((p) => engine.getPlayer(p)));
+      await engine.connect(reporter).recordFreeForAll(field, [2, 1, 3], "derivatives");
+
+      await expect(engine.connect(unauthorized).disputeMatch(0)).to.be.revertedWith("Not a player in this match");
+      await expect(engine.connect(playerC).disputeMatch(0))
+        .to.emit(engine, "MatchDisputed")
+        .withArgs(0, playerC.address);
+      await expect(engine.connect(owner).resolveDispute(0, 3, []))
+        .to.emit(engine, "DisputeResolved")
+        .withArgs(0, 3, 0);
+
+      const after = await Promise.all(field.map((p) => engine.getPlayer(p)));
+      expect(after.map((p) => p.elo)).to.deep.equal(before.map((p) => p.elo));
+      expect(after.map((p) => [p.wins, p.losses, p.draws, p.matchCount])).to.deep.equal(field.map(() => [0n, 0n, 0n, 0n]));
+      expect(await engine.getDomainElo(playerC.address, "derivatives")).to.equal(BASE_ELO);
+
+      const m = await engine.getMatch(0);
+      expect(m.placements).to.deep.equal([2n, 1n, 3n]);
+      expect(m.eloChanges).to.deep.equal([0n, 0n, 0n]);
+    });
+
+    it("Should correct a team match's placements and re-rate every participant", async function () {
+      const { engine, owner, reporter, playerA, playerB, playerC } = await loadFixture(registeredPlayersFixture);
+      const [a, b, c] = [playerA.address, playerB.address, playerC.address];
+      const before = await Promise.all([a, b, c].map((p) => engine.getPlayer(p)));
+      await engine.connect(reporter).recordTeamMatch([[a, b], [c]], [1, 2], "");
+      await engine.connect(playerB).disputeMatch(0);
+
+      await expect(engine.connect(owner).resolveDispute(0, 4, [1, 2])).to.be.revertedWith("Invalid outcome");
+      await expect(engine.connect(owner).resolveDispute(0, 4, [1, 2, 3])).to.be.revertedWith("Invalid outcome");
+      await expect(engine.connect(owner).resolveDispute(0, 4, [3, 1])).to.be.revertedWith("Invalid placement");
+
+      const rated = before.map((p) => ({ elo: Number(p.elo), totalMatches: Number(p.matchCount) }));
+      const expected = simulateTeamMatch([[rated[0], rated[1]], [rated[2]]], [2, 1]).flat();
+      await expect(engine.connect(owner).resolveDispute(0, 4, [2, 1]))
+        .to.emit(engine, "DisputeResolved")
+        .withArgs(0, 4, 0);
+
+      const m = await engine.getMatch(0);
+      expect(m.placements).to.deep.equal([2n, 2n, 1n]);
+      expect(m.eloChanges).to.deep.equal(expected.map(BigInt));
+      const [fixedA, fixedB, fixedC] = await Promise.all([a, b, c].map((p) => engine.getPlayer(p)));
+      expect(fixedA.elo).to.equal(applyEloChange(rated[0].elo, expected[0]));
+      expect([fixedA.wins, fixedA.losses, fixedB.losses, fixedC.wins]).to.deep.equal([0n, 1n, 1n, 1n]);
+      expect(fixedC.elo).to.equal(applyEloChange(rated[2].elo, expected[2]));
+    });
+
+    it("Should keep the season open until its disputes are resolved", async function () {
+      const { engine, owner, playerA, before } = await loadFixture(disputedMatchFixture);
+      expect(await engine.openDisputes()).to.equal(1);
+
+      await expect(engine.connect(owner).closeSeason()).to.be.revertedWith("Disputes pending");
+      await expect(engine.connect(owner).resolveDispute(1, 3, []))
+        .to.emit(engine, "DisputeResolved")
+        .withArgs(1, 3, 1);
+      expect(await engine.openDisputes()).to.equal(0);
+      expect((await engine.getPlayer(playerA.address)).elo).to.equal(before[0].elo);
+
+      await expect(engine.connect(owner).closeSeason()).to.emit(engine, "SeasonClosed");
+    });
+
+    it("Should restrict resolution to the owner or arbiter, within the season", async function () {
+      const { engine, owner, reporter, unauthorized, playerA } = await loadFixture(disputedMatchFixture);
+
+      await expect(engine.connect(reporter).resolveDispute(1, 3, [])).to.be.revertedWith("Not authorized");
+      await expect(engine.connect(owner).resolveDispute(1, 1, [])).to.be.revertedWith("Invalid resolution");
+      await expect(engine.connect(owner).resolveDispute(0, 3, [])).to.be.revertedWith("No open dispute");
+      await expect(engine.connect(unauthorized).setDisputeConfig(unauthorized.address, 0)).to.be.revertedWith(
+        "Only owner"
+      );
+      await expect(engine.connect(owner).setDisputeConfig(unauthorized.address, 60))
+        .to.emit(engine, "DisputeConfigUpdated")
+        .withArgs(unauthorized.address, 60);
+      expect(await engine.arbiter()).to.equal(unauthorized.address);
+
+      await engine.connect(unauthorized).resolveDispute(1, 2, []);
+      await engine.connect(owner).closeSeason();
+      await expect(engine.connect(playerA).disputeMatch(0)).to.be.revertedWith("Season closed");
+    });
+  });
+
   // ═══════════════════════════════════════════════════════════════════════════
   // Admin
   // ═══════════════════════════════════════════════════════════════════════════
@@ -0,0 +1,395 @@
+import { expect } from "chai";
+import { ethers, network } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { SkillProofRegistry } from "../typechain-types";
+import { SkillProofIndexer, IndexerStore, SyncResult } from "../indexer";
+import { proveEloThreshold } from "../sdk/zk";
+
+describe("SkillProofIndexer", function () {
+  const MINIMUM_STAKE = ethers.parseEther("0.1");
+  const CREDENTIAL_FEE = ethers.parseEther("0.01");
+  const MARKET_FEE = ethers.parseEther("0.05");
+  const VERIFICATION_FEE = ethers.parseEther("0.005");
+
+  async function deployIndexerFixture() {
+    const [owner, player1, player2, issuer, solver] = await ethers.getSigners();
+    const startBlock = (await ethers.provider.getBlockNumber()) + 1;
+
+    const registry = await (await ethers.getContractFactory("SkillProofRegistry")).deploy();
+    const engine = await (await ethers.getContractFactory("SkillProofEngine")).deploy();
+    const hub = await (await ethers.getContractFactory("SkillProofHub")).deploy(
+      await registry.getAddress(),
+      ethers.ZeroAddress,
+      1500
+    );
+    const staking = await (await ethers.getContractFactory("SkillProofStaking")).deploy(MINIMUM_STAKE, 5000);
+    const groth16 = await (await ethers.getContractFactory("Groth16Verifier")).deploy();
+    const zkVerifier = await (await ethers.getContractFactory("SkillProofZKVerifier")).deploy(
+      await groth16.getAddress()
+    );
+    const treasury = await (await ethers.getContractFactory("SkillProofTreasury")).deploy(
+      CREDENTIAL_FEE,
+      MARKET_FEE,
+      VERIFICATION_FEE,
+      500
+    );
+
+    await registry.registerIssuer(owner.address, "FinCraft");
+    await engine.registerPlayerByAddress(player1.address, 1200, ["chess"]);
+    await engine.registerPlayerByAddress(player2.address, 1200, ["chess"]);
+
+    const contracts = {
+      registry: await registry.getAddress(),
+      engine: await engine.getAddress(),
+      hub: await hub.getAddress(),
+      staking: await staking.getAddress(),
+      zkVerifier: await zkVerifier.getAddress(),
+      treasury: await treasury.getAddress(),
+    };
+
+    return { registry, engine, hub, staking, zkVerifier, treasury, contracts, startBlock, owner, player1, player2, issuer, solver };
+  }
+
+  function mint(registry: SkillProofRegistry, player: string, name: string, elo: number) {
+    return registry.mintCredential(player, name, elo, 90, ["chess"], [elo], [90], 50, 60);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // Backfill
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  describe("Backfill", function () {
+    it("Should index every supported event into its table", async function () {
+      const f = await loadFixture(deployIndexerFixture);
+      const { registry, engine, hub, staking, zkVerifier, treasury, owner, player1, player2, issuer, solver } = f;
+
+      // Registry
+      await mint(registry, player1.address, "Alice", 1847);
+      await mint(registry, player2.address, "Bob", 1623);
+      await registry.updateCredential(player1.address, 1900, 95, [1900], [95], 60, 62);
+      await registry.revokeCredential(player2.address);
+
+      // Engine: one match → MatchRecorded + two EloUpdated
+      await engine.recordMatch(player1.address, player2.address, 1, "chess");
+
+      // Hub: awarding a bounty bumps the winner's reputation
+      const now = await time.latest();
+      await hub.connect(owner).postBounty("Solve it", now + 100, now + 200, { value: ethers.parseEther("1") });
+      const salt = ethers.id("salt");
+      await hub.connect(player1).commitSolution(0, ethers.solidityPackedKeccak256(["string", "bytes32"], ["answer", salt]));
+      await time.increaseTo(now + 101);
+      await hub.connect(player1).revealSolution(0, "answer", salt);
+      await hub.connect(owner).awardBounty(0, player1.address);
+
+      // Staking
+      await staking.connect(issuer).stake("ChessArena", { value: MINIMUM_STAKE });
+      await staking.slash(issuer.address, "Fake results");
+
+      // ZK Verifier
+      const { calldata, commitment } = await proveEloThreshold({ elo: 1847, threshold: 1500 });
+      await zkVerifier.connect(player1).verifyThresholdZK(calldata.pA, calldata.pB, calldata.pC, calldata.pubSignals);
+
+      // Treasury
+      await treasury.connect(issuer).payCredentialFee(player1.address, { value: CREDENTIAL_FEE });
+      await treasury.connect(player2).payMarketFee({ value: MARKET_FEE });
+      await treasury.connect(player1).payVerificationFee({ value: VERIFICATION_FEE });
+      await treasury.processBountyCommission(solver.address, { value: ethers.parseEther("1") });
+      await treasury.updateFeeSchedule(CREDENTIAL_FEE, MARKET_FEE, VERIFICATION_FEE, 1000);
+      await treasury.takeSnapshot();
+      await treasury.withdrawFees();
+
+      const store = new IndexerStore();
+      const indexer = new SkillProofIndexer(ethers.provider, store, {
+        contracts: f.contracts,
+        startBlock: f.startBlock,
+      });
+      const result = await indexer.sync();
+
+      expect(result.fromBlock).to.equal(f.startBlock);
+      expect(result.toBlock).to.equal(await ethers.provider.getBlockNumber());
+      expect(result.events).to.equal(20);
+      expect(result.reorg).to.be.null;
+
+      const mints = store.list("credential_mints");
+      expect(mints.map((m) => [m.player, m.issuer, m.overall_elo])).to.deep.equal([
+        [player1.address, owner.address, 1847],
+        [player2.address, owner.address, 1623],
+      ]);
+      expect(mints[0]).to.include({ player_name: "Alice", percentile: 90, total_matches: 50, win_rate: 60 });
+      expect(JSON.parse(mints[0].domains)).to.deep.equal(["chess"]);
+      expect(store.list("credential_updates")[0]).to.include({ overall_elo: 1900, percentile: 95, win_rate: 62 });
+      expect(store.list("issuer_registrations")[0]).to.include({ issuer: owner.address, name: "FinCraft" });
+      expect(store.list("credential_revocations")[0].player).to.equal(player2.address);
+
+      const [match] = store.list("matches");
+      expect(match.match_id).to.equal(0);
+      expect(match.outcome).to.equal(1);
+      expect(match.player1_change).to.be.greaterThan(0);
+      expect(match.player2_change).to.equal(-match.player1_change);
+      expect(match).to.include({ player1_elo_before: 1200, player2_elo_before: 1200, domain: "chess" });
+      expect(store.count("elo_updates")).to.equal(2);
+      expect(store.list("elo_updates", { where: { player: player1.address } })[0]).to.include({
+        old_elo: 1200,
+        new_elo: 1200 + match.player1_change,
+      });
+
+      expect(store.list("bounties")[0]).to.include({
+        bounty_id: 0,
+        poster: owner.address,
+        reward: ethers.parseEther("1").toString(),
+        commit_deadline: now + 100,
+        deadline: now + 200,
+      });
+      expect(store.list("bounty_awards")[0]).to.include({ bounty_id: 0, winner: player1.address });
+      expect(store.list("reputation_updates")[0]).to.include({ user: player1.address, new_reputation: 15 });
+      expect(store.list("slashes")[0]).to.include({
+        issuer: issuer.address,
+        amount: (MINIMUM_STAKE / 2n).toString(),
+        reason: "Fake results",
+      });
+      expect(store.list("zk_verifications")[0]).to.include({
+        user: player1.address,
+        threshold: 1500,
+        commitment: commitment.toString(),
+      });
+
+      const fees = store.list("treasury_fees");
+      expect(fees.map((r) => r.kind)).to.deep.equal(["credential", "market", "verification", "bounty"]);
+      expect(fees[0]).to.include({ payer: issuer.address, user: player1.address, amount: CREDENTIAL_FEE.toString() });
+      expect(fees[3]).to.include({
+        payer: solver.address,
+        amount: ethers.parseEther("0.05").toString(),
+        bounty_total: ethers.parseEther("1").toString(),
+      });
+      expect(store.list("fee_schedule_updates")[0].bounty_bps).to.equal(1000);
+      expect(store.list("revenue_snapshots")[0].snapshot_id).to.equal(0);
+      expect(store.list("fee_withdrawals")[0].recipient).to.equal(owner.address);
+
+      // Every event row references a stored block
+      const block = store.getBlock(match.block_number)!;
+      expect(block.hash).to.equal((await ethers.provider.getBlock(match.block_number))!.hash);
+    });
+
+    it("Should index team and free-for-all matches with their participants", async function () {
+      const f = await loadFixture(deployIndexerFixture);
+      const { engine, owner, player1, player2 } = f;
+      await engine.registerPlayerByAddress(owner.address, 1400, ["chess"]);
+      await engine.recordTeamMatch([[player1.address, player2.address], [owner.address]], [2, 1], "chess");
+      await engine.recordFreeForAll([player2.address, owner.address, player1.address], [1, 2, 2], "poker");
+
+      const store = new IndexerStore();
+      const result = await new SkillProofIndexer(ethers.provider, store, {
+        contracts: f.contracts,
+        startBlock: f.startBlock,
+      }).sync();
+      // IssuerRegistered, then each match with an EloUpdated per player
+      expect(result.events).to.equal(1 + 2 + 3 * 2);
+
+      const rows = store.list("team_matches");
+      expect(rows.map((r) => r.match_id)).to.deep.equal([0, 1]);
+      for (const row of rows) {
+        const m = await engine.getMatch(row.match_id);
+        expect(JSON.parse(row.participants)).to.deep.equal([...m.participants]);
+        expect(JSON.parse(row.teams)).to.deep.equal(m.teams.map(Number));
+        expect(JSON.parse(row.placements)).to.deep.equal(m.placements.map(Number));
+        expect(JSON.parse(row.elo_changes)).to.deep.equal(m.eloChanges.map(Number));
+        expect(JSON.parse(row.elos_before)).to.deep.equal(m.elosBefore.map(Number));
+        expect(row.domain).to.equal(m.domain);
+      }
+      expect(JSON.parse(rows[0].elos_before)).to.deep.equal([1200, 1200, 1400]);
+      expect(JSON.parse(rows[1].placements)).to.deep.equal([1, 2, 2]);
+      expect(store.count("matches")).to.equal(0);
+    });
+
+    it("Should index Engine dispute resolutions with the results as resolved", async function () {
+      const f = await loadFixture(deployIndexerFixture);
+      const { engine, owner, player1, player2 } = f;
+      await engine.registerPlayerByAddress(owner.address, 1400, ["chess"]);
+      await engine.recordMatch(player1.address, player2.address, 1, "chess");
+      await engine.recordFreeForAll([player2.address, owner.address, player1.address], [1, 2, 3], "chess");
+      await engine.connect(player2).disputeMatch(0);
+      await engine.resolveDispute(0, 4, [2, 1]);
+      await engine.connect(owner).disputeMatch(1);
+      await engine.resolveDispute(1, 3, []);
+
+      const store = new IndexerStore();
+      await new SkillProofIndexer(ethers.provider, store, { contracts: f.contracts, startBlock: f.startBlock }).sync();
+
+      const [corrected, voided] = store.list("dispute_resolutions");
+      const m = await engine.getMatch(0);
+      expect(corrected).to.include({ match_id: 0, status: 4, outcome: 2 });
+      expect(JSON.parse(corrected.placements)).to.deep.equal([2, 1]);
+      expect(JSON.parse(corrected.elo_changes)).to.deep.equal([Number(m.player1EloChange), Number(m.player2EloChange)]);
+      expect(voided).to.include({ match_id: 1, status: 3, outcome: 0 });
+      expect(JSON.parse(voided.placements)).to.deep.equal([1, 2, 3]);
+      expect(JSON.parse(voided.elo_changes)).to.deep.equal([0, 0, 0]);
+    });
+
+    it("Should resume from the stored cursor across chunks and restarts", async function () {
+      const { registry, engine, contracts, startBlock, player1, player2 } = await loadFixture(deployIndexerFixture);
+      const file = path.join(os.tmpdir(), `skillproof-indexer-${process.pid}.db`);
+      const options = { contracts, startBlock, chunkSize: 2 };
+
+      try {
+        await mint(registry, player1.address, "Alice", 1847);
+        const first = new IndexerStore(file);
+        await new SkillProofIndexer(ethers.provider, first, options).sync();
+        expect(first.count("credential_mints")).to.equal(1);
+        first.close();
+
+        await engine.recordMatch(player1.address, player2.address, 3, "chess");
+        await mint(registry, player2.address, "Bob", 1623);
+
+        const reopened = new IndexerStore(file);
+        const indexer = new SkillProofIndexer(ethers.provider, reopened, options);
+        const result = await indexer.sync();
+        const head = await ethers.provider.getBlockNumber();
+        expect(result.fromBlock).to.equal(head - 1);
+        expect(result.events).to.equal(4);
+        expect(reopened.count("credential_mints")).to.equal(2);
+        expect(reopened.list("matches")[0].outcome).to.equal(3);
+        expect(reopened.lastBlock).to.equal(head);
+
+        // Already at head → no-op
+        expect((await indexer.sync()).fromBlock).to.be.null;
+        reopened.close();
+      } finally {
+        for (const suffix of ["", "-wal", "-shm"]) fs.rmSync(file + suffix, { force: true });
+      }
+    });
+
+    it("Should hold back blocks inside the confirmation window", async function () {
+      const { registry, contracts, startBlock, player1 } = await loadFixture(deployIndexerFixture);
+      await mint(registry, player1.address, "Alice", 1847);
+
+      const store = new IndexerStore();
+      const indexer = new SkillProofIndexer(ethers.provider, store, { contracts, startBlock, confirmations: 2 });
+      await indexer.sync();
+      expect(store.count("credential_mints")).to.equal(0);
+
+      await ethers.provider.send("hardhat_mine", ["0x2"]);
+      await indexer.sync();
+      expect(store.count("credential_mints")).to.equal(1);
+    });
+
+    it("Should refuse a store indexed on another chain", async function () {
+      const { contracts, startBlock } = await loadFixture(deployIndexerFixture);
+      const store = new IndexerStore();
+      store.setState("chain_id", "114");
+
+      const indexer = new SkillProofIndexer(ethers.provider, store, { contracts, startBlock });
+      const error = await indexer.sync().catch((e) => e);
+      expect(error.message).to.include("Store was indexed on chain 114");
+    });
+  });
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // Reorgs
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  describe("Reorgs", function () {
+    it("Should roll back orphaned blocks and index the new branch", async function () {
+      const { registry, engine, contracts, startBlock, player1, player2 } = await loadFixture(deployIndexerFixture);
+      await mint(registry, player1.address, "Alice", 1847);
+      const forkBlock = await ethers.provider.getBlockNumber();
+
+      const store = new IndexerStore();
+      const indexer = new SkillProofIndexer(ethers.provider, store, { contracts, startBlock, chunkSize: 3 });
+      await indexer.sync();
+
+      // Branch A: two blocks that will be orphaned
+      const snapshot = await network.provider.send("evm_snapshot");
+      await mint(registry, player2.address, "Bob", 1623);
+      await engine.recordMatch(player1.address, player2.address, 1, "chess");
+      await indexer.sync();
+      expect(store.count("credential_mints")).to.equal(2);
+      expect(store.count("matches")).to.equal(1);
+
+      // Branch B: replace them with a longer chain
+      await network.provider.send("evm_revert", [snapshot]);
+      await engine.recordMatch(player1.address, player2.address, 2, "chess");
+      await ethers.provider.send("hardhat_mine", ["0x3"]);
+
+      const result = await indexer.sync();
+      expect(result.reorg).to.deep.equal({ forkBlock, depth: 2 });
+      expect(store.count("credential_mints")).to.equal(1);
+      expect(store.list("matches").map((m) => m.outcome)).to.deep.equal([2]);
+      expect(store.count("elo_updates")).to.equal(2);
+      expect(store.lastBlock).to.equal(await ethers.provider.getBlockNumber());
+    });
+
+    it("Should detect a reorg to a shorter chain", async function () {
+      const { registry, contracts, startBlock, player1, player2 } = await loadFixture(deployIndexerFixture);
+      await mint(registry, player1.address, "Alice", 1847);
+
+      const store = new IndexerStore();
+      const indexer = new SkillProofIndexer(ethers.provider, store, { contracts, startBlock });
+      const snapshot = await network.provider.send("evm_snapshot");
+      await mint(registry, player2.address, "Bob", 1623);
+      await ethers.provider.send("hardhat_mine", ["0x5"]);
+      await indexer.sync();
+
+      await network.provider.send("evm_revert", [snapshot]);
+      const result = await indexer.sync();
+      expect(result.reorg!.depth).to.equal(6);
+      expect(store.list("credential_mints").map((m) => m.player)).to.deep.equal([player1.address]);
+    });
+
+    it("Should give up on reorgs deeper than maxReorgDepth", async function () {
+      const { registry, contracts, startBlock, player1, player2 } = await loadFixture(deployIndexerFixture);
+      await mint(registry, player1.address, "Alice", 1847);
+
+      const store = new IndexerStore();
+      const indexer = new SkillProofIndexer(ethers.provider, store, {
+        contracts,
+        startBlock,
+        chunkSize: 1,
+        maxReorgDepth: 3,
+      });
+      const snapshot = await network.provider.send("evm_snapshot");
+      await ethers.provider.send("hardhat_mine", ["0x5"]);
+      await indexer.sync();
+
+      await network.provider.send("evm_revert", [snapshot]);
+      await mint(registry, player2.address, "Bob", 1623);
+      await ethers.provider.send("hardhat_mine", ["0x5"]);
+      const error = await indexer.sync().catch((e) => e);
+      expect(error.message).to.include("Reorg deeper than 3 blocks");
+    });
+  });
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // Follow
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  describe("Follow", function () {
+    it("Should pick up new blocks while polling", async function () {
+      const { registry, contracts, startBlock, player1 } = await loadFixture(deployIndexerFixture);
+      const store = new IndexerStore();
+      const results: SyncResult[] = [];
+      const indexer = new SkillProofIndexer(ethers.provider, store, {
+        contracts,
+        startBlock,
+        pollInterval: 20,
+        onSync: (r) => results.push(r),
+      });
+
+      indexer.start();
+      try {
+        await mint(registry, player1.address, "Alice", 1847);
+        const deadline = Date.now() + 5000;
+        while (store.count("credential_mints") === 0 && Date.now() < deadline) {
+          await new Promise((r) => setTimeout(r, 20));
+        }
+      } finally {
+        await indexer.stop();
+      }
+
+      expect(store.count("credential_mints")).to.equal(1);
+      expect(results.some((r) => r.events === 1)).to.be.true;
+    });
+  });
+});
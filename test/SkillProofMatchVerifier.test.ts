@@ -1,6 +1,7 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
 import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { SkillProof, ZKProofError } from "../sdk";
 
 describe("SkillProofMatchVerifier", function () {
   // Real proof generated by snarkjs from our match_history_proof circom circuit.
@@ -310,4 +311,71 @@ describe("SkillProofMatchVerifier", function () {
       expect(commitment).to.equal(COMMITMENT);
     });
   });
+
+  describe("SDK Integration", function () {
+    async function sdkFixture() {
+      const fixture = await deployMatchVerifierFixture();
+      const sdk = new SkillProof(ethers.provider, {
+        matchVerifier: await fixture.matchVerifier.getAddress(),
+      });
+      return { ...fixture, sdk };
+    }
+
+    it("Should prove, register and verify match history end-to-end", async function () {
+      const { sdk, user1 } = await loadFixture(sdkFixture);
+
+      const proof = await sdk.proveMatchHistory({
+        totalMatches: 20,
+        wins: 15,
+        minMatches: 10,
+        minWinRateBps: 7000,
+      });
+
+      await sdk.registerMatchCommitment(user1, proof);
+      await sdk.submitMatchHistoryProof(user1, proof.calldata);
+
+      const verification = await sdk.getMatchVerification(user1.address);
+      expect(verification.verified).to.be.true;
+      expect(verification.minMatches).to.equal(10);
+      expect(verification.minWinRateBps).to.equal(7000);
+      expect(verification.commitment).to.equal(proof.commitment);
+
+      expect(await sdk.meetsMatchRequirements(user1.address, 10, 7000)).to.be.true;
+      expect(await sdk.meetsMatchRequirements(user1.address, 10, 7500)).to.be.false;
+    });
+
+    it("Should reproduce the fixture commitment for a fixed salt", async function () {
+      const { sdk } = await loadFixture(sdkFixture);
+
+      const proof = await sdk.proveMatchHistory({
+        totalMatches: TOTAL_MATCHES,
+        wins: WINS,
+        minMatches: 10,
+        minWinRateBps: 6000,
+        salt: SALT,
+      });
+
+      expect(proof.commitment).to.equal(COMMITMENT);
+      expect(proof.calldata.pubSignals).to.deep.equal(VALID_PROOF.pubSignals);
+    });
+
+    it("Should reject invalid inputs with typed errors before proving", async function () {
+      const { sdk } = await loadFixture(sdkFixture);
+
+      const cases: [Parameters<typeof sdk.proveMatchHistory>[0], string][] = [
+        [{ totalMatches: 10, wins: 11, minMatches: 5, minWinRateBps: 0 }, "WINS_EXCEED_MATCHES"],
+        [{ totalMatches: 8, wins: 8, minMatches: 10, minWinRateBps: 0 }, "BELOW_MIN_MATCHES"],
+        [{ totalMatches: 12, wins: 6, minMatches: 10, minWinRateBps: 6000 }, "BELOW_MIN_WIN_RATE"],
+        [{ totalMatches: 70000, wins: 1, minMatches: 1, minWinRateBps: 0 }, "INVALID_INPUT"],
+        [{ totalMatches: 12, wins: 8, minMatches: 10, minWinRateBps: 10001 }, "INVALID_INPUT"],
+        [{ totalMatches: 12, wins: 8, minMatches: 10, minWinRateBps: 6000, salt: 2n ** 32n }, "INVALID_INPUT"],
+      ];
+
+      for (const [params, code] of cases) {
+        const error = await sdk.proveMatchHistory(params).catch((e) => e);
+        expect(error).to.be.instanceOf(ZKProofError);
+        expect(error.code).to.equal(code);
+      }
+    });
+  });
 });
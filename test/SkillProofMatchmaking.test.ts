@@ -0,0 +1,381 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { once } from "events";
+import { AddressInfo } from "net";
+import * as http from "http";
+import { Duplex } from "stream";
+import {
+  MatchmakingEvent,
+  MatchmakingQueue,
+  MatchmakingServerOptions,
+  MemoryMatchmakingStore,
+  SkillProofMatchmaker,
+  countRematches,
+  createMatchmakingServer,
+  simulateMatchmaking,
+} from "../matchmaking";
+
+describe("SkillProofMatchmaking", function () {
+  const rejection = (p: Promise<unknown>) => p.then(() => "", (e: Error) => e.message);
+  const address = (n: number) => ethers.getAddress("0x" + n.toString(16).padStart(40, "0"));
+  const [A, B, C, D] = [1, 2, 3, 4].map(address);
+
+  async function deployMatchmakingFixture() {
+    const [owner, reporter, alice, bob, carol, dave] = await ethers.getSigners();
+
+    const engine = await (await ethers.getContractFactory("SkillProofEngine")).deploy();
+    await engine.addReporter(reporter.address);
+    await engine.registerPlayerByAddress(alice.address, 1200, ["chess"]);
+    await engine.registerPlayerByAddress(bob.address, 1230, ["chess"]);
+    await engine.registerPlayerByAddress(carol.address, 1600, ["chess", "go"]);
+
+    return { engine, owner, reporter, alice, bob, carol, dave };
+  }
+
+  // The queue lives in memory, so each test gets a fresh matchmaker over the fixture
+  async function deployMatchmaker() {
+    const f = await loadFixture(deployMatchmakingFixture);
+    // Simulated clock, advanced by the tests
+    const clock = { now: 1000 };
+    const matchmaker = new SkillProofMatchmaker(f.reporter, {
+      engine: await f.engine.getAddress(),
+      clock: () => clock.now,
+    });
+    const events: MatchmakingEvent[] = [];
+    matchmaker.subscribe((e) => events.push(e));
+    return { ...f, matchmaker, clock, events };
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // Queue
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  describe("Queue", function () {
+    it("Should widen the search window with waiting time", async function () {
+      const queue = new MatchmakingQueue(undefined, { initialWindow: 50, widenRate: 5, maxWindow: 400 });
+      await queue.join(A, "chess", 1200, 0);
+      await queue.join(B, "chess", 1300, 0);
+
+      expect(await queue.tick(9)).to.deep.equal([]);
+      expect((await queue.tickets(9)).map((t) => t.window)).to.deep.equal([95, 95]);
+
+      const [pairing] = await queue.tick(10);
+      expect(pairing).to.include({ id: 0, player1: A, player2: B, rating1: 1200, rating2: 1300, wait1: 10, wait2: 10 });
+      expect(await queue.tickets(10)).to.deep.equal([]);
+
+      // Capped at maxWindow
+      await queue.join(C, "chess", 1200, 20);
+      expect((await queue.tickets(1000))[0].window).to.equal(400);
+    });
+
+    it("Should pair the closest rating first and keep domains apart", async function () {
+      const queue = new MatchmakingQueue();
+      await queue.join(A, "chess", 1200, 0);
+      await queue.join(B, "chess", 1240, 1);
+      await queue.join(C, "chess", 1215, 2);
+      await queue.join(D, "go", 1205, 3);
+
+      const pairings = await queue.tick(3);
+      expect(pairings.map((p) => [p.player1, p.player2, p.domain])).to.deep.equal([[A, C, "chess"]]);
+      expect((await queue.tickets(3)).map((t) => t.player)).to.deep.equal([B, D]);
+    });
+
+    it("Should avoid recent opponents until both windows are at the maximum", async function () {
+      const queue = new MatchmakingQueue(undefined, { initialWindow: 50, widenRate: 5, maxWindow: 400 });
+      await queue.join(A, "chess", 1200, 0);
+      await queue.join(B, "chess", 1210, 0);
+      await queue.tick(0);
+      await queue.complete(0, 1, null, 5);
+
+      // A fresh opponent is preferred even at a wider gap
+      await queue.join(A, "chess", 1200, 10);
+      await queue.join(B, "chess", 1210, 10);
+      await queue.join(C, "chess", 1290, 10);
+      expect(await queue.tick(10)).to.deep.equal([]);
+      const [fresh] = await queue.tick(18);
+      expect([fresh.player1, fresh.player2]).to.deep.equal([A, C]);
+      await queue.complete(fresh.id, 3, null, 20);
+
+      // Alone in the queue, B meets A again once both windows are at 400
+      await queue.join(A, "chess", 1200, 20);
+      expect(await queue.tick(87)).to.deep.equal([]);
+      const [rematch] = await queue.tick(90);
+      expect([rematch.player1, rematch.player2]).to.deep.equal([B, A]);
+
+      const off = new MatchmakingQueue(undefined, { rematchMemory: 0 });
+      await off.join(A, "chess", 1200, 0);
+      await off.join(B, "chess", 1210, 0);
+      await off.tick(0);
+      await off.complete(0, 1, null, 0);
+      await off.join(A, "chess", 1200, 0);
+      await off.join(B, "chess", 1210, 0);
+      expect(await off.tick(0)).to.have.length(1);
+    });
+
+    it("Should reject duplicate joins, unreported matches and invalid results", async function () {
+      const queue = new MatchmakingQueue();
+      expect(await rejection(queue.join("0x1234", "chess", 1200, 0))).to.equal("Invalid address 0x1234");
+      expect(await rejection(queue.join(A, "chess", -1, 0))).to.equal("Invalid rating");
+
+      await queue.join(A, "chess", 1200, 0);
+      expect(await rejection(queue.join(A.toLowerCase(), "chess", 1200, 0))).to.equal("Already queued");
+      await queue.join(B, "chess", 1200, 0);
+      await queue.tick(0);
+      expect(await rejection(queue.join(A, "chess", 1200, 1))).to.equal("Player has an unreported match (0)");
+
+      expect(await rejection(queue.complete(0, 4 as 1, null, 1))).to.equal("Invalid outcome");
+      expect(await rejection(queue.complete(1, 1, null, 1))).to.equal("Match not found");
+      await queue.complete(0, 2, 7, 1);
+      expect(await rejection(queue.complete(0, 1, null, 2))).to.equal("Already reported");
+      expect(await queue.pairing(0)).to.include({ outcome: 2, engineMatchId: 7, reportedAt: 1 });
+
+      expect(await queue.leave(B)).to.equal(false);
+      await queue.join(B, "chess", 1200, 2);
+      expect(await queue.leave(B.toLowerCase())).to.equal(true);
+      expect(await queue.tickets(2)).to.deep.equal([]);
+    });
+  });
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // Simulation
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  describe("Simulation", function () {
+    it("Should keep waits, rating gaps and rematches bounded for synthetic players", async function () {
+      const report = await simulateMatchmaking({ players: 120, duration: 1800, seed: 7 });
+
+      expect(report.matches).to.be.greaterThan(400);
+      expect(report.windowViolations).to.equal(0);
+      expect(report.gap.max).to.be.at.most(400);
+      expect(report.gap.mean).to.be.lessThan(100);
+      expect(report.wait.p95).to.be.lessThan(60);
+      // Thin edge bands wait longer, but not disproportionately
+      expect(report.waitRatio).to.be.lessThan(3);
+      for (const band of report.bands) expect(band.matches).to.be.greaterThan(report.matches / 3);
+      expect(report.rematches).to.be.at.most(report.matches / 100);
+      // Ratings move toward true skill
+      expect(report.ratingError.end).to.be.lessThan(report.ratingError.start);
+
+      const replay = await simulateMatchmaking({ players: 120, duration: 1800, seed: 7 });
+      expect(replay.pairings).to.deep.equal(report.pairings);
+    });
+
+    it("Should cut rematches in a small population", async function () {
+      const options = { players: 10, duration: 1800, seed: 3 };
+      const remembered = await simulateMatchmaking(options);
+      const memoryless = await simulateMatchmaking({ ...options, rematchMemory: 0 });
+
+      expect(countRematches(remembered.pairings, 1)).to.be.lessThan(countRematches(memoryless.pairings, 1));
+      expect(remembered.windowViolations).to.equal(0);
+    });
+  });
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // Matchmaker (Engine)
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  describe("Matchmaker", function () {
+    it("Should queue players at their Engine rating and record results as the reporter", async function () {
+      const { engine, matchmaker, clock, events, alice, bob, dave } = await deployMatchmaker();
+
+      expect(await rejection(matchmaker.join(dave.address, "chess"))).to.equal("Player not registered");
+      expect(await matchmaker.join(alice.address, "chess")).to.include({ player: alice.address, rating: 1200 });
+      await matchmaker.join(bob.address, "chess");
+
+      const [pairing] = await matchmaker.tick();
+      expect(pairing).to.include({ player1: alice.address, player2: bob.address, createdAt: 1000 });
+
+      clock.now = 1300;
+      const done = await matchmaker.report(pairing.id, 2);
+      expect(done).to.include({ outcome: 2, engineMatchId: 0, reportedAt: 1300 });
+      const match = await engine.getMatch(0);
+      expect([match.player1, match.player2, match.outcome, match.domain]).to.deep.equal([
+        alice.address,
+        bob.address,
+        2n,
+        "chess",
+      ]);
+      expect(await rejection(matchmaker.report(pairing.id, 1))).to.equal("Already reported");
+
+      // Requeueing reads the updated rating
+      const elo = Number((await engine.getPlayer(alice.address)).elo);
+      expect(elo).to.be.lessThan(1200);
+      expect((await matchmaker.join(alice.address, "chess")).rating).to.equal(elo);
+
+      expect(events.map((e) => e.type)).to.deep.equal(["queued", "queued", "paired", "reported", "queued"]);
+    });
+
+    it("Should pair on domain ELO in domain mode", async function () {
+      const { engine, reporter, alice, bob, carol } = await loadFixture(deployMatchmakingFixture);
+      await engine.connect(reporter).recordMatch(carol.address, alice.address, 1, "go");
+      await engine.connect(reporter).recordMatch(carol.address, bob.address, 1, "chess");
+      const matchmaker = new SkillProofMatchmaker(reporter, { engine: await engine.getAddress(), rating: "domain" });
+
+      expect(await rejection(matchmaker.join(carol.address))).to.equal("Domain rating needs a domain");
+      const go = Number(await engine.domainElo(carol.address, "go"));
+      expect(go).to.not.equal(Number((await engine.getPlayer(carol.address)).elo));
+      expect((await matchmaker.join(carol.address, "go")).rating).to.equal(go);
+      // Bob has never played go: his overall rating is used
+      expect((await matchmaker.join(bob.address, "go")).rating).to.equal(
+        Number((await engine.getPlayer(bob.address)).elo)
+      );
+    });
+
+    it("Should leave a pairing open when the reporter is not authorized", async function () {
+      const { engine, owner, alice, bob } = await loadFixture(deployMatchmakingFixture);
+      const [, , , , , , outsider] = await ethers.getSigners();
+      const matchmaker = new SkillProofMatchmaker(outsider, { engine: await engine.getAddress() });
+      await matchmaker.join(alice.address, "chess");
+      await matchmaker.join(bob.address, "chess");
+      const [pairing] = await matchmaker.tick();
+
+      expect(await rejection(matchmaker.report(pairing.id, 1))).to.include("Not authorized");
+      expect((await matchmaker.queue.pairing(pairing.id))!.outcome).to.equal(null);
+      await engine.connect(owner).addReporter(outsider.address);
+      expect((await matchmaker.report(pairing.id, 1)).outcome).to.equal(1);
+    });
+
+    it("Should leave a pairing open when the receipt has no MatchRecorded event", async function () {
+      const { engine, reporter, alice, bob, dave } = await loadFixture(deployMatchmakingFixture);
+      const store = new MemoryMatchmakingStore();
+      const matchmaker = new SkillProofMatchmaker(reporter, { engine: await engine.getAddress(), store });
+      await matchmaker.join(alice.address, "chess");
+      await matchmaker.join(bob.address, "chess");
+      const [pairing] = await matchmaker.tick();
+
+      // Pointed at an account with no code, recordMatch succeeds without logs
+      const misconfigured = new SkillProofMatchmaker(reporter, { engine: dave.address, store });
+      expect(await rejection(misconfigured.report(pairing.id, 1))).to.equal("MatchRecorded event not found in receipt");
+      expect((await matchmaker.queue.pairing(pairing.id))!).to.include({ outcome: null, engineMatchId: null });
+    });
+  });
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // Server
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  describe("Server", function () {
+    let server: http.Server | null = null;
+
+    afterEach(function () {
+      server?.close();
+      server = null;
+    });
+
+    async function serve(matchmaker: SkillProofMatchmaker, options: MatchmakingServerOptions = { authToken: "secret" }) {
+      server = createMatchmakingServer(matchmaker, options);
+      server.listen(0);
+      await once(server, "listening");
+      const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      const call = async (method: string, path: string, body?: unknown, token = "secret") => {
+        const res = await fetch(url + path, {
+          method,
+          headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+          body: body === undefined ? undefined : JSON.stringify(body),
+        });
+        return { status: res.status, body: await res.json() };
+      };
+      return { url, call };
+    }
+
+    it("Should queue, pair and record results over HTTP", async function () {
+      const { engine, matchmaker, alice, bob } = await deployMatchmaker();
+      const { call } = await serve(matchmaker);
+
+      expect(await call("POST", "/queue", { player: alice.address }, "wrong")).to.deep.equal({
+        status: 401,
+        body: { error: "Unauthorized" },
+      });
+      expect((await call("POST", "/queue", { player: alice.address, domain: "chess" })).status).to.equal(201);
+      expect(await call("POST", "/queue", { player: alice.address, domain: "chess" })).to.deep.equal({
+        status: 409,
+        body: { error: "Already queued" },
+      });
+      expect((await call("POST", "/queue", {})).status).to.equal(400);
+      await call("POST", "/queue", { player: bob.address, domain: "chess" });
+
+      const queued = await call("GET", "/queue");
+      expect(queued.body.map((t: { player: string }) => t.player)).to.deep.equal([alice.address, bob.address]);
+      expect(queued.body[0]).to.include({ rating: 1200, window: 50 });
+
+      await matchmaker.tick();
+      expect((await call("GET", "/matches/0")).body).to.include({ player1: alice.address, outcome: null });
+      expect(await call("GET", "/matches/1")).to.deep.equal({ status: 404, body: { error: "Match not found" } });
+      expect((await call("POST", "/matches/0/result", { outcome: 5 })).status).to.equal(400);
+
+      const result = await call("POST", "/matches/0/result", { outcome: 1 });
+      expect(result.body).to.include({ outcome: 1, engineMatchId: 0 });
+      expect(Number(await engine.getMatchCount())).to.equal(1);
+
+      const history = await call("GET", `/players/${bob.address.toLowerCase()}/matches?limit=5`);
+      expect(history.body.map((p: { id: number }) => p.id)).to.deep.equal([0]);
+
+      await call("POST", "/queue", { player: bob.address, domain: "chess" });
+      expect((await call("DELETE", `/queue/${bob.address}`)).body).to.deep.equal({ left: true });
+      expect((await call("DELETE", `/queue/${bob.address}`)).status).to.equal(404);
+      expect((await call("PUT", "/queue")).status).to.equal(405);
+      expect((await call("GET", "/nope")).status).to.equal(404);
+    });
+
+    it("Should refuse writes without an auth token unless explicitly insecure", async function () {
+      const { matchmaker, alice } = await deployMatchmaker();
+      const { call } = await serve(matchmaker, {});
+
+      expect(await call("POST", "/queue", { player: alice.address })).to.deep.equal({
+        status: 401,
+        body: { error: "Unauthorized" },
+      });
+      expect((await call("DELETE", `/queue/${alice.address}`)).status).to.equal(401);
+      expect((await call("POST", "/matches/0/result", { outcome: 1 })).status).to.equal(401);
+      expect(await call("GET", "/queue")).to.deep.equal({ status: 200, body: [] });
+
+      server!.close();
+      const open = await serve(matchmaker, { insecure: true });
+      expect((await open.call("POST", "/queue", { player: alice.address })).status).to.equal(201);
+    });
+
+    it("Should stream a player's events over WebSocket", async function () {
+      const { matchmaker, alice, bob, carol } = await deployMatchmaker();
+      const { url } = await serve(matchmaker);
+
+      const req = http.request(`${url}/events?player=${bob.address}`, {
+        headers: {
+          Connection: "Upgrade",
+          Upgrade: "websocket",
+          "Sec-WebSocket-Key": "dGhlIHNhbXBsZSBub25jZQ==",
+          "Sec-WebSocket-Version": "13",
+        },
+      });
+      req.end();
+      const [res, socket] = (await once(req, "upgrade")) as [http.IncomingMessage, Duplex];
+      // RFC 6455's handshake example
+      expect(res.headers["sec-websocket-accept"]).to.equal("s3pPLMBiTxaQ9kYGzzhZRbK+xOo=");
+
+      const messages: MatchmakingEvent[] = [];
+      let buffer = Buffer.alloc(0);
+      socket.on("data", (chunk: Buffer) => {
+        buffer = Buffer.concat([buffer, chunk]);
+        // Server frames are unmasked; these payloads fit a 16-bit length
+        while (buffer.length >= 4) {
+          const [offset, length] = (buffer[1] & 0x7f) === 126 ? [4, buffer.readUInt16BE(2)] : [2, buffer[1] & 0x7f];
+          if (buffer.length < offset + length) break;
+          if ((buffer[0] & 0x0f) === 1) messages.push(JSON.parse(buffer.subarray(offset, offset + length).toString()));
+          buffer = buffer.subarray(offset + length);
+        }
+      });
+
+      await matchmaker.join(alice.address, "chess");
+      await matchmaker.join(carol.address, "chess");
+      await matchmaker.join(bob.address, "chess");
+      await matchmaker.tick();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      // Carol's join is not Bob's business; the 1200–1230 pairing is
+      expect(messages.map((m) => m.type)).to.deep.equal(["queued", "paired"]);
+      const paired = messages[1] as Extract<MatchmakingEvent, { type: "paired" }>;
+      expect([paired.pairing.player1, paired.pairing.player2]).to.deep.equal([alice.address, bob.address]);
+      socket.destroy();
+    });
+  });
+});
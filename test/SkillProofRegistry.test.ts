@@ -1,6 +1,6 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
-import { SkillProofRegistry } from "../typechain-types";
+import { SkillProofRegistry, SkillProofStaking } from "../typechain-types";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 
 describe("SkillProofRegistry", function () {
@@ -365,4 +365,94 @@ describe("SkillProofRegistry", function () {
       expect(isActive2).to.equal(false);
     });
   });
+
+  describe("Staking Gate", function () {
+    const minimumStake = ethers.parseEther("0.1");
+    let staking: SkillProofStaking;
+
+    beforeEach(async function () {
+      const StakingFactory = await ethers.getContractFactory("SkillProofStaking");
+      staking = await StakingFactory.deploy(minimumStake, 5000);
+      await registry.setStaking(await staking.getAddress());
+    });
+
+    it("should only allow the owner to set the staking contract", async function () {
+      await expect(
+        registry.connect(randomUser).setStaking(await staking.getAddress())
+      ).to.be.revertedWith("Only owner");
+      await expect(registry.setStaking(ethers.ZeroAddress))
+        .to.emit(registry, "StakingUpdated")
+        .withArgs(ethers.ZeroAddress);
+    });
+
+    it("should block an unstaked issuer from minting", async function () {
+      expect(await registry.canIssue(issuer.address)).to.equal(false);
+      await expect(
+        registry.connect(issuer).mintCredential(
+          player1.address, playerName, overallElo, percentile,
+          skillDomains, skillScores, skillPercentiles, totalMatches, winRate
+        )
+      ).to.be.revertedWith("Issuer not staked");
+    });
+
+    it("should allow a staked issuer to mint", async function () {
+      await staking.connect(issuer).stake(issuerName, { value: minimumStake });
+      expect(await registry.canIssue(issuer.address)).to.equal(true);
+
+      await registry.connect(issuer).mintCredential(
+        player1.address, playerName, overallElo, percentile,
+        skillDomains, skillScores, skillPercentiles, totalMatches, winRate
+      );
+      expect(await registry.hasCredential(player1.address)).to.equal(true);
+    });
+
+    it("should still require registration for a staked address", async function () {
+      await staking.connect(randomUser).stake("Unregistered", { value: minimumStake });
+      expect(await registry.canIssue(randomUser.address)).to.equal(false);
+      await expect(
+        registry.connect(randomUser).mintCredential(
+          player1.address, playerName, overallElo, percentile,
+          skillDomains, skillScores, skillPercentiles, totalMatches, winRate
+        )
+      ).to.be.revertedWith("Not active issuer");
+    });
+
+    it("should suspend minting and updating once a slash deactivates the stake", async function () {
+      await staking.connect(issuer).stake(issuerName, { value: minimumStake });
+      await registry.connect(issuer).mintCredential(
+        player1.address, playerName, overallElo, percentile,
+        skillDomains, skillScores, skillPercentiles, totalMatches, winRate
+      );
+
+      await staking.slash(issuer.address, "Fabricated results");
+      expect(await registry.canIssue(issuer.address)).to.equal(false);
+
+      await expect(
+        registry.connect(issuer).mintCredential(
+          player2.address, playerName, overallElo, percentile,
+          skillDomains, skillScores, skillPercentiles, totalMatches, winRate
+        )
+      ).to.be.revertedWith("Issuer not staked");
+      await expect(
+        registry.connect(issuer).updateCredential(
+          player1.address, 1900, percentile, skillScores, skillPercentiles, totalMatches, winRate
+        )
+      ).to.be.revertedWith("Issuer not staked");
+
+      // Revocation is never gated
+      await registry.connect(issuer).revokeCredential(player1.address);
+      expect((await registry.getCredential(player1.address)).isValid).to.equal(false);
+    });
+
+    it("should keep issuing after a slash that leaves the stake above the minimum", async function () {
+      await staking.connect(issuer).stake(issuerName, { value: minimumStake * 4n });
+      await staking.slash(issuer.address, "Late results");
+
+      expect(await registry.canIssue(issuer.address)).to.equal(true);
+      await registry.connect(issuer).mintCredential(
+        player1.address, playerName, overallElo, percentile,
+        skillDomains, skillScores, skillPercentiles, totalMatches, winRate
+      );
+    });
+  });
 });
@@ -0,0 +1,160 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { SkillProofRelayer, MatchInput, MatchReport, signMatchReport } from "../relayer";
+
+describe("SkillProofRelayer", function () {
+  const rejection = (p: Promise<unknown>) => p.then(() => "", (e: Error) => e.message);
+
+  async function deployRelayerFixture() {
+    const [owner, relayerAccount, alice, bob, carol, other] = await ethers.getSigners();
+
+    const engine = await (await ethers.getContractFactory("SkillProofEngine")).deploy();
+    for (const player of [alice, bob, carol]) {
+      await engine.registerPlayerByAddress(player.address, 1200, ["chess"]);
+    }
+
+    // The owner is an authorized reporter; a separate account pays the gas
+    const relayer = new SkillProofRelayer(relayerAccount, {
+      engine: await engine.getAddress(),
+      reporter: owner,
+      batchSize: 2,
+    });
+
+    const match = (player1: string, player2: string, outcome: 1 | 2 | 3 = 1): MatchInput => ({
+      player1,
+      player2,
+      outcome,
+      domain: "chess",
+    });
+
+    return { engine, relayer, match, owner, relayerAccount, alice, bob, carol, other };
+  }
+
+  describe("Batching", function () {
+    it("Should sign, queue and relay matches in batches", async function () {
+      const { engine, relayer, match, owner, relayerAccount, alice, bob, carol } =
+        await loadFixture(deployRelayerFixture);
+
+      const first = await relayer.report(match(alice.address, bob.address));
+      await relayer.report(match(bob.address, carol.address, 3));
+      await relayer.report(match(carol.address, alice.address, 2));
+      expect(first.report.reporter).to.equal(owner.address);
+      expect(relayer.pending.map((s) => s.report.nonce)).to.deep.equal([0, 1, 2]);
+
+      const result = await relayer.flush();
+      expect(result.failed).to.be.empty;
+      expect(result.batches.map((b) => b.matchIds)).to.deep.equal([[0, 1], [2]]);
+      expect(relayer.pending).to.be.empty;
+      expect(await engine.getMatchCount()).to.equal(3);
+      expect(await engine.nonces(owner.address)).to.equal(3);
+      expect(await engine.nonces(relayerAccount.address)).to.equal(0);
+      expect((await engine.getPlayer(alice.address)).wins).to.equal(2);
+    });
+
+    it("Should continue nonces from the chain after a flush", async function () {
+      const { engine, relayer, match, owner, alice, bob } = await loadFixture(deployRelayerFixture);
+
+      await relayer.report(match(alice.address, bob.address));
+      await relayer.flush();
+      const next = await relayer.report(match(bob.address, alice.address));
+
+      expect(next.report.nonce).to.equal(1);
+      await relayer.flush();
+      expect(await engine.nonces(owner.address)).to.equal(2);
+    });
+
+    it("Should relay a report signed by both players", async function () {
+      const { engine, relayer, match, alice, bob } = await loadFixture(deployRelayerFixture);
+      const domain = await relayer.domain();
+      const report = await relayer.prepareReport(match(alice.address, bob.address), alice.address);
+
+      await relayer.enqueue({
+        report,
+        signatures: [await signMatchReport(alice, domain, report), await signMatchReport(bob, domain, report)],
+      });
+      const result = await relayer.flush();
+
+      expect(result.batches[0].matchIds).to.deep.equal([0]);
+      expect(await engine.nonces(alice.address)).to.equal(1);
+    });
+  });
+
+  describe("Validation", function () {
+    it("Should reject reports with invalid signatures", async function () {
+      const { relayer, match, owner, alice, bob, other } = await loadFixture(deployRelayerFixture);
+      const domain = await relayer.domain();
+      const enqueue = (report: MatchReport, signatures: string[]) =>
+        rejection(relayer.enqueue({ report, signatures }));
+
+      // Reporter report signed by someone else
+      const report = await relayer.prepareReport(match(alice.address, bob.address), owner.address);
+      expect(await enqueue(report, [await signMatchReport(other, domain, report)])).to.equal("Invalid signature");
+
+      // Altered after signing
+      const sig = await signMatchReport(owner, domain, report);
+      expect(await enqueue({ ...report, outcome: 2 }, [sig])).to.equal("Invalid signature");
+
+      // Player report missing the opponent's signature, with them swapped, or malformed
+      const playerReport = await relayer.prepareReport(match(alice.address, bob.address), alice.address);
+      const sigA = await signMatchReport(alice, domain, playerReport);
+      const sigB = await signMatchReport(bob, domain, playerReport);
+      expect(await enqueue(playerReport, [sigA])).to.equal("Invalid signature");
+      expect(await enqueue(playerReport, [sigB, sigA])).to.equal("Invalid signature");
+      expect(await enqueue(playerReport, [sigA, "0xdead"])).to.equal("Invalid signature");
+      expect(relayer.pending).to.be.empty;
+    });
+
+    it("Should reject a reporter that is neither authorized nor a player", async function () {
+      const { relayer, match, alice, bob, other } = await loadFixture(deployRelayerFixture);
+      const domain = await relayer.domain();
+      const report = await relayer.prepareReport(match(alice.address, bob.address), other.address);
+
+      const signatures = [await signMatchReport(alice, domain, report), await signMatchReport(bob, domain, report)];
+
+      expect(await rejection(relayer.enqueue({ report, signatures }))).to.contain(
+        "not an authorized reporter or a player"
+      );
+    });
+
+    it("Should reject replayed and duplicate reports", async function () {
+      const { engine, relayer, match, alice, bob } = await loadFixture(deployRelayerFixture);
+
+      const signed = await relayer.report(match(alice.address, bob.address));
+      expect(await rejection(relayer.enqueue(signed))).to.contain("Invalid nonce 0, expected 1");
+
+      await relayer.flush();
+      expect(await rejection(relayer.enqueue(signed))).to.contain("Report already relayed (nonce 0)");
+
+      // The Engine rejects it too, whoever relays it
+      await expect(engine.submitMatchReport(signed.report, signed.signatures)).to.be.revertedWith(
+        "Invalid nonce"
+      );
+      expect(await engine.getMatchCount()).to.equal(1);
+    });
+
+    it("Should reject expired reports", async function () {
+      const { relayer, match, owner, alice, bob } = await loadFixture(deployRelayerFixture);
+      const domain = await relayer.domain();
+      const report = await relayer.prepareReport(match(alice.address, bob.address), owner.address);
+      const sig = await signMatchReport(owner, domain, report);
+
+      await time.increaseTo(report.deadline);
+      expect(await rejection(relayer.enqueue({ report, signatures: [sig] }))).to.contain("Report expired");
+    });
+
+    it("Should report a failed batch without re-queueing it", async function () {
+      const { engine, relayer, match, owner, alice, bob } = await loadFixture(deployRelayerFixture);
+
+      await relayer.report(match(alice.address, bob.address));
+      // The reporter loses its role before the batch lands
+      await engine.connect(owner).removeReporter(owner.address);
+      const result = await relayer.flush();
+
+      expect(result.batches).to.be.empty;
+      expect(result.failed).to.have.length(1);
+      expect(result.failed[0].error).to.contain("Not authorized");
+      expect(relayer.pending).to.be.empty;
+    });
+  });
+});
@@ -0,0 +1,369 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import type { SkillProofTournaments } from "../typechain-types";
+
+describe("SkillProofTournaments", function () {
+  const SINGLE = 0;
+  const DOUBLE = 1;
+  const SWISS = 2;
+  const ACTIVE = 1;
+  const COMPLETED = 2;
+  const CANCELLED = 3;
+  const FEE = ethers.parseEther("1");
+  const PAYOUTS = [5000, 3000, 1000, 1000];
+
+  async function deployTournamentsFixture() {
+    const [owner, outsider, ...rest] = await ethers.getSigners();
+    const field = rest.slice(0, 16);
+
+    const engine = await (await ethers.getContractFactory("SkillProofEngine")).deploy();
+    const tournaments = await (await ethers.getContractFactory("SkillProofTournaments")).deploy(
+      await engine.getAddress()
+    );
+    await engine.addReporter(await tournaments.getAddress());
+
+    // Field registered at 1200, 1225, … so the last signer is the top seed
+    for (let i = 0; i < field.length; i++) {
+      await engine.registerPlayerByAddress(field[i].address, 1200 + i * 25, ["chess"]);
+    }
+
+    return { engine, tournaments, owner, outsider, field };
+  }
+
+  async function openTournament(
+    tournaments: SkillProofTournaments,
+    entrants: Awaited<ReturnType<typeof ethers.getSigners>>,
+    format: number,
+    rounds = 0
+  ) {
+    const id = await tournaments.tournamentCount();
+    await tournaments.createTournament("Open", format, "chess", FEE, 16, rounds, PAYOUTS);
+    for (const player of entrants) {
+      await tournaments.connect(player).join(id, { value: FEE });
+    }
+    await tournaments.start(id);
+    return id;
+  }
+
+  /** Report every pending pairing until the tournament completes; `pick` returns the outcome */
+  async function playOut(
+    tournaments: SkillProofTournaments,
+    id: bigint,
+    pick: (player1: string, player2: string) => number
+  ) {
+    let rounds = 0;
+    while ((await tournaments.getTournament(id)).status === BigInt(ACTIVE)) {
+      const pairings = await tournaments.getPairings(id);
+      const pending = pairings
+        .map((p, i) => ({ p, i }))
+        .filter(({ p }) => p.outcome === 0n);
+      await tournaments.reportResults(
+        id,
+        pending.map(({ i }) => i),
+        pending.map(({ p }) => pick(p.player1, p.player2))
+      );
+      rounds++;
+    }
+    return rounds;
+  }
+
+  /** Deterministic pseudo-random outcomes so upsets are reproducible */
+  function coinFlips(seed: number) {
+    let state = seed;
+    return () => {
+      state = (state * 1103515245 + 12345) % 2 ** 31;
+      return state % 2 === 0 ? 1 : 2;
+    };
+  }
+
+  // ═══════════════════════════════════════════════════
+  // Single elimination
+  // ═══════════════════════════════════════════════════
+
+  describe("Single Elimination", function () {
+    it("Should seed by ELO and pair the standard bracket", async function () {
+      const { tournaments, field } = await loadFixture(deployTournamentsFixture);
+      const id = await openTournament(tournaments, field, SINGLE);
+
+      const seeds = await tournaments.getPlayers(id);
+      expect(seeds).to.deep.equal([...field].reverse().map((p) => p.address));
+      expect((await tournaments.getEntrant(id, seeds[0])).seed).to.equal(1);
+      expect((await tournaments.getEntrant(id, seeds[0])).eloAtStart).to.equal(1575);
+
+      // Seeds 1 and 2 can only meet in the final, the top four in the semifinals
+      const round1 = await tournaments.getPairings(id);
+      const seedOf = (a: string) => seeds.indexOf(a) + 1;
+      expect(round1.map((p) => [seedOf(p.player1), seedOf(p.player2)])).to.deep.equal([
+        [1, 16], [8, 9], [4, 13], [5, 12], [2, 15], [7, 10], [3, 14], [6, 11],
+      ]);
+    });
+
+    it("Should run a full 16-player bracket through the Engine and pay out by placement", async function () {
+      const { engine, tournaments, field } = await loadFixture(deployTournamentsFixture);
+      const id = await openTournament(tournaments, field, SINGLE);
+      const seeds = await tournaments.getPlayers(id);
+      const seedOf = (a: string) => seeds.indexOf(a);
+
+      // Higher seed always wins
+      const rounds = await playOut(tournaments, id, (a, b) => (seedOf(a) < seedOf(b) ? 1 : 2));
+      expect(rounds).to.equal(4);
+
+      const t = await tournaments.getTournament(id);
+      expect(t.status).to.equal(COMPLETED);
+      expect(t.champion).to.equal(seeds[0]);
+      expect(t.prizePool).to.equal(FEE * 16n);
+      expect(await engine.getMatchCount()).to.equal(15);
+
+      // Every pairing links to the Engine match that recorded it
+      const pairings = await tournaments.getPairings(id);
+      const last = pairings[pairings.length - 1];
+      const final = await engine.getMatch(last.engineMatchId);
+      expect([final.player1, final.player2]).to.deep.equal([last.player1, last.player2]);
+      expect((await engine.getPlayer(seeds[0])).wins).to.equal(4);
+
+      // Semifinal losers share 3rd and split the 3rd + 4th place payouts
+      const [ranked, places] = await tournaments.getStandings(id);
+      expect(ranked.slice(0, 2)).to.deep.equal([seeds[0], seeds[1]]);
+      expect(places.slice(0, 8).map(Number)).to.deep.equal([1, 2, 3, 3, 5, 5, 5, 5]);
+      expect(await tournaments.claimable(seeds[0])).to.equal(ethers.parseEther("8"));
+      expect(await tournaments.claimable(seeds[1])).to.equal(ethers.parseEther("4.8"));
+      expect(await tournaments.claimable(seeds[2])).to.equal(ethers.parseEther("1.6"));
+      expect(await tournaments.claimable(seeds[3])).to.equal(ethers.parseEther("1.6"));
+      expect(await tournaments.claimable(seeds[4])).to.equal(0);
+
+      const champion = field.find((p) => p.address === seeds[0])!;
+      await expect(tournaments.connect(champion).claim()).to.changeEtherBalances(
+        [champion, tournaments],
+        [ethers.parseEther("8"), -ethers.parseEther("8")]
+      );
+    });
+
+    it("Should give byes to the top seeds in a partial field", async function () {
+      const { engine, tournaments, field } = await loadFixture(deployTournamentsFixture);
+      const id = await openTournament(tournaments, field.slice(0, 5), SINGLE);
+      const seeds = await tournaments.getPlayers(id);
+
+      const round1 = await tournaments.getPairings(id);
+      const byes = round1.filter((p) => p.player2 === ethers.ZeroAddress);
+      expect(byes.map((p) => p.player1)).to.deep.equal([seeds[0], seeds[1], seeds[2]]);
+      expect(byes.every((p) => p.outcome === 1n)).to.equal(true);
+
+      await playOut(tournaments, id, () => 2);
+      expect(await engine.getMatchCount()).to.equal(4);
+      expect((await tournaments.getTournament(id)).status).to.equal(COMPLETED);
+    });
+  });
+
+  // ═══════════════════════════════════════════════════
+  // Double elimination
+  // ═══════════════════════════════════════════════════
+
+  describe("Double Elimination", function () {
+    it("Should run a 16-player bracket until everyone but the champion has two losses", async function () {
+      const { engine, tournaments, field } = await loadFixture(deployTournamentsFixture);
+      const id = await openTournament(tournaments, field, DOUBLE);
+      const seeds = await tournaments.getPlayers(id);
+
+      const flip = coinFlips(7);
+      await playOut(tournaments, id, () => flip());
+
+      const t = await tournaments.getTournament(id);
+      expect(t.status).to.equal(COMPLETED);
+      const matches = Number(await engine.getMatchCount());
+      // 2n - 2 matches, plus one if the grand final was reset
+      expect([30, 31]).to.include(matches);
+
+      for (const player of seeds) {
+        const e = await tournaments.getEntrant(id, player);
+        if (player === t.champion) {
+          expect(e.losses).to.be.lessThan(2);
+          expect(e.place).to.equal(1);
+        } else {
+          expect(e.losses).to.equal(2);
+        }
+      }
+
+      const pairings = await tournaments.getPairings(id);
+      expect(pairings.some((p) => p.bracket === 1n)).to.equal(true);
+      expect(pairings.filter((p) => p.bracket === 2n).length).to.equal(matches - 29);
+
+      const [, places] = await tournaments.getStandings(id);
+      expect(places.slice(0, 3).map(Number)).to.deep.equal([1, 2, 3]);
+      let total = 0n;
+      for (const player of seeds) total += await tournaments.claimable(player);
+      expect(total).to.equal(FEE * 16n);
+    });
+
+    it("Should reset the grand final when the losers-bracket champion wins it", async function () {
+      const { tournaments, field } = await loadFixture(deployTournamentsFixture);
+      const id = await openTournament(tournaments, field.slice(0, 2), DOUBLE);
+      const [top, bottom] = await tournaments.getPlayers(id);
+
+      // Top seed wins the winners bracket, then loses the grand final and the reset
+      await tournaments.reportResult(id, 0, 1);
+      await tournaments.reportResult(id, 1, 2);
+      let pairings = await tournaments.getPairings(id);
+      expect(pairings[1].bracket).to.equal(2);
+      expect(pairings.length).to.equal(3);
+      expect([pairings[2].player1, pairings[2].player2]).to.deep.equal([top, bottom]);
+
+      await tournaments.reportResult(id, 2, 2);
+      const t = await tournaments.getTournament(id);
+      expect(t.champion).to.equal(bottom);
+      expect((await tournaments.getEntrant(id, top)).place).to.equal(2);
+    });
+  });
+
+  // ═══════════════════════════════════════════════════
+  // Swiss
+  // ═══════════════════════════════════════════════════
+
+  describe("Swiss", function () {
+    it("Should pair by score without rematches and rank by points", async function () {
+      const { engine, tournaments, field } = await loadFixture(deployTournamentsFixture);
+      const id = await openTournament(tournaments, field, SWISS, 4);
+
+      const flip = coinFlips(3);
+      let n = 0;
+      // Every fifth game is drawn
+      const rounds = await playOut(tournaments, id, () => (++n % 5 === 0 ? 3 : flip()));
+      expect(rounds).to.equal(4);
+      expect(await engine.getMatchCount()).to.equal(32);
+
+      const pairings = await tournaments.getPairings(id);
+      const meetings = new Set(pairings.map((p) => [p.player1, p.player2].sort().join()));
+      expect(meetings.size).to.equal(32);
+      expect(pairings.map((p) => Number(p.round))).to.deep.equal([1, 2, 3, 4].flatMap((r) => Array(8).fill(r)));
+
+      const [ranked, places] = await tournaments.getStandings(id);
+      expect(places.map(Number)).to.deep.equal(Array.from({ length: 16 }, (_, i) => i + 1));
+      const points = await Promise.all(ranked.map(async (p) => (await tournaments.getEntrant(id, p)).points));
+      expect(points.reduce((a, b) => a + b, 0n)).to.equal(64n);
+      for (let i = 1; i < points.length; i++) expect(points[i]).to.be.at.most(points[i - 1]);
+      expect((await tournaments.getTournament(id)).champion).to.equal(ranked[0]);
+    });
+
+    it("Should give one bye per round to the lowest-ranked player without one", async function () {
+      const { engine, tournaments, field } = await loadFixture(deployTournamentsFixture);
+      const id = await openTournament(tournaments, field.slice(0, 5), SWISS, 3);
+
+      await playOut(tournaments, id, () => 1);
+      const pairings = await tournaments.getPairings(id);
+      const byes = pairings.filter((p) => p.player2 === ethers.ZeroAddress).map((p) => p.player1);
+      expect(byes).to.have.length(3);
+      expect(new Set(byes).size).to.equal(3);
+      expect(await engine.getMatchCount()).to.equal(6);
+
+      const seeds = await tournaments.getPlayers(id);
+      expect(byes[0]).to.equal(seeds[4]);
+    });
+  });
+
+  // ═══════════════════════════════════════════════════
+  // Validation and escrow
+  // ═══════════════════════════════════════════════════
+
+  describe("Validation", function () {
+    it("Should validate creation and registration", async function () {
+      const { tournaments, outsider, field } = await loadFixture(deployTournamentsFixture);
+
+      await expect(
+        tournaments.connect(outsider).createTournament("X", SINGLE, "chess", FEE, 8, 0, [10000])
+      ).to.be.revertedWith("Not authorized");
+      await expect(tournaments.createTournament("X", SINGLE, "chess", FEE, 65, 0, [10000])).to.be.revertedWith(
+        "Invalid player limit"
+      );
+      await expect(tournaments.createTournament("X", SINGLE, "chess", FEE, 8, 3, [10000])).to.be.revertedWith(
+        "Invalid rounds"
+      );
+      await expect(tournaments.createTournament("X", SWISS, "chess", FEE, 8, 0, [10000])).to.be.revertedWith(
+        "Invalid rounds"
+      );
+      await expect(tournaments.createTournament("X", SINGLE, "chess", FEE, 8, 0, [6000, 3000])).to.be.revertedWith(
+        "Payouts must sum to 10000"
+      );
+
+      await tournaments.createTournament("Duo", SINGLE, "chess", FEE, 2, 0, [10000]);
+      await expect(tournaments.connect(field[0]).join(0, { value: FEE / 2n })).to.be.revertedWith("Wrong entry fee");
+      await expect(tournaments.connect(outsider).join(0, { value: FEE })).to.be.revertedWith("Player not registered");
+      await tournaments.connect(field[0]).join(0, { value: FEE });
+      await expect(tournaments.connect(field[0]).join(0, { value: FEE })).to.be.revertedWith("Already joined");
+      await expect(tournaments.start(0)).to.be.revertedWith("Not enough players");
+      await tournaments.connect(field[1]).join(0, { value: FEE });
+      await expect(tournaments.connect(field[2]).join(0, { value: FEE })).to.be.revertedWith("Tournament full");
+      await expect(tournaments.connect(field[0]).start(0)).to.be.revertedWith("Only organizer");
+    });
+
+    it("Should validate reported results", async function () {
+      const { engine, tournaments, outsider, field } = await loadFixture(deployTournamentsFixture);
+      const id = await openTournament(tournaments, field.slice(0, 4), SINGLE);
+
+      await expect(tournaments.connect(outsider).reportResult(id, 0, 1)).to.be.revertedWith("Only organizer");
+      await expect(tournaments.reportResult(id, 0, 3)).to.be.revertedWith("Draws not allowed");
+      await expect(tournaments.reportResult(id, 0, 4)).to.be.revertedWith("Invalid outcome");
+      await expect(tournaments.reportResult(id, 2, 1)).to.be.revertedWith("Not in current round");
+      await tournaments.reportResult(id, 0, 1);
+      await expect(tournaments.reportResult(id, 0, 1)).to.be.revertedWith("Already reported");
+      await tournaments.reportResult(id, 1, 1);
+
+      // Earlier rounds are closed once the next one is paired
+      await expect(tournaments.reportResult(id, 1, 2)).to.be.revertedWith("Not in current round");
+
+      // Results cannot land if the Engine stops trusting the contract
+      await engine.removeReporter(await tournaments.getAddress());
+      await expect(tournaments.reportResult(id, 2, 1)).to.be.revertedWith("Not authorized");
+    });
+
+    it("Should refund entry fees when a tournament is cancelled", async function () {
+      const { tournaments, outsider, field } = await loadFixture(deployTournamentsFixture);
+      await tournaments.createTournament("Open", SINGLE, "chess", FEE, 8, 0, [10000]);
+      await tournaments.connect(field[0]).join(0, { value: FEE });
+      await tournaments.connect(field[1]).join(0, { value: FEE });
+
+      await expect(tournaments.connect(outsider).cancel(0)).to.be.revertedWith("Only organizer");
+      await tournaments.cancel(0);
+      expect((await tournaments.getTournament(0)).status).to.equal(CANCELLED);
+      await expect(tournaments.connect(field[2]).join(0, { value: FEE })).to.be.revertedWith("Registration closed");
+
+      await expect(tournaments.connect(field[0]).claim()).to.changeEtherBalance(field[0], FEE);
+      await expect(tournaments.connect(field[0]).claim()).to.be.revertedWith("Nothing to claim");
+      expect(await tournaments.claimable(field[1].address)).to.equal(FEE);
+    });
+
+    it("Should let the organizer cancel a running tournament and refund the pool", async function () {
+      const { tournaments, field } = await loadFixture(deployTournamentsFixture);
+      const id = await openTournament(tournaments, field.slice(0, 4), SINGLE);
+      await tournaments.reportResult(id, 0, 1);
+
+      await expect(tournaments.cancel(id)).to.emit(tournaments, "TournamentCancelled").withArgs(id);
+      expect((await tournaments.getTournament(id)).prizePool).to.equal(0);
+      for (const player of field.slice(0, 4)) {
+        expect(await tournaments.claimable(player.address)).to.equal(FEE);
+      }
+      await expect(tournaments.reportResult(id, 1, 1)).to.be.revertedWith("Not active");
+      await expect(tournaments.cancel(id)).to.be.revertedWith("Tournament over");
+    });
+
+    it("Should let anyone cancel a tournament stalled by a lost Engine reporter", async function () {
+      const { engine, tournaments, outsider, field } = await loadFixture(deployTournamentsFixture);
+      const id = await openTournament(tournaments, field.slice(0, 4), SINGLE);
+      await tournaments.reportResult(id, 0, 1);
+      const reportedAt = await time.latest();
+
+      // The Engine stops accepting results, so the bracket can never finish
+      await engine.removeReporter(await tournaments.getAddress());
+      await expect(tournaments.reportResult(id, 1, 1)).to.be.revertedWith("Not authorized");
+
+      const stallTimeout = await tournaments.STALL_TIMEOUT();
+      expect(await tournaments.lastProgressAt(id)).to.equal(reportedAt);
+      await expect(tournaments.connect(outsider).cancel(id)).to.be.revertedWith("Only organizer");
+      await time.increase(stallTimeout);
+      await expect(tournaments.connect(outsider).cancel(id)).to.emit(tournaments, "TournamentCancelled").withArgs(id);
+
+      // The result already recorded on the Engine stands
+      expect((await tournaments.getPairings(id))[0].outcome).to.equal(1);
+      await expect(tournaments.connect(field[3]).claim()).to.changeEtherBalance(field[3], FEE);
+    });
+  });
+});
@@ -1,6 +1,6 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
-import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
 
 describe("SkillProofTreasury", function () {
   const CREDENTIAL_FEE = ethers.parseEther("0.01");
@@ -372,4 +372,172 @@ describe("SkillProofTreasury", function () {
       expect(total).to.equal(credentials + markets + verifications + bounties);
     });
   });
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // Protocol Wiring
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  describe("Protocol Wiring", function () {
+    const FEED_ID = "0x01464c522f55534400000000000000000000000000";
+
+    async function deployWiredFixture() {
+      const { treasury, owner, issuer, user, solver, unauthorized } = await loadFixture(deployTreasuryFixture);
+      const treasuryAddr = await treasury.getAddress();
+
+      const registry = await (await ethers.getContractFactory("SkillProofRegistry")).deploy();
+      const hub = await (await ethers.getContractFactory("SkillProofHub")).deploy(
+        await registry.getAddress(),
+        ethers.ZeroAddress,
+        1500
+      );
+      const verifier = await (await ethers.getContractFactory("SkillProofVerifier")).deploy(
+        await registry.getAddress()
+      );
+
+      await registry.registerIssuer(issuer.address, "FinCraft");
+      // Credentials for the market creator and bounty solver, minted before fees are on
+      await registry.connect(issuer).mintCredential(user.address, "User", 1800, 90, [], [], [], 10, 6000);
+      await registry.connect(issuer).mintCredential(solver.address, "Solver", 1700, 80, [], [], [], 10, 5000);
+
+      await registry.setTreasury(treasuryAddr);
+      await hub.setTreasury(treasuryAddr);
+      await verifier.setTreasury(treasuryAddr);
+      await treasury.setFeeCollectors(await registry.getAddress(), await hub.getAddress());
+      await treasury.setVerifier(await verifier.getAddress(), true);
+
+      return { treasury, registry, hub, verifier, owner, issuer, user, solver, unauthorized };
+    }
+
+    it("Should charge the minting fee on Registry.mintCredential", async function () {
+      const { treasury, registry, issuer, unauthorized } = await loadFixture(deployWiredFixture);
+      expect(await registry.mintFee(issuer.address)).to.equal(CREDENTIAL_FEE);
+
+      await expect(
+        registry.connect(issuer).mintCredential(unauthorized.address, "New", 1500, 50, [], [], [], 0, 0)
+      ).to.be.revertedWith("Insufficient credential fee");
+
+      const tx = registry
+        .connect(issuer)
+        .mintCredential(unauthorized.address, "New", 1500, 50, [], [], [], 0, 0, { value: CREDENTIAL_FEE });
+      await expect(tx)
+        .to.emit(treasury, "CredentialFeeCollected")
+        .withArgs(issuer.address, unauthorized.address, CREDENTIAL_FEE);
+      await expect(tx).to.changeEtherBalance(treasury, CREDENTIAL_FEE);
+      expect(await treasury.issuerFeesGenerated(issuer.address)).to.equal(CREDENTIAL_FEE);
+
+      // Updates stay free
+      await registry.connect(issuer).updateCredential(unauthorized.address, 1600, 60, [], [], 1, 10000);
+    });
+
+    it("Should charge the market fee on Hub.createMarket", async function () {
+      const { treasury, hub, user } = await loadFixture(deployWiredFixture);
+      const now = await time.latest();
+      const create = (value: bigint) =>
+        hub.connect(user).createMarket("FLR > $1?", FEED_ID, 100000, now + 3600, now + 7200, { value });
+
+      expect(await hub.marketFee(user.address)).to.equal(MARKET_FEE);
+      await expect(create(0n)).to.be.revertedWith("Insufficient market fee");
+      await expect(create(MARKET_FEE)).to.emit(treasury, "MarketFeeCollected").withArgs(user.address, MARKET_FEE);
+      expect(await treasury.totalMarketsCreated()).to.equal(1);
+    });
+
+    it("Should route Hub.awardBounty through the bounty commission", async function () {
+      const { treasury, hub, user, solver } = await loadFixture(deployWiredFixture);
+      const reward = ethers.parseEther("1.0");
+      const now = await time.latest();
+      await hub.connect(user).postBounty("Solve it", now + 3600, now + 7200, { value: reward });
+
+      const salt = ethers.id("salt");
+      await hub.connect(solver).commitSolution(0, ethers.solidityPackedKeccak256(["string", "bytes32"], ["42", salt]));
+      await time.increaseTo(now + 3601);
+      await hub.connect(solver).revealSolution(0, "42", salt);
+
+      const commission = (reward * BOUNTY_COMMISSION_BPS) / 10000n;
+      expect(await hub.bountyCommission(0, solver.address)).to.equal(commission);
+
+      const tx = hub.connect(user).awardBounty(0, solver.address);
+      await expect(tx).to.emit(treasury, "BountyCommissionCollected").withArgs(solver.address, commission, reward);
+      await expect(tx).to.changeEtherBalances([solver, treasury, hub], [reward - commission, commission, -reward]);
+    });
+
+    it("Should charge the verification fee on Merkle verifications", async function () {
+      const { treasury, verifier, owner, user } = await loadFixture(deployWiredFixture);
+      // Single-leaf tree: the root is the leaf and the proof is empty
+      const leaf = ethers.id("credential-leaf");
+      await verifier.connect(owner).updateMerkleRoot(leaf);
+
+      expect(await verifier.verificationFee(user.address)).to.equal(VERIFICATION_FEE);
+      await expect(verifier.connect(user).verifyAndRecord(leaf, [])).to.be.revertedWith("Insufficient verification fee");
+      await expect(verifier.connect(user).verifyAndRecord(leaf, [], { value: VERIFICATION_FEE }))
+        .to.emit(treasury, "VerificationFeeCollected")
+        .withArgs(user.address, VERIFICATION_FEE);
+    });
+
+    it("Should waive every fee for exempt accounts", async function () {
+      const { treasury, registry, hub, issuer, user, solver, unauthorized } = await loadFixture(deployWiredFixture);
+
+      await expect(treasury.connect(unauthorized).setFeeExempt(issuer.address, true)).to.be.revertedWith("Only owner");
+      await expect(treasury.setFeeExempt(issuer.address, true))
+        .to.emit(treasury, "FeeExemptionUpdated")
+        .withArgs(issuer.address, true);
+      await treasury.setFeeExempt(user.address, true);
+      await treasury.setFeeExempt(solver.address, true);
+
+      expect(await registry.mintFee(issuer.address)).to.equal(0);
+      expect(await hub.marketFee(user.address)).to.equal(0);
+      expect(await treasury.bountyCommissionFor(solver.address, ethers.parseEther("1.0"))).to.equal(0);
+
+      await registry.connect(issuer).mintCredential(unauthorized.address, "Free", 1500, 50, [], [], [], 0, 0);
+      const now = await time.latest();
+      await hub.connect(user).createMarket("Free market", FEED_ID, 1, now + 3600, now + 7200);
+      expect(await treasury.totalCredentialsMinted()).to.equal(1);
+      expect(await treasury.totalMarketsCreated()).to.equal(1);
+      expect(await treasury.totalRevenue()).to.equal(0);
+
+      await treasury.setFeeExempt(issuer.address, false);
+      expect(await registry.mintFee(issuer.address)).to.equal(CREDENTIAL_FEE);
+    });
+
+    it("Should only let the wired contracts collect fees on a payer's behalf", async function () {
+      const { treasury, registry, hub, verifier, owner, issuer, user, unauthorized } = await loadFixture(deployWiredFixture);
+      await treasury.setFeeExempt(unauthorized.address, true);
+
+      // Even an exempt outsider cannot inflate the counters or credit an issuer
+      await expect(
+        treasury.connect(unauthorized).collectCredentialFee(issuer.address, user.address)
+      ).to.be.revertedWith("Only registry");
+      await expect(treasury.connect(unauthorized).collectMarketFee(unauthorized.address)).to.be.revertedWith("Only hub");
+      await expect(
+        treasury.connect(unauthorized).collectVerificationFee(unauthorized.address)
+      ).to.be.revertedWith("Only verifier");
+      expect(await treasury.totalCredentialsMinted()).to.equal(0);
+      expect(await treasury.issuerFeesGenerated(issuer.address)).to.equal(0);
+
+      await expect(
+        treasury.connect(unauthorized).setFeeCollectors(unauthorized.address, unauthorized.address)
+      ).to.be.revertedWith("Only owner");
+      await expect(treasury.connect(unauthorized).setVerifier(unauthorized.address, true)).to.be.revertedWith("Only owner");
+      expect(await treasury.registry()).to.equal(await registry.getAddress());
+      expect(await treasury.hub()).to.equal(await hub.getAddress());
+
+      await expect(treasury.setVerifier(await verifier.getAddress(), false))
+        .to.emit(treasury, "VerifierUpdated")
+        .withArgs(await verifier.getAddress(), false);
+      const leaf = ethers.id("credential-leaf");
+      await verifier.connect(owner).updateMerkleRoot(leaf);
+      await expect(
+        verifier.connect(user).verifyAndRecord(leaf, [], { value: VERIFICATION_FEE })
+      ).to.be.revertedWith("Only verifier");
+    });
+
+    it("Should reject payments when no treasury is set", async function () {
+      const { registry, issuer, unauthorized } = await loadFixture(deployWiredFixture);
+      await registry.setTreasury(ethers.ZeroAddress);
+
+      expect(await registry.mintFee(issuer.address)).to.equal(0);
+      await expect(
+        registry.connect(issuer).mintCredential(unauthorized.address, "New", 1500, 50, [], [], [], 0, 0, { value: 1n })
+      ).to.be.revertedWith("Minting is free");
+    });
+  });
 });
@@ -1,6 +1,7 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
 import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { SkillProofClient, verifyMerkleProof } from "../sdk";
 
 // ─── Off-chain Merkle tree helpers (mirrors Solidity _buildMerkleRoot) ────────
 
@@ -738,4 +739,74 @@ describe("SkillProofVerifier", function () {
       expect(await verifier.getMerkleRoot()).to.equal(root);
     });
   });
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // SDK Merkle Tree
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  describe("SDK Merkle Tree", function () {
+    async function sdkFixture() {
+      const base = await deployVerifierFixture();
+      const addresses = {
+        registry: await base.registry.getAddress(),
+        verifier: await base.verifier.getAddress(),
+      };
+      const operator = new SkillProofClient(base.owner, addresses);
+      return { ...base, operator, addresses };
+    }
+
+    it("Should match updateMerkleRootFromRegistry, including padding and missing credentials", async function () {
+      const { verifier, operator, player1, player3, unverified } = await loadFixture(sdkFixture);
+
+      // 3 leaves → padded to 4; `unverified` hashes an empty credential on-chain too
+      const users = [player3.address, unverified.address, player1.address];
+      await verifier.updateMerkleRootFromRegistry(users);
+
+      const { root } = await operator.buildMerkleProofs(users);
+      expect(root).to.equal(await verifier.credentialMerkleRoot());
+    });
+
+    it("Should match updateMerkleRootWithThresholds leaf ordering", async function () {
+      const { registry, verifier, operator, player1, player2, player3, player4 } =
+        await loadFixture(sdkFixture);
+
+      // Revoked credentials keep their data in the Registry and are still hashed
+      await registry.revokeCredential(player4.address);
+
+      const users = [player4.address, player1.address, player3.address, player2.address];
+      const thresholds = [1800, 1000, 2100, 1500];
+      await verifier.updateMerkleRootWithThresholds(users, thresholds);
+
+      const proofs = await operator.buildMerkleProofs(users, thresholds);
+      expect(proofs.root).to.equal(await verifier.credentialMerkleRoot());
+      expect(Object.keys(proofs.users[player3.address].thresholds)).to.have.members([
+        "1800", "1000", "2100", "1500",
+      ]);
+      expect(proofs.users[player2.address].thresholds).to.have.keys(["1000", "1500"]);
+    });
+
+    it("Should export JSON proofs that verify on-chain", async function () {
+      const { verifier, operator, addresses, player1, player2, player3 } =
+        await loadFixture(sdkFixture);
+
+      const users = [player1.address, player2.address, player3.address];
+      const proofs = await operator.buildMerkleProofs(users, [1500, 2000]);
+      await operator.updateMerkleRoot(proofs.root);
+
+      const exported: typeof proofs = JSON.parse(JSON.stringify(proofs));
+      const entry = exported.users[player1.address];
+      expect(entry.credential).to.include({ playerName: PLAYERS.p1.name, overallElo: PLAYERS.p1.elo });
+      expect(verifyMerkleProof(entry.credential.leaf, entry.credential.proof, exported.root)).to.be.true;
+
+      const user1 = new SkillProofClient(player1, addresses);
+      const { events } = await user1.verifyAndRecord(entry.credential.leaf, entry.credential.proof);
+      expect(events[0].name).to.equal("CredentialVerified");
+
+      const gamma = exported.users[player3.address].thresholds["2000"];
+      await operator.verifyThresholdProof(player3.address, 2000, gamma.proof);
+      expect(await verifier.isVerifiedAboveThreshold(player3.address)).to.be.true;
+
+      expect(exported.users[player2.address].thresholds["2000"]).to.be.undefined;
+    });
+  });
 });
@@ -1,6 +1,7 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
 import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { proveEloThreshold } from "../sdk/zk";
 
 describe("SkillProofZKVerifier", function () {
   // Real proof generated by snarkjs from our circom circuit.
@@ -155,6 +156,33 @@ describe("SkillProofZKVerifier", function () {
     });
   });
 
+  describe("SDK-Generated Proofs", function () {
+    it("Should accept a proof generated in-process with a random salt", async function () {
+      const { zkVerifier, user1 } = await loadFixture(deployZKFixture);
+
+      const { calldata, commitment } = await proveEloThreshold({ elo: 2105, threshold: 1800 });
+
+      await expect(
+        zkVerifier
+          .connect(user1)
+          .verifyThresholdZK(calldata.pA, calldata.pB, calldata.pC, calldata.pubSignals)
+      )
+        .to.emit(zkVerifier, "ZKThresholdVerified")
+        .withArgs(user1.address, 1800, commitment);
+    });
+
+    it("Should reproduce the fixture commitment for a fixed salt", async function () {
+      const { commitment, calldata } = await proveEloThreshold({
+        elo: 1847,
+        threshold: 1500,
+        salt: 12345,
+      });
+
+      expect(commitment).to.equal(53021371270967n);
+      expect(calldata.pubSignals).to.deep.equal(VALID_PROOF.pubSignals);
+    });
+  });
+
   describe("Invalid Proof Rejection", function () {
     it("Should reject proof with tampered pA", async function () {
       const { zkVerifier, user1 } = await loadFixture(deployZKFixture);
@@ -264,6 +292,28 @@ describe("SkillProofZKVerifier", function () {
     });
   });
 
+  describe("Verification Fees", function () {
+    it("Should charge the treasury's verification fee once wired", async function () {
+      const { zkVerifier, owner, user1 } = await loadFixture(deployZKFixture);
+      const fee = ethers.parseEther("0.005");
+      const treasury = await (await ethers.getContractFactory("SkillProofTreasury")).deploy(0, 0, fee, 0);
+      const submit = (value: bigint) =>
+        zkVerifier
+          .connect(user1)
+          .verifyThresholdZK(VALID_PROOF.pA, VALID_PROOF.pB, VALID_PROOF.pC, VALID_PROOF.pubSignals, { value });
+
+      await expect(submit(fee)).to.be.revertedWith("Verification is free");
+      await expect(zkVerifier.connect(user1).setTreasury(await treasury.getAddress())).to.be.revertedWith("Only owner");
+      await zkVerifier.connect(owner).setTreasury(await treasury.getAddress());
+      await treasury.setVerifier(await zkVerifier.getAddress(), true);
+
+      expect(await zkVerifier.verificationFee(user1.address)).to.equal(fee);
+      await expect(submit(0n)).to.be.revertedWith("Insufficient verification fee");
+      await expect(submit(fee)).to.changeEtherBalance(treasury, fee);
+      expect(await treasury.totalVerificationsProcessed()).to.equal(1);
+    });
+  });
+
   describe("View Functions", function () {
     it("Should return false for unverified users", async function () {
       const { zkVerifier, user1 } = await loadFixture(deployZKFixture);